@@ -0,0 +1,55 @@
+/**
+ * App Service Worker
+ *
+ * Lets the app load while the server is unreachable, so a till can be
+ * reloaded and keep selling offline. Pages, scripts, styles and images come
+ * from the network while it answers and are saved as they load; without it,
+ * the saved copies are used. API requests are left alone: the POS keeps its
+ * own offline copies of the data it needs.
+ */
+const CACHE = "inventory-pro-app-v1";
+
+self.addEventListener("install", () => self.skipWaiting());
+
+self.addEventListener("activate", event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name !== CACHE).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// The page sends what it loaded before this worker took over, so those are saved too
+self.addEventListener("message", event => {
+  if (event.data && event.data.type === "cache-urls") {
+    event.waitUntil(caches.open(CACHE).then(cache =>
+      Promise.all(event.data.urls.map(url => cache.add(url).catch(() => undefined)))
+    ));
+  }
+});
+
+self.addEventListener("fetch", event => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) {
+    return;
+  }
+
+  event.respondWith((async () => {
+    const cache = await caches.open(CACHE);
+    try {
+      const response = await fetch(event.request);
+      if (response.ok) {
+        await cache.put(event.request, response.clone());
+      }
+      return response;
+    } catch (error) {
+      // Every page of the app is served by the same index.html
+      const saved = await cache.match(event.request) ||
+        (event.request.mode === "navigate" ? await cache.match("/") : undefined);
+      if (saved) {
+        return saved;
+      }
+      throw error;
+    }
+  })());
+});
@@ -5,7 +5,7 @@
  * Includes protected routes that require authentication before access.
  */
 import { Switch, Route, useLocation, Redirect } from "wouter";
-import { queryClient } from "./lib/queryClient";
+import { queryClient, apiRequest } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
@@ -20,12 +20,21 @@ import Reports from "@/pages/Reports";
 import Losses from "@/pages/Losses";
 import Settings from "@/pages/Settings";
 import Sales from "@/pages/Sales";
+import Promotions from "@/pages/Promotions";
+import AlertRules from "@/pages/AlertRules";
+import Shifts from "@/pages/Shifts";
+import Suppliers from "@/pages/Suppliers";
+import PurchaseOrders from "@/pages/PurchaseOrders";
+import Receiving from "@/pages/Receiving";
+import StockCounts from "@/pages/StockCounts";
+import Transfers from "@/pages/Transfers";
 import Logs from "@/pages/Logs";
 import ProfitTracker from "@/pages/ProfitTracker";
 import Login from "@/pages/Login";
 import Sidebar from "@/components/SidebarNew";
 import { useAppContext } from "./context/AppContext";
 import LogoutModal from "./components/LogoutModal";
+import NotificationPanel from "./components/NotificationPanel";
 
 /**
  * Types for user authentication and route protection
@@ -179,8 +188,16 @@ function RouterComponent() {
         "/alerts": "Reorder Alerts",
         "/losses": "Losses",
         "/profit-tracker": "Profit Tracker",
+        "/alert-rules": "Alert Rules",
         "/settings": "Settings",
         "/sales": "Sales History",
+        "/promotions": "Promotions",
+        "/shifts": "Shifts",
+        "/suppliers": "Suppliers",
+        "/purchase-orders": "Purchase Orders",
+        "/receiving": "Receiving",
+        "/stock-counts": "Stock Counts",
+        "/transfers": "Transfers",
         "/logs": "System Logs"
       };
       
@@ -262,6 +279,55 @@ function RouterComponent() {
         <ProtectedRoute component={Sales} requiredRoles={['Administrator', 'Manager', 'Cashier']} />
       </Route>
       
+      {/* Promotions - admin and manager only */}
+      <Route path="/promotions">
+        <ProtectedRoute component={Promotions} requiredRoles={ADMIN_AND_MANAGER} />
+      </Route>
+      
+      {/* Alert Rules - admin and manager only */}
+      <Route path="/alert-rules">
+        <ProtectedRoute component={AlertRules} requiredRoles={ADMIN_AND_MANAGER} />
+      </Route>
+      
+      {/* Shifts - admin and manager only */}
+      <Route path="/shifts">
+        <ProtectedRoute component={Shifts} requiredRoles={ADMIN_AND_MANAGER} />
+      </Route>
+      
+      {/* Suppliers - admin and manager only */}
+      <Route path="/suppliers">
+        <ProtectedRoute component={Suppliers} requiredRoles={ADMIN_AND_MANAGER} />
+      </Route>
+      
+      {/* Purchase Orders - admin and manager only */}
+      <Route path="/purchase-orders">
+        <ProtectedRoute component={PurchaseOrders} requiredRoles={ADMIN_AND_MANAGER} />
+      </Route>
+      
+      {/* Receiving - accessible to admin, manager, and stocker */}
+      <Route path="/receiving">
+        <ProtectedRoute 
+          component={Receiving} 
+          requiredRoles={['Administrator', 'Manager', 'Stocker']} 
+        />
+      </Route>
+      
+      {/* Stock Counts - accessible to admin, manager, and stocker */}
+      <Route path="/stock-counts">
+        <ProtectedRoute 
+          component={StockCounts} 
+          requiredRoles={['Administrator', 'Manager', 'Stocker']} 
+        />
+      </Route>
+      
+      {/* Transfers - accessible to admin, manager, and stocker */}
+      <Route path="/transfers">
+        <ProtectedRoute 
+          component={Transfers} 
+          requiredRoles={['Administrator', 'Manager', 'Stocker']} 
+        />
+      </Route>
+      
       {/* System Logs - admin only */}
       <Route path="/logs">
         <ProtectedRoute component={Logs} requiredRoles={ADMIN_ONLY} />
@@ -301,6 +367,33 @@ function App() {
     meta.content = "default-src 'self'; script-src 'self' 'unsafe-inline'; style-src 'self' 'unsafe-inline'; img-src 'self' data:; font-src 'self' data:;";
     document.head.appendChild(meta);
     
+    // Track the last user interaction so only active sessions are refreshed
+    let lastInteraction = Date.now();
+    const recordInteraction = () => {
+      lastInteraction = Date.now();
+    };
+    window.addEventListener("mousedown", recordInteraction);
+    window.addEventListener("keydown", recordInteraction);
+    
+    // Refresh the session token when it is close to expiry
+    const refreshWindowMs = 10 * 60 * 1000;
+    const refreshSession = async () => {
+      try {
+        const response = await apiRequest({ url: "/api/session/refresh", method: "POST" });
+        const result = await response.json();
+        const userJSON = sessionStorage.getItem("user");
+        if (userJSON && result.success) {
+          sessionStorage.setItem("user", JSON.stringify({
+            ...JSON.parse(userJSON),
+            token: result.token,
+            sessionValidUntil: result.sessionValidUntil
+          }));
+        }
+      } catch (error) {
+        // A failed refresh is handled by the expiry check on the next tick
+      }
+    };
+    
     // Session check interval - verify user session periodically
     const sessionCheckInterval = setInterval(() => {
       try {
@@ -308,8 +401,8 @@ function App() {
         if (userJSON) {
           const user = JSON.parse(userJSON);
           
-          // Validate user object structure
-          if (!user || typeof user !== 'object' || !user.id || !user.role) {
+          // Validate user object structure; sessions without a server-issued token are no longer valid
+          if (!user || typeof user !== 'object' || !user.id || !user.role || !user.token) {
             sessionStorage.removeItem("user");
             window.location.href = "/login";
           }
@@ -322,6 +415,8 @@ function App() {
             if (now > sessionExpiry) {
               sessionStorage.removeItem("user");
               window.location.href = "/login";
+            } else if (sessionExpiry - now < refreshWindowMs && now - lastInteraction < refreshWindowMs) {
+              refreshSession();
             }
           } else {
             // Fallback to checking lastActive if sessionValidUntil is not present
@@ -345,6 +440,8 @@ function App() {
     
     return () => {
       clearInterval(sessionCheckInterval);
+      window.removeEventListener("mousedown", recordInteraction);
+      window.removeEventListener("keydown", recordInteraction);
     };
   }, []);
   
@@ -365,6 +462,7 @@ function App() {
               </div>
             </div>
             <LogoutModal />
+            <NotificationPanel />
           </div>
         )}
       </TooltipProvider>
@@ -1,12 +1,20 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import BarcodeScanner from "./BarcodeScanner";
+import BarcodeListEditor from "./BarcodeListEditor";
+import BundleComponentsEditor from "./BundleComponentsEditor";
 import ImageUploader from "./ImageUploader";
+import LocationSelect from "./LocationSelect";
+import CategoryOptions, { useCategories } from "./CategoryOptions";
+import type { BundleComponent, ItemBarcode } from "@shared/schema";
+import { DEFAULT_LOCATION_ID } from "@shared/locations";
+import { categorySetting, findCategory } from "@shared/categories";
 
 // Define schema for inventory item validation
 const inventoryItemSchema = z.object({
@@ -20,6 +28,12 @@ const inventoryItemSchema = z.object({
   threshold: z.coerce.number().min(0, "Threshold must be a positive number"),
   image: z.string().optional(),
   barcode: z.string().optional(),
+  taxExempt: z.boolean().default(false),
+  soldByWeight: z.boolean().default(false),
+  tare: z.coerce.number().min(0, "Tare must be a positive number").default(0),
+  plu: z.string().regex(/^\d{0,6}$/, "PLU must be up to 6 digits").default(""),
+  lotNumber: z.string().max(64).default(""),   // Lot and expiry of stock being added
+  expiryDate: z.string().default(""),
 });
 
 type InventoryItemFormValues = z.infer<typeof inventoryItemSchema>;
@@ -31,15 +45,17 @@ interface ProductLookupResponse {
   category?: string;
   imageUrl?: string;
   success: boolean;
-  source?: string;
+  source?: string;     // "Inventory" when the barcode already belongs to one of our items
 }
 
 interface AddInventoryItemFormProps {
+  locationId?: number;   // Where the opening stock is put; the main location by default
   onSuccess?: () => void;
   onCancel?: () => void;
 }
 
 const AddInventoryItemForm: React.FC<AddInventoryItemFormProps> = ({
+  locationId: initialLocationId,
   onSuccess,
   onCancel
 }) => {
@@ -47,8 +63,21 @@ const AddInventoryItemForm: React.FC<AddInventoryItemFormProps> = ({
   const [scannerActive, setScannerActive] = useState(false);
   const [uploadedImage, setUploadedImage] = useState<string>("");
   const [isLookingUp, setIsLookingUp] = useState(false);
+  const [barcodes, setBarcodes] = useState<ItemBarcode[]>([]);
+  const [components, setComponents] = useState<BundleComponent[]>([]);
+  const [locationId, setLocationId] = useState<number>(initialLocationId ?? DEFAULT_LOCATION_ID);
   const { toast } = useToast();
   
+  // The catalog, to choose bundle contents from
+  const { data: inventoryItems } = useQuery({
+    queryKey: ['/api/inventory'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/inventory');
+      return await response.json() as { id: number; name: string; sku: string; unit: string; soldByWeight?: boolean; components?: BundleComponent[] }[];
+    }
+  });
+  const { data: categories } = useCategories();
+  
   // Initialize form
   const form = useForm<InventoryItemFormValues>({
     resolver: zodResolver(inventoryItemSchema),
@@ -62,10 +91,33 @@ const AddInventoryItemForm: React.FC<AddInventoryItemFormProps> = ({
       priceUnit: "each",
       threshold: 5,
       image: "",
-      barcode: ""
+      barcode: "",
+      taxExempt: false,
+      soldByWeight: false,
+      tare: 0,
+      plu: "",
+      lotNumber: "",
+      expiryDate: ""
     }
   });
   
+  /**
+   * File the item under a category, taking the category's low stock threshold unless one was entered
+   */
+  const selectCategory = (name: string) => {
+    form.setValue("category", name, { shouldValidate: true });
+    const category = findCategory(categories || [], name);
+    const threshold = category && categorySetting(category, categories || [], "defaultThreshold");
+    if (threshold !== undefined && !form.formState.dirtyFields.threshold) {
+      form.setValue("threshold", threshold);
+    }
+  };
+  
+  const soldByWeight = form.watch("soldByWeight");
+  // A bundle's stock comes from its contents
+  const bundle = components.length > 0;
+  const addingStock = !bundle && Number(form.watch("stock")) > 0;
+  
   // Handle barcode scan result
   const handleBarcodeScan = async (result: string) => {
     form.setValue("barcode", result);
@@ -81,12 +133,19 @@ const AddInventoryItemForm: React.FC<AddInventoryItemFormProps> = ({
     // Attempt to lookup product information
     setIsLookingUp(true);
     try {
-      const response = await apiRequest({
-        url: `/api/product-lookup/${result}`,
-        method: "GET"
-      }) as unknown as ProductLookupResponse;
+      const lookup = await apiRequest(`/api/product-lookup/${encodeURIComponent(result)}`);
+      const response = await lookup.json() as ProductLookupResponse;
       
-      if (response.success) {
+      if (response.source === "Inventory") {
+        // The barcode is already ours, so it can't be given to a new item
+        form.setValue("barcode", "");
+        form.setValue("sku", "");
+        toast({
+          title: "Already in Inventory",
+          description: `Barcode ${result} belongs to ${response.name}.`,
+          variant: "destructive"
+        });
+      } else if (response.success) {
         // Auto-fill form fields with found product data
         if (response.name) {
           form.setValue("name", response.name);
@@ -94,8 +153,10 @@ const AddInventoryItemForm: React.FC<AddInventoryItemFormProps> = ({
         if (response.brand && response.name && !response.name.includes(response.brand)) {
           form.setValue("name", `${response.brand} ${response.name}`);
         }
-        if (response.category) {
-          form.setValue("category", response.category);
+        // Lookup services name their own categories; only ones the store has are filled in
+        const category = response.category ? findCategory(categories || [], response.category) : undefined;
+        if (category) {
+          selectCategory(category.name);
         }
         
         // Set product image if found
@@ -136,10 +197,16 @@ const AddInventoryItemForm: React.FC<AddInventoryItemFormProps> = ({
     setIsSubmitting(true);
     try {
       // Include image and barcode data
+      const { lotNumber, expiryDate, ...fields } = data;
       const formData = {
-        ...data,
+        ...fields,
         image: uploadedImage,
-        barcode: form.getValues("barcode")
+        barcode: form.getValues("barcode"),
+        barcodes: barcodes.filter(barcode => barcode.code.trim()),
+        // Only weighed items are labelled by the scale
+        plu: data.soldByWeight ? data.plu : "",
+        // Opening stock goes into this lot, at this location
+        ...(bundle ? { stock: 0, components } : data.stock > 0 ? { lot: { lotNumber, expiryDate }, locationId } : {})
       };
       
       const response = await apiRequest({
@@ -165,9 +232,11 @@ const AddInventoryItemForm: React.FC<AddInventoryItemFormProps> = ({
         
         // Reset the form
         form.reset();
+        setBarcodes([]);
+        setComponents([]);
       } else {
         const error = await response.json();
-        throw new Error(error.message || "Failed to add item");
+        throw new Error(error.message || error.error || "Failed to add item");
       }
     } catch (error: any) {
       toast({
@@ -180,20 +249,6 @@ const AddInventoryItemForm: React.FC<AddInventoryItemFormProps> = ({
     }
   };
 
-  const categories = [
-    "Produce",
-    "Dairy",
-    "Meat",
-    "Bakery",
-    "Frozen Foods",
-    "Beverages",
-    "Snacks",
-    "Canned Goods",
-    "Cleaning Supplies",
-    "Personal Care",
-    "Other"
-  ];
-
   const units = [
     "each",
     "kg",
@@ -312,15 +367,11 @@ const AddInventoryItemForm: React.FC<AddInventoryItemFormProps> = ({
             </label>
             <select
               id="category"
-              {...form.register("category")}
+              {...form.register("category", { onChange: (e) => selectCategory(e.target.value) })}
               className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
               <option value="">Select Category</option>
-              {categories.map((category) => (
-                <option key={category} value={category}>
-                  {category}
-                </option>
-              ))}
+              <CategoryOptions categories={categories} />
             </select>
             {form.formState.errors.category && (
               <p className="mt-1 text-xs text-red-600">{form.formState.errors.category.message}</p>
@@ -332,19 +383,59 @@ const AddInventoryItemForm: React.FC<AddInventoryItemFormProps> = ({
             <label htmlFor="stock" className="block text-sm font-medium text-gray-700 mb-1">
               Stock
             </label>
-            <input
-              id="stock"
-              type="number"
-              min="0"
-              step="1"
-              {...form.register("stock")}
-              className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
+            <div className="flex gap-2">
+              <input
+                id="stock"
+                type="number"
+                min="0"
+                step={soldByWeight ? "0.001" : "1"}
+                {...form.register("stock")}
+                disabled={bundle}
+                title={bundle ? "Bundles are stocked through their contents" : undefined}
+                className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <LocationSelect
+                value={locationId}
+                onChange={(value) => setLocationId(value ?? DEFAULT_LOCATION_ID)}
+                className="rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
             {form.formState.errors.stock && (
               <p className="mt-1 text-xs text-red-600">{form.formState.errors.stock.message}</p>
             )}
           </div>
 
+          {/* Lot and expiry of the stock being added */}
+          {addingStock && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label htmlFor="lotNumber" className="block text-sm font-medium text-gray-700 mb-1">
+                  Lot Number
+                </label>
+                <input
+                  id="lotNumber"
+                  type="text"
+                  maxLength={64}
+                  placeholder="Optional"
+                  {...form.register("lotNumber")}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="expiryDate" className="block text-sm font-medium text-gray-700 mb-1">
+                  Expiry Date
+                </label>
+                <input
+                  id="expiryDate"
+                  type="date"
+                  title="Expiry date for the opening stock"
+                  {...form.register("expiryDate")}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          )}
+
           {/* Unit */}
           <div>
             <label htmlFor="unit" className="block text-sm font-medium text-gray-700 mb-1">
@@ -422,8 +513,83 @@ const AddInventoryItemForm: React.FC<AddInventoryItemFormProps> = ({
               <p className="mt-1 text-xs text-red-600">{form.formState.errors.threshold.message}</p>
             )}
           </div>
+
+          {/* Tax Exempt */}
+          <div className="flex items-center md:col-span-2">
+            <input
+              id="taxExempt"
+              type="checkbox"
+              {...form.register("taxExempt")}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <label htmlFor="taxExempt" className="ml-2 block text-sm text-gray-700">
+              Tax exempt (no sales tax is charged on this item)
+            </label>
+          </div>
+
+          {/* Sold By Weight */}
+          <div className="flex items-center md:col-span-2">
+            <input
+              id="soldByWeight"
+              type="checkbox"
+              {...form.register("soldByWeight")}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <label htmlFor="soldByWeight" className="ml-2 block text-sm text-gray-700">
+              Sold by weight (weighed at the till or labelled by the scale, priced per unit)
+            </label>
+          </div>
+
+          {soldByWeight && (
+            <>
+              {/* PLU */}
+              <div>
+                <label htmlFor="plu" className="block text-sm font-medium text-gray-700 mb-1">
+                  Scale PLU
+                </label>
+                <input
+                  id="plu"
+                  type="text"
+                  inputMode="numeric"
+                  maxLength={6}
+                  placeholder="Item code on scale labels"
+                  {...form.register("plu")}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                {form.formState.errors.plu && (
+                  <p className="mt-1 text-xs text-red-600">{form.formState.errors.plu.message}</p>
+                )}
+              </div>
+
+              {/* Tare */}
+              <div>
+                <label htmlFor="tare" className="block text-sm font-medium text-gray-700 mb-1">
+                  Container Tare
+                </label>
+                <input
+                  id="tare"
+                  type="number"
+                  min="0"
+                  step="0.001"
+                  {...form.register("tare")}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                {form.formState.errors.tare && (
+                  <p className="mt-1 text-xs text-red-600">{form.formState.errors.tare.message}</p>
+                )}
+              </div>
+            </>
+          )}
         </div>
 
+        <BarcodeListEditor barcodes={barcodes} onChange={setBarcodes} />
+
+        <BundleComponentsEditor
+          components={components}
+          onChange={setComponents}
+          items={inventoryItems || []}
+        />
+
         {/* Form Actions */}
         <div className="flex justify-end space-x-3 mt-6">
           <button
@@ -0,0 +1,88 @@
+import type { ItemBarcode } from "@shared/schema";
+
+interface BarcodeListEditorProps {
+  barcodes: ItemBarcode[];
+  onChange: (barcodes: ItemBarcode[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Edit the further barcodes an item is sold under
+ * A pack quantity above 1 makes a case-pack barcode that sells that many units per scan.
+ */
+const BarcodeListEditor: React.FC<BarcodeListEditorProps> = ({ barcodes, onChange, disabled }) => {
+  const updateBarcode = (index: number, update: Partial<ItemBarcode>) => {
+    onChange(barcodes.map((barcode, i) => i === index ? { ...barcode, ...update } : barcode));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Additional Barcodes
+        </label>
+        <button
+          type="button"
+          onClick={() => onChange([...barcodes, { code: "", packQuantity: 1 }])}
+          disabled={disabled}
+          className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+          Add Barcode
+        </button>
+      </div>
+      {barcodes.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Add other UPCs the item ships under, or case barcodes that sell several units per scan.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {barcodes.map((barcode, index) => (
+            <div key={index} className="flex gap-2 items-center">
+              <input
+                type="text"
+                placeholder="Barcode"
+                aria-label="Barcode"
+                value={barcode.code}
+                onChange={(e) => updateBarcode(index, { code: e.target.value })}
+                disabled={disabled}
+                className="flex-1 rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                type="number"
+                min="1"
+                step="1"
+                title="Units sold per scan"
+                aria-label="Units per scan"
+                value={barcode.packQuantity}
+                onChange={(e) => updateBarcode(index, { packQuantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                disabled={disabled}
+                className="w-20 rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                type="text"
+                placeholder="Label, e.g. Case of 12"
+                aria-label="Barcode label"
+                maxLength={50}
+                value={barcode.label || ""}
+                onChange={(e) => updateBarcode(index, { label: e.target.value || undefined })}
+                disabled={disabled}
+                className="flex-1 rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="button"
+                onClick={() => onChange(barcodes.filter((_, i) => i !== index))}
+                disabled={disabled}
+                className="text-red-600 hover:text-red-800 px-2 disabled:opacity-50"
+                title="Remove barcode"
+              >
+                <i className="fas fa-times"></i>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BarcodeListEditor;
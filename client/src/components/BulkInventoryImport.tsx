@@ -2,7 +2,7 @@ import React, { useState, useRef } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { queryClient } from '@/lib/queryClient';
+import { queryClient, getAuthHeaders } from '@/lib/queryClient';
 
 // Define the expected CSV structure
 interface CSVRow {
@@ -76,6 +76,7 @@ const BulkInventoryImport: React.FC<BulkInventoryImportProps> = ({
       // Send the file to the server for parsing
       const response = await fetch('/api/inventory/csv-upload', {
         method: 'POST',
+        headers: getAuthHeaders(),
         body: formData
       });
       
@@ -218,7 +219,8 @@ const BulkInventoryImport: React.FC<BulkInventoryImportProps> = ({
       const response = await fetch('/api/inventory/bulk', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          ...getAuthHeaders()
         },
         body: JSON.stringify({ items: itemsToSubmit })
       });
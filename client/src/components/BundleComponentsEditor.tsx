@@ -0,0 +1,122 @@
+import { useState } from "react";
+import type { BundleComponent } from "@shared/schema";
+import { isBundle } from "@shared/bundles";
+
+// The parts of an inventory item the editor lists
+interface ComponentItem {
+  id: number;
+  name: string;
+  sku: string;
+  unit: string;
+  soldByWeight?: boolean;
+  components?: BundleComponent[];
+}
+
+interface BundleComponentsEditorProps {
+  components: BundleComponent[];
+  onChange: (components: BundleComponent[]) => void;
+  items: ComponentItem[];  // Catalog to pick components from
+  bundleId?: number;       // The bundle being edited, which can't go into itself
+  disabled?: boolean;
+}
+
+/**
+ * Edit the items that make up a bundle, such as a gift basket
+ * An item with components is a bundle: it sells under its own SKU and each
+ * sale takes its components out of stock.
+ */
+const BundleComponentsEditor: React.FC<BundleComponentsEditorProps> = ({
+  components,
+  onChange,
+  items,
+  bundleId,
+  disabled
+}) => {
+  const [productId, setProductId] = useState("");
+  const choices = items.filter(item =>
+    item.id !== bundleId &&
+    !isBundle(item) &&
+    !components.some(component => component.productId === item.id)
+  );
+
+  const updateQuantity = (index: number, quantity: number) => {
+    onChange(components.map((component, i) => i === index ? { ...component, quantity } : component));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Bundle Contents
+        </label>
+        <div className="flex gap-2">
+          <select
+            aria-label="Item to add to the bundle"
+            value={productId}
+            onChange={(e) => setProductId(e.target.value)}
+            disabled={disabled}
+            className="rounded-md border border-gray-300 px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Choose an item</option>
+            {choices.map(item => (
+              <option key={item.id} value={item.id}>{item.name} - {item.sku}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => {
+              onChange([...components, { productId: parseInt(productId), quantity: 1 }]);
+              setProductId("");
+            }}
+            disabled={disabled || !productId}
+            className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            Add Item
+          </button>
+        </div>
+      </div>
+      {components.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Add the items that go into this product to sell it as a bundle, such as a gift basket or combo pack.
+          Its stock and cost then come from those items.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {components.map((component, index) => {
+            const item = items.find(entry => entry.id === component.productId);
+            return (
+              <div key={component.productId} className="flex gap-2 items-center">
+                <span className="flex-1 text-sm text-gray-900">
+                  {item ? `${item.name} (${item.sku})` : `Item ${component.productId}`}
+                </span>
+                <input
+                  type="number"
+                  min={item?.soldByWeight ? "0.001" : "1"}
+                  step={item?.soldByWeight ? "0.001" : "1"}
+                  title="Quantity in each bundle"
+                  aria-label={`Quantity of ${item?.name} in each bundle`}
+                  value={component.quantity}
+                  onChange={(e) => updateQuantity(index, parseFloat(e.target.value) || 0)}
+                  disabled={disabled}
+                  className="w-24 rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <span className="w-12 text-sm text-gray-500">{item?.unit}</span>
+                <button
+                  type="button"
+                  onClick={() => onChange(components.filter((_, i) => i !== index))}
+                  disabled={disabled}
+                  className="text-red-600 hover:text-red-800 px-2 disabled:opacity-50"
+                  title="Remove from bundle"
+                >
+                  <i className="fas fa-times"></i>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BundleComponentsEditor;
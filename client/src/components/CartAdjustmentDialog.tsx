@@ -0,0 +1,193 @@
+/**
+ * Cart Adjustment Dialog
+ *
+ * Lets the cashier apply a percent or fixed discount to a cart line or the
+ * whole cart, and override a line's unit price. Discounts and price
+ * overrides need a manager: when the signed-in user is not one, a manager
+ * enters their username and PIN here and the server verifies them with the sale.
+ */
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { ManualDiscount } from '@shared/schema';
+
+export interface ManagerApproval {
+  username: string;
+  pin: string;
+}
+
+export interface CartAdjustment {
+  discount?: ManualDiscount;
+  priceOverride?: number;
+  approval?: ManagerApproval;
+}
+
+interface CartAdjustmentDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  discount?: ManualDiscount;
+  // Catalog price and current override; omit to hide the price override field
+  priceOverride?: { listPrice: number; price?: number };
+  requiresApproval: boolean;
+  onApply: (adjustment: CartAdjustment) => void;
+}
+
+const CartAdjustmentDialog: React.FC<CartAdjustmentDialogProps> = ({
+  isOpen,
+  onClose,
+  title,
+  discount,
+  priceOverride,
+  requiresApproval,
+  onApply
+}) => {
+  const [discountType, setDiscountType] = useState<ManualDiscount['type']>('percent');
+  const [discountValue, setDiscountValue] = useState('');
+  const [overridePrice, setOverridePrice] = useState('');
+  const [managerUsername, setManagerUsername] = useState('');
+  const [managerPin, setManagerPin] = useState('');
+  const [error, setError] = useState('');
+
+  // Start from the current adjustment each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setDiscountType(discount?.type || 'percent');
+      setDiscountValue(discount ? String(discount.value) : '');
+      setOverridePrice(priceOverride?.price !== undefined ? String(priceOverride.price) : '');
+      setManagerUsername('');
+      setManagerPin('');
+      setError('');
+    }
+  }, [isOpen]);
+
+  const overrideChanged = overridePrice.trim() !== '' &&
+    Number(overridePrice) !== priceOverride?.price;
+  const discountChanged = Number(discountValue) > 0 &&
+    (discountType !== discount?.type || Number(discountValue) !== discount?.value);
+  const needsApproval = requiresApproval && ((!!priceOverride && overrideChanged) || discountChanged);
+
+  const handleApply = () => {
+    const adjustment: CartAdjustment = {};
+
+    if (discountValue.trim() !== '') {
+      const value = Number(discountValue);
+      if (!Number.isFinite(value) || value < 0 || (discountType === 'percent' && value > 100)) {
+        setError(discountType === 'percent' ? 'Enter a percentage between 0 and 100' : 'Enter a valid amount');
+        return;
+      }
+      if (value > 0) {
+        adjustment.discount = { type: discountType, value };
+      }
+    }
+
+    if (priceOverride && overridePrice.trim() !== '') {
+      const price = Number(overridePrice);
+      if (!Number.isFinite(price) || price < 0) {
+        setError('Enter a valid price');
+        return;
+      }
+      if (price !== priceOverride.listPrice) {
+        adjustment.priceOverride = price;
+      }
+    }
+
+    if (needsApproval && (adjustment.priceOverride !== undefined || adjustment.discount !== undefined)) {
+      if (!managerUsername || !/^\d{4}$/.test(managerPin)) {
+        setError('A manager username and 4-digit PIN are required for discounts and price overrides');
+        return;
+      }
+      adjustment.approval = { username: managerUsername, pin: managerPin };
+    }
+
+    onApply(adjustment);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Leave a field blank to remove the adjustment.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="discountValue">Discount</Label>
+            <div className="flex gap-2">
+              <select
+                value={discountType}
+                onChange={(e) => setDiscountType(e.target.value as ManualDiscount['type'])}
+                className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="percent">% off</option>
+                <option value="fixed">$ off</option>
+              </select>
+              <Input
+                id="discountValue"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0"
+                value={discountValue}
+                onChange={(e) => setDiscountValue(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {priceOverride && (
+            <div className="space-y-2">
+              <Label htmlFor="overridePrice">Price Override (catalog ${priceOverride.listPrice.toFixed(2)})</Label>
+              <Input
+                id="overridePrice"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder={priceOverride.listPrice.toFixed(2)}
+                value={overridePrice}
+                onChange={(e) => setOverridePrice(e.target.value)}
+              />
+            </div>
+          )}
+
+          {needsApproval && (
+            <div className="rounded-md border border-amber-300 bg-amber-50 p-3 space-y-2">
+              <p className="text-sm text-amber-800">
+                Manager approval is required to {discountChanged ? 'give a discount' : 'override the price'}.
+              </p>
+              <Input
+                placeholder="Manager username"
+                value={managerUsername}
+                onChange={(e) => setManagerUsername(e.target.value)}
+                autoComplete="off"
+              />
+              <Input
+                type="password"
+                inputMode="numeric"
+                maxLength={4}
+                placeholder="Manager PIN"
+                value={managerPin}
+                onChange={(e) => setManagerPin(e.target.value)}
+                autoComplete="off"
+              />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleApply}>Apply</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CartAdjustmentDialog;
@@ -0,0 +1,368 @@
+/**
+ * Category Manager
+ *
+ * Settings card for the product categories items are filed under. Categories
+ * can sit under a parent, and each can set a low stock threshold for new
+ * items, a tax rate and a suggested markup; a subcategory that leaves one
+ * blank takes its parent's. Renaming a category re-files its items, and a
+ * duplicate is merged into the category it duplicates.
+ */
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useErrorToast } from '@/hooks/useErrorToast';
+import { useCategories, type ListedCategory } from '@/components/CategoryOptions';
+import { ancestorsOf, categoryOptions, categorySetting, descendantIds, type CategoryDefault } from '@shared/categories';
+import type { Category, InsertCategory } from '@shared/schema';
+
+// The form's fields, as text so defaults can be left blank
+type CategoryForm = {
+  name: string;
+  parentId: string;
+  defaultThreshold: string;
+  taxRate: string;
+  defaultMargin: string;
+};
+
+const emptyForm: CategoryForm = { name: '', parentId: '', defaultThreshold: '', taxRate: '', defaultMargin: '' };
+
+const DEFAULT_FIELDS: { field: CategoryDefault; label: string; suffix: string }[] = [
+  { field: 'defaultThreshold', label: 'Low Stock Threshold', suffix: '' },
+  { field: 'taxRate', label: 'Tax Rate', suffix: '%' },
+  { field: 'defaultMargin', label: 'Markup', suffix: '%' }
+];
+
+/**
+ * A blank field leaves the default to the parent; anything else must be a number in range
+ */
+const parseDefault = (value: string, max?: number): number | undefined | null => {
+  if (value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 && (max === undefined || number <= max) ? number : null;
+};
+
+const CategoryManager: React.FC = () => {
+  const [form, setForm] = useState<CategoryForm>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [mergingId, setMergingId] = useState<number | null>(null);
+  const [mergeIntoId, setMergeIntoId] = useState('');
+  const { toast } = useToast();
+  const { data: categories, isLoading } = useCategories();
+  const listed = categories || [];
+
+  // Renames and merges re-file items, and tax rates follow the categories
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+  };
+
+  const showError = useErrorToast();
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number | null; data: InsertCategory }) => {
+      const response = await apiRequest({
+        url: id === null ? '/api/categories' : `/api/categories/${id}`,
+        method: id === null ? 'POST' : 'PUT',
+        data
+      });
+      return await response.json() as ListedCategory;
+    },
+    onSuccess: (category, { id }) => {
+      toast({
+        title: id === null ? 'Category added' : 'Category updated',
+        description: id === null ? `${category.name} can now be chosen for items.` : `${category.name} has been saved.`,
+      });
+      setForm(emptyForm);
+      setEditingId(null);
+      refresh();
+    },
+    onError: (error) => showError(error, 'Failed to save category')
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ id, intoId }: { id: number; intoId: number }) => {
+      const response = await apiRequest({ url: `/api/categories/${id}/merge`, method: 'POST', data: { intoId } });
+      return await response.json() as ListedCategory;
+    },
+    onSuccess: (category) => {
+      toast({
+        title: 'Categories merged',
+        description: `${category.name} now has ${category.itemCount} item(s).`,
+      });
+      setMergingId(null);
+      setMergeIntoId('');
+      refresh();
+    },
+    onError: (error) => showError(error, 'Failed to merge categories')
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest({ url: `/api/categories/${id}`, method: 'DELETE' }),
+    onSuccess: () => {
+      toast({ title: 'Category deleted' });
+      refresh();
+    },
+    onError: (error) => showError(error, 'Failed to delete category')
+  });
+
+  const startEditing = (category: Category) => {
+    setEditingId(category.id);
+    setMergingId(null);
+    setForm({
+      name: category.name,
+      parentId: category.parentId !== undefined ? String(category.parentId) : '',
+      defaultThreshold: category.defaultThreshold !== undefined ? String(category.defaultThreshold) : '',
+      taxRate: category.taxRate !== undefined ? String(category.taxRate) : '',
+      defaultMargin: category.defaultMargin !== undefined ? String(category.defaultMargin) : ''
+    });
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = () => {
+    if (!form.name.trim()) {
+      showError(null, 'Enter a name for the category');
+      return;
+    }
+    const defaultThreshold = parseDefault(form.defaultThreshold);
+    const taxRate = parseDefault(form.taxRate, 100);
+    const defaultMargin = parseDefault(form.defaultMargin);
+    if (defaultThreshold === null || taxRate === null || defaultMargin === null) {
+      showError(null, 'Thresholds and markups must be positive numbers, and tax rates between 0 and 100');
+      return;
+    }
+
+    saveMutation.mutate({
+      id: editingId,
+      data: {
+        name: form.name.trim(),
+        ...(form.parentId ? { parentId: parseInt(form.parentId) } : {}),
+        ...(defaultThreshold !== undefined ? { defaultThreshold } : {}),
+        ...(taxRate !== undefined ? { taxRate } : {}),
+        ...(defaultMargin !== undefined ? { defaultMargin } : {})
+      }
+    });
+  };
+
+  const handleMerge = (category: ListedCategory) => {
+    const into = listed.find(entry => entry.id === parseInt(mergeIntoId));
+    if (!into) {
+      showError(null, 'Choose the category to merge into');
+      return;
+    }
+    if (window.confirm(`Merge ${category.name} into ${into.name}? Its ${category.itemCount} item(s) and any subcategories move to ${into.name}, and ${category.name} is removed.`)) {
+      mergeMutation.mutate({ id: category.id, intoId: into.id });
+    }
+  };
+
+  const handleDelete = (category: ListedCategory) => {
+    if (window.confirm(`Delete ${category.name}?`)) {
+      deleteMutation.mutate(category.id);
+    }
+  };
+
+  /**
+   * A default as shown in the list: the category's own, or its parent's in grey
+   */
+  const renderDefault = (category: Category, field: CategoryDefault, suffix: string) => {
+    const value = categorySetting(category, listed, field);
+    if (value === undefined) {
+      return <span className="text-gray-400">-</span>;
+    }
+    if (category[field] !== undefined) {
+      return `${value}${suffix}`;
+    }
+    const source = ancestorsOf(category, listed).find(entry => entry[field] !== undefined);
+    return <span className="text-gray-400" title={`From ${source?.name}`}>{value}{suffix}</span>;
+  };
+
+  // A category can't go under itself or its own subcategories
+  const excluded = editingId !== null ? [editingId, ...descendantIds(editingId, listed)] : [];
+  const parentChoices = categoryOptions(listed).filter(option => !excluded.includes(option.category.id));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Categories</CardTitle>
+        <CardDescription>
+          The categories items are filed under. A category can sit under a parent, and reports total each
+          parent with its subcategories. Blank defaults are taken from the parent category; grey values in the
+          list are inherited. Categories in use can't be deleted, but can be merged into another.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="p-6 text-center">
+            <i className="fas fa-spinner fa-spin mr-2"></i> Loading categories...
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Items</th>
+                {DEFAULT_FIELDS.map(({ field, label }) => (
+                  <th key={field} scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</th>
+                ))}
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {categoryOptions(listed).map(({ category, depth }) => {
+                const entry = category as ListedCategory;
+                const mergeChoices = categoryOptions(listed).filter(option =>
+                  option.category.id !== entry.id && !descendantIds(entry.id, listed).includes(option.category.id));
+                return (
+                  <tr key={entry.id} className={editingId === entry.id ? 'bg-blue-50' : undefined}>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900" style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>
+                      {entry.name}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500">{entry.itemCount}</td>
+                    {DEFAULT_FIELDS.map(({ field, suffix }) => (
+                      <td key={field} className="px-4 py-3 text-sm text-gray-900">{renderDefault(entry, field, suffix)}</td>
+                    ))}
+                    <td className="px-4 py-3 text-sm space-x-3 whitespace-nowrap">
+                      {mergingId === entry.id ? (
+                        <>
+                          <select
+                            aria-label="Merge into"
+                            value={mergeIntoId}
+                            onChange={(e) => setMergeIntoId(e.target.value)}
+                            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+                          >
+                            <option value="">Merge into...</option>
+                            {mergeChoices.map(option => (
+                              <option key={option.category.id} value={option.category.id}>{option.path}</option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => handleMerge(entry)}
+                            disabled={mergeMutation.isPending || !mergeIntoId}
+                            className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                          >
+                            Merge
+                          </button>
+                          <button onClick={() => setMergingId(null)} className="text-gray-600 hover:text-gray-900">
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button onClick={() => startEditing(entry)} className="text-blue-600 hover:text-blue-900">
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => { setMergingId(entry.id); setMergeIntoId(''); }}
+                            className="text-blue-600 hover:text-blue-900"
+                          >
+                            Merge
+                          </button>
+                          <button
+                            onClick={() => handleDelete(entry)}
+                            disabled={deleteMutation.isPending}
+                            className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                          >
+                            Delete
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium text-gray-900">
+            {editingId === null ? 'New Category' : `Edit ${listed.find(entry => entry.id === editingId)?.name ?? 'Category'}`}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="categoryName">Name</Label>
+              <Input
+                id="categoryName"
+                placeholder="e.g. Cheese"
+                value={form.name}
+                maxLength={100}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="categoryParent">Parent</Label>
+              <select
+                id="categoryParent"
+                value={form.parentId}
+                onChange={(e) => setForm({ ...form, parentId: e.target.value })}
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              >
+                <option value="">None (top level)</option>
+                {parentChoices.map(option => (
+                  <option key={option.category.id} value={option.category.id}>{option.path}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="categoryThreshold">Low Stock Threshold</Label>
+              <Input
+                id="categoryThreshold"
+                type="number"
+                min="0"
+                placeholder="From parent"
+                value={form.defaultThreshold}
+                onChange={(e) => setForm({ ...form, defaultThreshold: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="categoryTaxRate">Tax Rate (%)</Label>
+              <Input
+                id="categoryTaxRate"
+                type="number"
+                min="0"
+                max="100"
+                step="0.001"
+                placeholder="From parent"
+                value={form.taxRate}
+                onChange={(e) => setForm({ ...form, taxRate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="categoryMargin">Markup (%)</Label>
+              <Input
+                id="categoryMargin"
+                type="number"
+                min="0"
+                step="0.1"
+                placeholder="From parent"
+                value={form.defaultMargin}
+                onChange={(e) => setForm({ ...form, defaultMargin: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-3">
+            {editingId !== null && (
+              <Button variant="outline" onClick={cancelEditing}>Cancel</Button>
+            )}
+            <Button onClick={handleSave} disabled={saveMutation.isPending} className="w-full sm:w-auto">
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editingId === null ? 'Add Category' : 'Save Category'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CategoryManager;
@@ -0,0 +1,41 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { categoryOptions } from "@shared/categories";
+import type { Category } from "@shared/schema";
+
+// A category as listed by the server, with the number of items filed directly under it
+export type ListedCategory = Category & { itemCount: number };
+
+/**
+ * Product categories, fetched once and shared by every screen that picks one
+ */
+export const useCategories = () => useQuery({
+  queryKey: ['/api/categories'],
+  queryFn: async () => {
+    const response = await apiRequest('/api/categories');
+    return await response.json() as ListedCategory[];
+  }
+});
+
+interface CategoryOptionsProps {
+  categories?: Category[];
+  exclude?: number[];                      // Ids not to offer, e.g. a category and its subcategories
+}
+
+/**
+ * The categories as options for a select, subcategories indented under their parents
+ * Each option's value is the category name, which is what items are filed under.
+ */
+const CategoryOptions: React.FC<CategoryOptionsProps> = ({ categories, exclude = [] }) => (
+  <>
+    {categoryOptions(categories || [])
+      .filter(option => !exclude.includes(option.category.id))
+      .map(option => (
+        <option key={option.category.id} value={option.category.name}>
+          {"\u00a0\u00a0\u00a0\u00a0".repeat(option.depth)}{option.category.name}
+        </option>
+      ))}
+  </>
+);
+
+export default CategoryOptions;
@@ -0,0 +1,106 @@
+/**
+ * Close Shift Dialog
+ *
+ * Blind count at the end of a shift: the cashier enters the cash in the drawer
+ * without seeing what the server expects. The server works out the variance
+ * and returns the Z report.
+ */
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiRequest, errorMessage } from '@/lib/queryClient';
+import type { Shift, ShiftReport } from '@/components/ShiftReportView';
+
+interface CloseShiftDialogProps {
+  shift: Shift | null;
+  onClose: () => void;
+  onClosed: (report: ShiftReport) => void;
+}
+
+const CloseShiftDialog: React.FC<CloseShiftDialogProps> = ({ shift, onClose, onClosed }) => {
+  const [countedCash, setCountedCash] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (shift) {
+      setCountedCash('');
+      setNotes('');
+      setError('');
+    }
+  }, [shift?.id]);
+
+  const handleSubmit = async () => {
+    if (!shift) return;
+
+    const counted = Number(countedCash);
+    if (countedCash.trim() === '' || !Number.isFinite(counted) || counted < 0) {
+      setError('Enter the cash counted in the drawer');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await apiRequest({
+        url: `/api/shifts/${shift.id}/close`,
+        method: 'POST',
+        data: { countedCash: counted, ...(notes.trim() ? { notes: notes.trim() } : {}) }
+      });
+      onClosed(await response.json() as ShiftReport);
+    } catch (error) {
+      setError(errorMessage(error, 'Failed to close shift'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!shift} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Close Shift</DialogTitle>
+          <DialogDescription>
+            Count all the cash in the drawer, including the float, and enter the total.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="countedCash">Counted Cash ($)</Label>
+            <Input
+              id="countedCash"
+              type="number"
+              min="0"
+              step="0.01"
+              value={countedCash}
+              onChange={(e) => setCountedCash(e.target.value)}
+              autoComplete="off"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="closingNotes">Notes (optional)</Label>
+            <Input
+              id="closingNotes"
+              value={notes}
+              maxLength={500}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? 'Closing...' : 'Close Shift'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CloseShiftDialog;
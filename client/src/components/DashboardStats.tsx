@@ -2,6 +2,12 @@ import React from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 
+interface SalesTotals {
+  sales: number;
+  refunds: number;
+  netSales: number;
+}
+
 interface Stats {
   totalInventoryItems: number;
   todaySales: number;
@@ -10,14 +16,31 @@ interface Stats {
   totalInventoryValue: number;
   todayRefunds?: number;
   netSales?: number;
+  businessDay?: string;
+  sameDayLastWeek?: SalesTotals;
+  monthToDate?: SalesTotals;
+}
+
+/**
+ * Last week's and the month's figures shown under one of today's
+ */
+const Comparison: React.FC<{ lastWeek?: number; monthToDate?: number }> = ({ lastWeek, monthToDate }) => (
+  <dd className="mt-1 text-xs text-white opacity-90">
+    <div title="Same business day last week, up to this time of day">Same day last week: ${Number(lastWeek || 0).toFixed(2)}</div>
+    <div>Month to date: ${Number(monthToDate || 0).toFixed(2)}</div>
+  </dd>
+);
+
+interface DashboardStatsProps {
+  locationId?: number;   // Stock and sales at one location; the whole store when unset
 }
 
-const DashboardStats: React.FC = () => {
+const DashboardStats: React.FC<DashboardStatsProps> = ({ locationId }) => {
   // Fetch stats from API with auto-refresh
   const { data: stats, isLoading, error } = useQuery({
-    queryKey: ['/api/stats'],
+    queryKey: ['/api/stats', locationId],
     queryFn: async () => {
-      const response = await apiRequest('/api/stats');
+      const response = await apiRequest(`/api/stats${locationId !== undefined ? `?locationId=${locationId}` : ''}`);
       const data = await response.json();
       return data as Stats;
     },
@@ -65,7 +88,7 @@ const DashboardStats: React.FC = () => {
             </div>
             <div className="ml-5 w-0 flex-1">
               <dl>
-                <dt className="text-sm font-medium text-white truncate">Today's Sales</dt>
+                <dt className="text-sm font-medium text-white truncate" title={stats?.businessDay ? `Business day ${stats.businessDay}` : undefined}>Today's Sales</dt>
                 <dd className="flex items-baseline">
                   {isLoading ? (
                     <div className="text-2xl font-semibold text-white">
@@ -79,6 +102,9 @@ const DashboardStats: React.FC = () => {
                     </div>
                   )}
                 </dd>
+                {stats && (
+                  <Comparison lastWeek={stats.sameDayLastWeek?.sales} monthToDate={stats.monthToDate?.sales} />
+                )}
               </dl>
             </div>
           </div>
@@ -108,6 +134,9 @@ const DashboardStats: React.FC = () => {
                     </div>
                   )}
                 </dd>
+                {stats && (
+                  <Comparison lastWeek={stats.sameDayLastWeek?.refunds} monthToDate={stats.monthToDate?.refunds} />
+                )}
               </dl>
             </div>
           </div>
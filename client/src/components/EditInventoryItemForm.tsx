@@ -1,12 +1,21 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import BarcodeScanner from "./BarcodeScanner";
+import BarcodeListEditor from "./BarcodeListEditor";
+import BundleComponentsEditor from "./BundleComponentsEditor";
 import ImageUploader from "./ImageUploader";
+import LocationSelect from "./LocationSelect";
+import CategoryOptions, { useCategories } from "./CategoryOptions";
+import type { BundleComponent, ItemBarcode, StockLot } from "@shared/schema";
+import { describeLot, fefoOrder } from "@shared/lots";
+import { DEFAULT_LOCATION_ID, stockAt } from "@shared/locations";
+import { isBundle } from "@shared/bundles";
 
 // Define schema for inventory item validation
 const inventoryItemSchema = z.object({
@@ -20,6 +29,12 @@ const inventoryItemSchema = z.object({
   threshold: z.coerce.number().min(0, "Threshold must be a positive number"),
   image: z.string().optional(),
   barcode: z.string().optional(),
+  taxExempt: z.boolean().default(false),
+  soldByWeight: z.boolean().default(false),
+  tare: z.coerce.number().min(0, "Tare must be a positive number").default(0),
+  plu: z.string().regex(/^\d{0,6}$/, "PLU must be up to 6 digits").default(""),
+  lotNumber: z.string().max(64).default(""),   // Lot and expiry of stock being added
+  expiryDate: z.string().default(""),
 });
 
 type InventoryItemFormValues = z.infer<typeof inventoryItemSchema>;
@@ -37,25 +52,48 @@ interface InventoryItem {
   status: string;
   image?: string;
   barcode?: string;
+  barcodes?: ItemBarcode[];
+  taxExempt?: boolean;
+  lots?: StockLot[];
+  locationStock?: Record<string, number>;
+  soldByWeight?: boolean;
+  tare?: number;
+  plu?: string;
+  components?: BundleComponent[];
 }
 
 interface EditInventoryItemFormProps {
   item: InventoryItem;
+  locationId?: number;   // Location whose stock the form edits; the main location by default
   onSuccess?: () => void;
   onCancel?: () => void;
 }
 
 const EditInventoryItemForm: React.FC<EditInventoryItemFormProps> = ({
   item,
+  locationId: initialLocationId,
   onSuccess,
   onCancel
 }) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [scannerActive, setScannerActive] = useState(false);
   const [uploadedImage, setUploadedImage] = useState<string>(item.image || "");
+  const [barcodes, setBarcodes] = useState<ItemBarcode[]>(item.barcodes || []);
+  const [components, setComponents] = useState<BundleComponent[]>(item.components || []);
   const [userRole, setUserRole] = useState<string>("Administrator");
+  const [locationId, setLocationId] = useState<number>(initialLocationId ?? DEFAULT_LOCATION_ID);
   const { toast } = useToast();
   
+  // The catalog, to choose bundle contents from
+  const { data: inventoryItems } = useQuery({
+    queryKey: ['/api/inventory'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/inventory');
+      return await response.json() as InventoryItem[];
+    }
+  });
+  const { data: categories } = useCategories();
+  
   // Get the user role from session storage
   useEffect(() => {
     const userInfo = sessionStorage.getItem("user");
@@ -76,16 +114,35 @@ const EditInventoryItemForm: React.FC<EditInventoryItemFormProps> = ({
       name: item.name,
       sku: item.sku,
       category: item.category,
-      stock: item.stock,
+      stock: stockAt(item, locationId),
       unit: item.unit,
       price: item.price,
       priceUnit: item.priceUnit,
       threshold: item.threshold,
       image: item.image || "",
-      barcode: item.barcode || ""
+      barcode: item.barcode || "",
+      taxExempt: !!item.taxExempt,
+      soldByWeight: !!item.soldByWeight,
+      tare: item.tare ?? 0,
+      plu: item.plu || "",
+      lotNumber: "",
+      expiryDate: ""
     }
   });
   
+  const soldByWeight = form.watch("soldByWeight");
+  // A bundle's stock comes from its contents, so it can't be edited here
+  const bundle = components.length > 0;
+  // The stock field holds the stock at the chosen location; the item's total moves by the difference
+  const locationStock = stockAt(item, locationId);
+  const addingStock = Number(form.watch("stock")) > locationStock;
+  
+  const handleLocationChange = (value?: number) => {
+    const next = value ?? DEFAULT_LOCATION_ID;
+    setLocationId(next);
+    form.setValue("stock", stockAt(item, next));
+  };
+  
   // Handle barcode scan result
   const handleBarcodeScan = (result: string) => {
     form.setValue("barcode", result);
@@ -106,17 +163,28 @@ const EditInventoryItemForm: React.FC<EditInventoryItemFormProps> = ({
     setIsSubmitting(true);
     try {
       // Include image and barcode data but filter out price fields for stockers
+      const { lotNumber, expiryDate, stock, ...fields } = data;
       let formData: any = {
-        ...data,
+        ...fields,
+        // A bundle's stock shown here is worked out from its contents, so none is sent for it
+        ...(bundle ? { components } : isBundle(item) ? { components: null } : {
+          stock: item.stock - locationStock + stock,
+          ...(stock !== locationStock ? { locationId } : {})
+        }),
         image: uploadedImage,
-        barcode: form.getValues("barcode")
+        barcode: form.getValues("barcode"),
+        barcodes: barcodes.filter(barcode => barcode.code.trim()),
+        // Only weighed items are labelled by the scale
+        plu: data.soldByWeight ? data.plu : "",
+        // Stock added by the edit goes into this lot
+        ...(!bundle && stock > locationStock ? { lot: { lotNumber, expiryDate } } : {})
       };
       
       // Remove price fields if user is a Stocker
       if (userRole === "Stocker") {
         // Create a new object without price-related properties
-        // Stocker users cannot modify price information
-        const { price, priceUnit, ...filteredData } = formData;
+        // Stocker users cannot modify price, tax or weighing information
+        const { price, priceUnit, taxExempt, soldByWeight, tare, plu, ...filteredData } = formData;
         formData = filteredData;
       }
       
@@ -142,7 +210,7 @@ const EditInventoryItemForm: React.FC<EditInventoryItemFormProps> = ({
         }
       } else {
         const error = await response.json();
-        throw new Error(error.message || "Failed to update item");
+        throw new Error(error.message || error.error || "Failed to update item");
       }
     } catch (error: any) {
       toast({
@@ -155,20 +223,6 @@ const EditInventoryItemForm: React.FC<EditInventoryItemFormProps> = ({
     }
   };
 
-  const categories = [
-    "Produce",
-    "Dairy",
-    "Meat",
-    "Bakery",
-    "Frozen Foods",
-    "Beverages",
-    "Snacks",
-    "Canned Goods",
-    "Cleaning Supplies",
-    "Personal Care",
-    "Other"
-  ];
-
   const units = [
     "each",
     "kg",
@@ -283,11 +337,7 @@ const EditInventoryItemForm: React.FC<EditInventoryItemFormProps> = ({
               className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
               <option value="">Select Category</option>
-              {categories.map((category) => (
-                <option key={category} value={category}>
-                  {category}
-                </option>
-              ))}
+              <CategoryOptions categories={categories} />
             </select>
             {form.formState.errors.category && (
               <p className="mt-1 text-xs text-red-600">{form.formState.errors.category.message}</p>
@@ -299,19 +349,72 @@ const EditInventoryItemForm: React.FC<EditInventoryItemFormProps> = ({
             <label htmlFor="stock" className="block text-sm font-medium text-gray-700 mb-1">
               Stock
             </label>
-            <input
-              id="stock"
-              type="number"
-              min="0"
-              step="1"
-              {...form.register("stock")}
-              className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
+            <div className="flex gap-2">
+              <input
+                id="stock"
+                type="number"
+                min="0"
+                step={soldByWeight ? "0.001" : "1"}
+                {...form.register("stock")}
+                disabled={bundle}
+                title={bundle ? "Bundles are stocked through their contents" : undefined}
+                className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <LocationSelect
+                value={locationId}
+                onChange={handleLocationChange}
+                className="rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            {bundle && (
+              <p className="mt-1 text-xs text-gray-500">Enough contents in stock for this many bundles</p>
+            )}
+            {locationStock !== item.stock && (
+              <p className="mt-1 text-xs text-gray-500">{item.stock} {item.unit} across all locations</p>
+            )}
             {form.formState.errors.stock && (
               <p className="mt-1 text-xs text-red-600">{form.formState.errors.stock.message}</p>
             )}
+            {item.lots && item.lots.length > 0 && (
+              <ul className="mt-1 text-xs text-gray-500">
+                {fefoOrder(item.lots).map(lot => (
+                  <li key={lot.id}>{describeLot(lot)}: {lot.quantity} {item.unit}</li>
+                ))}
+              </ul>
+            )}
           </div>
 
+          {/* Lot and expiry of the stock being added */}
+          {addingStock && !bundle && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label htmlFor="lotNumber" className="block text-sm font-medium text-gray-700 mb-1">
+                  Lot Number
+                </label>
+                <input
+                  id="lotNumber"
+                  type="text"
+                  maxLength={64}
+                  placeholder="Optional"
+                  {...form.register("lotNumber")}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="expiryDate" className="block text-sm font-medium text-gray-700 mb-1">
+                  Expiry Date
+                </label>
+                <input
+                  id="expiryDate"
+                  type="date"
+                  title="Expiry date for the stock added"
+                  {...form.register("expiryDate")}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          )}
+
           {/* Unit */}
           <div>
             <label htmlFor="unit" className="block text-sm font-medium text-gray-700 mb-1">
@@ -417,8 +520,89 @@ const EditInventoryItemForm: React.FC<EditInventoryItemFormProps> = ({
               <p className="mt-1 text-xs text-red-600">{form.formState.errors.threshold.message}</p>
             )}
           </div>
+
+          {/* Tax Exempt */}
+          <div className="flex items-center md:col-span-2">
+            <input
+              id="taxExempt"
+              type="checkbox"
+              {...form.register("taxExempt")}
+              disabled={userRole === "Stocker"}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <label htmlFor="taxExempt" className="ml-2 block text-sm text-gray-700">
+              Tax exempt (no sales tax is charged on this item)
+            </label>
+          </div>
+
+          {/* Sold By Weight */}
+          <div className="flex items-center md:col-span-2">
+            <input
+              id="soldByWeight"
+              type="checkbox"
+              {...form.register("soldByWeight")}
+              disabled={userRole === "Stocker"}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <label htmlFor="soldByWeight" className="ml-2 block text-sm text-gray-700">
+              Sold by weight (weighed at the till or labelled by the scale, priced per unit)
+            </label>
+          </div>
+
+          {soldByWeight && (
+            <>
+              {/* PLU */}
+              <div>
+                <label htmlFor="plu" className="block text-sm font-medium text-gray-700 mb-1">
+                  Scale PLU
+                </label>
+                <input
+                  id="plu"
+                  type="text"
+                  inputMode="numeric"
+                  maxLength={6}
+                  placeholder="Item code on scale labels"
+                  {...form.register("plu")}
+                  disabled={userRole === "Stocker"}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                {form.formState.errors.plu && (
+                  <p className="mt-1 text-xs text-red-600">{form.formState.errors.plu.message}</p>
+                )}
+              </div>
+
+              {/* Tare */}
+              <div>
+                <label htmlFor="tare" className="block text-sm font-medium text-gray-700 mb-1">
+                  Container Tare
+                </label>
+                <input
+                  id="tare"
+                  type="number"
+                  min="0"
+                  step="0.001"
+                  {...form.register("tare")}
+                  disabled={userRole === "Stocker"}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                {form.formState.errors.tare && (
+                  <p className="mt-1 text-xs text-red-600">{form.formState.errors.tare.message}</p>
+                )}
+              </div>
+            </>
+          )}
         </div>
 
+        <BarcodeListEditor barcodes={barcodes} onChange={setBarcodes} />
+
+        <BundleComponentsEditor
+          components={components}
+          onChange={setComponents}
+          items={inventoryItems || []}
+          bundleId={item.id}
+          disabled={userRole === "Stocker"}
+        />
+
         {/* Form Actions */}
         <div className="flex justify-end space-x-3 mt-6">
           <button
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import type { ExpiringLot } from "@shared/lots";
+
+interface ExpiringLotsResponse {
+  days: number;
+  today: string;
+  lots: ExpiringLot[];
+}
+
+interface ExpiringLotsAlertsProps {
+  canWriteOff: boolean;   // Managers can write expired lots off to losses
+}
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+    .format(new Date(`${value}T00:00:00`));
+
+/**
+ * Lots that have expired or are nearing expiry, soonest first
+ * Expired lots can be written off as losses with reason "Expired", one at a time or all at once.
+ */
+const ExpiringLotsAlerts: React.FC<ExpiringLotsAlertsProps> = ({ canWriteOff }) => {
+  const [days, setDays] = useState<string>("");
+  const { toast } = useToast();
+  const showError = useErrorToast();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['/api/alerts/expiring', days],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/alerts/expiring${days ? `?days=${days}` : ''}`);
+      return await response.json() as ExpiringLotsResponse;
+    }
+  });
+
+  const expired = data?.lots.filter(entry => entry.daysLeft < 0) || [];
+
+  const writeOffMutation = useMutation({
+    mutationFn: async (lots?: ExpiringLot[]) => {
+      const response = await apiRequest({
+        url: '/api/losses/expired',
+        method: 'POST',
+        data: lots ? { lots: lots.map(entry => ({ productId: entry.productId, lotId: entry.lot.id })) } : {}
+      });
+      return await response.json() as { value: number }[];
+    },
+    onSuccess: (losses) => {
+      const value = losses.reduce((sum, loss) => sum + loss.value, 0);
+      toast({
+        title: "Expired stock written off",
+        description: losses.length === 0
+          ? "There were no expired lots to write off."
+          : `${losses.length} lot${losses.length === 1 ? "" : "s"} recorded as losses worth $${value.toFixed(2)}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/alerts/expiring'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/losses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/alerts/reorder-suggestions'] });
+    },
+    onError: (error) => showError(error, "Failed to write off expired stock")
+  });
+
+  const formatDaysLeft = (daysLeft: number) => {
+    if (daysLeft < 0) return `Expired ${-daysLeft} day${daysLeft === -1 ? "" : "s"} ago`;
+    if (daysLeft === 0) return "Expires today";
+    return `${daysLeft} day${daysLeft === 1 ? "" : "s"} left`;
+  };
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+      <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Nearing Expiry</h3>
+          <p className="mt-1 max-w-2xl text-sm text-gray-500">
+            {data
+              ? `Lots that have expired or expire within ${data.days} days. Stock is sold first-expired-first-out.`
+              : "Lots that have expired or expire soon"}
+          </p>
+        </div>
+        <div className="flex space-x-3">
+          {canWriteOff && expired.length > 0 && (
+            <button
+              onClick={() => writeOffMutation.mutate(undefined)}
+              disabled={writeOffMutation.isPending}
+              className="mt-1 bg-red-600 hover:bg-red-700 text-white px-3 py-2 rounded-md text-sm disabled:opacity-50"
+            >
+              Write Off {expired.length} Expired Lot{expired.length === 1 ? "" : "s"}
+            </button>
+          )}
+          <select
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+            className="mt-1 block pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+          >
+            <option value="">Default window</option>
+            <option value="3">Next 3 days</option>
+            <option value="7">Next 7 days</option>
+            <option value="14">Next 14 days</option>
+            <option value="30">Next 30 days</option>
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="p-6 text-center">
+          <i className="fas fa-spinner fa-spin mr-2"></i> Loading expiring stock...
+        </div>
+      ) : error ? (
+        <div className="p-6 text-center text-red-500">
+          <i className="fas fa-exclamation-triangle mr-2"></i> Error loading expiring stock. Please try again.
+        </div>
+      ) : data && data.lots.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lot</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expiry</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Quantity</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Value</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {data.lots.map((entry) => (
+                <tr key={`${entry.productId}-${entry.lot.id}`} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{entry.productName}</div>
+                    <div className="text-sm text-gray-500">{entry.category}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {entry.lot.lotNumber || "-"}
+                    <div className="text-xs text-gray-400">Received {formatDate(entry.lot.receivedDate.slice(0, 10))}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900">{formatDate(entry.lot.expiryDate!)}</div>
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                      entry.daysLeft < 0
+                        ? 'bg-red-100 text-red-800'
+                        : entry.daysLeft <= 2
+                          ? 'bg-orange-100 text-orange-800'
+                          : 'bg-yellow-100 text-yellow-800'
+                    }`}>
+                      {formatDaysLeft(entry.daysLeft)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{entry.lot.quantity} {entry.unit}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">${entry.value.toFixed(2)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {canWriteOff && entry.daysLeft < 0 && (
+                      <button
+                        onClick={() => writeOffMutation.mutate([entry])}
+                        disabled={writeOffMutation.isPending}
+                        className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                      >
+                        Write Off
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center p-6 text-gray-500">
+          No lots are expiring soon.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExpiringLotsAlerts;
@@ -13,15 +13,30 @@ interface HeaderProps {
  * Main top navigation with title and optional description
  */
 const Header: React.FC<HeaderProps> = ({ title, description }) => {
-  const { currentPage } = useAppContext();
+  const { currentPage, unreadCount, toggleNotifications } = useAppContext();
 
   return (
     <header className="bg-white shadow-sm">
-      <div className="max-w-7xl mx-auto py-4 px-4 sm:px-6 lg:px-8">
-        <h1 className="text-lg font-semibold text-gray-900">{title}</h1>
-        {description && (
-          <p className="mt-1 text-sm text-gray-500">{description}</p>
-        )}
+      <div className="max-w-7xl mx-auto py-4 px-4 sm:px-6 lg:px-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-lg font-semibold text-gray-900">{title}</h1>
+          {description && (
+            <p className="mt-1 text-sm text-gray-500">{description}</p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={toggleNotifications}
+          className="relative p-2 text-gray-500 hover:text-gray-700"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <i className="fas fa-bell text-lg"></i>
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </button>
       </div>
     </header>
   );
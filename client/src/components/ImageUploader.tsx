@@ -1,4 +1,5 @@
 import React, { useState, useRef } from 'react';
+import { getAuthHeaders } from '@/lib/queryClient';
 
 interface ImageUploaderProps {
   onImageUploaded: (imageUrl: string) => void;
@@ -51,6 +52,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
         
         const response = await fetch('/api/inventory/image-upload', {
           method: 'POST',
+          headers: getAuthHeaders(),
           body: formData
         });
         
@@ -0,0 +1,192 @@
+/**
+ * Location Manager
+ *
+ * Settings card listing the places stock is kept: the sales floor, a back
+ * room, another store. Managers add and rename locations, and close ones no
+ * longer in use once their stock has been transferred out. The main location
+ * can't be closed.
+ */
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useErrorToast } from '@/hooks/useErrorToast';
+import { useLocations } from '@/components/LocationSelect';
+import { DEFAULT_LOCATION_ID } from '@shared/locations';
+import type { InsertStockLocation, StockLocation } from '@shared/schema';
+
+/**
+ * Add a location, or update one when given its id
+ */
+const saveLocation = async (id: number | null, data: Partial<InsertStockLocation>) => {
+  const response = await apiRequest({
+    url: id === null ? '/api/locations' : `/api/locations/${id}`,
+    method: id === null ? 'POST' : 'PUT',
+    data
+  });
+  return await response.json() as StockLocation;
+};
+
+const LocationManager: React.FC = () => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const { toast } = useToast();
+  const showError = useErrorToast();
+  const { data: locations, isLoading } = useLocations();
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number | null; data: Partial<InsertStockLocation> }) => saveLocation(id, data),
+    onSuccess: (location, { id }) => {
+      toast({
+        title: id === null ? 'Location added' : 'Location updated',
+        description: id === null
+          ? `${location.name} can now hold stock.`
+          : location.active ? `${location.name} has been saved.` : `${location.name} is closed.`,
+      });
+      if (id === null) {
+        setName('');
+        setDescription('');
+      }
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/locations'] });
+    },
+    onError: (error) => showError(error, 'Failed to save location')
+  });
+
+  const handleAdd = () => {
+    if (!name.trim()) {
+      showError(null, 'Enter a name for the location');
+      return;
+    }
+    saveMutation.mutate({ id: null, data: { name: name.trim(), description: description.trim() || undefined } });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Stock Locations</CardTitle>
+        <CardDescription>
+          Places stock is kept, such as the sales floor, a back room or a second store. Sales come out of the
+          stock at the location a shift is opened at, and stock moves between locations with transfers.
+          A location can only be closed once it holds no stock.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="p-6 text-center">
+            <i className="fas fa-spinner fa-spin mr-2"></i> Loading locations...
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {(locations || []).map(location => (
+                <tr key={location.id}>
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                    {editingId === location.id ? (
+                      <Input
+                        aria-label="Location name"
+                        value={editingName}
+                        maxLength={100}
+                        onChange={(e) => setEditingName(e.target.value)}
+                      />
+                    ) : (
+                      <>
+                        {location.name}
+                        {location.id === DEFAULT_LOCATION_ID && <span className="ml-2 text-xs text-gray-400">Main</span>}
+                      </>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{location.description || '-'}</td>
+                  <td className="px-4 py-3 text-sm">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                      location.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    }`}>
+                      {location.active ? 'Open' : 'Closed'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-sm space-x-3">
+                    {editingId === location.id ? (
+                      <>
+                        <button
+                          onClick={() => saveMutation.mutate({ id: location.id, data: { name: editingName.trim() } })}
+                          disabled={saveMutation.isPending || !editingName.trim()}
+                          className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                        >
+                          Save
+                        </button>
+                        <button onClick={() => setEditingId(null)} className="text-gray-600 hover:text-gray-900">
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => { setEditingId(location.id); setEditingName(location.name); }}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          Rename
+                        </button>
+                        {location.id !== DEFAULT_LOCATION_ID && (
+                          <button
+                            onClick={() => saveMutation.mutate({ id: location.id, data: { active: !location.active } })}
+                            disabled={saveMutation.isPending}
+                            className={location.active ? "text-red-600 hover:text-red-900 disabled:opacity-50" : "text-green-600 hover:text-green-900 disabled:opacity-50"}
+                          >
+                            {location.active ? 'Close' : 'Reopen'}
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="locationName">New Location</Label>
+            <Input
+              id="locationName"
+              placeholder="e.g. Back Room"
+              value={name}
+              maxLength={100}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="locationDescription">Description (optional)</Label>
+            <Input
+              id="locationDescription"
+              value={description}
+              maxLength={200}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={saveMutation.isPending} className="w-full sm:w-auto">
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add Location
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LocationManager;
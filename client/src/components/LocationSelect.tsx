@@ -0,0 +1,61 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { StockLocation } from "@shared/schema";
+
+interface LocationSelectProps {
+  value?: number;                          // Undefined for every location, when allowAll is set
+  onChange: (locationId?: number) => void;
+  allowAll?: boolean;                      // Offer "All locations", for filters
+  includeInactive?: boolean;               // Closed locations can still be reported on
+  id?: string;
+  className?: string;
+}
+
+/**
+ * Stock locations, fetched once and shared by every screen that picks one
+ */
+export const useLocations = () => useQuery({
+  queryKey: ['/api/locations'],
+  queryFn: async () => {
+    const response = await apiRequest('/api/locations');
+    return await response.json() as StockLocation[];
+  }
+});
+
+/**
+ * Pick the location stock is taken from or put into, or filter a page by location
+ * Hidden while the store has a single location, since there is nothing to choose.
+ */
+const LocationSelect: React.FC<LocationSelectProps> = ({
+  value,
+  onChange,
+  allowAll = false,
+  includeInactive = false,
+  id,
+  className = "block pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+}) => {
+  const { data: locations } = useLocations();
+  const choices = (locations || []).filter(location => includeInactive || location.active);
+
+  if ((locations || []).length < 2) {
+    return null;
+  }
+
+  return (
+    <select
+      id={id}
+      value={value === undefined ? "" : String(value)}
+      onChange={(e) => onChange(e.target.value === "" ? undefined : parseInt(e.target.value))}
+      className={className}
+    >
+      {allowAll && <option value="">All locations</option>}
+      {choices.map(location => (
+        <option key={location.id} value={location.id}>
+          {location.name}{location.active ? "" : " (closed)"}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default LocationSelect;
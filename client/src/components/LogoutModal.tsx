@@ -1,6 +1,8 @@
 import { useAppContext } from "@/context/AppContext";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { closeNotificationStream } from "@/lib/notificationStream";
 
 const LogoutModal: React.FC = () => {
   const { showLogoutModal, setShowLogoutModal } = useAppContext();
@@ -8,8 +10,12 @@ const LogoutModal: React.FC = () => {
   const { toast } = useToast();
 
   const handleLogout = () => {
+    // Revoke the session token on the server (best effort)
+    apiRequest({ url: "/api/logout", method: "POST" }).catch(() => {});
+    
     // Clear the user session
     sessionStorage.removeItem("user");
+    closeNotificationStream();
     
     // Close the modal
     setShowLogoutModal(false);
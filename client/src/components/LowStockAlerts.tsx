@@ -17,12 +17,16 @@ interface InventoryItem {
   status: string;
 }
 
-const LowStockAlerts: React.FC = () => {
+interface LowStockAlertsProps {
+  locationId?: number;   // Compare the stock held at one location; the store total when unset
+}
+
+const LowStockAlerts: React.FC<LowStockAlertsProps> = ({ locationId }) => {
   // Fetch low stock items
   const { data: lowStockItems, isLoading, error } = useQuery({
-    queryKey: ['/api/alerts/low-stock'],
+    queryKey: ['/api/alerts/low-stock', locationId],
     queryFn: async () => {
-      const response = await apiRequest('/api/alerts/low-stock');
+      const response = await apiRequest(`/api/alerts/low-stock${locationId !== undefined ? `?locationId=${locationId}` : ''}`);
       if (response && response instanceof Response) {
         return await response.json() as InventoryItem[];
       }
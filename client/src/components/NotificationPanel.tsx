@@ -1,4 +1,5 @@
 import React from 'react';
+import { useLocation } from 'wouter';
 import { useAppContext, Notification } from '@/context/AppContext';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -9,6 +10,7 @@ import { formatDistanceToNow } from 'date-fns';
  * Displays a dropdown panel with all notifications
  */
 const NotificationPanel: React.FC = () => {
+  const [, setLocation] = useLocation();
   const {
     notifications,
     markNotificationAsRead,
@@ -19,6 +21,17 @@ const NotificationPanel: React.FC = () => {
     toggleNotifications,
   } = useAppContext();
 
+  // Opening a notification marks it read and goes to the page it is about
+  const openNotification = (notification: Notification) => {
+    if (!notification.read) {
+      markNotificationAsRead(notification.id);
+    }
+    if (notification.link) {
+      toggleNotifications();
+      setLocation(notification.link);
+    }
+  };
+
   // Stop propagation on panel click to prevent closing when clicking inside
   const handlePanelClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -79,7 +92,7 @@ const NotificationPanel: React.FC = () => {
                   <NotificationItem 
                     key={notification.id}
                     notification={notification}
-                    onMarkAsRead={markNotificationAsRead}
+                    onOpen={openNotification}
                     onClear={clearNotification}
                   />
                 ))}
@@ -97,8 +110,8 @@ const NotificationPanel: React.FC = () => {
  */
 interface NotificationItemProps {
   notification: Notification;
-  onMarkAsRead: (id: string) => void;
-  onClear: (id: string) => void;
+  onOpen: (notification: Notification) => void;
+  onClear: (id: number) => void;
 }
 
 /**
@@ -107,7 +120,7 @@ interface NotificationItemProps {
  */
 const NotificationItem: React.FC<NotificationItemProps> = ({ 
   notification, 
-  onMarkAsRead,
+  onOpen,
   onClear
 }) => {
   const { id, type, title, message, read, createdAt } = notification;
@@ -173,10 +186,8 @@ const NotificationItem: React.FC<NotificationItemProps> = ({
     }
   };
   
-  const handleMarkAsRead = () => {
-    if (!read) {
-      onMarkAsRead(id);
-    }
+  const handleOpen = () => {
+    onOpen(notification);
   };
   
   const handleClear = (e: React.MouseEvent) => {
@@ -186,8 +197,8 @@ const NotificationItem: React.FC<NotificationItemProps> = ({
   
   return (
     <div 
-      className={`${getBgColor()} p-4 hover:bg-gray-100 cursor-pointer`} 
-      onClick={handleMarkAsRead}
+      className={`${getBgColor()} relative p-4 hover:bg-gray-100 cursor-pointer`} 
+      onClick={handleOpen}
     >
       <div className="flex items-start">
         <div className={`flex-shrink-0 mt-0.5 ${getIconColor()}`}>
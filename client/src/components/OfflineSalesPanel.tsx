@@ -0,0 +1,91 @@
+/**
+ * Offline Sales Panel
+ *
+ * Shown on the POS while the server can't be reached or sales rung up
+ * offline are still waiting to be sent. A sale the server refused is listed
+ * with its reason and kept for a retry; the customer has paid for it, so the
+ * till never throws it away.
+ */
+import React from 'react';
+import type { QueuedSale } from '@/lib/offlineSales';
+
+interface OfflineSalesPanelProps {
+  isOffline: boolean;
+  isSyncing: boolean;
+  queuedSales: QueuedSale[];
+  username: string;            // Signed-in cashier; other cashiers' sales wait for them to sign in
+  onSync: (retryRejected?: boolean) => void;
+}
+
+const OfflineSalesPanel: React.FC<OfflineSalesPanelProps> = ({
+  isOffline,
+  isSyncing,
+  queuedSales,
+  username,
+  onSync
+}) => {
+  const ownSales = queuedSales.filter(sale => sale.username === username);
+  const waiting = ownSales.filter(sale => !sale.error);
+  const rejected = ownSales.filter(sale => sale.error);
+  const othersWaiting = queuedSales.length - ownSales.length;
+
+  if (!isOffline && queuedSales.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`shadow rounded-lg p-4 space-y-3 ${isOffline ? 'bg-amber-50 border border-amber-200' : 'bg-white'}`}>
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900">{isOffline ? 'Offline' : 'Offline sales'}</h3>
+          <p className="text-xs text-gray-500">
+            {isOffline
+              ? 'Sales are saved on this till and sent when the server is back.'
+              : 'Sales rung up while the server was unreachable.'}
+            {waiting.length > 0 && ` ${waiting.length} waiting to send.`}
+          </p>
+        </div>
+        {waiting.length > 0 && (
+          <button
+            onClick={() => onSync()}
+            disabled={isSyncing}
+            className="px-3 py-1.5 rounded-md text-sm font-medium bg-gray-800 text-white hover:bg-gray-900 disabled:opacity-50"
+          >
+            {isSyncing ? 'Sending...' : 'Send now'}
+          </button>
+        )}
+      </div>
+
+      {rejected.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-red-700">Refused by the server - ask a manager before retrying</p>
+          {rejected.map(sale => (
+            <div key={sale.idempotencyKey} className="border border-red-200 bg-red-50 rounded-md p-2">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium">{sale.provisionalId}</span>
+                <span>${sale.amount.toFixed(2)}</span>
+              </div>
+              <p className="text-xs text-red-700">{sale.error}</p>
+              <p className="text-xs text-gray-500">{new Date(sale.rungUpAt).toLocaleString()}</p>
+              <button
+                onClick={() => onSync(true)}
+                disabled={isSyncing}
+                className="mt-2 px-2 py-1 rounded-md text-xs font-medium border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Retry
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {othersWaiting > 0 && (
+        <p className="text-xs text-gray-500">
+          {othersWaiting} sale(s) rung up by other cashiers will be sent when they sign in on this till.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default OfflineSalesPanel;
@@ -3,6 +3,8 @@ import { useReactToPrint } from 'react-to-print';
 import { useQuery } from '@tanstack/react-query';
 import { openCashDrawer } from '@/utils/peripheralDetection';
 import { useToast } from '@/hooks/use-toast';
+import { TENDER_LABELS } from '@shared/tenders';
+import type { Tender } from '@shared/schema';
 
 interface CartItem {
   id: number;
@@ -11,6 +13,14 @@ interface CartItem {
   quantity: number;
   unit: string;
   subtotal: number;
+  discounts?: ReceiptDiscount[];
+}
+
+// Promotion or discount printed under a line or in the totals
+interface ReceiptDiscount {
+  source?: string;
+  description: string;
+  amount: number;
 }
 
 interface StoreSettings {
@@ -26,18 +36,32 @@ interface PrintReceiptProps {
   isOpen: boolean;
   onClose: () => void;
   cart: CartItem[];
+  cartSubtotal: number;
+  cartDiscount?: ReceiptDiscount;
+  cartTax: number;
   cartTotal: number;
+  tenders?: Tender[];
+  change?: number;
+  openDrawer?: boolean; // Open the cash drawer, for new sales paid partly in cash
   cashier: string;
   transactionId?: string;
+  provisional?: boolean; // Rung up offline; transactionId is the till's provisional number
 }
 
 const PrintReceipt: React.FC<PrintReceiptProps> = ({
   isOpen,
   onClose,
   cart,
+  cartSubtotal,
+  cartDiscount,
+  cartTax,
   cartTotal,
+  tenders,
+  change,
+  openDrawer = false,
   cashier,
-  transactionId
+  transactionId,
+  provisional = false
 }) => {
   const componentRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
@@ -61,9 +85,9 @@ const PrintReceipt: React.FC<PrintReceiptProps> = ({
     }
   }, [storeSettings]);
   
-  // Attempt to open cash drawer when the receipt dialog is opened
+  // Attempt to open cash drawer when the receipt dialog is opened for a cash sale
   useEffect(() => {
-    if (isOpen) {
+    if (isOpen && openDrawer) {
       // Try to open the cash drawer
       openCashDrawer().then(success => {
         if (success) {
@@ -144,6 +168,9 @@ const PrintReceipt: React.FC<PrintReceiptProps> = ({
               </div>
               <div className="text-sm">Cashier ID: {cashier}</div>
               <div className="text-sm">Transaction #: {transactionId || `TRX-${settings.nextTransactionId}`}</div>
+              {provisional && (
+                <div className="text-xs mt-1">Provisional receipt: sale made offline, recorded when the till reconnects</div>
+              )}
             </div>
             
             <table className="w-full text-sm mb-4">
@@ -157,21 +184,56 @@ const PrintReceipt: React.FC<PrintReceiptProps> = ({
               </thead>
               <tbody>
                 {cart.map((item, index) => (
-                  <tr key={index} className="border-b border-gray-200">
-                    <td className="py-1 text-left">{item.name}</td>
-                    <td className="py-1 text-center">{item.quantity} {item.unit}</td>
-                    <td className="py-1 text-right">${item.price.toFixed(2)}</td>
-                    <td className="py-1 text-right">${item.subtotal.toFixed(2)}</td>
-                  </tr>
+                  <React.Fragment key={index}>
+                    <tr className="border-b border-gray-200">
+                      <td className="py-1 text-left">{item.name}</td>
+                      <td className="py-1 text-center">{item.quantity} {item.unit}</td>
+                      <td className="py-1 text-right">${item.price.toFixed(2)}</td>
+                      <td className="py-1 text-right">${item.subtotal.toFixed(2)}</td>
+                    </tr>
+                    {/* Cart discount shares are printed once in the totals */}
+                    {item.discounts?.filter(discount => discount.source !== 'cart').map((discount, discountIndex) => (
+                      <tr key={`${index}-${discountIndex}`} className="text-xs">
+                        <td className="py-0.5 pl-2 text-left" colSpan={3}>{discount.description}</td>
+                        <td className="py-0.5 text-right">-${discount.amount.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
                 ))}
               </tbody>
             </table>
             
             <div className="border-t border-gray-300 pt-2 mb-4">
+              <div className="flex justify-between text-sm">
+                <span>Subtotal</span>
+                <span>${cartSubtotal.toFixed(2)}</span>
+              </div>
+              {cartDiscount && (
+                <div className="flex justify-between text-sm">
+                  <span>{cartDiscount.description}</span>
+                  <span>-${cartDiscount.amount.toFixed(2)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-sm mb-1">
+                <span>Tax</span>
+                <span>${cartTax.toFixed(2)}</span>
+              </div>
               <div className="flex justify-between font-bold">
                 <span>TOTAL</span>
                 <span>${cartTotal.toFixed(2)}</span>
               </div>
+              {tenders?.map((tender, index) => (
+                <div key={index} className="flex justify-between text-sm">
+                  <span>{TENDER_LABELS[tender.type]}{tender.reference ? ` (${tender.reference})` : ''}</span>
+                  <span>${tender.amount.toFixed(2)}</span>
+                </div>
+              ))}
+              {change !== undefined && change > 0 && (
+                <div className="flex justify-between text-sm font-bold">
+                  <span>Change</span>
+                  <span>${change.toFixed(2)}</span>
+                </div>
+              )}
             </div>
             
             <div className="text-center text-xs mt-6">
@@ -1,6 +1,7 @@
 import React from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import { locationOf } from '@shared/locations';
 
 // Define types for sales data
 interface SaleItem {
@@ -21,6 +22,7 @@ interface Sale {
   items: SaleItem[];
   refundedBy?: string;
   refundDate?: string;
+  locationId?: number;
 }
 
 // Helper function to format date
@@ -44,7 +46,11 @@ const formatDate = (dateString: string): string => {
   }
 };
 
-const RecentSales: React.FC = () => {
+interface RecentSalesProps {
+  locationId?: number;   // Only sales rung up at this location
+}
+
+const RecentSales: React.FC<RecentSalesProps> = ({ locationId }) => {
   // Fetch sales data from API
   const { data: sales, isLoading, error } = useQuery({
     queryKey: ['/api/sales'],
@@ -59,7 +65,7 @@ const RecentSales: React.FC = () => {
 
   // Sort sales by date (newest first) and take the most recent 5
   const recentSales = sales && Array.isArray(sales) 
-    ? [...sales].sort((a, b) => 
+    ? sales.filter(sale => locationId === undefined || locationOf(sale) === locationId).sort((a, b) => 
         new Date(b.date).getTime() - new Date(a.date).getTime()
       ).slice(0, 5)
     : [];
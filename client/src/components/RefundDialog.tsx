@@ -0,0 +1,285 @@
+/**
+ * Refund Dialog
+ *
+ * Returns some or all of a sale. The user picks the quantity of each line to
+ * take back, whether it can go back on the shelf, and a reason. The refund
+ * shown is an estimate; the server prices the return from what the customer
+ * paid and records items that can't be resold as losses.
+ */
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiRequest, errorMessage } from '@/lib/queryClient';
+import { REFUND_REASON_LABELS, remainingQuantities } from '@shared/refunds';
+import { TENDER_LABELS, type TenderType } from '@shared/tenders';
+import type { RefundReason, Tender } from '@shared/schema';
+
+export interface SaleReturn {
+  id: number;
+  date: string;
+  processedBy: string;
+  reason: RefundReason;
+  notes?: string;
+  tender: TenderType;
+  lines: { saleLine?: number; productId: number; name: string; quantity: number; restocked: boolean; amount: number; tax: number }[];
+  amount: number;
+  tax: number;
+}
+
+// The parts of a sale the dialog needs
+export interface RefundableSale {
+  id: string;
+  amount: number;
+  status: string;
+  tenders?: Tender[];
+  items: {
+    productId: number;
+    name: string;
+    quantity: number;
+    unit: string;
+    subtotal: number;
+    discount?: number;
+    tax?: number;
+  }[];
+  returns?: SaleReturn[];
+  refundedAmount?: number;
+}
+
+interface RefundDialogProps {
+  sale: RefundableSale | null;
+  onClose: () => void;
+  onRefunded: (sale: RefundableSale, saleReturn: SaleReturn) => void;
+}
+
+interface LineSelection {
+  quantity: string;
+  restock: boolean;
+}
+
+/**
+ * Refund the way the sale was paid, preferring cash for split payments
+ */
+const defaultTender = (sale: RefundableSale): TenderType => {
+  if (!sale.tenders?.length) return 'cash';
+  return sale.tenders.some(tender => tender.type === 'cash') ? 'cash' : sale.tenders[0].type;
+};
+
+const RefundDialog: React.FC<RefundDialogProps> = ({ sale, onClose, onRefunded }) => {
+  // Keyed by the index of the sale line, since a product can be on the sale more than once
+  const [selections, setSelections] = useState<Record<number, LineSelection>>({});
+  const [reason, setReason] = useState<RefundReason>('changed_mind');
+  const [tender, setTender] = useState<TenderType>('cash');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const remaining = sale ? remainingQuantities(sale) : [];
+
+  // Start with nothing selected each time a sale is opened
+  useEffect(() => {
+    if (sale) {
+      setSelections(Object.fromEntries(sale.items.map((item, index) => [index, { quantity: '', restock: true }])));
+      setReason('changed_mind');
+      setTender(defaultTender(sale));
+      setNotes('');
+      setError('');
+    }
+  }, [sale?.id]);
+
+  const updateLine = (index: number, update: Partial<LineSelection>) => {
+    setSelections(current => ({ ...current, [index]: { ...current[index], ...update } }));
+  };
+
+  const selectAll = () => {
+    if (!sale) return;
+    setSelections(current => Object.fromEntries(sale.items.map((item, index) => [
+      index,
+      { ...current[index], quantity: String(remaining[index] || '') }
+    ])));
+  };
+
+  const selectedLines = sale
+    ? sale.items
+        .map((item, index) => ({ item, index, selection: selections[index], quantity: Number(selections[index]?.quantity) }))
+        .filter(({ quantity }) => Number.isFinite(quantity) && quantity > 0)
+    : [];
+
+  // Share of what was paid for each line, as the server will work it out
+  const estimatedRefund = selectedLines.reduce((sum, { item, quantity }) => {
+    const paid = item.subtotal - (item.discount || 0) + (item.tax || 0);
+    return sum + paid * Math.min(quantity, item.quantity) / item.quantity;
+  }, 0);
+
+  const handleSubmit = async () => {
+    if (!sale) return;
+
+    if (selectedLines.length === 0) {
+      setError('Enter the quantity of at least one item to return');
+      return;
+    }
+    const tooMany = selectedLines.find(({ index, quantity }) => quantity > (remaining[index] || 0));
+    if (tooMany) {
+      setError(`Only ${remaining[tooMany.index] || 0} ${tooMany.item.unit} of ${tooMany.item.name} can be returned`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await apiRequest({
+        url: `/api/sales/${sale.id}/refund`,
+        method: 'POST',
+        data: {
+          reason,
+          tender,
+          lines: selectedLines.map(({ item, index, selection, quantity }) => ({
+            saleLine: index,
+            productId: item.productId,
+            quantity,
+            restock: selection.restock
+          })),
+          ...(notes.trim() ? { notes: notes.trim() } : {})
+        }
+      });
+
+      const refundedSale = await response.json() as RefundableSale;
+      onRefunded(refundedSale, refundedSale.returns![refundedSale.returns!.length - 1]);
+    } catch (error) {
+      setError(errorMessage(error, 'Failed to process refund'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!sale} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-destructive">Refund Items</DialogTitle>
+          <DialogDescription>
+            Choose what the customer is returning from {sale?.id}.
+            {!!sale?.refundedAmount && ` $${sale.refundedAmount.toFixed(2)} has already been refunded.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {sale && (
+          <div className="space-y-4">
+            <div className="border rounded-md divide-y">
+              <div className="grid grid-cols-12 gap-2 px-3 py-2 text-xs font-medium text-gray-500 uppercase">
+                <span className="col-span-5">Item</span>
+                <span className="col-span-2 text-right">Returnable</span>
+                <span className="col-span-2">Return</span>
+                <span className="col-span-3">Restock</span>
+              </div>
+              {sale.items.map((item, index) => {
+                const left = remaining[index] || 0;
+                const selection = selections[index] || { quantity: '', restock: true };
+                return (
+                  <div key={index} className={`grid grid-cols-12 gap-2 px-3 py-2 items-center text-sm ${left === 0 ? 'opacity-50' : ''}`}>
+                    <span className="col-span-5 font-medium truncate" title={item.name}>{item.name}</span>
+                    <span className="col-span-2 text-right">{left} of {item.quantity} {item.unit}</span>
+                    <span className="col-span-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        max={left}
+                        step="any"
+                        value={selection.quantity}
+                        disabled={left === 0 || isSubmitting}
+                        onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                        aria-label={`Quantity of ${item.name} to return`}
+                      />
+                    </span>
+                    <label className="col-span-3 flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={selection.restock}
+                        disabled={left === 0 || isSubmitting}
+                        onChange={(e) => updateLine(index, { restock: e.target.checked })}
+                      />
+                      {selection.restock ? 'Back to stock' : 'Record as loss'}
+                    </label>
+                  </div>
+                );
+              })}
+            </div>
+
+            <button
+              type="button"
+              onClick={selectAll}
+              disabled={isSubmitting}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Return everything still returnable
+            </button>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="refundReason">Reason</Label>
+                <select
+                  id="refundReason"
+                  className="w-full border border-gray-300 rounded-md py-2 px-3 text-sm"
+                  value={reason}
+                  onChange={(e) => {
+                    const value = e.target.value as RefundReason;
+                    setReason(value);
+                    // Damaged goods can't go back on the shelf
+                    if (value === 'damaged' || value === 'defective') {
+                      setSelections(current => Object.fromEntries(
+                        Object.entries(current).map(([id, line]) => [id, { ...line, restock: false }])
+                      ));
+                    }
+                  }}
+                >
+                  {(Object.keys(REFUND_REASON_LABELS) as RefundReason[]).map(code => (
+                    <option key={code} value={code}>{REFUND_REASON_LABELS[code]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="refundTender">Refund To</Label>
+                <select
+                  id="refundTender"
+                  className="w-full border border-gray-300 rounded-md py-2 px-3 text-sm"
+                  value={tender}
+                  onChange={(e) => setTender(e.target.value as TenderType)}
+                >
+                  {(Object.keys(TENDER_LABELS) as TenderType[]).map(type => (
+                    <option key={type} value={type}>{TENDER_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="refundNotes">Notes (optional)</Label>
+              <Input
+                id="refundNotes"
+                value={notes}
+                maxLength={500}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+
+            <div className="flex justify-between text-lg font-bold">
+              <span>Estimated Refund</span>
+              <span className="text-destructive">${estimatedRefund.toFixed(2)}</span>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>Cancel</Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={isSubmitting || selectedLines.length === 0}>
+            {isSubmitting ? 'Processing...' : 'Confirm Refund'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefundDialog;
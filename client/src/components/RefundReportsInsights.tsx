@@ -47,10 +47,19 @@ interface Sale {
   amount: number;
   status: string;
   items: SaleItem[];
+  returns?: { lines: { name: string; quantity: number; amount: number }[] }[];
+  refundedAmount?: number;
   refundedBy?: string;
   refundDate?: string;
 }
 
+// Sales with any refund, full or partial
+const isRefunded = (sale: Sale) =>
+  sale.status.toLowerCase() === 'refunded' || !!sale.returns?.length;
+
+// Amount given back; sales refunded before returns were recorded gave back everything
+const refundedAmount = (sale: Sale) => sale.refundedAmount ?? sale.amount;
+
 // Main component
 const RefundReportsInsights: React.FC = () => {
   const [refundData, setRefundData] = useState<any[]>([]);
@@ -86,9 +95,7 @@ const RefundReportsInsights: React.FC = () => {
       }
       
       // Filter refunded transactions
-      const refunds = (salesData as Sale[]).filter(sale => 
-        sale.status.toLowerCase() === 'refunded'
-      );
+      const refunds = (salesData as Sale[]).filter(isRefunded);
       
       if (refunds.length === 0) {
         toast({
@@ -109,7 +116,7 @@ const RefundReportsInsights: React.FC = () => {
         refund.refundDate || 'Unknown',
         refund.refundedBy || 'Unknown',
         refund.cashier,
-        refund.amount.toFixed(2),
+        refundedAmount(refund).toFixed(2),
         refund.items.length.toString()
       ]);
       
@@ -155,14 +162,12 @@ const RefundReportsInsights: React.FC = () => {
     if (!salesData || !Array.isArray(salesData)) return;
     
     // Filter refunded transactions
-    const refunds = (salesData as Sale[]).filter(sale => 
-      sale.status.toLowerCase() === 'refunded'
-    );
+    const refunds = (salesData as Sale[]).filter(isRefunded);
     
     if (refunds.length === 0) return;
 
     // Calculate totals
-    const total = refunds.reduce((sum, sale) => sum + sale.amount, 0);
+    const total = refunds.reduce((sum, sale) => sum + refundedAmount(sale), 0);
     const avg = total / refunds.length;
     
     setTotalRefunded(total);
@@ -180,7 +185,7 @@ const RefundReportsInsights: React.FC = () => {
         };
       }
       acc[date].count += 1;
-      acc[date].amount += sale.amount;
+      acc[date].amount += refundedAmount(sale);
       return acc;
     }, {} as Record<string, {date: string, count: number, amount: number}>);
 
@@ -197,7 +202,7 @@ const RefundReportsInsights: React.FC = () => {
         };
       }
       acc[user].count += 1;
-      acc[user].amount += sale.amount;
+      acc[user].amount += refundedAmount(sale);
       return acc;
     }, {} as Record<string, {name: string, count: number, amount: number}>);
 
@@ -207,7 +212,10 @@ const RefundReportsInsights: React.FC = () => {
     const products: Record<string, {name: string, quantity: number, amount: number}> = {};
     
     refunds.forEach(sale => {
-      sale.items.forEach(item => {
+      const returnedItems = sale.returns?.length
+        ? sale.returns.flatMap(saleReturn => saleReturn.lines)
+        : sale.items.map(item => ({ name: item.name, quantity: item.quantity, amount: item.subtotal }));
+      returnedItems.forEach(item => {
         if (!products[item.name]) {
           products[item.name] = {
             name: item.name,
@@ -216,7 +224,7 @@ const RefundReportsInsights: React.FC = () => {
           };
         }
         products[item.name].quantity += item.quantity;
-        products[item.name].amount += item.subtotal;
+        products[item.name].amount += item.amount;
       });
     });
 
@@ -4,6 +4,7 @@ import { format } from 'date-fns';
 import { saveAs } from 'file-saver';
 import { useToast } from '@/hooks/use-toast';
 import { generateReportPdf } from '@/utils/pdfGenerator';
+import { getAuthHeaders } from '@/lib/queryClient';
 import { Button } from '@/components/ui/button';
 import { FileText, Loader2 } from 'lucide-react';
 
@@ -36,7 +37,7 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
   const { data, isLoading, error, refetch } = useQuery({
     queryKey: [endpoint, reportType, reportName], // Include reportType to differentiate between reports with same endpoint
     queryFn: async () => {
-      const response = await fetch(endpoint);
+      const response = await fetch(endpoint, { headers: getAuthHeaders() });
       if (!response.ok) {
         throw new Error(`Failed to fetch ${reportName} data`);
       }
@@ -349,6 +350,47 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
               reasonCount: reasonSet.size
             };
           }
+        case 'tax':
+          {
+            const filteredData = data.filter(row => row && typeof row === 'object');
+            
+            // Sum the per-category rows from the tax summary endpoint
+            const taxableSales = filteredData.reduce((sum, row) => sum + (Number(row?.taxableSales) || 0), 0);
+            const taxCollected = filteredData.reduce((sum, row) => sum + (Number(row?.taxCollected) || 0), 0);
+            
+            return {
+              taxableSales: Number(taxableSales.toFixed(2)),
+              taxCollected: Number(taxCollected.toFixed(2)),
+              rowCount: filteredData.length
+            };
+          }
+        case 'tenders':
+          {
+            const filteredData = data.filter(row => row && typeof row === 'object');
+            
+            // Sum the per-tender rows from the tender summary endpoint
+            const totalTaken = filteredData.reduce((sum, row) => sum + (Number(row?.amount) || 0), 0);
+            const cashRow = filteredData.find(row => row?.id === 'cash');
+            
+            return {
+              totalTaken: Number(totalTaken.toFixed(2)),
+              cashInDrawer: Number((Number(cashRow?.amount) || 0).toFixed(2))
+            };
+          }
+        case 'count-variance':
+          {
+            const filteredData = data.filter(row => row && typeof row === 'object');
+            
+            // Net the per-item variances from posted stock counts
+            const netValue = filteredData.reduce((sum, row) => sum + (Number(row?.varianceValue) || 0), 0);
+            const shrinkage = filteredData.reduce((sum, row) => sum + Math.min(Number(row?.varianceValue) || 0, 0), 0);
+            
+            return {
+              varianceCount: filteredData.length,
+              netValue: Number(netValue.toFixed(2)),
+              shrinkage: Number(shrinkage.toFixed(2))
+            };
+          }
         default:
           // For any other report type, return basic count statistics
           return {
@@ -374,6 +416,12 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
         return ['ID', 'SKU', 'Name', 'Category', 'Current Stock', 'Threshold', 'Status'];
       case 'refunds':
         return ['Transaction ID', 'Refund Date', 'Refunded By', 'Original Cashier', 'Amount ($)', 'Items'];
+      case 'tax':
+        return ['Category', 'Tax Rate', 'Lines', 'Taxable Sales ($)', 'Tax Collected ($)'];
+      case 'tenders':
+        return ['Tender', 'Sales', 'Tendered ($)', 'Change ($)', 'Refunded ($)', 'Net ($)'];
+      case 'count-variance':
+        return ['Count', 'Posted', 'SKU', 'Item Name', 'Expected', 'Counted', 'Variance', 'Value ($)'];
       default:
         return ['ID', 'Name', 'Value'];
     }
@@ -527,6 +575,59 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({
               return ['N/A', 'N/A', 'N/A', 'N/A', '0.00', '0'];
             }
           });
+        case 'tax':
+          return data.map(row => {
+            // More robust property access with error handling
+            try {
+              return [
+                row?.category?.toString() || 'N/A',
+                row?.taxExempt ? 'Exempt' : `${Number(row?.taxRate) || 0}%`,
+                (Number(row?.lineCount) || 0).toString(),
+                (Number(row?.taxableSales) || 0).toFixed(2),
+                (Number(row?.taxCollected) || 0).toFixed(2)
+              ];
+            } catch (err) {
+              // Return a default row if any property fails
+              return ['N/A', '0%', '0', '0.00', '0.00'];
+            }
+          });
+        case 'tenders':
+          return data.map(row => {
+            // More robust property access with error handling
+            try {
+              return [
+                row?.tender?.toString() || 'N/A',
+                (Number(row?.saleCount) || 0).toString(),
+                (Number(row?.tendered) || 0).toFixed(2),
+                (Number(row?.change) || 0).toFixed(2),
+                (Number(row?.refunded) || 0).toFixed(2),
+                (Number(row?.amount) || 0).toFixed(2)
+              ];
+            } catch (err) {
+              // Return a default row if any property fails
+              return ['N/A', '0', '0.00', '0.00', '0.00', '0.00'];
+            }
+          });
+        case 'count-variance':
+          return data.map(row => {
+            // More robust property access with error handling
+            try {
+              const variance = Number(row?.variance) || 0;
+              return [
+                row?.count?.toString() || 'N/A',
+                row?.postedAt ? format(new Date(row.postedAt), 'yyyy-MM-dd') : 'N/A',
+                row?.sku?.toString() || 'N/A',
+                row?.name?.toString() || 'N/A',
+                (Number(row?.expected) || 0).toString(),
+                (Number(row?.counted) || 0).toString(),
+                `${variance > 0 ? '+' : ''}${variance}`,
+                (Number(row?.varianceValue) || 0).toFixed(2)
+              ];
+            } catch (err) {
+              // Return a default row if any property fails
+              return ['N/A', 'N/A', 'N/A', 'N/A', '0', '0', '0', '0.00'];
+            }
+          });
         default:
           return data.map(item => {
             // More robust property access with error handling
@@ -0,0 +1,217 @@
+/**
+ * Shift Panel
+ *
+ * Register shift controls shown on the POS. With no open shift the cashier
+ * counts and enters the opening float, and picks the location stock is sold
+ * from when there are several; during a shift they record paid-ins,
+ * paid-outs and cash drops, and close the shift with a blind count, after
+ * which the Z report is shown for printing.
+ */
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useErrorToast } from '@/hooks/useErrorToast';
+import CloseShiftDialog from '@/components/CloseShiftDialog';
+import LocationSelect, { useLocations } from '@/components/LocationSelect';
+import { DEFAULT_LOCATION_ID, locationOf } from '@shared/locations';
+import ShiftReportView, { movementLabels, type CashMovement, type Shift, type ShiftReport } from '@/components/ShiftReportView';
+
+interface ShiftPanelProps {
+  shift: Shift | null | undefined;
+  isLoading: boolean;
+}
+
+const ShiftPanel: React.FC<ShiftPanelProps> = ({ shift, isLoading }) => {
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [locationId, setLocationId] = useState<number>(DEFAULT_LOCATION_ID);
+  const [movementType, setMovementType] = useState<CashMovement['type'] | null>(null);
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const [closingShift, setClosingShift] = useState<Shift | null>(null);
+  const [report, setReport] = useState<ShiftReport | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+  const showError = useErrorToast();
+  const { data: locations } = useLocations();
+
+  const refreshShifts = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/shifts/current'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
+  };
+
+  const handleOpenShift = async () => {
+    const amount = Number(openingFloat);
+    if (openingFloat.trim() === '' || !Number.isFinite(amount) || amount < 0) {
+      showError(null, 'Enter the counted opening float');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await apiRequest({ url: '/api/shifts', method: 'POST', data: { openingFloat: amount, locationId } });
+      setOpeningFloat('');
+      refreshShifts();
+      toast({ description: 'Shift opened', duration: 2000 });
+    } catch (error) {
+      showError(error, 'Failed to open shift');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRecordMovement = async () => {
+    if (!shift || !movementType) return;
+
+    const amount = Number(movementAmount);
+    if (!Number.isFinite(amount) || amount <= 0 || !movementReason.trim()) {
+      showError(null, 'Enter an amount and a reason');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await apiRequest({
+        url: `/api/shifts/${shift.id}/movements`,
+        method: 'POST',
+        data: { type: movementType, amount, reason: movementReason.trim() }
+      });
+      toast({ description: `${movementLabels[movementType]} of $${amount.toFixed(2)} recorded`, duration: 2000 });
+      setMovementType(null);
+      refreshShifts();
+    } catch (error) {
+      showError(error, 'Failed to record the cash movement');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startMovement = (type: CashMovement['type']) => {
+    setMovementType(type);
+    setMovementAmount('');
+    setMovementReason('');
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <>
+      <div className="bg-white shadow rounded-lg p-4">
+        {shift ? (
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <div>
+                <h3 className="text-sm font-medium text-gray-900">Shift #{shift.id}</h3>
+                <p className="text-xs text-gray-500">
+                  Opened {new Date(shift.openedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} with ${shift.openingFloat.toFixed(2)} float
+                  {(locations || []).length > 1 && ` at ${locations!.find(location => location.id === locationOf(shift))?.name}`}
+                </p>
+              </div>
+              <button
+                onClick={() => setClosingShift(shift)}
+                className="px-3 py-1.5 rounded-md text-sm font-medium bg-gray-800 text-white hover:bg-gray-900"
+              >
+                Close Shift
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(movementLabels) as CashMovement['type'][]).map(type => (
+                <button
+                  key={type}
+                  onClick={() => startMovement(type)}
+                  className="px-2 py-1.5 rounded-md text-xs font-medium border border-gray-300 text-gray-700 hover:bg-gray-50"
+                >
+                  {movementLabels[type]}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div>
+              <h3 className="text-sm font-medium text-gray-900">No open shift</h3>
+              <p className="text-xs text-gray-500">Count the cash in the drawer and open a shift to start selling.</p>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Opening float ($)"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+              />
+              <LocationSelect
+                value={locationId}
+                onChange={(value) => setLocationId(value ?? DEFAULT_LOCATION_ID)}
+                className="rounded-md border border-gray-300 px-2 text-sm"
+              />
+              <Button onClick={handleOpenShift} disabled={isSubmitting}>Open Shift</Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Paid in, paid out or cash drop */}
+      <Dialog open={movementType !== null} onOpenChange={(open) => !open && !isSubmitting && setMovementType(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{movementType ? movementLabels[movementType] : ''}</DialogTitle>
+            <DialogDescription>
+              {movementType === 'drop'
+                ? 'Cash removed from the drawer to the safe.'
+                : movementType === 'paid_in'
+                  ? 'Cash put into the drawer that is not from a sale.'
+                  : 'Cash paid out of the drawer, such as for a delivery or supplies.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="movementAmount">Amount ($)</Label>
+              <Input
+                id="movementAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={movementAmount}
+                onChange={(e) => setMovementAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="movementReason">Reason</Label>
+              <Input
+                id="movementReason"
+                value={movementReason}
+                maxLength={200}
+                onChange={(e) => setMovementReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMovementType(null)} disabled={isSubmitting}>Cancel</Button>
+            <Button onClick={handleRecordMovement} disabled={isSubmitting}>Record</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <CloseShiftDialog
+        shift={closingShift}
+        onClose={() => setClosingShift(null)}
+        onClosed={(zReport) => {
+          setClosingShift(null);
+          setReport(zReport);
+          refreshShifts();
+        }}
+      />
+
+      <ShiftReportView report={report} onClose={() => setReport(null)} />
+    </>
+  );
+};
+
+export default ShiftPanel;
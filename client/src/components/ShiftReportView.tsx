@@ -0,0 +1,213 @@
+/**
+ * Shift Report View
+ *
+ * Printable X (mid-shift) or Z (close) report for a register shift: sales,
+ * takings by tender, cash movements and the drawer count. Also exports the
+ * shift types shared by the shift components.
+ */
+import React, { useRef } from 'react';
+import { useReactToPrint } from 'react-to-print';
+import { useQuery } from '@tanstack/react-query';
+
+export interface CashMovement {
+  id: number;
+  type: 'paid_in' | 'paid_out' | 'drop';
+  amount: number;
+  reason: string;
+  recordedBy: string;
+  date: string;
+}
+
+export interface Shift {
+  id: number;
+  userId: number;
+  cashier: string;
+  status: 'open' | 'closed';
+  openedAt: string;
+  openingFloat: number;
+  locationId?: number;        // Where stock sold in the shift comes from
+  movements: CashMovement[];
+  closedAt?: string;
+  closedBy?: string;
+  countedCash?: number;
+  expectedCash?: number;
+  variance?: number;
+  closingNotes?: string;
+}
+
+export interface ShiftReport {
+  type: 'X' | 'Z';
+  shiftId: number;
+  cashier: string;
+  openedAt: string;
+  closedAt?: string;
+  closedBy?: string;
+  generatedAt: string;
+  saleCount: number;
+  grossSales: number;
+  discounts: number;
+  returns: number;
+  tax: number;
+  refundedSales: number;
+  tenders: { id: string; tender: string; saleCount: number; tendered: number; change: number; refunded: number; amount: number }[];
+  openingFloat: number;
+  cashSales: number;
+  paidIns: number;
+  paidOuts: number;
+  drops: number;
+  expectedCash: number;
+  countedCash?: number;
+  variance?: number;
+  varianceFlagged: boolean;
+}
+
+export const movementLabels: Record<CashMovement['type'], string> = {
+  paid_in: 'Paid In',
+  paid_out: 'Paid Out',
+  drop: 'Cash Drop'
+};
+
+interface ShiftReportViewProps {
+  report: ShiftReport | null;
+  onClose: () => void;
+}
+
+const formatDateTime = (value?: string) => value
+  ? new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(new Date(value))
+  : '-';
+
+const Row: React.FC<{ label: string; value: string; bold?: boolean }> = ({ label, value, bold }) => (
+  <div className={`flex justify-between text-sm ${bold ? 'font-bold' : ''}`}>
+    <span>{label}</span>
+    <span>{value}</span>
+  </div>
+);
+
+const ShiftReportView: React.FC<ShiftReportViewProps> = ({ report, onClose }) => {
+  const componentRef = useRef<HTMLDivElement>(null);
+  const { data: settings } = useQuery<{ storeName: string }>({
+    queryKey: ['/api/settings'],
+    enabled: !!report,
+  });
+
+  const handlePrint = useReactToPrint({
+    documentTitle: report ? `${report.type} Report - Shift ${report.shiftId}` : 'Shift Report',
+    contentRef: componentRef,
+    suppressErrors: true,
+    pageStyle: `
+      @page {
+        size: 80mm auto;
+        margin: 0mm;
+      }
+      body {
+        width: 80mm;
+        padding: 5mm;
+        margin: 0;
+      }
+    `
+  });
+
+  if (!report) return null;
+
+  const money = (value: number) => `$${value.toFixed(2)}`;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium">{report.type} Report</h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <span className="sr-only">Close</span>
+              <svg className="h-6 w-6" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Report content (to be printed) */}
+          <div ref={componentRef} className="bg-white p-4 space-y-3" style={{ width: '80mm', margin: '0 auto' }}>
+            <div className="text-center">
+              <h2 className="text-lg font-bold">{settings?.storeName || 'Inventory Pro Store'}</h2>
+              <p className="text-sm font-semibold">
+                {report.type === 'Z' ? 'Z REPORT - SHIFT CLOSE' : 'X REPORT - MID SHIFT'}
+              </p>
+            </div>
+
+            <div className="border-t border-b border-gray-300 py-2">
+              <Row label="Shift" value={`#${report.shiftId}`} />
+              <Row label="Cashier" value={report.cashier} />
+              <Row label="Opened" value={formatDateTime(report.openedAt)} />
+              {report.closedAt && <Row label="Closed" value={formatDateTime(report.closedAt)} />}
+              {report.closedBy && report.closedBy !== report.cashier && <Row label="Closed by" value={report.closedBy} />}
+              <Row label="Printed" value={formatDateTime(report.generatedAt)} />
+            </div>
+
+            <div>
+              <Row label="Sales" value={report.saleCount.toString()} />
+              <Row label="Gross sales" value={money(report.grossSales)} />
+              <Row label="Discounts" value={money(report.discounts)} />
+              {report.returns > 0 && <Row label="Returns" value={`-${money(report.returns)}`} />}
+              <Row label="Tax" value={money(report.tax)} />
+              {report.refundedSales > 0 && <Row label="Refunded sales" value={report.refundedSales.toString()} />}
+            </div>
+
+            <div className="border-t border-gray-300 pt-2">
+              <p className="text-xs font-semibold uppercase mb-1">Tenders</p>
+              {report.tenders.length > 0 ? report.tenders.map(row => (
+                <Row key={row.id} label={`${row.tender} (${row.saleCount})`} value={money(row.amount)} />
+              )) : (
+                <p className="text-sm text-gray-500">No sales</p>
+              )}
+            </div>
+
+            <div className="border-t border-gray-300 pt-2">
+              <p className="text-xs font-semibold uppercase mb-1">Cash Drawer</p>
+              <Row label="Opening float" value={money(report.openingFloat)} />
+              <Row label="Cash sales" value={money(report.cashSales)} />
+              <Row label="Paid in" value={money(report.paidIns)} />
+              <Row label="Paid out" value={`-${money(report.paidOuts)}`} />
+              <Row label="Cash drops" value={`-${money(report.drops)}`} />
+              <Row label="Expected in drawer" value={money(report.expectedCash)} bold />
+              {report.countedCash !== undefined && (
+                <>
+                  <Row label="Counted" value={money(report.countedCash)} bold />
+                  <div className={`flex justify-between text-sm font-bold ${report.varianceFlagged ? 'text-red-600' : 'text-green-700'}`}>
+                    <span>{report.varianceFlagged ? ((report.variance || 0) > 0 ? 'Over' : 'Short') : 'Balanced'}</span>
+                    <span>{money(Math.abs(report.variance || 0))}</span>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="mt-6 flex justify-center space-x-3">
+            <button
+              onClick={handlePrint}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Print Report
+            </button>
+            <button
+              onClick={onClose}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShiftReportView;
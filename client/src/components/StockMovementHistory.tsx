@@ -0,0 +1,156 @@
+/**
+ * Stock Movement History
+ *
+ * Lists every recorded change to one item's stock, newest first: what caused
+ * it, by how much stock moved, the level before and after, who made it and
+ * the sale, loss or purchase order it came from, the location it happened
+ * at when there are several, and for items held as lots, which lots the
+ * stock came from or went into. Before and after are the item's total stock.
+ */
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { apiRequest } from '@/lib/queryClient';
+import { useLocations } from '@/components/LocationSelect';
+import { describeLot, type LotQuantity } from '@shared/lots';
+import { locationOf } from '@shared/locations';
+
+export type StockMovementType = 'sale' | 'refund' | 'loss' | 'receipt' | 'adjustment' | 'import' | 'count' | 'transfer';
+
+export interface StockMovement {
+  id: number;
+  productId: number;
+  productName: string;
+  type: StockMovementType;
+  quantity: number;
+  before: number;
+  after: number;
+  date: string;
+  user: string;
+  sourceId?: string;
+  note?: string;
+  lots?: LotQuantity[];
+  locationId?: number;
+}
+
+export const movementTypeLabels: Record<StockMovementType, string> = {
+  sale: 'Sale',
+  refund: 'Refund',
+  loss: 'Loss',
+  receipt: 'Receipt',
+  adjustment: 'Adjustment',
+  import: 'Import',
+  count: 'Count',
+  transfer: 'Transfer'
+};
+
+const movementTypeColors: Record<StockMovementType, string> = {
+  sale: 'bg-blue-100 text-blue-800',
+  refund: 'bg-purple-100 text-purple-800',
+  loss: 'bg-red-100 text-red-800',
+  receipt: 'bg-green-100 text-green-800',
+  adjustment: 'bg-yellow-100 text-yellow-800',
+  import: 'bg-indigo-100 text-indigo-800',
+  count: 'bg-gray-100 text-gray-800',
+  transfer: 'bg-teal-100 text-teal-800'
+};
+
+interface StockMovementHistoryProps {
+  item: { id: number; name: string; unit: string; stock: number } | null;
+  onClose: () => void;
+}
+
+const StockMovementHistory: React.FC<StockMovementHistoryProps> = ({ item, onClose }) => {
+  const { data: movements, isLoading, error } = useQuery({
+    queryKey: ['/api/inventory', item?.id, 'movements'],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/inventory/${item!.id}/movements`);
+      return await response.json() as StockMovement[];
+    },
+    enabled: !!item
+  });
+  const { data: locations } = useLocations();
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Stock History: {item?.name}</DialogTitle>
+          <DialogDescription>
+            Currently {item?.stock} {item?.unit} in stock
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="p-6 text-center">
+            <i className="fas fa-spinner fa-spin mr-2"></i> Loading history...
+          </div>
+        ) : error ? (
+          <div className="p-6 text-center text-red-500">
+            <i className="fas fa-exclamation-triangle mr-2"></i> Error loading stock history. Please try again.
+          </div>
+        ) : movements && movements.length > 0 ? (
+          <div className="max-h-[60vh] overflow-y-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Before</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">After</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {movements.map(movement => (
+                  <tr key={movement.id}>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(movement.date).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${movementTypeColors[movement.type]}`}>
+                        {movementTypeLabels[movement.type]}
+                      </span>
+                    </td>
+                    <td className={`px-4 py-2 whitespace-nowrap text-sm text-right font-medium ${
+                      movement.quantity < 0 ? 'text-red-600' : 'text-green-600'
+                    }`}>
+                      {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-500">{movement.before}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-900">{movement.after}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{movement.user}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">
+                      {movement.sourceId}
+                      {(locations || []).length > 1 && (
+                        <div className="text-xs text-gray-400">
+                          {locations!.find(location => location.id === locationOf(movement))?.name}
+                        </div>
+                      )}
+                      {movement.note && (
+                        <div className="text-xs text-gray-400">{movement.note}</div>
+                      )}
+                      {movement.lots?.map(lot => (
+                        <div key={lot.lotId} className="text-xs text-gray-400">
+                          {describeLot(lot)}: {lot.quantity > 0 ? '+' : ''}{lot.quantity}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="p-6 text-center text-gray-500">
+            No stock movements have been recorded for this item.
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StockMovementHistory;
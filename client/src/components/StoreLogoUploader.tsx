@@ -1,7 +1,7 @@
 import React, { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { queryClient } from '@/lib/queryClient';
+import { queryClient, getAuthHeaders } from '@/lib/queryClient';
 
 interface StoreLogoUploaderProps {
   currentLogo?: string;
@@ -53,6 +53,7 @@ const StoreLogoUploader: React.FC<StoreLogoUploaderProps> = ({
         
         const response = await fetch('/api/settings/logo-upload', {
           method: 'POST',
+          headers: getAuthHeaders(),
           body: formData
         });
         
@@ -106,7 +107,8 @@ const StoreLogoUploader: React.FC<StoreLogoUploaderProps> = ({
       const response = await fetch('/api/settings', {
         method: 'PUT',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          ...getAuthHeaders()
         },
         body: JSON.stringify({ storeLogo: '' })
       });
@@ -0,0 +1,223 @@
+/**
+ * Tender Dialog
+ *
+ * Takes payment for a sale at the POS. The cashier adds one or more tenders
+ * (cash, card, gift card or store credit) until the total is covered; cash
+ * may be over-tendered and the dialog shows the change to hand back.
+ */
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { TENDER_LABELS, settleTenders, type TenderType } from '@shared/tenders';
+import type { Tender } from '@shared/schema';
+
+interface TenderDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  total: number;
+  tenders: Tender[];
+  onChange: (tenders: Tender[]) => void;
+  onSubmit: () => void;
+  isSubmitting: boolean;
+}
+
+// Placeholder for the reference field of each tender type; cash has none
+const referenceHints: Partial<Record<TenderType, string>> = {
+  card: 'Last 4 digits (optional)',
+  gift_card: 'Gift card number',
+  store_credit: 'Customer or credit account'
+};
+
+/**
+ * Suggested cash amounts: the exact balance and the next round notes above it
+ */
+const quickCashAmounts = (balance: number): number[] => {
+  const amounts = [balance];
+  [5, 10, 20, 50, 100].forEach(note => {
+    const rounded = Math.ceil(balance / note) * note;
+    if (rounded > balance && !amounts.includes(rounded)) {
+      amounts.push(rounded);
+    }
+  });
+  return amounts.slice(0, 4);
+};
+
+const TenderDialog: React.FC<TenderDialogProps> = ({
+  isOpen,
+  onClose,
+  total,
+  tenders,
+  onChange,
+  onSubmit,
+  isSubmitting
+}) => {
+  const [type, setType] = useState<TenderType>('cash');
+  const [amount, setAmount] = useState('');
+  const [reference, setReference] = useState('');
+  const [error, setError] = useState('');
+
+  const settlement = settleTenders(tenders, total);
+
+  // Default the amount to whatever is still due
+  useEffect(() => {
+    if (isOpen) {
+      setAmount(settlement.balanceDue > 0 ? settlement.balanceDue.toFixed(2) : '');
+      setError('');
+    }
+  }, [isOpen, settlement.balanceDue]);
+
+  const addTender = (value: number) => {
+    if (!Number.isFinite(value) || value <= 0) {
+      setError('Enter an amount greater than zero');
+      return;
+    }
+    if (type === 'gift_card' && !reference.trim()) {
+      setError('Enter the gift card number');
+      return;
+    }
+
+    onChange([
+      ...tenders,
+      { type, amount: Math.round(value * 100) / 100, ...(reference.trim() ? { reference: reference.trim() } : {}) }
+    ]);
+    setReference('');
+    setError('');
+  };
+
+  const removeTender = (index: number) => {
+    onChange(tenders.filter((_, tenderIndex) => tenderIndex !== index));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Take Payment</DialogTitle>
+          <DialogDescription>
+            Total due ${total.toFixed(2)}. Split the payment by adding more than one tender.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-4 gap-2">
+            {(Object.keys(TENDER_LABELS) as TenderType[]).map(tenderType => (
+              <button
+                key={tenderType}
+                type="button"
+                onClick={() => {
+                  setType(tenderType);
+                  setReference('');
+                  setError('');
+                }}
+                className={`px-2 py-2 rounded-md text-sm font-medium border ${
+                  type === tenderType
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {TENDER_LABELS[tenderType]}
+              </button>
+            ))}
+          </div>
+
+          {settlement.balanceDue > 0 && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="tenderAmount">Amount</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="tenderAmount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                  />
+                  <Button type="button" onClick={() => addTender(Number(amount))}>Add</Button>
+                </div>
+              </div>
+
+              {type === 'cash' && (
+                <div className="flex flex-wrap gap-2">
+                  {quickCashAmounts(settlement.balanceDue).map(value => (
+                    <Button key={value} type="button" variant="outline" size="sm" onClick={() => addTender(value)}>
+                      ${value.toFixed(2)}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              {referenceHints[type] && (
+                <Input
+                  placeholder={referenceHints[type]}
+                  value={reference}
+                  maxLength={64}
+                  onChange={(e) => setReference(e.target.value)}
+                  autoComplete="off"
+                />
+              )}
+            </>
+          )}
+
+          {tenders.length > 0 && (
+            <div className="border border-gray-200 rounded-md divide-y divide-gray-100">
+              {tenders.map((tender, index) => (
+                <div key={index} className="flex justify-between items-center px-3 py-2 text-sm">
+                  <span>
+                    {TENDER_LABELS[tender.type]}
+                    {tender.reference && <span className="text-gray-400 ml-2">{tender.reference}</span>}
+                  </span>
+                  <span className="flex items-center gap-3">
+                    ${tender.amount.toFixed(2)}
+                    <button
+                      type="button"
+                      onClick={() => removeTender(index)}
+                      disabled={isSubmitting}
+                      className="text-red-500 hover:text-red-700"
+                      aria-label="Remove tender"
+                    >
+                      &times;
+                    </button>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Tendered</span>
+              <span className="font-medium">${settlement.tendered.toFixed(2)}</span>
+            </div>
+            {settlement.balanceDue > 0 ? (
+              <div className="flex justify-between text-red-600">
+                <span>Balance Due</span>
+                <span className="font-medium">${settlement.balanceDue.toFixed(2)}</span>
+              </div>
+            ) : (
+              <div className="flex justify-between text-lg font-bold text-green-700">
+                <span>Change Due</span>
+                <span>${settlement.change.toFixed(2)}</span>
+              </div>
+            )}
+          </div>
+
+          {(error || (settlement.balanceDue === 0 && settlement.error)) && (
+            <p className="text-sm text-red-600">{error || settlement.error}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>Cancel</Button>
+          <Button onClick={onSubmit} disabled={isSubmitting || !!settlement.error}>
+            {isSubmitting ? 'Processing...' : 'Complete Sale'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TenderDialog;
@@ -0,0 +1,380 @@
+/**
+ * Variant Group Manager
+ *
+ * Lists parent products with their variants, and creates groups and new
+ * variants. Each variant is an ordinary inventory item with its own SKU,
+ * price and stock; it is named after the group and its attribute values.
+ */
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import CategoryOptions, { useCategories } from "./CategoryOptions";
+import { formatVariantAttributes, variantName } from "@shared/variants";
+import type { VariantAttributes, VariantGroup } from "@shared/schema";
+
+interface Variant {
+  id: number;
+  name: string;
+  sku: string;
+  stock: number;
+  unit: string;
+  price: number;
+  barcode?: string;
+  variantAttributes?: VariantAttributes;
+}
+
+type VariantGroupWithVariants = VariantGroup & { variants: Variant[] };
+
+// What has been entered for a new variant
+interface VariantDraft {
+  attributes: VariantAttributes;
+  sku: string;
+  price: string;
+  stock: string;
+  unit: string;
+  threshold: string;
+  barcode: string;
+}
+
+const emptyDraft: VariantDraft = { attributes: {}, sku: "", price: "", stock: "0", unit: "each", threshold: "5", barcode: "" };
+
+interface VariantGroupManagerProps {
+  onClose: () => void;
+}
+
+const VariantGroupManager: React.FC<VariantGroupManagerProps> = ({ onClose }) => {
+  const [showNewGroup, setShowNewGroup] = useState(false);
+  const [groupName, setGroupName] = useState("");
+  const [groupCategory, setGroupCategory] = useState("");
+  const [groupAttributes, setGroupAttributes] = useState("Size");
+  const [addingTo, setAddingTo] = useState<number | null>(null);
+  const [draft, setDraft] = useState<VariantDraft>(emptyDraft);
+  const { toast } = useToast();
+  const { data: categories } = useCategories();
+
+  const { data: groups, isLoading, error } = useQuery({
+    queryKey: ['/api/variant-groups'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/variant-groups');
+      return await response.json() as VariantGroupWithVariants[];
+    }
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/variant-groups'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+  };
+
+  const showError = useErrorToast();
+
+  const createGroupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest({
+        url: '/api/variant-groups',
+        method: 'POST',
+        data: {
+          name: groupName.trim(),
+          category: groupCategory.trim(),
+          attributes: groupAttributes.split(',').map(name => name.trim()).filter(Boolean)
+        }
+      });
+      return await response.json() as VariantGroupWithVariants;
+    },
+    onSuccess: (group) => {
+      toast({ title: "Variant group created", description: `Add the variants of ${group.name} below.` });
+      setShowNewGroup(false);
+      setGroupName("");
+      setGroupCategory("");
+      setGroupAttributes("Size");
+      setAddingTo(group.id);
+      setDraft(emptyDraft);
+      refresh();
+    },
+    onError: (error) => showError(error, "Failed to create variant group")
+  });
+
+  const deleteGroupMutation = useMutation({
+    mutationFn: (group: VariantGroupWithVariants) => apiRequest({ url: `/api/variant-groups/${group.id}`, method: 'DELETE' }),
+    onSuccess: () => {
+      toast({ title: "Variant group deleted", description: "Its variants are still in the inventory as separate items." });
+      refresh();
+    },
+    onError: (error) => showError(error, "Failed to delete variant group")
+  });
+
+  const addVariantMutation = useMutation({
+    mutationFn: async (group: VariantGroupWithVariants) => {
+      const response = await apiRequest({
+        url: '/api/inventory',
+        method: 'POST',
+        data: {
+          name: variantName(group, draft.attributes),
+          sku: draft.sku.trim(),
+          category: group.category,
+          stock: parseFloat(draft.stock) || 0,
+          unit: draft.unit,
+          price: parseFloat(draft.price) || 0,
+          priceUnit: draft.unit,
+          threshold: parseFloat(draft.threshold) || 0,
+          barcode: draft.barcode.trim() || undefined,
+          variantGroupId: group.id,
+          variantAttributes: draft.attributes
+        }
+      });
+      return await response.json() as Variant;
+    },
+    onSuccess: (item) => {
+      toast({ title: "Variant added", description: `${item.name} has been added to the inventory.` });
+      setDraft({ ...emptyDraft, unit: draft.unit, threshold: draft.threshold });
+      refresh();
+    },
+    onError: (error) => showError(error, "Failed to add variant")
+  });
+
+  const handleAddVariant = (group: VariantGroupWithVariants) => {
+    const missing = group.attributes.find(name => !draft.attributes[name]?.trim());
+    if (missing) {
+      showError(null, `Enter a ${missing} for the variant`);
+      return;
+    }
+    if (!draft.sku.trim() || !draft.price) {
+      showError(null, "Enter a SKU and price for the variant");
+      return;
+    }
+    addVariantMutation.mutate(group);
+  };
+
+  const handleDeleteGroup = (group: VariantGroupWithVariants) => {
+    if (window.confirm(`Delete ${group.name}? Its ${group.variants.length} variant(s) stay in the inventory as separate items.`)) {
+      deleteGroupMutation.mutate(group);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-semibold">Product Variants</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Group sizes, flavors and other versions of a product. Each variant has its own SKU, price and stock.
+          </p>
+        </div>
+        <div className="flex space-x-3">
+          {!showNewGroup && (
+            <button
+              onClick={() => setShowNewGroup(true)}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm"
+            >
+              New Variant Group
+            </button>
+          )}
+          <button onClick={onClose} className="text-sm text-gray-600 hover:text-gray-900">
+            Back to inventory
+          </button>
+        </div>
+      </div>
+
+      {showNewGroup && (
+        <div className="border border-gray-200 rounded-md p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="groupName" className="block text-sm font-medium text-gray-700 mb-1">Product Name</label>
+              <input
+                id="groupName"
+                type="text"
+                maxLength={100}
+                placeholder="e.g. Crew T-Shirt"
+                className="w-full rounded-md border border-gray-300 px-3 py-2"
+                value={groupName}
+                onChange={(e) => setGroupName(e.target.value)}
+              />
+            </div>
+            <div>
+              <label htmlFor="groupCategory" className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                id="groupCategory"
+                className="w-full rounded-md border border-gray-300 px-3 py-2"
+                value={groupCategory}
+                onChange={(e) => setGroupCategory(e.target.value)}
+              >
+                <option value="">Select Category</option>
+                <CategoryOptions categories={categories} />
+              </select>
+            </div>
+            <div>
+              <label htmlFor="groupAttributes" className="block text-sm font-medium text-gray-700 mb-1">Attributes (comma separated)</label>
+              <input
+                id="groupAttributes"
+                type="text"
+                placeholder="e.g. Size, Color"
+                className="w-full rounded-md border border-gray-300 px-3 py-2"
+                value={groupAttributes}
+                onChange={(e) => setGroupAttributes(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => setShowNewGroup(false)}
+              className="mr-3 px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => createGroupMutation.mutate()}
+              disabled={createGroupMutation.isPending || !groupName.trim() || !groupCategory.trim()}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {createGroupMutation.isPending ? "Creating..." : "Create Group"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="p-6 text-center">
+          <i className="fas fa-spinner fa-spin mr-2"></i> Loading variant groups...
+        </div>
+      ) : error ? (
+        <div className="p-6 text-center text-red-500">
+          <i className="fas fa-exclamation-triangle mr-2"></i> Error loading variant groups. Please try again.
+        </div>
+      ) : (groups || []).length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">No variant groups yet.</p>
+      ) : (
+        groups!.map(group => (
+          <div key={group.id} className="border border-gray-200 rounded-md">
+            <div className="px-4 py-3 bg-gray-50 flex justify-between items-center">
+              <div>
+                <span className="font-medium text-gray-900">{group.name}</span>
+                <span className="ml-2 text-sm text-gray-500">{group.category} · {group.attributes.join(", ")}</span>
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => { setAddingTo(addingTo === group.id ? null : group.id); setDraft(emptyDraft); }}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  {addingTo === group.id ? "Close" : "Add Variant"}
+                </button>
+                <button
+                  onClick={() => handleDeleteGroup(group)}
+                  disabled={deleteGroupMutation.isPending}
+                  className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  Delete Group
+                </button>
+              </div>
+            </div>
+
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr>
+                  {group.attributes.map(name => (
+                    <th key={name} scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{name}</th>
+                  ))}
+                  <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+                  <th scope="col" className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                  <th scope="col" className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Stock</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {group.variants.length === 0 && addingTo !== group.id && (
+                  <tr>
+                    <td colSpan={group.attributes.length + 3} className="px-4 py-3 text-center text-sm text-gray-500">
+                      No variants yet.
+                    </td>
+                  </tr>
+                )}
+                {group.variants.map(variant => (
+                  <tr key={variant.id} title={formatVariantAttributes(group, variant.variantAttributes)}>
+                    {group.attributes.map(name => (
+                      <td key={name} className="px-4 py-2 text-sm text-gray-900">{variant.variantAttributes?.[name] || '-'}</td>
+                    ))}
+                    <td className="px-4 py-2 text-sm text-gray-500">{variant.sku}</td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-500">${variant.price.toFixed(2)}</td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-500">{variant.stock} {variant.unit}</td>
+                  </tr>
+                ))}
+                {addingTo === group.id && (
+                  <tr className="bg-blue-50">
+                    {group.attributes.map(name => (
+                      <td key={name} className="px-4 py-2">
+                        <input
+                          type="text"
+                          maxLength={50}
+                          placeholder={name}
+                          aria-label={name}
+                          className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+                          value={draft.attributes[name] || ''}
+                          onChange={(e) => setDraft({ ...draft, attributes: { ...draft.attributes, [name]: e.target.value } })}
+                        />
+                      </td>
+                    ))}
+                    <td className="px-4 py-2">
+                      <input
+                        type="text"
+                        placeholder="SKU"
+                        aria-label="SKU"
+                        className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+                        value={draft.sku}
+                        onChange={(e) => setDraft({ ...draft, sku: e.target.value })}
+                      />
+                      <input
+                        type="text"
+                        placeholder="Barcode (optional)"
+                        aria-label="Barcode"
+                        className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+                        value={draft.barcode}
+                        onChange={(e) => setDraft({ ...draft, barcode: e.target.value })}
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="Price"
+                        aria-label="Price"
+                        className="w-24 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                        value={draft.price}
+                        onChange={(e) => setDraft({ ...draft, price: e.target.value })}
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex items-center justify-end space-x-2">
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          aria-label="Opening stock"
+                          className="w-20 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                          value={draft.stock}
+                          onChange={(e) => setDraft({ ...draft, stock: e.target.value })}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => handleAddVariant(group)}
+                          disabled={addVariantMutation.isPending}
+                          className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-sm disabled:opacity-50"
+                        >
+                          Add
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default VariantGroupManager;
@@ -0,0 +1,138 @@
+/**
+ * Weight Entry Dialog
+ *
+ * Asks the cashier for the weight of an item sold by weight. The gross
+ * weight read off the scale has the container's tare taken off; the tare
+ * starts at the item's usual container weight and can be changed per sale.
+ */
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { formatQuantity, netWeight } from '@shared/weighing';
+
+export interface WeighedItem {
+  name: string;
+  unit: string;
+  price: number;
+  tare?: number;
+}
+
+interface WeightEntryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  item: WeighedItem | null;
+  weight?: number;           // Net weight already in the cart, when re-weighing
+  onConfirm: (weight: number) => void;
+}
+
+const WeightEntryDialog: React.FC<WeightEntryDialogProps> = ({
+  isOpen,
+  onClose,
+  item,
+  weight,
+  onConfirm
+}) => {
+  const [gross, setGross] = useState('');
+  const [tare, setTare] = useState('');
+  const [error, setError] = useState('');
+
+  // A re-weigh starts from the net weight in the cart with no tare
+  useEffect(() => {
+    if (isOpen) {
+      setGross(weight !== undefined ? formatQuantity(weight) : '');
+      setTare(weight === undefined && item?.tare ? formatQuantity(item.tare) : '');
+      setError('');
+    }
+  }, [isOpen]);
+
+  if (!item) {
+    return null;
+  }
+
+  const grossValue = Number(gross);
+  const tareValue = tare.trim() === '' ? 0 : Number(tare);
+  const net = Number.isFinite(grossValue) && Number.isFinite(tareValue) ? netWeight(grossValue, tareValue) : 0;
+
+  const handleConfirm = () => {
+    if (!Number.isFinite(grossValue) || grossValue <= 0) {
+      setError('Enter the weight shown on the scale');
+      return;
+    }
+    if (!Number.isFinite(tareValue) || tareValue < 0) {
+      setError('Enter a valid tare');
+      return;
+    }
+    if (net <= 0) {
+      setError('The tare is more than the gross weight');
+      return;
+    }
+
+    onConfirm(net);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Weigh {item.name}</DialogTitle>
+          <DialogDescription>
+            ${item.price.toFixed(2)} per {item.unit}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleConfirm();
+          }}
+        >
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="grossWeight">Gross Weight ({item.unit})</Label>
+              <Input
+                id="grossWeight"
+                type="number"
+                min="0"
+                step="0.001"
+                placeholder="0.000"
+                value={gross}
+                onChange={(e) => setGross(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tareWeight">Tare ({item.unit})</Label>
+              <Input
+                id="tareWeight"
+                type="number"
+                min="0"
+                step="0.001"
+                placeholder="0.000"
+                value={tare}
+                onChange={(e) => setTare(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="rounded-md bg-gray-50 p-3 text-sm flex justify-between">
+            <span>Net {formatQuantity(net)} {item.unit}</span>
+            <span className="font-medium">${(net * item.price).toFixed(2)}</span>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+            <Button type="submit">{weight !== undefined ? 'Update Weight' : 'Add to Cart'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WeightEntryDialog;
@@ -1,17 +1,26 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { apiRequest, getAuthHeaders } from '@/lib/queryClient';
+import { readNotificationStream } from '@/lib/notificationStream';
 
 /**
  * Notification object type definition
+ * Notifications are raised and stored on the server, which keeps each
+ * user's read state.
  */
 export interface Notification {
-  id: string;
+  id: number;
+  event: string;
   type: 'info' | 'warning' | 'error' | 'success';
   title: string;
   message: string;
+  link?: string;
   read: boolean;
-  createdAt: Date;
+  createdAt: string;
 }
 
+// Wait before reconnecting to the notification stream, or checking for a login
+const RECONNECT_DELAY = 5000;
+
 interface AppContextType {
   currentPage: string;
   setCurrentPage: (page: string) => void;
@@ -23,10 +32,9 @@ interface AppContextType {
   toggleScanner: () => void;
   // Notification related state and functions
   notifications: Notification[];
-  addNotification: (notification: Omit<Notification, 'id' | 'read' | 'createdAt'>) => void;
-  markNotificationAsRead: (id: string) => void;
+  markNotificationAsRead: (id: number) => void;
   markAllNotificationsAsRead: () => void;
-  clearNotification: (id: string) => void;
+  clearNotification: (id: number) => void;
   clearAllNotifications: () => void;
   showNotifications: boolean;
   toggleNotifications: () => void;
@@ -44,7 +52,6 @@ const AppContext = createContext<AppContextType>({
   scannerActive: false,
   toggleScanner: () => {},
   notifications: [],
-  addNotification: () => {},
   markNotificationAsRead: () => {},
   markAllNotificationsAsRead: () => {},
   clearNotification: () => {},
@@ -75,47 +82,50 @@ export function AppProvider({ children }: { children: ReactNode }) {
     setUnreadCount(count);
   }, [notifications]);
 
-  // Generate low stock notifications on app load
+  // Load the user's notifications once logged in, then follow the server's stream
+  // The list is reloaded on each reconnect so nothing raised in between is missed
   useEffect(() => {
-    const fetchLowStockItems = async () => {
-      try {
-        const response = await fetch('/api/alerts/low-stock');
-        if (response.ok) {
-          const lowStockItems = await response.json();
-          
-          if (Array.isArray(lowStockItems) && lowStockItems.length > 0) {
-            // Add a notification for low stock items
-            addNotification({
-              type: 'warning',
-              title: 'Low Stock Alert',
-              message: `${lowStockItems.length} items are low in stock and need attention.`
-            });
+    const controller = new AbortController();
+    const wait = () => new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY));
+    
+    const follow = async () => {
+      while (!controller.signal.aborted) {
+        if (!getAuthHeaders().Authorization) {
+          setNotifications([]);
+          await wait();
+          continue;
+        }
+        
+        try {
+          const response = await fetch('/api/notifications', { headers: getAuthHeaders(), signal: controller.signal });
+          if (response.ok) {
+            setNotifications(await response.json());
           }
+          await readNotificationStream(({ event, data }) => {
+            if (event === 'notification') {
+              setNotifications(prev => [data as Notification, ...prev]);
+            } else if (event === 'read' || event === 'dismissed') {
+              const { ids } = data as { ids: number[] };
+              setNotifications(prev => event === 'read'
+                ? prev.map(notification => ids.includes(notification.id) ? { ...notification, read: true } : notification)
+                : prev.filter(notification => !ids.includes(notification.id)));
+            }
+          }, controller.signal);
+        } catch (error) {
+          if (!controller.signal.aborted) {
+            console.error('Notification stream error:', error);
+          }
+        }
+        
+        // After a logout, clear the list straight away rather than after the delay
+        if (!controller.signal.aborted && getAuthHeaders().Authorization) {
+          await wait();
         }
-      } catch (error) {
-        console.error('Error fetching low stock items:', error);
       }
     };
-
-    fetchLowStockItems();
-    
-    // Add some sample notifications for demo purposes
-    setTimeout(() => {
-      addNotification({
-        type: 'info',
-        title: 'New Feature: Losses Tracking',
-        message: 'Track damaged or expired inventory items in the new Losses section!'
-      });
-    }, 1000);
-    
-    setTimeout(() => {
-      addNotification({
-        type: 'success',
-        title: 'Daily Sales Goal Reached',
-        message: 'Congratulations! The team has reached the daily sales target of $1,000.'
-      });
-    }, 2000);
     
+    follow();
+    return () => controller.abort();
   }, []);
 
   const toggleSidebar = () => {
@@ -131,23 +141,19 @@ export function AppProvider({ children }: { children: ReactNode }) {
   };
 
   /**
-   * Add a new notification to the notifications list
+   * Record read or cleared notifications on the server
+   * Other sessions of the same user are told by the server; a failed update
+   * is put right when the list is next reloaded.
    */
-  const addNotification = (notification: Omit<Notification, 'id' | 'read' | 'createdAt'>) => {
-    const newNotification: Notification = {
-      ...notification,
-      id: crypto.randomUUID(),
-      read: false,
-      createdAt: new Date()
-    };
-    
-    setNotifications(prev => [newNotification, ...prev]);
+  const markOnServer = (action: 'read' | 'dismiss', ids?: number[]) => {
+    apiRequest({ url: `/api/notifications/${action}`, method: 'POST', data: ids ? { ids } : {} })
+      .catch(error => console.error('Error updating notifications:', error));
   };
 
   /**
    * Mark a notification as read
    */
-  const markNotificationAsRead = (id: string) => {
+  const markNotificationAsRead = (id: number) => {
     setNotifications(prev => 
       prev.map(notification => 
         notification.id === id 
@@ -155,6 +161,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
           : notification
       )
     );
+    markOnServer('read', [id]);
   };
 
   /**
@@ -164,15 +171,17 @@ export function AppProvider({ children }: { children: ReactNode }) {
     setNotifications(prev => 
       prev.map(notification => ({ ...notification, read: true }))
     );
+    markOnServer('read');
   };
 
   /**
    * Remove a notification from the list
    */
-  const clearNotification = (id: string) => {
+  const clearNotification = (id: number) => {
     setNotifications(prev => 
       prev.filter(notification => notification.id !== id)
     );
+    markOnServer('dismiss', [id]);
   };
 
   /**
@@ -180,6 +189,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
    */
   const clearAllNotifications = () => {
     setNotifications([]);
+    markOnServer('dismiss');
   };
 
   const value = {
@@ -192,7 +202,6 @@ export function AppProvider({ children }: { children: ReactNode }) {
     scannerActive,
     toggleScanner,
     notifications,
-    addNotification,
     markNotificationAsRead,
     markAllNotificationsAsRead,
     clearNotification,
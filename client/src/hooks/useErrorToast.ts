@@ -0,0 +1,13 @@
+import { useCallback } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/queryClient";
+
+/**
+ * Show a failed request, or a form problem, as an error toast
+ */
+export function useErrorToast() {
+  const { toast } = useToast();
+  return useCallback((error: unknown, fallback: string) => {
+    toast({ title: "Error", description: errorMessage(error, fallback), variant: "destructive" });
+  }, [toast]);
+}
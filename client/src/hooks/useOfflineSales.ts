@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getQueuedSales, sessionUsername, syncQueuedSales, type QueuedSale } from "@/lib/offlineSales";
+
+// How often queued sales are sent while any are waiting
+const SYNC_INTERVAL = 30000;
+
+/**
+ * Connection state and queued sales for the POS
+ * The signed-in cashier's queued sales are sent when the browser comes back
+ * online, every so often while any are waiting, and on request.
+ */
+export function useOfflineSales() {
+  const { toast } = useToast();
+  const [queuedSales, setQueuedSales] = useState<QueuedSale[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [serverUnreachable, setServerUnreachable] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const refreshQueue = useCallback(async () => {
+    setQueuedSales(await getQueuedSales().catch(() => []));
+  }, []);
+
+  const sync = useCallback(async (retryRejected = false) => {
+    setIsSyncing(true);
+    try {
+      const result = await syncQueuedSales(retryRejected);
+      setServerUnreachable(result.unreachable);
+
+      if (result.synced.length > 0) {
+        toast({
+          description: `Sent ${result.synced.length} offline sale(s): ${result.synced.map(sale => `${sale.provisionalId} → ${sale.id}`).join(", ")}`,
+          duration: 4000,
+        });
+        queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/inventory/popular'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/sales'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
+      }
+      if (result.rejected.length > 0) {
+        toast({
+          description: `${result.rejected.length} offline sale(s) were refused by the server`,
+          variant: "destructive",
+          duration: 4000,
+        });
+      }
+    } catch (error) {
+      // IndexedDB unavailable; nothing can have been queued
+    } finally {
+      setIsSyncing(false);
+      await refreshQueue();
+    }
+  }, [toast, refreshQueue]);
+
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+
+    // Send anything left from an earlier session
+    sync();
+
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+    };
+  }, [sync]);
+
+  const waiting = queuedSales.filter(sale => sale.username === sessionUsername() && !sale.error).length;
+  useEffect(() => {
+    if (waiting === 0) {
+      return;
+    }
+    const interval = setInterval(() => sync(), SYNC_INTERVAL);
+    return () => clearInterval(interval);
+  }, [waiting, sync]);
+
+  return {
+    queuedSales,
+    isOffline: !isOnline || serverUnreachable,
+    isSyncing,
+    setServerUnreachable,
+    refreshQueue,
+    sync
+  };
+}
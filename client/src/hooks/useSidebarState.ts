@@ -26,6 +26,14 @@ export function useSidebarState() {
   const [isLossesActive] = useRoute("/losses");
   const [isProfitTrackerActive] = useRoute("/profit-tracker");
   const [isSalesActive] = useRoute("/sales");
+  const [isPromotionsActive] = useRoute("/promotions");
+  const [isShiftsActive] = useRoute("/shifts");
+  const [isSuppliersActive] = useRoute("/suppliers");
+  const [isPurchaseOrdersActive] = useRoute("/purchase-orders");
+  const [isReceivingActive] = useRoute("/receiving");
+  const [isStockCountsActive] = useRoute("/stock-counts");
+  const [isTransfersActive] = useRoute("/transfers");
+  const [isAlertRulesActive] = useRoute("/alert-rules");
   const [isSettingsActive] = useRoute("/settings");
   const [isLogsActive] = useRoute("/logs");
   
@@ -121,6 +129,62 @@ export function useSidebarState() {
       isActive: isSalesActive,
       roles: ["Administrator", "Manager", "Cashier"] // All roles except stocker can access sales
     },
+    { 
+      id: 'promotions', 
+      label: 'Promotions', 
+      icon: 'fa-tags',
+      path: '/promotions',
+      isActive: isPromotionsActive,
+      roles: ["Administrator", "Manager"] // Only admin and manager can set up promotions
+    },
+    { 
+      id: 'shifts', 
+      label: 'Shifts', 
+      icon: 'fa-cash-register',
+      path: '/shifts',
+      isActive: isShiftsActive,
+      roles: ["Administrator", "Manager"] // Cashiers only see their own shift on the POS
+    },
+    { 
+      id: 'suppliers', 
+      label: 'Suppliers', 
+      icon: 'fa-truck',
+      path: '/suppliers',
+      isActive: isSuppliersActive,
+      roles: ["Administrator", "Manager"] // Supplier costs are manager-only
+    },
+    { 
+      id: 'purchase-orders', 
+      label: 'Purchase Orders', 
+      icon: 'fa-file-invoice',
+      path: '/purchase-orders',
+      isActive: isPurchaseOrdersActive,
+      roles: ["Administrator", "Manager"] // Only admin and manager can order stock
+    },
+    { 
+      id: 'receiving', 
+      label: 'Receiving', 
+      icon: 'fa-dolly',
+      path: '/receiving',
+      isActive: isReceivingActive,
+      roles: ["Administrator", "Manager", "Stocker"] // Stockers take in deliveries
+    },
+    { 
+      id: 'stock-counts', 
+      label: 'Stock Counts', 
+      icon: 'fa-clipboard-check',
+      path: '/stock-counts',
+      isActive: isStockCountsActive,
+      roles: ["Administrator", "Manager", "Stocker"] // Stockers count, managers approve
+    },
+    { 
+      id: 'transfers', 
+      label: 'Transfers', 
+      icon: 'fa-right-left',
+      path: '/transfers',
+      isActive: isTransfersActive,
+      roles: ["Administrator", "Manager", "Stocker"] // Stockers move stock between locations
+    },
     { 
       id: 'users', 
       label: 'User Management', 
@@ -153,6 +217,14 @@ export function useSidebarState() {
       isActive: isProfitTrackerActive,
       roles: ["Administrator", "Manager"] // Only admin and manager can track profits
     },
+    { 
+      id: 'alert-rules', 
+      label: 'Alert Rules', 
+      icon: 'fa-bell',
+      path: '/alert-rules',
+      isActive: isAlertRulesActive,
+      roles: ["Administrator", "Manager"] // Managers choose what they're alerted about
+    },
     { 
       id: 'settings', 
       label: 'Receipt Design', 
@@ -0,0 +1,88 @@
+import { getAuthHeaders } from "./queryClient";
+
+// One event from the server's notification stream
+export interface StreamEvent {
+  event: string;
+  data: unknown;
+}
+
+// The stream being read, so logging out can close it
+let openStream: AbortController | null = null;
+
+/**
+ * Stop reading the notification stream, e.g. on logout
+ * The reader returns as if the server had ended the stream.
+ */
+export function closeNotificationStream(): void {
+  openStream?.abort();
+}
+
+/**
+ * Read the notification stream until it ends, the connection drops or the signal aborts
+ * EventSource can't send the session token, so the stream is read with fetch
+ * and its Server-Sent Events are parsed here.
+ *
+ * @param onEvent - Called with each event as it arrives
+ * @param signal - Aborts the request
+ * @returns Once the stream has ended
+ */
+export async function readNotificationStream(
+  onEvent: (event: StreamEvent) => void,
+  signal: AbortSignal
+): Promise<void> {
+  const stream = new AbortController();
+  const abort = () => stream.abort();
+  signal.addEventListener("abort", abort);
+  openStream = stream;
+
+  try {
+    await readEvents(onEvent, stream.signal);
+  } catch (error) {
+    // Closing it on logout ends the stream quietly; anything else is the caller's to handle
+    if (!stream.signal.aborted || signal.aborted) {
+      throw error;
+    }
+  } finally {
+    signal.removeEventListener("abort", abort);
+    if (openStream === stream) {
+      openStream = null;
+    }
+  }
+}
+
+async function readEvents(onEvent: (event: StreamEvent) => void, signal: AbortSignal): Promise<void> {
+  const response = await fetch("/api/notifications/stream", {
+    headers: { Accept: "text/event-stream", ...getAuthHeaders() },
+    credentials: "include",
+    signal
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`${response.status}: ${response.statusText}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return;
+    }
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line; lines starting with ":" are keep-alive comments
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const lines = buffer.slice(0, boundary).split("\n");
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      const event = lines.find(line => line.startsWith("event:"))?.slice(6).trim() || "message";
+      const data = lines.filter(line => line.startsWith("data:")).map(line => line.slice(5).trim()).join("\n");
+      if (data) {
+        onEvent({ event, data: JSON.parse(data) });
+      }
+    }
+  }
+}
@@ -0,0 +1,267 @@
+import { apiRequest, getAuthHeaders } from "./queryClient";
+import type { OfflineSale } from "@shared/schema";
+
+/**
+ * Offline Sales
+ *
+ * Keeps the POS ringing up sales when the server can't be reached. The
+ * catalog, prices and shift are cached in IndexedDB each time they load, and
+ * sales rung up while offline are queued there with a provisional receipt
+ * number. Every sale carries an idempotency key the till chooses, so sending
+ * a queued sale again after a dropped connection never records it twice.
+ * A service worker keeps the app itself loadable without the server.
+ */
+
+// A sale rung up while the server couldn't be reached, waiting to be sent
+export interface QueuedSale {
+  idempotencyKey: string;
+  provisionalId: string;       // Printed on the receipt until the server assigns a transaction number
+  rungUpAt: string;
+  username: string;            // Cashier who rang it up; only their session sends it, so it's recorded under them
+  amount: number;
+  sale: Record<string, unknown>; // Body for POST /api/sales
+  charged: Omit<OfflineSale, "provisionalId" | "rungUpAt">; // Lines, totals and shift as the till rang them up
+  error?: string;              // Why the server refused it; the sale is paid, so it stays queued until it goes through
+}
+
+// Outcome of sending the queue
+export interface SyncResult {
+  synced: { provisionalId: string; id: string }[];
+  rejected: QueuedSale[];
+  unreachable: boolean;        // Stopped early because the server still can't be reached
+}
+
+const DATABASE_NAME = "inventory-pro-pos";
+const CATALOG_STORE = "catalog";
+const SALES_STORE = "sales";
+
+// Statuses a proxy answers with when the server behind it is down
+const UNREACHABLE_STATUSES = [502, 503, 504];
+
+let database: Promise<IDBDatabase> | null = null;
+let syncing: Promise<SyncResult> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(CATALOG_STORE, { keyPath: "key" });
+        request.result.createObjectStore(SALES_STORE, { keyPath: "idempotencyKey" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    });
+  }
+  return database;
+}
+
+/**
+ * Run one request against a store and wait for its result
+ */
+async function inStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function isUnreachableStatus(status: number): boolean {
+  return UNREACHABLE_STATUSES.includes(status);
+}
+
+/**
+ * Whether a failed request means the server couldn't be reached, rather than that it refused
+ * fetch rejects with a TypeError when there is no connection at all.
+ */
+export function isUnreachable(error: unknown): boolean {
+  return error instanceof TypeError ||
+    (error instanceof Error && UNREACHABLE_STATUSES.some(status => error.message.startsWith(`${status}:`)));
+}
+
+/**
+ * Fetch JSON from the server, falling back to the last copy fetched when it can't be reached
+ * Each successful response is saved for next time. Copies are kept per
+ * user, since some answers, like the current shift, depend on who asks.
+ */
+export async function fetchWithOfflineCopy<T>(url: string): Promise<T> {
+  const key = `${sessionUsername() ?? ""} ${url}`;
+  try {
+    const response = await apiRequest(url);
+    const data = await response.json() as T;
+    inStore(CATALOG_STORE, "readwrite", store => store.put({ key, data, savedAt: new Date().toISOString() }))
+      .catch(() => {
+        // Private browsing can refuse IndexedDB; the POS still works online
+      });
+    return data;
+  } catch (error) {
+    if (!isUnreachable(error)) {
+      throw error;
+    }
+    const saved = await inStore<{ data: T } | undefined>(CATALOG_STORE, "readonly", store => store.get(key)).catch(() => undefined);
+    if (!saved) {
+      throw error;
+    }
+    return saved.data;
+  }
+}
+
+/**
+ * A fresh idempotency key for a sale
+ * Built from getRandomValues because randomUUID is missing on tills served over plain http.
+ */
+export function newIdempotencyKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * The next provisional receipt number on this till, e.g. OFF-K3P9-12
+ * The till's code and counter are kept in localStorage so numbers don't repeat across reloads.
+ */
+export function nextProvisionalId(): string {
+  let till = localStorage.getItem("pos.tillCode");
+  if (!till) {
+    till = newIdempotencyKey().slice(0, 4).toUpperCase();
+    localStorage.setItem("pos.tillCode", till);
+  }
+  const number = (parseInt(localStorage.getItem("pos.provisionalCounter") || "0", 10) || 0) + 1;
+  localStorage.setItem("pos.provisionalCounter", String(number));
+  return `OFF-${till}-${number}`;
+}
+
+export async function queueSale(sale: QueuedSale): Promise<void> {
+  await inStore(SALES_STORE, "readwrite", store => store.put(sale));
+}
+
+/**
+ * Queued sales, oldest first
+ */
+export async function getQueuedSales(): Promise<QueuedSale[]> {
+  const sales = await inStore<QueuedSale[]>(SALES_STORE, "readonly", store => store.getAll());
+  return sales.sort((a, b) => a.rungUpAt.localeCompare(b.rungUpAt));
+}
+
+async function removeQueuedSale(idempotencyKey: string): Promise<void> {
+  await inStore(SALES_STORE, "readwrite", store => store.delete(idempotencyKey));
+}
+
+/**
+ * The signed-in user's username, read from the same session the auth header comes from
+ */
+export function sessionUsername(): string | undefined {
+  try {
+    const user = JSON.parse(sessionStorage.getItem("user") || "null");
+    return typeof user?.username === "string" ? user.username : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Send the signed-in cashier's queued sales to the server, oldest first
+ * Sales the server records, or had already recorded, leave the queue. The
+ * server records paid sales whatever has changed since, so it only refuses
+ * one that is malformed; that stays with the reason and isn't sent again
+ * until retried. Only one sync runs at a time; a second call waits for the first.
+ *
+ * @param retryRejected - Also send sales the server refused before
+ */
+export function syncQueuedSales(retryRejected = false): Promise<SyncResult> {
+  const username = sessionUsername();
+  if (!username) {
+    return Promise.resolve({ synced: [], rejected: [], unreachable: false });
+  }
+  if (!syncing) {
+    syncing = sendQueue(username, retryRejected).finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+}
+
+async function sendQueue(username: string, retryRejected: boolean): Promise<SyncResult> {
+  const result: SyncResult = { synced: [], rejected: [], unreachable: false };
+  const queued = (await getQueuedSales()).filter(sale => sale.username === username && (retryRejected || !sale.error));
+
+  for (const queuedSale of queued) {
+    let response: Response;
+    try {
+      response = await fetch("/api/sales", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": queuedSale.idempotencyKey,
+          ...getAuthHeaders()
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          ...queuedSale.sale,
+          offline: { provisionalId: queuedSale.provisionalId, rungUpAt: queuedSale.rungUpAt, ...queuedSale.charged }
+        })
+      });
+    } catch (error) {
+      result.unreachable = true;
+      break;
+    }
+
+    if (response.ok) {
+      const recorded = await response.json();
+      await removeQueuedSale(queuedSale.idempotencyKey);
+      result.synced.push({ provisionalId: queuedSale.provisionalId, id: recorded.id });
+      continue;
+    }
+
+    // Try again later: the server is down, busy or wants the cashier to sign in again
+    if (response.status === 401 || response.status >= 500) {
+      result.unreachable = isUnreachableStatus(response.status);
+      break;
+    }
+
+    const body = await response.json().catch(() => ({}));
+    const rejected = { ...queuedSale, error: body.message || body.error || `Refused by the server (${response.status})` };
+    if (Array.isArray(body.lineErrors) && body.lineErrors.length > 0) {
+      rejected.error += `: ${body.lineErrors.map((line: { message: string }) => line.message).join("; ")}`;
+    }
+    await queueSale(rejected);
+    result.rejected.push(rejected);
+  }
+
+  return result;
+}
+
+/**
+ * Install the service worker that keeps the app loadable while the server is unreachable
+ * Browsers only allow service workers over https or on localhost.
+ */
+export async function registerAppCache(): Promise<void> {
+  if (!("serviceWorker" in navigator)) {
+    return;
+  }
+  try {
+    await navigator.serviceWorker.register("/sw.js");
+    const registration = await navigator.serviceWorker.ready;
+
+    // Save what this page loaded before the worker was there to see it
+    const urls = [
+      "/",
+      ...performance.getEntriesByType("resource")
+        .map(entry => entry.name)
+        .filter(url => new URL(url).origin === location.origin && !new URL(url).pathname.startsWith("/api/"))
+    ];
+    registration.active?.postMessage({ type: "cache-urls", urls });
+  } catch (error) {
+    // Without it the app still works; it just can't be reloaded offline
+  }
+}
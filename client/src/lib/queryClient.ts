@@ -1,12 +1,82 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+/**
+ * Build the Authorization header from the session token stored at login
+ * Returns an empty object when no user is logged in
+ */
+export function getAuthHeaders(): Record<string, string> {
+  try {
+    const userData = sessionStorage.getItem("user");
+    if (userData) {
+      const user = JSON.parse(userData);
+      if (user && typeof user.token === "string") {
+        return { Authorization: `Bearer ${user.token}` };
+      }
+    }
+  } catch (error) {
+    // Ignore corrupted session data; the server will reject the request
+  }
+  return {};
+}
+
+/**
+ * Clear the local session and return to the login page when the server
+ * reports that the session token is missing, invalid or expired
+ */
+function handleUnauthorized(res: Response) {
+  if (res.status === 401 && sessionStorage.getItem("user")) {
+    sessionStorage.removeItem("user");
+    window.location.href = "/login";
+  }
+}
+
+/**
+ * Thrown for a response that isn't OK
+ * Keeps the status and the JSON body, e.g. the `lineErrors` some routes return.
+ */
+export class ApiError extends Error {
+  constructor(public status: number, public body: any, text: string) {
+    super(`${status}: ${text}`);
+    this.name = "ApiError";
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let body: any = {};
+    try {
+      body = JSON.parse(text);
+    } catch (error) {
+      // Not JSON, e.g. a proxy's error page
+    }
+    throw new ApiError(res.status, body, text);
   }
 }
 
+/**
+ * The message to show for a failed request or a problem found before sending one
+ * Uses the server's own message where it gave one.
+ */
+export function errorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiError) {
+    return error.body?.message || error.body?.lineErrors?.[0]?.message || error.body?.error || fallback;
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+/**
+ * The server's problems with each line of a failed request, keyed by product ID
+ */
+export function lineErrorsByProduct(error: unknown): Record<number, string> | undefined {
+  if (!(error instanceof ApiError) || !Array.isArray(error.body?.lineErrors)) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    error.body.lineErrors.map((lineError: { productId: number; message: string }) => [lineError.productId, lineError.message])
+  );
+}
+
 export async function apiRequest(
   urlOrPathOrOptions: string | { url: string; method?: string; data?: unknown }
 ): Promise<Response> {
@@ -22,14 +92,11 @@ export async function apiRequest(
     data = urlOrPathOrOptions.data;
   }
 
-  // Get current user info from session storage to include in headers
-  let headers: Record<string, string> = data ? { "Content-Type": "application/json" } : {};
-  
-  // Add user-info header if user is logged in
-  const userData = sessionStorage.getItem("user");
-  if (userData) {
-    headers["user-info"] = userData;
-  }
+  // Include the session token so the server can verify the current user
+  const headers: Record<string, string> = {
+    ...(data ? { "Content-Type": "application/json" } : {}),
+    ...getAuthHeaders(),
+  };
   
   const res = await fetch(url, {
     method,
@@ -38,6 +105,7 @@ export async function apiRequest(
     credentials: "include",
   });
 
+  handleUnauthorized(res);
   await throwIfResNotOk(res);
   return res;
 }
@@ -48,22 +116,17 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    // Add user-info header if user is logged in
-    let headers: Record<string, string> = {};
-    const userData = sessionStorage.getItem("user");
-    if (userData) {
-      headers["user-info"] = userData;
-    }
-    
+    // Include the session token so the server can verify the current user
     const res = await fetch(queryKey[0] as string, {
       credentials: "include",
-      headers: headers
+      headers: getAuthHeaders()
     });
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
     }
 
+    handleUnauthorized(res);
     await throwIfResNotOk(res);
     return await res.json();
   };
@@ -3,10 +3,16 @@ import App from "./App";
 import "./index.css";
 import { AppProvider } from "./context/AppContext";
 import { StrictMode } from "react";
+import { registerAppCache } from "./lib/offlineSales";
 
 const rootElement = document.getElementById("root");
 if (!rootElement) throw new Error("Failed to find the root element");
 
+// Keep the app loadable offline so the POS survives a reload; in development it would cache Vite's modules
+if (import.meta.env.PROD) {
+  registerAppCache();
+}
+
 createRoot(rootElement).render(
   <StrictMode>
     <AppProvider>
@@ -0,0 +1,533 @@
+import { useState } from "react";
+import Header from "@/components/Header";
+import { useAppContext } from "@/context/AppContext";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import DeleteConfirmationModal from "@/components/DeleteConfirmationModal";
+import { ALERT_RULE_TYPES, describeAlertRule } from "@shared/alertRules";
+import type { AlertRule, AlertRuleType, InsertAlertRule } from "@shared/schema";
+
+// Define types for inventory data
+interface InventoryItem {
+  id: number;
+  category: string;
+}
+
+// An alert raised by a rule
+interface RuleAlert {
+  id: number;
+  ruleId: number;
+  ruleName: string;
+  ruleType: AlertRuleType;
+  message: string;
+  value: number;
+  raisedAt: string;
+  resolvedAt?: string;
+}
+
+// Rule form fields, kept as strings while editing
+interface RuleForm {
+  name: string;
+  type: AlertRuleType;
+  threshold: string;
+  category: string;
+  notifyRoles: InsertAlertRule['notifyRoles'];
+  active: boolean;
+}
+
+const ROLES: InsertAlertRule['notifyRoles'] = ["Administrator", "Manager", "Stocker", "Cashier"];
+
+const emptyForm: RuleForm = {
+  name: "",
+  type: "refund_over",
+  threshold: "",
+  category: "",
+  notifyRoles: ["Administrator", "Manager"],
+  active: true
+};
+
+// Rule types that watch items and can be limited to a category
+const ITEM_RULES: AlertRuleType[] = ["margin_below", "no_sales"];
+
+const inputClass = "w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500";
+const labelClass = "block text-sm font-medium text-gray-700 mb-1";
+
+const formatDate = (dateString: string): string =>
+  new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric'
+  }).format(new Date(dateString));
+
+const AlertRules: React.FC = () => {
+  const { currentPage } = useAppContext();
+  const [showForm, setShowForm] = useState(false);
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const [deletingRule, setDeletingRule] = useState<AlertRule | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const { toast } = useToast();
+
+  // Fetch alert rules
+  const { data: rules, isLoading: rulesLoading, error } = useQuery({
+    queryKey: ['/api/alert-rules'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/alert-rules');
+      return await response.json() as AlertRule[];
+    }
+  });
+
+  // Fetch the alerts the rules have raised
+  const { data: alerts, isLoading: alertsLoading } = useQuery({
+    queryKey: ['/api/alert-rules/alerts'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/alert-rules/alerts');
+      return await response.json() as RuleAlert[];
+    }
+  });
+
+  // Fetch inventory for the category picker
+  const { data: inventoryItems } = useQuery({
+    queryKey: ['/api/inventory'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/inventory');
+      return await response.json() as InventoryItem[];
+    }
+  });
+
+  const categories = Array.from(new Set((inventoryItems || []).map(item => item.category))).sort();
+
+  const shownAlerts = (alerts || []).filter(alert => showResolved || !alert.resolvedAt);
+
+  const invalidateRules = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/alert-rules'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/alert-rules/alerts'] });
+  };
+
+  const showError = useErrorToast();
+
+  // Create or update a rule
+  const saveMutation = useMutation({
+    mutationFn: async (rule: InsertAlertRule) => {
+      const response = await apiRequest({
+        url: editingRule ? `/api/alert-rules/${editingRule.id}` : '/api/alert-rules',
+        method: editingRule ? 'PUT' : 'POST',
+        data: rule
+      });
+      return await response.json() as AlertRule;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: editingRule ? "Alert rule updated successfully" : "Alert rule created successfully",
+      });
+      resetForm();
+      invalidateRules();
+    },
+    onError: (error) => showError(error, "Failed to save alert rule")
+  });
+
+  // Enable or disable a rule from the list
+  const toggleMutation = useMutation({
+    mutationFn: async (rule: AlertRule) => {
+      const response = await apiRequest({
+        url: `/api/alert-rules/${rule.id}`,
+        method: 'PUT',
+        data: { active: !rule.active }
+      });
+      return await response.json() as AlertRule;
+    },
+    onSuccess: invalidateRules,
+    onError: (error) => showError(error, "Failed to update alert rule")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (rule: AlertRule) => {
+      await apiRequest({ url: `/api/alert-rules/${rule.id}`, method: 'DELETE' });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Alert rule deleted successfully",
+      });
+      setDeletingRule(null);
+      invalidateRules();
+    },
+    onError: (error) => showError(error, "Failed to delete alert rule")
+  });
+
+  // Check the rules without waiting for the next scheduled check
+  const checkMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest({ url: '/api/alert-rules/check', method: 'POST' });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/alert-rules/alerts'] }),
+    onError: (error) => showError(error, "Failed to check alert rules")
+  });
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingRule(null);
+    setForm(emptyForm);
+  };
+
+  const handleEditClick = (rule: AlertRule) => {
+    setEditingRule(rule);
+    setForm({
+      name: rule.name,
+      type: rule.type,
+      threshold: String(rule.threshold),
+      category: rule.category || "",
+      notifyRoles: rule.notifyRoles,
+      active: rule.active
+    });
+    setShowForm(true);
+  };
+
+  const toggleRole = (role: RuleForm['notifyRoles'][number]) => {
+    setForm(current => ({
+      ...current,
+      notifyRoles: current.notifyRoles.includes(role)
+        ? current.notifyRoles.filter(entry => entry !== role)
+        : [...current.notifyRoles, role]
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (form.notifyRoles.length === 0) {
+      showError(null, "Choose at least one role to notify");
+      return;
+    }
+
+    const scoped = form.type === "category_losses" || ITEM_RULES.includes(form.type);
+    saveMutation.mutate({
+      name: form.name.trim(),
+      type: form.type,
+      threshold: parseFloat(form.threshold),
+      category: scoped && form.category ? form.category : undefined,
+      notifyRoles: form.notifyRoles,
+      active: form.active
+    });
+  };
+
+  const wholeNumber = form.type === "voids_per_shift" || form.type === "no_sales";
+
+  return (
+    <>
+      <Header title={currentPage} description="Get notified when refunds, voids, margins, slow sellers or losses cross the lines you set" />
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="space-y-6">
+          {showForm ? (
+            <div className="bg-white shadow overflow-hidden sm:rounded-lg p-6">
+              <div className="flex justify-between items-center mb-6">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">
+                  {editingRule ? 'Edit Alert Rule' : 'New Alert Rule'}
+                </h3>
+                <button
+                  onClick={resetForm}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <span className="sr-only">Close</span>
+                  <svg className="h-6 w-6" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="name" className={labelClass}>Name</label>
+                    <input
+                      id="name"
+                      type="text"
+                      className={inputClass}
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      placeholder="e.g. Refunds over $50"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="type" className={labelClass}>Alert When</label>
+                    <select
+                      id="type"
+                      className={inputClass}
+                      value={form.type}
+                      onChange={(e) => setForm({ ...form, type: e.target.value as AlertRuleType })}
+                    >
+                      {Object.entries(ALERT_RULE_TYPES).map(([value, { label }]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="threshold" className={labelClass}>{ALERT_RULE_TYPES[form.type].threshold}</label>
+                    <input
+                      id="threshold"
+                      type="number"
+                      min={form.type === "no_sales" ? "1" : "0"}
+                      max={form.type === "margin_below" ? "100" : undefined}
+                      step={wholeNumber ? "1" : "0.01"}
+                      className={inputClass}
+                      value={form.threshold}
+                      onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+                      required
+                    />
+                    {form.type === "voids_per_shift" && (
+                      <p className="mt-1 text-xs text-gray-500">A void is a sale refunded before its shift was closed.</p>
+                    )}
+                  </div>
+                  {(form.type === "category_losses" || ITEM_RULES.includes(form.type)) && (
+                    <div>
+                      <label htmlFor="category" className={labelClass}>
+                        Category{form.type === "category_losses" ? "" : " (optional)"}
+                      </label>
+                      <select
+                        id="category"
+                        className={inputClass}
+                        value={form.category}
+                        onChange={(e) => setForm({ ...form, category: e.target.value })}
+                        required={form.type === "category_losses"}
+                      >
+                        <option value="">{form.type === "category_losses" ? "Choose a category" : "All categories"}</option>
+                        {categories.map(category => (
+                          <option key={category} value={category}>{category}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <span className={labelClass}>Notify</span>
+                  <div className="flex flex-wrap gap-2">
+                    {ROLES.map(role => (
+                      <button
+                        key={role}
+                        type="button"
+                        onClick={() => toggleRole(role)}
+                        className={`px-3 py-1 rounded-full text-sm border ${
+                          form.notifyRoles.includes(role)
+                            ? 'bg-blue-600 text-white border-blue-600'
+                            : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        {role}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={form.active}
+                    onChange={(e) => setForm({ ...form, active: e.target.checked })}
+                  />
+                  Enabled
+                </label>
+
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    onClick={resetForm}
+                    className="mr-3 px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saveMutation.isPending || !form.name.trim()}
+                    className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    {saveMutation.isPending ? "Saving..." : "Save Rule"}
+                  </button>
+                </div>
+              </form>
+            </div>
+          ) : (
+            <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+              <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">Alert Rules</h3>
+                <button
+                  onClick={() => setShowForm(true)}
+                  className="inline-flex items-center whitespace-nowrap px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                  </svg>
+                  New Rule
+                </button>
+              </div>
+
+              {rulesLoading ? (
+                <div className="p-6 text-center">
+                  <i className="fas fa-spinner fa-spin mr-2"></i> Loading data...
+                </div>
+              ) : error ? (
+                <div className="p-6 text-center text-red-500">
+                  <i className="fas fa-exclamation-triangle mr-2"></i> Error loading data. Please try again.
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Notifies</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {rules && rules.length > 0 ? (
+                        rules.map((rule) => (
+                          <tr key={rule.id} className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{rule.name}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              <div>{describeAlertRule(rule)}</div>
+                              <div className="text-xs text-gray-400">{ALERT_RULE_TYPES[rule.type].label}</div>
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-500">{rule.notifyRoles.join(", ")}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                                rule.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                              }`}>
+                                {rule.active ? 'Enabled' : 'Disabled'}
+                              </span>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                              <button
+                                onClick={() => toggleMutation.mutate(rule)}
+                                disabled={toggleMutation.isPending}
+                                className="text-gray-600 hover:text-gray-900 mr-3"
+                              >
+                                {rule.active ? 'Disable' : 'Enable'}
+                              </button>
+                              <button
+                                onClick={() => handleEditClick(rule)}
+                                className="text-blue-600 hover:text-blue-900 mr-3"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => setDeletingRule(rule)}
+                                className="text-red-600 hover:text-red-900"
+                              >
+                                Delete
+                              </button>
+                            </td>
+                          </tr>
+                        ))
+                      ) : (
+                        <tr>
+                          <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                            No alert rules yet.
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+            <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">Raised Alerts</h3>
+              <div className="flex items-center space-x-4">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={showResolved}
+                    onChange={(e) => setShowResolved(e.target.checked)}
+                  />
+                  Show resolved
+                </label>
+                <button
+                  onClick={() => checkMutation.mutate()}
+                  disabled={checkMutation.isPending}
+                  className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {checkMutation.isPending ? "Checking..." : "Check Now"}
+                </button>
+              </div>
+            </div>
+
+            {alertsLoading ? (
+              <div className="p-6 text-center">
+                <i className="fas fa-spinner fa-spin mr-2"></i> Loading data...
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Raised</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Alert</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {shownAlerts.length > 0 ? (
+                      shownAlerts.map((alert) => (
+                        <tr key={alert.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(alert.raisedAt)}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{alert.ruleName}</td>
+                          <td className="px-6 py-4 text-sm text-gray-500">{alert.message}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            {alert.resolvedAt ? (
+                              <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800" title={formatDate(alert.resolvedAt)}>
+                                Resolved
+                              </span>
+                            ) : (
+                              <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                                Raised
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      ))
+                    ) : (
+                      <tr>
+                        <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500">
+                          No alerts have been raised.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <DeleteConfirmationModal
+        isOpen={!!deletingRule}
+        itemName={deletingRule?.name || ""}
+        onConfirm={() => deletingRule && deleteMutation.mutate(deletingRule)}
+        onCancel={() => setDeletingRule(null)}
+        isDeleting={deleteMutation.isPending}
+      />
+    </>
+  );
+};
+
+export default AlertRules;
@@ -2,21 +2,28 @@ import Header from "@/components/Header";
 import DashboardStats from "@/components/DashboardStats";
 import RecentSales from "@/components/RecentSales";
 import LowStockAlerts from "@/components/LowStockAlerts";
+import LocationSelect from "@/components/LocationSelect";
 import { useAppContext } from "@/context/AppContext";
+import { useState } from "react";
 
 const Dashboard: React.FC = () => {
   const { currentPage } = useAppContext();
+  const [locationId, setLocationId] = useState<number | undefined>(undefined);
   
   return (
     <>
       <Header title={currentPage} />
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         <div className="space-y-6">
-          <DashboardStats />
+          <div className="flex justify-end">
+            <LocationSelect value={locationId} onChange={setLocationId} allowAll includeInactive />
+          </div>
+          
+          <DashboardStats locationId={locationId} />
           
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-            <RecentSales />
-            <LowStockAlerts />
+            <RecentSales locationId={locationId} />
+            <LowStockAlerts locationId={locationId} />
           </div>
         </div>
       </main>
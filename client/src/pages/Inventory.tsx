@@ -9,6 +9,13 @@ import AddInventoryItemForm from "@/components/AddInventoryItemForm";
 import EditInventoryItemForm from "@/components/EditInventoryItemForm";
 import BulkInventoryImport from "@/components/BulkInventoryImport";
 import DeleteConfirmationModal from "@/components/DeleteConfirmationModal";
+import StockMovementHistory from "@/components/StockMovementHistory";
+import VariantGroupManager from "@/components/VariantGroupManager";
+import LocationSelect, { useLocations } from "@/components/LocationSelect";
+import { itemBarcodes } from "@shared/barcodes";
+import { atLocation, stockByLocation } from "@shared/locations";
+import { describeBundle, isBundle } from "@shared/bundles";
+import type { BundleComponent, ItemBarcode, VariantAttributes } from "@shared/schema";
 
 // Define types for inventory data
 interface InventoryItem {
@@ -27,6 +34,11 @@ interface InventoryItem {
   status: string;
   image?: string;
   barcode?: string;
+  barcodes?: ItemBarcode[];
+  variantGroupId?: number;
+  variantAttributes?: VariantAttributes;
+  locationStock?: Record<string, number>;
+  components?: BundleComponent[];
 }
 
 const Inventory: React.FC = () => {
@@ -34,10 +46,13 @@ const Inventory: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState("");
   const [showAddForm, setShowAddForm] = useState(false);
   const [showBulkImport, setShowBulkImport] = useState(false);
+  const [showVariants, setShowVariants] = useState(false);
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
   const [deletingItem, setDeletingItem] = useState<InventoryItem | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null);
   const [showLowStockOnly, setShowLowStockOnly] = useState(false);
+  const [locationId, setLocationId] = useState<number | undefined>(undefined);
   const [userRole, setUserRole] = useState<string>("Administrator"); // Default to Administrator
   const { toast } = useToast();
   
@@ -81,13 +96,18 @@ const Inventory: React.FC = () => {
     }
   });
 
+  const { data: locations } = useLocations();
+  const locationName = (id: string) => locations?.find(location => String(location.id) === id)?.name || `Location ${id}`;
+  
   // Filter inventory items based on search term and low stock filter
-  const filteredItems = inventoryItems?.filter((item: InventoryItem) => {
+  // Filtered to a location, stock and low stock are what is held there
+  const filteredItems = inventoryItems?.map((item: InventoryItem) => atLocation(item, locationId)).filter((item: InventoryItem) => {
     // First, apply search term filter
     const matchesSearch = 
       item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       item.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      item.category.toLowerCase().includes(searchTerm.toLowerCase());
+      item.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      itemBarcodes(item).some(barcode => barcode.code.includes(searchTerm.trim()));
     
     // Then apply low stock filter if enabled
     if (showLowStockOnly) {
@@ -104,7 +124,8 @@ const Inventory: React.FC = () => {
   };
 
   const handleEditClick = (item: InventoryItem) => {
-    setEditingItem(item);
+    // Edit the item itself, not its stock as seen from the location filter
+    setEditingItem(inventoryItems?.find(entry => entry.id === item.id) || item);
   };
 
   const handleEditSuccess = () => {
@@ -174,16 +195,21 @@ const Inventory: React.FC = () => {
         <div className="space-y-6">
           {showAddForm ? (
             <div className="bg-white shadow overflow-hidden sm:rounded-lg">
-              <AddInventoryItemForm onSuccess={handleAddSuccess} onCancel={() => setShowAddForm(false)} />
+              <AddInventoryItemForm locationId={locationId} onSuccess={handleAddSuccess} onCancel={() => setShowAddForm(false)} />
             </div>
           ) : showBulkImport ? (
             <div className="bg-white shadow overflow-hidden sm:rounded-lg">
               <BulkInventoryImport onSuccess={handleAddSuccess} onCancel={() => setShowBulkImport(false)} />
             </div>
+          ) : showVariants ? (
+            <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+              <VariantGroupManager onClose={() => setShowVariants(false)} />
+            </div>
           ) : editingItem ? (
             <div className="bg-white shadow overflow-hidden sm:rounded-lg">
               <EditInventoryItemForm 
                 item={editingItem} 
+                locationId={locationId}
                 onSuccess={handleEditSuccess} 
                 onCancel={() => setEditingItem(null)} 
               />
@@ -223,7 +249,19 @@ const Inventory: React.FC = () => {
                       </svg>
                       {showLowStockOnly ? "Show All Items" : "Show Low Stock Only"}
                     </button>
+                    <LocationSelect value={locationId} onChange={setLocationId} allowAll includeInactive />
                   </div>
+                  {(userRole === "Administrator" || userRole === "Manager") && (
+                    <button 
+                      onClick={() => setShowVariants(true)}
+                      className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+                      </svg>
+                      Variants
+                    </button>
+                  )}
                   <button 
                     onClick={() => setShowBulkImport(true)}
                     className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
@@ -287,12 +325,25 @@ const Inventory: React.FC = () => {
                                 </div>
                               )}
                             </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{item.name}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                              {item.name}
+                              {isBundle(item) && (
+                                <span className="ml-2 px-2 py-0.5 text-xs font-normal bg-purple-100 text-purple-800 rounded-md">Bundle</span>
+                              )}
+                              {isBundle(item) && (
+                                <div className="text-xs font-normal text-gray-500">{describeBundle(item, inventoryItems || [])}</div>
+                              )}
+                              {item.variantAttributes && (
+                                <div className="text-xs font-normal text-gray-500">
+                                  {Object.entries(item.variantAttributes).map(([name, value]) => `${name}: ${value}`).join(" · ")}
+                                </div>
+                              )}
+                            </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                               <div className="flex items-center">
                                 {item.sku}
-                                {item.barcode && (
-                                  <span className="ml-2 px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded-md" title="Has barcode">
+                                {itemBarcodes(item).length > 0 && (
+                                  <span className="ml-2 px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded-md" title={`Barcodes: ${itemBarcodes(item).map(barcode => barcode.packQuantity > 1 ? `${barcode.code} (x${barcode.packQuantity})` : barcode.code).join(", ")}`}>
                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                                     </svg>
@@ -301,7 +352,14 @@ const Inventory: React.FC = () => {
                               </div>
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{item.category}</td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{item.stock} {item.unit}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {item.stock} {item.unit}
+                              {locationId === undefined && Object.keys(stockByLocation(item)).length > 1 && (
+                                <div className="text-xs text-gray-400">
+                                  {Object.entries(stockByLocation(item)).map(([id, stock]) => `${locationName(id)}: ${stock}`).join(" · ")}
+                                </div>
+                              )}
+                            </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">${item.price}/{item.priceUnit}</td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                               <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
@@ -325,6 +383,15 @@ const Inventory: React.FC = () => {
                                     <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
                                   </svg>
                                 </button>
+                                <button 
+                                  onClick={() => setHistoryItem(inventoryItems?.find(entry => entry.id === item.id) || item)}
+                                  className="text-gray-600 hover:text-gray-900 bg-gray-100 p-1 rounded-md" 
+                                  title="Stock History"
+                                >
+                                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z" clipRule="evenodd" />
+                                  </svg>
+                                </button>
                                 {/* Only show delete button for non-Stocker roles */}
                                 {userRole !== "Stocker" && (
                                   <button 
@@ -365,6 +432,9 @@ const Inventory: React.FC = () => {
         onCancel={() => setDeletingItem(null)}
         isDeleting={isDeleting}
       />
+
+      {/* Stock movement history */}
+      <StockMovementHistory item={historyItem} onClose={() => setHistoryItem(null)} />
     </>
   );
 };
@@ -34,7 +34,7 @@ type LoginFormValues = z.infer<typeof loginSchema>;
 const Login = () => {
   const [, setLocation] = useLocation();
   const [isLoading, setIsLoading] = useState(false);
-  const [loginAttempts, setLoginAttempts] = useState(0);
+  const [remainingAttempts, setRemainingAttempts] = useState<number | null>(null);
   const [lockoutUntil, setLockoutUntil] = useState<Date | null>(null);
   const { toast } = useToast();
   
@@ -46,24 +46,9 @@ const Login = () => {
     sessionStorage.removeItem("user");
     document.title = "Inventory Pro | Login";
     
-    // Check for existing lockout
-    const savedLockout = localStorage.getItem("loginLockout");
-    if (savedLockout) {
-      const lockoutTime = new Date(savedLockout);
-      if (lockoutTime > new Date()) {
-        setLockoutUntil(lockoutTime);
-      } else {
-        // Clear expired lockout
-        localStorage.removeItem("loginLockout");
-        localStorage.removeItem("loginAttempts");
-      }
-    }
-    
-    // Restore login attempts counter
-    const savedAttempts = localStorage.getItem("loginAttempts");
-    if (savedAttempts) {
-      setLoginAttempts(parseInt(savedAttempts, 10));
-    }
+    // Lockouts are now enforced by the server; clear state left by older versions
+    localStorage.removeItem("loginLockout");
+    localStorage.removeItem("loginAttempts");
   }, []);
   
   // Initialize form with validation
@@ -77,7 +62,7 @@ const Login = () => {
 
   /**
    * Handles the form submission and authentication process
-   * Implements security measures like rate limiting and lockouts
+   * Failed attempts and lockouts are tracked by the server
    */
   const onSubmit = async (data: LoginFormValues) => {
     // Security check for login rate limiting
@@ -114,18 +99,18 @@ const Login = () => {
       
       if (response.ok && result.success) {
         // Reset login attempts on success
-        setLoginAttempts(0);
-        localStorage.removeItem("loginAttempts");
-        localStorage.removeItem("loginLockout");
+        setRemainingAttempts(null);
+        setLockoutUntil(null);
         
         toast({
           title: "Login Successful",
           description: `Welcome back, ${result.user.name}!`,
         });
         
-        // Store user info in sessionStorage with current timestamp
+        // Store user info and the signed session token in sessionStorage
         const userData = {
           ...result.user,
+          token: result.token,
           lastActive: new Date().toISOString()
         };
         sessionStorage.setItem("user", JSON.stringify(userData));
@@ -133,20 +118,12 @@ const Login = () => {
         // Redirect to dashboard
         setLocation("/dashboard");
       } else {
-        // Handle failed login
-        const newAttempts = loginAttempts + 1;
-        setLoginAttempts(newAttempts);
-        localStorage.setItem("loginAttempts", newAttempts.toString());
-        
-        // Lock account after 5 failed attempts
-        if (newAttempts >= 5) {
-          const lockoutTime = new Date();
-          // Lock for 15 minutes
-          lockoutTime.setMinutes(lockoutTime.getMinutes() + 15);
-          setLockoutUntil(lockoutTime);
-          localStorage.setItem("loginLockout", lockoutTime.toISOString());
-          
-          throw new Error("Too many failed login attempts. Account locked for 15 minutes.");
+        // Server reports a lockout with the time it ends
+        if (response.status === 423 && result.lockedUntil) {
+          setLockoutUntil(new Date(result.lockedUntil));
+          setRemainingAttempts(null);
+        } else if (typeof result.remainingAttempts === "number") {
+          setRemainingAttempts(result.remainingAttempts);
         }
         
         throw new Error(result.error || "Invalid username or PIN");
@@ -266,10 +243,10 @@ const Login = () => {
           </div>
 
           {/* Failed login counter warning */}
-          {loginAttempts > 0 && loginAttempts < 5 && (
+          {remainingAttempts !== null && remainingAttempts > 0 && (
             <div className="text-amber-600 text-sm">
-              <p>Failed login attempts: {loginAttempts}/5</p>
-              <p className="text-xs">Your account will be temporarily locked after 5 failed attempts.</p>
+              <p>Attempts remaining before lockout: {remainingAttempts}</p>
+              <p className="text-xs">Your account will be temporarily locked after repeated failed attempts.</p>
             </div>
           )}
 
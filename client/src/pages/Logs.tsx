@@ -128,6 +128,12 @@ const Logs = () => {
         return 'bg-pink-100 text-pink-800';
       case 'losses':
         return 'bg-red-100 text-red-800';
+      case 'shifts':
+        return 'bg-teal-100 text-teal-800';
+      case 'purchasing':
+        return 'bg-indigo-100 text-indigo-800';
+      case 'alerts':
+        return 'bg-orange-100 text-orange-800';
       case 'system':
         return 'bg-gray-100 text-gray-800';
       default:
@@ -150,6 +156,12 @@ const Logs = () => {
         return 'Settings';
       case 'losses':
         return 'Loss Tracker';
+      case 'shifts':
+        return 'Shifts';
+      case 'purchasing':
+        return 'Purchasing';
+      case 'alerts':
+        return 'Alert Rules';
       case 'system':
         return 'System';
       default:
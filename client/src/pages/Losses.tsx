@@ -3,8 +3,13 @@ import Header from "@/components/Header";
 import { useAppContext } from "@/context/AppContext";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, getAuthHeaders } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import LocationSelect, { useLocations } from "@/components/LocationSelect";
+import { describeLot } from "@shared/lots";
+import { DEFAULT_LOCATION_ID, locationOf, stockAt } from "@shared/locations";
+import { isBundle } from "@shared/bundles";
+import type { BundleComponent } from "@shared/schema";
 
 // Define types for inventory data
 interface InventoryItem {
@@ -20,6 +25,8 @@ interface InventoryItem {
   status: string;
   image?: string;
   barcode?: string;
+  locationStock?: Record<string, number>;
+  components?: BundleComponent[];
 }
 
 interface LossItem {
@@ -31,6 +38,10 @@ interface LossItem {
   date: string;
   recordedBy: string;
   value: number;
+  lotId?: number;
+  lotNumber?: string;
+  expiryDate?: string;
+  locationId?: number;
 }
 
 const Losses: React.FC = () => {
@@ -43,7 +54,9 @@ const Losses: React.FC = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [editingLoss, setEditingLoss] = useState<LossItem | null>(null);
   const [isEditing, setIsEditing] = useState(false);
+  const [locationId, setLocationId] = useState<number>(DEFAULT_LOCATION_ID);
   const { toast } = useToast();
+  const { data: locations } = useLocations();
 
   // Fetch inventory data
   const { data: inventoryItems, isLoading: inventoryLoading } = useQuery({
@@ -88,7 +101,8 @@ const Losses: React.FC = () => {
       const response = await fetch('/api/losses', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          ...getAuthHeaders()
         },
         body: JSON.stringify(lossData)
       });
@@ -127,7 +141,8 @@ const Losses: React.FC = () => {
       const response = await fetch(`/api/losses/${lossData.id}`, {
         method: 'PUT',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          ...getAuthHeaders()
         },
         body: JSON.stringify(lossData)
       });
@@ -172,6 +187,7 @@ const Losses: React.FC = () => {
     setSelectedInventoryItem(item);
     setQuantity(loss.quantity);
     setReason(loss.reason);
+    setLocationId(locationOf(loss));
   };
   
   const handleSubmit = async (e: React.FormEvent) => {
@@ -224,8 +240,8 @@ const Losses: React.FC = () => {
           itemName: selectedInventoryItem.name,
           quantity,
           reason,
-          recordedBy: userInfo.name || "Unknown User",
-          value
+          value,
+          locationId
         });
       }
     } finally {
@@ -240,6 +256,7 @@ const Losses: React.FC = () => {
     setSelectedInventoryItem(null);
     setQuantity(1);
     setReason("");
+    setLocationId(DEFAULT_LOCATION_ID);
   };
   
   const formatDate = (dateString: string): string => {
@@ -304,7 +321,8 @@ const Losses: React.FC = () => {
                     required
                   >
                     <option value="">Select an item</option>
-                    {inventoryItems?.map(item => (
+                    {/* Bundles are written off by their contents */}
+                    {inventoryItems?.filter(item => !isBundle(item)).map(item => (
                       <option key={item.id} value={item.id}>
                         {item.name} - {item.sku} ({item.stock} {item.unit} in stock)
                       </option>
@@ -312,6 +330,21 @@ const Losses: React.FC = () => {
                   </select>
                 </div>
                 
+                {/* A loss stays at the location it was recorded at */}
+                {!isEditing && (locations || []).filter(location => location.active).length > 1 && (
+                  <div>
+                    <label htmlFor="lossLocation" className="block text-sm font-medium text-gray-700 mb-1">
+                      Location
+                    </label>
+                    <LocationSelect
+                      id="lossLocation"
+                      value={locationId}
+                      onChange={(value) => setLocationId(value ?? DEFAULT_LOCATION_ID)}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                )}
+                
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <label htmlFor="quantity" className="block text-sm font-medium text-gray-700 mb-1">
@@ -328,7 +361,7 @@ const Losses: React.FC = () => {
                     />
                     {selectedInventoryItem && (
                       <p className="mt-1 text-sm text-gray-500">
-                        Unit: {selectedInventoryItem.unit} | Current Stock: {selectedInventoryItem.stock}
+                        Unit: {selectedInventoryItem.unit} | Current Stock: {stockAt(selectedInventoryItem, locationId)}
                       </p>
                     )}
                   </div>
@@ -458,7 +491,17 @@ const Losses: React.FC = () => {
                         filteredLosses.map((item) => (
                           <tr key={item.id} className="hover:bg-gray-50">
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(item.date)}</td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{item.itemName}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                              {item.itemName}
+                              {item.lotId !== undefined && (
+                                <div className="text-xs font-normal text-gray-500">{describeLot(item)}</div>
+                              )}
+                              {(locations || []).length > 1 && (
+                                <div className="text-xs font-normal text-gray-500">
+                                  {locations!.find(location => location.id === locationOf(item))?.name}
+                                </div>
+                              )}
+                            </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{item.quantity}</td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{item.reason}</td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{item.recordedBy}</td>
@@ -5,10 +5,24 @@ import BarcodeScanner from "@/components/BarcodeScanner";
 import InvisibleBarcodeScanner from "@/components/InvisibleBarcodeScanner";
 import { BarcodeFormat } from '@zxing/library';
 import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { getAuthHeaders } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import PrintReceipt from "@/components/PrintReceipt";
+import CartAdjustmentDialog, { type CartAdjustment, type ManagerApproval } from "@/components/CartAdjustmentDialog";
+import WeightEntryDialog from "@/components/WeightEntryDialog";
+import TenderDialog from "@/components/TenderDialog";
+import ShiftPanel from "@/components/ShiftPanel";
+import OfflineSalesPanel from "@/components/OfflineSalesPanel";
+import { useOfflineSales } from "@/hooks/useOfflineSales";
+import { fetchWithOfflineCopy, isUnreachable, isUnreachableStatus, newIdempotencyKey, nextProvisionalId, queueSale, sessionUsername } from "@/lib/offlineSales";
+import type { Shift } from "@/components/ShiftReportView";
+import { priceLines, type AppliedDiscount } from "@shared/pricing";
+import { includesCash, settleTenders } from "@shared/tenders";
+import { resolveBarcode } from "@shared/barcodes";
+import { roundCurrency, type TaxSettings } from "@shared/tax";
+import { formatQuantity, isValidQuantity, resolveScaleBarcode, roundQuantity, type ScaleBarcodeSettings } from "@shared/weighing";
+import type { ItemBarcode, ManualDiscount, Promotion, Tender } from "@shared/schema";
 
 // Define types for inventory and cart
 interface InventoryItem {
@@ -24,6 +38,11 @@ interface InventoryItem {
   status: string;
   image?: string;
   barcode?: string;
+  barcodes?: ItemBarcode[];
+  taxExempt?: boolean;
+  soldByWeight?: boolean;
+  tare?: number;
+  plu?: string;
 }
 
 interface CartItem {
@@ -33,6 +52,46 @@ interface CartItem {
   quantity: number;
   unit: string;
   subtotal: number;
+  category: string;
+  taxExempt?: boolean;
+  soldByWeight?: boolean;     // Quantity is a weight in `unit`
+  priceOverride?: number;     // Manager-approved unit price
+  discount?: ManualDiscount;
+}
+
+// Sale as recorded by the server, used for the receipt
+interface CompletedSale {
+  id: string;
+  items: {
+    productId: number;
+    name: string;
+    quantity: number;
+    price: number;
+    unit: string;
+    subtotal: number;
+    discounts?: AppliedDiscount[];
+  }[];
+  subtotal?: number;
+  discount?: number;
+  cartDiscount?: AppliedDiscount;
+  tax?: number;
+  amount: number;
+  tenders?: Tender[];
+  change?: number;
+}
+
+/**
+ * Unit price charged for a cart line
+ */
+const unitPrice = (item: CartItem) => item.priceOverride ?? item.price;
+
+// Per-line problem reported by the server when a sale is rejected
+interface SaleLineError {
+  line: number;
+  productId: number;
+  code: string;
+  message: string;
+  expected?: number;
 }
 
 const PointOfSale: React.FC = () => {
@@ -43,7 +102,7 @@ const PointOfSale: React.FC = () => {
   const [scannerTimeout, setScannerTimeout] = useState<NodeJS.Timeout | null>(null);
   const [timeRemaining, setTimeRemaining] = useState(0);
   const [countdownInterval, setCountdownInterval] = useState<NodeJS.Timeout | null>(null);
-  const [currentUser, setCurrentUser] = useState({ name: "Admin User", username: "admin" }); // Default to Admin User
+  const [currentUser, setCurrentUser] = useState({ name: "Admin User", username: "admin", role: "Cashier" }); // Default to Admin User
 
   const { toast } = useToast();
   
@@ -58,44 +117,30 @@ const PointOfSale: React.FC = () => {
   
 
   
-  // Fetch current user information
-  const { data: users } = useQuery({
-    queryKey: ['/api/users'],
-    queryFn: async () => {
-      const response = await apiRequest('/api/users');
-      if (response && response instanceof Response) {
-        return await response.json();
-      }
-      return [];
-    }
-  });
-  
-  // Set the current user to the first admin user in the list
+  // Set the current user from the authenticated session
   useEffect(() => {
-    if (users && users.length > 0) {
-      // In a real app, this would use authentication to determine the current user
-      // For now, we'll just use the first admin user
-      const adminUser = users.find((user: any) => user.role === 'admin') || users[0];
-      if (adminUser) {
-        setCurrentUser({ 
-          name: adminUser.name,
-          username: adminUser.username 
-        });
+    try {
+      const userInfo = sessionStorage.getItem("user");
+      if (userInfo) {
+        const user = JSON.parse(userInfo);
+        if (user && user.name && user.username) {
+          setCurrentUser({ 
+            name: user.name,
+            username: user.username,
+            role: user.role || "Cashier"
+          });
+        }
       }
+    } catch (error) {
+      // Keep the default display name; the server records the verified cashier
     }
-  }, [users]);
+  }, []);
   
   // Fetch inventory data sorted by popularity with shorter cache time for real-time updates
+  // The catalog, prices and shift fall back to the copies saved on this till while the server is unreachable
   const { data: inventoryItems, refetch: refetchInventory } = useQuery({
     queryKey: ['/api/inventory/popular'],
-    queryFn: async () => {
-      // Use the new endpoint that returns inventory sorted by popularity
-      const response = await apiRequest('/api/inventory/popular');
-      if (response && response instanceof Response) {
-        return await response.json() as InventoryItem[];
-      }
-      return [] as InventoryItem[];
-    },
+    queryFn: () => fetchWithOfflineCopy<InventoryItem[]>('/api/inventory/popular'),
     staleTime: 30000, // Cache for 30 seconds only
     refetchInterval: 60000, // Auto-refresh every minute
   });
@@ -105,26 +150,99 @@ const PointOfSale: React.FC = () => {
     item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     item.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
     item.barcode?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    item.barcodes?.some(entry => entry.code.toLowerCase().includes(searchTerm.toLowerCase())) ||
     item.category.toLowerCase().includes(searchTerm.toLowerCase())
   );
   
-  // Calculate cart totals
-  const cartTotal = cart.reduce((sum, item) => sum + item.subtotal, 0);
-  const itemCount = cart.reduce((sum, item) => sum + item.quantity, 0);
+  // Tax rates and promotions, so the cart shows the same totals the server will charge
+  const { data: storeSettings } = useQuery<TaxSettings & { scaleBarcodes?: ScaleBarcodeSettings }>({
+    queryKey: ['/api/settings'],
+    queryFn: () => fetchWithOfflineCopy('/api/settings'),
+  });
+  const { data: promotions } = useQuery<Promotion[]>({
+    queryKey: ['/api/promotions/active'],
+    queryFn: () => fetchWithOfflineCopy('/api/promotions/active'),
+    refetchInterval: 60000, // Pick up promotions that start or end while the till is open
+  });
+  
+  // The cashier's open register shift; sales can only be rung up during one
+  const { data: currentShift, isLoading: isShiftLoading } = useQuery<Shift | null>({
+    queryKey: ['/api/shifts/current'],
+    queryFn: () => fetchWithOfflineCopy('/api/shifts/current'),
+  });
+  
+  // Sales rung up while the server was unreachable, waiting to be sent
+  const offlineSales = useOfflineSales();
+  
+  // Discount on the whole cart, and the manager approval for any price overrides
+  const [cartDiscount, setCartDiscount] = useState<ManualDiscount | undefined>();
+  const [managerApproval, setManagerApproval] = useState<ManagerApproval | undefined>();
+  const [adjustingItemId, setAdjustingItemId] = useState<number | null>(null);
+  const [adjustingCart, setAdjustingCart] = useState(false);
+  
+  // Payment taken in the tender dialog, kept for a retry if the sale is rejected
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [showTenderDialog, setShowTenderDialog] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const isManager = currentUser.role === "Administrator" || currentUser.role === "Manager";
+  
+  // Calculate cart totals with the same pricing rules the server applies
+  const pricing = priceLines(cart.map(item => ({
+    productId: item.id,
+    category: item.category,
+    quantity: item.quantity,
+    price: unitPrice(item),
+    taxExempt: item.taxExempt,
+    priceOverridden: item.priceOverride !== undefined,
+    discount: item.discount
+  })), {
+    promotions: promotions || [],
+    taxSettings: storeSettings || {},
+    cartDiscount
+  });
+  const cartSubtotal = pricing.subtotal;
+  const cartDiscountTotal = pricing.discount;
+  const cartTax = pricing.tax;
+  const cartTotal = pricing.total;
+  // A weighed line counts as one item, whatever it weighs
+  const itemCount = cart.reduce((sum, item) => sum + (item.soldByWeight ? 1 : item.quantity), 0);
   
-  // Handle barcode scan
+  // Item being weighed, and the weight already in the cart when re-weighing a line
+  const [weighing, setWeighing] = useState<{ item: InventoryItem; weight?: number } | null>(null);
+  
+  // Add a picked or scanned item; weighed items are weighed first
+  const pickItem = (item: InventoryItem) => {
+    if (item.soldByWeight) {
+      setWeighing({ item });
+    } else {
+      addToCart(item);
+    }
+  };
+  
+  // Handle barcode scan; a case-pack barcode adds the whole pack and a scale label the weight printed on it
   const handleBarcodeScan = (barcode: string) => {
-    const item = inventoryItems?.find(item => {
-      return item.barcode === barcode || item.sku === barcode;
-    });
+    const match = resolveBarcode(inventoryItems || [], barcode);
+    const label = match ? null : resolveScaleBarcode(inventoryItems || [], barcode, storeSettings?.scaleBarcodes);
     
-    if (item) {
-      addToCart(item);
+    if (match && match.item.soldByWeight) {
+      setWeighing({ item: match.item });
+    } else if (match) {
+      addToCart(match.item, match.packQuantity);
       toast({
-        description: `${item.name} added to cart`,
+        description: match.packQuantity > 1
+          ? `${match.packQuantity} x ${match.item.name} added to cart`
+          : `${match.item.name} added to cart`,
         duration: 2000,
       });
-      
+    } else if (label) {
+      addToCart(label.item, label.quantity);
+      toast({
+        description: `${formatQuantity(label.quantity)} ${label.item.unit} of ${label.item.name} added to cart`,
+        duration: 2000,
+      });
+    }
+    
+    if (match || label) {
       // Reset the scanner timer when an item is successfully scanned
       if (isScanning) {
         resetScannerTimer();
@@ -249,7 +367,7 @@ const PointOfSale: React.FC = () => {
   }, [isScanning]);
   
   // Add item to cart - with optimized rendering to prevent screen distortion
-  const addToCart = (item: InventoryItem) => {
+  const addToCart = (item: InventoryItem, quantity = 1) => {
     // Use functional state update to ensure we're working with the latest cart state
     setCart(prevCart => {
       const existingItemIndex = prevCart.findIndex(cartItem => cartItem.id === item.id);
@@ -257,10 +375,11 @@ const PointOfSale: React.FC = () => {
       if (existingItemIndex !== -1) {
         // Item already in cart, update quantity without creating layout shifts
         const updatedCart = [...prevCart];
+        const newQuantity = roundQuantity(updatedCart[existingItemIndex].quantity + quantity);
         updatedCart[existingItemIndex] = {
           ...updatedCart[existingItemIndex],
-          quantity: updatedCart[existingItemIndex].quantity + 1,
-          subtotal: updatedCart[existingItemIndex].price * (updatedCart[existingItemIndex].quantity + 1)
+          quantity: newQuantity,
+          subtotal: roundCurrency(unitPrice(updatedCart[existingItemIndex]) * newQuantity)
         };
         return updatedCart;
       } else {
@@ -269,9 +388,12 @@ const PointOfSale: React.FC = () => {
           id: item.id,
           name: item.name,
           price: item.price,
-          quantity: 1,
+          quantity,
           unit: item.unit,
-          subtotal: item.price
+          subtotal: roundCurrency(item.price * quantity),
+          category: item.category,
+          taxExempt: item.taxExempt,
+          soldByWeight: item.soldByWeight
         };
         return [...prevCart, newItem];
       }
@@ -283,16 +405,17 @@ const PointOfSale: React.FC = () => {
     setCart(cart.filter(item => item.id !== id));
   };
   
-  // Update item quantity
+  // Update item quantity; weighed items take fractional weights
   const updateQuantity = (id: number, quantity: number) => {
-    if (quantity < 1) return;
+    const line = cart.find(item => item.id === id);
+    if (!line || !isValidQuantity(line, quantity)) return;
     
     const updatedCart = cart.map(item => {
       if (item.id === id) {
         return {
           ...item,
-          quantity,
-          subtotal: item.price * quantity
+          quantity: roundQuantity(quantity),
+          subtotal: roundCurrency(unitPrice(item) * roundQuantity(quantity))
         };
       }
       return item;
@@ -304,14 +427,146 @@ const PointOfSale: React.FC = () => {
   // Clear cart
   const clearCart = () => {
     setCart([]);
+    setLineErrors({});
+    setCanOverrideStock(false);
+    setCartDiscount(undefined);
+    setManagerApproval(undefined);
+    setTenders([]);
+  };
+  
+  /**
+   * Apply a discount or price override from the adjustment dialog
+   */
+  const applyAdjustment = (adjustment: CartAdjustment) => {
+    if (adjustment.approval) {
+      setManagerApproval(adjustment.approval);
+    }
+    if (adjustingCart) {
+      setCartDiscount(adjustment.discount);
+      return;
+    }
+    
+    setCart(prevCart => prevCart.map(item => {
+      if (item.id !== adjustingItemId) {
+        return item;
+      }
+      const updated = { ...item, discount: adjustment.discount, priceOverride: adjustment.priceOverride };
+      return { ...updated, subtotal: unitPrice(updated) * updated.quantity };
+    }));
   };
   
+  const adjustingItem = cart.find(item => item.id === adjustingItemId);
+  
   // Show receipt modal
   const [showReceiptModal, setShowReceiptModal] = useState(false);
   const [currentTransactionId, setCurrentTransactionId] = useState<string>("");
+  const [completedSale, setCompletedSale] = useState<CompletedSale | null>(null);
+  const [receiptIsProvisional, setReceiptIsProvisional] = useState(false);
+  
+  // Sent with every attempt at the current sale, so a retry after a lost response isn't recorded twice
+  const [saleKey, setSaleKey] = useState(newIdempotencyKey);
+  
+  // Problems with cart lines from the last rejected sale, keyed by product ID
+  const [lineErrors, setLineErrors] = useState<Record<number, string>>({});
+  const [canOverrideStock, setCanOverrideStock] = useState(false);
+  
+  /**
+   * Show the server's per-line errors and pick up any changed prices
+   */
+  const applyLineErrors = (errors: SaleLineError[]) => {
+    const messages: Record<number, string> = {};
+    errors.forEach(error => {
+      messages[error.productId] = error.message;
+    });
+    setLineErrors(messages);
+    
+    // Update cart lines whose catalog price changed so the next attempt matches
+    const priceChanges = errors.filter(error => error.code === "PRICE_MISMATCH" && error.expected !== undefined);
+    if (priceChanges.length > 0) {
+      setCart(prevCart => prevCart.map(item => {
+        const change = priceChanges.find(error => error.productId === item.id);
+        return change && item.priceOverride === undefined
+          ? { ...item, price: change.expected!, subtotal: change.expected! * item.quantity }
+          : item;
+      }));
+      refetchInventory();
+    }
+  };
+  
+  /**
+   * Queue the sale on this till and print a provisional receipt
+   * Used when the server can't be reached; the sale is sent when it can.
+   */
+  const ringUpOffline = async (saleData: Record<string, unknown>) => {
+    // Approvals are checked against the manager's PIN on the server, which isn't kept on the till
+    const needsApproval = !!cartDiscount || cart.some(item => item.priceOverride !== undefined || item.discount);
+    if (needsApproval && !isManager) {
+      throw new Error("Discounts and price overrides need the server to check the manager's approval. Remove them or wait for the connection.");
+    }
+    
+    // What the customer is charged now is what gets recorded, whatever changes before it's sent
+    const charged = {
+      ...(currentShift ? { shiftId: currentShift.id } : {}),
+      items: cart.map((item, index) => ({
+        productId: item.id,
+        name: item.name,
+        quantity: item.quantity,
+        price: unitPrice(item),
+        unit: item.unit,
+        subtotal: pricing.lines[index].subtotal,
+        priceOverridden: item.priceOverride !== undefined,
+        discounts: pricing.lines[index].discounts,
+        taxRate: pricing.lines[index].taxRate,
+        tax: pricing.lines[index].tax
+      })),
+      subtotal: cartSubtotal,
+      discount: cartDiscountTotal,
+      ...(pricing.cartDiscount ? { cartDiscount: pricing.cartDiscount } : {}),
+      tax: cartTax,
+      amount: cartTotal
+    };
+    
+    const provisionalId = nextProvisionalId();
+    await queueSale({
+      idempotencyKey: saleKey,
+      provisionalId,
+      rungUpAt: new Date().toISOString(),
+      username: sessionUsername() || currentUser.username,
+      amount: cartTotal,
+      sale: { ...saleData, managerApproval: undefined, allowNegativeStock: false },
+      charged
+    });
+    
+    const settlement = settleTenders(tenders, cartTotal);
+    setCompletedSale({
+      id: provisionalId,
+      items: charged.items,
+      subtotal: cartSubtotal,
+      discount: cartDiscountTotal,
+      cartDiscount: pricing.cartDiscount,
+      tax: cartTax,
+      amount: cartTotal,
+      tenders,
+      ...(settlement.change > 0 ? { change: settlement.change } : {})
+    });
+    setCurrentTransactionId(provisionalId);
+    setReceiptIsProvisional(true);
+    setSaleKey(newIdempotencyKey());
+    setLineErrors({});
+    setCanOverrideStock(false);
+    setShowTenderDialog(false);
+    setShowReceiptModal(true);
+    
+    offlineSales.setServerUnreachable(true);
+    offlineSales.refreshQueue();
+    toast({
+      description: `Offline sale ${provisionalId}: $${cartTotal.toFixed(2)}. It will be sent when the server is back.`,
+      duration: 3000,
+    });
+  };
   
   // Process sale
-  const processSale = async () => {
+  const processSale = async (allowNegativeStock = false) => {
     if (cart.length === 0) {
       toast({
         description: "Cart is empty",
@@ -321,39 +576,70 @@ const PointOfSale: React.FC = () => {
       return;
     }
     
+    setIsProcessing(true);
     try {
       const saleData = {
         items: cart.map(item => ({
           productId: item.id,
           name: item.name,
           quantity: item.quantity,
-          price: item.price,
+          price: unitPrice(item),
           unit: item.unit,
-          subtotal: item.subtotal
+          subtotal: item.subtotal,
+          priceOverride: item.priceOverride,
+          discount: item.discount
         })),
-        cashier: currentUser.name, // Use the current user's name from state
+        cartDiscount,
+        managerApproval,
+        tenders,
+        cashier: currentUser.name, // Display only; the server records the verified cashier
         amount: cartTotal,
-        status: "Completed"
+        status: "Completed",
+        allowNegativeStock
       };
       
-      const response = await fetch("/api/sales", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify(saleData)
-      });
+      let response: Response;
+      try {
+        response = await fetch("/api/sales", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Idempotency-Key": saleKey,
+            ...getAuthHeaders()
+          },
+          body: JSON.stringify(saleData)
+        });
+      } catch (error) {
+        if (!isUnreachable(error)) {
+          throw error;
+        }
+        // The server may still have recorded it; the same key stops the queued copy counting twice
+        await ringUpOffline(saleData);
+        return;
+      }
+      
+      if (isUnreachableStatus(response.status)) {
+        await ringUpOffline(saleData);
+        return;
+      }
       
       if (response.ok) {
         const saleResult = await response.json();
+        offlineSales.setServerUnreachable(false);
+        setSaleKey(newIdempotencyKey());
+        setReceiptIsProvisional(false);
+        setLineErrors({});
+        setCanOverrideStock(false);
+        setShowTenderDialog(false);
         
         toast({
-          description: `Sale: $${cartTotal.toFixed(2)}`,
+          description: `Sale: $${saleResult.amount.toFixed(2)}`,
           duration: 2000,
         });
         
-        // Store the transaction ID for the receipt
+        // Store the transaction ID and the sale as recorded for the receipt
         setCurrentTransactionId(saleResult.id);
+        setCompletedSale(saleResult);
         
         // Show receipt modal for printing
         setShowReceiptModal(true);
@@ -364,8 +650,26 @@ const PointOfSale: React.FC = () => {
         queryClient.invalidateQueries({ queryKey: ['/api/sales'] });
         queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
         queryClient.invalidateQueries({ queryKey: ['/api/alerts/low-stock'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
       } else {
-        throw new Error("Failed to process sale");
+        const result = await response.json().catch(() => ({}));
+        if (Array.isArray(result.lineErrors)) {
+          applyLineErrors(result.lineErrors);
+        }
+        setCanOverrideStock(response.status === 409 && result.canOverride === true);
+        if (result.approvalRequired) {
+          // Ask for the manager's credentials again
+          setManagerApproval(undefined);
+        }
+        if (result.shiftRequired) {
+          // The shift was closed elsewhere, e.g. by a manager
+          queryClient.invalidateQueries({ queryKey: ['/api/shifts/current'] });
+        }
+        // Stay on the payment screen only when the payment itself was the problem
+        if (result.balanceDue === undefined) {
+          setShowTenderDialog(false);
+        }
+        throw new Error(result.message || result.error || "Failed to process sale");
       }
     } catch (error: any) {
       toast({
@@ -373,6 +677,8 @@ const PointOfSale: React.FC = () => {
         variant: "destructive",
         duration: 3000,
       });
+    } finally {
+      setIsProcessing(false);
     }
   };
   
@@ -455,7 +761,7 @@ const PointOfSale: React.FC = () => {
                           rounded-md p-3 flex flex-col items-center cursor-pointer 
                           ${isPopular ? 'hover:bg-blue-50' : 'hover:bg-gray-50'}
                           h-[9.5rem] w-full overflow-hidden relative`}
-                        onClick={() => addToCart(item)}
+                        onClick={() => pickItem(item)}
                       >
                         {/* Popular badge - positioned absolutely to avoid affecting layout */}
                         {isPopular && (
@@ -482,7 +788,9 @@ const PointOfSale: React.FC = () => {
                         {/* Fixed size text container */}
                         <div className="text-center w-full mt-auto">
                           <h4 className={`text-sm font-medium ${isPopular ? 'text-blue-800' : 'text-gray-800'} truncate max-w-full`}>{item.name}</h4>
-                          <p className="text-sm text-gray-500">${item.price.toFixed(2)}</p>
+                          <p className="text-sm text-gray-500">
+                            ${item.price.toFixed(2)}{item.soldByWeight && ` / ${item.unit}`}
+                          </p>
                         </div>
                       </div>
                     );
@@ -496,8 +804,17 @@ const PointOfSale: React.FC = () => {
             </div>
           </div>
           
-          {/* Right Column - Cart */}
+          {/* Right Column - Shift and Cart */}
           <div className="space-y-4">
+            <OfflineSalesPanel
+              isOffline={offlineSales.isOffline}
+              isSyncing={offlineSales.isSyncing}
+              queuedSales={offlineSales.queuedSales}
+              username={sessionUsername() || currentUser.username}
+              onSync={offlineSales.sync}
+            />
+            <ShiftPanel shift={currentShift} isLoading={isShiftLoading} />
+            
             <div className="bg-white shadow rounded-lg p-4">
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-lg font-medium text-gray-900">Cart</h3>
@@ -513,35 +830,71 @@ const PointOfSale: React.FC = () => {
               {/* Cart Items - Fixed layout to prevent screen distortion */}
               <div className="space-y-3 max-h-96 overflow-y-auto mb-4">
                 {cart.length > 0 ? (
-                  cart.map((item) => (
+                  cart.map((item, index) => (
                     <div key={item.id} className="grid grid-cols-12 gap-2 border-b border-gray-200 pb-2">
                       {/* Item details - fixed width */}
                       <div className="col-span-5">
                         <h4 className="text-sm font-medium text-gray-800 truncate">{item.name}</h4>
-                        <p className="text-xs text-gray-500">${item.price.toFixed(2)} per {item.unit}</p>
+                        <p className="text-xs text-gray-500">
+                          {item.priceOverride !== undefined && (
+                            <span className="line-through mr-1">${item.price.toFixed(2)}</span>
+                          )}
+                          ${unitPrice(item).toFixed(2)} per {item.unit}
+                        </p>
+                        {pricing.lines[index]?.discounts.filter(discount => discount.source !== "cart").map((discount, discountIndex) => (
+                          <p key={discountIndex} className="text-xs text-green-700">
+                            {discount.description}: -${discount.amount.toFixed(2)}
+                          </p>
+                        ))}
+                        <button
+                          onClick={() => setAdjustingItemId(item.id)}
+                          className="text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          {isManager ? "Discount / Price" : "Discount / Price Override"}
+                        </button>
+                        {lineErrors[item.id] && (
+                          <p className="text-xs text-red-600">{lineErrors[item.id]}</p>
+                        )}
                       </div>
                       
-                      {/* Quantity controls - fixed width */}
+                      {/* Quantity controls - fixed width; weighed lines are re-weighed instead */}
                       <div className="col-span-4 flex items-center justify-center">
-                        <button 
-                          onClick={() => updateQuantity(item.id, item.quantity - 1)}
-                          className="text-gray-500 hover:text-gray-700 min-w-[20px]"
-                          aria-label="Decrease quantity"
-                        >
-                          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                            <path fillRule="evenodd" d="M5 10a1 1 0 011-1h8a1 1 0 110 2H6a1 1 0 01-1-1z" clipRule="evenodd" />
-                          </svg>
-                        </button>
-                        <span className="text-sm w-6 text-center">{item.quantity}</span>
-                        <button 
-                          onClick={() => updateQuantity(item.id, item.quantity + 1)}
-                          className="text-gray-500 hover:text-gray-700 min-w-[20px]"
-                          aria-label="Increase quantity"
-                        >
-                          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                            <path fillRule="evenodd" d="M10 5a1 1 0 011 1v3h3a1 1 0 110 2h-3v3a1 1 0 11-2 0v-3H6a1 1 0 110-2h3V6a1 1 0 011-1z" clipRule="evenodd" />
-                          </svg>
-                        </button>
+                        {item.soldByWeight ? (
+                          <button
+                            onClick={() => {
+                              const stocked = inventoryItems?.find(entry => entry.id === item.id);
+                              if (stocked) {
+                                setWeighing({ item: stocked, weight: item.quantity });
+                              }
+                            }}
+                            className="text-sm text-blue-600 hover:text-blue-800"
+                            title="Change weight"
+                          >
+                            {formatQuantity(item.quantity)} {item.unit}
+                          </button>
+                        ) : (
+                          <>
+                            <button 
+                              onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                              className="text-gray-500 hover:text-gray-700 min-w-[20px]"
+                              aria-label="Decrease quantity"
+                            >
+                              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                <path fillRule="evenodd" d="M5 10a1 1 0 011-1h8a1 1 0 110 2H6a1 1 0 01-1-1z" clipRule="evenodd" />
+                              </svg>
+                            </button>
+                            <span className="text-sm w-6 text-center">{item.quantity}</span>
+                            <button 
+                              onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                              className="text-gray-500 hover:text-gray-700 min-w-[20px]"
+                              aria-label="Increase quantity"
+                            >
+                              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                <path fillRule="evenodd" d="M10 5a1 1 0 011 1v3h3a1 1 0 110 2h-3v3a1 1 0 11-2 0v-3H6a1 1 0 110-2h3V6a1 1 0 011-1z" clipRule="evenodd" />
+                              </svg>
+                            </button>
+                          </>
+                        )}
                       </div>
                       
                       {/* Subtotal - fixed width */}
@@ -579,17 +932,52 @@ const PointOfSale: React.FC = () => {
                   <span className="text-gray-600">Items</span>
                   <span className="font-medium">{itemCount}</span>
                 </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Subtotal</span>
+                  <span className="font-medium">${cartSubtotal.toFixed(2)}</span>
+                </div>
+                {cartDiscountTotal > 0 && (
+                  <div className="flex justify-between text-sm text-green-700">
+                    <span>Discounts</span>
+                    <span className="font-medium">-${cartDiscountTotal.toFixed(2)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between text-sm">
+                  <button
+                    onClick={() => setAdjustingCart(true)}
+                    disabled={cart.length === 0}
+                    className="text-blue-600 hover:text-blue-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {cartDiscount ? "Edit cart discount" : "Add cart discount"}
+                  </button>
+                  {pricing.cartDiscount && (
+                    <span className="text-gray-600">{pricing.cartDiscount.description}</span>
+                  )}
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Tax</span>
+                  <span className="font-medium">${cartTax.toFixed(2)}</span>
+                </div>
                 <div className="flex justify-between text-lg font-bold">
                   <span>Total</span>
                   <span>${cartTotal.toFixed(2)}</span>
                 </div>
                 <button 
-                  onClick={processSale}
-                  disabled={cart.length === 0}
+                  onClick={() => setShowTenderDialog(true)}
+                  disabled={cart.length === 0 || !currentShift}
                   className="w-full py-3 px-4 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   Process Sale
                 </button>
+                {canOverrideStock && (
+                  <button 
+                    onClick={() => processSale(true)}
+                    disabled={cart.length === 0 || isProcessing || !currentShift}
+                    className="w-full py-2 px-4 border border-amber-500 text-amber-700 font-medium rounded-md hover:bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Override Stock and Complete Sale
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -598,6 +986,49 @@ const PointOfSale: React.FC = () => {
 
       {/* Direct barcode scanner logic - no separate component */}
 
+      {/* Line and cart discounts */}
+      <CartAdjustmentDialog
+        isOpen={adjustingItem !== undefined || adjustingCart}
+        onClose={() => {
+          setAdjustingItemId(null);
+          setAdjustingCart(false);
+        }}
+        title={adjustingCart ? "Cart Discount" : `Adjust ${adjustingItem?.name || "Item"}`}
+        discount={adjustingCart ? cartDiscount : adjustingItem?.discount}
+        priceOverride={!adjustingCart && adjustingItem 
+          ? { listPrice: adjustingItem.price, price: adjustingItem.priceOverride } 
+          : undefined}
+        requiresApproval={!isManager && !managerApproval}
+        onApply={applyAdjustment}
+      />
+
+      {/* Weighing */}
+      <WeightEntryDialog
+        isOpen={weighing !== null}
+        onClose={() => setWeighing(null)}
+        item={weighing?.item ?? null}
+        weight={weighing?.weight}
+        onConfirm={(weight) => {
+          if (!weighing) return;
+          if (weighing.weight !== undefined) {
+            updateQuantity(weighing.item.id, weight);
+          } else {
+            addToCart(weighing.item, weight);
+          }
+        }}
+      />
+
+      {/* Payment */}
+      <TenderDialog
+        isOpen={showTenderDialog}
+        onClose={() => setShowTenderDialog(false)}
+        total={cartTotal}
+        tenders={tenders}
+        onChange={setTenders}
+        onSubmit={() => processSale()}
+        isSubmitting={isProcessing}
+      />
+
       {/* Print Receipt Modal */}
       <PrintReceipt 
         isOpen={showReceiptModal} 
@@ -605,10 +1036,17 @@ const PointOfSale: React.FC = () => {
           setShowReceiptModal(false);
           clearCart(); // Clear cart after printing/closing receipt
         }}
-        cart={cart}
-        cartTotal={cartTotal}
+        cart={(completedSale?.items || []).map(item => ({ ...item, id: item.productId }))}
+        cartSubtotal={completedSale?.subtotal ?? completedSale?.amount ?? 0}
+        cartDiscount={completedSale?.cartDiscount}
+        cartTax={completedSale?.tax ?? 0}
+        cartTotal={completedSale?.amount ?? 0}
+        tenders={completedSale?.tenders}
+        change={completedSale?.change}
+        openDrawer={includesCash(completedSale?.tenders)}
         cashier={currentUser.username}
         transactionId={currentTransactionId} // Pass the actual transaction ID from the sale
+        provisional={receiptIsProvisional}
       />
     </>
   );
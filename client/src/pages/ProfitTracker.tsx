@@ -8,10 +8,12 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Switch } from "@/components/ui/switch";
-import { queryClient } from '@/lib/queryClient';
+import { queryClient, getAuthHeaders } from '@/lib/queryClient';
 import { Separator } from '@/components/ui/separator';
 import { useAppContext } from '@/context/AppContext';
 import Header from '@/components/Header';
+import { useCategories } from '@/components/CategoryOptions';
+import { categorySetting, findCategory } from '@shared/categories';
 
 // Define types for inventory data
 interface InventoryItem {
@@ -52,6 +54,11 @@ const ProfitTracker: React.FC = () => {
   const selectedItem = selectedItemId
     ? inventoryItems.find((item: InventoryItem) => item.id === selectedItemId)
     : null;
+  
+  // Items priced for the first time start from their category's markup
+  const { data: categories = [] } = useCategories();
+  const selectedCategory = selectedItem ? findCategory(categories, selectedItem.category) : undefined;
+  const categoryMargin = selectedCategory ? categorySetting(selectedCategory, categories, 'defaultMargin') : undefined;
 
   // Update item mutation
   const updateItemMutation = useMutation({
@@ -60,6 +67,7 @@ const ProfitTracker: React.FC = () => {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(updates),
       });
@@ -118,14 +126,14 @@ const ProfitTracker: React.FC = () => {
   useEffect(() => {
     if (selectedItem) {
       setCostPrice(selectedItem.costPrice?.toString() || '');
-      setProfitMargin(selectedItem.profitMargin?.toString() || '');
-      setProfitType(selectedItem.profitType || 'percentage');
+      setProfitMargin(selectedItem.profitMargin?.toString() || categoryMargin?.toString() || '');
+      setProfitType(selectedItem.profitMargin !== undefined ? selectedItem.profitType || 'percentage' : 'percentage');
     } else {
       setCostPrice('');
       setProfitMargin('');
       setProfitType('percentage');
     }
-  }, [selectedItem]);
+  }, [selectedItem, categoryMargin]);
 
   // Handle form submission
   const handleSubmit = (e: React.FormEvent) => {
@@ -240,6 +248,11 @@ const ProfitTracker: React.FC = () => {
                         onChange={(e) => setProfitMargin(e.target.value)}
                         placeholder={profitType === 'percentage' ? "Enter percentage" : "Enter amount"}
                       />
+                      {selectedItem.profitMargin === undefined && categoryMargin !== undefined && (
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          Suggested from the {selectedCategory?.name} category's {categoryMargin}% markup
+                        </p>
+                      )}
                     </div>
 
                     {calculatedPrice !== null && (
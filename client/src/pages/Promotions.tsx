@@ -0,0 +1,622 @@
+import { useState } from "react";
+import Header from "@/components/Header";
+import { useAppContext } from "@/context/AppContext";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import DeleteConfirmationModal from "@/components/DeleteConfirmationModal";
+import { isPromotionActive } from "@shared/pricing";
+import type { Promotion, InsertPromotion } from "@shared/schema";
+
+// Define types for inventory data
+interface InventoryItem {
+  id: number;
+  name: string;
+  sku: string;
+  category: string;
+  price: number;
+}
+
+// Promotion form fields, kept as strings while editing
+interface PromotionForm {
+  name: string;
+  type: Promotion['type'];
+  active: boolean;
+  productIds: number[];
+  categories: string[];
+  startsAt: string;
+  endsAt: string;
+  buyQuantity: string;
+  getQuantity: string;
+  getPercentOff: string;
+  bundleQuantity: string;
+  bundlePrice: string;
+  saleMode: 'price' | 'percent';
+  salePrice: string;
+  percentOff: string;
+}
+
+const emptyForm: PromotionForm = {
+  name: "",
+  type: "sale_price",
+  active: true,
+  productIds: [],
+  categories: [],
+  startsAt: "",
+  endsAt: "",
+  buyQuantity: "1",
+  getQuantity: "1",
+  getPercentOff: "100",
+  bundleQuantity: "3",
+  bundlePrice: "",
+  saleMode: "percent",
+  salePrice: "",
+  percentOff: ""
+};
+
+const typeLabels: Record<Promotion['type'], string> = {
+  bogo: "Buy X Get Y",
+  multibuy: "Multi-buy",
+  sale_price: "Sale Price"
+};
+
+const inputClass = "w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500";
+const labelClass = "block text-sm font-medium text-gray-700 mb-1";
+
+// Convert between ISO timestamps and datetime-local input values
+const toInputDate = (iso?: string) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromInputDate = (value: string) => value ? new Date(value).toISOString() : undefined;
+
+const Promotions: React.FC = () => {
+  const { currentPage } = useAppContext();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [showForm, setShowForm] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [form, setForm] = useState<PromotionForm>(emptyForm);
+  const [productSearch, setProductSearch] = useState("");
+  const [deletingPromotion, setDeletingPromotion] = useState<Promotion | null>(null);
+  const { toast } = useToast();
+
+  // Fetch promotions
+  const { data: promotions, isLoading: promotionsLoading, error } = useQuery({
+    queryKey: ['/api/promotions'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/promotions');
+      return await response.json() as Promotion[];
+    }
+  });
+
+  // Fetch inventory for the product and category pickers
+  const { data: inventoryItems, isLoading: inventoryLoading } = useQuery({
+    queryKey: ['/api/inventory'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/inventory');
+      return await response.json() as InventoryItem[];
+    }
+  });
+
+  const categories = Array.from(new Set((inventoryItems || []).map(item => item.category))).sort();
+
+  const filteredPromotions = promotions?.filter(promotion =>
+    promotion.name.toLowerCase().includes(searchTerm.toLowerCase())
+  ) || [];
+
+  const invalidatePromotions = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/promotions'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/promotions/active'] });
+  };
+
+  const showError = useErrorToast();
+
+  // Create or update a promotion
+  const saveMutation = useMutation({
+    mutationFn: async (promotion: InsertPromotion) => {
+      const response = await apiRequest({
+        url: editingPromotion ? `/api/promotions/${editingPromotion.id}` : '/api/promotions',
+        method: editingPromotion ? 'PUT' : 'POST',
+        data: promotion
+      });
+      return await response.json() as Promotion;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: editingPromotion ? "Promotion updated successfully" : "Promotion created successfully",
+      });
+      resetForm();
+      invalidatePromotions();
+    },
+    onError: (error) => showError(error, "Failed to save promotion")
+  });
+
+  // Enable or disable a promotion from the list
+  const toggleMutation = useMutation({
+    mutationFn: async (promotion: Promotion) => {
+      const response = await apiRequest({
+        url: `/api/promotions/${promotion.id}`,
+        method: 'PUT',
+        data: { active: !promotion.active }
+      });
+      return await response.json() as Promotion;
+    },
+    onSuccess: invalidatePromotions,
+    onError: (error) => showError(error, "Failed to update promotion")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (promotion: Promotion) => {
+      await apiRequest({ url: `/api/promotions/${promotion.id}`, method: 'DELETE' });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Promotion deleted successfully",
+      });
+      setDeletingPromotion(null);
+      invalidatePromotions();
+    },
+    onError: (error) => showError(error, "Failed to delete promotion")
+  });
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingPromotion(null);
+    setForm(emptyForm);
+    setProductSearch("");
+  };
+
+  const handleEditClick = (promotion: Promotion) => {
+    setEditingPromotion(promotion);
+    setForm({
+      name: promotion.name,
+      type: promotion.type,
+      active: promotion.active,
+      productIds: promotion.productIds || [],
+      categories: promotion.categories || [],
+      startsAt: toInputDate(promotion.startsAt),
+      endsAt: toInputDate(promotion.endsAt),
+      buyQuantity: String(promotion.buyQuantity ?? emptyForm.buyQuantity),
+      getQuantity: String(promotion.getQuantity ?? emptyForm.getQuantity),
+      getPercentOff: String(promotion.getPercentOff ?? emptyForm.getPercentOff),
+      bundleQuantity: String(promotion.bundleQuantity ?? emptyForm.bundleQuantity),
+      bundlePrice: promotion.bundlePrice !== undefined ? String(promotion.bundlePrice) : "",
+      saleMode: promotion.salePrice !== undefined ? "price" : "percent",
+      salePrice: promotion.salePrice !== undefined ? String(promotion.salePrice) : "",
+      percentOff: promotion.percentOff !== undefined ? String(promotion.percentOff) : ""
+    });
+    setShowForm(true);
+  };
+
+  const toggleProduct = (id: number) => {
+    setForm(current => ({
+      ...current,
+      productIds: current.productIds.includes(id)
+        ? current.productIds.filter(productId => productId !== id)
+        : [...current.productIds, id]
+    }));
+  };
+
+  const toggleCategory = (category: string) => {
+    setForm(current => ({
+      ...current,
+      categories: current.categories.includes(category)
+        ? current.categories.filter(entry => entry !== category)
+        : [...current.categories, category]
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (form.productIds.length === 0 && form.categories.length === 0) {
+      showError(null, "Choose at least one product or category");
+      return;
+    }
+
+    const promotion: InsertPromotion = {
+      name: form.name.trim(),
+      type: form.type,
+      active: form.active,
+      productIds: form.productIds,
+      categories: form.categories,
+      startsAt: fromInputDate(form.startsAt),
+      endsAt: fromInputDate(form.endsAt)
+    };
+
+    if (form.type === "bogo") {
+      promotion.buyQuantity = parseInt(form.buyQuantity);
+      promotion.getQuantity = parseInt(form.getQuantity);
+      promotion.getPercentOff = parseFloat(form.getPercentOff);
+    } else if (form.type === "multibuy") {
+      promotion.bundleQuantity = parseInt(form.bundleQuantity);
+      promotion.bundlePrice = parseFloat(form.bundlePrice);
+    } else if (form.saleMode === "price") {
+      promotion.salePrice = parseFloat(form.salePrice);
+    } else {
+      promotion.percentOff = parseFloat(form.percentOff);
+    }
+
+    saveMutation.mutate(promotion);
+  };
+
+  // Short description of what a promotion gives, for the list
+  const describeOffer = (promotion: Promotion): string => {
+    switch (promotion.type) {
+      case "bogo":
+        return promotion.getPercentOff === undefined || promotion.getPercentOff === 100
+          ? `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free`
+          : `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} ${promotion.getPercentOff}% off`;
+      case "multibuy":
+        return `${promotion.bundleQuantity} for $${(promotion.bundlePrice || 0).toFixed(2)}`;
+      case "sale_price":
+        return promotion.salePrice !== undefined
+          ? `Now $${promotion.salePrice.toFixed(2)}`
+          : `${promotion.percentOff}% off`;
+    }
+  };
+
+  const describeTargets = (promotion: Promotion): string => {
+    const products = (promotion.productIds || []).map(id =>
+      inventoryItems?.find(item => item.id === id)?.name || `#${id}`
+    );
+    return [...products, ...(promotion.categories || []).map(category => `All ${category}`)].join(", ");
+  };
+
+  const formatDate = (dateString?: string): string => {
+    if (!dateString) return 'Open';
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    }).format(new Date(dateString));
+  };
+
+  const getStatus = (promotion: Promotion): { label: string; className: string } => {
+    if (!promotion.active) {
+      return { label: "Disabled", className: "bg-gray-100 text-gray-800" };
+    }
+    if (isPromotionActive(promotion)) {
+      return { label: "Running", className: "bg-green-100 text-green-800" };
+    }
+    if (promotion.startsAt && new Date(promotion.startsAt) > new Date()) {
+      return { label: "Scheduled", className: "bg-blue-100 text-blue-800" };
+    }
+    return { label: "Ended", className: "bg-yellow-100 text-yellow-800" };
+  };
+
+  const matchingProducts = (inventoryItems || []).filter(item =>
+    item.name.toLowerCase().includes(productSearch.toLowerCase()) ||
+    item.sku.toLowerCase().includes(productSearch.toLowerCase())
+  );
+
+  const isLoading = promotionsLoading || inventoryLoading;
+
+  return (
+    <>
+      <Header title={currentPage} />
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="space-y-6">
+          {showForm ? (
+            <div className="bg-white shadow overflow-hidden sm:rounded-lg p-6">
+              <div className="flex justify-between items-center mb-6">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">
+                  {editingPromotion ? 'Edit Promotion' : 'New Promotion'}
+                </h3>
+                <button
+                  onClick={resetForm}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <span className="sr-only">Close</span>
+                  <svg className="h-6 w-6" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="name" className={labelClass}>Name</label>
+                    <input
+                      id="name"
+                      type="text"
+                      className={inputClass}
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      placeholder="e.g. Summer bakery sale"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="type" className={labelClass}>Type</label>
+                    <select
+                      id="type"
+                      className={inputClass}
+                      value={form.type}
+                      onChange={(e) => setForm({ ...form, type: e.target.value as Promotion['type'] })}
+                    >
+                      {Object.entries(typeLabels).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {form.type === "bogo" && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label htmlFor="buyQuantity" className={labelClass}>Buy</label>
+                      <input id="buyQuantity" type="number" min="1" step="1" className={inputClass} required
+                        value={form.buyQuantity} onChange={(e) => setForm({ ...form, buyQuantity: e.target.value })} />
+                    </div>
+                    <div>
+                      <label htmlFor="getQuantity" className={labelClass}>Get</label>
+                      <input id="getQuantity" type="number" min="1" step="1" className={inputClass} required
+                        value={form.getQuantity} onChange={(e) => setForm({ ...form, getQuantity: e.target.value })} />
+                    </div>
+                    <div>
+                      <label htmlFor="getPercentOff" className={labelClass}>% Off the Free Items</label>
+                      <input id="getPercentOff" type="number" min="0" max="100" step="0.01" className={inputClass} required
+                        value={form.getPercentOff} onChange={(e) => setForm({ ...form, getPercentOff: e.target.value })} />
+                    </div>
+                  </div>
+                )}
+
+                {form.type === "multibuy" && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="bundleQuantity" className={labelClass}>Quantity</label>
+                      <input id="bundleQuantity" type="number" min="2" step="1" className={inputClass} required
+                        value={form.bundleQuantity} onChange={(e) => setForm({ ...form, bundleQuantity: e.target.value })} />
+                    </div>
+                    <div>
+                      <label htmlFor="bundlePrice" className={labelClass}>For ($)</label>
+                      <input id="bundlePrice" type="number" min="0" step="0.01" className={inputClass} required
+                        value={form.bundlePrice} onChange={(e) => setForm({ ...form, bundlePrice: e.target.value })} />
+                    </div>
+                  </div>
+                )}
+
+                {form.type === "sale_price" && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="saleMode" className={labelClass}>Discount</label>
+                      <select
+                        id="saleMode"
+                        className={inputClass}
+                        value={form.saleMode}
+                        onChange={(e) => setForm({ ...form, saleMode: e.target.value as PromotionForm['saleMode'] })}
+                      >
+                        <option value="percent">Percent off</option>
+                        <option value="price">Fixed sale price</option>
+                      </select>
+                    </div>
+                    {form.saleMode === "price" ? (
+                      <div>
+                        <label htmlFor="salePrice" className={labelClass}>Sale Price ($)</label>
+                        <input id="salePrice" type="number" min="0" step="0.01" className={inputClass} required
+                          value={form.salePrice} onChange={(e) => setForm({ ...form, salePrice: e.target.value })} />
+                      </div>
+                    ) : (
+                      <div>
+                        <label htmlFor="percentOff" className={labelClass}>Percent Off (%)</label>
+                        <input id="percentOff" type="number" min="0" max="100" step="0.01" className={inputClass} required
+                          value={form.percentOff} onChange={(e) => setForm({ ...form, percentOff: e.target.value })} />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="startsAt" className={labelClass}>Starts (optional)</label>
+                    <input id="startsAt" type="datetime-local" className={inputClass}
+                      value={form.startsAt} onChange={(e) => setForm({ ...form, startsAt: e.target.value })} />
+                  </div>
+                  <div>
+                    <label htmlFor="endsAt" className={labelClass}>Ends (optional)</label>
+                    <input id="endsAt" type="datetime-local" className={inputClass}
+                      value={form.endsAt} onChange={(e) => setForm({ ...form, endsAt: e.target.value })} />
+                  </div>
+                </div>
+
+                <div>
+                  <span className={labelClass}>Categories</span>
+                  <div className="flex flex-wrap gap-2">
+                    {categories.map(category => (
+                      <button
+                        key={category}
+                        type="button"
+                        onClick={() => toggleCategory(category)}
+                        className={`px-3 py-1 rounded-full text-sm border ${
+                          form.categories.includes(category)
+                            ? 'bg-blue-600 text-white border-blue-600'
+                            : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        {category}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <span className={labelClass}>Products ({form.productIds.length} selected)</span>
+                  <input
+                    type="text"
+                    placeholder="Search products..."
+                    className={`${inputClass} mb-2`}
+                    value={productSearch}
+                    onChange={(e) => setProductSearch(e.target.value)}
+                  />
+                  <div className="max-h-60 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+                    {matchingProducts.map(item => (
+                      <label key={item.id} className="flex items-center px-3 py-2 text-sm hover:bg-gray-50 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="mr-3"
+                          checked={form.productIds.includes(item.id)}
+                          onChange={() => toggleProduct(item.id)}
+                        />
+                        <span className="flex-1">{item.name} <span className="text-gray-400">({item.sku})</span></span>
+                        <span className="text-gray-500">${item.price.toFixed(2)}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={form.active}
+                    onChange={(e) => setForm({ ...form, active: e.target.checked })}
+                  />
+                  Enabled
+                </label>
+
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    onClick={resetForm}
+                    className="mr-3 px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saveMutation.isPending || !form.name.trim()}
+                    className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    {saveMutation.isPending ? "Saving..." : "Save Promotion"}
+                  </button>
+                </div>
+              </form>
+            </div>
+          ) : (
+            <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+              <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">Promotions</h3>
+                <div className="flex space-x-3">
+                  <input
+                    type="text"
+                    placeholder="Search promotions..."
+                    className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border border-gray-300 rounded-md py-2 px-4"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                  />
+                  <button
+                    onClick={() => setShowForm(true)}
+                    className="inline-flex items-center whitespace-nowrap px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                    </svg>
+                    New Promotion
+                  </button>
+                </div>
+              </div>
+
+              {isLoading ? (
+                <div className="p-6 text-center">
+                  <i className="fas fa-spinner fa-spin mr-2"></i> Loading data...
+                </div>
+              ) : error ? (
+                <div className="p-6 text-center text-red-500">
+                  <i className="fas fa-exclamation-triangle mr-2"></i> Error loading data. Please try again.
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Offer</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Window</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {filteredPromotions.length > 0 ? (
+                        filteredPromotions.map((promotion) => {
+                          const status = getStatus(promotion);
+                          return (
+                            <tr key={promotion.id} className="hover:bg-gray-50">
+                              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{promotion.name}</td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                <div>{describeOffer(promotion)}</div>
+                                <div className="text-xs text-gray-400">{typeLabels[promotion.type]}</div>
+                              </td>
+                              <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate" title={describeTargets(promotion)}>
+                                {describeTargets(promotion)}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                {formatDate(promotion.startsAt)} – {formatDate(promotion.endsAt)}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${status.className}`}>
+                                  {status.label}
+                                </span>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                <button
+                                  onClick={() => toggleMutation.mutate(promotion)}
+                                  disabled={toggleMutation.isPending}
+                                  className="text-gray-600 hover:text-gray-900 mr-3"
+                                >
+                                  {promotion.active ? 'Disable' : 'Enable'}
+                                </button>
+                                <button
+                                  onClick={() => handleEditClick(promotion)}
+                                  className="text-blue-600 hover:text-blue-900 mr-3"
+                                >
+                                  Edit
+                                </button>
+                                <button
+                                  onClick={() => setDeletingPromotion(promotion)}
+                                  className="text-red-600 hover:text-red-900"
+                                >
+                                  Delete
+                                </button>
+                              </td>
+                            </tr>
+                          );
+                        })
+                      ) : (
+                        <tr>
+                          <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                            {searchTerm ? 'No matching promotions found.' : 'No promotions yet.'}
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <DeleteConfirmationModal
+        isOpen={!!deletingPromotion}
+        itemName={deletingPromotion?.name || ""}
+        onConfirm={() => deletingPromotion && deleteMutation.mutate(deletingPromotion)}
+        onCancel={() => setDeletingPromotion(null)}
+        isDeleting={deleteMutation.isPending}
+      />
+    </>
+  );
+};
+
+export default Promotions;
@@ -0,0 +1,579 @@
+import { Fragment, useState } from "react";
+import Header from "@/components/Header";
+import { useAppContext } from "@/context/AppContext";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { generatePurchaseOrderPdf, type StoreSettings } from "@/utils/pdfGenerator";
+import { saveAs } from "file-saver";
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  canTransition,
+  formatPurchaseOrderNumber,
+  purchaseOrderTotal
+} from "@shared/purchaseOrders";
+import type { PurchaseOrder, PurchaseOrderRequest, PurchaseOrderStatus, Supplier, SupplierLink } from "@shared/schema";
+
+// Define types for inventory data
+interface InventoryItem {
+  id: number;
+  name: string;
+  sku: string;
+  unit: string;
+  stock: number;
+  threshold: number;
+  costPrice?: number;
+  suppliers?: SupplierLink[];
+}
+
+// An order line as edited in the form
+interface LineForm {
+  productId: number;
+  quantity: string;
+  unitCost: string;
+}
+
+interface OrderForm {
+  supplierId: string;
+  lines: LineForm[];
+  expectedDate: string;
+  notes: string;
+}
+
+const emptyForm: OrderForm = {
+  supplierId: "",
+  lines: [],
+  expectedDate: "",
+  notes: ""
+};
+
+const statusClasses: Record<PurchaseOrderStatus, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  sent: "bg-blue-100 text-blue-800",
+  partially_received: "bg-yellow-100 text-yellow-800",
+  received: "bg-green-100 text-green-800",
+  closed: "bg-purple-100 text-purple-800",
+  cancelled: "bg-red-100 text-red-800"
+};
+
+const inputClass = "w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500";
+const labelClass = "block text-sm font-medium text-gray-700 mb-1";
+
+const formatDate = (value?: string) => value
+  ? new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'short', day: 'numeric' }).format(new Date(value))
+  : '-';
+
+const PurchaseOrders: React.FC = () => {
+  const { currentPage } = useAppContext();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<'all' | 'open' | PurchaseOrderStatus>('open');
+  const [showForm, setShowForm] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+  const [form, setForm] = useState<OrderForm>(emptyForm);
+  const [productToAdd, setProductToAdd] = useState("");
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  // Fetch purchase orders, newest first
+  const { data: orders, isLoading: ordersLoading, error } = useQuery({
+    queryKey: ['/api/purchase-orders'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/purchase-orders');
+      return await response.json() as PurchaseOrder[];
+    }
+  });
+
+  const { data: suppliers, isLoading: suppliersLoading } = useQuery({
+    queryKey: ['/api/suppliers'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/suppliers');
+      return await response.json() as Supplier[];
+    }
+  });
+
+  const { data: inventoryItems, isLoading: inventoryLoading } = useQuery({
+    queryKey: ['/api/inventory'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/inventory');
+      return await response.json() as InventoryItem[];
+    }
+  });
+
+  // Store details printed on the order
+  const { data: storeSettings } = useQuery<StoreSettings>({
+    queryKey: ['/api/settings'],
+  });
+
+  const filteredOrders = (orders || []).filter(order => {
+    const matchesStatus = statusFilter === 'all' ||
+      (statusFilter === 'open' ? ['draft', 'sent', 'partially_received'].includes(order.status) : order.status === statusFilter);
+    const search = searchTerm.toLowerCase();
+    return matchesStatus && (
+      order.supplierName.toLowerCase().includes(search) ||
+      formatPurchaseOrderNumber(order.id).toLowerCase().includes(search)
+    );
+  });
+
+  const showError = useErrorToast();
+
+  const findItem = (productId: number) => inventoryItems?.find(item => item.id === productId);
+  const selectedSupplier = suppliers?.find(supplier => supplier.id === parseInt(form.supplierId));
+
+  // The supplier's price for an item, else the item's cost price
+  const defaultCost = (item: InventoryItem, supplierId: number) => {
+    const link = item.suppliers?.find(entry => entry.supplierId === supplierId);
+    return link?.cost ?? item.costPrice;
+  };
+
+  // Create or update a draft
+  const saveMutation = useMutation({
+    mutationFn: async (order: PurchaseOrderRequest) => {
+      const response = await apiRequest({
+        url: editingOrder ? `/api/purchase-orders/${editingOrder.id}` : '/api/purchase-orders',
+        method: editingOrder ? 'PUT' : 'POST',
+        data: order
+      });
+      return await response.json() as PurchaseOrder;
+    },
+    onSuccess: (order) => {
+      toast({
+        title: "Success",
+        description: `${formatPurchaseOrderNumber(order.id)} saved as a draft`,
+      });
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders'] });
+    },
+    onError: (error) => showError(error, "Failed to save purchase order")
+  });
+
+  // Send, close or cancel an order
+  const statusMutation = useMutation({
+    mutationFn: async ({ order, action }: { order: PurchaseOrder; action: 'send' | 'close' | 'cancel' }) => {
+      const response = await apiRequest({ url: `/api/purchase-orders/${order.id}/${action}`, method: 'POST' });
+      return await response.json() as PurchaseOrder;
+    },
+    onSuccess: (order) => {
+      toast({
+        title: "Success",
+        description: `${formatPurchaseOrderNumber(order.id)} is now ${PURCHASE_ORDER_STATUS_LABELS[order.status].toLowerCase()}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders'] });
+    },
+    onError: (error) => showError(error, "Failed to update purchase order")
+  });
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingOrder(null);
+    setForm(emptyForm);
+    setProductToAdd("");
+  };
+
+  const handleEditClick = (order: PurchaseOrder) => {
+    setEditingOrder(order);
+    setForm({
+      supplierId: String(order.supplierId),
+      lines: order.lines.map(line => ({
+        productId: line.productId,
+        quantity: String(line.quantity),
+        unitCost: String(line.unitCost)
+      })),
+      expectedDate: order.expectedDate || "",
+      notes: order.notes || ""
+    });
+    setShowForm(true);
+  };
+
+  const addLine = () => {
+    const item = findItem(parseInt(productToAdd));
+    if (!item || form.lines.some(line => line.productId === item.id)) return;
+
+    // Suggest enough to get back above the reorder threshold
+    const shortfall = Math.max(1, item.threshold * 2 - item.stock);
+    const cost = defaultCost(item, parseInt(form.supplierId));
+    setForm({
+      ...form,
+      lines: [...form.lines, {
+        productId: item.id,
+        quantity: String(Math.ceil(shortfall)),
+        unitCost: cost !== undefined ? String(cost) : ""
+      }]
+    });
+    setProductToAdd("");
+  };
+
+  const updateLine = (productId: number, update: Partial<LineForm>) => {
+    setForm({
+      ...form,
+      lines: form.lines.map(line => line.productId === productId ? { ...line, ...update } : line)
+    });
+  };
+
+  const removeLine = (productId: number) => {
+    setForm({ ...form, lines: form.lines.filter(line => line.productId !== productId) });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (form.lines.length === 0) {
+      showError(null, "Add at least one item");
+      return;
+    }
+
+    saveMutation.mutate({
+      supplierId: parseInt(form.supplierId),
+      lines: form.lines.map(line => ({
+        productId: line.productId,
+        quantity: parseFloat(line.quantity),
+        ...(line.unitCost !== "" ? { unitCost: parseFloat(line.unitCost) } : {})
+      })),
+      expectedDate: form.expectedDate || undefined,
+      notes: form.notes.trim() || undefined
+    });
+  };
+
+  const downloadPdf = (order: PurchaseOrder) => {
+    const supplier = suppliers?.find(entry => entry.id === order.supplierId);
+    const pdfBlob = generatePurchaseOrderPdf({
+      orderNumber: formatPurchaseOrderNumber(order.id),
+      date: formatDate(order.sentAt || order.createdAt),
+      expectedDate: order.expectedDate ? formatDate(order.expectedDate) : undefined,
+      createdBy: order.createdBy,
+      supplier: supplier || { name: order.supplierName },
+      lines: order.lines.map(line => ({ ...line, unit: findItem(line.productId)?.unit })),
+      total: order.total,
+      notes: order.notes,
+      storeSettings
+    });
+    saveAs(pdfBlob, `${formatPurchaseOrderNumber(order.id)}.pdf`);
+  };
+
+  const formTotal = purchaseOrderTotal(form.lines.map(line => ({
+    quantity: parseFloat(line.quantity) || 0,
+    unitCost: parseFloat(line.unitCost) || 0
+  })));
+
+  const isLoading = ordersLoading || suppliersLoading || inventoryLoading;
+
+  return (
+    <>
+      <Header title={currentPage} />
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="space-y-6">
+          {showForm ? (
+            <div className="bg-white shadow overflow-hidden sm:rounded-lg p-6">
+              <div className="flex justify-between items-center mb-6">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">
+                  {editingOrder ? `Edit ${formatPurchaseOrderNumber(editingOrder.id)}` : 'New Purchase Order'}
+                </h3>
+                <button
+                  onClick={resetForm}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <span className="sr-only">Close</span>
+                  <svg className="h-6 w-6" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="supplierId" className={labelClass}>Supplier</label>
+                    <select
+                      id="supplierId"
+                      className={inputClass}
+                      value={form.supplierId}
+                      onChange={(e) => setForm({ ...form, supplierId: e.target.value })}
+                      required
+                    >
+                      <option value="">Choose a supplier...</option>
+                      {(suppliers || []).map(supplier => (
+                        <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                      ))}
+                    </select>
+                    {selectedSupplier && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        Lead time {selectedSupplier.leadTimeDays} days
+                        {selectedSupplier.minimumOrder > 0 && ` · Minimum order $${selectedSupplier.minimumOrder.toFixed(2)}`}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <label htmlFor="expectedDate" className={labelClass}>Expected Delivery (optional)</label>
+                    <input id="expectedDate" type="date" className={inputClass}
+                      value={form.expectedDate} onChange={(e) => setForm({ ...form, expectedDate: e.target.value })} />
+                  </div>
+                </div>
+
+                <div>
+                  <span className={labelClass}>Items</span>
+                  <div className="flex gap-2 mb-2">
+                    <select
+                      className={inputClass}
+                      value={productToAdd}
+                      onChange={(e) => setProductToAdd(e.target.value)}
+                      aria-label="Item to add"
+                    >
+                      <option value="">Choose an item to add...</option>
+                      {(inventoryItems || [])
+                        .filter(item => !form.lines.some(line => line.productId === item.id))
+                        .map(item => {
+                          const supplied = item.suppliers?.some(link => link.supplierId === parseInt(form.supplierId));
+                          return (
+                            <option key={item.id} value={item.id}>
+                              {item.name} ({item.sku}){supplied ? ' ✓' : ''}
+                            </option>
+                          );
+                        })}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={addLine}
+                      disabled={!productToAdd}
+                      className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Add
+                    </button>
+                  </div>
+                  <div className="border border-gray-200 rounded-md divide-y divide-gray-100">
+                    {form.lines.length === 0 ? (
+                      <p className="px-3 py-4 text-sm text-center text-gray-500">No items yet.</p>
+                    ) : form.lines.map(line => {
+                      const item = findItem(line.productId);
+                      return (
+                        <div key={line.productId} className="grid grid-cols-12 gap-2 px-3 py-2 items-center text-sm">
+                          <span className="col-span-5">
+                            <span className="font-medium">{item?.name || `#${line.productId}`}</span>
+                            {item && <span className="block text-xs text-gray-400">{item.stock} {item.unit} in stock</span>}
+                          </span>
+                          <input type="number" min="0" step="any" className={`${inputClass} col-span-2`} required
+                            aria-label={`Quantity of ${item?.name}`}
+                            value={line.quantity} onChange={(e) => updateLine(line.productId, { quantity: e.target.value })} />
+                          <input type="number" min="0" step="0.01" placeholder="Unit cost" className={`${inputClass} col-span-2`}
+                            aria-label={`Unit cost of ${item?.name}`}
+                            value={line.unitCost} onChange={(e) => updateLine(line.productId, { unitCost: e.target.value })} />
+                          <span className="col-span-2 text-right">
+                            ${((parseFloat(line.quantity) || 0) * (parseFloat(line.unitCost) || 0)).toFixed(2)}
+                          </span>
+                          <button type="button" onClick={() => removeLine(line.productId)}
+                            className="col-span-1 text-red-600 hover:text-red-900 text-right">
+                            Remove
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <div className="flex justify-end mt-2 text-sm font-semibold">
+                    Total ${formTotal.toFixed(2)}
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="notes" className={labelClass}>Notes for the supplier (optional)</label>
+                  <textarea id="notes" rows={2} maxLength={500} className={inputClass}
+                    value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    onClick={resetForm}
+                    className="mr-3 px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saveMutation.isPending || !form.supplierId}
+                    className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    {saveMutation.isPending ? "Saving..." : "Save Draft"}
+                  </button>
+                </div>
+              </form>
+            </div>
+          ) : (
+            <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+              <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">Purchase Orders</h3>
+                <div className="flex space-x-3">
+                  <select
+                    className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block sm:text-sm border border-gray-300 rounded-md py-2 px-3"
+                    value={statusFilter}
+                    onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+                  >
+                    <option value="open">Open orders</option>
+                    <option value="all">All orders</option>
+                    {(Object.keys(PURCHASE_ORDER_STATUS_LABELS) as PurchaseOrderStatus[]).map(status => (
+                      <option key={status} value={status}>{PURCHASE_ORDER_STATUS_LABELS[status]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    placeholder="Search orders..."
+                    className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border border-gray-300 rounded-md py-2 px-4"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                  />
+                  <button
+                    onClick={() => setShowForm(true)}
+                    className="inline-flex items-center whitespace-nowrap px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                    </svg>
+                    New Order
+                  </button>
+                </div>
+              </div>
+
+              {isLoading ? (
+                <div className="p-6 text-center">
+                  <i className="fas fa-spinner fa-spin mr-2"></i> Loading data...
+                </div>
+              ) : error ? (
+                <div className="p-6 text-center text-red-500">
+                  <i className="fas fa-exclamation-triangle mr-2"></i> Error loading data. Please try again.
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {filteredOrders.length > 0 ? (
+                        filteredOrders.map((order) => (
+                          <Fragment key={order.id}>
+                            <tr className="hover:bg-gray-50">
+                              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                                <button
+                                  onClick={() => setExpandedId(expandedId === order.id ? null : order.id)}
+                                  className="hover:text-blue-600"
+                                  aria-expanded={expandedId === order.id}
+                                >
+                                  {formatPurchaseOrderNumber(order.id)}
+                                </button>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{order.supplierName}</td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                <div>{formatDate(order.createdAt)}</div>
+                                <div className="text-xs text-gray-400">by {order.createdBy}</div>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(order.expectedDate)}</td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">${order.total.toFixed(2)}</td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusClasses[order.status]}`}>
+                                  {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                                </span>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                {order.status === 'draft' && (
+                                  <>
+                                    <button onClick={() => handleEditClick(order)} className="text-blue-600 hover:text-blue-900 mr-3">
+                                      Edit
+                                    </button>
+                                    <button
+                                      onClick={() => statusMutation.mutate({ order, action: 'send' })}
+                                      disabled={statusMutation.isPending}
+                                      className="text-green-600 hover:text-green-900 mr-3"
+                                    >
+                                      Send
+                                    </button>
+                                  </>
+                                )}
+                                {canTransition(order.status, 'closed') && (
+                                  <button
+                                    onClick={() => statusMutation.mutate({ order, action: 'close' })}
+                                    disabled={statusMutation.isPending}
+                                    className="text-gray-600 hover:text-gray-900 mr-3"
+                                    title="Nothing more is expected from the supplier"
+                                  >
+                                    Close
+                                  </button>
+                                )}
+                                {canTransition(order.status, 'cancelled') && (
+                                  <button
+                                    onClick={() => statusMutation.mutate({ order, action: 'cancel' })}
+                                    disabled={statusMutation.isPending}
+                                    className="text-red-600 hover:text-red-900 mr-3"
+                                  >
+                                    Cancel
+                                  </button>
+                                )}
+                                <button onClick={() => downloadPdf(order)} className="text-gray-600 hover:text-gray-900">
+                                  PDF
+                                </button>
+                              </td>
+                            </tr>
+                            {expandedId === order.id && (
+                              <tr className="bg-gray-50">
+                                <td colSpan={7} className="px-6 py-3">
+                                  <table className="min-w-full text-sm">
+                                    <thead>
+                                      <tr className="text-xs text-gray-500 uppercase">
+                                        <th className="text-left py-1">Item</th>
+                                        <th className="text-left py-1">Supplier SKU</th>
+                                        <th className="text-right py-1">Ordered</th>
+                                        <th className="text-right py-1">Received</th>
+                                        <th className="text-right py-1">Unit Cost</th>
+                                      </tr>
+                                    </thead>
+                                    <tbody>
+                                      {order.lines.map(line => (
+                                        <tr key={line.productId}>
+                                          <td className="py-1">{line.name}</td>
+                                          <td className="py-1 text-gray-500">{line.supplierSku || '-'}</td>
+                                          <td className="py-1 text-right">{line.quantity}</td>
+                                          <td className="py-1 text-right">{line.receivedQuantity}</td>
+                                          <td className="py-1 text-right">${line.unitCost.toFixed(2)}</td>
+                                        </tr>
+                                      ))}
+                                    </tbody>
+                                  </table>
+                                  {order.notes && <p className="mt-2 text-xs text-gray-500">Notes: {order.notes}</p>}
+                                  {(order.receipts || []).map(receipt => (
+                                    <p key={receipt.id} className="mt-1 text-xs text-gray-500">
+                                      Delivery {receipt.id}, {formatDate(receipt.date)} by {receipt.receivedBy}:{' '}
+                                      {receipt.lines.map(line => `${line.quantity} x ${line.name} @ $${line.unitCost.toFixed(2)}`).join(', ')}
+                                      {receipt.notes && ` (${receipt.notes})`}
+                                    </p>
+                                  ))}
+                                </td>
+                              </tr>
+                            )}
+                          </Fragment>
+                        ))
+                      ) : (
+                        <tr>
+                          <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                            {searchTerm || statusFilter !== 'all' ? 'No matching purchase orders found.' : 'No purchase orders yet.'}
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  );
+};
+
+export default PurchaseOrders;
@@ -0,0 +1,432 @@
+import { useEffect, useRef, useState } from "react";
+import Header from "@/components/Header";
+import BarcodeScanner from "@/components/BarcodeScanner";
+import LocationSelect from "@/components/LocationSelect";
+import { useAppContext } from "@/context/AppContext";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, lineErrorsByProduct } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import { PURCHASE_ORDER_STATUS_LABELS, formatPurchaseOrderNumber } from "@shared/purchaseOrders";
+import { resolveBarcode } from "@shared/barcodes";
+import { DEFAULT_LOCATION_ID } from "@shared/locations";
+import type { GoodsReceiptRequest, ItemBarcode, PurchaseOrder } from "@shared/schema";
+
+// Define types for inventory data
+interface InventoryItem {
+  id: number;
+  name: string;
+  sku: string;
+  unit: string;
+  barcode?: string;
+  barcodes?: ItemBarcode[];
+}
+
+// What has been counted off the delivery for one order line
+interface CountedLine {
+  quantity: string;
+  unitCost: string;
+  lotNumber?: string;
+  expiryDate?: string;
+}
+
+const formatDate = (value?: string) => value
+  ? new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'short', day: 'numeric' }).format(new Date(value))
+  : '-';
+
+const Receiving: React.FC = () => {
+  const { currentPage } = useAppContext();
+  const [orderId, setOrderId] = useState<number | null>(null);
+  const [counted, setCounted] = useState<Record<number, CountedLine>>({});
+  const [barcode, setBarcode] = useState("");
+  const [scannerActive, setScannerActive] = useState(false);
+  const [acceptOverage, setAcceptOverage] = useState(false);
+  const [closeShort, setCloseShort] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [locationId, setLocationId] = useState<number>(DEFAULT_LOCATION_ID);
+  const [lineErrors, setLineErrors] = useState<Record<number, string>>({});
+  const barcodeInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const showError = useErrorToast();
+
+  // Orders that have been sent and are waiting for (the rest of) their delivery
+  const { data: orders, isLoading, error } = useQuery({
+    queryKey: ['/api/purchase-orders/receivable'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/purchase-orders/receivable');
+      return await response.json() as PurchaseOrder[];
+    }
+  });
+
+  // Inventory, to match scanned barcodes to products
+  const { data: inventoryItems } = useQuery({
+    queryKey: ['/api/inventory'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/inventory');
+      return await response.json() as InventoryItem[];
+    }
+  });
+
+  const order = orders?.find(entry => entry.id === orderId) || null;
+
+  // Start a fresh count whenever a different delivery is opened
+  useEffect(() => {
+    if (order) {
+      setCounted(Object.fromEntries(order.lines.map(line => [line.productId, { quantity: '', unitCost: String(line.unitCost) }])));
+      setAcceptOverage(false);
+      setCloseShort(false);
+      setNotes('');
+      setLineErrors({});
+      barcodeInputRef.current?.focus();
+    }
+  }, [order?.id]);
+
+  const updateCount = (productId: number, update: Partial<CountedLine>) => {
+    setCounted(current => ({ ...current, [productId]: { ...current[productId], ...update } }));
+    setLineErrors(current => {
+      const { [productId]: _removed, ...rest } = current;
+      return rest;
+    });
+  };
+
+  // Each scan counts one more unit of the scanned item, or a whole case for a case barcode
+  const handleBarcodeScan = (value: string) => {
+    const code = value.trim();
+    if (!order || !code) return;
+
+    const match = resolveBarcode(inventoryItems || [], code);
+    const item = match?.item;
+    const line = item && order.lines.find(entry => entry.productId === item.id);
+    if (!item || !line) {
+      toast({
+        title: "Not on this order",
+        description: item
+          ? `${item.name} is not on ${formatPurchaseOrderNumber(order.id)}`
+          : `No product matches barcode ${code}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const current = parseFloat(counted[item.id]?.quantity) || 0;
+    updateCount(item.id, { quantity: String(current + match!.packQuantity) });
+  };
+
+  const receiveMutation = useMutation({
+    mutationFn: async (receipt: GoodsReceiptRequest) => {
+      const response = await apiRequest({ url: `/api/purchase-orders/${orderId}/receive`, method: 'POST', data: receipt });
+      return await response.json() as PurchaseOrder;
+    },
+    onSuccess: (updatedOrder) => {
+      toast({
+        title: "Delivery received",
+        description: `${formatPurchaseOrderNumber(updatedOrder.id)} is now ${PURCHASE_ORDER_STATUS_LABELS[updatedOrder.status].toLowerCase()}. Stock and costs have been updated.`,
+      });
+      setOrderId(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders/receivable'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+    },
+    onError: (error) => {
+      const lineErrors = lineErrorsByProduct(error);
+      if (lineErrors) {
+        setLineErrors(lineErrors);
+      }
+      showError(error, "Failed to receive delivery");
+    }
+  });
+
+  const rows = order ? order.lines.map(line => {
+    const count = counted[line.productId] || { quantity: '', unitCost: String(line.unitCost) };
+    const quantity = parseFloat(count.quantity) || 0;
+    const outstanding = Math.max(0, line.quantity - line.receivedQuantity);
+    return { line, count, quantity, outstanding, difference: quantity - outstanding };
+  }) : [];
+
+  const receivedLines = rows.filter(row => row.quantity > 0);
+  const hasOverage = rows.some(row => row.difference > 0);
+  const hasShortfall = rows.some(row => row.difference < 0);
+
+  const handleSubmit = () => {
+    if (receivedLines.length === 0) {
+      showError(null, "Count at least one item");
+      return;
+    }
+
+    receiveMutation.mutate({
+      lines: receivedLines.map(row => ({
+        productId: row.line.productId,
+        quantity: row.quantity,
+        unitCost: parseFloat(row.count.unitCost) || 0,
+        lotNumber: row.count.lotNumber?.trim() || undefined,
+        expiryDate: row.count.expiryDate || undefined
+      })),
+      acceptOverage: hasOverage && acceptOverage,
+      closeShort: hasShortfall && closeShort,
+      notes: notes.trim() || undefined,
+      locationId
+    });
+  };
+
+  const unitOf = (productId: number) => inventoryItems?.find(item => item.id === productId)?.unit || '';
+
+  return (
+    <>
+      <Header title={currentPage} />
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="space-y-6">
+          {!order ? (
+            <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+              <div className="px-4 py-5 sm:px-6">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">Receive a Delivery</h3>
+                <p className="mt-1 max-w-2xl text-sm text-gray-500">
+                  Choose the purchase order the delivery is for
+                </p>
+              </div>
+
+              {isLoading ? (
+                <div className="p-6 text-center">
+                  <i className="fas fa-spinner fa-spin mr-2"></i> Loading data...
+                </div>
+              ) : error ? (
+                <div className="p-6 text-center text-red-500">
+                  <i className="fas fa-exclamation-triangle mr-2"></i> Error loading data. Please try again.
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lines</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {(orders || []).length > 0 ? (
+                        orders!.map(entry => (
+                          <tr key={entry.id} className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{formatPurchaseOrderNumber(entry.id)}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{entry.supplierName}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(entry.expectedDate)}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{entry.lines.length}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{PURCHASE_ORDER_STATUS_LABELS[entry.status]}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              <button
+                                onClick={() => setOrderId(entry.id)}
+                                className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-sm"
+                              >
+                                Receive
+                              </button>
+                            </td>
+                          </tr>
+                        ))
+                      ) : (
+                        <tr>
+                          <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                            No deliveries are expected.
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="bg-white shadow overflow-hidden sm:rounded-lg p-6 space-y-6">
+              <div className="flex justify-between items-center">
+                <div>
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">
+                    Receiving {formatPurchaseOrderNumber(order.id)} from {order.supplierName}
+                  </h3>
+                  <p className="mt-1 text-sm text-gray-500">Scan each item as it comes off the delivery, or enter the counts below.</p>
+                </div>
+                <button onClick={() => setOrderId(null)} className="text-sm text-gray-600 hover:text-gray-900">
+                  Back to deliveries
+                </button>
+              </div>
+
+              <div>
+                <div className="flex gap-2">
+                  <input
+                    ref={barcodeInputRef}
+                    type="text"
+                    placeholder="Scan or type a barcode and press Enter"
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    value={barcode}
+                    onChange={(e) => setBarcode(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleBarcodeScan(barcode);
+                        setBarcode("");
+                      }
+                    }}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setScannerActive(!scannerActive)}
+                    className="whitespace-nowrap px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    {scannerActive ? 'Disable Camera' : 'Use Camera'}
+                  </button>
+                </div>
+                {scannerActive && (
+                  <div className="mt-4">
+                    <BarcodeScanner
+                      onScan={handleBarcodeScan}
+                      isActive={scannerActive}
+                      onError={(error) => console.error('Barcode scan error:', error)}
+                      onClose={() => setScannerActive(false)}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 rounded-md">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                      <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ordered</th>
+                      <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Already Received</th>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received Now</th>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Unit Cost ($)</th>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lot / Expiry</th>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Check</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {rows.map(({ line, count, quantity, outstanding, difference }) => (
+                      <tr key={line.productId} className={lineErrors[line.productId] ? "bg-red-50" : ""}>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="font-medium text-gray-900">{line.name}</div>
+                          {line.supplierSku && <div className="text-xs text-gray-400">{line.supplierSku}</div>}
+                          {lineErrors[line.productId] && <div className="text-xs text-red-600">{lineErrors[line.productId]}</div>}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-500">{line.quantity} {unitOf(line.productId)}</td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-500">{line.receivedQuantity}</td>
+                        <td className="px-4 py-3 text-sm">
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            className="w-24 rounded-md border border-gray-300 px-2 py-1"
+                            aria-label={`Quantity of ${line.name} received`}
+                            value={count.quantity}
+                            onChange={(e) => updateCount(line.productId, { quantity: e.target.value })}
+                          />
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            className="w-24 rounded-md border border-gray-300 px-2 py-1"
+                            aria-label={`Unit cost of ${line.name}`}
+                            value={count.unitCost}
+                            onChange={(e) => updateCount(line.productId, { unitCost: e.target.value })}
+                          />
+                          {parseFloat(count.unitCost) !== line.unitCost && (
+                            <div className="text-xs text-gray-400">Ordered at ${line.unitCost.toFixed(2)}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm space-y-1">
+                          <input
+                            type="text"
+                            maxLength={64}
+                            placeholder="Lot number"
+                            className="w-32 rounded-md border border-gray-300 px-2 py-1 block"
+                            aria-label={`Lot number of ${line.name}`}
+                            value={count.lotNumber || ''}
+                            onChange={(e) => updateCount(line.productId, { lotNumber: e.target.value })}
+                          />
+                          <input
+                            type="date"
+                            className="w-32 rounded-md border border-gray-300 px-2 py-1 block"
+                            aria-label={`Expiry date of ${line.name}`}
+                            value={count.expiryDate || ''}
+                            onChange={(e) => updateCount(line.productId, { expiryDate: e.target.value })}
+                          />
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {quantity === 0 ? (
+                            <span className="text-gray-400">{outstanding > 0 ? `${outstanding} due` : 'Complete'}</span>
+                          ) : difference > 0 ? (
+                            <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800">{difference} over</span>
+                          ) : difference < 0 ? (
+                            <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">{-difference} short</span>
+                          ) : (
+                            <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">Matches</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="space-y-2">
+                {hasOverage && (
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input type="checkbox" className="mr-2" checked={acceptOverage} onChange={(e) => setAcceptOverage(e.target.checked)} />
+                    Accept the items delivered over the ordered quantity
+                  </label>
+                )}
+                {hasShortfall && (
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input type="checkbox" className="mr-2" checked={closeShort} onChange={(e) => setCloseShort(e.target.checked)} />
+                    Nothing more is coming - close the order short
+                  </label>
+                )}
+              </div>
+
+              <div className="flex items-center gap-3">
+                <label htmlFor="receivingLocation" className="text-sm font-medium text-gray-700">Receive into</label>
+                <LocationSelect id="receivingLocation" value={locationId} onChange={(value) => setLocationId(value ?? DEFAULT_LOCATION_ID)} />
+              </div>
+
+              <div>
+                <label htmlFor="receivingNotes" className="block text-sm font-medium text-gray-700 mb-1">Notes (optional)</label>
+                <input
+                  id="receivingNotes"
+                  type="text"
+                  maxLength={500}
+                  placeholder="e.g. Two cases damaged in transit"
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={() => setOrderId(null)}
+                  className="mr-3 px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSubmit}
+                  disabled={receiveMutation.isPending || receivedLines.length === 0 || (hasOverage && !acceptOverage)}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {receiveMutation.isPending ? "Receiving..." : "Receive into Stock"}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  );
+};
+
+export default Receiving;
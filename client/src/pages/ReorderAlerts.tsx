@@ -1,53 +1,140 @@
 import { useState } from "react";
 import Header from "@/components/Header";
 import { useAppContext } from "@/context/AppContext";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import ExpiringLotsAlerts from "@/components/ExpiringLotsAlerts";
+import { formatPurchaseOrderNumber } from "@shared/purchaseOrders";
+import type { PurchaseOrder } from "@shared/schema";
 
-// Define type for inventory item
-interface InventoryItem {
-  id: number;
+// Reorder suggestion for one item, as returned by the server
+interface ReorderSuggestion {
+  productId: number;
   name: string;
   sku: string;
   category: string;
-  stock: number;
   unit: string;
-  price: number;
-  priceUnit: string;
+  stock: number;
   threshold: number;
-  status: string;
+  velocity: number;
+  daysOfCover: number | null;
+  leadTimeDays: number;
+  supplierId?: number;
+  supplierName?: string;
+  packSize?: number;
+  onOrder: number;
+  reorderPoint: number;
+  suggestedQuantity: number;
+  belowThreshold: boolean;
+  needsReorder: boolean;
+}
+
+interface ReorderSuggestionsResponse {
+  velocityDays: number;
+  safetyDays: number;
+  coverDays: number;
+  suggestions: ReorderSuggestion[];
 }
 
 const ReorderAlerts: React.FC = () => {
   const { currentPage } = useAppContext();
-  const [filter, setFilter] = useState<string>("all"); // "all", "critical", "warning"
-  
-  // Fetch low stock items
-  const { data: lowStockItems, isLoading, error } = useQuery({
-    queryKey: ['/api/alerts/low-stock'],
+  const [filter, setFilter] = useState<string>("all"); // "all", "critical", "projected", "everything"
+  const { toast } = useToast();
+  const showError = useErrorToast();
+
+  // Only managers can order stock or change thresholds; stockers see the alerts without the buttons
+  const [canOrder] = useState(() => {
+    try {
+      const role = JSON.parse(sessionStorage.getItem("user") || "{}").role;
+      return role === "Administrator" || role === "Manager";
+    } catch {
+      return false;
+    }
+  });
+
+  // Fetch reorder suggestions
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['/api/alerts/reorder-suggestions'],
     queryFn: async () => {
-      const response = await apiRequest('/api/alerts/low-stock');
+      const response = await apiRequest('/api/alerts/reorder-suggestions');
       if (response && response instanceof Response) {
-        return await response.json() as InventoryItem[];
+        return await response.json() as ReorderSuggestionsResponse;
       }
-      return [] as InventoryItem[];
+      return null;
     }
   });
 
-  // Apply filter to low stock items
-  const filteredItems = lowStockItems?.filter(item => {
-    if (filter === "all") return true;
-    if (filter === "critical") return item.status === "Low Stock";
-    if (filter === "warning") return item.status === "Warning";
-    return true;
+  // Apply filter to suggestions
+  const filteredItems = data?.suggestions.filter(item => {
+    if (filter === "everything") return true;
+    if (filter === "critical") return item.belowThreshold;
+    if (filter === "projected") return item.needsReorder && !item.belowThreshold;
+    return item.needsReorder;
   });
 
-  // Handle reorder action
-  const handleReorder = (item: InventoryItem) => {
-    // In a real app, this would initiate a purchase order
-    alert(`Initiated reorder for ${item.name}`);
+  // Items whose threshold differs from the suggested reorder point
+  const thresholdChanges = filteredItems?.filter(item => item.velocity > 0 && item.reorderPoint !== item.threshold) || [];
+
+  // Add the suggested quantity to the supplier's draft purchase order
+  const reorderMutation = useMutation({
+    mutationFn: async (item: ReorderSuggestion) => {
+      const quantity = Math.max(1, item.suggestedQuantity);
+      const response = await apiRequest({
+        url: '/api/purchase-orders/draft-lines',
+        method: 'POST',
+        data: {
+          productId: item.productId,
+          quantity,
+          ...(item.supplierId ? { supplierId: item.supplierId } : {})
+        }
+      });
+      return { item, quantity, ...(await response.json() as { order: PurchaseOrder; created: boolean }) };
+    },
+    onSuccess: ({ item, quantity, order, created }) => {
+      toast({
+        title: created ? "Draft purchase order created" : "Added to draft purchase order",
+        description: `${quantity} ${item.unit} of ${item.name} on ${formatPurchaseOrderNumber(order.id)} for ${order.supplierName}. Review and send it from Purchase Orders.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/alerts/reorder-suggestions'] });
+    },
+    onError: (error) => showError(error, "Failed to reorder item")
+  });
+
+  // Set thresholds to the suggested reorder points
+  const thresholdMutation = useMutation({
+    mutationFn: async (productIds: number[]) => {
+      const response = await apiRequest({ url: '/api/alerts/reorder-suggestions/thresholds', method: 'POST', data: { productIds } });
+      return await response.json() as {
+        updated: { productId: number; name: string; previousThreshold: number; threshold: number }[];
+      };
+    },
+    onSuccess: ({ updated }) => {
+      toast({
+        title: "Thresholds updated",
+        description: updated.length === 1
+          ? `${updated[0].name} threshold changed from ${updated[0].previousThreshold} to ${updated[0].threshold}.`
+          : `${updated.length} thresholds set to their suggested reorder points.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/alerts/reorder-suggestions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/alerts/low-stock'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+    },
+    onError: (error) => showError(error, "Failed to update thresholds")
+  });
+
+  const handleReorder = (item: ReorderSuggestion) => {
+    reorderMutation.mutate(item);
+  };
+
+  const formatCover = (item: ReorderSuggestion) => {
+    if (item.daysOfCover === null) return "Not selling";
+    return `${item.daysOfCover} days`;
   };
-  
+
   return (
     <>
       <Header title={currentPage} />
@@ -58,22 +145,34 @@ const ReorderAlerts: React.FC = () => {
               <div>
                 <h3 className="text-lg leading-6 font-medium text-gray-900">Reorder Alerts</h3>
                 <p className="mt-1 max-w-2xl text-sm text-gray-500">
-                  Items that need reordering based on inventory thresholds
+                  {data
+                    ? `Based on sales over the last ${data.velocityDays} days, supplier lead times plus ${data.safetyDays} days of safety stock, and orders covering ${data.coverDays} days`
+                    : "Items that need reordering based on sales velocity and inventory thresholds"}
                 </p>
               </div>
               <div className="flex space-x-3">
+                {canOrder && thresholdChanges.length > 0 && (
+                  <button
+                    onClick={() => thresholdMutation.mutate(thresholdChanges.map(item => item.productId))}
+                    disabled={thresholdMutation.isPending}
+                    className="mt-1 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-3 py-2 rounded-md text-sm disabled:opacity-50"
+                  >
+                    Update {thresholdChanges.length} Threshold{thresholdChanges.length === 1 ? "" : "s"}
+                  </button>
+                )}
                 <select
                   value={filter}
                   onChange={(e) => setFilter(e.target.value)}
                   className="mt-1 block pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
                 >
                   <option value="all">All Alerts</option>
-                  <option value="critical">Critical (Low Stock)</option>
-                  <option value="warning">Warning</option>
+                  <option value="critical">Critical (Below Threshold)</option>
+                  <option value="projected">Projected (Running Out)</option>
+                  <option value="everything">All Items</option>
                 </select>
               </div>
             </div>
-            
+
             {isLoading ? (
               <div className="p-6 text-center">
                 <i className="fas fa-spinner fa-spin mr-2"></i> Loading alerts...
@@ -88,45 +187,88 @@ const ReorderAlerts: React.FC = () => {
                   <thead className="bg-gray-50">
                     <tr>
                       <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
-                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
-                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Current Stock</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stock</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sales / Day</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cover</th>
                       <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Threshold</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Suggested Order</th>
                       <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                       <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
                     {filteredItems.map((item) => (
-                      <tr key={item.id} className="hover:bg-gray-50">
+                      <tr key={item.productId} className="hover:bg-gray-50">
                         <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="flex items-center">
-                            <div>
-                              <div className="text-sm font-medium text-gray-900">{item.name}</div>
-                              <div className="text-sm text-gray-500">{item.sku}</div>
-                            </div>
-                          </div>
+                          <div className="text-sm font-medium text-gray-900">{item.name}</div>
+                          <div className="text-sm text-gray-500">{item.sku} · {item.category}</div>
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{item.category}</td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="text-sm text-gray-900">{item.stock} {item.unit}</div>
+                          {item.onOrder > 0 && (
+                            <div className="text-xs text-gray-500">{item.onOrder} on order</div>
+                          )}
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{item.threshold} {item.unit}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{item.velocity}</td>
                         <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                            item.status === 'Low Stock' 
-                              ? 'bg-red-100 text-red-800' 
-                              : 'bg-yellow-100 text-yellow-800'
+                          <div className={`text-sm ${
+                            item.daysOfCover !== null && item.daysOfCover <= item.leadTimeDays ? 'text-red-600 font-medium' : 'text-gray-900'
                           }`}>
-                            {item.status}
-                          </span>
+                            {formatCover(item)}
+                          </div>
+                          <div className="text-xs text-gray-500">{item.leadTimeDays} day lead time</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm text-gray-900">{item.threshold} {item.unit}</div>
+                          {item.velocity > 0 && item.reorderPoint !== item.threshold && (
+                            <div className="text-xs text-gray-500">
+                              Suggested {item.reorderPoint}
+                              {canOrder && (
+                                <button
+                                  onClick={() => thresholdMutation.mutate([item.productId])}
+                                  disabled={thresholdMutation.isPending}
+                                  className="ml-2 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                                >
+                                  Apply
+                                </button>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm text-gray-900">
+                            {item.suggestedQuantity > 0 ? `${item.suggestedQuantity} ${item.unit}` : "—"}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {item.supplierName || "No supplier"}
+                            {item.packSize ? ` · packs of ${item.packSize}` : ""}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          {item.belowThreshold ? (
+                            <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                              Below Threshold
+                            </span>
+                          ) : item.needsReorder ? (
+                            <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                              Running Out
+                            </span>
+                          ) : (
+                            <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                              OK
+                            </span>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          <button 
-                            onClick={() => handleReorder(item)}
-                            className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-sm"
-                          >
-                            Reorder
-                          </button>
+                          {canOrder && item.supplierId && item.suggestedQuantity > 0 && (
+                            <button
+                              onClick={() => handleReorder(item)}
+                              disabled={reorderMutation.isPending && reorderMutation.variables?.productId === item.productId}
+                              className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-sm disabled:opacity-50"
+                            >
+                              Order {item.suggestedQuantity}
+                            </button>
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -135,12 +277,16 @@ const ReorderAlerts: React.FC = () => {
               </div>
             ) : (
               <div className="text-center p-6 text-gray-500">
-                {filter !== "all" 
-                  ? `No ${filter === "critical" ? "critical" : "warning"} alerts found.` 
-                  : "No items need reordering at this time."}
+                {filter === "critical"
+                  ? "No items are below their threshold."
+                  : filter === "projected"
+                    ? "No items are projected to run out."
+                    : "No items need reordering at this time."}
               </div>
             )}
           </div>
+
+          <ExpiringLotsAlerts canWriteOff={canOrder} />
         </div>
       </main>
     </>
@@ -4,10 +4,15 @@ import AnalyticsInsights from "@/components/AnalyticsInsights";
 import LossReportsInsights from "@/components/LossReportsInsights";
 import ProfitReportsInsights from "@/components/ProfitReportsInsights";
 import RefundReportsInsights from "@/components/RefundReportsInsights";
+import ReportGenerator from "@/components/ReportGenerator";
+import LocationSelect from "@/components/LocationSelect";
+import { useCategories } from "@/components/CategoryOptions";
 import { Card } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { getAuthHeaders } from "@/lib/queryClient";
+import { atLocation, locationOf } from "@shared/locations";
 import { 
   SalesTrendChart, 
   InventoryLevelsChart, 
@@ -30,21 +35,26 @@ const Reports: React.FC = () => {
   const { currentPage } = useAppContext();
   const [activeTab, setActiveTab] = useState("analytics");
 
+  const [locationId, setLocationId] = useState<number | undefined>(undefined);
+  // Category breakdown by top-level category, or by every category and subcategory
+  const [categoryLevels, setCategoryLevels] = useState<"top" | "all">("top");
+  const { data: categories } = useCategories();
+
   // Fetch sales data
-  const { data: salesData, isLoading: salesLoading } = useQuery({
+  const { data: allSales, isLoading: salesLoading } = useQuery({
     queryKey: ['/api/sales'],
     queryFn: async () => {
-      const response = await fetch('/api/sales');
+      const response = await fetch('/api/sales', { headers: getAuthHeaders() });
       if (!response.ok) throw new Error('Failed to fetch sales data');
       return response.json();
     },
   });
 
   // Fetch inventory data
-  const { data: inventoryData, isLoading: inventoryLoading } = useQuery({
+  const { data: allInventory, isLoading: inventoryLoading } = useQuery({
     queryKey: ['/api/inventory'],
     queryFn: async () => {
-      const response = await fetch('/api/inventory');
+      const response = await fetch('/api/inventory', { headers: getAuthHeaders() });
       if (!response.ok) throw new Error('Failed to fetch inventory data');
       return response.json();
     },
@@ -52,31 +62,36 @@ const Reports: React.FC = () => {
 
   // Fetch low stock items
   const { data: lowStockData, isLoading: lowStockLoading } = useQuery({
-    queryKey: ['/api/alerts/low-stock'],
+    queryKey: ['/api/alerts/low-stock', locationId],
     queryFn: async () => {
-      const response = await fetch('/api/alerts/low-stock');
+      const response = await fetch(`/api/alerts/low-stock${locationId !== undefined ? `?locationId=${locationId}` : ''}`, { headers: getAuthHeaders() });
       if (!response.ok) throw new Error('Failed to fetch low stock data');
       return response.json();
     },
   });
 
   // Fetch loss data
-  const { data: lossData, isLoading: lossLoading } = useQuery({
+  const { data: allLosses, isLoading: lossLoading } = useQuery({
     queryKey: ['/api/losses'],
     queryFn: async () => {
-      const response = await fetch('/api/losses');
+      const response = await fetch('/api/losses', { headers: getAuthHeaders() });
       if (!response.ok) throw new Error('Failed to fetch loss data');
       return response.json();
     },
   });
 
+  // Filtered to a location: its sales and losses, and the stock held there
+  const salesData = locationId === undefined ? allSales : allSales?.filter((sale: { locationId?: number }) => locationOf(sale) === locationId);
+  const inventoryData = locationId === undefined ? allInventory : allInventory?.map((item: { stock: number }) => atLocation(item, locationId));
+  const lossData = locationId === undefined ? allLosses : allLosses?.filter((loss: { locationId?: number }) => locationOf(loss) === locationId);
+
   // Transform data for charts
   const salesChartData = salesData ? transformSalesData(salesData) : [];
   const inventoryChartData = inventoryData ? transformInventoryData(inventoryData) : [];
   const productSalesData = salesData ? transformProductSalesData(salesData) : [];
   const lossChartData = lossData ? transformLossData(lossData) : [];
   const cashierData = salesData ? transformCashierData(salesData) : [];
-  const categoryData = inventoryData ? transformCategoryData(inventoryData) : [];
+  const categoryData = inventoryData ? transformCategoryData(inventoryData, categories, categoryLevels === "top") : [];
   
   return (
     <>
@@ -84,6 +99,9 @@ const Reports: React.FC = () => {
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         <div className="space-y-6">
           <div className="bg-white shadow overflow-hidden sm:rounded-lg p-6">
+            <div className="flex justify-end mb-4">
+              <LocationSelect value={locationId} onChange={setLocationId} allowAll includeInactive />
+            </div>
             <Tabs
               defaultValue={activeTab}
               onValueChange={(value) => setActiveTab(value)}
@@ -169,6 +187,26 @@ const Reports: React.FC = () => {
                         />
                       )}
                     </div>
+                    
+                    {/* Tax Collected Report */}
+                    <div className="lg:col-span-2 border border-gray-200 rounded-lg p-4">
+                      <ReportGenerator 
+                        reportType="tax"
+                        reportName="Tax Collected Report"
+                        endpoint="/api/reports/tax-summary"
+                        description="Sales tax collected on completed sales, broken down by category and tax rate"
+                      />
+                    </div>
+                    
+                    {/* End of Day Tender Report */}
+                    <div className="lg:col-span-2 border border-gray-200 rounded-lg p-4">
+                      <ReportGenerator 
+                        reportType="tenders"
+                        reportName="End of Day Tender Report"
+                        endpoint="/api/reports/tender-summary"
+                        description="Today's takings by cash, card, gift card and store credit, with cash net of change given"
+                      />
+                    </div>
                   </div>
                 </Card>
               </TabsContent>
@@ -195,6 +233,17 @@ const Reports: React.FC = () => {
                     
                     {/* Category Breakdown Chart */}
                     <div>
+                      <div className="flex justify-end mb-2">
+                        <select
+                          aria-label="Category levels"
+                          value={categoryLevels}
+                          onChange={(e) => setCategoryLevels(e.target.value as "top" | "all")}
+                          className="block pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                        >
+                          <option value="top">Top-level categories</option>
+                          <option value="all">All categories and subcategories</option>
+                        </select>
+                      </div>
                       {inventoryLoading ? (
                         <div className="h-80 flex items-center justify-center">
                           <p>Loading category data...</p>
@@ -203,7 +252,9 @@ const Reports: React.FC = () => {
                         <CategoryBreakdownChart 
                           data={categoryData} 
                           title="Category Breakdown" 
-                          description="Inventory distribution across product categories"
+                          description={categoryLevels === "top"
+                            ? "Inventory distribution across product categories, subcategories included"
+                            : "Inventory distribution across every category; parents include their subcategories"}
                         />
                       )}
                     </div>
@@ -266,6 +317,16 @@ const Reports: React.FC = () => {
                         isLoading={lossLoading || inventoryLoading}
                       />
                     </div>
+                    
+                    {/* Stock Count Variance Report */}
+                    <div className="lg:col-span-2 border border-gray-200 rounded-lg p-4">
+                      <ReportGenerator 
+                        reportType="count-variance"
+                        reportName="Stock Count Variance Report"
+                        endpoint="/api/reports/count-variance"
+                        description="Differences between expected and counted stock from posted stock counts, largest value first"
+                      />
+                    </div>
                   </div>
                 </Card>
               </TabsContent>
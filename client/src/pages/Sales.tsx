@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -32,7 +32,12 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Search, CreditCard, ReceiptText, X as CloseIcon, Printer } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import RefundDialog, { type SaleReturn } from "@/components/RefundDialog";
+import { generateRefundReceiptPdf, type StoreSettings } from "@/utils/pdfGenerator";
+import { saveAs } from "file-saver";
+import { TENDER_LABELS } from "@shared/tenders";
+import { REFUND_REASON_LABELS } from "@shared/refunds";
+import type { Tender } from "@shared/schema";
 
 // Sale type definition
 interface SaleItem {
@@ -42,6 +47,9 @@ interface SaleItem {
   price: number;
   unit: string;
   subtotal: number;
+  discounts?: { source: string; description: string; amount: number }[];
+  discount?: number;
+  tax?: number;
 }
 
 interface Sale {
@@ -49,10 +57,20 @@ interface Sale {
   cashier: string;
   date: string;
   amount: number;
+  subtotal?: number;
+  discount?: number;
+  cartDiscount?: { source: string; description: string; amount: number };
+  tax?: number;
+  tenders?: Tender[];
+  change?: number;
   status: string;
   items: SaleItem[];
+  returns?: SaleReturn[];
+  refundedAmount?: number;
   refundedBy?: string;
   refundDate?: string;
+  provisionalId?: string;      // Receipt number printed when it was rung up offline
+  reviewNotes?: string[];
 }
 
 // Search form schema
@@ -134,61 +152,67 @@ const Sales: React.FC = () => {
       price: item.price,
       quantity: item.quantity,
       unit: item.unit,
-      subtotal: item.subtotal
+      subtotal: item.subtotal,
+      discounts: item.discounts
     }));
   };
   
-  // Dialog state for refund confirmation
-  const [refundConfirmOpen, setRefundConfirmOpen] = useState(false);
+  // Sale being returned against in the refund dialog
   const [saleToRefund, setSaleToRefund] = useState<Sale | null>(null);
   
   // Toast notifications
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
-  // Mutation for refund processing
-  const refundMutation = useMutation({
-    mutationFn: async (saleId: string) => {
-      return apiRequest({
-        url: `/api/sales/${saleId}/refund`,
-        method: 'POST',
-        data: {}
-      });
-    },
-    onSuccess: () => {
-      toast({
-        title: "Refund Successful",
-        description: "The transaction has been refunded and inventory has been updated.",
-        variant: "default",
-      });
-      
-      // Close the dialog
-      setRefundConfirmOpen(false);
-      
-      // Refresh the sales data
-      queryClient.invalidateQueries({ queryKey: ['/api/sales'] });
-    },
-    onError: (error) => {
-      toast({
-        title: "Refund Failed",
-        description: "There was an error processing the refund. Please try again.",
-        variant: "destructive",
-      });
-      console.error("Refund error:", error);
-    }
+  // Store details for refund receipts
+  const { data: storeSettings } = useQuery<StoreSettings>({
+    queryKey: ['/api/settings'],
   });
   
-  // Handle refund button click - opens confirmation dialog
+  // Download the refund receipt for one return against a sale
+  const downloadRefundReceipt = (sale: Sale, saleReturn: SaleReturn) => {
+    const pdfBlob = generateRefundReceiptPdf({
+      transactionId: sale.id,
+      returnId: saleReturn.id,
+      date: formatDate(saleReturn.date),
+      processedBy: saleReturn.processedBy,
+      reason: REFUND_REASON_LABELS[saleReturn.reason],
+      notes: saleReturn.notes,
+      lines: saleReturn.lines.map(line => ({
+        ...line,
+        unit: sale.items.find(item => item.productId === line.productId)?.unit
+      })),
+      tax: saleReturn.tax,
+      total: saleReturn.amount,
+      tender: TENDER_LABELS[saleReturn.tender],
+      storeSettings
+    });
+    saveAs(pdfBlob, `Refund_${sale.id}_${saleReturn.id}.pdf`);
+  };
+  
+  // Handle refund button click - opens the refund dialog
   const handleRefund = (sale: Sale) => {
     setSaleToRefund(sale);
-    setRefundConfirmOpen(true);
   };
   
-  // Process the refund when confirmed
-  const confirmRefund = () => {
-    if (saleToRefund) {
-      refundMutation.mutate(saleToRefund.id);
+  // Refund recorded: refresh everything it touched and hand over the receipt
+  const handleRefunded = (sale: Sale, saleReturn: SaleReturn) => {
+    toast({
+      title: sale.status === 'Refunded' ? "Refund Successful" : "Items Returned",
+      description: `$${saleReturn.amount.toFixed(2)} refunded to ${TENDER_LABELS[saleReturn.tender]}.`,
+      variant: "default",
+    });
+    setSaleToRefund(null);
+    if (selectedSale?.id === sale.id) {
+      setSelectedSale(sale);
     }
+    
+    queryClient.invalidateQueries({ queryKey: ['/api/sales'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/losses'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+    
+    downloadRefundReceipt(sale, saleReturn);
   };
   
   return (
@@ -260,6 +284,7 @@ const Sales: React.FC = () => {
                         <TableHead>Date</TableHead>
                         <TableHead>Cashier</TableHead>
                         <TableHead>Amount</TableHead>
+                        <TableHead>Payment</TableHead>
                         <TableHead>Status</TableHead>
                         <TableHead className="text-right">Actions</TableHead>
                       </TableRow>
@@ -267,10 +292,20 @@ const Sales: React.FC = () => {
                     <TableBody>
                       {paginatedSales.map((sale: Sale) => (
                         <TableRow key={sale.id}>
-                          <TableCell className="font-medium">{sale.id}</TableCell>
+                          <TableCell className="font-medium">
+                            {sale.id}
+                            {sale.reviewNotes?.length ? (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-800">To review</span>
+                            ) : null}
+                          </TableCell>
                           <TableCell>{formatDate(sale.date)}</TableCell>
                           <TableCell>{sale.cashier}</TableCell>
                           <TableCell>${sale.amount.toFixed(2)}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {sale.tenders?.length
+                              ? Array.from(new Set(sale.tenders.map(tender => TENDER_LABELS[tender.type]))).join(" + ")
+                              : "—"}
+                          </TableCell>
                           <TableCell>
                             <span className={`px-2 py-1 rounded-full text-xs ${
                               sale.status.toLowerCase() === 'completed' 
@@ -383,7 +418,12 @@ const Sales: React.FC = () => {
           isOpen={showReceiptModal}
           onClose={() => setShowReceiptModal(false)}
           cart={saleItemsToCartItems(selectedSale.items)}
+          cartSubtotal={selectedSale.subtotal ?? selectedSale.amount}
+          cartDiscount={selectedSale.cartDiscount}
+          cartTax={selectedSale.tax ?? 0}
           cartTotal={selectedSale.amount}
+          tenders={selectedSale.tenders}
+          change={selectedSale.change}
           cashier={selectedSale.cashier}
           transactionId={selectedSale.id}
         />
@@ -429,6 +469,20 @@ const Sales: React.FC = () => {
                   <div className="font-medium">{selectedSale.refundedBy} on {formatDate(selectedSale.refundDate)}</div>
                 </div>
               )}
+              {selectedSale.provisionalId && (
+                <div className="flex justify-between items-center mt-2">
+                  <div className="text-sm text-muted-foreground">Rung up offline as:</div>
+                  <div className="font-medium">{selectedSale.provisionalId}</div>
+                </div>
+              )}
+              {selectedSale.reviewNotes?.length ? (
+                <div className="mt-3 rounded-md border border-amber-200 bg-amber-50 p-2 text-sm text-amber-800">
+                  <div className="font-medium">To review</div>
+                  <ul className="list-disc pl-5">
+                    {selectedSale.reviewNotes.map((note, idx) => <li key={idx}>{note}</li>)}
+                  </ul>
+                </div>
+              ) : null}
             </div>
             
             <ScrollArea className="max-h-[320px] rounded-md border p-4">
@@ -452,11 +506,77 @@ const Sales: React.FC = () => {
               </Table>
             </ScrollArea>
             
+            {selectedSale.tax !== undefined && (
+              <div className="pt-4 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Subtotal</span>
+                  <span>${(selectedSale.subtotal ?? selectedSale.amount - selectedSale.tax).toFixed(2)}</span>
+                </div>
+                {!!selectedSale.discount && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Discounts</span>
+                    <span>-${selectedSale.discount.toFixed(2)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Tax</span>
+                  <span>${selectedSale.tax.toFixed(2)}</span>
+                </div>
+              </div>
+            )}
+            
             <div className="flex justify-between items-center py-4 font-medium text-lg">
               <span>Total</span>
               <span>${selectedSale.amount.toFixed(2)}</span>
             </div>
             
+            {!!selectedSale.tenders?.length && (
+              <div className="pb-4 space-y-1 text-sm">
+                {selectedSale.tenders.map((tender, idx) => (
+                  <div key={idx} className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      {TENDER_LABELS[tender.type]}{tender.reference ? ` (${tender.reference})` : ""}
+                    </span>
+                    <span>${tender.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+                {!!selectedSale.change && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Change</span>
+                    <span>${selectedSale.change.toFixed(2)}</span>
+                  </div>
+                )}
+              </div>
+            )}
+            
+            {!!selectedSale.returns?.length && (
+              <div className="pb-4 space-y-2 text-sm">
+                <div className="font-medium">Returns</div>
+                {selectedSale.returns.map(saleReturn => (
+                  <div key={saleReturn.id} className="rounded-md border p-2">
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">
+                        #{saleReturn.id} · {formatDate(saleReturn.date)} · {REFUND_REASON_LABELS[saleReturn.reason]}
+                      </span>
+                      <span className="text-destructive font-medium">-${saleReturn.amount.toFixed(2)}</span>
+                    </div>
+                    <div className="text-muted-foreground">
+                      {saleReturn.lines.map(line => `${line.quantity} x ${line.name}${line.restocked ? "" : " (not resellable)"}`).join(", ")}
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">
+                        {TENDER_LABELS[saleReturn.tender]} refund by {saleReturn.processedBy}
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={() => downloadRefundReceipt(selectedSale, saleReturn)}>
+                        <ReceiptText className="h-4 w-4 mr-1" />
+                        Refund Receipt
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            
             <DialogFooter>
               <Button variant="outline" onClick={() => setShowReceiptView(false)}>
                 Close
@@ -473,58 +593,12 @@ const Sales: React.FC = () => {
         </Dialog>
       )}
       
-      {/* Refund Confirmation Dialog */}
-      <Dialog open={refundConfirmOpen} onOpenChange={setRefundConfirmOpen}>
-        <DialogContent className="max-w-md">
-          <DialogHeader>
-            <DialogTitle className="text-destructive">Confirm Refund</DialogTitle>
-            <DialogDescription>
-              Are you sure you want to refund this transaction? This action will:
-            </DialogDescription>
-          </DialogHeader>
-          
-          <div className="space-y-4 py-4">
-            <ul className="list-disc pl-5 text-sm space-y-2">
-              <li>Mark the transaction as "Refunded"</li>
-              <li>Return all items to inventory</li>
-              <li>Create a record of this refund in system logs</li>
-            </ul>
-            
-            {saleToRefund && (
-              <div className="bg-gray-50 p-3 rounded-md">
-                <div className="flex justify-between items-center">
-                  <span className="font-medium">Transaction ID:</span>
-                  <span>{saleToRefund.id}</span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="font-medium">Total Amount:</span>
-                  <span className="text-destructive font-medium">${saleToRefund.amount.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="font-medium">Items:</span>
-                  <span>{saleToRefund.items.length} items, {saleToRefund.items.reduce((sum, item) => sum + item.quantity, 0)} units</span>
-                </div>
-              </div>
-            )}
-          </div>
-          
-          <DialogFooter className="gap-2">
-            <Button
-              variant="outline"
-              onClick={() => setRefundConfirmOpen(false)}
-            >
-              Cancel
-            </Button>
-            <Button
-              variant="destructive"
-              onClick={confirmRefund}
-              disabled={refundMutation.isPending}
-            >
-              {refundMutation.isPending ? "Processing..." : "Confirm Refund"}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      {/* Refund Dialog */}
+      <RefundDialog
+        sale={saleToRefund}
+        onClose={() => setSaleToRefund(null)}
+        onRefunded={(sale, saleReturn) => handleRefunded(sale as Sale, saleReturn)}
+      />
     </>
   );
 };
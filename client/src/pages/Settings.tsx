@@ -9,15 +9,22 @@ import { useAppContext } from "@/context/AppContext";
 import Header from "@/components/Header";
 import ImageUploader from "@/components/ImageUploader";
 import StoreLogoUploader from "@/components/StoreLogoUploader";
+import LocationManager from "@/components/LocationManager";
+import CategoryManager from "@/components/CategoryManager";
+import { useCategories } from "@/components/CategoryOptions";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
 import { Loader2 } from "lucide-react";
+import { DEFAULT_SCALE_BARCODES, type ScaleBarcodeSettings } from "@shared/weighing";
+import { DEFAULT_BUSINESS_DAY, isValidTimeZone, type BusinessDaySettings } from "@shared/businessDay";
+import { ancestorsOf, categoryOptions, categorySetting } from "@shared/categories";
 
 // Define the store settings schema
 const storeSettingsSchema = z.object({
@@ -29,10 +36,42 @@ const storeSettingsSchema = z.object({
   // nextTransactionId removed - now handled automatically by the system
 });
 
-type StoreSettings = z.infer<typeof storeSettingsSchema>;
+type StoreSettings = z.infer<typeof storeSettingsSchema> & {
+  taxRate?: number;
+  taxCategoryRates?: Record<string, number>;
+  scaleBarcodes?: ScaleBarcodeSettings;
+  businessDay?: BusinessDaySettings;
+};
+
+// Time zones offered for the business day, and the browser's as a hint
+const TIME_ZONES = Intl.supportedValuesOf("timeZone");
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * An hour of the day as shown on a clock, e.g. "4:00 AM"
+ */
+const formatHour = (hour: number): string =>
+  `${hour % 12 === 0 ? 12 : hour % 12}:00 ${hour < 12 ? "AM" : "PM"}`;
+
+/**
+ * Parse a comma-separated list of scale label prefixes
+ */
+const parsePrefixes = (value: string): string[] | null => {
+  const prefixes = value.split(",").map(prefix => prefix.trim()).filter(Boolean);
+  return prefixes.every(prefix => /^2\d$/.test(prefix)) ? prefixes : null;
+};
+
+/**
+ * Parse a tax rate input; blank means "not set"
+ */
+const parseTaxRate = (value: string): number | undefined | null => {
+  if (value.trim() === "") return undefined;
+  const rate = Number(value);
+  return Number.isFinite(rate) && rate >= 0 && rate <= 100 ? rate : null;
+};
 
 const Settings: React.FC = () => {
-  const { currentPage, addNotification } = useAppContext();
+  const { currentPage } = useAppContext();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState("receipt");
@@ -42,6 +81,23 @@ const Settings: React.FC = () => {
     refetchOnWindowFocus: false,
   });
   
+  // Categories, to list the ones taxed at their own rate
+  const { data: categories } = useCategories();
+  const taxedCategories = categoryOptions(categories || [])
+    .filter(option => categorySetting(option.category, categories || [], "taxRate") !== undefined);
+  
+  // The default tax rate is edited as text so the field can be left blank
+  const [defaultTaxRate, setDefaultTaxRate] = useState("");
+  
+  // Scale label layout, with prefixes edited as comma-separated lists
+  const [weightPrefixes, setWeightPrefixes] = useState("");
+  const [pricePrefixes, setPricePrefixes] = useState("");
+  const [pluLength, setPluLength] = useState(String(DEFAULT_SCALE_BARCODES.pluLength));
+  
+  // Business day; a blank time zone means the server's
+  const [timeZone, setTimeZone] = useState("");
+  const [dayStartHour, setDayStartHour] = useState(String(DEFAULT_BUSINESS_DAY.startHour));
+  
   const updateSettingsMutation = useMutation({
     mutationFn: (data: Partial<StoreSettings>) => 
       apiRequest({ url: '/api/settings', method: 'PUT', data }),
@@ -50,11 +106,6 @@ const Settings: React.FC = () => {
         title: "Settings Updated",
         description: "Store settings have been successfully updated.",
       });
-      addNotification({
-        type: "success",
-        title: "Settings Updated",
-        message: "Store settings have been successfully updated."
-      });
       queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
     },
     onError: (error) => {
@@ -79,6 +130,14 @@ const Settings: React.FC = () => {
   useEffect(() => {
     if (settings) {
       form.reset(settings);
+      setDefaultTaxRate(settings.taxRate !== undefined ? String(settings.taxRate) : "");
+      const scaleBarcodes = settings.scaleBarcodes || DEFAULT_SCALE_BARCODES;
+      setWeightPrefixes(scaleBarcodes.weightPrefixes.join(", "));
+      setPricePrefixes(scaleBarcodes.pricePrefixes.join(", "));
+      setPluLength(String(scaleBarcodes.pluLength));
+      const businessDay = settings.businessDay || DEFAULT_BUSINESS_DAY;
+      setTimeZone(businessDay.timeZone || "");
+      setDayStartHour(String(businessDay.startHour));
     }
   }, [settings, form]);
   
@@ -86,6 +145,69 @@ const Settings: React.FC = () => {
     updateSettingsMutation.mutate(data);
   };
   
+  const saveTaxSettings = () => {
+    if (!settings) return;
+    
+    const taxRate = parseTaxRate(defaultTaxRate);
+    if (taxRate === null) {
+      toast({
+        title: "Invalid Tax Rate",
+        description: "Tax rates must be percentages between 0 and 100.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    updateSettingsMutation.mutate({ ...settings, taxRate: taxRate ?? 0 });
+  };
+  
+  const saveScaleSettings = () => {
+    if (!settings) return;
+    
+    const weight = parsePrefixes(weightPrefixes);
+    const price = parsePrefixes(pricePrefixes);
+    if (!weight || !price) {
+      toast({
+        title: "Invalid Prefix",
+        description: "Scale label prefixes are two digits from 20 to 29.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (weight.some(prefix => price.includes(prefix))) {
+      toast({
+        title: "Invalid Prefix",
+        description: "A prefix cannot be used for both weight and price labels.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    updateSettingsMutation.mutate({
+      ...settings,
+      scaleBarcodes: { weightPrefixes: weight, pricePrefixes: price, pluLength: Number(pluLength) }
+    });
+  };
+  
+  const saveBusinessDaySettings = () => {
+    if (!settings) return;
+    
+    const zone = timeZone.trim();
+    if (zone && !isValidTimeZone(zone)) {
+      toast({
+        title: "Invalid Time Zone",
+        description: "Choose a time zone from the list, such as America/Chicago.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    updateSettingsMutation.mutate({
+      ...settings,
+      businessDay: { timeZone: zone || undefined, startHour: Number(dayStartHour) }
+    });
+  };
+  
   const handleLogoUpload = (imageUrl: string) => {
     form.setValue("storeLogo", imageUrl);
   };
@@ -119,11 +241,215 @@ const Settings: React.FC = () => {
       <Header title={currentPage} />
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid grid-cols-2 w-[400px] mb-6">
+          <TabsList className="grid grid-cols-7 w-[1250px] mb-6">
             <TabsTrigger value="receipt">Receipt Customization</TabsTrigger>
             <TabsTrigger value="branding">Store Branding</TabsTrigger>
+            <TabsTrigger value="tax">Sales Tax</TabsTrigger>
+            <TabsTrigger value="scale">Scale Labels</TabsTrigger>
+            <TabsTrigger value="businessDay">Business Day</TabsTrigger>
+            <TabsTrigger value="locations">Locations</TabsTrigger>
+            <TabsTrigger value="categories">Categories</TabsTrigger>
           </TabsList>
           
+          <TabsContent value="locations" className="space-y-6">
+            <LocationManager />
+          </TabsContent>
+          
+          <TabsContent value="categories" className="space-y-6">
+            <CategoryManager />
+          </TabsContent>
+          
+          <TabsContent value="businessDay" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Business Day</CardTitle>
+                <CardDescription>
+                  Today's sales and refunds on the dashboard cover the current business day. Set the store's 
+                  time zone, and a later start hour if the store trades past midnight: with a 4:00 AM start, 
+                  a sale at 1:00 AM counts towards the day before.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="timeZone">Time Zone</Label>
+                    <Input
+                      id="timeZone"
+                      list="timeZones"
+                      placeholder={`Server time zone (this browser: ${BROWSER_TIME_ZONE})`}
+                      value={timeZone}
+                      onChange={(e) => setTimeZone(e.target.value)}
+                    />
+                    <datalist id="timeZones">
+                      {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+                    </datalist>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="dayStartHour">Day Starts At</Label>
+                    <select
+                      id="dayStartHour"
+                      value={dayStartHour}
+                      onChange={(e) => setDayStartHour(e.target.value)}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <option key={hour} value={hour}>{hour === 0 ? "Midnight" : formatHour(hour)}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                
+                <Separator className="my-4" />
+                
+                <div className="flex justify-end">
+                  <Button 
+                    onClick={saveBusinessDaySettings}
+                    disabled={updateSettingsMutation.isPending}
+                    className="w-full sm:w-auto"
+                  >
+                    {updateSettingsMutation.isPending && (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Save Business Day
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+          
+          <TabsContent value="scale" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Scale Labels</CardTitle>
+                <CardDescription>
+                  Labels printed by in-store scales are EAN-13 barcodes starting with 20 to 29. They carry the 
+                  item's PLU followed by either the net weight (in thousandths of the item's unit) or the price 
+                  (in cents). Prefixes not listed here are not read as scale labels.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="weightPrefixes">Weight Label Prefixes</Label>
+                    <Input
+                      id="weightPrefixes"
+                      placeholder="21, 22"
+                      value={weightPrefixes}
+                      onChange={(e) => setWeightPrefixes(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="pricePrefixes">Price Label Prefixes</Label>
+                    <Input
+                      id="pricePrefixes"
+                      placeholder="20, 23"
+                      value={pricePrefixes}
+                      onChange={(e) => setPricePrefixes(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="pluLength">PLU Digits</Label>
+                    <select
+                      id="pluLength"
+                      value={pluLength}
+                      onChange={(e) => setPluLength(e.target.value)}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="4">4 (6-digit value)</option>
+                      <option value="5">5 (5-digit value)</option>
+                      <option value="6">6 (4-digit value)</option>
+                    </select>
+                  </div>
+                </div>
+                
+                <Separator className="my-4" />
+                
+                <div className="flex justify-end">
+                  <Button 
+                    onClick={saveScaleSettings}
+                    disabled={updateSettingsMutation.isPending}
+                    className="w-full sm:w-auto"
+                  >
+                    {updateSettingsMutation.isPending && (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Save Scale Settings
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+          
+          <TabsContent value="tax" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Sales Tax</CardTitle>
+                <CardDescription>
+                  Set the default tax rate charged at checkout. Categories can override it with their own rate. 
+                  Items marked tax exempt in inventory are never taxed.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="max-w-xs space-y-2">
+                  <Label htmlFor="defaultTaxRate">Default Tax Rate (%)</Label>
+                  <Input
+                    id="defaultTaxRate"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.001"
+                    placeholder="0"
+                    value={defaultTaxRate}
+                    onChange={(e) => setDefaultTaxRate(e.target.value)}
+                  />
+                </div>
+                
+                <Separator className="my-4" />
+                
+                <div className="space-y-3">
+                  <Label>Category Rates</Label>
+                  <p className="text-sm text-gray-500">
+                    Category rates are set on each category under{" "}
+                    <button type="button" onClick={() => setActiveTab("categories")} className="text-blue-600 hover:text-blue-800">
+                      Categories
+                    </button>
+                    ; subcategories without a rate of their own use their parent's.
+                  </p>
+                  {taxedCategories.length === 0 ? (
+                    <p className="text-sm text-gray-500">Every category uses the default rate.</p>
+                  ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-2">
+                      {taxedCategories.map(({ category, path }) => (
+                        <div key={category.id} className="flex items-center gap-3 text-sm">
+                          <span className="flex-1">{path}</span>
+                          <span className={category.taxRate === undefined ? "text-gray-400" : ""}>
+                            {categorySetting(category, categories || [], "taxRate")}%
+                            {category.taxRate === undefined && ` (from ${ancestorsOf(category, categories || []).find(entry => entry.taxRate !== undefined)?.name})`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                
+                <Separator className="my-4" />
+                
+                <div className="flex justify-end">
+                  <Button 
+                    onClick={saveTaxSettings}
+                    disabled={updateSettingsMutation.isPending}
+                    className="w-full sm:w-auto"
+                  >
+                    {updateSettingsMutation.isPending && (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Save Tax Settings
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+          
           <TabsContent value="branding" className="space-y-6">
             <Card>
               <CardHeader>
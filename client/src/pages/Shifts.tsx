@@ -0,0 +1,203 @@
+import { useState } from "react";
+import Header from "@/components/Header";
+import { useAppContext } from "@/context/AppContext";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import CloseShiftDialog from "@/components/CloseShiftDialog";
+import ShiftReportView, { type Shift, type ShiftReport } from "@/components/ShiftReportView";
+
+const formatDateTime = (value?: string) => value
+  ? new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(new Date(value))
+  : '-';
+
+const money = (value?: number) => value === undefined ? '-' : `$${value.toFixed(2)}`;
+
+const Shifts: React.FC = () => {
+  const { currentPage } = useAppContext();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<'all' | Shift['status']>('all');
+  const [closingShift, setClosingShift] = useState<Shift | null>(null);
+  const [report, setReport] = useState<ShiftReport | null>(null);
+  const [loadingReportId, setLoadingReportId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  // Fetch shifts, newest first
+  const { data: shifts, isLoading, error } = useQuery({
+    queryKey: ['/api/shifts'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/shifts');
+      return await response.json() as Shift[];
+    }
+  });
+
+  const filteredShifts = (shifts || []).filter(shift =>
+    (statusFilter === 'all' || shift.status === statusFilter) &&
+    shift.cashier.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  // X report for an open shift, Z report for a closed one
+  const viewReport = async (shift: Shift) => {
+    setLoadingReportId(shift.id);
+    try {
+      const response = await apiRequest(`/api/shifts/${shift.id}/report`);
+      setReport(await response.json() as ShiftReport);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load shift report",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingReportId(null);
+    }
+  };
+
+  return (
+    <>
+      <Header title={currentPage} />
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="space-y-6">
+          <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+            <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">Register Shifts</h3>
+              <div className="flex space-x-3">
+                <select
+                  className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block sm:text-sm border border-gray-300 rounded-md py-2 px-3"
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value as 'all' | Shift['status'])}
+                >
+                  <option value="all">All shifts</option>
+                  <option value="open">Open</option>
+                  <option value="closed">Closed</option>
+                </select>
+                <input
+                  type="text"
+                  placeholder="Search cashiers..."
+                  className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border border-gray-300 rounded-md py-2 px-4"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="p-6 text-center">
+                <i className="fas fa-spinner fa-spin mr-2"></i> Loading data...
+              </div>
+            ) : error ? (
+              <div className="p-6 text-center text-red-500">
+                <i className="fas fa-exclamation-triangle mr-2"></i> Error loading data. Please try again.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Shift</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cashier</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Opened</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Closed</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Float</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Counted</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {filteredShifts.length > 0 ? (
+                      filteredShifts.map((shift) => {
+                        const variance = shift.variance || 0;
+                        const flagged = shift.status === 'closed' && Math.abs(variance) >= 0.01;
+                        return (
+                          <tr key={shift.id} className={flagged ? "bg-red-50 hover:bg-red-100" : "hover:bg-gray-50"}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                              #{shift.id}
+                              {shift.status === 'open' && (
+                                <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                                  Open
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{shift.cashier}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDateTime(shift.openedAt)}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              <div>{formatDateTime(shift.closedAt)}</div>
+                              {shift.closedBy && shift.closedBy !== shift.cashier && (
+                                <div className="text-xs text-gray-400">by {shift.closedBy}</div>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{money(shift.openingFloat)}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{money(shift.expectedCash)}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{money(shift.countedCash)}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              {shift.status === 'closed' ? (
+                                <span
+                                  className={flagged ? "font-semibold text-red-600" : "text-green-700"}
+                                  title={shift.closingNotes}
+                                >
+                                  {flagged ? `${variance > 0 ? 'Over' : 'Short'} ${money(Math.abs(variance))}` : 'Balanced'}
+                                </span>
+                              ) : (
+                                <span className="text-gray-400">-</span>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                              <button
+                                onClick={() => viewReport(shift)}
+                                disabled={loadingReportId === shift.id}
+                                className="text-blue-600 hover:text-blue-900 mr-3"
+                              >
+                                {shift.status === 'open' ? 'X Report' : 'Z Report'}
+                              </button>
+                              {shift.status === 'open' && (
+                                <button
+                                  onClick={() => setClosingShift(shift)}
+                                  className="text-gray-600 hover:text-gray-900"
+                                >
+                                  Close
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })
+                    ) : (
+                      <tr>
+                        <td colSpan={9} className="px-6 py-4 text-center text-sm text-gray-500">
+                          {searchTerm || statusFilter !== 'all' ? 'No matching shifts found.' : 'No shifts yet.'}
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <CloseShiftDialog
+        shift={closingShift}
+        onClose={() => setClosingShift(null)}
+        onClosed={(zReport) => {
+          setClosingShift(null);
+          setReport(zReport);
+          queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/shifts/current'] });
+        }}
+      />
+
+      <ShiftReportView report={report} onClose={() => setReport(null)} />
+    </>
+  );
+};
+
+export default Shifts;
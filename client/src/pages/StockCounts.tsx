@@ -0,0 +1,704 @@
+import { useEffect, useRef, useState } from "react";
+import Header from "@/components/Header";
+import BarcodeScanner from "@/components/BarcodeScanner";
+import ReportGenerator from "@/components/ReportGenerator";
+import LocationSelect, { useLocations } from "@/components/LocationSelect";
+import { useAppContext } from "@/context/AppContext";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, lineErrorsByProduct } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import {
+  STOCK_COUNT_SCOPE_LABELS,
+  STOCK_COUNT_STATUS_LABELS,
+  formatStockCountNumber,
+  lineVariance,
+  lineVarianceValue,
+  summarizeStockCount
+} from "@shared/stockCounts";
+import { resolveBarcode } from "@shared/barcodes";
+import { DEFAULT_LOCATION_ID, locationOf } from "@shared/locations";
+import type { ItemBarcode, StockCount, StockCountRequest, StockCountScope, StockCountStatus } from "@shared/schema";
+
+// Define types for inventory data
+interface InventoryItem {
+  id: number;
+  name: string;
+  sku: string;
+  category: string;
+  barcode?: string;
+  barcodes?: ItemBarcode[];
+}
+
+const statusStyles: Record<StockCountStatus, string> = {
+  counting: "bg-blue-100 text-blue-800",
+  review: "bg-yellow-100 text-yellow-800",
+  posted: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-800"
+};
+
+const formatDate = (value?: string) => value
+  ? new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }).format(new Date(value))
+  : '-';
+
+const formatVariance = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+// Every stock count action answers with the updated count
+const postStockCount = async (url: string, data?: unknown): Promise<StockCount> => {
+  const response = await apiRequest({ url, method: 'POST', data });
+  return await response.json() as StockCount;
+};
+
+const StockCounts: React.FC = () => {
+  const { currentPage } = useAppContext();
+  const [countId, setCountId] = useState<number | null>(null);
+  const [showNewCount, setShowNewCount] = useState(false);
+  const [scope, setScope] = useState<StockCountScope>("cycle");
+  const [category, setCategory] = useState("");
+  const [sampleSize, setSampleSize] = useState("20");
+  const [notes, setNotes] = useState("");
+  const [locationId, setLocationId] = useState<number>(DEFAULT_LOCATION_ID);
+  const [counted, setCounted] = useState<Record<number, string>>({});
+  const [barcode, setBarcode] = useState("");
+  const [scannerActive, setScannerActive] = useState(false);
+  const [lineErrors, setLineErrors] = useState<Record<number, string>>({});
+  const barcodeInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const showErrorToast = useErrorToast();
+
+  // Stockers count; only managers approve, send back or cancel a count
+  const [isManager] = useState(() => {
+    try {
+      const role = JSON.parse(sessionStorage.getItem("user") || "{}").role;
+      return role === "Administrator" || role === "Manager";
+    } catch {
+      return false;
+    }
+  });
+
+  const { data: counts, isLoading, error } = useQuery({
+    queryKey: ['/api/stock-counts'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/stock-counts');
+      return await response.json() as StockCount[];
+    }
+  });
+
+  // Inventory, to match scanned barcodes and to list categories
+  const { data: inventoryItems } = useQuery({
+    queryKey: ['/api/inventory'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/inventory');
+      return await response.json() as InventoryItem[];
+    }
+  });
+
+  const categories = Array.from(new Set((inventoryItems || []).map(item => item.category))).sort();
+  const count = counts?.find(entry => entry.id === countId) || null;
+
+  // Load what has already been counted whenever a different count is opened
+  useEffect(() => {
+    if (count) {
+      setCounted(Object.fromEntries(count.lines.map(line => [line.productId, line.counted === undefined ? '' : String(line.counted)])));
+      setLineErrors({});
+      if (count.status === 'counting') {
+        barcodeInputRef.current?.focus();
+      }
+    }
+  }, [count?.id, count?.status]);
+
+  const updateCount = (productId: number, value: string) => {
+    setCounted(current => ({ ...current, [productId]: value }));
+    setLineErrors(current => {
+      const { [productId]: _removed, ...rest } = current;
+      return rest;
+    });
+  };
+
+  // Each scan counts one more unit of the scanned item, or a whole case for a case barcode
+  const handleBarcodeScan = (value: string) => {
+    const code = value.trim();
+    if (!count || !code) return;
+
+    const match = resolveBarcode(inventoryItems || [], code);
+    const item = match?.item;
+    const line = item && count.lines.find(entry => entry.productId === item.id);
+    if (!item || !line) {
+      toast({
+        title: "Not in this count",
+        description: item
+          ? `${item.name} is not part of ${formatStockCountNumber(count.id)}`
+          : `No product matches barcode ${code}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const current = parseFloat(counted[item.id]) || 0;
+    updateCount(item.id, String(current + match!.packQuantity));
+  };
+
+  // Counts entered on screen that haven't been saved yet
+  const unsavedEntries = count ? count.lines
+    .map(line => ({ line, value: parseFloat(counted[line.productId] ?? '') }))
+    .filter(({ line, value }) => !isNaN(value) && value >= 0 && value !== line.counted)
+    .map(({ line, value }) => ({ productId: line.productId, counted: value })) : [];
+
+  const refreshCounts = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/stock-counts'] });
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    const errors = lineErrorsByProduct(error);
+    if (errors) {
+      setLineErrors(errors);
+    }
+    showErrorToast(error, fallback);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (request: StockCountRequest) => postStockCount('/api/stock-counts', request),
+    onSuccess: (created) => {
+      toast({
+        title: "Count started",
+        description: `${formatStockCountNumber(created.id)} covers ${created.lines.length} items.`,
+      });
+      setShowNewCount(false);
+      setNotes('');
+      setCountId(created.id);
+      refreshCounts();
+    },
+    onError: (error) => showError(error, "Failed to start count")
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ submit }: { submit: boolean }) => {
+      let updated = count!;
+      if (unsavedEntries.length > 0) {
+        updated = await postStockCount(`/api/stock-counts/${count!.id}/counts`, { counts: unsavedEntries });
+      }
+      if (submit) {
+        updated = await postStockCount(`/api/stock-counts/${count!.id}/submit`);
+      }
+      return updated;
+    },
+    onSuccess: (updated, { submit }) => {
+      toast({
+        title: submit ? "Count submitted" : "Counts saved",
+        description: submit
+          ? `${formatStockCountNumber(updated.id)} is waiting for a manager to approve it.`
+          : `${summarizeStockCount(updated.lines).countedCount} of ${updated.lines.length} items counted so far.`,
+      });
+      if (submit && !isManager) {
+        setCountId(null);
+      }
+      refreshCounts();
+    },
+    onError: (error) => {
+      refreshCounts();
+      showError(error, "Failed to save counts");
+    }
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ action }: { action: 'post' | 'reopen' | 'cancel' }) =>
+      postStockCount(`/api/stock-counts/${count!.id}/${action}`),
+    onSuccess: (updated, { action }) => {
+      toast({
+        title: action === 'post' ? "Count posted" : action === 'reopen' ? "Sent back for recount" : "Count cancelled",
+        description: action === 'post'
+          ? `Stock has been adjusted by the variances in ${formatStockCountNumber(updated.id)}.`
+          : `${formatStockCountNumber(updated.id)} is now ${STOCK_COUNT_STATUS_LABELS[updated.status].toLowerCase()}.`,
+      });
+      refreshCounts();
+      if (action === 'post') {
+        queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      }
+    },
+    onError: (error) => {
+      refreshCounts();
+      showError(error, "Failed to update count");
+    }
+  });
+
+  const handleCreate = () => {
+    if (scope === 'category' && !category) {
+      showErrorToast(null, "Choose a category to count");
+      return;
+    }
+    const size = parseInt(sampleSize);
+    if (scope === 'cycle' && (!size || size < 1)) {
+      showErrorToast(null, "Choose how many items to count");
+      return;
+    }
+
+    createMutation.mutate({
+      scope,
+      category: scope === 'category' ? category : undefined,
+      sampleSize: scope === 'cycle' ? size : undefined,
+      notes: notes.trim() || undefined,
+      locationId
+    });
+  };
+
+  const handleAction = (action: 'post' | 'reopen' | 'cancel') => {
+    const messages = {
+      post: "Adjust stock to the counted quantities? This can't be undone.",
+      reopen: "Send this count back so the items can be recounted?",
+      cancel: "Cancel this count? Nothing counted will be applied to stock."
+    };
+    if (window.confirm(messages[action])) {
+      actionMutation.mutate({ action });
+    }
+  };
+
+  // Counts are of one location's stock; only worth naming when there are several
+  const { data: locations } = useLocations();
+  const locationLabel = (entry: StockCount) => (locations || []).length > 1
+    ? ` at ${locations!.find(location => location.id === locationOf(entry))?.name}`
+    : '';
+
+  const summary = count ? summarizeStockCount(count.lines) : null;
+  const isBusy = saveMutation.isPending || actionMutation.isPending;
+
+  return (
+    <>
+      <Header title={currentPage} />
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="space-y-6">
+          {!count ? (
+            <>
+              {showNewCount && (
+                <div className="bg-white shadow sm:rounded-lg p-6 space-y-4">
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">Start a Stock Count</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label htmlFor="countScope" className="block text-sm font-medium text-gray-700 mb-1">What to count</label>
+                      <select
+                        id="countScope"
+                        className="w-full rounded-md border border-gray-300 px-3 py-2"
+                        value={scope}
+                        onChange={(e) => setScope(e.target.value as StockCountScope)}
+                      >
+                        <option value="cycle">{STOCK_COUNT_SCOPE_LABELS.cycle} (random sample)</option>
+                        <option value="category">{STOCK_COUNT_SCOPE_LABELS.category}</option>
+                        <option value="full">{STOCK_COUNT_SCOPE_LABELS.full} (whole store)</option>
+                      </select>
+                    </div>
+                    {scope === 'category' && (
+                      <div>
+                        <label htmlFor="countCategory" className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                        <select
+                          id="countCategory"
+                          className="w-full rounded-md border border-gray-300 px-3 py-2"
+                          value={category}
+                          onChange={(e) => setCategory(e.target.value)}
+                        >
+                          <option value="">Choose a category</option>
+                          {categories.map(name => (
+                            <option key={name} value={name}>{name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                    {scope === 'cycle' && (
+                      <div>
+                        <label htmlFor="countSampleSize" className="block text-sm font-medium text-gray-700 mb-1">Number of items</label>
+                        <input
+                          id="countSampleSize"
+                          type="number"
+                          min="1"
+                          className="w-full rounded-md border border-gray-300 px-3 py-2"
+                          value={sampleSize}
+                          onChange={(e) => setSampleSize(e.target.value)}
+                        />
+                      </div>
+                    )}
+                    <div className={scope === 'full' ? "md:col-span-2" : ""}>
+                      <label htmlFor="countNotes" className="block text-sm font-medium text-gray-700 mb-1">Notes (optional)</label>
+                      <input
+                        id="countNotes"
+                        type="text"
+                        maxLength={500}
+                        placeholder="e.g. Month-end stocktake"
+                        className="w-full rounded-md border border-gray-300 px-3 py-2"
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                      />
+                    </div>
+                    {(locations || []).filter(location => location.active).length > 1 && (
+                      <div>
+                        <label htmlFor="countLocation" className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+                        <LocationSelect
+                          id="countLocation"
+                          value={locationId}
+                          onChange={(value) => setLocationId(value ?? DEFAULT_LOCATION_ID)}
+                          className="w-full rounded-md border border-gray-300 px-3 py-2"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex justify-end">
+                    <button
+                      type="button"
+                      onClick={() => setShowNewCount(false)}
+                      className="mr-3 px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleCreate}
+                      disabled={createMutation.isPending}
+                      className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {createMutation.isPending ? "Starting..." : "Start Count"}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+                <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+                  <div>
+                    <h3 className="text-lg leading-6 font-medium text-gray-900">Stock Counts</h3>
+                    <p className="mt-1 max-w-2xl text-sm text-gray-500">
+                      Count what is on the shelf; a manager approves the differences before stock changes
+                    </p>
+                  </div>
+                  {!showNewCount && (
+                    <button
+                      onClick={() => setShowNewCount(true)}
+                      className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm"
+                    >
+                      New Count
+                    </button>
+                  )}
+                </div>
+
+                {isLoading ? (
+                  <div className="p-6 text-center">
+                    <i className="fas fa-spinner fa-spin mr-2"></i> Loading data...
+                  </div>
+                ) : error ? (
+                  <div className="p-6 text-center text-red-500">
+                    <i className="fas fa-exclamation-triangle mr-2"></i> Error loading data. Please try again.
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Count</th>
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Started</th>
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Progress</th>
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {(counts || []).length > 0 ? (
+                          counts!.map(entry => {
+                            const progress = summarizeStockCount(entry.lines);
+                            return (
+                              <tr key={entry.id} className="hover:bg-gray-50">
+                                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{formatStockCountNumber(entry.id)}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                  {STOCK_COUNT_SCOPE_LABELS[entry.scope]}{entry.category ? `: ${entry.category}` : ''}{locationLabel(entry)}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(entry.createdAt)} by {entry.createdBy}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{progress.countedCount} / {progress.lineCount}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusStyles[entry.status]}`}>
+                                    {STOCK_COUNT_STATUS_LABELS[entry.status]}
+                                  </span>
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                  <button
+                                    onClick={() => setCountId(entry.id)}
+                                    className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-sm"
+                                  >
+                                    {entry.status === 'counting' ? 'Count' : entry.status === 'review' && isManager ? 'Review' : 'View'}
+                                  </button>
+                                </td>
+                              </tr>
+                            );
+                          })
+                        ) : (
+                          <tr>
+                            <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                              No stock counts yet.
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </>
+          ) : count.status === 'counting' ? (
+            <div className="bg-white shadow overflow-hidden sm:rounded-lg p-6 space-y-6">
+              <div className="flex justify-between items-center">
+                <div>
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">
+                    Counting {formatStockCountNumber(count.id)}: {STOCK_COUNT_SCOPE_LABELS[count.scope]}{count.category ? ` of ${count.category}` : ''}{locationLabel(count)}
+                  </h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Scan each item as you count it, or enter what is on the shelf below. {summary!.countedCount} of {summary!.lineCount} items counted.
+                  </p>
+                </div>
+                <button onClick={() => setCountId(null)} className="text-sm text-gray-600 hover:text-gray-900">
+                  Back to counts
+                </button>
+              </div>
+
+              <div>
+                <div className="flex gap-2">
+                  <input
+                    ref={barcodeInputRef}
+                    type="text"
+                    placeholder="Scan or type a barcode and press Enter"
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    value={barcode}
+                    onChange={(e) => setBarcode(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleBarcodeScan(barcode);
+                        setBarcode("");
+                      }
+                    }}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setScannerActive(!scannerActive)}
+                    className="whitespace-nowrap px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    {scannerActive ? 'Disable Camera' : 'Use Camera'}
+                  </button>
+                </div>
+                {scannerActive && (
+                  <div className="mt-4">
+                    <BarcodeScanner
+                      onScan={handleBarcodeScan}
+                      isActive={scannerActive}
+                      onError={(error) => console.error('Barcode scan error:', error)}
+                      onClose={() => setScannerActive(false)}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 rounded-md">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">On Shelf</th>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Counted</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {count.lines.map(line => (
+                      <tr key={line.productId} className={lineErrors[line.productId] ? "bg-red-50" : ""}>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="font-medium text-gray-900">{line.name}</div>
+                          <div className="text-xs text-gray-400">{line.sku}</div>
+                          {lineErrors[line.productId] && <div className="text-xs text-red-600">{lineErrors[line.productId]}</div>}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-500">{line.category}</td>
+                        <td className="px-4 py-3 text-sm">
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            className="w-24 rounded-md border border-gray-300 px-2 py-1"
+                            aria-label={`Quantity of ${line.name} on the shelf`}
+                            value={counted[line.productId] ?? ''}
+                            onChange={(e) => updateCount(line.productId, e.target.value)}
+                          />
+                          <span className="ml-2 text-gray-500">{line.unit}</span>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-500">
+                          {line.countedAt ? `${formatDate(line.countedAt)} by ${line.countedBy}` : '-'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-between">
+                <div>
+                  {isManager && (
+                    <button
+                      type="button"
+                      onClick={() => handleAction('cancel')}
+                      disabled={isBusy}
+                      className="px-4 py-2 border border-red-300 rounded-md shadow-sm text-sm font-medium text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+                    >
+                      Cancel Count
+                    </button>
+                  )}
+                </div>
+                <div>
+                  <button
+                    type="button"
+                    onClick={() => saveMutation.mutate({ submit: false })}
+                    disabled={isBusy || unsavedEntries.length === 0}
+                    className="mr-3 px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {saveMutation.isPending ? "Saving..." : `Save Counts${unsavedEntries.length > 0 ? ` (${unsavedEntries.length})` : ''}`}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => saveMutation.mutate({ submit: true })}
+                    disabled={isBusy || (summary!.countedCount === 0 && unsavedEntries.length === 0)}
+                    className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Submit for Approval
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="bg-white shadow overflow-hidden sm:rounded-lg p-6 space-y-6">
+              <div className="flex justify-between items-center">
+                <div>
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">
+                    {formatStockCountNumber(count.id)}: {STOCK_COUNT_SCOPE_LABELS[count.scope]}{count.category ? ` of ${count.category}` : ''}{locationLabel(count)}
+                    <span className={`ml-3 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusStyles[count.status]}`}>
+                      {STOCK_COUNT_STATUS_LABELS[count.status]}
+                    </span>
+                  </h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    {count.status === 'posted'
+                      ? `Approved by ${count.postedBy} on ${formatDate(count.postedAt)}`
+                      : count.status === 'review'
+                        ? `Submitted by ${count.submittedBy} on ${formatDate(count.submittedAt)}`
+                        : `Cancelled on ${formatDate(count.cancelledAt)}`}
+                    {count.notes ? ` - ${count.notes}` : ''}
+                  </p>
+                </div>
+                <button onClick={() => setCountId(null)} className="text-sm text-gray-600 hover:text-gray-900">
+                  Back to counts
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="border border-gray-200 rounded-md p-4">
+                  <div className="text-sm text-gray-500">Items counted</div>
+                  <div className="text-2xl font-semibold text-gray-900">{summary!.countedCount} / {summary!.lineCount}</div>
+                </div>
+                <div className="border border-gray-200 rounded-md p-4">
+                  <div className="text-sm text-gray-500">Items with a variance</div>
+                  <div className="text-2xl font-semibold text-gray-900">{summary!.varianceCount}</div>
+                </div>
+                <div className="border border-gray-200 rounded-md p-4">
+                  <div className="text-sm text-gray-500">Net variance at cost</div>
+                  <div className={`text-2xl font-semibold ${summary!.varianceValue < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {summary!.varianceValue < 0 ? '-' : ''}${Math.abs(summary!.varianceValue).toFixed(2)}
+                  </div>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 rounded-md">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                      <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+                      <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Counted</th>
+                      <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+                      <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Value ($)</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {[...count.lines]
+                      .sort((a, b) => Math.abs(lineVarianceValue(b)) - Math.abs(lineVarianceValue(a)))
+                      .map(line => {
+                        const variance = lineVariance(line);
+                        return (
+                          <tr key={line.productId} className={variance ? (variance < 0 ? "bg-red-50" : "bg-yellow-50") : ""}>
+                            <td className="px-4 py-3 text-sm">
+                              <div className="font-medium text-gray-900">{line.name}</div>
+                              <div className="text-xs text-gray-400">{line.sku}</div>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right text-gray-500">{line.expected} {line.unit}</td>
+                            <td className="px-4 py-3 text-sm text-right text-gray-500">
+                              {line.counted === undefined ? <span className="text-gray-400">Not counted</span> : line.counted}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right font-medium">
+                              {variance === null ? '-' : variance === 0 ? <span className="text-green-700">Matches</span> : formatVariance(variance)}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right text-gray-500">
+                              {variance ? lineVarianceValue(line).toFixed(2) : '-'}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                  </tbody>
+                </table>
+              </div>
+
+              {count.status === 'review' && (
+                isManager ? (
+                  <div className="flex justify-between items-center">
+                    <p className="text-sm text-gray-500">
+                      Posting adjusts each counted item's stock by its variance. Items not counted are left as they are.
+                    </p>
+                    <div className="flex">
+                      <button
+                        type="button"
+                        onClick={() => handleAction('cancel')}
+                        disabled={isBusy}
+                        className="mr-3 px-4 py-2 border border-red-300 rounded-md shadow-sm text-sm font-medium text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+                      >
+                        Cancel Count
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleAction('reopen')}
+                        disabled={isBusy}
+                        className="mr-3 px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Send Back for Recount
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleAction('post')}
+                        disabled={isBusy}
+                        className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                      >
+                        {actionMutation.isPending ? "Posting..." : "Approve and Post"}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">This count is waiting for a manager to approve it.</p>
+                )
+              )}
+
+              {count.status === 'posted' && isManager && summary!.varianceCount > 0 && (
+                <div className="border border-gray-200 rounded-lg p-4">
+                  <ReportGenerator
+                    reportType="count-variance"
+                    reportName={`${formatStockCountNumber(count.id)} Variance Report`}
+                    endpoint={`/api/reports/count-variance?countId=${count.id}`}
+                    description="Download the variances from this count, valued at cost, as a PDF"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  );
+};
+
+export default StockCounts;
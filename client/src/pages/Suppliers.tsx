@@ -0,0 +1,476 @@
+import { useState } from "react";
+import Header from "@/components/Header";
+import { useAppContext } from "@/context/AppContext";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import DeleteConfirmationModal from "@/components/DeleteConfirmationModal";
+import type { Supplier, InsertSupplier, SupplierLink } from "@shared/schema";
+
+// Define types for inventory data
+interface InventoryItem {
+  id: number;
+  name: string;
+  sku: string;
+  unit: string;
+  costPrice?: number;
+  suppliers?: SupplierLink[];
+}
+
+// Supplier form fields, kept as strings while editing
+interface SupplierForm {
+  name: string;
+  contactName: string;
+  email: string;
+  phone: string;
+  address: string;
+  leadTimeDays: string;
+  minimumOrder: string;
+  notes: string;
+}
+
+// An item the supplier sells, as edited in the form
+interface ProductLinkForm {
+  supplierSku: string;
+  cost: string;
+  packSize: string;
+  preferred: boolean;
+}
+
+const emptyForm: SupplierForm = {
+  name: "",
+  contactName: "",
+  email: "",
+  phone: "",
+  address: "",
+  leadTimeDays: "7",
+  minimumOrder: "0",
+  notes: ""
+};
+
+const inputClass = "w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500";
+const labelClass = "block text-sm font-medium text-gray-700 mb-1";
+
+const optional = (value: string) => value.trim() || undefined;
+
+const Suppliers: React.FC = () => {
+  const { currentPage } = useAppContext();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [showForm, setShowForm] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [form, setForm] = useState<SupplierForm>(emptyForm);
+  const [productLinks, setProductLinks] = useState<Record<number, ProductLinkForm>>({});
+  const [productSearch, setProductSearch] = useState("");
+  const [deletingSupplier, setDeletingSupplier] = useState<Supplier | null>(null);
+  const { toast } = useToast();
+
+  // Fetch suppliers
+  const { data: suppliers, isLoading: suppliersLoading, error } = useQuery({
+    queryKey: ['/api/suppliers'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/suppliers');
+      return await response.json() as Supplier[];
+    }
+  });
+
+  // Fetch inventory for the linked products editor
+  const { data: inventoryItems, isLoading: inventoryLoading } = useQuery({
+    queryKey: ['/api/inventory'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/inventory');
+      return await response.json() as InventoryItem[];
+    }
+  });
+
+  const filteredSuppliers = suppliers?.filter(supplier =>
+    supplier.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (supplier.contactName || "").toLowerCase().includes(searchTerm.toLowerCase())
+  ) || [];
+
+  const linkedProductCount = (supplierId: number) =>
+    (inventoryItems || []).filter(item => item.suppliers?.some(link => link.supplierId === supplierId)).length;
+
+  const showError = useErrorToast();
+
+  // Save the supplier, then the links on any item whose link changed
+  const saveMutation = useMutation({
+    mutationFn: async (supplier: InsertSupplier) => {
+      const response = await apiRequest({
+        url: editingSupplier ? `/api/suppliers/${editingSupplier.id}` : '/api/suppliers',
+        method: editingSupplier ? 'PUT' : 'POST',
+        data: supplier
+      });
+      const saved = await response.json() as Supplier;
+
+      for (const item of inventoryItems || []) {
+        const current = (item.suppliers || []).find(link => link.supplierId === saved.id);
+        const edited = productLinks[item.id];
+        const link: SupplierLink | undefined = edited && {
+          supplierId: saved.id,
+          supplierSku: optional(edited.supplierSku),
+          cost: parseFloat(edited.cost) || 0,
+          packSize: edited.packSize ? parseInt(edited.packSize) : undefined,
+          preferred: edited.preferred || undefined
+        };
+        if (JSON.stringify(current) === JSON.stringify(link)) continue;
+
+        // Only one supplier can be preferred for an item
+        const others = (item.suppliers || [])
+          .filter(existing => existing.supplierId !== saved.id)
+          .map(existing => link?.preferred ? { ...existing, preferred: undefined } : existing);
+        await apiRequest({
+          url: `/api/inventory/${item.id}`,
+          method: 'PUT',
+          data: { suppliers: link ? [...others, link] : others }
+        });
+      }
+      return saved;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: editingSupplier ? "Supplier updated successfully" : "Supplier created successfully",
+      });
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ['/api/suppliers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+    },
+    onError: (error) => {
+      // The supplier itself may have saved before a link failed
+      queryClient.invalidateQueries({ queryKey: ['/api/suppliers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      showError(error, "Failed to save supplier");
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (supplier: Supplier) => {
+      await apiRequest({ url: `/api/suppliers/${supplier.id}`, method: 'DELETE' });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Supplier deleted successfully",
+      });
+      setDeletingSupplier(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/suppliers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+    },
+    onError: (error) => {
+      setDeletingSupplier(null);
+      showError(error, "Failed to delete supplier");
+    }
+  });
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingSupplier(null);
+    setForm(emptyForm);
+    setProductLinks({});
+    setProductSearch("");
+  };
+
+  const handleEditClick = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setForm({
+      name: supplier.name,
+      contactName: supplier.contactName || "",
+      email: supplier.email || "",
+      phone: supplier.phone || "",
+      address: supplier.address || "",
+      leadTimeDays: String(supplier.leadTimeDays),
+      minimumOrder: String(supplier.minimumOrder),
+      notes: supplier.notes || ""
+    });
+    const links: Record<number, ProductLinkForm> = {};
+    (inventoryItems || []).forEach(item => {
+      const link = item.suppliers?.find(entry => entry.supplierId === supplier.id);
+      if (link) {
+        links[item.id] = {
+          supplierSku: link.supplierSku || "",
+          cost: String(link.cost),
+          packSize: link.packSize ? String(link.packSize) : "",
+          preferred: !!link.preferred
+        };
+      }
+    });
+    setProductLinks(links);
+    setShowForm(true);
+  };
+
+  const toggleProduct = (item: InventoryItem) => {
+    setProductLinks(current => {
+      const { [item.id]: existing, ...rest } = current;
+      return existing
+        ? rest
+        : { ...current, [item.id]: { supplierSku: "", cost: item.costPrice !== undefined ? String(item.costPrice) : "", packSize: "", preferred: false } };
+    });
+  };
+
+  const updateLink = (id: number, update: Partial<ProductLinkForm>) => {
+    setProductLinks(current => ({ ...current, [id]: { ...current[id], ...update } }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    saveMutation.mutate({
+      name: form.name.trim(),
+      contactName: optional(form.contactName),
+      email: optional(form.email),
+      phone: optional(form.phone),
+      address: optional(form.address),
+      leadTimeDays: parseInt(form.leadTimeDays) || 0,
+      minimumOrder: parseFloat(form.minimumOrder) || 0,
+      notes: optional(form.notes)
+    });
+  };
+
+  const matchingProducts = (inventoryItems || []).filter(item =>
+    item.name.toLowerCase().includes(productSearch.toLowerCase()) ||
+    item.sku.toLowerCase().includes(productSearch.toLowerCase())
+  );
+
+  const isLoading = suppliersLoading || inventoryLoading;
+
+  return (
+    <>
+      <Header title={currentPage} />
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="space-y-6">
+          {showForm ? (
+            <div className="bg-white shadow overflow-hidden sm:rounded-lg p-6">
+              <div className="flex justify-between items-center mb-6">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">
+                  {editingSupplier ? 'Edit Supplier' : 'New Supplier'}
+                </h3>
+                <button
+                  onClick={resetForm}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <span className="sr-only">Close</span>
+                  <svg className="h-6 w-6" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="name" className={labelClass}>Name</label>
+                    <input id="name" type="text" className={inputClass} required
+                      value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                  </div>
+                  <div>
+                    <label htmlFor="contactName" className={labelClass}>Contact (optional)</label>
+                    <input id="contactName" type="text" className={inputClass}
+                      value={form.contactName} onChange={(e) => setForm({ ...form, contactName: e.target.value })} />
+                  </div>
+                  <div>
+                    <label htmlFor="email" className={labelClass}>Email (optional)</label>
+                    <input id="email" type="email" className={inputClass}
+                      value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} />
+                  </div>
+                  <div>
+                    <label htmlFor="phone" className={labelClass}>Phone (optional)</label>
+                    <input id="phone" type="tel" className={inputClass}
+                      value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} />
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="address" className={labelClass}>Address (optional)</label>
+                  <input id="address" type="text" className={inputClass}
+                    value={form.address} onChange={(e) => setForm({ ...form, address: e.target.value })} />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="leadTimeDays" className={labelClass}>Lead Time (days)</label>
+                    <input id="leadTimeDays" type="number" min="0" step="1" className={inputClass} required
+                      value={form.leadTimeDays} onChange={(e) => setForm({ ...form, leadTimeDays: e.target.value })} />
+                  </div>
+                  <div>
+                    <label htmlFor="minimumOrder" className={labelClass}>Minimum Order ($)</label>
+                    <input id="minimumOrder" type="number" min="0" step="0.01" className={inputClass} required
+                      value={form.minimumOrder} onChange={(e) => setForm({ ...form, minimumOrder: e.target.value })} />
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="notes" className={labelClass}>Notes (optional)</label>
+                  <textarea id="notes" rows={2} maxLength={500} className={inputClass}
+                    value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+                </div>
+
+                <div>
+                  <span className={labelClass}>Products ({Object.keys(productLinks).length} supplied)</span>
+                  <input
+                    type="text"
+                    placeholder="Search products..."
+                    className={`${inputClass} mb-2`}
+                    value={productSearch}
+                    onChange={(e) => setProductSearch(e.target.value)}
+                  />
+                  <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+                    {matchingProducts.map(item => {
+                      const link = productLinks[item.id];
+                      return (
+                        <div key={item.id} className="px-3 py-2 text-sm hover:bg-gray-50">
+                          <label className="flex items-center cursor-pointer">
+                            <input
+                              type="checkbox"
+                              className="mr-3"
+                              checked={!!link}
+                              onChange={() => toggleProduct(item)}
+                            />
+                            <span className="flex-1">{item.name} <span className="text-gray-400">({item.sku})</span></span>
+                          </label>
+                          {link && (
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-2 ml-7">
+                              <input type="text" placeholder="Supplier SKU" className={inputClass}
+                                aria-label={`Supplier SKU for ${item.name}`}
+                                value={link.supplierSku} onChange={(e) => updateLink(item.id, { supplierSku: e.target.value })} />
+                              <input type="number" min="0" step="0.01" placeholder="Cost ($)" className={inputClass} required
+                                aria-label={`Cost of ${item.name}`}
+                                value={link.cost} onChange={(e) => updateLink(item.id, { cost: e.target.value })} />
+                              <input type="number" min="1" step="1" placeholder={`Pack size (${item.unit})`} className={inputClass}
+                                aria-label={`Pack size of ${item.name}`}
+                                value={link.packSize} onChange={(e) => updateLink(item.id, { packSize: e.target.value })} />
+                              <label className="flex items-center text-gray-700">
+                                <input type="checkbox" className="mr-2" checked={link.preferred}
+                                  onChange={(e) => updateLink(item.id, { preferred: e.target.checked })} />
+                                Preferred supplier
+                              </label>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    onClick={resetForm}
+                    className="mr-3 px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saveMutation.isPending || !form.name.trim()}
+                    className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    {saveMutation.isPending ? "Saving..." : "Save Supplier"}
+                  </button>
+                </div>
+              </form>
+            </div>
+          ) : (
+            <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+              <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">Suppliers</h3>
+                <div className="flex space-x-3">
+                  <input
+                    type="text"
+                    placeholder="Search suppliers..."
+                    className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border border-gray-300 rounded-md py-2 px-4"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                  />
+                  <button
+                    onClick={() => setShowForm(true)}
+                    className="inline-flex items-center whitespace-nowrap px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                    </svg>
+                    New Supplier
+                  </button>
+                </div>
+              </div>
+
+              {isLoading ? (
+                <div className="p-6 text-center">
+                  <i className="fas fa-spinner fa-spin mr-2"></i> Loading data...
+                </div>
+              ) : error ? (
+                <div className="p-6 text-center text-red-500">
+                  <i className="fas fa-exclamation-triangle mr-2"></i> Error loading data. Please try again.
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lead Time</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Minimum Order</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Products</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {filteredSuppliers.length > 0 ? (
+                        filteredSuppliers.map((supplier) => (
+                          <tr key={supplier.id} className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{supplier.name}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              <div>{supplier.contactName || '-'}</div>
+                              <div className="text-xs text-gray-400">{[supplier.email, supplier.phone].filter(Boolean).join(' · ')}</div>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{supplier.leadTimeDays} days</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {supplier.minimumOrder > 0 ? `$${supplier.minimumOrder.toFixed(2)}` : 'None'}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{linkedProductCount(supplier.id)}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                              <button
+                                onClick={() => handleEditClick(supplier)}
+                                className="text-blue-600 hover:text-blue-900 mr-3"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => setDeletingSupplier(supplier)}
+                                className="text-red-600 hover:text-red-900"
+                              >
+                                Delete
+                              </button>
+                            </td>
+                          </tr>
+                        ))
+                      ) : (
+                        <tr>
+                          <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                            {searchTerm ? 'No matching suppliers found.' : 'No suppliers yet.'}
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <DeleteConfirmationModal
+        isOpen={!!deletingSupplier}
+        itemName={deletingSupplier?.name || ""}
+        onConfirm={() => deletingSupplier && deleteMutation.mutate(deletingSupplier)}
+        onCancel={() => setDeletingSupplier(null)}
+        isDeleting={deleteMutation.isPending}
+      />
+    </>
+  );
+};
+
+export default Suppliers;
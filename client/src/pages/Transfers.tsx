@@ -0,0 +1,479 @@
+import React, { useState } from "react";
+import Header from "@/components/Header";
+import LocationSelect, { useLocations } from "@/components/LocationSelect";
+import { useAppContext } from "@/context/AppContext";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, lineErrorsByProduct } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorToast } from "@/hooks/useErrorToast";
+import {
+  STOCK_TRANSFER_STATUS_LABELS,
+  formatStockTransferNumber,
+  transferQuantity
+} from "@shared/stockTransfers";
+import { resolveBarcode } from "@shared/barcodes";
+import { describeLot } from "@shared/lots";
+import { DEFAULT_LOCATION_ID, stockAt } from "@shared/locations";
+import { isBundle } from "@shared/bundles";
+import type { BundleComponent, ItemBarcode, StockTransfer, StockTransferRequest, StockTransferStatus } from "@shared/schema";
+
+// Define types for inventory data
+interface InventoryItem {
+  id: number;
+  name: string;
+  sku: string;
+  unit: string;
+  stock: number;
+  locationStock?: Record<string, number>;
+  barcode?: string;
+  barcodes?: ItemBarcode[];
+  components?: BundleComponent[];
+}
+
+const statusStyles: Record<StockTransferStatus, string> = {
+  in_transit: "bg-yellow-100 text-yellow-800",
+  received: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-800"
+};
+
+const formatDate = (value?: string) => value
+  ? new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }).format(new Date(value))
+  : '-';
+
+// Sending, receiving and cancelling all answer with the updated transfer
+const postTransfer = async (url: string, data?: unknown): Promise<StockTransfer> => {
+  const response = await apiRequest({ url, method: 'POST', data });
+  return await response.json() as StockTransfer;
+};
+
+/**
+ * Stock transfers between locations
+ * Stock leaves the sending location when a transfer is sent and is in transit,
+ * at neither location, until it is received. Managers can cancel a transfer
+ * that never arrives, which puts the stock back where it came from.
+ */
+const Transfers: React.FC = () => {
+  const { currentPage } = useAppContext();
+  const [showNewTransfer, setShowNewTransfer] = useState(false);
+  const [fromLocationId, setFromLocationId] = useState<number>(DEFAULT_LOCATION_ID);
+  const [toLocationId, setToLocationId] = useState<number | undefined>(undefined);
+  const [lines, setLines] = useState<{ productId: number; quantity: string }[]>([]);
+  const [productId, setProductId] = useState("");
+  const [barcode, setBarcode] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lineErrors, setLineErrors] = useState<Record<number, string>>({});
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const { toast } = useToast();
+  const showError = useErrorToast();
+
+  // Only managers call off a transfer
+  const [isManager] = useState(() => {
+    try {
+      const role = JSON.parse(sessionStorage.getItem("user") || "{}").role;
+      return role === "Administrator" || role === "Manager";
+    } catch {
+      return false;
+    }
+  });
+
+  const { data: transfers, isLoading, error } = useQuery({
+    queryKey: ['/api/transfers'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/transfers');
+      return await response.json() as StockTransfer[];
+    }
+  });
+
+  // Inventory, to pick items, match scanned barcodes and show the stock available to send
+  const { data: inventoryItems } = useQuery({
+    queryKey: ['/api/inventory'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/inventory');
+      return await response.json() as InventoryItem[];
+    }
+  });
+
+  const { data: locations } = useLocations();
+  const locationName = (id: number) => locations?.find(location => location.id === id)?.name || `Location ${id}`;
+  const itemById = (id: number) => inventoryItems?.find(item => item.id === id);
+
+  const resetForm = () => {
+    setShowNewTransfer(false);
+    setLines([]);
+    setProductId("");
+    setNotes("");
+    setLineErrors({});
+  };
+
+  const addQuantity = (id: number, quantity: number) => {
+    setLines(current => current.some(line => line.productId === id)
+      ? current.map(line => line.productId === id ? { ...line, quantity: String((parseFloat(line.quantity) || 0) + quantity) } : line)
+      : [...current, { productId: id, quantity: String(quantity) }]);
+    setLineErrors(current => {
+      const { [id]: _removed, ...rest } = current;
+      return rest;
+    });
+  };
+
+  // Each scan adds one unit of the scanned item, or a whole case for a case barcode
+  const handleBarcodeScan = (value: string) => {
+    const code = value.trim();
+    if (!code) return;
+    const match = resolveBarcode(inventoryItems || [], code);
+    if (!match) {
+      toast({ title: "Not found", description: `No product matches barcode ${code}`, variant: "destructive" });
+      return;
+    }
+    addQuantity(match.item.id, match.packQuantity);
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/transfers'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/alerts/low-stock'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+  };
+
+  const sendMutation = useMutation({
+    mutationFn: (request: StockTransferRequest) => postTransfer('/api/transfers', request),
+    onSuccess: (transfer) => {
+      toast({
+        title: "Transfer sent",
+        description: `${formatStockTransferNumber(transfer.id)} is on its way to ${locationName(transfer.toLocationId)}.`,
+      });
+      resetForm();
+      invalidate();
+    },
+    onError: (error) => {
+      const errors = lineErrorsByProduct(error);
+      if (errors) {
+        setLineErrors(errors);
+      }
+      showError(error, "Failed to send transfer");
+    }
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ id, action }: { id: number; action: 'receive' | 'cancel' }) =>
+      postTransfer(`/api/transfers/${id}/${action}`),
+    onSuccess: (transfer) => {
+      toast({
+        title: transfer.status === 'received' ? "Transfer received" : "Transfer cancelled",
+        description: transfer.status === 'received'
+          ? `${formatStockTransferNumber(transfer.id)} is now in stock at ${locationName(transfer.toLocationId)}.`
+          : `The stock on ${formatStockTransferNumber(transfer.id)} is back at ${locationName(transfer.fromLocationId)}.`,
+      });
+      invalidate();
+    },
+    onError: (error) => showError(error, "Failed to update transfer")
+  });
+
+  const handleSend = () => {
+    if (toLocationId === undefined || toLocationId === fromLocationId) {
+      showError(null, "Choose a different location to send to");
+      return;
+    }
+    const picked = lines
+      .map(line => ({ productId: line.productId, quantity: parseFloat(line.quantity) || 0 }))
+      .filter(line => line.quantity > 0);
+    if (picked.length === 0) {
+      showError(null, "Add at least one item to send");
+      return;
+    }
+    sendMutation.mutate({ fromLocationId, toLocationId, lines: picked, notes: notes.trim() || undefined });
+  };
+
+  const handleAction = (transfer: StockTransfer, action: 'receive' | 'cancel') => {
+    const messages = {
+      receive: `Book ${formatStockTransferNumber(transfer.id)} into stock at ${locationName(transfer.toLocationId)}?`,
+      cancel: `Cancel ${formatStockTransferNumber(transfer.id)}? The stock goes back to ${locationName(transfer.fromLocationId)}.`
+    };
+    if (window.confirm(messages[action])) {
+      actionMutation.mutate({ id: transfer.id, action });
+    }
+  };
+
+  return (
+    <>
+      <Header title={currentPage} />
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="space-y-6">
+          {showNewTransfer && (
+            <div className="bg-white shadow sm:rounded-lg p-6 space-y-4">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">Send Stock</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="transferFrom" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                  <LocationSelect
+                    id="transferFrom"
+                    value={fromLocationId}
+                    onChange={(value) => { setFromLocationId(value ?? DEFAULT_LOCATION_ID); setLineErrors({}); }}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="transferTo" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                  <LocationSelect
+                    id="transferTo"
+                    value={toLocationId}
+                    onChange={setToLocationId}
+                    allowAll
+                    className="w-full rounded-md border border-gray-300 px-3 py-2"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="flex gap-2">
+                  <select
+                    aria-label="Item to send"
+                    className="w-full rounded-md border border-gray-300 px-3 py-2"
+                    value={productId}
+                    onChange={(e) => setProductId(e.target.value)}
+                  >
+                    <option value="">Choose an item</option>
+                    {(inventoryItems || []).filter(item => !isBundle(item) && stockAt(item, fromLocationId) > 0).map(item => (
+                      <option key={item.id} value={item.id}>
+                        {item.name} - {item.sku} ({stockAt(item, fromLocationId)} {item.unit} here)
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => { if (productId) { addQuantity(parseInt(productId), 1); setProductId(""); } }}
+                    disabled={!productId}
+                    className="whitespace-nowrap px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Add
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  placeholder="Scan or type a barcode and press Enter"
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  value={barcode}
+                  onChange={(e) => setBarcode(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleBarcodeScan(barcode);
+                      setBarcode("");
+                    }
+                  }}
+                />
+              </div>
+
+              {lines.length > 0 && (
+                <div className="overflow-x-auto border border-gray-200 rounded-md">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                        <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Available</th>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Send</th>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {lines.map(line => {
+                        const item = itemById(line.productId);
+                        return (
+                          <tr key={line.productId} className={lineErrors[line.productId] ? "bg-red-50" : ""}>
+                            <td className="px-4 py-3 text-sm">
+                              <div className="font-medium text-gray-900">{item?.name}</div>
+                              {lineErrors[line.productId] && <div className="text-xs text-red-600">{lineErrors[line.productId]}</div>}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right text-gray-500">
+                              {item ? `${stockAt(item, fromLocationId)} ${item.unit}` : '-'}
+                            </td>
+                            <td className="px-4 py-3 text-sm">
+                              <input
+                                type="number"
+                                min="0"
+                                step="any"
+                                className="w-24 rounded-md border border-gray-300 px-2 py-1"
+                                aria-label={`Quantity of ${item?.name} to send`}
+                                value={line.quantity}
+                                onChange={(e) => setLines(current => current.map(entry =>
+                                  entry.productId === line.productId ? { ...entry, quantity: e.target.value } : entry))}
+                              />
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right">
+                              <button
+                                onClick={() => setLines(current => current.filter(entry => entry.productId !== line.productId))}
+                                className="text-red-600 hover:text-red-900"
+                              >
+                                Remove
+                              </button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="transferNotes" className="block text-sm font-medium text-gray-700 mb-1">Notes (optional)</label>
+                <input
+                  id="transferNotes"
+                  type="text"
+                  maxLength={500}
+                  placeholder="e.g. Restock for the weekend"
+                  className="w-full rounded-md border border-gray-300 px-3 py-2"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="mr-3 px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSend}
+                  disabled={sendMutation.isPending || lines.length === 0}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {sendMutation.isPending ? "Sending..." : "Send Transfer"}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+            <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+              <div>
+                <h3 className="text-lg leading-6 font-medium text-gray-900">Stock Transfers</h3>
+                <p className="mt-1 max-w-2xl text-sm text-gray-500">
+                  Stock sent between locations. It is in transit, at neither location, until it is received.
+                </p>
+              </div>
+              {!showNewTransfer && (
+                <button
+                  onClick={() => setShowNewTransfer(true)}
+                  disabled={(locations || []).filter(location => location.active).length < 2}
+                  title={(locations || []).filter(location => location.active).length < 2 ? "Add a second location in Settings first" : undefined}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm disabled:opacity-50"
+                >
+                  New Transfer
+                </button>
+              )}
+            </div>
+
+            {isLoading ? (
+              <div className="p-6 text-center">
+                <i className="fas fa-spinner fa-spin mr-2"></i> Loading transfers...
+              </div>
+            ) : error ? (
+              <div className="p-6 text-center text-red-500">
+                <i className="fas fa-exclamation-triangle mr-2"></i> Error loading transfers. Please try again.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Transfer</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">To</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sent</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Items</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {(transfers || []).length > 0 ? (
+                      transfers!.map(transfer => (
+                        <React.Fragment key={transfer.id}>
+                          <tr className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                              <button onClick={() => setExpandedId(expandedId === transfer.id ? null : transfer.id)} className="hover:underline">
+                                {formatStockTransferNumber(transfer.id)}
+                              </button>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{locationName(transfer.fromLocationId)}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{locationName(transfer.toLocationId)}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(transfer.sentAt)} by {transfer.sentBy}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {transfer.lines.length} ({transferQuantity(transfer.lines)} units)
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusStyles[transfer.status]}`}>
+                                {STOCK_TRANSFER_STATUS_LABELS[transfer.status]}
+                              </span>
+                              {transfer.receivedAt && (
+                                <div className="text-xs text-gray-400">{formatDate(transfer.receivedAt)} by {transfer.receivedBy}</div>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm space-x-3">
+                              {transfer.status === 'in_transit' && (
+                                <>
+                                  <button
+                                    onClick={() => handleAction(transfer, 'receive')}
+                                    disabled={actionMutation.isPending}
+                                    className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-sm disabled:opacity-50"
+                                  >
+                                    Receive
+                                  </button>
+                                  {isManager && (
+                                    <button
+                                      onClick={() => handleAction(transfer, 'cancel')}
+                                      disabled={actionMutation.isPending}
+                                      className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                                    >
+                                      Cancel
+                                    </button>
+                                  )}
+                                </>
+                              )}
+                            </td>
+                          </tr>
+                          {expandedId === transfer.id && (
+                            <tr>
+                              <td colSpan={7} className="px-6 py-3 bg-gray-50 text-sm text-gray-600">
+                                <ul className="space-y-1">
+                                  {transfer.lines.map(line => (
+                                    <li key={line.productId}>
+                                      {line.quantity} {line.unit} x {line.name} ({line.sku})
+                                      {line.lots?.map(lot => (
+                                        <span key={`${lot.lotNumber}-${lot.expiryDate}`} className="ml-2 text-xs text-gray-400">
+                                          {describeLot(lot)}: {lot.quantity}
+                                        </span>
+                                      ))}
+                                    </li>
+                                  ))}
+                                </ul>
+                                {transfer.notes && <p className="mt-2 text-xs text-gray-500">Notes: {transfer.notes}</p>}
+                              </td>
+                            </tr>
+                          )}
+                        </React.Fragment>
+                      ))
+                    ) : (
+                      <tr>
+                        <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                          No stock has been transferred yet.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </>
+  );
+};
+
+export default Transfers;
@@ -17,6 +17,8 @@ interface User {
   role: string;
   lastActive: string;
   status: string;
+  locked?: boolean;      // Locked out after repeated failed logins
+  lockedUntil?: string;
 }
 
 const UserManagement: React.FC = () => {
@@ -26,6 +28,7 @@ const UserManagement: React.FC = () => {
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [deletingUser, setDeletingUser] = useState<User | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [unlockingUserId, setUnlockingUserId] = useState<number | null>(null);
   const { toast } = useToast();
   
   // Fetch users from API
@@ -74,6 +77,31 @@ const UserManagement: React.FC = () => {
     refetch();
   };
 
+  const handleUnlockClick = async (user: User) => {
+    setUnlockingUserId(user.id);
+    try {
+      await apiRequest({
+        url: `/api/users/${user.id}/unlock`,
+        method: 'POST'
+      });
+      
+      toast({
+        title: "Account Unlocked",
+        description: `${user.name} can log in again`,
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "An error occurred while unlocking the user",
+        variant: "destructive"
+      });
+    } finally {
+      setUnlockingUserId(null);
+    }
+  };
+
   const handleDeleteClick = (user: User) => {
     setDeletingUser(user);
   };
@@ -222,9 +250,29 @@ const UserManagement: React.FC = () => {
                               }`}>
                                 {user.status}
                               </span>
+                              {user.locked && (
+                                <span 
+                                  className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-amber-100 text-amber-800"
+                                  title={user.lockedUntil ? `Locked until ${formatDate(user.lockedUntil)}` : undefined}
+                                >
+                                  Locked
+                                </span>
+                              )}
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                               <div className="flex items-center space-x-3">
+                                {user.locked && (
+                                  <button 
+                                    onClick={() => handleUnlockClick(user)}
+                                    disabled={unlockingUserId === user.id}
+                                    className="text-amber-600 hover:text-amber-900 bg-amber-50 p-1 rounded-md disabled:opacity-50"
+                                    title="Unlock Account"
+                                  >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                      <path d="M10 2a5 5 0 00-5 5v2a2 2 0 00-2 2v5a2 2 0 002 2h10a2 2 0 002-2v-5a2 2 0 00-2-2H7V7a3 3 0 015.905-.75 1 1 0 001.937-.5A5.002 5.002 0 0010 2z" />
+                                    </svg>
+                                  </button>
+                                )}
                                 <button 
                                   onClick={() => handleEditClick(user)}
                                   className="text-blue-600 hover:text-blue-900 bg-blue-50 p-1 rounded-md"
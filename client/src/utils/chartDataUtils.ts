@@ -1,4 +1,6 @@
 import { format, parseISO, startOfDay, endOfDay, isWithinInterval, isValid } from 'date-fns';
+import { rollUpByCategory } from '@shared/categories';
+import type { Category } from '@shared/schema';
 
 // Transform raw sales data into time series format for charts
 export const transformSalesData = (salesData: any[]) => {
@@ -205,33 +207,22 @@ export const transformCashierData = (salesData: any[]) => {
   }));
 };
 
-// Group inventory by category
-export const transformCategoryData = (inventoryData: any[]) => {
+// Group inventory by category, folding subcategories into their parents
+// With topLevelOnly each top-level category carries its whole tree; otherwise every level is listed by its path
+export const transformCategoryData = (inventoryData: any[], categories: Category[] = [], topLevelOnly: boolean = false) => {
   if (!Array.isArray(inventoryData) || inventoryData.length === 0) {
     return [];
   }
 
-  // Group by category
-  const categoryStats: {[key: string]: {count: number, value: number}} = {};
-  
-  inventoryData.forEach(item => {
-    const category = item.category || 'Uncategorized';
-    
-    if (!categoryStats[category]) {
-      categoryStats[category] = {
-        count: 0,
-        value: 0
-      };
-    }
-    
-    categoryStats[category].count += 1;
-    categoryStats[category].value += (Number(item.stock) || 0) * (Number(item.price) || 0);
-  });
+  const values = inventoryData.map(item => ({
+    category: item.category || '',
+    value: (Number(item.stock) || 0) * (Number(item.price) || 0)
+  }));
   
   // Convert to array format for charts
-  return Object.entries(categoryStats)
-    .map(([category, stats]) => ({
-      category,
+  return rollUpByCategory(values, categories, topLevelOnly)
+    .map(({ name, ...stats }) => ({
+      category: name,
       ...stats
     }))
     .sort((a, b) => b.value - a.value); // Sort by value (descending)
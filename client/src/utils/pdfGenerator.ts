@@ -31,8 +31,60 @@ export interface ReceiptData {
     price: number;
     unit?: string;
     subtotal: number;
+    discounts?: { source?: string; description: string; amount: number }[];
+  }[];
+  subtotal?: number; // Before discounts and tax
+  cartDiscount?: { description: string; amount: number };
+  tax?: number;
+  total: number;     // After discounts, including tax
+  tenders?: { label: string; amount: number }[];
+  change?: number;
+  storeSettings?: StoreSettings;
+}
+
+// Type for data used when generating a refund receipt
+export interface RefundReceiptData {
+  transactionId: string;   // The original sale
+  returnId: number;
+  date: string;
+  processedBy: string;
+  reason: string;
+  notes?: string;
+  lines: {
+    name: string;
+    quantity: number;
+    unit?: string;
+    amount: number;        // Refunded, including tax
+    restocked: boolean;
+  }[];
+  tax: number;
+  total: number;
+  tender: string;          // How the refund was given back
+  storeSettings?: StoreSettings;
+}
+
+// Type for data used when generating a purchase order
+export interface PurchaseOrderData {
+  orderNumber: string;
+  date: string;
+  expectedDate?: string;
+  createdBy: string;
+  supplier: {
+    name: string;
+    contactName?: string;
+    email?: string;
+    phone?: string;
+    address?: string;
+  };
+  lines: {
+    name: string;
+    supplierSku?: string;
+    quantity: number;
+    unit?: string;
+    unitCost: number;
   }[];
   total: number;
+  notes?: string;
   storeSettings?: StoreSettings;
 }
 
@@ -110,11 +162,17 @@ export const generateReceiptPdf = (data: ReceiptData): Blob => {
   
   // Items table
   const tableHeaders = [['Item', 'Qty', 'Price', 'Subtotal']];
-  const tableRows = data.items.map(item => [
-    item.name,
-    item.quantity.toString() + (item.unit ? ` ${item.unit}` : ''),
-    `$${item.price.toFixed(2)}`,
-    `$${item.subtotal.toFixed(2)}`
+  const tableRows = data.items.flatMap(item => [
+    [
+      item.name,
+      item.quantity.toString() + (item.unit ? ` ${item.unit}` : ''),
+      `$${item.price.toFixed(2)}`,
+      `$${item.subtotal.toFixed(2)}`
+    ],
+    // Line promotions and discounts; cart discount shares are printed once in the totals
+    ...(item.discounts || [])
+      .filter(discount => discount.source !== 'cart')
+      .map(discount => [`  ${discount.description}`, '', '', `-$${discount.amount.toFixed(2)}`])
   ]);
   
   // Add the table
@@ -138,12 +196,44 @@ export const generateReceiptPdf = (data: ReceiptData): Blob => {
   const tableEndY = (doc as any).lastAutoTable?.finalY;
   yPos = tableEndY ? tableEndY + 10 : yPos + 10;
   
+  // Subtotal and tax, when the sale recorded them
+  if (data.subtotal !== undefined && data.tax !== undefined) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(normalFontSize);
+    doc.text('Subtotal:', margin + pageWidth - 50, yPos);
+    doc.text(`$${data.subtotal.toFixed(2)}`, margin + pageWidth - 10, yPos, { align: 'right' });
+    yPos += 6;
+    if (data.cartDiscount) {
+      doc.text('Cart discount:', margin + pageWidth - 50, yPos);
+      doc.text(`-$${data.cartDiscount.amount.toFixed(2)}`, margin + pageWidth - 10, yPos, { align: 'right' });
+      yPos += 6;
+    }
+    doc.text('Tax:', margin + pageWidth - 50, yPos);
+    doc.text(`$${data.tax.toFixed(2)}`, margin + pageWidth - 10, yPos, { align: 'right' });
+    yPos += 8;
+  }
+  
   // Total amount
   doc.setFont('helvetica', 'bold');
   doc.setFontSize(headerFontSize);
   doc.text('Total:', margin + pageWidth - 50, yPos);
   doc.text(`$${data.total.toFixed(2)}`, margin + pageWidth - 10, yPos, { align: 'right' });
-  yPos += 15;
+  yPos += 8;
+  
+  // How the sale was paid
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(normalFontSize);
+  (data.tenders || []).forEach(tender => {
+    doc.text(`${tender.label}:`, margin + pageWidth - 50, yPos);
+    doc.text(`$${tender.amount.toFixed(2)}`, margin + pageWidth - 10, yPos, { align: 'right' });
+    yPos += 6;
+  });
+  if (data.change) {
+    doc.text('Change:', margin + pageWidth - 50, yPos);
+    doc.text(`$${data.change.toFixed(2)}`, margin + pageWidth - 10, yPos, { align: 'right' });
+    yPos += 6;
+  }
+  yPos += 7;
   
   // Thank you message
   doc.setFont('helvetica', 'normal');
@@ -186,6 +276,263 @@ export const generateReceiptPdf = (data: ReceiptData): Blob => {
   return doc.output('blob');
 };
 
+/**
+ * Generate a PDF refund receipt for one return against a sale
+ * @param data Refund details and store settings
+ * @returns A Blob containing the PDF document
+ */
+export const generateRefundReceiptPdf = (data: RefundReceiptData): Blob => {
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4'
+  });
+  
+  const storeSettings = data.storeSettings || defaultStoreSettings;
+  
+  doc.setProperties({
+    title: `Refund #${data.transactionId}-${data.returnId}`,
+    subject: 'Refund Receipt',
+    author: 'Inventory Pro',
+    creator: 'Inventory Pro System'
+  });
+  
+  // Font sizes
+  const titleFontSize = 14;
+  const headerFontSize = 12;
+  const normalFontSize = 10;
+  const smallFontSize = 8;
+  
+  // Margins and positions
+  const margin = 15;
+  const pageWidth = doc.internal.pageSize.width - 2 * margin;
+  let yPos = margin;
+  
+  const centerText = (text: string, y: number, fontSize: number) => {
+    doc.setFontSize(fontSize);
+    const textWidth = doc.getStringUnitWidth(text) * fontSize / doc.internal.scaleFactor;
+    const x = (doc.internal.pageSize.width - textWidth) / 2;
+    doc.text(text, x, y);
+    return y + fontSize / 4;
+  };
+  
+  // Store details
+  doc.setFont('helvetica', 'bold');
+  yPos = centerText(storeSettings.storeName, yPos + 5, titleFontSize);
+  doc.setFont('helvetica', 'normal');
+  yPos = centerText(storeSettings.storeAddress, yPos + 5, smallFontSize);
+  yPos = centerText(storeSettings.storePhone, yPos + 4, smallFontSize);
+  
+  doc.setDrawColor(200, 200, 200);
+  doc.line(margin, yPos + 3, margin + pageWidth, yPos + 3);
+  yPos += 8;
+  
+  // Refund header details
+  doc.setFontSize(headerFontSize);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`REFUND #${data.returnId} FOR RECEIPT #${data.transactionId}`, margin, yPos);
+  yPos += 6;
+  
+  doc.setFontSize(normalFontSize);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Date: ${data.date}`, margin, yPos);
+  doc.text(`Processed by: ${data.processedBy}`, margin + pageWidth/2, yPos);
+  yPos += 6;
+  doc.text(`Reason: ${data.reason}`, margin, yPos);
+  yPos += 6;
+  if (data.notes) {
+    doc.text(`Notes: ${data.notes}`, margin, yPos);
+    yPos += 6;
+  }
+  yPos += 2;
+  
+  // Returned items table
+  autoTable(doc, {
+    head: [['Item', 'Qty', 'Condition', 'Refund']],
+    body: data.lines.map(line => [
+      line.name,
+      line.quantity.toString() + (line.unit ? ` ${line.unit}` : ''),
+      line.restocked ? 'Restocked' : 'Not resellable',
+      `$${line.amount.toFixed(2)}`
+    ]),
+    startY: yPos,
+    margin: { left: margin, right: margin },
+    theme: 'grid',
+    headStyles: { fillColor: [192, 57, 43], textColor: 255 },
+    styles: { fontSize: normalFontSize },
+    columnStyles: {
+      0: { cellWidth: 'auto' },
+      1: { cellWidth: 20, halign: 'center' },
+      2: { cellWidth: 35, halign: 'center' },
+      3: { cellWidth: 30, halign: 'right' }
+    }
+  });
+  
+  const tableEndY = (doc as any).lastAutoTable?.finalY;
+  yPos = tableEndY ? tableEndY + 10 : yPos + 10;
+  
+  // Totals
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(normalFontSize);
+  doc.text('Tax refunded:', margin + pageWidth - 50, yPos);
+  doc.text(`$${data.tax.toFixed(2)}`, margin + pageWidth - 10, yPos, { align: 'right' });
+  yPos += 8;
+  
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(headerFontSize);
+  doc.text('Refund total:', margin + pageWidth - 50, yPos);
+  doc.text(`$${data.total.toFixed(2)}`, margin + pageWidth - 10, yPos, { align: 'right' });
+  yPos += 8;
+  
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(normalFontSize);
+  doc.text('Refunded to:', margin + pageWidth - 50, yPos);
+  doc.text(data.tender, margin + pageWidth - 10, yPos, { align: 'right' });
+  
+  // Footer with current date time
+  const footerText = `Generated on: ${format(new Date(), 'PPpp')}`;
+  doc.setFontSize(smallFontSize);
+  doc.setTextColor(150);
+  doc.text(
+    footerText,
+    doc.internal.pageSize.width / 2,
+    doc.internal.pageSize.height - 10,
+    { align: 'center' }
+  );
+  
+  return doc.output('blob');
+};
+
+/**
+ * Generate a PDF purchase order to send to a supplier
+ * @param data Order details, supplier contact and store settings
+ * @returns A Blob containing the PDF document
+ */
+export const generatePurchaseOrderPdf = (data: PurchaseOrderData): Blob => {
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4'
+  });
+  
+  const storeSettings = data.storeSettings || defaultStoreSettings;
+  
+  doc.setProperties({
+    title: `Purchase Order ${data.orderNumber}`,
+    subject: 'Purchase Order',
+    author: 'Inventory Pro',
+    creator: 'Inventory Pro System'
+  });
+  
+  // Font sizes
+  const titleFontSize = 16;
+  const headerFontSize = 12;
+  const normalFontSize = 10;
+  const smallFontSize = 8;
+  
+  // Margins and positions
+  const margin = 15;
+  const pageWidth = doc.internal.pageSize.width - 2 * margin;
+  let yPos = margin + 5;
+  
+  // Title and order details
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(titleFontSize);
+  doc.text('PURCHASE ORDER', margin, yPos);
+  doc.setFontSize(headerFontSize);
+  doc.text(data.orderNumber, margin + pageWidth, yPos, { align: 'right' });
+  yPos += 7;
+  
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(normalFontSize);
+  doc.text(`Date: ${data.date}`, margin + pageWidth, yPos, { align: 'right' });
+  if (data.expectedDate) {
+    doc.text(`Deliver by: ${data.expectedDate}`, margin + pageWidth, yPos + 5, { align: 'right' });
+  }
+  yPos += 12;
+  
+  // Buyer (the store) and supplier side by side
+  const supplierLines = [
+    data.supplier.name,
+    data.supplier.contactName ? `Attn: ${data.supplier.contactName}` : '',
+    data.supplier.address || '',
+    data.supplier.phone || '',
+    data.supplier.email || ''
+  ].filter(Boolean);
+  const storeLines = [
+    storeSettings.storeName,
+    storeSettings.storeAddress,
+    storeSettings.storePhone,
+    `Ordered by: ${data.createdBy}`
+  ];
+  
+  doc.setFont('helvetica', 'bold');
+  doc.text('Supplier', margin, yPos);
+  doc.text('Deliver To', margin + pageWidth / 2, yPos);
+  doc.setFont('helvetica', 'normal');
+  yPos += 5;
+  const blockLines = Math.max(supplierLines.length, storeLines.length);
+  for (let i = 0; i < blockLines; i++) {
+    if (supplierLines[i]) doc.text(supplierLines[i], margin, yPos + i * 5);
+    if (storeLines[i]) doc.text(storeLines[i], margin + pageWidth / 2, yPos + i * 5);
+  }
+  yPos += blockLines * 5 + 5;
+  
+  // Ordered items table
+  autoTable(doc, {
+    head: [['Item', 'Supplier SKU', 'Qty', 'Unit Cost', 'Line Total']],
+    body: data.lines.map(line => [
+      line.name,
+      line.supplierSku || '-',
+      line.quantity.toString() + (line.unit ? ` ${line.unit}` : ''),
+      `$${line.unitCost.toFixed(2)}`,
+      `$${(line.quantity * line.unitCost).toFixed(2)}`
+    ]),
+    startY: yPos,
+    margin: { left: margin, right: margin },
+    theme: 'grid',
+    headStyles: { fillColor: [41, 128, 185], textColor: 255 },
+    styles: { fontSize: normalFontSize },
+    columnStyles: {
+      0: { cellWidth: 'auto' },
+      1: { cellWidth: 35 },
+      2: { cellWidth: 20, halign: 'center' },
+      3: { cellWidth: 25, halign: 'right' },
+      4: { cellWidth: 30, halign: 'right' }
+    }
+  });
+  
+  const tableEndY = (doc as any).lastAutoTable?.finalY;
+  yPos = tableEndY ? tableEndY + 10 : yPos + 10;
+  
+  // Total
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(headerFontSize);
+  doc.text('Order total:', margin + pageWidth - 50, yPos);
+  doc.text(`$${data.total.toFixed(2)}`, margin + pageWidth, yPos, { align: 'right' });
+  yPos += 10;
+  
+  if (data.notes) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(normalFontSize);
+    const notes = doc.splitTextToSize(`Notes: ${data.notes}`, pageWidth);
+    doc.text(notes, margin, yPos);
+  }
+  
+  // Footer with current date time
+  const footerText = `Generated on: ${format(new Date(), 'PPpp')}`;
+  doc.setFontSize(smallFontSize);
+  doc.setTextColor(150);
+  doc.text(
+    footerText,
+    doc.internal.pageSize.width / 2,
+    doc.internal.pageSize.height - 10,
+    { align: 'center' }
+  );
+  
+  return doc.output('blob');
+};
+
 /**
  * Generate a PDF report from tabular data
  * @param title Report title
@@ -296,6 +643,30 @@ export const generateReportPdf = (
       doc.text(`Total Value Lost: $${totalValue.toFixed(2)}`, margin + pageWidth/2, yPos);
       yPos += 8;
     }
+    else if (reportType === 'tax') {
+      // Add tax summary
+      const taxableSales = additionalData.taxableSales || 0;
+      const taxCollected = additionalData.taxCollected || 0;
+      doc.text(`Taxable Sales: $${taxableSales.toFixed(2)}`, margin, yPos);
+      doc.text(`Total Tax Collected: $${taxCollected.toFixed(2)}`, margin + pageWidth/2, yPos);
+      yPos += 8;
+    }
+    else if (reportType === 'tenders') {
+      // Add end-of-day takings summary
+      const totalTaken = additionalData.totalTaken || 0;
+      const cashInDrawer = additionalData.cashInDrawer || 0;
+      doc.text(`Total Taken: $${totalTaken.toFixed(2)}`, margin, yPos);
+      doc.text(`Cash in Drawer: $${cashInDrawer.toFixed(2)}`, margin + pageWidth/2, yPos);
+      yPos += 8;
+    }
+    else if (reportType === 'count-variance') {
+      // Add stock count variance summary
+      const netValue = additionalData.netValue || 0;
+      const shrinkage = additionalData.shrinkage || 0;
+      doc.text(`Net Variance: $${netValue.toFixed(2)}`, margin, yPos);
+      doc.text(`Stock Missing: $${Math.abs(shrinkage).toFixed(2)}`, margin + pageWidth/2, yPos);
+      yPos += 8;
+    }
   }
   
   // Format headers for the table
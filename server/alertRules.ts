@@ -0,0 +1,280 @@
+/**
+ * Alert Rules
+ *
+ * Checks the rules managers set up on the alert rules page against sales,
+ * losses and inventory. Refunds, voids and weekly losses set a rule off once
+ * each. A low margin or an item that has stopped selling stays alerted on
+ * until it is put right, and is alerted on again if it comes back. Each new
+ * alert is sent to the rule's roles as a notification and recorded in the
+ * activity log.
+ *
+ * There is no separate void in the POS, so a void here is a sale refunded
+ * while the shift it was rung up in was still open.
+ */
+import type { AlertRule, AlertRuleType } from "@shared/schema";
+import { addDays, businessDay, weekStart, type BusinessDaySettings } from "@shared/businessDay";
+import { withBundleDetails } from "@shared/bundles";
+import { roundCurrency } from "@shared/tax";
+import { config } from "./config";
+import { ActivityLogger, LOG_ACTIONS } from "./logger";
+import { notify } from "./notifications";
+import { storage, type InventoryItem, type LossItem, type RuleAlert, type Sale, type Shift, type StockMovement } from "./storage";
+
+// What rules are checked against
+export type AlertRuleData = {
+  inventory: InventoryItem[];
+  sales: Sale[];
+  losses: LossItem[];
+  shifts: Shift[];
+  movements: StockMovement[];
+  businessDay?: BusinessDaySettings;
+};
+
+// Something a rule matched
+export type RuleFinding = {
+  key: string;
+  message: string;
+  value: number;
+  link?: string;
+};
+
+// Rules on a state of things rather than on events; their alerts are resolved once the state passes
+const STATE_RULES: AlertRuleType[] = ["margin_below", "no_sales"];
+
+// A rule matching more than this many things at once sends one notification for all of them
+const MAX_NOTIFICATIONS_PER_RULE = 3;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Every refund given on a sale, itemized returns or a full refund from before returns were itemized
+ */
+function refundsOf(sale: Sale): { key: string; date: string; amount: number; by: string }[] {
+  if (sale.returns) {
+    return sale.returns.map(entry => ({ key: `${sale.id}/${entry.id}`, date: entry.date, amount: entry.amount, by: entry.processedBy }));
+  }
+  return sale.refundDate
+    ? [{ key: sale.id, date: sale.refundDate, amount: sale.refundedAmount || 0, by: sale.refundedBy || "Someone" }]
+    : [];
+}
+
+function inCategory(item: InventoryItem, rule: AlertRule): boolean {
+  return !rule.category || item.category === rule.category;
+}
+
+/**
+ * What a rule matches in the data
+ *
+ * @param rule - The rule to check
+ * @param data - Sales, losses, inventory and the store's business day
+ * @param now - The time to check at
+ */
+export function evaluateRule(rule: AlertRule, data: AlertRuleData, now: Date = new Date()): RuleFinding[] {
+  // Events from before the rule was created would otherwise all be alerted on at once
+  const since = rule.createdAt || "";
+
+  switch (rule.type) {
+    case "refund_over":
+      return data.sales.flatMap(sale => refundsOf(sale)
+        .filter(refund => refund.date >= since && refund.amount > rule.threshold)
+        .map(refund => ({
+          key: `refund:${refund.key}`,
+          message: `${refund.by} refunded $${refund.amount.toFixed(2)} on sale ${sale.id}.`,
+          value: refund.amount,
+          link: "/sales"
+        })));
+
+    case "voids_per_shift":
+      return data.shifts
+        .filter(shift => !shift.closedAt || shift.closedAt >= since)
+        .flatMap(shift => {
+          const closedAt = shift.closedAt || now.toISOString();
+          const voids = data.sales.filter(sale =>
+            sale.shiftId === shift.id && refundsOf(sale).some(refund => refund.date <= closedAt)
+          ).length;
+          return voids > rule.threshold
+            ? [{
+                key: `shift:${shift.id}`,
+                message: `${voids} sales in ${shift.cashier}'s shift ${shift.id} were refunded before the shift closed.`,
+                value: voids,
+                link: "/shifts"
+              }]
+            : [];
+        });
+
+    case "margin_below":
+      return withBundleDetails(data.inventory)
+        .filter(item => inCategory(item, rule) && item.costPrice !== undefined && item.price > 0)
+        .flatMap(item => {
+          const margin = Math.round((item.price - item.costPrice!) / item.price * 1000) / 10;
+          return margin < rule.threshold
+            ? [{
+                key: `item:${item.id}`,
+                message: `${item.name} (${item.sku}) sells at a ${margin}% margin.`,
+                value: margin,
+                link: "/inventory"
+              }]
+            : [];
+        });
+
+    case "no_sales": {
+      // Items are counted from when they last sold, or from when they first came into stock
+      const lastActive = new Map<number, { date: string; sold: boolean }>();
+      data.movements.forEach(movement => {
+        if (!lastActive.has(movement.productId) || movement.date < lastActive.get(movement.productId)!.date) {
+          lastActive.set(movement.productId, { date: movement.date, sold: false });
+        }
+      });
+      data.sales.forEach(sale => sale.items.forEach(line => {
+        const seen = lastActive.get(line.productId);
+        if (!seen || !seen.sold || sale.date > seen.date) {
+          lastActive.set(line.productId, { date: sale.date, sold: true });
+        }
+      }));
+
+      const cutoff = new Date(now.getTime() - rule.threshold * DAY).toISOString();
+      return withBundleDetails(data.inventory)
+        .filter(item => inCategory(item, rule) && item.stock > 0)
+        .flatMap(item => {
+          const seen = lastActive.get(item.id);
+          if (seen && seen.date > cutoff) {
+            return [];
+          }
+          return [{
+            key: `item:${item.id}`,
+            message: seen?.sold
+              ? `${item.name} (${item.sku}) hasn't sold since ${businessDay(seen.date, data.businessDay)}.`
+              : `${item.name} (${item.sku}) hasn't sold in ${rule.threshold} days.`,
+            value: seen ? Math.floor((now.getTime() - new Date(seen.date).getTime()) / DAY) : rule.threshold,
+            link: "/inventory"
+          }];
+        });
+    }
+
+    case "category_losses": {
+      const firstWeek = since ? weekStart(businessDay(since, data.businessDay)) : "";
+      const categories = new Map(data.inventory.map(item => [item.id, item.category]));
+      const weekly = new Map<string, number>();
+      data.losses
+        .filter(loss => categories.get(loss.inventoryItemId) === rule.category)
+        .forEach(loss => {
+          const week = weekStart(businessDay(loss.date, data.businessDay));
+          if (week >= firstWeek) {
+            weekly.set(week, (weekly.get(week) || 0) + loss.value);
+          }
+        });
+
+      return Array.from(weekly.entries())
+        .filter(([, total]) => total > rule.threshold)
+        .map(([week, total]) => ({
+          key: `week:${week}`,
+          message: `Losses in ${rule.category} came to $${roundCurrency(total).toFixed(2)} in the week of ` +
+            `${week} to ${addDays(week, 6)}.`,
+          value: roundCurrency(total),
+          link: "/losses"
+        }));
+    }
+  }
+}
+
+/**
+ * Check every active rule, raising alerts for new matches and resolving state alerts that have passed
+ */
+async function runChecks(): Promise<void> {
+  const [rules, alerts] = await Promise.all([storage.getAlertRules(), storage.getRuleAlerts()]);
+  const open = alerts.filter(alert => !alert.resolvedAt);
+  const active = rules.filter(rule => rule.active);
+  if (!active.length && !open.length) {
+    return;
+  }
+
+  const [inventory, sales, losses, shifts, movements, settings] = await Promise.all([
+    storage.getInventory(),
+    storage.getSales(),
+    storage.getLosses(),
+    storage.getShifts(),
+    storage.getStockMovements(),
+    storage.getStoreSettings()
+  ]);
+  const data: AlertRuleData = { inventory, sales, losses, shifts, movements, businessDay: settings.businessDay };
+  const now = new Date();
+
+  const matched = new Set<string>();
+  const raised: Omit<RuleAlert, 'id'>[] = [];
+  for (const rule of active) {
+    for (const finding of evaluateRule(rule, data, now)) {
+      matched.add(`${rule.id}:${finding.key}`);
+      // Event alerts are never resolved, so each refund, shift or week is only alerted on once
+      if (!open.some(alert => alert.ruleId === rule.id && alert.key === finding.key)) {
+        raised.push({
+          ruleId: rule.id,
+          ruleName: rule.name,
+          ruleType: rule.type,
+          ...finding,
+          raisedAt: now.toISOString()
+        });
+      }
+    }
+  }
+
+  // State alerts whose rule was turned off or removed are resolved along with those that passed
+  const resolvedIds = open
+    .filter(alert => STATE_RULES.includes(alert.ruleType) && !matched.has(`${alert.ruleId}:${alert.key}`))
+    .map(alert => alert.id);
+  if (!raised.length && !resolvedIds.length) {
+    return;
+  }
+
+  const created = await storage.recordRuleAlerts(raised, resolvedIds, now.toISOString());
+  for (const rule of active) {
+    const ruleAlerts = created.filter(alert => alert.ruleId === rule.id);
+    if (!ruleAlerts.length) {
+      continue;
+    }
+
+    for (const alert of ruleAlerts) {
+      await ActivityLogger.logAlertActivity(
+        0,
+        "SYSTEM",
+        LOG_ACTIONS.ALERTS.TRIGGERED,
+        `${rule.name} (Rule ID: ${rule.id}): ${alert.message}`
+      );
+    }
+
+    const grouped = ruleAlerts.length > MAX_NOTIFICATIONS_PER_RULE;
+    for (const alert of grouped ? ruleAlerts.slice(0, 1) : ruleAlerts) {
+      await notify({
+        event: "alert_rule",
+        type: "warning",
+        title: rule.name,
+        message: grouped ? `${alert.message} ${ruleAlerts.length - 1} more matched; see Alert Rules.` : alert.message,
+        roles: rule.notifyRoles,
+        link: grouped ? "/alert-rules" : alert.link
+      });
+    }
+  }
+}
+
+// Checks run one at a time, so two changes close together can't raise the same alert twice
+let queue: Promise<void> = Promise.resolve();
+
+/**
+ * Check the alert rules after a change to sales, losses or inventory
+ * A failed check is logged rather than failing the change that set it off,
+ * so handlers start it after responding instead of making the till wait.
+ *
+ * @returns Once this check has run
+ */
+export function checkAlertRules(): Promise<void> {
+  queue = queue.then(runChecks).catch(error => {
+    console.error("Error checking alert rules:", error);
+  });
+  return queue;
+}
+
+/**
+ * Check the alert rules on the configured interval
+ */
+export function startAlertRuleChecks(): void {
+  setInterval(() => checkAlertRules(), config.alertRuleCheckInterval).unref();
+}
@@ -0,0 +1,213 @@
+/**
+ * Session Authentication
+ *
+ * Issues and verifies signed, expiring session tokens and resolves the
+ * authenticated user from storage on every API request. Tokens are signed
+ * with HMAC-SHA256 using the configured session secret, so clients can no
+ * longer claim an identity or role by editing request headers.
+ */
+import crypto from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { config } from "./config";
+import { storage } from "./storage";
+import type { User } from "@shared/schema";
+
+// Identity attached to each authenticated request
+export type SessionUser = {
+  id: number;
+  username: string;
+  name: string;
+  role: string;
+};
+
+// Claims carried inside a session token
+export type SessionTokenPayload = {
+  sub: number;    // User ID
+  jti: string;    // Unique token ID, used for revocation
+  iat: number;    // Issued at (ms since epoch)
+  exp: number;    // Expires at (ms since epoch)
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      currentUser?: SessionUser;
+      sessionToken?: SessionTokenPayload;
+    }
+  }
+}
+
+// Default identity used for requests without a verified session
+export const SYSTEM_USER: SessionUser = { id: 0, username: "system", name: "System", role: "system" };
+
+// API paths that can be reached without a session
+const PUBLIC_API_PATHS = [
+  { method: "POST", path: "/login" },
+  { method: "GET", path: "/settings/favicon" },
+];
+
+// Revoked token IDs mapped to their expiry so the list can be pruned
+const revokedTokens = new Map<string, number>();
+
+/**
+ * Normalize role names to the canonical form used by route guards
+ * Older data files store roles such as "admin" or "cashier"
+ */
+export function normalizeRole(role: string): string {
+  switch ((role || "").toLowerCase()) {
+    case "admin":
+    case "administrator":
+      return "Administrator";
+    case "manager":
+      return "Manager";
+    case "cashier":
+      return "Cashier";
+    case "stocker":
+      return "Stocker";
+    default:
+      // Default to lowest privileged role
+      return "Cashier";
+  }
+}
+
+const base64UrlEncode = (value: string | Buffer) =>
+  Buffer.from(value).toString("base64url");
+
+const sign = (data: string) =>
+  crypto.createHmac("sha256", config.sessionSecret).update(data).digest("base64url");
+
+/**
+ * Create a signed session token for a user
+ *
+ * @param userId - ID of the authenticated user
+ * @returns The encoded token and its expiry date
+ */
+export function createSessionToken(userId: number): { token: string; expiresAt: Date } {
+  const now = Date.now();
+  const payload: SessionTokenPayload = {
+    sub: userId,
+    jti: crypto.randomUUID(),
+    iat: now,
+    exp: now + config.sessionMaxAge,
+  };
+
+  const encodedPayload = base64UrlEncode(JSON.stringify(payload));
+  const token = `${encodedPayload}.${sign(encodedPayload)}`;
+
+  return { token, expiresAt: new Date(payload.exp) };
+}
+
+/**
+ * Verify a session token's signature, expiry and revocation status
+ *
+ * @param token - Encoded token from the Authorization header
+ * @returns The token payload, or null if the token is not valid
+ */
+export function verifySessionToken(token: string): SessionTokenPayload | null {
+  const [encodedPayload, signature] = token.split(".");
+  if (!encodedPayload || !signature) {
+    return null;
+  }
+
+  // Constant-time signature comparison
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8")) as SessionTokenPayload;
+    if (typeof payload.sub !== "number" || typeof payload.exp !== "number" || payload.exp <= Date.now()) {
+      return null;
+    }
+    if (revokedTokens.has(payload.jti)) {
+      return null;
+    }
+    return payload;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Revoke a session token so it can no longer be used (logout / refresh)
+ */
+export function revokeSessionToken(payload: SessionTokenPayload): void {
+  revokedTokens.set(payload.jti, payload.exp);
+
+  // Prune entries that would have expired anyway
+  const now = Date.now();
+  revokedTokens.forEach((exp, jti) => {
+    if (exp <= now) {
+      revokedTokens.delete(jti);
+    }
+  });
+}
+
+/**
+ * Build the request identity from a stored user record
+ */
+export function toSessionUser(user: User): SessionUser {
+  return {
+    id: user.id,
+    username: user.username,
+    name: user.name,
+    role: normalizeRole(user.role),
+  };
+}
+
+/**
+ * Extract the bearer token from the Authorization header
+ */
+function getBearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (header && header.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim();
+  }
+  return undefined;
+}
+
+/**
+ * Middleware that resolves the current user from a verified session token
+ *
+ * The user is re-read from storage on every request so role changes,
+ * deactivation and deletion take effect immediately.
+ */
+export async function authenticate(req: Request, _res: Response, next: NextFunction) {
+  try {
+    const token = getBearerToken(req);
+    const payload = token ? verifySessionToken(token) : null;
+
+    if (payload) {
+      const user = await storage.getUser(payload.sub);
+      if (user && user.status !== "Inactive") {
+        req.currentUser = toSessionUser(user);
+        req.sessionToken = payload;
+      }
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Middleware that rejects API requests without a verified session
+ * Public endpoints such as login are allowed through.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const isPublic = PUBLIC_API_PATHS.some(
+    route => route.method === req.method && route.path === req.path
+  );
+
+  if (isPublic || req.currentUser) {
+    return next();
+  }
+
+  return res.status(401).json({
+    error: "Authentication required",
+    message: "Your session is missing or has expired. Please log in again."
+  });
+}
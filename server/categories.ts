@@ -0,0 +1,91 @@
+/**
+ * Category Changes
+ *
+ * Items, variant groups, promotions and alert rules name their category
+ * rather than pointing at it by id, so renaming or merging a category means
+ * re-filing every record that names it. Both storage backends do that with
+ * these helpers inside the same write as the category change.
+ *
+ * Stores from before categories were kept as a list get one built from the
+ * names already in use, folding differences in case and spacing together.
+ */
+import type { AlertRule, Category, Promotion, VariantGroup } from "@shared/schema";
+import { categoryKey, tidyCategoryName } from "@shared/categories";
+import type { InventoryItem } from "./storage";
+
+// The categories a new store starts with
+export const DEFAULT_CATEGORIES = [
+  "Produce", "Dairy", "Meat", "Bakery", "Frozen Foods", "Beverages",
+  "Snacks", "Canned Goods", "Cleaning Supplies", "Personal Care", "Other"
+];
+
+// Every record that names a category
+export type CategoryReferences = {
+  inventory: InventoryItem[];
+  variantGroups: VariantGroup[];
+  promotions: Promotion[];
+  alertRules: AlertRule[];
+};
+
+/**
+ * File everything under any of the `from` names under `to` instead
+ * Records are changed in place; only the changed ones are returned.
+ */
+export function refileCategory(references: CategoryReferences, from: string[], to: string): CategoryReferences {
+  const keys = new Set(from.map(categoryKey));
+  const matches = (name?: string) => name !== undefined && keys.has(categoryKey(name)) && name !== to;
+
+  const inventory = references.inventory.filter(item => matches(item.category));
+  inventory.forEach(item => item.category = to);
+
+  const variantGroups = references.variantGroups.filter(group => matches(group.category));
+  variantGroups.forEach(group => group.category = to);
+
+  const promotions = references.promotions.filter(promotion => promotion.categories?.some(matches));
+  promotions.forEach(promotion => {
+    promotion.categories = Array.from(new Set(promotion.categories!.map(name => matches(name) ? to : name)));
+  });
+
+  const alertRules = references.alertRules.filter(rule => matches(rule.category));
+  alertRules.forEach(rule => rule.category = to);
+
+  return { inventory, variantGroups, promotions, alertRules };
+}
+
+/**
+ * Build the category list from the names records are already filed under
+ * Names differing only in case or spacing become one category, spelled the
+ * way most records spell it. Per-category tax rates from the store settings
+ * carry over. A store with nothing filed yet gets the default categories.
+ *
+ * @param references - Every record that names a category
+ * @param taxCategoryRates - The store's per-category tax rates
+ * @returns The new categories, numbered from 1
+ */
+export function categoriesInUse(references: CategoryReferences, taxCategoryRates: Record<string, number> = {}): Category[] {
+  const names = [
+    ...references.inventory.map(item => item.category),
+    ...references.variantGroups.map(group => group.category),
+    ...references.promotions.flatMap(promotion => promotion.categories || []),
+    ...references.alertRules.flatMap(rule => rule.category ? [rule.category] : []),
+    ...Object.keys(taxCategoryRates)
+  ].map(name => tidyCategoryName(name || "")).filter(name => name);
+
+  // Count each spelling under its key; Map keeps the order names were first seen in
+  const spellings = new Map<string, Map<string, number>>();
+  (names.length ? names : DEFAULT_CATEGORIES).forEach(name => {
+    const counts = spellings.get(categoryKey(name)) || new Map<string, number>();
+    counts.set(name, (counts.get(name) || 0) + 1);
+    spellings.set(categoryKey(name), counts);
+  });
+
+  const rates = new Map(Object.entries(taxCategoryRates).map(([name, rate]) => [categoryKey(name), rate]));
+  return Array.from(spellings.entries()).map(([key, counts], index) => {
+    const name = Array.from(counts.entries()).reduce((best, entry) => entry[1] > best[1] ? entry : best)[0];
+    return {
+      id: index + 1,
+      name,
+      ...(rates.has(key) ? { taxRate: rates.get(key) } : {})
+    };
+  });
+}
@@ -41,18 +41,46 @@ function loadEnvFile() {
 // Load environment variables from .env file
 loadEnvFile();
 
+/**
+ * Read TRUST_PROXY into Express's "trust proxy" setting
+ * A hop count or true trusts X-Forwarded-For; anything else names the trusted proxies.
+ */
+function parseTrustProxy(value: string | undefined): boolean | number | string {
+  if (!value || value === 'false') return false;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+}
+
+// Only for development; anyone who knows it can forge session tokens
+export const DEFAULT_SESSION_SECRET = 'inventory-pro-secret-key-1234';
+
 // Get configuration with fallbacks
 export const config = {
-  useFileStorage: true, // Always use file storage
+  useFileStorage: process.env.STORAGE_DRIVER !== 'sqlite',
+  storageDriver: (process.env.STORAGE_DRIVER === 'sqlite' ? 'sqlite' : 'file') as 'file' | 'sqlite',
+  sqlitePath: process.env.SQLITE_PATH || path.join(rootDir, 'server', 'data', 'inventory.db'),
   nodeEnv: process.env.NODE_ENV || 'development',
   port: parseInt(process.env.PORT || '5000', 10),
-  sessionSecret: process.env.SESSION_SECRET || 'inventory-pro-secret-key-1234',
+  sessionSecret: process.env.SESSION_SECRET || DEFAULT_SESSION_SECRET,
   sessionMaxAge: parseInt(process.env.SESSION_MAX_AGE || '7200000', 10), // 2 hours in milliseconds
+  trustProxy: parseTrustProxy(process.env.TRUST_PROXY), // Proxies whose X-Forwarded-For gives the client address
+  maxFailedLogins: parseInt(process.env.MAX_FAILED_LOGINS || '5', 10), // Failed attempts before lockout
+  loginLockoutWindow: parseInt(process.env.LOGIN_LOCKOUT_WINDOW || '900000', 10), // 15 minutes in milliseconds
+  allowNegativeStockOverride: process.env.ALLOW_NEGATIVE_STOCK_OVERRIDE !== 'false', // Managers may sell past zero stock
+  reorderVelocityDays: parseInt(process.env.REORDER_VELOCITY_DAYS || '28', 10), // Days of sales history used for sales velocity
+  reorderSafetyDays: parseInt(process.env.REORDER_SAFETY_DAYS || '3', 10), // Extra days of stock kept beyond the supplier lead time
+  reorderCoverDays: parseInt(process.env.REORDER_COVER_DAYS || '14', 10), // Days of sales each suggested order should cover
+  expiryAlertDays: parseInt(process.env.EXPIRY_ALERT_DAYS || '7', 10), // Lots expiring within this many days are flagged
+  largeRefundAmount: parseFloat(process.env.LARGE_REFUND_AMOUNT || '100'), // Refunds of at least this much notify managers
+  shiftVarianceAlert: parseFloat(process.env.SHIFT_VARIANCE_ALERT || '5'), // Drawer variances of at least this much notify managers
+  notificationRetentionDays: parseInt(process.env.NOTIFICATION_RETENTION_DAYS || '30', 10), // Older notifications are removed
+  alertRuleCheckInterval: parseInt(process.env.ALERT_RULE_CHECK_INTERVAL || '3600000', 10), // 1 hour in milliseconds between scheduled alert rule checks
 };
 
 // Log the configuration (but hide secrets)
 console.log('App configuration:');
-console.log('- File storage mode: enabled (always)');
+console.log('- Storage driver:', config.storageDriver);
 console.log('- Environment:', config.nodeEnv);
 console.log('- Port:', config.port);
-console.log('- Session max age:', config.sessionMaxAge, 'ms');
\ No newline at end of file
+console.log('- Session max age:', config.sessionMaxAge, 'ms');
+console.log('- Login lockout:', config.maxFailedLogins, 'attempts per', config.loginLockoutWindow, 'ms');
\ No newline at end of file
@@ -0,0 +1,79 @@
+/**
+ * Count Variance Report
+ *
+ * Lists the differences found by posted stock counts between what the system
+ * expected and what was on the shelf, valued at cost. The largest losses and
+ * gains by value come first, so shrinkage stands out.
+ */
+import type { StockCount } from "@shared/schema";
+import { formatStockCountNumber, lineVariance, lineVarianceValue } from "@shared/stockCounts";
+
+// One counted item that didn't match
+export type CountVarianceRow = {
+  id: string;
+  countId: number;
+  count: string;          // Count number, e.g. "CNT-00007"
+  postedAt: string;
+  productId: number;
+  sku: string;
+  name: string;
+  category: string;
+  expected: number;
+  counted: number;
+  variance: number;       // Negative when stock was missing
+  unitCost: number;
+  varianceValue: number;
+};
+
+/**
+ * Variances from posted counts, optionally for one count or a date range
+ *
+ * @param counts - All stock counts
+ * @param countId - Only this count
+ * @param startDate - Earliest posting date to include (inclusive)
+ * @param endDate - Latest posting date to include (inclusive)
+ * @returns One row per item that didn't match, largest value first
+ */
+export function summarizeCountVariances(
+  counts: StockCount[],
+  countId?: number,
+  startDate?: Date,
+  endDate?: Date
+): CountVarianceRow[] {
+  const rows: CountVarianceRow[] = [];
+
+  counts.forEach(count => {
+    if (count.status !== "posted" || !count.postedAt || (countId !== undefined && count.id !== countId)) {
+      return;
+    }
+
+    const postedAt = new Date(count.postedAt);
+    if ((startDate && postedAt < startDate) || (endDate && postedAt > endDate)) {
+      return;
+    }
+
+    count.lines.forEach(line => {
+      const variance = lineVariance(line);
+      if (variance === null || variance === 0) {
+        return;
+      }
+      rows.push({
+        id: `${formatStockCountNumber(count.id)}-${line.productId}`,
+        countId: count.id,
+        count: formatStockCountNumber(count.id),
+        postedAt: count.postedAt!,
+        productId: line.productId,
+        sku: line.sku,
+        name: line.name,
+        category: line.category,
+        expected: line.expected,
+        counted: line.counted!,
+        variance,
+        unitCost: line.unitCost,
+        varianceValue: lineVarianceValue(line)
+      });
+    });
+  });
+
+  return rows.sort((a, b) => Math.abs(b.varianceValue) - Math.abs(a.varianceValue));
+}
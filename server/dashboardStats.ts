@@ -0,0 +1,101 @@
+/**
+ * Dashboard Stats
+ *
+ * Dashboard figures worked out from the current inventory and the sales
+ * ledger rather than kept as running totals, so they stay right after a
+ * restart or a manual fix to the sales data. Sales and refunds are totalled
+ * by business day, which starts again at the store's day-start hour. For one
+ * location, stock figures count only the stock held there and sales only
+ * those rung up there.
+ */
+import type { InventoryItem, Sale, SalesTotals, Stats } from "./storage";
+import type { User } from "@shared/schema";
+import { atLocation, locationOf } from "@shared/locations";
+import { isBundle } from "@shared/bundles";
+import { addDays, businessTime, type BusinessDaySettings } from "@shared/businessDay";
+import { roundCurrency } from "@shared/tax";
+
+export type StatsOptions = {
+  locationId?: number;                // Report on one location; the whole store when unset
+  businessDay?: BusinessDaySettings;  // From the store settings
+  now?: Date;
+};
+
+// A sale or refund, placed in business time
+type LedgerEntry = {
+  time: string;
+  sales: number;
+  refunds: number;
+};
+
+/**
+ * Every sale and refund in the ledger, placed in business time
+ */
+function ledgerEntries(sales: Sale[], settings?: BusinessDaySettings): LedgerEntry[] {
+  return sales.flatMap(sale => {
+    const entries: LedgerEntry[] = [{ time: businessTime(sale.date, settings), sales: sale.amount, refunds: 0 }];
+    if (sale.returns) {
+      sale.returns.forEach(entry => entries.push({ time: businessTime(entry.date, settings), sales: 0, refunds: entry.amount }));
+    } else if (sale.refundDate) {
+      // Full refunds made before returns were itemized only carry a date and amount
+      entries.push({ time: businessTime(sale.refundDate, settings), sales: 0, refunds: sale.refundedAmount || 0 });
+    }
+    return entries;
+  });
+}
+
+/**
+ * Add up the ledger entries that fall in a period
+ */
+function totalsOf(entries: LedgerEntry[]): SalesTotals {
+  const sales = roundCurrency(entries.reduce((sum, entry) => sum + entry.sales, 0));
+  const refunds = roundCurrency(entries.reduce((sum, entry) => sum + entry.refunds, 0));
+  return { sales, refunds, netSales: Math.max(0, roundCurrency(sales - refunds)) };
+}
+
+/**
+ * Dashboard stats for the whole store or one location
+ * Today's figures cover the current business day so far; they're compared with
+ * the same day last week up to the same time of day, and with the month so far.
+ *
+ * @param inventory - All inventory items
+ * @param sales - All recorded sales
+ * @param users - All users
+ * @param options - Location, business day and the time to report at
+ */
+export function summarizeStats(
+  inventory: InventoryItem[],
+  sales: Sale[],
+  users: User[],
+  options: StatsOptions = {}
+): Stats {
+  const { locationId, businessDay: settings, now = new Date() } = options;
+
+  // Bundles hold no stock; their components are counted instead
+  const stocked = inventory
+    .filter(item => !isBundle(item))
+    .map(item => locationId === undefined ? item : atLocation(item, locationId));
+  const entries = ledgerEntries(
+    locationId === undefined ? sales : sales.filter(sale => locationOf(sale) === locationId),
+    settings
+  );
+
+  const current = businessTime(now, settings);
+  const today = current.slice(0, 10);
+  const timeOfDay = current.slice(11);
+  const lastWeek = addDays(today, -7);
+  const todayTotals = totalsOf(entries.filter(entry => entry.time.startsWith(today)));
+
+  return {
+    totalInventoryItems: inventory.length,
+    totalInventoryValue: roundCurrency(stocked.reduce((total, item) => total + item.price * item.stock, 0)),
+    lowStockItems: stocked.filter(item => item.stock <= item.threshold).length,
+    activeUsers: users.filter(user => user.status === 'Active').length,
+    businessDay: today,
+    todaySales: todayTotals.sales,
+    todayRefunds: todayTotals.refunds,
+    netSales: todayTotals.netSales,
+    sameDayLastWeek: totalsOf(entries.filter(entry => entry.time.startsWith(lastWeek) && entry.time.slice(11) <= timeOfDay)),
+    monthToDate: totalsOf(entries.filter(entry => entry.time.startsWith(today.slice(0, 7)) && entry.time <= current))
+  };
+}
@@ -1,15 +1,18 @@
 /**
- * File Storage Configuration
+ * Storage Configuration
  * 
- * This module replaces the original database connection code with file storage only.
- * The application now exclusively uses local JSON files for data persistence.
+ * This module replaces the original database connection code. Data is kept
+ * either in local JSON files or in a local SQLite database file, selected by
+ * the STORAGE_DRIVER setting; no external database service is required.
  */
 import { config } from "./config";
 
-// Always use file storage
-export const usingFileStorageOnly = true;
+// JSON file storage unless the SQLite driver is selected
+export const usingFileStorageOnly = config.storageDriver === 'file';
 
-console.log("Using file storage only mode - no database connection required");
+console.log(usingFileStorageOnly
+  ? "Using file storage only mode - no database connection required"
+  : `Using SQLite storage at ${config.sqlitePath}`);
 
 // Initialize the application
 export async function seedDatabase() {
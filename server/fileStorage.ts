@@ -2,96 +2,93 @@ import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
-import { IStorage } from './storage';
-import { User, InsertUser } from '../shared/schema';
+import type {
+  IStorage,
+  InventoryItem,
+  SaleItem,
+  Sale,
+  SaleOptions,
+  Stats,
+  StoreSettings,
+  ProductPopularity,
+  LossItem,
+  Shift,
+  ShiftClose,
+  CashMovement,
+  StockChange,
+  StockMovement,
+  Notification,
+  RuleAlert
+} from './storage';
+import { User, InsertUser, Promotion, RefundRequest, Supplier, InsertSupplier, VariantGroup, InsertVariantGroup, PurchaseOrder, PurchaseOrderStatus, GoodsReceiptRequest, StockCount, StockCountEntries, StockCountStatus, StockLocation, InsertStockLocation, StockTransfer, StockTransferRequest, AlertRule, Category, InsertCategory } from '../shared/schema';
+import { hashPin, isHashedPin } from './pinSecurity';
+import { DuplicateSaleError, findStockShortages, InsufficientStockError } from './saleValidation';
+import { priceReturn, recordReturn, returnLosses, ReturnQuantityError } from './saleReturns';
+import { saleLineOf } from '../shared/refunds';
+import { canReceive, checkReceipt, recordReceipt, receivedCostPrice, ReceiptQuantityError } from './goodsReceipts';
+import { lossLotChange, moveStock, numberMovements, saleLineChange, stockAfterTaking, UNATTRIBUTED_CHANGE, type PendingStockMovement } from './stockMovements';
+import { formatPurchaseOrderNumber } from '../shared/purchaseOrders';
+import { recordCounts, postedStock, StockCountError } from './stockCounts';
+import { formatStockCountNumber } from '../shared/stockCounts';
+import { checkTransfer, sentLine, StockTransferError } from './stockTransfers';
+import { formatStockTransferNumber, transferPortions } from '../shared/stockTransfers';
+import { DEFAULT_LOCATION_ID } from '../shared/locations';
+import { categoryTaxRates } from '../shared/categories';
+import { categoriesInUse, refileCategory, type CategoryReferences } from './categories';
+import { stockTaken } from '../shared/bundles';
+import { summarizeStats } from './dashboardStats';
+import { config } from './config';
 
 // Get the directory name properly in ESM
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Define types for our data structures
-type InventoryItem = {
-  id: number;
-  name: string;
-  sku: string;
-  category: string;
-  stock: number;
-  unit: string;
-  price: number;
-  priceUnit: string;
-  costPrice?: number; // Added: Cost price for profit tracking
-  profitMargin?: number; // Added: Profit margin percentage
-  profitType?: 'percentage' | 'fixed'; // Added: Whether profit is calculated as percentage or fixed amount
-  threshold: number;
-  status: string;
-  image?: string;    // URL or base64 encoded image data
-  barcode?: string;  // Barcode value for scanning
-};
-
-type SaleItem = {
-  productId: number;
-  name: string;
-  quantity: number;
-  price: number;
-  unit: string;
-  subtotal: number;
+// Generic type for our JSON data files
+type DataFile<T> = {
+  [key: string]: T[];
 };
 
-type Sale = {
-  id: string;
-  cashier: string;
-  date: string;
-  amount: number;
-  status: string;
-  items: SaleItem[];
-  refundedBy?: string;
-  refundDate?: string;
-};
+// Journal of pending multi-file writes, replayed on startup after a crash
+const JOURNAL_FILE = 'journal.json';
 
-type Stats = {
-  totalInventoryItems: number;
-  todaySales: number;
-  lowStockItems: number;
-  activeUsers: number;
-  totalInventoryValue: number;
-  todayRefunds?: number;
-  netSales?: number;
-};
+// Suffix for temporary files written before an atomic rename
+const TEMP_SUFFIX = '.tmp';
 
-type StoreSettings = {
-  storeName: string;
-  storeAddress: string;
-  storePhone: string;
-  thankYouMessage: string;
-  storeLogo?: string; // Base64 data URL of the logo
-  nextTransactionId: number;
-};
+// Files a category change can touch: the records naming categories, and the settings holding their tax rates
+const CATEGORY_FILES = ['categories.json', 'inventory.json', 'variantGroups.json', 'promotions.json', 'alertRules.json', 'settings.json'];
 
-// Product popularity type
-type ProductPopularity = {
-  productId: number;
-  salesCount: number;
-  lastUpdated: string;
+// Used when settings.json holds no settings
+const DEFAULT_STORE_SETTINGS: StoreSettings = {
+  storeName: "Inventory Pro Store",
+  storeAddress: "123 Main Street, City, State, 12345",
+  storePhone: "(555) 123-4567",
+  thankYouMessage: "Thank you for shopping with us!",
+  nextTransactionId: 1
 };
 
-// Generic type for our JSON data files
-type LossItem = {
-  id: string;
-  inventoryItemId: number;
-  itemName: string;
-  quantity: number;
-  reason: string;
-  date: string;
-  recordedBy: string;
-  value: number;
+// A full replacement of one data file, applied as part of a transaction
+type FileWrite = {
+  fileName: string;
+  content: unknown;
 };
 
-type DataFile<T> = {
-  [key: string]: T[];
+type Journal = {
+  createdAt: string;
+  writes: { fileName: string; content: string }[];
 };
 
 export class FileStorage implements IStorage {
   private dataDir: string;
+  
+  // Tail of the pending operation chain for each data file
+  private fileLocks = new Map<string, Promise<void>>();
+  
+  // Set while a transaction's journal is left to apply; no other write runs until it has been
+  private journalPending = false;
+  private journalRecovery: Promise<void> | null = null;
+  
+  // Resolves once the data directory is ready and any interrupted transaction is recovered
+  readonly ready: Promise<void>;
 
   /**
    * Initialize the storage system
@@ -101,7 +98,7 @@ export class FileStorage implements IStorage {
     this.dataDir = path.join(__dirname, 'data');
     
     // Initialize the data directory
-    this.initDataDir();
+    this.ready = this.initDataDir();
   }
   
   /**
@@ -109,13 +106,16 @@ export class FileStorage implements IStorage {
    * Creates them with default data if they don't exist
    */
   private async ensureDataFiles() {
+    // Default PINs are stored hashed like every other PIN
+    const [adminPin, cashierPin] = await Promise.all([hashPin("1234"), hashPin("5678")]);
+    
     const files = {
       'users.json': JSON.stringify({ users: [
         {
           id: 1,
           name: "Admin User",
           username: "admin",
-          pin: "1234",
+          pin: adminPin,
           role: "admin",
           lastActive: new Date().toISOString(),
           status: "active"
@@ -124,7 +124,7 @@ export class FileStorage implements IStorage {
           id: 2,
           name: "Sarah Johnson",
           username: "sarah",
-          pin: "5678",
+          pin: cashierPin,
           role: "cashier",
           lastActive: new Date().toISOString(),
           status: "active"
@@ -133,17 +133,6 @@ export class FileStorage implements IStorage {
       'inventory.json': JSON.stringify({ items: [] }),
       'sales.json': JSON.stringify({ sales: [] }),
       'losses.json': JSON.stringify({ losses: [] }),
-      'stats.json': JSON.stringify({ 
-        stats: {
-          totalInventoryItems: 0,
-          todaySales: 0,
-          lowStockItems: 0,
-          activeUsers: 2,
-          totalInventoryValue: 0,
-          todayRefunds: 0,
-          netSales: 0
-        }
-      }),
       'settings.json': JSON.stringify({
         settings: {
           storeName: "Inventory Pro Store",
@@ -155,7 +144,22 @@ export class FileStorage implements IStorage {
       }),
       'popularity.json': JSON.stringify({
         popularity: []
-      })
+      }),
+      'promotions.json': JSON.stringify({ promotions: [] }),
+      'shifts.json': JSON.stringify({ shifts: [] }),
+      'suppliers.json': JSON.stringify({ suppliers: [] }),
+      'variantGroups.json': JSON.stringify({ groups: [] }),
+      'purchaseOrders.json': JSON.stringify({ purchaseOrders: [] }),
+      'stockMovements.json': JSON.stringify({ movements: [] }),
+      'stockCounts.json': JSON.stringify({ counts: [] }),
+      'locations.json': JSON.stringify({ locations: [
+        { id: DEFAULT_LOCATION_ID, name: "Main Store", active: true }
+      ]}),
+      'stockTransfers.json': JSON.stringify({ transfers: [] }),
+      'notifications.json': JSON.stringify({ notifications: [] }),
+      'alertRules.json': JSON.stringify({ rules: [] }),
+      'ruleAlerts.json': JSON.stringify({ alerts: [] }),
+      'categories.json': JSON.stringify({ categories: [] })
     };
 
     for (const [fileName, content] of Object.entries(files)) {
@@ -182,6 +186,9 @@ export class FileStorage implements IStorage {
         console.log(`Created data directory: ${this.dataDir}`);
       });
       
+      // Finish or discard any write interrupted by a crash before touching data
+      await this.recoverJournal();
+      
       // Initialize the data files
       await this.ensureDataFiles();
       
@@ -194,22 +201,37 @@ export class FileStorage implements IStorage {
   // Generic function to read data from a JSON file
   async readData<T>(fileName: string, key: string): Promise<T[]> {
     try {
-      const filePath = path.join(this.dataDir, fileName);
-      const data = await fs.readFile(filePath, 'utf8');
-      const parsed = JSON.parse(data) as DataFile<T>;
-      return parsed[key] || [];
+      return await this.readDataStrict<T>(fileName, key);
     } catch (error) {
       console.error(`Error reading ${fileName}:`, error);
       return [];
     }
   }
 
+  /**
+   * Read a data file that is about to be rewritten
+   * Only a missing file reads as empty; any other failure throws, so a
+   * transaction never replaces a file it couldn't read with an empty list.
+   */
+  private async readDataStrict<T>(fileName: string, key: string): Promise<T[]> {
+    try {
+      const data = await fs.readFile(path.join(this.dataDir, fileName), 'utf8');
+      const parsed = JSON.parse(data) as DataFile<T>;
+      return parsed[key] || [];
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
   // Generic function to write data to a JSON file
   private async writeData<T>(fileName: string, key: string, data: T[]): Promise<boolean> {
     try {
       const filePath = path.join(this.dataDir, fileName);
       const fileContent = JSON.stringify({ [key]: data }, null, 2);
-      await fs.writeFile(filePath, fileContent, 'utf8');
+      await this.writeFileAtomic(filePath, fileContent);
       return true;
     } catch (error) {
       console.error(`Error writing ${fileName}:`, error);
@@ -217,6 +239,176 @@ export class FileStorage implements IStorage {
     }
   }
 
+  /**
+   * Write a file so readers only ever see the old or the new content
+   * The content is written and flushed to a temporary file, then renamed over the target.
+   */
+  private async writeFileAtomic(filePath: string, content: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}${TEMP_SUFFIX}`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content, 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  }
+
+  /**
+   * Run an operation while holding exclusive locks on one or more data files
+   * Locks are queued per file and always acquired in name order to avoid deadlocks.
+   * 
+   * @param fileNames Data files the operation reads and writes
+   * @param operation Work to run once all locks are held
+   */
+  private async withFileLocks<T>(fileNames: string[], operation: () => Promise<T>): Promise<T> {
+    const releases: (() => void)[] = [];
+    
+    for (const fileName of Array.from(new Set(fileNames)).sort()) {
+      const previous = this.fileLocks.get(fileName) || Promise.resolve();
+      let release!: () => void;
+      const current = new Promise<void>(resolve => { release = resolve; });
+      const tail = previous.then(() => current);
+      this.fileLocks.set(fileName, tail);
+      
+      await previous;
+      releases.push(() => {
+        release();
+        if (this.fileLocks.get(fileName) === tail) {
+          this.fileLocks.delete(fileName);
+        }
+      });
+    }
+    
+    try {
+      await this.finishPendingJournal();
+      return await operation();
+    } finally {
+      releases.reverse().forEach(release => release());
+    }
+  }
+
+  /**
+   * Atomically replace several data files
+   * The new contents are journaled first, so after a crash the writes are either
+   * replayed in full on startup or, if the journal was never completed, not applied at all.
+   * If a write fails part-way, the journal stays and is applied before any other write.
+   * Callers must hold the locks for every file being written.
+   * 
+   * @param writes Full replacement contents for each data file
+   */
+  private async commitTransaction(writes: FileWrite[]): Promise<void> {
+    await this.withFileLocks([JOURNAL_FILE], async () => {
+      const journalPath = path.join(this.dataDir, JOURNAL_FILE);
+      
+      // A journal here is a transaction still to apply; this one was read from before it, so it must not go ahead
+      if (await fs.access(journalPath).then(() => true, () => false)) {
+        this.journalPending = true;
+        throw new Error('An earlier transaction has not been applied yet');
+      }
+      
+      const journal: Journal = {
+        createdAt: new Date().toISOString(),
+        writes: writes.map(write => ({
+          fileName: write.fileName,
+          content: JSON.stringify(write.content, null, 2)
+        }))
+      };
+      await this.writeFileAtomic(journalPath, JSON.stringify(journal));
+      
+      try {
+        await this.applyJournal(journal);
+      } catch (error) {
+        // Try once more while the files are still locked; failing that, later writes wait for it
+        try {
+          await this.applyJournal(journal);
+        } catch (retryError) {
+          console.error('Error finishing transaction:', retryError);
+          this.journalPending = true;
+          throw error;
+        }
+      }
+    });
+  }
+
+  /**
+   * Write out every file in a journal, then remove the journal
+   */
+  private async applyJournal(journal: Journal): Promise<void> {
+    for (const write of journal.writes) {
+      await this.writeFileAtomic(path.join(this.dataDir, write.fileName), write.content);
+    }
+    await fs.unlink(path.join(this.dataDir, JOURNAL_FILE));
+  }
+
+  /**
+   * Apply the journal left on disk, if there is one
+   */
+  private async replayJournal(): Promise<void> {
+    let journal: Journal;
+    try {
+      journal = JSON.parse(await fs.readFile(path.join(this.dataDir, JOURNAL_FILE), 'utf8')) as Journal;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    
+    console.log(`Recovering interrupted transaction from ${journal.createdAt}`);
+    await this.applyJournal(journal);
+  }
+
+  /**
+   * Apply a transaction that failed part-way before anything else is written
+   * Until it can be, every write fails rather than building on half-written files.
+   */
+  private async finishPendingJournal(): Promise<void> {
+    if (!this.journalPending) {
+      return;
+    }
+    
+    // Operations waiting on different files share one attempt
+    if (!this.journalRecovery) {
+      this.journalRecovery = this.replayJournal()
+        .then(() => {
+          this.journalPending = false;
+        })
+        .finally(() => {
+          this.journalRecovery = null;
+        });
+    }
+    
+    try {
+      await this.journalRecovery;
+    } catch (error) {
+      console.error('Error recovering transaction journal:', error);
+      throw new Error('Changes are on hold until an unfinished transaction can be written');
+    }
+  }
+
+  /**
+   * Replay a transaction journal left behind by a crash and remove stray temp files
+   */
+  private async recoverJournal(): Promise<void> {
+    try {
+      await this.replayJournal();
+    } catch (error) {
+      // Writes stay blocked and try again until it can be applied
+      console.error('Error recovering transaction journal:', error);
+      this.journalPending = true;
+    }
+    
+    // Temp files belong to writes that never completed their rename
+    const entries = await fs.readdir(this.dataDir);
+    for (const entry of entries) {
+      if (entry.endsWith(TEMP_SUFFIX)) {
+        await fs.unlink(path.join(this.dataDir, entry)).catch(() => {});
+      }
+    }
+  }
+
   // User methods required by IStorage interface
   async getUsers(): Promise<User[]> {
     return this.readData<User>('users.json', 'users');
@@ -233,63 +425,103 @@ export class FileStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const users = await this.readData<User>('users.json', 'users');
-    const newId = Math.max(0, ...users.map(user => user.id)) + 1;
-    
-    // Create a new user with all the required fields
-    // Set session valid until default (2 hours from now)
-    const now = new Date();
-    const sessionValidUntil = new Date(now);
-    sessionValidUntil.setHours(sessionValidUntil.getHours() + 2);
-    
-    const newUser: User = { 
-      ...insertUser, 
-      id: newId,
-      lastActive: now.toISOString(),
-      sessionValidUntil: sessionValidUntil.toISOString(),
-      status: insertUser.status || 'Active' // Ensure status is set
-    };
+    // Hash outside the lock so slow key derivation doesn't block other writers
+    const pin = await hashPin(insertUser.pin);
     
-    users.push(newUser);
-    await this.writeData('users.json', 'users', users);
-    return newUser;
+    return this.withFileLocks(['users.json'], async () => {
+      const users = await this.readDataStrict<User>('users.json', 'users');
+      const newId = Math.max(0, ...users.map(user => user.id)) + 1;
+      
+      // Create a new user with all the required fields
+      // Set session valid until default (2 hours from now)
+      const now = new Date();
+      const sessionValidUntil = new Date(now);
+      sessionValidUntil.setHours(sessionValidUntil.getHours() + 2);
+      
+      const newUser: User = { 
+        ...insertUser, 
+        pin,
+        id: newId,
+        lastActive: now.toISOString(),
+        sessionValidUntil: sessionValidUntil.toISOString(),
+        status: insertUser.status || 'Active' // Ensure status is set
+      };
+      
+      users.push(newUser);
+      await this.writeData('users.json', 'users', users);
+      return newUser;
+    });
   }
   
   async updateUser(id: number, updates: Partial<User>): Promise<User | null> {
-    const users = await this.readData<User>('users.json', 'users');
-    const userIndex = users.findIndex(user => user.id === id);
-    
-    if (userIndex === -1) {
-      return null;
+    // Always hash what was sent, even if it looks like a hash, so a stored hash can't be set directly
+    if (updates.pin !== undefined) {
+      updates = { ...updates, pin: await hashPin(updates.pin) };
     }
     
-    // Update the user with new values
-    const updatedUser = {
-      ...users[userIndex],
-      ...updates
-    };
-    
-    users[userIndex] = updatedUser;
-    await this.writeData('users.json', 'users', users);
-    return updatedUser;
+    return this.withFileLocks(['users.json'], async () => {
+      const users = await this.readDataStrict<User>('users.json', 'users');
+      const userIndex = users.findIndex(user => user.id === id);
+      
+      if (userIndex === -1) {
+        return null;
+      }
+      
+      // Update the user with new values
+      const updatedUser = {
+        ...users[userIndex],
+        ...updates
+      };
+      
+      users[userIndex] = updatedUser;
+      await this.writeData('users.json', 'users', users);
+      return updatedUser;
+    });
   }
   
-  async deleteUser(id: number): Promise<boolean> {
-    try {
-      const users = await this.readData<User>('users.json', 'users');
-      const initialLength = users.length;
+  /**
+   * One-time migration that replaces plaintext PINs with salted hashes
+   * 
+   * @returns The number of user records that were migrated
+   */
+  async migratePlaintextPins(): Promise<number> {
+    return this.withFileLocks(['users.json'], async () => {
+      const users = await this.readDataStrict<User>('users.json', 'users');
+      let migrated = 0;
       
-      // Filter out the user to delete
-      const filteredUsers = users.filter(user => user.id !== id);
+      for (const user of users) {
+        if (user.pin && !isHashedPin(user.pin)) {
+          user.pin = await hashPin(user.pin);
+          migrated++;
+        }
+      }
       
-      if (filteredUsers.length === initialLength) {
-        // No user was removed
-        return false;
+      if (migrated > 0) {
+        await this.writeData('users.json', 'users', users);
       }
       
-      // Write the updated users array
-      await this.writeData('users.json', 'users', filteredUsers);
-      return true;
+      return migrated;
+    });
+  }
+  
+  async deleteUser(id: number): Promise<boolean> {
+    try {
+      return await this.withFileLocks(['users.json'], async () => {
+        const users = await this.readDataStrict<User>('users.json', 'users');
+        const initialLength = users.length;
+        
+        // Filter out the user to delete
+        const filteredUsers = users.filter(user => user.id !== id);
+        
+        if (filteredUsers.length === initialLength) {
+          // No user was removed
+          return false;
+        }
+        
+        // Write the updated users array
+        await this.writeData('users.json', 'users', filteredUsers);
+        return true;
+      });
     } catch (error) {
       console.error(`Error deleting user with id ${id}:`, error);
       return false;
@@ -308,44 +540,101 @@ export class FileStorage implements IStorage {
     return items.find(item => item.id === id);
   }
 
-  async updateInventoryItem(id: number, updates: Partial<InventoryItem>): Promise<InventoryItem | null> {
-    const items = await this.readData<InventoryItem>('inventory.json', 'items');
-    const index = items.findIndex(item => item.id === id);
-    
-    if (index !== -1) {
-      items[index] = { ...items[index], ...updates };
-      await this.writeData('inventory.json', 'items', items);
+  /**
+   * Update an inventory item
+   * A change to its stock is recorded as a movement in the same transaction.
+   * 
+   * @param change Why the stock changed, if it did
+   */
+  async updateInventoryItem(id: number, updates: Partial<InventoryItem>, change: StockChange = UNATTRIBUTED_CHANGE): Promise<InventoryItem | null> {
+    return this.withFileLocks(['inventory.json', 'stockMovements.json'], async () => {
+      const items = await this.readDataStrict<InventoryItem>('inventory.json', 'items');
+      const index = items.findIndex(item => item.id === id);
+      
+      if (index === -1) {
+        return null;
+      }
+      
+      // Lots and the stock at each location only change with the stock
+      const { stock, lots, locationStock, ...rest } = updates;
+      items[index] = { ...items[index], ...rest };
+      const movement = stock !== undefined
+        ? moveStock(items[index], stock, change, new Date().toISOString())
+        : null;
+      
+      if (movement) {
+        await this.commitTransaction([
+          { fileName: 'inventory.json', content: { items } },
+          await this.appendMovements([movement])
+        ]);
+      } else {
+        await this.writeData('inventory.json', 'items', items);
+      }
       return items[index];
-    }
-    
-    return null;
+    });
   }
 
-  async addInventoryItem(item: Omit<InventoryItem, 'id' | 'status'>): Promise<InventoryItem> {
-    const items = await this.readData<InventoryItem>('inventory.json', 'items');
-    const newId = Math.max(0, ...items.map(item => item.id)) + 1;
-    
-    const newItem: InventoryItem = { 
-      ...item as any, // Type cast to avoid TypeScript errors
-      id: newId,
-      status: item.stock < item.threshold ? 'Low Stock' : 'In Stock'
-    };
-    
-    items.push(newItem);
-    await this.writeData('inventory.json', 'items', items);
-    return newItem;
+  /**
+   * Add an inventory item, recording its opening stock as a movement
+   */
+  async addInventoryItem(item: Omit<InventoryItem, 'id' | 'status'>, change: StockChange = UNATTRIBUTED_CHANGE): Promise<InventoryItem> {
+    return this.withFileLocks(['inventory.json', 'stockMovements.json'], async () => {
+      const items = await this.readDataStrict<InventoryItem>('inventory.json', 'items');
+      const newId = Math.max(0, ...items.map(item => item.id)) + 1;
+      
+      const newItem: InventoryItem = { 
+        ...item as any, // Type cast to avoid TypeScript errors
+        id: newId,
+        stock: 0,
+        lots: undefined, // Opening stock goes into lots and locations as it is moved in
+        locationStock: undefined,
+        status: item.stock < item.threshold ? 'Low Stock' : 'In Stock'
+      };
+      const movement = moveStock(newItem, item.stock, change, new Date().toISOString());
+      
+      items.push(newItem);
+      await this.commitTransaction([
+        { fileName: 'inventory.json', content: { items } },
+        await this.appendMovements([movement])
+      ]);
+      return newItem;
+    });
   }
 
   async deleteInventoryItem(id: number): Promise<boolean> {
-    const items = await this.readData<InventoryItem>('inventory.json', 'items');
-    const newItems = items.filter(item => item.id !== id);
-    
-    if (newItems.length !== items.length) {
-      await this.writeData('inventory.json', 'items', newItems);
-      return true;
-    }
-    
-    return false;
+    return this.withFileLocks(['inventory.json'], async () => {
+      const items = await this.readDataStrict<InventoryItem>('inventory.json', 'items');
+      const newItems = items.filter(item => item.id !== id);
+      
+      if (newItems.length !== items.length) {
+        await this.writeData('inventory.json', 'items', newItems);
+        return true;
+      }
+      
+      return false;
+    });
+  }
+
+  // Stock movement methods
+  
+  /**
+   * Get stock movements, oldest first
+   * 
+   * @param productId Only the movements of this item
+   */
+  async getStockMovements(productId?: number): Promise<StockMovement[]> {
+    const movements = await this.readData<StockMovement>('stockMovements.json', 'movements');
+    return productId === undefined ? movements : movements.filter(movement => movement.productId === productId);
+  }
+  
+  /**
+   * Build the write that appends movements to the ledger
+   * Must be called with stockMovements.json locked.
+   */
+  private async appendMovements(pending: (PendingStockMovement | null)[]): Promise<FileWrite> {
+    const movements = await this.readDataStrict<StockMovement>('stockMovements.json', 'movements');
+    movements.push(...numberMovements(movements, pending));
+    return { fileName: 'stockMovements.json', content: { movements } };
   }
 
   // Sales methods
@@ -358,60 +647,101 @@ export class FileStorage implements IStorage {
     return sales.find(sale => sale.id === id);
   }
 
-  async addSale(sale: Omit<Sale, 'id' | 'date'>): Promise<Sale> {
+  async getSaleByIdempotencyKey(key: string): Promise<Sale | undefined> {
     const sales = await this.readData<Sale>('sales.json', 'sales');
-    
-    // Get the current date
-    const date = new Date();
-    const formattedDate = date.toISOString().split('T')[0].replace(/-/g, '');
-    
-    // Get settings to retrieve last transaction ID
-    const settings = await this.getStoreSettings();
-    
-    // Extract current date in format YYYYMMDD
-    const today = new Date();
-    const year = today.getFullYear();
-    const month = String(today.getMonth() + 1).padStart(2, '0');
-    const day = String(today.getDate()).padStart(2, '0');
-    const dateFormatted = `${year}${month}${day}`;
-    
-    // Find the highest transaction number for today
-    let todayMaxNumber = 0;
-    
-    // Look through existing sales to find the highest transaction number for today
-    for (const existingSale of sales) {
-      // Check if it's from today - format TRX-20250516-1234
-      if (existingSale.id.startsWith(`TRX-${dateFormatted}`)) {
-        try {
-          // Extract the number part from the ID
-          const parts = existingSale.id.split('-');
-          if (parts.length === 3) {
-            const number = parseInt(parts[2], 10);
-            if (!isNaN(number) && number > todayMaxNumber) {
-              todayMaxNumber = number;
+    return sales.find(sale => sale.idempotencyKey === key);
+  }
+
+  /**
+   * Record a sale and deduct the sold quantities from stock
+   * The sale and the stock changes are committed as a single transaction,
+   * so a crash can never leave one without the other.
+   * Throws InsufficientStockError if the sale would oversell, unless the
+   * negative stock override is set, and DuplicateSaleError if a sale with
+   * the same idempotency key is already recorded.
+   */
+  async addSale(sale: Omit<Sale, 'id' | 'date'>, options: SaleOptions): Promise<Sale> {
+    const newSale = await this.withFileLocks(['sales.json', 'inventory.json', 'stockMovements.json'], async () => {
+      const sales = await this.readDataStrict<Sale>('sales.json', 'sales');
+      const inventory = await this.readDataStrict<InventoryItem>('inventory.json', 'items');
+      
+      // A retry that raced the original request must not record the sale twice
+      const duplicate = sale.idempotencyKey ? sales.find(existing => existing.idempotencyKey === sale.idempotencyKey) : undefined;
+      if (duplicate) {
+        throw new DuplicateSaleError(duplicate);
+      }
+      
+      // Check stock under the lock so concurrent sales can't oversell
+      const shortages = findStockShortages(sale.items, inventory, sale.locationId);
+      if (shortages.length > 0 && !options.allowNegativeStock) {
+        throw new InsufficientStockError(shortages);
+      }
+      
+      // Get the date the sale was rung up, normally now
+      const date = options.date ? new Date(options.date) : new Date();
+      
+      // Extract current date in format YYYYMMDD
+      const year = date.getFullYear();
+      const month = String(date.getMonth() + 1).padStart(2, '0');
+      const day = String(date.getDate()).padStart(2, '0');
+      const dateFormatted = `${year}${month}${day}`;
+      
+      // Find the highest transaction number for that day
+      let todayMaxNumber = 0;
+      
+      // Look through existing sales to find the highest transaction number for that day
+      for (const existingSale of sales) {
+        // Check if it's from today - format TRX-20250516-1234
+        if (existingSale.id.startsWith(`TRX-${dateFormatted}`)) {
+          try {
+            // Extract the number part from the ID
+            const parts = existingSale.id.split('-');
+            if (parts.length === 3) {
+              const number = parseInt(parts[2], 10);
+              if (!isNaN(number) && number > todayMaxNumber) {
+                todayMaxNumber = number;
+              }
             }
+          } catch (error) {
+            console.error('Error parsing transaction ID', existingSale.id, error);
           }
-        } catch (error) {
-          console.error('Error parsing transaction ID', existingSale.id, error);
         }
       }
-    }
-    
-    // Increment for the next transaction
-    const nextTransactionNumber = todayMaxNumber + 1;
-    
-    // Create transaction ID in format TRX-YYYYMMDD-####
-    const transactionId = `TRX-${dateFormatted}-${nextTransactionNumber}`;
-    
-    // Create the new sale
-    const newSale: Sale = { 
-      ...sale as any, // Type cast to avoid TypeScript errors
-      id: transactionId,
-      date: date.toISOString()
-    };
-    
-    sales.push(newSale);
-    await this.writeData('sales.json', 'sales', sales);
+      
+      // Increment for the next transaction
+      const nextTransactionNumber = todayMaxNumber + 1;
+      
+      // Create transaction ID in format TRX-YYYYMMDD-####
+      const transactionId = `TRX-${dateFormatted}-${nextTransactionNumber}`;
+      
+      // Create the new sale
+      const created: Sale = { 
+        ...sale as any, // Type cast to avoid TypeScript errors
+        id: transactionId,
+        date: date.toISOString()
+      };
+      
+      // Deduct sold quantities from stock; bundles from their components
+      const movements: (PendingStockMovement | null)[] = [];
+      for (const saleItem of created.items) {
+        const change = saleLineChange(saleItem, { type: 'sale', user: options.user, sourceId: created.id, locationId: created.locationId });
+        for (const part of stockTaken(saleItem)) {
+          const inventoryItem = inventory.find(item => item.id === part.productId);
+          if (inventoryItem) {
+            movements.push(moveStock(inventoryItem, inventoryItem.stock - part.quantity, change, created.date));
+          }
+        }
+      }
+      
+      sales.push(created);
+      await this.commitTransaction([
+        { fileName: 'sales.json', content: { sales } },
+        { fileName: 'inventory.json', content: { items: inventory } },
+        await this.appendMovements(movements)
+      ]);
+      
+      return created;
+    });
     
     // Update product popularity data for dynamic POS arrangement
     await this.updateProductPopularity(newSale.items);
@@ -427,190 +757,102 @@ export class FileStorage implements IStorage {
    * @returns The updated sale, or null if not found
    */
   async updateSale(id: string, updates: Partial<Sale>): Promise<Sale | null> {
-    const sales = await this.readData<Sale>('sales.json', 'sales');
-    const index = sales.findIndex(sale => sale.id === id);
-    
-    if (index === -1) {
-      return null;
-    }
-    
-    // Update the sale with new values
-    const updatedSale = {
-      ...sales[index],
-      ...updates
-    };
-    
-    sales[index] = updatedSale;
-    await this.writeData('sales.json', 'sales', sales);
-    return updatedSale;
+    return this.withFileLocks(['sales.json'], async () => {
+      const sales = await this.readDataStrict<Sale>('sales.json', 'sales');
+      const index = sales.findIndex(sale => sale.id === id);
+      
+      if (index === -1) {
+        return null;
+      }
+      
+      // Update the sale with new values
+      const updatedSale = {
+        ...sales[index],
+        ...updates
+      };
+      
+      sales[index] = updatedSale;
+      await this.writeData('sales.json', 'sales', sales);
+      return updatedSale;
+    });
   }
   
   /**
-   * Process a refund for a sale
+   * Process a return against a sale
+   * Returned items go back into stock, or into losses when they are not fit
+   * to resell. The return, stock and losses are committed together as a
+   * single transaction. Throws ReturnQuantityError if a line asks for more
+   * than is left on the sale.
    * 
-   * @param id The ID of the sale to refund
+   * @param id The ID of the sale to return against
+   * @param refund Lines and quantities to return (all that is left if omitted) and the reason
    * @param refundedBy Username of the person who processed the refund
-   * @returns The updated sale with refunded status, or null if not found
+   * @param shiftId Shift the refund was processed in
+   * @returns The updated sale with the new return, or null if not found or fully refunded
    */
-  async refundSale(id: string, refundedBy: string): Promise<Sale | null> {
-    const sale = await this.getSale(id);
-    
-    if (!sale || sale.status === 'Refunded') {
-      return null;
-    }
-    
-    // Update inventory stock (add the refunded quantities back)
-    for (const item of sale.items) {
-      const inventoryItem = await this.getInventoryItem(item.productId);
-      if (inventoryItem) {
-        const newStock = inventoryItem.stock + item.quantity;
-        await this.updateInventoryItem(item.productId, { 
-          stock: newStock 
-        });
-        
-        // Check if this change affects low stock status
-        if (inventoryItem.stock <= inventoryItem.threshold && newStock > inventoryItem.threshold) {
-          // Item just went above threshold, decrement lowStockItems
-          const stats = await this.getStats();
-          await this.updateStats({ 
-            lowStockItems: Math.max(0, stats.lowStockItems - 1)  // Ensure we don't go below 0
-          });
+  async refundSale(id: string, refund: RefundRequest, refundedBy: string, shiftId?: number): Promise<Sale | null> {
+    return this.withFileLocks(['sales.json', 'inventory.json', 'losses.json', 'stockMovements.json'], async () => {
+      const sales = await this.readDataStrict<Sale>('sales.json', 'sales');
+      const inventory = await this.readDataStrict<InventoryItem>('inventory.json', 'items');
+      const losses = await this.readDataStrict<LossItem>('losses.json', 'losses');
+      
+      const index = sales.findIndex(sale => sale.id === id);
+      const sale = sales[index];
+      
+      if (!sale || sale.status === 'Refunded') {
+        return null;
+      }
+      
+      const priced = priceReturn(sale, refund);
+      if (priced.lineErrors.length > 0) {
+        throw new ReturnQuantityError(priced.lineErrors);
+      }
+      
+      const now = new Date().toISOString();
+      
+      // Put resellable items back in stock and record the rest as losses
+      const movements: (PendingStockMovement | null)[] = [];
+      for (const line of priced.lines.filter(line => line.restocked)) {
+        // A returned bundle puts back the components it was sold with
+        const saleItem = sale.items[saleLineOf(sale, line)];
+        const returned = { ...line, components: saleItem?.components };
+        const change = saleLineChange(returned, { type: 'refund', user: refundedBy, sourceId: sale.id, locationId: sale.locationId });
+        for (const part of stockTaken(returned)) {
+          const inventoryItem = inventory.find(entry => entry.id === part.productId);
+          if (inventoryItem) {
+            movements.push(moveStock(inventoryItem, inventoryItem.stock + part.quantity, change, now));
+          }
         }
       }
-    }
-    
-    // Update sales statistics for today's refunds
-    const saleDate = new Date(sale.date);
-    const today = new Date();
-    
-    if (
-      saleDate.getFullYear() === today.getFullYear() &&
-      saleDate.getMonth() === today.getMonth() &&
-      saleDate.getDate() === today.getDate()
-    ) {
-      const stats = await this.getStats();
-      const currentRefunds = stats.todayRefunds || 0;
-      const updatedRefunds = currentRefunds + sale.amount;
-      const netSales = stats.todaySales - updatedRefunds;
-      
-      await this.updateStats({
-        todayRefunds: updatedRefunds,
-        netSales: netSales
-      });
-    }
-    
-    // Mark the sale as refunded
-    const timestamp = new Date().toISOString();
-    const updatedSale = await this.updateSale(id, { 
-      status: 'Refunded',
-      refundedBy: refundedBy,
-      refundDate: timestamp
-    });
-    
-    return updatedSale;
-  }
-
-  // Stats methods
-  async getStats(): Promise<Stats> {
-    try {
-      // Get base stats from file
-      const filePath = path.join(this.dataDir, 'stats.json');
-      const data = await fs.readFile(filePath, 'utf8');
-      const stats = JSON.parse(data);
-      
-      // Handle both nested and flat structure for backwards compatibility
-      const baseStats = stats.stats || stats;
-      
-      // Calculate total inventory value in real-time
-      const inventory = await this.getInventory();
-      const totalInventoryValue = inventory.reduce((total, item) => {
-        return total + (item.price * item.stock);
-      }, 0);
-      
-      // Calculate total inventory items in real-time
-      const totalInventoryItems = inventory.length;
-      
-      // Calculate low stock items in real-time
-      const lowStockItems = inventory.filter(item => item.stock <= item.threshold).length;
-      
-      // Get active users count in real-time
-      const users = await this.readData<User>('users.json', 'users');
-      const activeUsers = users.filter(user => user.status === 'Active').length;
-      
-      // Ensure refund stats are initialized
-      if (typeof baseStats.todayRefunds === 'undefined') {
-        baseStats.todayRefunds = 0;
+      for (const loss of returnLosses(sale, priced, refund, refundedBy, now)) {
+        losses.push({
+          ...loss,
+          id: `LOSS-${now.slice(0, 10)}-${String(losses.length + 1).padStart(3, '0')}`
+        });
       }
       
-      // Calculate net sales
-      const netSales = Math.max(0, (baseStats.todaySales || 0) - (baseStats.todayRefunds || 0));
+      // Record the return; the sale is refunded once nothing is left to return
+      const updatedSale = recordReturn(sale, priced, refund, refundedBy, now, shiftId);
+      sales[index] = updatedSale;
       
-      // Return stats with real-time calculated values
-      return {
-        ...baseStats,
-        totalInventoryValue,
-        totalInventoryItems,
-        lowStockItems,
-        activeUsers,
-        netSales
-      } as Stats;
-    } catch (error) {
-      console.error('Error reading stats.json:', error);
-      return {
-        totalInventoryItems: 0,
-        todaySales: 0,
-        lowStockItems: 0,
-        activeUsers: 0,
-        totalInventoryValue: 0,
-        todayRefunds: 0,
-        netSales: 0
-      };
-    }
+      await this.commitTransaction([
+        { fileName: 'sales.json', content: { sales } },
+        { fileName: 'inventory.json', content: { items: inventory } },
+        { fileName: 'losses.json', content: { losses } },
+        await this.appendMovements(movements)
+      ]);
+      
+      return updatedSale;
+    });
   }
 
-  async updateStats(updates: Partial<Stats>): Promise<Stats | null> {
-    try {
-      const filePath = path.join(this.dataDir, 'stats.json');
-      const data = await fs.readFile(filePath, 'utf8');
-      const stats = JSON.parse(data);
-      
-      // Handle both nested and flat structure for backwards compatibility
-      const baseStats = stats.stats || stats;
-      
-      // Initialize fields if they don't exist in original stats
-      if (!baseStats.totalInventoryValue) {
-        baseStats.totalInventoryValue = 0;
-      }
-      
-      if (typeof baseStats.todayRefunds === 'undefined') {
-        baseStats.todayRefunds = 0;
-      }
-      
-      if (typeof baseStats.netSales === 'undefined') {
-        baseStats.netSales = baseStats.todaySales || 0;
-      }
-      
-      const updatedStats: Stats = { 
-        ...baseStats, 
-        ...updates 
-      };
-      
-      // Recalculate net sales if not explicitly provided but components changed
-      if ((updates.todaySales || updates.todayRefunds) && !updates.netSales) {
-        updatedStats.netSales = Math.max(0, updatedStats.todaySales - (updatedStats.todayRefunds || 0));
-      }
-      
-      // Only persist non-computed fields like totalInventoryValue, totalInventoryItems, lowStockItems, activeUsers
-      const { totalInventoryValue, totalInventoryItems, lowStockItems, activeUsers, ...persistentFields } = updatedStats;
-      
-      await fs.writeFile(filePath, JSON.stringify(persistentFields, null, 2), 'utf8');
-      
-      // Return the full stats including computed values
-      return updatedStats;
-    } catch (error) {
-      console.error('Error updating stats.json:', error);
-      return null;
-    }
+  // Stats methods
+  async getStats(locationId?: number): Promise<Stats> {
+    const inventory = await this.getInventory();
+    const sales = await this.readData<Sale>('sales.json', 'sales');
+    const users = await this.readData<User>('users.json', 'users');
+    const settings = await this.getStoreSettings();
+    return summarizeStats(inventory, sales, users, { locationId, businessDay: settings.businessDay });
   }
 
   // Losses Management
@@ -633,9 +875,20 @@ export class FileStorage implements IStorage {
     }
   }
 
+  /**
+   * Record a loss and deduct the lost quantity from stock
+   * The loss record and the stock change are committed as a single transaction.
+   */
   async addLoss(lossData: Omit<LossItem, 'id' | 'date'>): Promise<LossItem> {
-    try {
-      const losses = await this.getLosses();
+    return this.withFileLocks(['losses.json', 'inventory.json', 'stockMovements.json'], async () => {
+      const losses = await this.readDataStrict<LossItem>('losses.json', 'losses');
+      const inventory = await this.readDataStrict<InventoryItem>('inventory.json', 'items');
+      
+      // Get the inventory item
+      const item = inventory.find(entry => entry.id === lossData.inventoryItemId);
+      if (!item) {
+        throw new Error(`Inventory item with ID ${lossData.inventoryItemId} not found`);
+      }
       
       // Generate a unique ID for the loss transaction
       const id = `LOSS-${new Date().toISOString().slice(0, 10)}-${String(losses.length + 1).padStart(3, '0')}`;
@@ -648,45 +901,24 @@ export class FileStorage implements IStorage {
       };
       
       // Update inventory stock
-      await this.updateInventoryFromLoss(newLoss);
+      const movement = moveStock(
+        item,
+        stockAfterTaking(item, newLoss.quantity, newLoss.locationId),
+        { type: 'loss', user: newLoss.recordedBy, sourceId: newLoss.id, note: newLoss.reason, lotId: newLoss.lotId, locationId: newLoss.locationId },
+        newLoss.date
+      );
       
       // Add the new loss to the collection
       losses.push(newLoss);
       
-      // Write the updated losses to file
-      await this.writeData<LossItem>('losses.json', 'losses', losses);
+      await this.commitTransaction([
+        { fileName: 'losses.json', content: { losses } },
+        { fileName: 'inventory.json', content: { items: inventory } },
+        await this.appendMovements([movement])
+      ]);
       
       return newLoss;
-    } catch (error) {
-      // Re-throw error for proper handling at the API layer
-      throw error;
-    }
-  }
-
-  private async updateInventoryFromLoss(loss: LossItem): Promise<void> {
-    try {
-      // Get the inventory item
-      const item = await this.getInventoryItem(loss.inventoryItemId);
-      if (!item) {
-        throw new Error(`Inventory item with ID ${loss.inventoryItemId} not found`);
-      }
-      
-      // Calculate new stock
-      const newStock = Math.max(0, item.stock - loss.quantity);
-      
-      // Update the inventory item's stock
-      await this.updateInventoryItem(loss.inventoryItemId, { stock: newStock });
-      
-      // Update stats if needed
-      const stats = await this.getStats();
-      if (newStock <= item.threshold && item.stock > item.threshold) {
-        // Item has fallen below threshold, increment lowStockItems
-        await this.updateStats({ lowStockItems: stats.lowStockItems + 1 });
-      }
-    } catch (error) {
-      // Re-throw error for proper handling in calling method
-      throw error;
-    }
+    });
   }
   
   /**
@@ -694,12 +926,14 @@ export class FileStorage implements IStorage {
    * 
    * @param id The ID of the loss record to update
    * @param updates Partial updates to apply to the loss record
+   * @param updatedBy Username of the person correcting the loss, for the stock movement
    * @returns The updated loss record, or null if not found
    */
-  async updateLoss(id: string, updates: Partial<LossItem>): Promise<LossItem | null> {
-    try {
+  async updateLoss(id: string, updates: Partial<LossItem>, updatedBy?: string): Promise<LossItem | null> {
+    return this.withFileLocks(['losses.json', 'inventory.json', 'stockMovements.json'], async () => {
       // Get all loss records
-      const losses = await this.getLosses();
+      const losses = await this.readDataStrict<LossItem>('losses.json', 'losses');
+      const inventory = await this.readDataStrict<InventoryItem>('inventory.json', 'items');
       
       // Find the index of the loss to update
       const index = losses.findIndex(loss => loss.id === id);
@@ -717,30 +951,20 @@ export class FileStorage implements IStorage {
       };
       
       // Handle inventory adjustments if quantity has changed
+      let movement: PendingStockMovement | null = null;
       if (updates.quantity !== undefined && updates.quantity !== originalLoss.quantity) {
-        const inventoryItem = await this.getInventoryItem(originalLoss.inventoryItemId);
+        const inventoryItem = inventory.find(entry => entry.id === originalLoss.inventoryItemId);
         if (inventoryItem) {
           // Calculate the quantity difference (positive means more loss, negative means less)
           const quantityDifference = updates.quantity - originalLoss.quantity;
           
-          // Get current inventory stock
-          const currentStock = inventoryItem.stock;
-          
           // Calculate new stock (add back the original quantity, then subtract the new quantity)
-          const newStock = Math.max(0, currentStock - quantityDifference);
-          
-          // Update inventory
-          await this.updateInventoryItem(originalLoss.inventoryItemId, { stock: newStock });
-          
-          // Update stats if threshold status changed
-          const stats = await this.getStats();
-          if (currentStock > inventoryItem.threshold && newStock <= inventoryItem.threshold) {
-            // Item just went below threshold
-            await this.updateStats({ lowStockItems: stats.lowStockItems + 1 });
-          } else if (currentStock <= inventoryItem.threshold && newStock > inventoryItem.threshold) {
-            // Item moved above threshold
-            await this.updateStats({ lowStockItems: Math.max(0, stats.lowStockItems - 1) });
-          }
+          movement = moveStock(
+            inventoryItem,
+            stockAfterTaking(inventoryItem, quantityDifference, originalLoss.locationId),
+            { type: 'loss', user: updatedBy || originalLoss.recordedBy, sourceId: id, note: 'Loss quantity corrected', locationId: originalLoss.locationId, ...lossLotChange(originalLoss) },
+            new Date().toISOString()
+          );
           
           // Update value if not explicitly provided
           if (updates.value === undefined) {
@@ -751,13 +975,15 @@ export class FileStorage implements IStorage {
       
       // Update loss record
       losses[index] = updatedLoss;
-      await this.writeData<LossItem>('losses.json', 'losses', losses);
+      
+      await this.commitTransaction([
+        { fileName: 'losses.json', content: { losses } },
+        { fileName: 'inventory.json', content: { items: inventory } },
+        await this.appendMovements([movement])
+      ]);
       
       return updatedLoss;
-    } catch (error) {
-      // Simply re-throw for consistent error handling at API level
-      throw error;
-    }
+    });
   }
 
   /**
@@ -766,33 +992,33 @@ export class FileStorage implements IStorage {
   async getStoreSettings(): Promise<StoreSettings> {
     try {
       const data = await this.readData<StoreSettings>('settings.json', 'settings');
-      if (data && data.length > 0) {
-        return data[0];
-      }
-      // Return default settings if none found
-      return {
-        storeName: "Inventory Pro Store",
-        storeAddress: "123 Main Street, City, State, 12345",
-        storePhone: "(555) 123-4567",
-        thankYouMessage: "Thank you for shopping with us!",
-        nextTransactionId: 1
-      };
+      return data[0] || { ...DEFAULT_STORE_SETTINGS };
     } catch (error) {
       // Re-throw for handling at API level
       throw error;
     }
   }
 
+  /**
+   * Read the store settings to change them; a failed read throws rather than giving the defaults
+   */
+  private async readStoreSettingsStrict(): Promise<StoreSettings> {
+    const data = await this.readDataStrict<StoreSettings>('settings.json', 'settings');
+    return data[0] || { ...DEFAULT_STORE_SETTINGS };
+  }
+
   /**
    * Update the store settings
    */
   async updateStoreSettings(updates: Partial<StoreSettings>): Promise<StoreSettings> {
     try {
-      const currentSettings = await this.getStoreSettings();
-      const updatedSettings = { ...currentSettings, ...updates };
-      
-      await this.writeData('settings.json', 'settings', [updatedSettings]);
-      return updatedSettings;
+      return await this.withFileLocks(['settings.json'], async () => {
+        const currentSettings = await this.readStoreSettingsStrict();
+        const updatedSettings = { ...currentSettings, ...updates };
+        
+        await this.writeData('settings.json', 'settings', [updatedSettings]);
+        return updatedSettings;
+      });
     } catch (error) {
       // Re-throw for handling at API level
       throw error;
@@ -804,13 +1030,15 @@ export class FileStorage implements IStorage {
    */
   async getNextTransactionId(): Promise<number> {
     try {
-      const settings = await this.getStoreSettings();
-      const currentId = settings.nextTransactionId;
-      
-      // Increment the transaction ID for next time
-      await this.updateStoreSettings({ nextTransactionId: currentId + 1 });
-      
-      return currentId;
+      return await this.withFileLocks(['settings.json'], async () => {
+        const settings = await this.readStoreSettingsStrict();
+        const currentId = settings.nextTransactionId;
+        
+        // Increment the transaction ID for next time
+        await this.writeData('settings.json', 'settings', [{ ...settings, nextTransactionId: currentId + 1 }]);
+        
+        return currentId;
+      });
     } catch (error) {
       // Re-throw for handling at API level
       throw error;
@@ -835,33 +1063,35 @@ export class FileStorage implements IStorage {
    */
   async updateProductPopularity(items: SaleItem[]): Promise<void> {
     try {
-      const popularityData = await this.getProductPopularity();
-      const currentDate = new Date().toISOString();
-      
-      // Update counts for each product in the sale
-      for (const item of items) {
-        const productId = item.productId;
-        const existingIndex = popularityData.findIndex(p => p.productId === productId);
+      await this.withFileLocks(['popularity.json'], async () => {
+        const popularityData = await this.readDataStrict<ProductPopularity>('popularity.json', 'popularity');
+        const currentDate = new Date().toISOString();
         
-        if (existingIndex >= 0) {
-          // Update existing product popularity
-          popularityData[existingIndex].salesCount += item.quantity;
-          popularityData[existingIndex].lastUpdated = currentDate;
-        } else {
-          // Add new product popularity entry
-          popularityData.push({
-            productId,
-            salesCount: item.quantity,
-            lastUpdated: currentDate
-          });
+        // Update counts for each product in the sale
+        for (const item of items) {
+          const productId = item.productId;
+          const existingIndex = popularityData.findIndex(p => p.productId === productId);
+        
+          if (existingIndex >= 0) {
+            // Update existing product popularity
+            popularityData[existingIndex].salesCount += item.quantity;
+            popularityData[existingIndex].lastUpdated = currentDate;
+          } else {
+            // Add new product popularity entry
+            popularityData.push({
+              productId,
+              salesCount: item.quantity,
+              lastUpdated: currentDate
+            });
+          }
         }
-      }
-      
-      // Sort by sales count (most popular first)
-      popularityData.sort((a, b) => b.salesCount - a.salesCount);
-      
-      // Save updated popularity data
-      await this.writeData('popularity.json', 'popularity', popularityData);
+        
+        // Sort by sales count (most popular first)
+        popularityData.sort((a, b) => b.salesCount - a.salesCount);
+        
+        // Save updated popularity data
+        await this.writeData('popularity.json', 'popularity', popularityData);
+      });
     } catch (error) {
       // Silently fail for non-critical popularity data
       // Product popularity is non-essential and shouldn't break the application
@@ -899,6 +1129,911 @@ export class FileStorage implements IStorage {
       return this.getInventory();
     }
   }
+  
+  // Promotion methods
+  async getPromotions(): Promise<Promotion[]> {
+    return this.readData<Promotion>('promotions.json', 'promotions');
+  }
+  
+  async getPromotion(id: number): Promise<Promotion | undefined> {
+    const promotions = await this.getPromotions();
+    return promotions.find(promotion => promotion.id === id);
+  }
+  
+  async addPromotion(promotion: Omit<Promotion, 'id'>): Promise<Promotion> {
+    return this.withFileLocks(['promotions.json'], async () => {
+      const promotions = await this.readDataStrict<Promotion>('promotions.json', 'promotions');
+      const newPromotion: Promotion = {
+        ...promotion,
+        id: Math.max(0, ...promotions.map(entry => entry.id)) + 1
+      };
+      
+      promotions.push(newPromotion);
+      await this.writeData('promotions.json', 'promotions', promotions);
+      return newPromotion;
+    });
+  }
+  
+  async updatePromotion(id: number, updates: Partial<Promotion>): Promise<Promotion | null> {
+    return this.withFileLocks(['promotions.json'], async () => {
+      const promotions = await this.readDataStrict<Promotion>('promotions.json', 'promotions');
+      const index = promotions.findIndex(promotion => promotion.id === id);
+      
+      if (index === -1) {
+        return null;
+      }
+      
+      promotions[index] = { ...promotions[index], ...updates, id };
+      await this.writeData('promotions.json', 'promotions', promotions);
+      return promotions[index];
+    });
+  }
+  
+  async deletePromotion(id: number): Promise<boolean> {
+    return this.withFileLocks(['promotions.json'], async () => {
+      const promotions = await this.readDataStrict<Promotion>('promotions.json', 'promotions');
+      const remaining = promotions.filter(promotion => promotion.id !== id);
+      
+      if (remaining.length === promotions.length) {
+        return false;
+      }
+      
+      await this.writeData('promotions.json', 'promotions', remaining);
+      return true;
+    });
+  }
+  
+  // Shift methods
+  async getShifts(): Promise<Shift[]> {
+    return this.readData<Shift>('shifts.json', 'shifts');
+  }
+  
+  async getShift(id: number): Promise<Shift | undefined> {
+    const shifts = await this.getShifts();
+    return shifts.find(shift => shift.id === id);
+  }
+  
+  async getOpenShift(userId: number): Promise<Shift | undefined> {
+    const shifts = await this.getShifts();
+    return shifts.find(shift => shift.userId === userId && shift.status === 'open');
+  }
+  
+  /**
+   * Open a shift for a user
+   * 
+   * @returns The new shift, or null if the user already has one open
+   */
+  async openShift(shift: Pick<Shift, 'userId' | 'cashier' | 'openingFloat' | 'locationId'>): Promise<Shift | null> {
+    return this.withFileLocks(['shifts.json'], async () => {
+      const shifts = await this.readDataStrict<Shift>('shifts.json', 'shifts');
+      if (shifts.some(entry => entry.userId === shift.userId && entry.status === 'open')) {
+        return null;
+      }
+      
+      const newShift: Shift = {
+        ...shift,
+        id: Math.max(0, ...shifts.map(entry => entry.id)) + 1,
+        status: 'open',
+        openedAt: new Date().toISOString(),
+        movements: []
+      };
+      
+      shifts.push(newShift);
+      await this.writeData('shifts.json', 'shifts', shifts);
+      return newShift;
+    });
+  }
+  
+  /**
+   * Record a paid-in, paid-out or cash drop on an open shift
+   * 
+   * @returns The updated shift, or null if it is not found or already closed
+   */
+  async addCashMovement(shiftId: number, movement: Omit<CashMovement, 'id' | 'date'>): Promise<Shift | null> {
+    return this.updateOpenShift(shiftId, shift => ({
+      ...shift,
+      movements: [
+        ...shift.movements,
+        {
+          ...movement,
+          id: Math.max(0, ...shift.movements.map(entry => entry.id)) + 1,
+          date: new Date().toISOString()
+        }
+      ]
+    }));
+  }
+  
+  /**
+   * Close an open shift with its counted cash
+   * 
+   * @returns The closed shift, or null if it is not found or already closed
+   */
+  async closeShift(id: number, close: ShiftClose): Promise<Shift | null> {
+    return this.updateOpenShift(id, shift => ({
+      ...shift,
+      ...close,
+      status: 'closed',
+      closedAt: new Date().toISOString()
+    }));
+  }
+  
+  private async updateOpenShift(id: number, update: (shift: Shift) => Shift): Promise<Shift | null> {
+    return this.withFileLocks(['shifts.json'], async () => {
+      const shifts = await this.readDataStrict<Shift>('shifts.json', 'shifts');
+      const index = shifts.findIndex(shift => shift.id === id);
+      
+      if (index === -1 || shifts[index].status !== 'open') {
+        return null;
+      }
+      
+      shifts[index] = update(shifts[index]);
+      await this.writeData('shifts.json', 'shifts', shifts);
+      return shifts[index];
+    });
+  }
+  
+  // Supplier methods
+  async getSuppliers(): Promise<Supplier[]> {
+    return this.readData<Supplier>('suppliers.json', 'suppliers');
+  }
+  
+  async getSupplier(id: number): Promise<Supplier | undefined> {
+    const suppliers = await this.getSuppliers();
+    return suppliers.find(supplier => supplier.id === id);
+  }
+  
+  async addSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    return this.withFileLocks(['suppliers.json'], async () => {
+      const suppliers = await this.readDataStrict<Supplier>('suppliers.json', 'suppliers');
+      const newSupplier: Supplier = {
+        ...supplier,
+        id: Math.max(0, ...suppliers.map(entry => entry.id)) + 1
+      };
+      
+      suppliers.push(newSupplier);
+      await this.writeData('suppliers.json', 'suppliers', suppliers);
+      return newSupplier;
+    });
+  }
+  
+  async updateSupplier(id: number, updates: Partial<Supplier>): Promise<Supplier | null> {
+    return this.withFileLocks(['suppliers.json'], async () => {
+      const suppliers = await this.readDataStrict<Supplier>('suppliers.json', 'suppliers');
+      const index = suppliers.findIndex(supplier => supplier.id === id);
+      
+      if (index === -1) {
+        return null;
+      }
+      
+      suppliers[index] = { ...suppliers[index], ...updates, id };
+      await this.writeData('suppliers.json', 'suppliers', suppliers);
+      return suppliers[index];
+    });
+  }
+  
+  /**
+   * Delete a supplier and unlink it from every inventory item
+   */
+  async deleteSupplier(id: number): Promise<boolean> {
+    return this.withFileLocks(['suppliers.json', 'inventory.json'], async () => {
+      const suppliers = await this.readDataStrict<Supplier>('suppliers.json', 'suppliers');
+      const inventory = await this.readDataStrict<InventoryItem>('inventory.json', 'items');
+      const remaining = suppliers.filter(supplier => supplier.id !== id);
+      
+      if (remaining.length === suppliers.length) {
+        return false;
+      }
+      
+      for (const item of inventory) {
+        if (item.suppliers?.some(link => link.supplierId === id)) {
+          item.suppliers = item.suppliers.filter(link => link.supplierId !== id);
+        }
+      }
+      
+      await this.commitTransaction([
+        { fileName: 'suppliers.json', content: { suppliers: remaining } },
+        { fileName: 'inventory.json', content: { items: inventory } }
+      ]);
+      return true;
+    });
+  }
+  
+  // Variant group methods
+  async getVariantGroups(): Promise<VariantGroup[]> {
+    return this.readData<VariantGroup>('variantGroups.json', 'groups');
+  }
+  
+  async getVariantGroup(id: number): Promise<VariantGroup | undefined> {
+    const groups = await this.getVariantGroups();
+    return groups.find(group => group.id === id);
+  }
+  
+  async addVariantGroup(group: InsertVariantGroup): Promise<VariantGroup> {
+    return this.withFileLocks(['variantGroups.json'], async () => {
+      const groups = await this.readDataStrict<VariantGroup>('variantGroups.json', 'groups');
+      const newGroup: VariantGroup = {
+        ...group,
+        id: Math.max(0, ...groups.map(entry => entry.id)) + 1
+      };
+      
+      groups.push(newGroup);
+      await this.writeData('variantGroups.json', 'groups', groups);
+      return newGroup;
+    });
+  }
+  
+  async updateVariantGroup(id: number, updates: Partial<VariantGroup>): Promise<VariantGroup | null> {
+    return this.withFileLocks(['variantGroups.json'], async () => {
+      const groups = await this.readDataStrict<VariantGroup>('variantGroups.json', 'groups');
+      const index = groups.findIndex(group => group.id === id);
+      
+      if (index === -1) {
+        return null;
+      }
+      
+      groups[index] = { ...groups[index], ...updates, id };
+      await this.writeData('variantGroups.json', 'groups', groups);
+      return groups[index];
+    });
+  }
+  
+  /**
+   * Delete a variant group and unlink its variants, which stay in the catalog
+   */
+  async deleteVariantGroup(id: number): Promise<boolean> {
+    return this.withFileLocks(['variantGroups.json', 'inventory.json'], async () => {
+      const groups = await this.readDataStrict<VariantGroup>('variantGroups.json', 'groups');
+      const inventory = await this.readDataStrict<InventoryItem>('inventory.json', 'items');
+      const remaining = groups.filter(group => group.id !== id);
+      
+      if (remaining.length === groups.length) {
+        return false;
+      }
+      
+      for (const item of inventory) {
+        if (item.variantGroupId === id) {
+          delete item.variantGroupId;
+          delete item.variantAttributes;
+        }
+      }
+      
+      await this.commitTransaction([
+        { fileName: 'variantGroups.json', content: { groups: remaining } },
+        { fileName: 'inventory.json', content: { items: inventory } }
+      ]);
+      return true;
+    });
+  }
+  
+  // Category methods
+  async getCategories(): Promise<Category[]> {
+    return this.readData<Category>('categories.json', 'categories');
+  }
+  
+  async getCategory(id: number): Promise<Category | undefined> {
+    const categories = await this.getCategories();
+    return categories.find(category => category.id === id);
+  }
+  
+  async addCategory(category: InsertCategory): Promise<Category> {
+    return this.withFileLocks(['categories.json', 'settings.json'], async () => {
+      const categories = await this.readDataStrict<Category>('categories.json', 'categories');
+      const newCategory: Category = {
+        ...category,
+        id: Math.max(0, ...categories.map(entry => entry.id)) + 1
+      };
+      
+      categories.push(newCategory);
+      await this.commitCategories(categories);
+      return newCategory;
+    });
+  }
+  
+  async updateCategory(id: number, updates: Partial<Category>): Promise<Category | null> {
+    return this.withFileLocks(CATEGORY_FILES, async () => {
+      const categories = await this.readDataStrict<Category>('categories.json', 'categories');
+      const index = categories.findIndex(category => category.id === id);
+      
+      if (index === -1) {
+        return null;
+      }
+      
+      const previousName = categories[index].name;
+      categories[index] = { ...categories[index], ...updates, id };
+      
+      if (categories[index].name === previousName) {
+        await this.commitCategories(categories);
+      } else {
+        const references = await this.readCategoryReferences();
+        refileCategory(references, [previousName], categories[index].name);
+        await this.commitCategories(categories, references);
+      }
+      return categories[index];
+    });
+  }
+  
+  async mergeCategories(id: number, intoId: number): Promise<Category | null> {
+    return this.withFileLocks(CATEGORY_FILES, async () => {
+      const categories = await this.readDataStrict<Category>('categories.json', 'categories');
+      const source = categories.find(category => category.id === id);
+      const target = categories.find(category => category.id === intoId);
+      
+      if (!source || !target || source.id === target.id) {
+        return null;
+      }
+      
+      const references = await this.readCategoryReferences();
+      refileCategory(references, [source.name], target.name);
+      categories
+        .filter(category => category.parentId === source.id)
+        .forEach(category => category.parentId = target.id);
+      
+      await this.commitCategories(categories.filter(category => category.id !== source.id), references);
+      return target;
+    });
+  }
+  
+  async deleteCategory(id: number): Promise<boolean> {
+    return this.withFileLocks(['categories.json', 'settings.json'], async () => {
+      const categories = await this.readDataStrict<Category>('categories.json', 'categories');
+      const remaining = categories.filter(category => category.id !== id);
+      
+      if (remaining.length === categories.length) {
+        return false;
+      }
+      
+      await this.commitCategories(remaining);
+      return true;
+    });
+  }
+  
+  async migrateCategories(): Promise<number> {
+    return this.withFileLocks(CATEGORY_FILES, async () => {
+      if ((await this.readDataStrict<Category>('categories.json', 'categories')).length > 0) {
+        return 0;
+      }
+      
+      const references = await this.readCategoryReferences();
+      const settings = await this.readStoreSettingsStrict();
+      const categories = categoriesInUse(references, settings.taxCategoryRates);
+      categories.forEach(category => refileCategory(references, [category.name], category.name));
+      
+      await this.commitCategories(categories, references);
+      return categories.length;
+    });
+  }
+  
+  private async readCategoryReferences(): Promise<CategoryReferences> {
+    return {
+      inventory: await this.readDataStrict<InventoryItem>('inventory.json', 'items'),
+      variantGroups: await this.readDataStrict<VariantGroup>('variantGroups.json', 'groups'),
+      promotions: await this.readDataStrict<Promotion>('promotions.json', 'promotions'),
+      alertRules: await this.readDataStrict<AlertRule>('alertRules.json', 'rules')
+    };
+  }
+  
+  /**
+   * Save the categories with the tax rates they set and, after a rename or merge, the records re-filed
+   * Callers must hold the locks for the files written.
+   */
+  private async commitCategories(categories: Category[], references?: CategoryReferences): Promise<void> {
+    const settings = await this.readStoreSettingsStrict();
+    await this.commitTransaction([
+      { fileName: 'categories.json', content: { categories } },
+      { fileName: 'settings.json', content: { settings: [{ ...settings, taxCategoryRates: categoryTaxRates(categories) }] } },
+      ...(references ? [
+        { fileName: 'inventory.json', content: { items: references.inventory } },
+        { fileName: 'variantGroups.json', content: { groups: references.variantGroups } },
+        { fileName: 'promotions.json', content: { promotions: references.promotions } },
+        { fileName: 'alertRules.json', content: { rules: references.alertRules } }
+      ] : [])
+    ]);
+  }
+  
+  // Purchase order methods
+  async getPurchaseOrders(): Promise<PurchaseOrder[]> {
+    return this.readData<PurchaseOrder>('purchaseOrders.json', 'purchaseOrders');
+  }
+  
+  async getPurchaseOrder(id: number): Promise<PurchaseOrder | undefined> {
+    const orders = await this.getPurchaseOrders();
+    return orders.find(order => order.id === id);
+  }
+  
+  async addPurchaseOrder(order: Omit<PurchaseOrder, 'id'>): Promise<PurchaseOrder> {
+    return this.withFileLocks(['purchaseOrders.json'], async () => {
+      const orders = await this.readDataStrict<PurchaseOrder>('purchaseOrders.json', 'purchaseOrders');
+      const newOrder: PurchaseOrder = {
+        ...order,
+        id: Math.max(0, ...orders.map(entry => entry.id)) + 1
+      };
+      
+      orders.push(newOrder);
+      await this.writeData('purchaseOrders.json', 'purchaseOrders', orders);
+      return newOrder;
+    });
+  }
+  
+  /**
+   * Update a purchase order
+   * 
+   * @param fromStatuses Only update the order if it is still in one of these statuses
+   * @returns The updated order, or null if it is not found or has moved on
+   */
+  async updatePurchaseOrder(
+    id: number, 
+    updates: Partial<PurchaseOrder>, 
+    fromStatuses?: PurchaseOrderStatus[]
+  ): Promise<PurchaseOrder | null> {
+    return this.withFileLocks(['purchaseOrders.json'], async () => {
+      const orders = await this.readDataStrict<PurchaseOrder>('purchaseOrders.json', 'purchaseOrders');
+      const index = orders.findIndex(order => order.id === id);
+      
+      if (index === -1 || (fromStatuses && !fromStatuses.includes(orders[index].status))) {
+        return null;
+      }
+      
+      orders[index] = { ...orders[index], ...updates, id };
+      await this.writeData('purchaseOrders.json', 'purchaseOrders', orders);
+      return orders[index];
+    });
+  }
+  
+  /**
+   * Receive a delivery against a purchase order, adding the received
+   * quantities to stock and averaging their cost into the cost price
+   * 
+   * @returns The updated order, or null if it is not found or not awaiting delivery
+   * @throws ReceiptQuantityError if the delivery doesn't match the order
+   */
+  async receivePurchaseOrder(id: number, receipt: GoodsReceiptRequest, receivedBy: string): Promise<PurchaseOrder | null> {
+    return this.withFileLocks(['purchaseOrders.json', 'inventory.json', 'stockMovements.json'], async () => {
+      const orders = await this.readDataStrict<PurchaseOrder>('purchaseOrders.json', 'purchaseOrders');
+      const inventory = await this.readDataStrict<InventoryItem>('inventory.json', 'items');
+      
+      const index = orders.findIndex(order => order.id === id);
+      const order = orders[index];
+      
+      if (!order || !canReceive(order.status)) {
+        return null;
+      }
+      
+      const checked = checkReceipt(order, receipt);
+      if (checked.lineErrors.length > 0) {
+        throw new ReceiptQuantityError(checked.lineErrors);
+      }
+      
+      const now = new Date().toISOString();
+      const movements: (PendingStockMovement | null)[] = [];
+      for (const line of checked.lines) {
+        const inventoryItem = inventory.find(entry => entry.id === line.productId);
+        if (inventoryItem) {
+          inventoryItem.costPrice = receivedCostPrice(inventoryItem, line.quantity, line.unitCost);
+          movements.push(moveStock(
+            inventoryItem,
+            inventoryItem.stock + line.quantity,
+            {
+              type: 'receipt',
+              user: receivedBy,
+              sourceId: formatPurchaseOrderNumber(order.id),
+              lot: { lotNumber: line.lotNumber, expiryDate: line.expiryDate },
+              locationId: receipt.locationId
+            },
+            now
+          ));
+        }
+      }
+      
+      const updatedOrder = recordReceipt(order, checked, receipt, receivedBy, now);
+      orders[index] = updatedOrder;
+      
+      await this.commitTransaction([
+        { fileName: 'purchaseOrders.json', content: { purchaseOrders: orders } },
+        { fileName: 'inventory.json', content: { items: inventory } },
+        await this.appendMovements(movements)
+      ]);
+      
+      return updatedOrder;
+    });
+  }
+  
+  // Stock count methods
+  async getStockCounts(): Promise<StockCount[]> {
+    return this.readData<StockCount>('stockCounts.json', 'counts');
+  }
+  
+  async getStockCount(id: number): Promise<StockCount | undefined> {
+    const counts = await this.readData<StockCount>('stockCounts.json', 'counts');
+    return counts.find(count => count.id === id);
+  }
+  
+  async addStockCount(count: Omit<StockCount, 'id'>): Promise<StockCount> {
+    return this.withFileLocks(['stockCounts.json'], async () => {
+      const counts = await this.readDataStrict<StockCount>('stockCounts.json', 'counts');
+      const newCount: StockCount = { ...count, id: Math.max(0, ...counts.map(entry => entry.id)) + 1 };
+      counts.push(newCount);
+      await this.writeData('stockCounts.json', 'counts', counts);
+      return newCount;
+    });
+  }
+  
+  /**
+   * Update a stock count
+   * 
+   * @param fromStatuses Only update the count if it is still in one of these statuses
+   * @returns The updated count, or null if it is not found or has moved on
+   */
+  async updateStockCount(id: number, updates: Partial<StockCount>, fromStatuses?: StockCountStatus[]): Promise<StockCount | null> {
+    return this.withFileLocks(['stockCounts.json'], async () => {
+      const counts = await this.readDataStrict<StockCount>('stockCounts.json', 'counts');
+      const index = counts.findIndex(count => count.id === id);
+      
+      if (index === -1 || (fromStatuses && !fromStatuses.includes(counts[index].status))) {
+        return null;
+      }
+      
+      counts[index] = { ...counts[index], ...updates, id };
+      await this.writeData('stockCounts.json', 'counts', counts);
+      return counts[index];
+    });
+  }
+  
+  /**
+   * Record quantities found on the shelf against a count that is under way
+   * 
+   * @returns The updated count, or null if it is not found or no longer counting
+   * @throws StockCountError if an entry isn't part of the count
+   */
+  async recordStockCounts(id: number, entries: StockCountEntries, countedBy: string): Promise<StockCount | null> {
+    return this.withFileLocks(['stockCounts.json'], async () => {
+      const counts = await this.readDataStrict<StockCount>('stockCounts.json', 'counts');
+      const index = counts.findIndex(count => count.id === id);
+      
+      if (index === -1 || counts[index].status !== 'counting') {
+        return null;
+      }
+      
+      const recorded = recordCounts(counts[index], entries, countedBy, new Date().toISOString());
+      if (recorded.lineErrors.length > 0) {
+        throw new StockCountError(recorded.lineErrors);
+      }
+      
+      counts[index] = recorded.count;
+      await this.writeData('stockCounts.json', 'counts', counts);
+      return recorded.count;
+    });
+  }
+  
+  /**
+   * Approve a reviewed count, moving each counted item's stock by the
+   * variance found and recording the adjustments as count movements
+   * 
+   * @returns The posted count, or null if it is not found or not awaiting approval
+   */
+  async postStockCount(id: number, postedBy: string): Promise<StockCount | null> {
+    return this.withFileLocks(['stockCounts.json', 'inventory.json', 'stockMovements.json'], async () => {
+      const counts = await this.readDataStrict<StockCount>('stockCounts.json', 'counts');
+      const inventory = await this.readDataStrict<InventoryItem>('inventory.json', 'items');
+      
+      const index = counts.findIndex(count => count.id === id);
+      const count = counts[index];
+      
+      if (!count || count.status !== 'review') {
+        return null;
+      }
+      
+      const now = new Date().toISOString();
+      const movements: (PendingStockMovement | null)[] = [];
+      const lines = count.lines.map(line => {
+        const inventoryItem = inventory.find(entry => entry.id === line.productId);
+        if (line.counted === undefined || !inventoryItem) {
+          return line;
+        }
+        const movement = moveStock(
+          inventoryItem,
+          postedStock(inventoryItem, line),
+          { type: 'count', user: postedBy, sourceId: formatStockCountNumber(count.id), note: `Counted ${line.counted}, expected ${line.expected}`, locationId: count.locationId },
+          now
+        );
+        movements.push(movement);
+        return { ...line, adjustment: movement?.quantity ?? 0 };
+      });
+      
+      const postedCount: StockCount = { ...count, lines, status: 'posted', postedBy, postedAt: now };
+      counts[index] = postedCount;
+      
+      await this.commitTransaction([
+        { fileName: 'stockCounts.json', content: { counts } },
+        { fileName: 'inventory.json', content: { items: inventory } },
+        await this.appendMovements(movements)
+      ]);
+      
+      return postedCount;
+    });
+  }
+  
+  // Location methods
+  async getLocations(): Promise<StockLocation[]> {
+    return this.readData<StockLocation>('locations.json', 'locations');
+  }
+  
+  async getLocation(id: number): Promise<StockLocation | undefined> {
+    const locations = await this.getLocations();
+    return locations.find(location => location.id === id);
+  }
+  
+  async addLocation(location: InsertStockLocation): Promise<StockLocation> {
+    return this.withFileLocks(['locations.json'], async () => {
+      const locations = await this.readDataStrict<StockLocation>('locations.json', 'locations');
+      const newLocation: StockLocation = {
+        ...location,
+        id: Math.max(0, ...locations.map(entry => entry.id)) + 1
+      };
+      
+      locations.push(newLocation);
+      await this.writeData('locations.json', 'locations', locations);
+      return newLocation;
+    });
+  }
+  
+  async updateLocation(id: number, updates: Partial<StockLocation>): Promise<StockLocation | null> {
+    return this.withFileLocks(['locations.json'], async () => {
+      const locations = await this.readDataStrict<StockLocation>('locations.json', 'locations');
+      const index = locations.findIndex(location => location.id === id);
+      
+      if (index === -1) {
+        return null;
+      }
+      
+      locations[index] = { ...locations[index], ...updates, id };
+      await this.writeData('locations.json', 'locations', locations);
+      return locations[index];
+    });
+  }
+  
+  // Stock transfer methods
+  async getStockTransfers(): Promise<StockTransfer[]> {
+    return this.readData<StockTransfer>('stockTransfers.json', 'transfers');
+  }
+  
+  async getStockTransfer(id: number): Promise<StockTransfer | undefined> {
+    const transfers = await this.getStockTransfers();
+    return transfers.find(transfer => transfer.id === id);
+  }
+  
+  /**
+   * Send a transfer, taking its stock out of the sending location
+   * 
+   * @throws StockTransferError if a line can't be filled from the sending location
+   */
+  async addStockTransfer(request: StockTransferRequest, sentBy: string): Promise<StockTransfer> {
+    return this.withFileLocks(['stockTransfers.json', 'inventory.json', 'stockMovements.json'], async () => {
+      const transfers = await this.readDataStrict<StockTransfer>('stockTransfers.json', 'transfers');
+      const inventory = await this.readDataStrict<InventoryItem>('inventory.json', 'items');
+      
+      // Check stock under the lock so a sale can't take it first
+      const checked = checkTransfer(request, inventory);
+      if (checked.lineErrors.length > 0) {
+        throw new StockTransferError(checked.lineErrors);
+      }
+      
+      const id = Math.max(0, ...transfers.map(entry => entry.id)) + 1;
+      const now = new Date().toISOString();
+      const movements: (PendingStockMovement | null)[] = [];
+      const lines = checked.lines.map(line => {
+        const inventoryItem = inventory.find(entry => entry.id === line.productId)!;
+        const movement = moveStock(
+          inventoryItem,
+          inventoryItem.stock - line.quantity,
+          { type: 'transfer', user: sentBy, sourceId: formatStockTransferNumber(id), locationId: request.fromLocationId },
+          now
+        );
+        movements.push(movement);
+        return sentLine(line, movement);
+      });
+      
+      const transfer: StockTransfer = {
+        id,
+        fromLocationId: request.fromLocationId,
+        toLocationId: request.toLocationId,
+        status: 'in_transit',
+        lines,
+        ...(request.notes ? { notes: request.notes } : {}),
+        sentBy,
+        sentAt: now
+      };
+      transfers.push(transfer);
+      
+      await this.commitTransaction([
+        { fileName: 'stockTransfers.json', content: { transfers } },
+        { fileName: 'inventory.json', content: { items: inventory } },
+        await this.appendMovements(movements)
+      ]);
+      
+      return transfer;
+    });
+  }
+  
+  /**
+   * Receive a transfer in transit, putting its stock into the receiving location
+   * 
+   * @returns The received transfer, or null if it is not found or not in transit
+   */
+  async receiveStockTransfer(id: number, receivedBy: string): Promise<StockTransfer | null> {
+    return this.completeStockTransfer(id, 'received', receivedBy);
+  }
+  
+  /**
+   * Cancel a transfer in transit, returning its stock to the sending location
+   * 
+   * @returns The cancelled transfer, or null if it is not found or not in transit
+   */
+  async cancelStockTransfer(id: number, cancelledBy: string): Promise<StockTransfer | null> {
+    return this.completeStockTransfer(id, 'cancelled', cancelledBy);
+  }
+  
+  private async completeStockTransfer(id: number, status: 'received' | 'cancelled', user: string): Promise<StockTransfer | null> {
+    return this.withFileLocks(['stockTransfers.json', 'inventory.json', 'stockMovements.json'], async () => {
+      const transfers = await this.readDataStrict<StockTransfer>('stockTransfers.json', 'transfers');
+      const inventory = await this.readDataStrict<InventoryItem>('inventory.json', 'items');
+      
+      const index = transfers.findIndex(transfer => transfer.id === id);
+      const transfer = transfers[index];
+      
+      if (!transfer || transfer.status !== 'in_transit') {
+        return null;
+      }
+      
+      // Stock arrives where it was sent, or goes back where it came from
+      const now = new Date().toISOString();
+      const locationId = status === 'received' ? transfer.toLocationId : transfer.fromLocationId;
+      const movements: (PendingStockMovement | null)[] = [];
+      for (const line of transfer.lines) {
+        const inventoryItem = inventory.find(entry => entry.id === line.productId);
+        if (!inventoryItem) {
+          continue;
+        }
+        for (const portion of transferPortions(line)) {
+          movements.push(moveStock(
+            inventoryItem,
+            inventoryItem.stock + portion.quantity,
+            {
+              type: 'transfer',
+              user,
+              sourceId: formatStockTransferNumber(transfer.id),
+              ...(status === 'cancelled' ? { note: 'Transfer cancelled' } : {}),
+              lot: portion.lot,
+              locationId
+            },
+            now
+          ));
+        }
+      }
+      
+      const completed: StockTransfer = status === 'received'
+        ? { ...transfer, status, receivedBy: user, receivedAt: now }
+        : { ...transfer, status, cancelledBy: user, cancelledAt: now };
+      transfers[index] = completed;
+      
+      await this.commitTransaction([
+        { fileName: 'stockTransfers.json', content: { transfers } },
+        { fileName: 'inventory.json', content: { items: inventory } },
+        await this.appendMovements(movements)
+      ]);
+      
+      return completed;
+    });
+  }
+  
+  // Notification methods
+  async getNotifications(): Promise<Notification[]> {
+    return this.readData<Notification>('notifications.json', 'notifications');
+  }
+  
+  /**
+   * Store a new notification, removing those past the retention period
+   */
+  async addNotification(notification: Omit<Notification, 'id' | 'createdAt' | 'readBy' | 'dismissedBy'>): Promise<Notification> {
+    return this.withFileLocks(['notifications.json'], async () => {
+      const notifications = await this.readDataStrict<Notification>('notifications.json', 'notifications');
+      const newNotification: Notification = {
+        ...notification,
+        id: Math.max(0, ...notifications.map(entry => entry.id)) + 1,
+        createdAt: new Date().toISOString(),
+        readBy: [],
+        dismissedBy: []
+      };
+      
+      const cutoff = new Date(Date.now() - config.notificationRetentionDays * 24 * 60 * 60 * 1000).toISOString();
+      const kept = notifications.filter(entry => entry.createdAt >= cutoff);
+      kept.push(newNotification);
+      await this.writeData('notifications.json', 'notifications', kept);
+      return newNotification;
+    });
+  }
+  
+  async markNotifications(ids: number[], userId: number, mark: 'read' | 'dismissed'): Promise<void> {
+    await this.withFileLocks(['notifications.json'], async () => {
+      const notifications = await this.readDataStrict<Notification>('notifications.json', 'notifications');
+      const field = mark === 'read' ? 'readBy' : 'dismissedBy';
+      notifications
+        .filter(notification => ids.includes(notification.id) && !notification[field].includes(userId))
+        .forEach(notification => notification[field].push(userId));
+      await this.writeData('notifications.json', 'notifications', notifications);
+    });
+  }
+  
+  // Alert rule methods
+  async getAlertRules(): Promise<AlertRule[]> {
+    return this.readData<AlertRule>('alertRules.json', 'rules');
+  }
+  
+  async getAlertRule(id: number): Promise<AlertRule | undefined> {
+    const rules = await this.getAlertRules();
+    return rules.find(rule => rule.id === id);
+  }
+  
+  async addAlertRule(rule: Omit<AlertRule, 'id'>): Promise<AlertRule> {
+    return this.withFileLocks(['alertRules.json'], async () => {
+      const rules = await this.readDataStrict<AlertRule>('alertRules.json', 'rules');
+      const newRule: AlertRule = {
+        ...rule,
+        id: Math.max(0, ...rules.map(entry => entry.id)) + 1
+      };
+      
+      rules.push(newRule);
+      await this.writeData('alertRules.json', 'rules', rules);
+      return newRule;
+    });
+  }
+  
+  async updateAlertRule(id: number, updates: Partial<AlertRule>): Promise<AlertRule | null> {
+    return this.withFileLocks(['alertRules.json'], async () => {
+      const rules = await this.readDataStrict<AlertRule>('alertRules.json', 'rules');
+      const index = rules.findIndex(rule => rule.id === id);
+      
+      if (index === -1) {
+        return null;
+      }
+      
+      rules[index] = { ...rules[index], ...updates, id };
+      await this.writeData('alertRules.json', 'rules', rules);
+      return rules[index];
+    });
+  }
+  
+  async deleteAlertRule(id: number): Promise<boolean> {
+    return this.withFileLocks(['alertRules.json'], async () => {
+      const rules = await this.readDataStrict<AlertRule>('alertRules.json', 'rules');
+      const remaining = rules.filter(rule => rule.id !== id);
+      
+      if (remaining.length === rules.length) {
+        return false;
+      }
+      
+      await this.writeData('alertRules.json', 'rules', remaining);
+      return true;
+    });
+  }
+  
+  async getRuleAlerts(): Promise<RuleAlert[]> {
+    return this.readData<RuleAlert>('ruleAlerts.json', 'alerts');
+  }
+  
+  async recordRuleAlerts(raised: Omit<RuleAlert, 'id'>[], resolvedIds: number[], resolvedAt: string): Promise<RuleAlert[]> {
+    return this.withFileLocks(['ruleAlerts.json'], async () => {
+      const alerts = await this.readDataStrict<RuleAlert>('ruleAlerts.json', 'alerts');
+      alerts
+        .filter(alert => resolvedIds.includes(alert.id) && !alert.resolvedAt)
+        .forEach(alert => alert.resolvedAt = resolvedAt);
+      
+      let nextId = Math.max(0, ...alerts.map(entry => entry.id)) + 1;
+      const created = raised.map(alert => ({ ...alert, id: nextId++ }));
+      alerts.push(...created);
+      await this.writeData('ruleAlerts.json', 'alerts', alerts);
+      return created;
+    });
+  }
 }
 
 export const fileStorage = new FileStorage();
\ No newline at end of file
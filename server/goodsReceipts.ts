@@ -0,0 +1,166 @@
+/**
+ * Goods Receipts
+ *
+ * Checks a delivery against its purchase order and works out what it does to
+ * stock and cost. Each delivery is recorded on the order as a receipt; the
+ * order is received once every line has arrived, partially received until
+ * then, or closed when the rest will never come. Receiving more than is still
+ * on order is refused unless the overage is accepted, and cost prices move to
+ * the weighted average of the stock on hand and the stock received.
+ */
+import type { InventoryItem } from "./storage";
+import { roundCurrency } from "@shared/tax";
+import { canTransition } from "@shared/purchaseOrders";
+import type { GoodsReceiptLine, GoodsReceiptRequest, PurchaseOrder, PurchaseOrderStatus } from "@shared/schema";
+
+export type ReceiptLineErrorCode =
+  | "NOT_ON_ORDER"
+  | "DUPLICATE_LINE"
+  | "OVER_RECEIVED";
+
+// A problem with one line of a delivery
+export type ReceiptLineError = {
+  line: number;          // Index of the line in the submitted delivery
+  productId: number;
+  code: ReceiptLineErrorCode;
+  message: string;
+  outstanding?: number;  // Quantity still on order, for OVER_RECEIVED
+};
+
+// Delivery lines as checked against the order
+export type CheckedReceipt = {
+  lines: GoodsReceiptLine[];
+  lineErrors: ReceiptLineError[];
+};
+
+/**
+ * Thrown by storage when a delivery doesn't match its purchase order
+ */
+export class ReceiptQuantityError extends Error {
+  constructor(public lineErrors: ReceiptLineError[]) {
+    super("One or more lines cannot be received");
+    this.name = "ReceiptQuantityError";
+  }
+}
+
+// Received quantities may differ from what is outstanding by floating point noise only
+const QUANTITY_TOLERANCE = 0.0005;
+
+/**
+ * Check whether deliveries can be received against an order in this status
+ */
+export function canReceive(status: PurchaseOrderStatus): boolean {
+  return canTransition(status, "partially_received");
+}
+
+/**
+ * Check a delivery against an order
+ *
+ * @param order - The order being received, with its earlier receipts
+ * @param request - Lines, quantities and actual costs as counted
+ * @returns Receipt lines, with any per-line problems
+ */
+export function checkReceipt(order: PurchaseOrder, request: GoodsReceiptRequest): CheckedReceipt {
+  const lines: GoodsReceiptLine[] = [];
+  const lineErrors: ReceiptLineError[] = [];
+  const seen = new Set<number>();
+
+  request.lines.forEach((line, index) => {
+    const orderLine = order.lines.find(entry => entry.productId === line.productId);
+    if (!orderLine) {
+      lineErrors.push({
+        line: index,
+        productId: line.productId,
+        code: "NOT_ON_ORDER",
+        message: `Product ${line.productId} is not on this order`
+      });
+      return;
+    }
+
+    if (seen.has(line.productId)) {
+      lineErrors.push({
+        line: index,
+        productId: line.productId,
+        code: "DUPLICATE_LINE",
+        message: `${orderLine.name} is listed more than once`
+      });
+      return;
+    }
+    seen.add(line.productId);
+
+    const outstanding = Math.max(0, orderLine.quantity - orderLine.receivedQuantity);
+    const over = line.quantity - outstanding;
+    if (over > QUANTITY_TOLERANCE && !request.acceptOverage) {
+      lineErrors.push({
+        line: index,
+        productId: line.productId,
+        code: "OVER_RECEIVED",
+        message: outstanding > 0
+          ? `Only ${outstanding} of ${orderLine.name} is still on order`
+          : `${orderLine.name} has already been received in full`,
+        outstanding
+      });
+      return;
+    }
+
+    lines.push({
+      productId: orderLine.productId,
+      name: orderLine.name,
+      quantity: line.quantity,
+      unitCost: line.unitCost ?? orderLine.unitCost,
+      ...(over > QUANTITY_TOLERANCE ? { overReceived: over } : {}),
+      ...(line.lotNumber ? { lotNumber: line.lotNumber } : {}),
+      ...(line.expiryDate ? { expiryDate: line.expiryDate } : {})
+    });
+  });
+
+  return { lines, lineErrors };
+}
+
+/**
+ * Add a checked delivery to an order and move it on to its next status
+ */
+export function recordReceipt(
+  order: PurchaseOrder,
+  checked: CheckedReceipt,
+  request: GoodsReceiptRequest,
+  receivedBy: string,
+  date: string
+): PurchaseOrder {
+  const lines = order.lines.map(line => {
+    const received = checked.lines.find(entry => entry.productId === line.productId);
+    return received ? { ...line, receivedQuantity: line.receivedQuantity + received.quantity } : line;
+  });
+  const complete = lines.every(line => line.receivedQuantity >= line.quantity - QUANTITY_TOLERANCE);
+  const status: PurchaseOrderStatus = complete ? "received" : request.closeShort ? "closed" : "partially_received";
+
+  return {
+    ...order,
+    lines,
+    status,
+    receipts: [
+      ...(order.receipts || []),
+      {
+        id: (order.receipts?.length || 0) + 1,
+        date,
+        receivedBy,
+        ...(request.locationId !== undefined ? { locationId: request.locationId } : {}),
+        lines: checked.lines,
+        ...(request.notes ? { notes: request.notes } : {})
+      }
+    ],
+    ...(status !== "partially_received" ? { closedAt: date } : {})
+  };
+}
+
+/**
+ * Cost price after receiving stock: the weighted average of the stock on
+ * hand at its current cost and the stock received at its actual cost
+ */
+export function receivedCostPrice(item: InventoryItem, quantity: number, unitCost: number): number {
+  const onHand = Math.max(0, item.stock);
+  if (item.costPrice === undefined || onHand === 0) {
+    return unitCost;
+  }
+  return roundCurrency((onHand * item.costPrice + quantity * unitCost) / (onHand + quantity));
+}
@@ -9,11 +9,15 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { initializeAppStorage } from "./init";
-import { config } from "./config";
+import { startAlertRuleChecks } from "./alertRules";
+import { config, DEFAULT_SESSION_SECRET } from "./config";
 import helmet from "helmet";
 
 const app = express();
 
+// Behind a reverse proxy, client addresses (used for login lockouts) come from X-Forwarded-For
+app.set('trust proxy', config.trustProxy);
+
 // Security middleware - Adds various HTTP headers for security
 app.use(helmet({
   contentSecurityPolicy: {
@@ -83,6 +87,11 @@ app.use((req, res, next) => {
 // IIFE to allow async/await at the top level
 (async () => {
   try {
+    // Tokens signed with the published default secret could be forged by anyone
+    if (config.nodeEnv === "production" && config.sessionSecret === DEFAULT_SESSION_SECRET) {
+      throw new Error("SESSION_SECRET must be set to a secret value in production");
+    }
+    
     // Initialize file storage system
     await initializeAppStorage();
     
@@ -125,6 +134,9 @@ app.use((req, res, next) => {
       log(`Server started and listening on ${host}:${port}`);
     });
     
+    // Rules such as "no sales in 30 days" can match with nothing changing, so they're also checked on a timer
+    startAlertRuleChecks();
+    
     // Handle graceful shutdown
     const shutdown = () => {
       log('Shutting down server gracefully...', 'server');
@@ -7,6 +7,9 @@
 import fs from 'fs';
 import path from 'path';
 import { config } from './config';
+import { hashPin } from './pinSecurity';
+import { storage } from './storage';
+import { ActivityLogger, LOG_ACTIONS } from './logger';
 
 /**
  * Initialize the application storage
@@ -30,7 +33,7 @@ export async function initializeAppStorage() {
       {
         id: 1,
         username: 'admin',
-        pin: '1234',
+        pin: await hashPin('1234'),
         name: 'Admin User',
         role: 'Administrator',
         lastActive: new Date().toISOString(),
@@ -40,13 +43,6 @@ export async function initializeAppStorage() {
     'inventory.json': { items: [] },
     'sales.json': { sales: [] },
     'losses.json': { losses: [] },
-    'stats.json': { 
-      totalInventoryItems: 0,
-      todaySales: 0,
-      lowStockItems: 0,
-      activeUsers: 1,
-      totalInventoryValue: 0
-    },
     'settings.json': { 
       storeName: 'Inventory Pro',
       storeAddress: '123 Main Street',
@@ -65,5 +61,27 @@ export async function initializeAppStorage() {
       fs.writeFileSync(filePath, JSON.stringify(defaultContent, null, 2));
     }
   }
+  
+  // Wait for the storage backend to finish recovery and seeding
+  await storage.ready;
+  
+  // Hash any PINs left in plaintext by older versions of users.json
+  const migratedPins = await storage.migratePlaintextPins();
+  if (migratedPins > 0) {
+    await ActivityLogger.logSystemActivity(
+      LOG_ACTIONS.SYSTEM.MIGRATION,
+      `Migrated ${migratedPins} plaintext PIN(s) to salted hashes`
+    );
+  }
+
+  // Build the category list from the free-text categories items were filed under before there was one
+  const migratedCategories = await storage.migrateCategories();
+  if (migratedCategories > 0) {
+    await ActivityLogger.logSystemActivity(
+      LOG_ACTIONS.SYSTEM.MIGRATION,
+      `Set up ${migratedCategories} product category(ies) from the names in use`
+    );
+  }
+
   return dataDir;
 }
\ No newline at end of file
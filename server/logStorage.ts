@@ -66,9 +66,11 @@ export class FileLogStorage implements ILogStorage {
         fs.mkdirSync(logsDir, { recursive: true });
       }
       
-      // Save logs to file
+      // Save logs to a temp file and rename it so a crash never leaves a truncated log
       const logs = Array.from(this.logsCache.values());
-      fs.writeFileSync(logsFile, JSON.stringify({ logs }, null, 2));
+      const tempFile = `${logsFile}.${process.pid}.tmp`;
+      fs.writeFileSync(tempFile, JSON.stringify({ logs }, null, 2));
+      fs.renameSync(tempFile, logsFile);
     } catch (error) {
       console.error("Error saving logs to file:", error);
     }
@@ -83,6 +85,7 @@ export class FileLogStorage implements ILogStorage {
       action: log.action,
       category: log.category,
       details: log.details || "",
+      ...(log.ipAddress && { ipAddress: log.ipAddress }),
       timestamp: new Date()
     };
     
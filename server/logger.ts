@@ -7,8 +7,11 @@ export const LOG_CATEGORIES = {
   INVENTORY: "inventory", 
   SALES: "sales",
   LOSSES: "losses",
+  SHIFTS: "shifts",
+  PURCHASING: "purchasing",
   SETTINGS: "settings",
   AUTHENTICATION: "authentication",
+  ALERTS: "alerts",
   SYSTEM: "system",
 };
 
@@ -19,22 +22,64 @@ export const LOG_ACTIONS = {
     UPDATE: "User Updated",
     DELETE: "User Deleted",
     STATUS_CHANGE: "User Status Changed",
+    UNLOCK: "User Account Unlocked",
   },
   INVENTORY: {
     CREATE: "Inventory Item Created",
     UPDATE: "Inventory Item Updated",
     DELETE: "Inventory Item Deleted",
     BULK_IMPORT: "Bulk Inventory Import",
+    THRESHOLDS_UPDATE: "Reorder Thresholds Updated",
+    COUNT_START: "Stock Count Started",
+    COUNT_SUBMIT: "Stock Count Submitted",
+    COUNT_REOPEN: "Stock Count Reopened",
+    COUNT_POST: "Stock Count Posted",
+    COUNT_CANCEL: "Stock Count Cancelled",
+    VARIANT_GROUP_CREATE: "Variant Group Created",
+    VARIANT_GROUP_UPDATE: "Variant Group Updated",
+    VARIANT_GROUP_DELETE: "Variant Group Deleted",
+    CATEGORY_CREATE: "Category Created",
+    CATEGORY_UPDATE: "Category Updated",
+    CATEGORY_MERGE: "Categories Merged",
+    CATEGORY_DELETE: "Category Deleted",
+    LOCATION_CREATE: "Location Created",
+    LOCATION_UPDATE: "Location Updated",
+    TRANSFER_SEND: "Stock Transfer Sent",
+    TRANSFER_RECEIVE: "Stock Transfer Received",
+    TRANSFER_CANCEL: "Stock Transfer Cancelled",
   },
   SALES: {
     CREATE: "Sale Recorded",
     REPRINT: "Receipt Reprinted",
     REFUND: "Sale Refunded",
+    PARTIAL_REFUND: "Items Returned",
+    PROMOTION_CREATE: "Promotion Created",
+    PROMOTION_UPDATE: "Promotion Updated",
+    PROMOTION_DELETE: "Promotion Deleted",
   },
   LOSSES: {
     CREATE: "Loss Recorded",
     UPDATE: "Loss Updated",
   },
+  SHIFTS: {
+    OPEN: "Shift Opened",
+    PAID_IN: "Cash Paid In",
+    PAID_OUT: "Cash Paid Out",
+    DROP: "Cash Drop",
+    X_REPORT: "X Report Generated",
+    CLOSE: "Shift Closed",
+  },
+  PURCHASING: {
+    SUPPLIER_CREATE: "Supplier Created",
+    SUPPLIER_UPDATE: "Supplier Updated",
+    SUPPLIER_DELETE: "Supplier Deleted",
+    ORDER_CREATE: "Purchase Order Created",
+    ORDER_UPDATE: "Purchase Order Updated",
+    ORDER_SEND: "Purchase Order Sent",
+    ORDER_CLOSE: "Purchase Order Closed",
+    ORDER_CANCEL: "Purchase Order Cancelled",
+    ORDER_RECEIVE: "Goods Received",
+  },
   SETTINGS: {
     UPDATE: "Settings Updated",
   },
@@ -42,10 +87,19 @@ export const LOG_ACTIONS = {
     LOGIN: "User Login",
     LOGOUT: "User Logout",
     FAILED_LOGIN: "Failed Login Attempt",
+    ACCOUNT_LOCKED: "Account Locked",
+    ACCOUNT_UNLOCKED: "Account Unlocked",
+  },
+  ALERTS: {
+    RULE_CREATE: "Alert Rule Created",
+    RULE_UPDATE: "Alert Rule Updated",
+    RULE_DELETE: "Alert Rule Deleted",
+    TRIGGERED: "Alert Raised",
   },
   SYSTEM: {
     ERROR: "System Error",
     STARTUP: "System Startup",
+    MIGRATION: "Data Migration",
   },
 };
 
@@ -56,7 +110,8 @@ export class ActivityLogger {
     username: string,
     category: string,
     action: string,
-    details?: string
+    details?: string,
+    ipAddress?: string
   ): Promise<void> {
     try {
       const logEntry: InsertLog = {
@@ -65,6 +120,7 @@ export class ActivityLogger {
         category,
         action,
         details: details || "",
+        ...(ipAddress && { ipAddress }),
       };
 
       await logStorage.createLog(logEntry);
@@ -110,6 +166,24 @@ export class ActivityLogger {
     return this.log(userId, username, LOG_CATEGORIES.LOSSES, action, details);
   }
 
+  static async logShiftActivity(
+    userId: number,
+    username: string,
+    action: string,
+    details?: string
+  ): Promise<void> {
+    return this.log(userId, username, LOG_CATEGORIES.SHIFTS, action, details);
+  }
+
+  static async logPurchasingActivity(
+    userId: number,
+    username: string,
+    action: string,
+    details?: string
+  ): Promise<void> {
+    return this.log(userId, username, LOG_CATEGORIES.PURCHASING, action, details);
+  }
+
   static async logSettingsActivity(
     userId: number,
     username: string,
@@ -120,12 +194,22 @@ export class ActivityLogger {
   }
 
   static async logAuthActivity(
+    userId: number,
+    username: string,
+    action: string,
+    details?: string,
+    ipAddress?: string
+  ): Promise<void> {
+    return this.log(userId, username, LOG_CATEGORIES.AUTHENTICATION, action, details, ipAddress);
+  }
+
+  static async logAlertActivity(
     userId: number,
     username: string,
     action: string,
     details?: string
   ): Promise<void> {
-    return this.log(userId, username, LOG_CATEGORIES.AUTHENTICATION, action, details);
+    return this.log(userId, username, LOG_CATEGORIES.ALERTS, action, details);
   }
 
   static async logSystemActivity(
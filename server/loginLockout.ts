@@ -0,0 +1,151 @@
+/**
+ * Login Lockout
+ *
+ * Locks out a username or client address after repeated failed logins.
+ * Lockout state is derived from the FAILED_LOGIN events already recorded in
+ * the activity log, so it survives server restarts without extra storage.
+ * A successful login or an administrator unlock resets the count for that
+ * account; an unlock also resets the addresses the account's failures came
+ * from, so the user isn't still locked out by address.
+ */
+import { config } from "./config";
+import { logStorage } from "./logStorage";
+import { LOG_ACTIONS, LOG_CATEGORIES } from "./logger";
+import type { ActivityLog } from "@shared/schema";
+
+export type LockoutStatus = {
+  locked: boolean;
+  scope?: "user" | "ip";
+  lockedUntil?: string;
+  remainingAttempts: number;
+};
+
+type CountedFailures = {
+  byUser: ActivityLog[];     // Counted towards the username's lockout
+  byAddress: ActivityLog[];  // Counted towards the client address's lockout
+};
+
+const timeOf = (log: ActivityLog) => new Date(log.timestamp).getTime();
+
+/**
+ * Move a key's reset point forward to a time, if it's later
+ */
+function resetAt(resetTimes: Map<string, number>, key: string, time: number): void {
+  if (time > (resetTimes.get(key) || 0)) {
+    resetTimes.set(key, time);
+  }
+}
+
+/**
+ * Get failed login events that still count towards a lockout
+ * Events older than the lockout window, or older than the last successful
+ * login or unlock for the same username, are ignored. Towards an address,
+ * events older than an unlock of an account that failed from it are ignored too.
+ */
+async function getCountedFailures(): Promise<CountedFailures> {
+  const authLogs = await logStorage.getLogsByCategory(LOG_CATEGORIES.AUTHENTICATION);
+  const windowStart = Date.now() - config.loginLockoutWindow;
+
+  // Latest reset point per username, and latest unlock
+  const userResets = new Map<string, number>();
+  const unlocks = new Map<string, number>();
+  for (const log of authLogs) {
+    if (log.action === LOG_ACTIONS.AUTHENTICATION.LOGIN || log.action === LOG_ACTIONS.AUTHENTICATION.ACCOUNT_UNLOCKED) {
+      resetAt(userResets, log.username, timeOf(log));
+    }
+    if (log.action === LOG_ACTIONS.AUTHENTICATION.ACCOUNT_UNLOCKED) {
+      resetAt(unlocks, log.username, timeOf(log));
+    }
+  }
+
+  const failures = authLogs.filter(log =>
+    log.action === LOG_ACTIONS.AUTHENTICATION.FAILED_LOGIN && timeOf(log) > windowStart
+  );
+
+  // An unlock resets every address the account had failed from before it
+  const addressResets = new Map<string, number>();
+  for (const log of failures) {
+    const unlockedAt = unlocks.get(log.username);
+    if (log.ipAddress && unlockedAt && timeOf(log) < unlockedAt) {
+      resetAt(addressResets, log.ipAddress, unlockedAt);
+    }
+  }
+
+  const byUser = failures.filter(log => timeOf(log) > (userResets.get(log.username) || 0));
+  return {
+    byUser,
+    byAddress: byUser.filter(log => !log.ipAddress || timeOf(log) > (addressResets.get(log.ipAddress) || 0)),
+  };
+}
+
+/**
+ * Build the lockout status for a set of failures
+ */
+function toStatus(failures: ActivityLog[], scope: "user" | "ip"): LockoutStatus {
+  if (failures.length < config.maxFailedLogins) {
+    return { locked: false, remainingAttempts: config.maxFailedLogins - failures.length };
+  }
+
+  const latestFailure = Math.max(...failures.map(timeOf));
+  return {
+    locked: true,
+    scope,
+    lockedUntil: new Date(latestFailure + config.loginLockoutWindow).toISOString(),
+    remainingAttempts: 0,
+  };
+}
+
+/**
+ * Check whether a login attempt for a username from an address is locked out
+ *
+ * @param username - Username being attempted
+ * @param ipAddress - Client address of the request
+ * @returns Lockout status including the number of attempts left
+ */
+export async function getLockoutStatus(username: string, ipAddress?: string): Promise<LockoutStatus> {
+  const failures = await getCountedFailures();
+
+  const userStatus = toStatus(failures.byUser.filter(log => log.username === username), "user");
+  if (userStatus.locked) {
+    return userStatus;
+  }
+
+  if (ipAddress) {
+    const ipStatus = toStatus(failures.byAddress.filter(log => log.ipAddress === ipAddress), "ip");
+    if (ipStatus.locked) {
+      return ipStatus;
+    }
+    return {
+      locked: false,
+      remainingAttempts: Math.min(userStatus.remainingAttempts, ipStatus.remainingAttempts),
+    };
+  }
+
+  return userStatus;
+}
+
+/**
+ * Get all usernames that are currently locked out
+ *
+ * @returns Map of username to the time the lockout ends
+ */
+export async function getLockedAccounts(): Promise<Map<string, string>> {
+  const failures = await getCountedFailures();
+  const byUsername = new Map<string, ActivityLog[]>();
+
+  for (const log of failures.byUser) {
+    const list = byUsername.get(log.username) || [];
+    list.push(log);
+    byUsername.set(log.username, list);
+  }
+
+  const locked = new Map<string, string>();
+  byUsername.forEach((userFailures, username) => {
+    const status = toStatus(userFailures, "user");
+    if (status.locked && status.lockedUntil) {
+      locked.set(username, status.lockedUntil);
+    }
+  });
+
+  return locked;
+}
@@ -0,0 +1,74 @@
+/**
+ * JSON to SQLite Migration
+ *
+ * Imports the existing server/data/*.json files into the SQLite database used
+ * when STORAGE_DRIVER=sqlite. Any data already in the database is replaced.
+ * Activity logs stay in activity_logs.json and are not migrated.
+ *
+ * Usage: npm run db:migrate-sqlite
+ */
+import { config } from './config';
+import { fileStorage } from './fileStorage';
+import { SqliteStorage } from './sqliteStorage';
+
+async function migrate() {
+  await fileStorage.ready;
+
+  const snapshot = {
+    users: await fileStorage.getUsers(),
+    inventory: await fileStorage.getInventory(),
+    sales: await fileStorage.getSales(),
+    losses: await fileStorage.getLosses(),
+    popularity: await fileStorage.getProductPopularity(),
+    promotions: await fileStorage.getPromotions(),
+    shifts: await fileStorage.getShifts(),
+    suppliers: await fileStorage.getSuppliers(),
+    variantGroups: await fileStorage.getVariantGroups(),
+    purchaseOrders: await fileStorage.getPurchaseOrders(),
+    stockMovements: await fileStorage.getStockMovements(),
+    stockCounts: await fileStorage.getStockCounts(),
+    locations: await fileStorage.getLocations(),
+    stockTransfers: await fileStorage.getStockTransfers(),
+    notifications: await fileStorage.getNotifications(),
+    alertRules: await fileStorage.getAlertRules(),
+    ruleAlerts: await fileStorage.getRuleAlerts(),
+    categories: await fileStorage.getCategories(),
+    settings: await fileStorage.getStoreSettings()
+  };
+
+  const sqlite = new SqliteStorage(config.sqlitePath);
+  await sqlite.ready;
+
+  try {
+    sqlite.importData(snapshot);
+
+    // Older JSON files may still hold plaintext PINs
+    const migratedPins = await sqlite.migratePlaintextPins();
+
+    console.log(`Imported into ${config.sqlitePath}:`);
+    console.log(`- Users: ${snapshot.users.length} (${migratedPins} plaintext PIN(s) hashed)`);
+    console.log(`- Inventory items: ${snapshot.inventory.length}`);
+    console.log(`- Sales: ${snapshot.sales.length}`);
+    console.log(`- Losses: ${snapshot.losses.length}`);
+    console.log(`- Popularity entries: ${snapshot.popularity.length}`);
+    console.log(`- Promotions: ${snapshot.promotions.length}`);
+    console.log(`- Shifts: ${snapshot.shifts.length}`);
+    console.log(`- Suppliers: ${snapshot.suppliers.length}`);
+    console.log(`- Variant groups: ${snapshot.variantGroups.length}`);
+    console.log(`- Purchase orders: ${snapshot.purchaseOrders.length}`);
+    console.log(`- Stock movements: ${snapshot.stockMovements.length}`);
+    console.log(`- Stock counts: ${snapshot.stockCounts.length}`);
+    console.log(`- Locations: ${snapshot.locations.length}`);
+    console.log(`- Stock transfers: ${snapshot.stockTransfers.length}`);
+    console.log(`- Notifications: ${snapshot.notifications.length}`);
+    console.log(`- Alert rules: ${snapshot.alertRules.length} (${snapshot.ruleAlerts.length} alert(s) raised)`);
+    console.log(`- Categories: ${snapshot.categories.length}`);
+  } finally {
+    sqlite.close();
+  }
+}
+
+migrate().catch(error => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
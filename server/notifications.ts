@@ -0,0 +1,235 @@
+/**
+ * Notifications
+ *
+ * Notifications are raised on the server by events such as an item running
+ * low or a large refund. Each is addressed to one user or to everyone with
+ * one of a set of roles, and kept in storage with who has read or cleared
+ * it. Browsers connected to the notification stream (Server-Sent Events)
+ * are sent new notifications as they are raised, and read or cleared ones
+ * so a user's other sessions stay in step. A stream is closed when its
+ * session token is revoked or its user's access changes.
+ */
+import type { Response } from "express";
+import type { SessionTokenPayload, SessionUser } from "./auth";
+import { config } from "./config";
+import { storage, type InventoryItem, type Notification, type Sale, type Shift } from "./storage";
+import { isBundle } from "@shared/bundles";
+
+// A notification as one user sees it
+export type NotificationView = Omit<Notification, "userId" | "roles" | "readBy" | "dismissedBy"> & {
+  read: boolean;
+};
+
+const MANAGER_ROLES = ["Administrator", "Manager"];
+const STOCK_ROLES = ["Administrator", "Manager", "Stocker"];
+
+// Comment lines sent this often keep idle connections from being closed by proxies
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+// Browsers connected to the notification stream, with the token each connected with
+const subscribers = new Set<{ user: SessionUser; tokenId: string; res: Response }>();
+
+/**
+ * Whether a notification is addressed to a user
+ */
+export function isAddressedTo(notification: Notification, user: SessionUser): boolean {
+  return notification.userId === user.id || !!notification.roles?.includes(user.role);
+}
+
+/**
+ * A notification as a user sees it, with their read state
+ */
+export function toView(notification: Notification, user: SessionUser): NotificationView {
+  const { userId, roles, readBy, dismissedBy, ...view } = notification;
+  return { ...view, read: readBy.includes(user.id) };
+}
+
+/**
+ * The notifications a user hasn't cleared, newest first
+ */
+export function notificationsFor(notifications: Notification[], user: SessionUser): Notification[] {
+  return notifications
+    .filter(notification => isAddressedTo(notification, user) && !notification.dismissedBy.includes(user.id))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id);
+}
+
+function send(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Hold a response open as a user's notification stream
+ * The stream ends when the session token it was opened with expires; the
+ * browser then reconnects with its refreshed token.
+ *
+ * @param user - The connected user
+ * @param res - Response to stream events on
+ * @param token - The session token the stream was opened with
+ */
+export function subscribe(user: SessionUser, res: Response, token: SessionTokenPayload): void {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive",
+    "X-Accel-Buffering": "no"
+  });
+  res.write(": connected\n\n");
+
+  const subscriber = { user, tokenId: token.jti, res };
+  subscribers.add(subscriber);
+  const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), HEARTBEAT_INTERVAL);
+  const expiry = setTimeout(() => res.end(), Math.max(0, token.exp - Date.now()));
+
+  res.on("close", () => {
+    subscribers.delete(subscriber);
+    clearInterval(heartbeat);
+    clearTimeout(expiry);
+  });
+}
+
+/**
+ * Close the stream opened with a session token, once the token is revoked
+ */
+export function closeTokenStreams(tokenId: string): void {
+  subscribers.forEach(({ tokenId: streamTokenId, res }) => {
+    if (streamTokenId === tokenId) {
+      res.end();
+    }
+  });
+}
+
+/**
+ * Close a user's streams after their role or status changes, or they are deleted
+ * Browsers still signed in reconnect and are sent what their new role sees.
+ */
+export function closeUserStreams(userId: number): void {
+  subscribers.forEach(({ user, res }) => {
+    if (user.id === userId) {
+      res.end();
+    }
+  });
+}
+
+/**
+ * Tell a user's connected browsers that notifications were read or cleared
+ */
+export function publishMarks(userId: number, mark: "read" | "dismissed", ids: number[]): void {
+  subscribers.forEach(({ user, res }) => {
+    if (user.id === userId) {
+      send(res, mark, { ids });
+    }
+  });
+}
+
+/**
+ * Store a notification and push it to the connected users it is for
+ * A notification that can't be stored is logged rather than failing the
+ * operation that raised it.
+ */
+export async function notify(notification: Omit<Notification, "id" | "createdAt" | "readBy" | "dismissedBy">): Promise<void> {
+  try {
+    const created = await storage.addNotification(notification);
+    subscribers.forEach(({ user, res }) => {
+      if (isAddressedTo(created, user)) {
+        send(res, "notification", toView(created, user));
+      }
+    });
+  } catch (error) {
+    console.error("Error raising notification:", error);
+  }
+}
+
+/**
+ * Notify stock handlers of items a stock change took to or below their reorder threshold
+ * Items that were already low before the change aren't notified about again.
+ *
+ * @param before - The items as they were before the change
+ * @param productIds - Items whose stock went down
+ */
+export async function notifyLowStock(before: InventoryItem[], productIds: number[]): Promise<void> {
+  for (const productId of Array.from(new Set(productIds))) {
+    const was = before.find(item => item.id === productId);
+    const item = await storage.getInventoryItem(productId);
+    if (!was || !item || isBundle(item) || was.stock <= was.threshold || item.stock > item.threshold) {
+      continue;
+    }
+    await notify({
+      event: "low_stock",
+      type: "warning",
+      title: "Low Stock",
+      message: `${item.name} is down to ${item.stock} ${item.unit} (reorder at ${item.threshold}).`,
+      roles: STOCK_ROLES,
+      link: "/alerts"
+    });
+  }
+}
+
+/**
+ * Notify managers of a refund of at least the configured amount
+ */
+export async function notifyLargeRefund(sale: Sale, amount: number, refundedBy: string): Promise<void> {
+  if (amount < config.largeRefundAmount) {
+    return;
+  }
+  await notify({
+    event: "large_refund",
+    type: "warning",
+    title: "Large Refund",
+    message: `${refundedBy} refunded $${amount.toFixed(2)} on sale ${sale.id}.`,
+    roles: MANAGER_ROLES,
+    link: "/sales"
+  });
+}
+
+/**
+ * Notify managers that a sale rung up offline needs checking, e.g. because it oversold stock
+ */
+export async function notifyOfflineSaleReview(sale: Sale): Promise<void> {
+  if (!sale.reviewNotes?.length) {
+    return;
+  }
+  await notify({
+    event: "offline_sale_review",
+    type: "warning",
+    title: "Offline Sale to Review",
+    message: `Sale ${sale.id} (${sale.provisionalId}) by ${sale.cashier}: ${sale.reviewNotes.join("; ")}.`,
+    roles: MANAGER_ROLES,
+    link: "/sales"
+  });
+}
+
+/**
+ * Notify administrators that repeated failed logins locked an account or address
+ */
+export async function notifyLoginLockout(username: string, ipAddress: string | undefined, scope?: "user" | "ip"): Promise<void> {
+  const target = scope === "ip" ? `Logins from ${ipAddress || "an unknown address"} are` : `The account "${username}" is`;
+  await notify({
+    event: "failed_logins",
+    type: "error",
+    title: "Repeated Failed Logins",
+    message: `${target} locked for ${Math.round(config.loginLockoutWindow / 60000)} minutes after ` +
+      `${config.maxFailedLogins} failed login attempts.`,
+    roles: ["Administrator"],
+    link: "/users"
+  });
+}
+
+/**
+ * Notify managers and the shift's cashier of a drawer counted at least the configured amount over or short
+ */
+export async function notifyShiftVariance(shift: Shift): Promise<void> {
+  const variance = shift.variance ?? 0;
+  if (Math.abs(variance) < config.shiftVarianceAlert) {
+    return;
+  }
+  await notify({
+    event: "shift_variance",
+    type: "warning",
+    title: "Shift Variance",
+    message: `${shift.cashier}'s drawer was $${Math.abs(variance).toFixed(2)} ${variance > 0 ? "over" : "short"} ` +
+      `at the close of shift ${shift.id}.`,
+    userId: shift.userId,
+    roles: MANAGER_ROLES,
+    link: "/shifts"
+  });
+}
@@ -0,0 +1,60 @@
+/**
+ * PIN Security
+ *
+ * Hashes and verifies user PINs. PINs are stored as salted scrypt hashes in
+ * the format `scrypt$<salt>$<hash>` so plaintext PINs never reach disk.
+ */
+import crypto from "crypto";
+import { promisify } from "util";
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+const HASH_PREFIX = "scrypt";
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+/**
+ * Check whether a stored PIN value is already hashed
+ */
+export function isHashedPin(value: string | undefined): boolean {
+  return typeof value === "string" && value.startsWith(`${HASH_PREFIX}$`);
+}
+
+/**
+ * Hash a PIN with a random salt
+ *
+ * @param pin - Plaintext PIN
+ * @returns Encoded hash suitable for storage
+ */
+export async function hashPin(pin: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES).toString("hex");
+  const derivedKey = await scrypt(pin, salt, KEY_LENGTH);
+  return `${HASH_PREFIX}$${salt}$${derivedKey.toString("hex")}`;
+}
+
+/**
+ * Verify a PIN against a stored hash using a constant-time comparison
+ *
+ * @param pin - Plaintext PIN entered by the user
+ * @param storedHash - Encoded hash from storage
+ * @returns Whether the PIN matches
+ */
+export async function verifyPin(pin: string, storedHash: string): Promise<boolean> {
+  // Request bodies aren't typed; a number or object can't be a PIN and would make scrypt throw
+  if (typeof pin !== "string" || !isHashedPin(storedHash)) {
+    return false;
+  }
+
+  const [, salt, hash] = storedHash.split("$");
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scrypt(pin, salt, expected.length);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,94 @@
+/**
+ * Purchase Order Lines
+ *
+ * Builds purchase order lines from the catalog. Names and supplier SKUs come
+ * from the inventory item and its link to the supplier; a line without a
+ * unit cost is costed at the supplier's price, or the item's cost price when
+ * the item isn't linked to that supplier yet.
+ */
+import type { InventoryItem } from "./storage";
+import type { PurchaseOrderLine, PurchaseOrderRequest, Supplier } from "@shared/schema";
+import { isBundle } from "@shared/bundles";
+
+// A problem with one line of a submitted order
+export type PurchaseOrderLineError = {
+  line: number;          // Index of the line in the submitted order
+  productId: number;
+  code: "UNKNOWN_PRODUCT" | "DUPLICATE_LINE" | "BUNDLE" | "NO_COST";
+  message: string;
+};
+
+/**
+ * Build order lines for a supplier
+ *
+ * @param supplier - The supplier being ordered from
+ * @param requested - Lines as entered
+ * @param inventory - Current inventory
+ * @returns Order lines, with any per-line problems
+ */
+export function buildPurchaseOrderLines(
+  supplier: Supplier,
+  requested: PurchaseOrderRequest["lines"],
+  inventory: InventoryItem[]
+): { lines: PurchaseOrderLine[]; lineErrors: PurchaseOrderLineError[] } {
+  const lines: PurchaseOrderLine[] = [];
+  const lineErrors: PurchaseOrderLineError[] = [];
+  const seen = new Set<number>();
+
+  requested.forEach((line, index) => {
+    const item = inventory.find(inventoryItem => inventoryItem.id === line.productId);
+    if (!item) {
+      lineErrors.push({
+        line: index,
+        productId: line.productId,
+        code: "UNKNOWN_PRODUCT",
+        message: `Product ${line.productId} does not exist`
+      });
+      return;
+    }
+
+    if (seen.has(line.productId)) {
+      lineErrors.push({
+        line: index,
+        productId: line.productId,
+        code: "DUPLICATE_LINE",
+        message: `${item.name} is listed more than once`
+      });
+      return;
+    }
+    seen.add(line.productId);
+
+    if (isBundle(item)) {
+      lineErrors.push({
+        line: index,
+        productId: line.productId,
+        code: "BUNDLE",
+        message: `${item.name} is a bundle; order its components instead`
+      });
+      return;
+    }
+
+    const link = item.suppliers?.find(supplierLink => supplierLink.supplierId === supplier.id);
+    const unitCost = line.unitCost ?? link?.cost ?? item.costPrice;
+    if (unitCost === undefined) {
+      lineErrors.push({
+        line: index,
+        productId: line.productId,
+        code: "NO_COST",
+        message: `Enter a unit cost for ${item.name}`
+      });
+      return;
+    }
+
+    lines.push({
+      productId: item.id,
+      name: item.name,
+      ...(link?.supplierSku ? { supplierSku: link.supplierSku } : {}),
+      quantity: line.quantity,
+      unitCost,
+      receivedQuantity: 0
+    });
+  });
+
+  return { lines, lineErrors };
+}
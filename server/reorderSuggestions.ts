@@ -0,0 +1,152 @@
+/**
+ * Reorder Suggestions
+ *
+ * Works out when and how much of each item to reorder from how fast it sells.
+ * Sales velocity is the average number of units sold per day over recent
+ * sales history, net of returns. An item should be reordered once its stock
+ * plus what is already on order would not last through the supplier's lead
+ * time plus a few days of safety stock (the reorder point); the suggested
+ * order then brings it up to enough for a further cover period, rounded up to
+ * whole supplier packs.
+ */
+import type { InventoryItem, Sale } from "./storage";
+import { remainingQuantities } from "@shared/refunds";
+import { isBundle, stockTaken } from "@shared/bundles";
+import { isOpenPurchaseOrder, preferredSupplierLink } from "@shared/purchaseOrders";
+import type { PurchaseOrder, Supplier } from "@shared/schema";
+
+// Lead time assumed for items without a supplier
+const DEFAULT_LEAD_TIME_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReorderOptions = {
+  velocityDays: number;  // Days of sales history to average over
+  safetyDays: number;    // Stock kept beyond the lead time
+  coverDays: number;     // Days of sales an order should cover
+  now?: Date;
+};
+
+export type ReorderSuggestion = {
+  productId: number;
+  name: string;
+  sku: string;
+  category: string;
+  unit: string;
+  stock: number;
+  threshold: number;
+  velocity: number;           // Units sold per day
+  daysOfCover: number | null; // Days the stock on hand will last; null if the item isn't selling
+  leadTimeDays: number;
+  supplierId?: number;
+  supplierName?: string;
+  packSize?: number;
+  onOrder: number;            // Outstanding on open purchase orders, including drafts
+  reorderPoint: number;       // Suggested threshold
+  suggestedQuantity: number;  // Suggested order, in whole packs
+  belowThreshold: boolean;    // Below the manually set threshold
+  needsReorder: boolean;      // At or below the reorder point, or below the threshold
+};
+
+/**
+ * Units of each product sold in the history window, net of returns
+ * Bundles sold count as sales of their components.
+ */
+export function unitsSold(sales: Sale[], since: Date): Map<number, number> {
+  const sold = new Map<number, number>();
+  sales
+    .filter(sale => new Date(sale.date) >= since)
+    .forEach(sale => {
+      const kept = remainingQuantities(sale);
+      sale.items.forEach((item, index) => {
+        const net = kept[index];
+        stockTaken({ ...item, quantity: net }).forEach(part => {
+          sold.set(part.productId, (sold.get(part.productId) || 0) + part.quantity);
+        });
+      });
+    });
+  return sold;
+}
+
+/**
+ * Quantity of each product still to be delivered on open purchase orders
+ */
+export function quantitiesOnOrder(orders: PurchaseOrder[]): Map<number, number> {
+  const onOrder = new Map<number, number>();
+  orders
+    .filter(order => isOpenPurchaseOrder(order.status))
+    .forEach(order => {
+      order.lines.forEach(line => {
+        const outstanding = Math.max(0, line.quantity - line.receivedQuantity);
+        onOrder.set(line.productId, (onOrder.get(line.productId) || 0) + outstanding);
+      });
+    });
+  return onOrder;
+}
+
+/**
+ * Reorder point and order quantity for every inventory item
+ *
+ * @param inventory - Current inventory
+ * @param sales - Sales history
+ * @param suppliers - Suppliers, for lead times
+ * @param orders - Purchase orders, for quantities already on order
+ * @param options - History window, safety stock and cover period
+ * @returns One suggestion per item, other than bundles
+ */
+export function suggestReorders(
+  inventory: InventoryItem[],
+  sales: Sale[],
+  suppliers: Supplier[],
+  orders: PurchaseOrder[],
+  options: ReorderOptions
+): ReorderSuggestion[] {
+  const now = options.now ?? new Date();
+  const sold = unitsSold(sales, new Date(now.getTime() - options.velocityDays * DAY_MS));
+  const onOrder = quantitiesOnOrder(orders);
+
+  // Bundles are restocked by reordering their components
+  return inventory.filter(item => !isBundle(item)).map(item => {
+    const link = preferredSupplierLink(item.suppliers);
+    const supplier = link && suppliers.find(entry => entry.id === link.supplierId);
+    const leadTimeDays = supplier?.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+    const packSize = link?.packSize;
+
+    const velocity = (sold.get(item.id) || 0) / options.velocityDays;
+    const ordered = onOrder.get(item.id) || 0;
+    const reorderPoint = Math.ceil(velocity * (leadTimeDays + options.safetyDays));
+    const orderUpTo = Math.ceil(velocity * (leadTimeDays + options.safetyDays + options.coverDays));
+
+    const belowThreshold = item.stock < item.threshold;
+    const projected = velocity > 0 && item.stock + ordered <= reorderPoint;
+
+    // Without sales to go on, order back up to the threshold
+    let shortfall = velocity > 0
+      ? orderUpTo - item.stock - ordered
+      : item.threshold - item.stock - ordered;
+    shortfall = Math.max(0, shortfall);
+    const suggestedQuantity = packSize
+      ? Math.ceil(shortfall / packSize) * packSize
+      : Math.ceil(shortfall);
+
+    return {
+      productId: item.id,
+      name: item.name,
+      sku: item.sku,
+      category: item.category,
+      unit: item.unit,
+      stock: item.stock,
+      threshold: item.threshold,
+      velocity: Math.round(velocity * 100) / 100,
+      daysOfCover: velocity > 0 ? Math.round(item.stock / velocity * 10) / 10 : null,
+      leadTimeDays,
+      ...(supplier ? { supplierId: supplier.id, supplierName: supplier.name } : {}),
+      ...(packSize ? { packSize } : {}),
+      onOrder: ordered,
+      reorderPoint,
+      suggestedQuantity,
+      belowThreshold,
+      needsReorder: projected || belowThreshold
+    };
+  });
+}
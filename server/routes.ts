@@ -1,10 +1,103 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
-import { fileStorage } from "./fileStorage";
+import { storage, type InventoryItem, type Shift } from "./storage";
 import { logStorage } from "./logStorage";
 import { ActivityLogger, LOG_ACTIONS, LOG_CATEGORIES } from "./logger";
 import { lookupProductByBarcode } from "./productLookup";
+import { 
+  authenticate, 
+  requireAuth, 
+  createSessionToken, 
+  revokeSessionToken, 
+  SYSTEM_USER, 
+  normalizeRole, 
+  type SessionUser 
+} from "./auth";
+import { verifyPin } from "./pinSecurity";
+import { getLockoutStatus, getLockedAccounts } from "./loginLockout";
+import { priceSaleItems, checkOfflineSale, findStockShortages, DuplicateSaleError, InsufficientStockError } from "./saleValidation";
+import { summarizeTaxCollected } from "./taxReport";
+import { summarizeTenders } from "./tenderReport";
+import { buildShiftReport } from "./shiftReport";
+import { ReturnQuantityError } from "./saleReturns";
+import { buildPurchaseOrderLines } from "./purchaseOrderLines";
+import { canReceive, ReceiptQuantityError } from "./goodsReceipts";
+import { quantitiesOnOrder, suggestReorders } from "./reorderSuggestions";
+import { selectCountItems, buildCountLines, StockCountError } from "./stockCounts";
+import { summarizeCountVariances } from "./countVarianceReport";
+import { StockTransferError } from "./stockTransfers";
+import { 
+  storeSettingsSchema, 
+  notificationMarkSchema, 
+  manualDiscountSchema, 
+  tenderSchema, 
+  offlineSaleSchema,
+  refundRequestSchema, 
+  openShiftSchema, 
+  cashMovementSchema, 
+  closeShiftSchema, 
+  insertPromotionSchema, 
+  insertAlertRuleSchema, 
+  insertSupplierSchema, 
+  supplierLinkSchema, 
+  itemBarcodeSchema, 
+  weighedItemFieldsSchema, 
+  bundleComponentSchema, 
+  lotDetailsSchema, 
+  insertVariantGroupSchema, 
+  variantAttributesSchema, 
+  insertCategorySchema, 
+  categoryMergeSchema, 
+  purchaseOrderRequestSchema, 
+  goodsReceiptRequestSchema, 
+  stockCountRequestSchema, 
+  stockCountEntriesSchema, 
+  insertStockLocationSchema, 
+  stockTransferRequestSchema, 
+  pinSchema, 
+  type LotDetails, 
+  type PurchaseOrder, 
+  type StockLocation, 
+  type StockTransfer, 
+  type StockCount, 
+  type OfflineSale, 
+  type User 
+} from "@shared/schema";
+import { isPromotionActive } from "@shared/pricing";
+import { settleTenders, describeTenders, TENDER_LABELS } from "@shared/tenders";
+import { REFUND_REASON_LABELS } from "@shared/refunds";
+import { 
+  PURCHASE_ORDER_STATUS_LABELS, 
+  canTransition, 
+  isOpenPurchaseOrder, 
+  formatPurchaseOrderNumber, 
+  purchaseOrderTotal, 
+  preferredSupplierLink 
+} from "@shared/purchaseOrders";
+import { 
+  STOCK_COUNT_SCOPE_LABELS, 
+  STOCK_COUNT_STATUS_LABELS, 
+  formatStockCountNumber, 
+  summarizeStockCount 
+} from "@shared/stockCounts";
+import { roundCurrency } from "@shared/tax";
+import { isValidQuantity } from "@shared/weighing";
+import { resolveBarcode, itemBarcodes, findBarcodeConflicts } from "@shared/barcodes";
+import { findVariantProblem } from "@shared/variants";
+import { descendantIds, findCategory, findCategoryProblem, tidyCategoryName } from "@shared/categories";
+import { bundlesContaining, describeBundle, findBundleProblem, isBundle, stockTaken, withBundleDetails } from "@shared/bundles";
+import { checkAlertRules } from "./alertRules";
+import { describeAlertRule } from "@shared/alertRules";
+import { closeTokenStreams, closeUserStreams, notificationsFor, notifyLargeRefund, notifyLoginLockout, notifyLowStock, notifyOfflineSaleReview, notifyShiftVariance, publishMarks, subscribe, toView } from "./notifications";
+import { describeLot, findExpiringLots, localDate } from "@shared/lots";
+import { 
+  STOCK_TRANSFER_STATUS_LABELS, 
+  formatStockTransferNumber, 
+  transferQuantity 
+} from "@shared/stockTransfers";
+import { DEFAULT_LOCATION_ID, atLocation, locationOf, spreadOverLocations, stockAt } from "@shared/locations";
+import { config } from "./config";
 import { z } from "zod";
 import path from "path";
 import { fileURLToPath } from 'url';
@@ -26,50 +119,15 @@ const __dirname = dirname(__filename);
 /**
  * Helper function to get current user information from request
  * 
- * Extracts and validates user information from the request headers or body.
- * Ensures user identity is properly structured and verified.
- * Returns a default system user if no valid user information is found.
+ * Returns the identity resolved by the `authenticate` middleware from a
+ * server-verified session token. Returns a default system user if the
+ * request is not authenticated.
  * 
  * @param req - Express request object
- * @returns User object with id, username, and role
+ * @returns User object with id, username, name, and role
  */
-const getCurrentUser = (req: Request) => {
-  try {
-    // Primary source: user-info header
-    const userInfoHeader = req.headers['user-info'];
-    if (userInfoHeader && typeof userInfoHeader === 'string') {
-      try {
-        const userData = JSON.parse(userInfoHeader);
-        
-        // Validate the user data structure
-        if (userData && 
-            typeof userData === 'object' && 
-            'id' in userData && 
-            'username' in userData && 
-            'role' in userData) {
-          
-          // Sanitize roles to known valid values
-          if (!['Administrator', 'Manager', 'Cashier', 'Stocker', 'system'].includes(userData.role)) {
-            console.warn(`Invalid role detected: ${userData.role}, defaulting to Cashier`);
-            userData.role = 'Cashier'; // Default to lowest privileged role
-          }
-          
-          return userData;
-        }
-      } catch (parseError) {
-        console.error("Error parsing user info from header:", parseError);
-      }
-    }
-    
-    // Removed legacy authentication method that used user info in request body
-    // All client requests now use the more secure header-based authentication
-    
-    // Default system user for operational functions
-    return { id: 0, username: "system", role: "system" };
-  } catch (error) {
-    console.error("Error processing user information:", error);
-    return { id: 0, username: "system", role: "system" };
-  }
+const getCurrentUser = (req: Request): SessionUser => {
+  return req.currentUser || SYSTEM_USER;
 };
 
 /**
@@ -106,6 +164,449 @@ const isAdmin = (req: Request, res: Response, next: NextFunction) => {
   next();
 };
 
+/**
+ * Whether a role may approve price overrides and other manager-only actions at the POS
+ */
+const isManagerRole = (role: string) => role === 'Administrator' || role === 'Manager';
+
+/**
+ * Whether a role may receive deliveries into stock
+ */
+const canReceiveStock = (role: string) => isManagerRole(role) || role === 'Stocker';
+
+/**
+ * Whether a role may start stock counts and enter what is on the shelf
+ */
+const canCountStock = (role: string) => isManagerRole(role) || role === 'Stocker';
+
+/**
+ * Whether a user may override stock limits and sell past zero stock
+ */
+const canOverrideStock = (user: SessionUser) =>
+  config.allowNegativeStockOverride && isManagerRole(user.role);
+
+/**
+ * Whether a user may record cash movements on, close or report on a shift:
+ * their own shift, or any shift for managers
+ */
+const canManageShift = (user: SessionUser, shift: Shift) =>
+  shift.userId === user.id || isManagerRole(user.role);
+
+/**
+ * Verify the manager credentials entered at the POS to approve price overrides and discounts
+ * Failed attempts count towards the manager's login lockout.
+ *
+ * @param approval - `{ username, pin }` as sent by the client
+ * @param ipAddress - Client address, for lockout tracking
+ * @returns The approving manager, or the HTTP status and error to return
+ */
+async function verifyManagerApproval(
+  approval: any,
+  ipAddress?: string
+): Promise<{ approver: User } | { status: number; error: string }> {
+  if (!approval?.username || !approval?.pin) {
+    return { status: 403, error: "Manager approval is required for price overrides and discounts" };
+  }
+  
+  const lockout = await getLockoutStatus(approval.username, ipAddress);
+  if (lockout.locked) {
+    return { status: 423, error: "Manager account is locked after too many failed attempts" };
+  }
+  
+  const approver = await storage.getUserByUsername(approval.username);
+  if (!approver || !(await verifyPin(approval.pin, approver.pin))) {
+    await ActivityLogger.logAuthActivity(
+      approver?.id || 0,
+      approval.username,
+      LOG_ACTIONS.AUTHENTICATION.FAILED_LOGIN,
+      "Failed price override or discount approval: Invalid credentials",
+      ipAddress
+    );
+    return { status: 403, error: "Invalid manager username or PIN" };
+  }
+  
+  if (!isManagerRole(normalizeRole(approver.role)) || approver.status === 'Inactive') {
+    return { status: 403, error: `${approver.name} cannot approve price overrides or discounts` };
+  }
+  
+  return { approver };
+}
+
+/**
+ * Record a sale the till rang up while it couldn't reach the server
+ * The customer has already paid, so the sale is never refused over prices,
+ * stock or a shift closed since. It is recorded at the till's prices in the
+ * shift it was rung up in, and anything out of the ordinary is noted on the
+ * sale and sent to managers to review.
+ *
+ * @param user - The cashier who rang it up; only their session sends it
+ * @param offline - The sale as the till priced it
+ * @param tendersSent - Tenders as sent by the client
+ * @param idempotencyKey - The till's key for the sale
+ * @returns The HTTP status and body to return
+ */
+async function recordOfflineSale(
+  user: SessionUser,
+  offline: OfflineSale,
+  tendersSent: unknown,
+  idempotencyKey: string
+): Promise<{ status: number; body: unknown }> {
+  const tenderValidation = z.array(tenderSchema).safeParse(tendersSent ?? []);
+  if (!tenderValidation.success) {
+    return { status: 400, body: { error: "Invalid tenders", details: tenderValidation.error.errors } };
+  }
+  const tenders = tenderValidation.data;
+  
+  const inventory = await storage.getInventory();
+  const { items, reviewNotes } = checkOfflineSale(offline, inventory);
+  
+  // The shift that was open on the till, even if it has been closed since
+  let shift = offline.shiftId !== undefined ? await storage.getShift(offline.shiftId) : undefined;
+  if (shift && shift.userId !== user.id) {
+    shift = undefined;
+  }
+  if (!shift) {
+    shift = await storage.getOpenShift(user.id);
+    reviewNotes.push(shift ? `Rung up outside a known shift; recorded in shift #${shift.id}` : "Rung up outside any shift");
+  } else if (shift.status === "closed") {
+    reviewNotes.push(`Shift #${shift.id} was closed before this sale reached the server`);
+  }
+  
+  // Overrides and discounts can't be approved offline; a manager ringing one up approves it themselves
+  const hasManualDiscounts = !!offline.cartDiscount ||
+    offline.items.some(line => line.discounts?.some(discount => discount.source !== "promotion"));
+  if (items.some(item => item.listPrice !== undefined)) {
+    if (isManagerRole(user.role)) {
+      items.filter(item => item.listPrice !== undefined).forEach(item => item.overrideApprovedBy = user.username);
+    } else {
+      reviewNotes.push("Prices were overridden without a manager's approval");
+    }
+  }
+  if (hasManualDiscounts && !isManagerRole(user.role)) {
+    reviewNotes.push("Discounts were given without a manager's approval");
+  }
+  
+  const settlement = settleTenders(tenders, offline.amount);
+  if (settlement.error) {
+    reviewNotes.push(`Payment: ${settlement.error}`);
+  }
+  
+  // The goods have left the store, so stock may go negative; the shortage is left for a manager to check
+  const locationId = shift ? locationOf(shift) : DEFAULT_LOCATION_ID;
+  const shortages = findStockShortages(items, inventory, locationId);
+  if (shortages.length > 0) {
+    reviewNotes.push(`Sold more than was in stock: ${shortages.map(line => line.name).join(", ")}`);
+  }
+  
+  // Dated when it was rung up, within its shift and not in the future
+  const latest = Math.min(Date.now(), shift?.closedAt ? Date.parse(shift.closedAt) : Infinity);
+  const earliest = shift ? Date.parse(shift.openedAt) : -Infinity;
+  const date = new Date(Math.min(latest, Math.max(earliest, Date.parse(offline.rungUpAt)))).toISOString();
+  
+  let sale;
+  try {
+    sale = await storage.addSale({
+      items,
+      subtotal: offline.subtotal,
+      ...(offline.discount > 0 ? { discount: offline.discount } : {}),
+      ...(offline.cartDiscount ? { cartDiscount: offline.cartDiscount } : {}),
+      tax: offline.tax,
+      amount: offline.amount,
+      tenders,
+      ...(settlement.change > 0 ? { change: settlement.change } : {}),
+      ...(hasManualDiscounts && isManagerRole(user.role) ? { discountApprovedBy: user.username } : {}),
+      ...(shift ? { shiftId: shift.id } : {}),
+      locationId,
+      idempotencyKey,
+      provisionalId: offline.provisionalId,
+      syncedAt: new Date().toISOString(),
+      ...(reviewNotes.length > 0 ? { reviewNotes } : {}),
+      status: "Completed",
+      cashier: user.name
+    }, { user: user.username, allowNegativeStock: true, date });
+  } catch (error) {
+    // A retry of the same sale was recorded while this one was being checked
+    if (error instanceof DuplicateSaleError) {
+      return { status: 200, body: error.sale };
+    }
+    throw error;
+  }
+  
+  const totalItems = sale.items.reduce((sum, item) => sum + item.quantity, 0);
+  let details = `Offline sale recorded: ID ${sale.id}, rung up as ${offline.provisionalId} at ${sale.date}, ` +
+    `Total: $${sale.amount.toFixed(2)} (Tax: $${offline.tax.toFixed(2)}), Items: ${totalItems}`;
+  if (tenders.length > 0) {
+    details += `, Paid: ${describeTenders(tenders)}`;
+  }
+  if (reviewNotes.length > 0) {
+    details += ` | To review: ${reviewNotes.join("; ")}`;
+  }
+  await ActivityLogger.logSalesActivity(user.id, user.username, LOG_ACTIONS.SALES.CREATE, details);
+  await notifyOfflineSaleReview(sale);
+  await notifyLowStock(inventory, sale.items.flatMap(item => stockTaken(item).map(part => part.productId)));
+  checkAlertRules();
+  
+  return { status: 201, body: sale };
+}
+
+/**
+ * Mark a user's notifications read or cleared, and tell their other sessions
+ *
+ * @param user - The current user
+ * @param body - `{ ids }` as sent by the client; all of the user's notifications when left out
+ * @param mark - Whether the notifications were read or cleared
+ * @returns The notifications marked, or the HTTP status and error to return
+ */
+async function markUserNotifications(
+  user: SessionUser,
+  body: any,
+  mark: "read" | "dismissed"
+): Promise<{ ids: number[] } | { status: number; error: string; details?: unknown }> {
+  const validation = notificationMarkSchema.safeParse(body ?? {});
+  if (!validation.success) {
+    return { status: 400, error: "Invalid notification ids", details: validation.error.errors };
+  }
+  
+  const { ids } = validation.data;
+  const marked = notificationsFor(await storage.getNotifications(), user)
+    .map(notification => notification.id)
+    .filter(id => !ids || ids.includes(id));
+  
+  await storage.markNotifications(marked, user.id, mark);
+  publishMarks(user.id, mark, marked);
+  return { ids: marked };
+}
+
+/**
+ * Validate the barcodes, variant details and weighing fields sent for a new or edited item
+ * Normalizes the body in place; a null `variantGroupId` unlinks the item from its group
+ * and a blank `plu` removes the item's scale code.
+ *
+ * @param body - Item fields as sent by the client
+ * @param existing - The item being edited
+ * @returns The HTTP status and error to return, or null if the fields are valid
+ */
+async function checkCatalogFields(
+  body: any,
+  existing?: InventoryItem
+): Promise<{ status: number; error: string; details?: unknown } | null> {
+  if (body.category !== undefined) {
+    // Filed under the category's own spelling, so "dairy " goes in with Dairy
+    const category = findCategory(await storage.getCategories(), String(body.category));
+    if (!category) {
+      return { status: 400, error: `Category ${body.category} not found` };
+    }
+    body.category = category.name;
+  }
+  
+  if (body.barcodes !== undefined) {
+    const barcodes = z.array(itemBarcodeSchema).safeParse(body.barcodes);
+    if (!barcodes.success) {
+      return { status: 400, error: "Invalid barcodes", details: barcodes.error.errors };
+    }
+    body.barcodes = barcodes.data;
+  }
+  
+  if (body.barcode !== undefined || body.barcodes !== undefined) {
+    const codes = itemBarcodes({
+      id: existing?.id ?? 0,
+      sku: body.sku ?? existing?.sku ?? "",
+      barcode: body.barcode !== undefined ? body.barcode : existing?.barcode,
+      barcodes: body.barcodes ?? existing?.barcodes
+    }).map(entry => entry.code);
+    
+    const repeated = codes.find((code, index) => codes.indexOf(code) !== index);
+    if (repeated) {
+      return { status: 400, error: `Barcode ${repeated} is listed more than once` };
+    }
+    
+    const conflicts = findBarcodeConflicts(await storage.getInventory(), codes, existing?.id);
+    if (conflicts.length > 0) {
+      return { status: 409, error: `Barcode ${conflicts[0].code} is already used by ${conflicts[0].item.name}` };
+    }
+  }
+  
+  if (body.variantGroupId === null) {
+    body.variantGroupId = undefined;
+    body.variantAttributes = undefined;
+  } else if (body.variantGroupId !== undefined || body.variantAttributes !== undefined) {
+    const group = await storage.getVariantGroup(Number(body.variantGroupId ?? existing?.variantGroupId));
+    if (!group) {
+      return { status: 400, error: "Variant group not found" };
+    }
+    
+    const attributes = variantAttributesSchema.safeParse(body.variantAttributes ?? existing?.variantAttributes ?? {});
+    if (!attributes.success) {
+      return { status: 400, error: "Invalid variant attributes", details: attributes.error.errors };
+    }
+    
+    const problem = findVariantProblem(group, attributes.data, await storage.getInventory(), existing?.id);
+    if (problem) {
+      return { status: 400, error: problem };
+    }
+    
+    body.variantGroupId = group.id;
+    body.variantAttributes = attributes.data;
+  }
+  
+  if (body.plu === "" || body.plu === null) {
+    body.plu = undefined;
+  }
+  const weighing = weighedItemFieldsSchema.safeParse(body);
+  if (!weighing.success) {
+    return { status: 400, error: "Invalid weighing details", details: weighing.error.errors };
+  }
+  
+  if (weighing.data.plu !== undefined) {
+    // Scale labels carry the PLU zero-padded, so "042" and "42" are the same code
+    const plu = Number(weighing.data.plu);
+    const owner = (await storage.getInventory())
+      .find(item => item.id !== existing?.id && item.plu && Number(item.plu) === plu);
+    if (owner) {
+      return { status: 409, error: `PLU ${weighing.data.plu} is already used by ${owner.name}` };
+    }
+    body.plu = weighing.data.plu;
+  }
+  
+  const bundleProblem = await checkBundleFields(body, existing);
+  if (bundleProblem) {
+    return bundleProblem;
+  }
+  
+  return null;
+}
+
+/**
+ * Check the components of an item being made or kept a bundle
+ * A bundle's stock and cost come from its components, so any `stock` or
+ * `costPrice` sent for one is replaced. Only items without stock of their own
+ * or anything on order can become bundles, and bundles can't nest.
+ */
+async function checkBundleFields(
+  body: any,
+  existing?: InventoryItem
+): Promise<{ status: number; error: string; details?: unknown } | null> {
+  if (body.components === null || (Array.isArray(body.components) && body.components.length === 0)) {
+    body.components = undefined;
+  } else if (body.components !== undefined) {
+    const components = z.array(bundleComponentSchema).max(20).safeParse(body.components);
+    if (!components.success) {
+      return { status: 400, error: "Invalid bundle components", details: components.error.errors };
+    }
+    
+    const inventory = await storage.getInventory();
+    const problem = findBundleProblem(components.data, inventory, existing?.id);
+    if (problem) {
+      return { status: 400, error: problem };
+    }
+    
+    if (existing && !isBundle(existing)) {
+      if (existing.stock !== 0) {
+        return { status: 409, error: `Transfer or write off the stock of ${existing.name} before making it a bundle` };
+      }
+      const containing = bundlesContaining(existing.id, inventory);
+      if (containing.length > 0) {
+        return { status: 409, error: `${existing.name} goes into ${containing[0].name}; bundles can't contain other bundles` };
+      }
+      if (quantitiesOnOrder(await storage.getPurchaseOrders()).get(existing.id)) {
+        return { status: 409, error: `${existing.name} is still on order; receive or close the order first` };
+      }
+    }
+    body.components = components.data;
+  }
+  
+  const bundle = body.components !== undefined ? isBundle(body) : !!existing && isBundle(existing);
+  if (!bundle) {
+    return null;
+  }
+  if (body.soldByWeight) {
+    return { status: 400, error: "Bundles are sold in whole units" };
+  }
+  body.stock = 0;
+  delete body.costPrice;
+  return null;
+}
+
+/**
+ * Take the lot number and expiry date of stock being added off an item body
+ * Stock added without either stays out of lots unless the item already has some.
+ *
+ * @param body - Item fields as sent by the client; `lot` and `lots` are removed
+ * @returns The lot details, or the HTTP status and error to return
+ */
+function takeStockLot(body: any): { lot?: LotDetails } | { status: number; error: string; details?: unknown } {
+  // Lots themselves only change with stock movements
+  const lot = body.lot;
+  delete body.lot;
+  delete body.lots;
+  
+  if (lot === undefined || lot === null) {
+    return {};
+  }
+  const parsed = lotDetailsSchema.safeParse({
+    lotNumber: lot.lotNumber?.trim() || undefined,
+    expiryDate: lot.expiryDate || undefined
+  });
+  if (!parsed.success) {
+    return { status: 400, error: "Invalid lot details", details: parsed.error.errors };
+  }
+  return parsed.data.lotNumber || parsed.data.expiryDate ? { lot: parsed.data } : {};
+}
+
+/**
+ * Find a location stock can be put into or taken from
+ *
+ * @param locationId - As sent by the client; the main location when left out
+ * @returns The location, or the HTTP status and error to return
+ */
+async function findStockLocation(locationId: unknown): Promise<{ location: StockLocation } | { status: number; error: string }> {
+  const id = locationId === undefined || locationId === null || locationId === '' ? DEFAULT_LOCATION_ID : Number(locationId);
+  const location = Number.isInteger(id) ? await storage.getLocation(id) : undefined;
+  if (!location) {
+    return { status: 400, error: "Location not found" };
+  }
+  if (!location.active) {
+    return { status: 409, error: `${location.name} is no longer in use` };
+  }
+  return { location };
+}
+
+/**
+ * Read the location a list or report is filtered to off the query string
+ * Closed locations can still be reported on.
+ *
+ * @returns The location id, none for every location, or the HTTP status and error to return
+ */
+async function findLocationFilter(query: Request["query"]): Promise<{ locationId?: number } | { status: number; error: string }> {
+  if (query.locationId === undefined || query.locationId === '') {
+    return {};
+  }
+  const locationId = Number(query.locationId);
+  if (!Number.isInteger(locationId) || !(await storage.getLocation(locationId))) {
+    return { status: 400, error: "Location not found" };
+  }
+  return { locationId };
+}
+
+/**
+ * Take the location a stock change happens at off an item body
+ * `stock` stays the item's total; the difference is made at this location.
+ *
+ * @param body - Item fields as sent by the client; `locationId` and `locationStock` are removed
+ * @returns The location, or the HTTP status and error to return
+ */
+async function takeStockLocation(body: any): Promise<{ location?: StockLocation } | { status: number; error: string }> {
+  // Stock by location only changes with stock movements
+  const locationId = body.locationId;
+  delete body.locationId;
+  delete body.locationStock;
+  
+  if (locationId === undefined || locationId === null || body.stock === undefined) {
+    return {};
+  }
+  return findStockLocation(locationId);
+}
+
 /**
  * Middleware to check if user has Administrator or Manager role
  * 
@@ -143,6 +644,11 @@ const isAdminOrManager = (req: Request, res: Response, next: NextFunction) => {
 export async function registerRoutes(app: Express): Promise<Server> {
   // API Routes for the Grocery Store Management System
   
+  // Resolve the current user from the session token on every API request,
+  // then reject requests without a valid session (except public endpoints)
+  app.use("/api", authenticate);
+  app.use("/api", requireAuth);
+  
   // Set up a static route to serve uploaded files
   app.use('/uploads', (req: Request, res: Response, next: NextFunction) => {
     // Security check to prevent directory traversal attacks
@@ -155,18 +661,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get dashboard stats
   app.get("/api/stats", async (req: Request, res: Response) => {
     try {
-      const stats = await fileStorage.getStats();
-      res.json(stats);
+      const filter = await findLocationFilter(req.query);
+      if ("error" in filter) {
+        return res.status(filter.status).json({ error: filter.error });
+      }
+      
+      res.json(await storage.getStats(filter.locationId));
     } catch (error) {
       console.error("Error fetching stats:", error);
       res.status(500).json({ error: "Failed to fetch dashboard statistics" });
     }
   });
 
+  // Notification Routes
+  // The current user's notifications, newest first
+  app.get("/api/notifications", async (req: Request, res: Response) => {
+    try {
+      const currentUser = getCurrentUser(req);
+      const notifications = notificationsFor(await storage.getNotifications(), currentUser);
+      res.json(notifications.map(notification => toView(notification, currentUser)));
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  // New notifications for the current user as they are raised, as Server-Sent Events
+  app.get("/api/notifications/stream", (req: Request, res: Response) => {
+    subscribe(getCurrentUser(req), res, req.sessionToken!);
+  });
+
+  // Mark notifications read; all of the current user's unless `ids` picks some
+  app.post("/api/notifications/read", async (req: Request, res: Response) => {
+    try {
+      const result = await markUserNotifications(getCurrentUser(req), req.body, "read");
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error, details: result.details });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ error: "Failed to update notifications" });
+    }
+  });
+
+  // Clear notifications from the current user's list; all of them unless `ids` picks some
+  app.post("/api/notifications/dismiss", async (req: Request, res: Response) => {
+    try {
+      const result = await markUserNotifications(getCurrentUser(req), req.body, "dismissed");
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error, details: result.details });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error clearing notifications:", error);
+      res.status(500).json({ error: "Failed to update notifications" });
+    }
+  });
+
   // Inventory Routes
   app.get("/api/inventory", async (req: Request, res: Response) => {
     try {
-      const items = await fileStorage.getInventory();
+      // Bundles show how many can be made up from their components, and what they cost
+      const items = withBundleDetails(await storage.getInventory());
       res.json(items);
     } catch (error) {
       console.error("Error fetching inventory:", error);
@@ -177,7 +734,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get inventory sorted by popularity
   app.get("/api/inventory/popular", async (req: Request, res: Response) => {
     try {
-      const items = await fileStorage.getInventoryByPopularity();
+      const items = withBundleDetails(await storage.getInventoryByPopularity());
       res.json(items);
     } catch (error) {
       console.error("Error fetching inventory by popularity:", error);
@@ -188,23 +745,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/inventory/:id", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const item = await fileStorage.getInventoryItem(id);
+      const item = await storage.getInventoryItem(id);
       
       if (!item) {
         return res.status(404).json({ error: "Item not found" });
       }
       
-      res.json(item);
+      res.json(isBundle(item) ? withBundleDetails(await storage.getInventory()).find(entry => entry.id === id) : item);
     } catch (error) {
       console.error("Error fetching inventory item:", error);
       res.status(500).json({ error: "Failed to fetch inventory item" });
     }
   });
 
-  // Product lookup by barcode
+  // Stock movement history for an item, newest first; kept after the item is deleted
+  app.get("/api/inventory/:id/movements", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const movements = await storage.getStockMovements(id);
+
+      if (movements.length === 0 && !(await storage.getInventoryItem(id))) {
+        return res.status(404).json({ error: "Item not found" });
+      }
+
+      res.json(movements.reverse());
+    } catch (error) {
+      console.error("Error fetching stock movements:", error);
+      res.status(500).json({ error: "Failed to fetch stock movements" });
+    }
+  });
+
+  // Product lookup by barcode: our own catalog first, then the free product databases
   app.get("/api/product-lookup/:barcode", async (req: Request, res: Response) => {
     try {
       const barcode = req.params.barcode;
+      
+      const match = resolveBarcode(withBundleDetails(await storage.getInventory()), barcode);
+      if (match) {
+        return res.json({
+          success: true,
+          source: "Inventory",
+          name: match.item.name,
+          category: match.item.category,
+          imageUrl: match.item.image,
+          productId: match.item.id,
+          packQuantity: match.packQuantity,
+          item: match.item
+        });
+      }
+      
       const productInfo = await lookupProductByBarcode(barcode);
       
       res.json(productInfo);
@@ -221,21 +810,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Basic validation
       const requiredFields = ['name', 'sku', 'category', 'stock', 'unit', 'price', 'priceUnit', 'threshold'];
       for (const field of requiredFields) {
-        if (!req.body[field]) {
+        // Zero is a valid opening stock or threshold, e.g. for a new variant
+        if (req.body[field] === undefined || req.body[field] === null || req.body[field] === '') {
           return res.status(400).json({ error: `Missing required field: ${field}` });
         }
       }
 
-      const newItem = await fileStorage.addInventoryItem(req.body);
+      const catalogProblem = await checkCatalogFields(req.body);
+      if (catalogProblem) {
+        const { status, ...body } = catalogProblem;
+        return res.status(status).json(body);
+      }
       
-      // Log inventory creation
+      const stockLot = takeStockLot(req.body);
+      if ("error" in stockLot) {
+        const { status, ...body } = stockLot;
+        return res.status(status).json(body);
+      }
+
+      const stockLocation = await takeStockLocation(req.body);
+      if ("error" in stockLocation) {
+        const { status, ...body } = stockLocation;
+        return res.status(status).json(body);
+      }
+
       const currentUser = getCurrentUser(req);
+      const newItem = await storage.addInventoryItem(req.body, {
+        type: "adjustment",
+        user: currentUser.username,
+        note: "Item created",
+        lot: stockLot.lot,
+        locationId: stockLocation.location?.id
+      });
+      
+      // Log inventory creation
       if (currentUser) {
         await ActivityLogger.logInventoryActivity(
           currentUser.id,
           currentUser.username,
           LOG_ACTIONS.INVENTORY.CREATE,
-          `Added item: ${newItem.name} (SKU: ${newItem.sku}), Quantity: ${newItem.stock} ${newItem.unit}`
+          isBundle(newItem)
+            ? `Added bundle: ${newItem.name} (SKU: ${newItem.sku}) of ${describeBundle(newItem, await storage.getInventory())}`
+            : `Added item: ${newItem.name} (SKU: ${newItem.sku}), Quantity: ${newItem.stock} ${newItem.unit}` +
+              (stockLocation.location ? ` at ${stockLocation.location.name}` : "")
         );
       }
       
@@ -249,7 +866,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/inventory/:id", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const originalItem = await fileStorage.getInventoryItem(id);
+      const originalItem = await storage.getInventoryItem(id);
       
       if (!originalItem) {
         return res.status(404).json({ error: "Item not found" });
@@ -275,8 +892,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Access denied: You don't have permission to update profit settings" });
       }
       
-      // Prevent Stocker role from changing item prices
-      const hasPriceUpdate = req.body.price !== undefined;
+      // Prevent Stocker role from changing item prices or tax status
+      const hasPriceUpdate = req.body.price !== undefined ||
+                           (req.body.taxExempt !== undefined && !!req.body.taxExempt !== !!originalItem.taxExempt);
       
       if (hasPriceUpdate && currentUser.role === "Stocker") {
         // Log the unauthorized attempt
@@ -289,7 +907,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Access denied: Stocker accounts cannot modify prices" });
       }
       
-      const updatedItem = await fileStorage.updateInventoryItem(id, req.body);
+      // Supplier links carry costs, so only managers maintain them
+      if (req.body.suppliers !== undefined) {
+        if (!isManagerRole(currentUser.role)) {
+          return res.status(403).json({ error: "Access denied: You don't have permission to update suppliers" });
+        }
+        const links = z.array(supplierLinkSchema).safeParse(req.body.suppliers);
+        if (!links.success) {
+          return res.status(400).json({ 
+            error: "Invalid supplier links", 
+            details: links.error.errors 
+          });
+        }
+        const supplierIds = new Set((await storage.getSuppliers()).map(supplier => supplier.id));
+        const linkedIds = links.data.map(link => link.supplierId);
+        if (linkedIds.some(supplierId => !supplierIds.has(supplierId))) {
+          return res.status(400).json({ error: "Supplier not found" });
+        }
+        if (new Set(linkedIds).size !== linkedIds.length) {
+          return res.status(400).json({ error: "Each supplier can only be linked once" });
+        }
+        req.body.suppliers = links.data;
+      }
+      
+      // A bundle's contents set its cost, so only managers change them
+      if (req.body.components !== undefined && !isManagerRole(currentUser.role) &&
+          JSON.stringify(req.body.components || []) !== JSON.stringify(originalItem.components || [])) {
+        return res.status(403).json({ error: "Access denied: You don't have permission to change bundle contents" });
+      }
+      
+      const catalogProblem = await checkCatalogFields(req.body, originalItem);
+      if (catalogProblem) {
+        const { status, ...body } = catalogProblem;
+        return res.status(status).json(body);
+      }
+      
+      const stockLot = takeStockLot(req.body);
+      if ("error" in stockLot) {
+        const { status, ...body } = stockLot;
+        return res.status(status).json(body);
+      }
+      
+      const stockLocation = await takeStockLocation(req.body);
+      if ("error" in stockLocation) {
+        const { status, ...body } = stockLocation;
+        return res.status(status).json(body);
+      }
+      
+      const updatedItem = await storage.updateInventoryItem(id, req.body, {
+        type: "adjustment",
+        user: currentUser.username,
+        lot: stockLot.lot,
+        locationId: stockLocation.location?.id
+      });
       
       if (!updatedItem) {
         return res.status(404).json({ error: "Failed to update item" });
@@ -301,6 +971,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Check for specific important changes
       if (req.body.stock !== undefined && originalItem.stock !== req.body.stock) {
         details += `, Stock changed from ${originalItem.stock} to ${req.body.stock}`;
+        if (stockLocation.location) {
+          details += ` at ${stockLocation.location.name}`;
+        }
       }
       if (req.body.price !== undefined && originalItem.price !== req.body.price) {
         details += `, Price changed from ${originalItem.price} to ${req.body.price}`;
@@ -308,6 +981,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (req.body.threshold !== undefined && originalItem.threshold !== req.body.threshold) {
         details += `, Threshold changed from ${originalItem.threshold} to ${req.body.threshold}`;
       }
+      if (req.body.taxExempt !== undefined && !!originalItem.taxExempt !== !!req.body.taxExempt) {
+        details += `, Tax exempt ${req.body.taxExempt ? "enabled" : "disabled"}`;
+      }
+      if (JSON.stringify(updatedItem.components || []) !== JSON.stringify(originalItem.components || [])) {
+        details += isBundle(updatedItem)
+          ? `, Bundle contents set to ${describeBundle(updatedItem, await storage.getInventory())}`
+          : ", No longer a bundle";
+      }
       // Log profit-related changes
       if (req.body.costPrice !== undefined) {
         const oldCost = originalItem.costPrice || "not set";
@@ -320,6 +1001,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (req.body.profitType !== undefined && originalItem.profitType !== req.body.profitType) {
         details += `, Profit type changed from ${originalItem.profitType || "not set"} to ${req.body.profitType}`;
       }
+      if (req.body.suppliers !== undefined) {
+        details += `, Suppliers updated (${req.body.suppliers.length} linked)`;
+      }
+      if (req.body.barcodes !== undefined) {
+        details += `, Barcodes updated (${itemBarcodes(updatedItem).length} in use)`;
+      }
+      if ("variantGroupId" in req.body && originalItem.variantGroupId !== updatedItem.variantGroupId) {
+        details += updatedItem.variantGroupId
+          ? `, Added to variant group ${updatedItem.variantGroupId}`
+          : `, Removed from variant group ${originalItem.variantGroupId}`;
+      }
       
       await ActivityLogger.logInventoryActivity(
         currentUser.id,
@@ -327,8 +1019,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         LOG_ACTIONS.INVENTORY.UPDATE,
         details
       );
+      await notifyLowStock([originalItem], [id]);
       
       res.json(updatedItem);
+      checkAlertRules();
     } catch (error) {
       console.error("Error updating inventory item:", error);
       res.status(500).json({ error: "Failed to update inventory item" });
@@ -355,13 +1049,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Get the item before deleting to include in the log
-      const item = await fileStorage.getInventoryItem(id);
+      const item = await storage.getInventoryItem(id);
       
       if (!item) {
         return res.status(404).json({ error: "Item not found" });
       }
       
-      const success = await fileStorage.deleteInventoryItem(id);
+      // Bundles would be left unable to sell
+      const containing = bundlesContaining(id, await storage.getInventory());
+      if (containing.length > 0) {
+        return res.status(409).json({ 
+          error: `${item.name} goes into ${containing.map(bundle => bundle.name).join(", ")}; remove it from those bundles first` 
+        });
+      }
+      
+      const success = await storage.deleteInventoryItem(id);
       
       if (!success) {
         return res.status(404).json({ error: "Failed to delete item" });
@@ -509,10 +1211,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log("Generated logo URL:", logoUrl);
       
       // Update store settings with the new logo URL
-      const storeSettings = await fileStorage.getStoreSettings();
+      const storeSettings = await storage.getStoreSettings();
       console.log("Current store settings:", storeSettings);
       
-      await fileStorage.updateStoreSettings({
+      await storage.updateStoreSettings({
         ...storeSettings,
         storeLogo: logoUrl
       });
@@ -561,14 +1263,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         created: number;
         failed: number;
         errors: string[];
+        categoriesCreated: string[];
       } = {
         updated: 0,
         created: 0,
         failed: 0,
-        errors: []
+        errors: [],
+        categoriesCreated: []
       };
       
-      const inventoryItems = await fileStorage.getInventory();
+      const inventoryItems = await storage.getInventory();
+      const categories = await storage.getCategories();
+      
+      // Get information about the current user who is making the change
+      const currentUser = getCurrentUser(req);
+      const stockChange = { type: "import" as const, user: currentUser.username, note: "Bulk import" };
       
       // Process each item in the CSV
       for (const item of items) {
@@ -614,16 +1323,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
             barcode: normalizedItem.barcode || ''
           };
           
+          // Categories not on the list yet are added at the top level
+          let category = findCategory(categories, String(cleanedItem.category));
+          if (!category) {
+            category = await storage.addCategory({ name: tidyCategoryName(String(cleanedItem.category)) });
+            categories.push(category);
+            results.categoriesCreated.push(category.name);
+          }
+          cleanedItem.category = category.name;
+          
           // Check if item with SKU already exists
           const existingItem = inventoryItems.find(i => i.sku === cleanedItem.sku);
           
+          // A bundle's stock comes from its components
+          if (existingItem && isBundle(existingItem)) {
+            results.failed++;
+            results.errors.push(`Item with SKU ${cleanedItem.sku}: ${existingItem.name} is a bundle; import its components' stock instead`);
+            continue;
+          }
+          
           if (existingItem) {
             console.log(`Updating existing item with SKU: ${cleanedItem.sku}`);
             // Update existing item
-            const updatedItem = await fileStorage.updateInventoryItem(existingItem.id, {
+            const updatedItem = await storage.updateInventoryItem(existingItem.id, {
               ...cleanedItem,
               status: cleanedItem.stock < cleanedItem.threshold ? 'Low Stock' : 'In Stock'
-            });
+            }, stockChange);
             
             if (updatedItem) {
               results.updated++;
@@ -634,10 +1359,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           } else {
             console.log(`Creating new item with SKU: ${cleanedItem.sku}`);
             // Create new item
-            const newItem = await fileStorage.addInventoryItem({
+            const newItem = await storage.addInventoryItem({
               ...cleanedItem,
               status: cleanedItem.stock < cleanedItem.threshold ? 'Low Stock' : 'In Stock'
-            });
+            }, stockChange);
             
             if (newItem) {
               results.created++;
@@ -653,11 +1378,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // Get information about the current user who is making the change
-      const currentUser = getCurrentUser(req);
-      
       // Log the bulk inventory import activity
-      const details = `Bulk import: ${results.created} created, ${results.updated} updated, ${results.failed} failed`;
+      let details = `Bulk import: ${results.created} created, ${results.updated} updated, ${results.failed} failed`;
+      if (results.categoriesCreated.length > 0) {
+        details += `, New categories: ${results.categoriesCreated.join(", ")}`;
+      }
       
       await ActivityLogger.logInventoryActivity(
         currentUser.id,
@@ -676,7 +1401,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Sales Routes
   app.get("/api/sales", async (req: Request, res: Response) => {
     try {
-      const sales = await fileStorage.getSales();
+      const sales = await storage.getSales();
       res.json(sales);
     } catch (error) {
       console.error("Error fetching sales:", error);
@@ -684,49 +1409,135 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/sales/:id", async (req: Request, res: Response) => {
+  // Tax collected, grouped by category and rate
+  app.get("/api/reports/tax-summary", isAdminOrManager, async (req: Request, res: Response) => {
     try {
-      const id = req.params.id;
-      const sale = await fileStorage.getSale(id);
+      const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
       
-      if (!sale) {
-        return res.status(404).json({ error: "Sale not found" });
+      if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+        return res.status(400).json({ error: "Invalid date range" });
       }
       
-      res.json(sale);
+      const sales = await storage.getSales();
+      res.json(summarizeTaxCollected(sales, startDate, endDate));
     } catch (error) {
-      console.error("Error fetching sale:", error);
-      res.status(500).json({ error: "Failed to fetch sale data" });
+      console.error("Error building tax summary:", error);
+      res.status(500).json({ error: "Failed to build tax summary" });
     }
   });
-  
-  // Refund a sale transaction
-  app.post("/api/sales/:id/refund", async (req: Request, res: Response) => {
+
+  // Differences found by posted stock counts, valued at cost
+  app.get("/api/reports/count-variance", isAdminOrManager, async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
+      const countId = req.query.countId ? parseInt(req.query.countId as string) : undefined;
+      const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
       
-      // Get current user for logging and tracking who processed the refund
-      const currentUser = getCurrentUser(req);
-      
-      // Process the refund
-      const refundedSale = await fileStorage.refundSale(id, currentUser.username);
-      
-      if (!refundedSale) {
-        return res.status(404).json({ error: "Sale not found or already refunded" });
+      if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+        return res.status(400).json({ error: "Invalid date range" });
+      }
+      if (countId !== undefined && isNaN(countId)) {
+        return res.status(400).json({ error: "Invalid count" });
       }
       
-      // Log the refund activity
-      const details = `Refunded transaction: ID ${id}, Total: $${refundedSale.amount.toFixed(2)}, Items returned to inventory`;
+      const counts = await storage.getStockCounts();
+      res.json(summarizeCountVariances(counts, countId, startDate, endDate));
+    } catch (error) {
+      console.error("Error building count variance report:", error);
+      res.status(500).json({ error: "Failed to build count variance report" });
+    }
+  });
+
+  // End-of-day takings by tender; defaults to today
+  app.get("/api/reports/tender-summary", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      let startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
+      
+      if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+        return res.status(400).json({ error: "Invalid date range" });
+      }
+      
+      if (!startDate && !endDate) {
+        startDate = new Date();
+        startDate.setHours(0, 0, 0, 0);
+      }
+      
+      const sales = await storage.getSales();
+      res.json(summarizeTenders(sales, { startDate, endDate }));
+    } catch (error) {
+      console.error("Error building tender summary:", error);
+      res.status(500).json({ error: "Failed to build tender summary" });
+    }
+  });
+
+  app.get("/api/sales/:id", async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id;
+      const sale = await storage.getSale(id);
+      
+      if (!sale) {
+        return res.status(404).json({ error: "Sale not found" });
+      }
+      
+      res.json(sale);
+    } catch (error) {
+      console.error("Error fetching sale:", error);
+      res.status(500).json({ error: "Failed to fetch sale data" });
+    }
+  });
+  
+  // Return some or all of a sale; without `lines` everything still returnable is refunded
+  app.post("/api/sales/:id/refund", async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const validation = refundRequestSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid refund", details: validation.error.errors });
+      }
+      const refund = validation.data;
+      
+      // Get current user for logging and tracking who processed the refund
+      const currentUser = getCurrentUser(req);
+      
+      // Process the refund; it is paid out of the drawer of whoever processes it
+      const shift = await storage.getOpenShift(currentUser.id);
+      const refundedSale = await storage.refundSale(id, refund, currentUser.username, shift?.id);
+      
+      if (!refundedSale) {
+        return res.status(404).json({ error: "Sale not found or already refunded" });
+      }
+      
+      // Log the refund activity
+      const saleReturn = refundedSale.returns![refundedSale.returns!.length - 1];
+      const returnedItems = saleReturn.lines
+        .map(line => `${line.quantity} x ${line.name}${line.restocked ? '' : ' (to losses)'}`)
+        .join(', ');
+      const details = `Refunded transaction: ID ${id}, Return #${saleReturn.id}, Items: ${returnedItems}, ` +
+        `Reason: ${REFUND_REASON_LABELS[saleReturn.reason]}, ` +
+        `Refund: $${saleReturn.amount.toFixed(2)} (${TENDER_LABELS[saleReturn.tender]})` +
+        (refundedSale.status === 'Refunded' ? ', Sale fully refunded' : '');
       
       await ActivityLogger.logSalesActivity(
         currentUser.id,
         currentUser.username,
-        LOG_ACTIONS.SALES.REFUND,
+        refundedSale.status === 'Refunded' ? LOG_ACTIONS.SALES.REFUND : LOG_ACTIONS.SALES.PARTIAL_REFUND,
         details
       );
+      await notifyLargeRefund(refundedSale, saleReturn.amount, currentUser.name);
       
       res.json(refundedSale);
+      checkAlertRules();
     } catch (error) {
+      if (error instanceof ReturnQuantityError) {
+        return res.status(409).json({
+          error: "Cannot return these items",
+          message: error.lineErrors.map(lineError => lineError.message).join('; '),
+          lineErrors: error.lineErrors
+        });
+      }
       console.error("Error refunding sale:", error);
       res.status(500).json({ error: "Failed to process refund" });
     }
@@ -734,80 +1545,1949 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/sales", async (req: Request, res: Response) => {
     try {
+      // Tills send a key of their choosing so a retried sale is only recorded once
+      const idempotencyKey = req.get("Idempotency-Key");
+      if (idempotencyKey !== undefined && !/^[\w-]{8,100}$/.test(idempotencyKey)) {
+        return res.status(400).json({ error: "Invalid idempotency key" });
+      }
+      if (idempotencyKey) {
+        const recorded = await storage.getSaleByIdempotencyKey(idempotencyKey);
+        if (recorded) {
+          // Already recorded: answer as the first time, even if prices or the shift have changed since
+          return res.status(200).json(recorded);
+        }
+      }
+
+      if (req.body.offline !== undefined) {
+        const parsed = offlineSaleSchema.safeParse(req.body.offline);
+        if (!parsed.success) {
+          return res.status(400).json({ error: "Invalid offline sale details", details: parsed.error.errors });
+        }
+        if (!idempotencyKey) {
+          return res.status(400).json({ error: "Sales rung up offline must be sent with an idempotency key" });
+        }
+        const result = await recordOfflineSale(getCurrentUser(req), parsed.data, req.body.tenders, idempotencyKey);
+        return res.status(result.status).json(result.body);
+      }
+
       // Basic validation
-      if (!req.body.cashier || !req.body.amount || !req.body.items || !Array.isArray(req.body.items)) {
+      if (!req.body.items || !Array.isArray(req.body.items) || req.body.items.length === 0) {
         return res.status(400).json({ error: "Missing required fields" });
       }
 
-      const newSale = await fileStorage.addSale(req.body);
+      const currentUser = getCurrentUser(req);
+      const allowNegativeStock = req.body.allowNegativeStock === true;
       
-      // Update sales in stats
-      const stats = await fileStorage.getStats();
-      await fileStorage.updateStats({ 
-        todaySales: stats.todaySales + req.body.amount 
-      });
+      if (allowNegativeStock && !canOverrideStock(currentUser)) {
+        return res.status(403).json({ 
+          error: "Access denied",
+          message: "Only managers can sell more than is in stock"
+        });
+      }
       
-      // Update inventory stock levels
-      for (const item of req.body.items) {
-        const inventoryItem = await fileStorage.getInventoryItem(item.productId);
-        if (inventoryItem) {
-          const newStock = Math.max(0, inventoryItem.stock - item.quantity);
-          await fileStorage.updateInventoryItem(item.productId, { 
-            stock: newStock 
-          });
-          
-          // Check if this change affects low stock status
-          if (inventoryItem.stock > inventoryItem.threshold && newStock <= inventoryItem.threshold) {
-            // Item just went below threshold, increment lowStockItems
-            await fileStorage.updateStats({ 
-              lowStockItems: stats.lowStockItems + 1 
-            });
-          }
+      // Every sale belongs to the cashier's open shift so the drawer can be reconciled
+      const shift = await storage.getOpenShift(currentUser.id);
+      if (!shift) {
+        return res.status(409).json({
+          error: "No open shift",
+          message: "Open a shift before ringing up sales",
+          shiftRequired: true
+        });
+      }
+      
+      let cartDiscount;
+      if (req.body.cartDiscount) {
+        const parsed = manualDiscountSchema.safeParse(req.body.cartDiscount);
+        if (!parsed.success) {
+          return res.status(400).json({ error: "Invalid cart discount", details: parsed.error.errors });
         }
+        cartDiscount = parsed.data;
       }
       
-      // Get information about the current user who is making the change
-      const userInfoHeader = req.headers["user-info"];
-      let currentUser = { id: 0, username: "unknown" };
+      const tenderValidation = z.array(tenderSchema).safeParse(req.body.tenders ?? []);
+      if (!tenderValidation.success) {
+        return res.status(400).json({ error: "Invalid tenders", details: tenderValidation.error.errors });
+      }
+      const tenders = tenderValidation.data;
       
-      if (userInfoHeader) {
-        try {
-          currentUser = JSON.parse(userInfoHeader as string);
-        } catch (e) {
-          console.error("Error parsing user info:", e);
+      // Price every line from the catalog rather than trusting client prices
+      const inventory = await storage.getInventory();
+      const settings = await storage.getStoreSettings();
+      const promotions = await storage.getPromotions();
+      const priced = priceSaleItems(
+        { items: req.body.items, amount: req.body.amount, cartDiscount },
+        { inventory, promotions, taxSettings: settings }
+      );
+      
+      if (priced.lineErrors.length > 0 || priced.amountMismatch) {
+        return res.status(400).json({
+          error: "Sale does not match current prices",
+          lineErrors: priced.lineErrors,
+          amountMismatch: priced.amountMismatch
+        });
+      }
+      
+      // The tenders must cover the server's total; only cash may be over-tendered
+      const settlement = settleTenders(tenders, priced.amount);
+      if (settlement.error) {
+        return res.status(400).json({
+          error: "Payment does not cover the sale",
+          message: settlement.error,
+          balanceDue: settlement.balanceDue
+        });
+      }
+      
+      // Price overrides and manual discounts need a manager: either the signed-in user or one who approves at the till
+      let approver: string | undefined;
+      if (priced.hasPriceOverrides || priced.hasManualDiscounts) {
+        if (isManagerRole(currentUser.role)) {
+          approver = currentUser.username;
+        } else {
+          const approval = await verifyManagerApproval(req.body.managerApproval, req.ip);
+          if ("error" in approval) {
+            return res.status(approval.status).json({ error: approval.error, approvalRequired: true });
+          }
+          approver = approval.approver.username;
         }
+        
+        priced.items.forEach(item => {
+          if (item.listPrice !== undefined) {
+            item.overrideApprovedBy = approver;
+          }
+        });
+      }
+      
+      // Refuse to oversell unless a manager explicitly overrides
+      // Sales come out of the stock at the location the shift was opened at
+      const locationId = locationOf(shift);
+      const shortages = findStockShortages(priced.items, inventory, locationId);
+      if (shortages.length > 0 && !allowNegativeStock) {
+        return res.status(409).json({
+          error: "Insufficient stock",
+          lineErrors: shortages,
+          canOverride: canOverrideStock(currentUser)
+        });
       }
+
+      // Record the sale under the server-verified cashier identity
+      // Stock levels are updated in the same transaction
+      const newSale = await storage.addSale({
+        items: priced.items,
+        subtotal: priced.subtotal,
+        ...(priced.discount > 0 ? { discount: priced.discount } : {}),
+        ...(priced.cartDiscount ? { cartDiscount: priced.cartDiscount } : {}),
+        tax: priced.tax,
+        amount: priced.amount,
+        tenders,
+        ...(settlement.change > 0 ? { change: settlement.change } : {}),
+        ...(priced.hasManualDiscounts ? { discountApprovedBy: approver } : {}),
+        shiftId: shift.id,
+        locationId,
+        ...(idempotencyKey ? { idempotencyKey } : {}),
+        status: "Completed",
+        cashier: currentUser.name
+      }, { user: currentUser.username, allowNegativeStock });
       
       // Log the sales activity
-      let itemsList = "";
       let totalItems = 0;
       
       newSale.items.forEach(item => {
         totalItems += item.quantity;
       });
       
-      const details = `Sale completed: ID ${newSale.id}, Total: $${newSale.amount.toFixed(2)}, Items: ${totalItems}`;
+      let details = `Sale completed: ID ${newSale.id}, Total: $${newSale.amount.toFixed(2)} (Tax: $${priced.tax.toFixed(2)}), Items: ${totalItems}`;
+      if (priced.discount > 0) {
+        details += `, Discounts: $${priced.discount.toFixed(2)}`;
+      }
+      if (tenders.length > 0) {
+        details += `, Paid: ${describeTenders(tenders)}`;
+      }
+      if (settlement.change > 0) {
+        details += `, Change: $${settlement.change.toFixed(2)}`;
+      }
+      if (priced.hasPriceOverrides) {
+        const overrides = priced.items.filter(item => item.listPrice !== undefined);
+        details += ` | Price override approved by ${approver}: ${overrides.map(item => 
+          `${item.name} $${item.listPrice!.toFixed(2)} -> $${item.price.toFixed(2)}`).join(", ")}`;
+      }
+      if (priced.hasManualDiscounts) {
+        details += ` | Discounts approved by ${approver}`;
+      }
+      if (shortages.length > 0) {
+        details += ` | Negative stock override: ${shortages.map(line => line.name).join(", ")}`;
+      }
+      
+      await ActivityLogger.logSalesActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.SALES.CREATE,
+        details
+      );
+      await notifyLowStock(inventory, newSale.items.flatMap(item => stockTaken(item).map(part => part.productId)));
+      
+      res.status(201).json(newSale);
+      checkAlertRules();
+    } catch (error) {
+      // Stock changed between the check above and the commit
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({
+          error: "Insufficient stock",
+          lineErrors: error.lineErrors,
+          canOverride: canOverrideStock(getCurrentUser(req))
+        });
+      }
+      // A retry of the same sale was recorded while this one was being checked
+      if (error instanceof DuplicateSaleError) {
+        return res.status(200).json(error.sale);
+      }
+      console.error("Error adding sale:", error);
+      res.status(500).json({ error: "Failed to add sale" });
+    }
+  });
+
+  // Promotion Routes
+  app.get("/api/promotions", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const promotions = await storage.getPromotions();
+      res.json(promotions);
+    } catch (error) {
+      console.error("Error fetching promotions:", error);
+      res.status(500).json({ error: "Failed to fetch promotions" });
+    }
+  });
+  
+  // Promotions currently in effect, used by the POS to preview discounts
+  app.get("/api/promotions/active", async (req: Request, res: Response) => {
+    try {
+      const promotions = await storage.getPromotions();
+      res.json(promotions.filter(promotion => isPromotionActive(promotion)));
+    } catch (error) {
+      console.error("Error fetching active promotions:", error);
+      res.status(500).json({ error: "Failed to fetch active promotions" });
+    }
+  });
+  
+  app.post("/api/promotions", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const validation = insertPromotionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid promotion", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      const promotion = await storage.addPromotion({
+        ...validation.data,
+        createdBy: currentUser.username,
+        createdAt: new Date().toISOString()
+      });
+      
+      await ActivityLogger.logSalesActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.SALES.PROMOTION_CREATE,
+        `Created promotion: ${promotion.name} (ID: ${promotion.id}, Type: ${promotion.type})`
+      );
+      
+      res.status(201).json(promotion);
+    } catch (error) {
+      console.error("Error creating promotion:", error);
+      res.status(500).json({ error: "Failed to create promotion" });
+    }
+  });
+  
+  app.put("/api/promotions/:id", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getPromotion(id);
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Promotion not found" });
+      }
+      
+      // The promotion form sends every field, replacing the old ones; other
+      // callers (such as the active toggle) send only the fields that change
+      const { id: _id, createdBy, createdAt, ...current } = existing;
+      const fullEdit = req.body.type !== undefined;
+      const validation = insertPromotionSchema.safeParse(
+        fullEdit ? { active: existing.active, ...req.body } : { ...current, ...req.body }
+      );
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid promotion", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const cleared = fullEdit
+        ? Object.fromEntries(Object.keys(current).map(key => [key, undefined]))
+        : {};
+      const promotion = await storage.updatePromotion(id, { ...cleared, ...validation.data });
+      if (!promotion) {
+        return res.status(404).json({ error: "Promotion not found" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      let details = `Updated promotion: ${promotion.name} (ID: ${promotion.id})`;
+      if (existing.active !== promotion.active) {
+        details += `, ${promotion.active ? "Enabled" : "Disabled"}`;
+      }
+      
+      await ActivityLogger.logSalesActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.SALES.PROMOTION_UPDATE,
+        details
+      );
+      
+      res.json(promotion);
+    } catch (error) {
+      console.error("Error updating promotion:", error);
+      res.status(500).json({ error: "Failed to update promotion" });
+    }
+  });
+  
+  app.delete("/api/promotions/:id", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const promotion = await storage.getPromotion(id);
+      
+      if (!promotion || !(await storage.deletePromotion(id))) {
+        return res.status(404).json({ error: "Promotion not found" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      await ActivityLogger.logSalesActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.SALES.PROMOTION_DELETE,
+        `Deleted promotion: ${promotion.name} (ID: ${promotion.id})`
+      );
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting promotion:", error);
+      res.status(500).json({ error: "Failed to delete promotion" });
+    }
+  });
+
+  // Shift Routes
+  app.get("/api/shifts", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const shifts = await storage.getShifts();
+      res.json(shifts.slice().reverse());
+    } catch (error) {
+      console.error("Error fetching shifts:", error);
+      res.status(500).json({ error: "Failed to fetch shifts" });
+    }
+  });
+  
+  // The signed-in user's open shift, or null
+  // Open shifts carry no expected cash, so the closing count stays blind
+  app.get("/api/shifts/current", async (req: Request, res: Response) => {
+    try {
+      const shift = await storage.getOpenShift(getCurrentUser(req).id);
+      res.json(shift || null);
+    } catch (error) {
+      console.error("Error fetching current shift:", error);
+      res.status(500).json({ error: "Failed to fetch current shift" });
+    }
+  });
+  
+  app.post("/api/shifts", async (req: Request, res: Response) => {
+    try {
+      const validation = openShiftSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid opening float", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const found = await findStockLocation(validation.data.locationId);
+      if ("error" in found) {
+        return res.status(found.status).json({ error: found.error });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      const shift = await storage.openShift({
+        userId: currentUser.id,
+        cashier: currentUser.name,
+        openingFloat: validation.data.openingFloat,
+        locationId: found.location.id
+      });
+      
+      if (!shift) {
+        return res.status(409).json({ error: "You already have an open shift" });
+      }
+      
+      await ActivityLogger.logShiftActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.SHIFTS.OPEN,
+        `Opened shift ${shift.id} at ${found.location.name} with a float of $${shift.openingFloat.toFixed(2)}`
+      );
+      
+      res.status(201).json(shift);
+    } catch (error) {
+      console.error("Error opening shift:", error);
+      res.status(500).json({ error: "Failed to open shift" });
+    }
+  });
+  
+  // Paid-ins, paid-outs and cash drops
+  app.post("/api/shifts/:id/movements", async (req: Request, res: Response) => {
+    try {
+      const validation = cashMovementSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid cash movement", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      const shift = await storage.getShift(parseInt(req.params.id));
+      
+      if (!shift) {
+        return res.status(404).json({ error: "Shift not found" });
+      }
+      if (!canManageShift(currentUser, shift)) {
+        return res.status(403).json({ error: "Access denied: this is another cashier's shift" });
+      }
+      
+      const movement = validation.data;
+      const updated = await storage.addCashMovement(shift.id, { ...movement, recordedBy: currentUser.name });
+      if (!updated) {
+        return res.status(409).json({ error: "Shift is already closed" });
+      }
+      
+      const actions = {
+        paid_in: LOG_ACTIONS.SHIFTS.PAID_IN,
+        paid_out: LOG_ACTIONS.SHIFTS.PAID_OUT,
+        drop: LOG_ACTIONS.SHIFTS.DROP
+      };
+      await ActivityLogger.logShiftActivity(
+        currentUser.id,
+        currentUser.username,
+        actions[movement.type],
+        `Shift ${shift.id}: $${movement.amount.toFixed(2)} - ${movement.reason}`
+      );
+      
+      res.status(201).json(updated);
+    } catch (error) {
+      console.error("Error recording cash movement:", error);
+      res.status(500).json({ error: "Failed to record cash movement" });
+    }
+  });
+  
+  // X report for an open shift, Z report for a closed one
+  app.get("/api/shifts/:id/report", async (req: Request, res: Response) => {
+    try {
+      const currentUser = getCurrentUser(req);
+      const shift = await storage.getShift(parseInt(req.params.id));
+      
+      if (!shift) {
+        return res.status(404).json({ error: "Shift not found" });
+      }
+      
+      // The X report shows expected cash, so cashiers can't see it before their blind count
+      const allowed = shift.status === "open" 
+        ? isManagerRole(currentUser.role) 
+        : canManageShift(currentUser, shift);
+      if (!allowed) {
+        return res.status(403).json({ error: "Access denied: you don't have permission to view this report" });
+      }
+      
+      const report = buildShiftReport(shift, await storage.getSales());
+      
+      if (report.type === "X") {
+        await ActivityLogger.logShiftActivity(
+          currentUser.id,
+          currentUser.username,
+          LOG_ACTIONS.SHIFTS.X_REPORT,
+          `X report for shift ${shift.id} (${shift.cashier}): Sales $${report.grossSales.toFixed(2)}, Expected cash $${report.expectedCash.toFixed(2)}`
+        );
+      }
+      
+      res.json(report);
+    } catch (error) {
+      console.error("Error building shift report:", error);
+      res.status(500).json({ error: "Failed to build shift report" });
+    }
+  });
+  
+  // Close with a blind count and return the Z report
+  app.post("/api/shifts/:id/close", async (req: Request, res: Response) => {
+    try {
+      const validation = closeShiftSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid cash count", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      const shift = await storage.getShift(parseInt(req.params.id));
+      
+      if (!shift) {
+        return res.status(404).json({ error: "Shift not found" });
+      }
+      if (!canManageShift(currentUser, shift)) {
+        return res.status(403).json({ error: "Access denied: this is another cashier's shift" });
+      }
+      if (shift.status !== "open") {
+        return res.status(409).json({ error: "Shift is already closed" });
+      }
+      
+      const sales = await storage.getSales();
+      const { expectedCash } = buildShiftReport(shift, sales);
+      const { countedCash, notes } = validation.data;
+      const variance = roundCurrency(countedCash - expectedCash);
+      
+      const closed = await storage.closeShift(shift.id, {
+        closedBy: currentUser.name,
+        countedCash,
+        expectedCash,
+        variance,
+        ...(notes ? { closingNotes: notes } : {})
+      });
+      if (!closed) {
+        return res.status(409).json({ error: "Shift is already closed" });
+      }
+      
+      const report = buildShiftReport(closed, sales);
+      
+      let details = `Closed shift ${shift.id} (${shift.cashier}): Counted $${countedCash.toFixed(2)}, Expected $${expectedCash.toFixed(2)}`;
+      if (report.varianceFlagged) {
+        details += `, Variance ${variance > 0 ? "over" : "short"} $${Math.abs(variance).toFixed(2)}`;
+      }
+      await ActivityLogger.logShiftActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.SHIFTS.CLOSE,
+        details
+      );
+      await notifyShiftVariance(closed);
+      
+      res.json(report);
+      checkAlertRules();
+    } catch (error) {
+      console.error("Error closing shift:", error);
+      res.status(500).json({ error: "Failed to close shift" });
+    }
+  });
+
+  // Variant Group Routes
+  // Each group is listed with its variants
+  app.get("/api/variant-groups", async (req: Request, res: Response) => {
+    try {
+      const [groups, inventory] = await Promise.all([storage.getVariantGroups(), storage.getInventory()]);
+      res.json(groups.map(group => ({
+        ...group,
+        variants: inventory.filter(item => item.variantGroupId === group.id)
+      })));
+    } catch (error) {
+      console.error("Error fetching variant groups:", error);
+      res.status(500).json({ error: "Failed to fetch variant groups" });
+    }
+  });
+  
+  app.post("/api/variant-groups", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const validation = insertVariantGroupSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid variant group", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const category = findCategory(await storage.getCategories(), validation.data.category);
+      if (!category) {
+        return res.status(400).json({ error: `Category ${validation.data.category} not found` });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      const group = await storage.addVariantGroup({ ...validation.data, category: category.name });
+      
+      await ActivityLogger.logInventoryActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.INVENTORY.VARIANT_GROUP_CREATE,
+        `Created variant group: ${group.name} (ID: ${group.id}), Attributes: ${group.attributes.join(", ")}`
+      );
+      
+      res.status(201).json({ ...group, variants: [] });
+    } catch (error) {
+      console.error("Error creating variant group:", error);
+      res.status(500).json({ error: "Failed to create variant group" });
+    }
+  });
+  
+  app.put("/api/variant-groups/:id", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getVariantGroup(id);
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Variant group not found" });
+      }
+      
+      const validation = insertVariantGroupSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid variant group", 
+          details: validation.error.errors 
+        });
+      }
+      
+      // Every variant has a value for each attribute, so the attributes are fixed once variants exist
+      const variants = (await storage.getInventory()).filter(item => item.variantGroupId === id);
+      if (variants.length > 0 && validation.data.attributes.join("\n") !== existing.attributes.join("\n")) {
+        return res.status(409).json({ 
+          error: `${existing.name} has ${variants.length} variant(s), so its attributes can't be changed` 
+        });
+      }
+      
+      const category = findCategory(await storage.getCategories(), validation.data.category);
+      if (!category) {
+        return res.status(400).json({ error: `Category ${validation.data.category} not found` });
+      }
+      
+      const { id: _id, ...current } = existing;
+      const cleared = Object.fromEntries(Object.keys(current).map(key => [key, undefined]));
+      const group = await storage.updateVariantGroup(id, { ...cleared, ...validation.data, category: category.name });
+      if (!group) {
+        return res.status(404).json({ error: "Variant group not found" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      await ActivityLogger.logInventoryActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.INVENTORY.VARIANT_GROUP_UPDATE,
+        `Updated variant group: ${group.name} (ID: ${group.id})`
+      );
+      
+      res.json({ ...group, variants });
+    } catch (error) {
+      console.error("Error updating variant group:", error);
+      res.status(500).json({ error: "Failed to update variant group" });
+    }
+  });
+  
+  // Deleting a group keeps its variants as standalone items
+  app.delete("/api/variant-groups/:id", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const group = await storage.getVariantGroup(id);
+      
+      if (!group || !(await storage.deleteVariantGroup(id))) {
+        return res.status(404).json({ error: "Variant group not found" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      await ActivityLogger.logInventoryActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.INVENTORY.VARIANT_GROUP_DELETE,
+        `Deleted variant group: ${group.name} (ID: ${group.id})`
+      );
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting variant group:", error);
+      res.status(500).json({ error: "Failed to delete variant group" });
+    }
+  });
+
+  // Category Routes
+  // Each category is listed with how many items are filed directly under it
+  app.get("/api/categories", async (req: Request, res: Response) => {
+    try {
+      const [categories, inventory] = await Promise.all([storage.getCategories(), storage.getInventory()]);
+      res.json(categories.map(category => ({
+        ...category,
+        itemCount: inventory.filter(item => findCategory([category], item.category)).length
+      })));
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+      res.status(500).json({ error: "Failed to fetch categories" });
+    }
+  });
+  
+  app.post("/api/categories", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const validation = insertCategorySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid category", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const data = { ...validation.data, name: tidyCategoryName(validation.data.name) };
+      const problem = findCategoryProblem(data, await storage.getCategories());
+      if (problem) {
+        return res.status(409).json({ error: problem });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      const category = await storage.addCategory(data);
+      
+      await ActivityLogger.logInventoryActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.INVENTORY.CATEGORY_CREATE,
+        `Created category: ${category.name} (ID: ${category.id})`
+      );
+      
+      res.status(201).json({ ...category, itemCount: 0 });
+    } catch (error) {
+      console.error("Error creating category:", error);
+      res.status(500).json({ error: "Failed to create category" });
+    }
+  });
+  
+  // Renaming a category re-files its items, variant groups, promotions and alert rules under the new name
+  app.put("/api/categories/:id", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getCategory(id);
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      
+      const validation = insertCategorySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid category", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const data = { ...validation.data, name: tidyCategoryName(validation.data.name) };
+      const problem = findCategoryProblem(data, await storage.getCategories(), id);
+      if (problem) {
+        return res.status(409).json({ error: problem });
+      }
+      
+      const { id: _id, ...current } = existing;
+      const cleared = Object.fromEntries(Object.keys(current).map(key => [key, undefined]));
+      const category = await storage.updateCategory(id, { ...cleared, ...data });
+      if (!category) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      let details = `Updated category: ${existing.name} (ID: ${id})`;
+      if (category.name !== existing.name) {
+        details += `, Renamed to ${category.name}`;
+      }
+      await ActivityLogger.logInventoryActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.INVENTORY.CATEGORY_UPDATE,
+        details
+      );
+      
+      const inventory = await storage.getInventory();
+      res.json({ ...category, itemCount: inventory.filter(item => findCategory([category], item.category)).length });
+    } catch (error) {
+      console.error("Error updating category:", error);
+      res.status(500).json({ error: "Failed to update category" });
+    }
+  });
+  
+  // Fold one category into another, e.g. a duplicate spelled differently
+  app.post("/api/categories/:id/merge", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validation = categoryMergeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid merge", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const categories = await storage.getCategories();
+      const source = categories.find(category => category.id === id);
+      const target = categories.find(category => category.id === validation.data.intoId);
+      if (!source || !target) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      if (source.id === target.id) {
+        return res.status(400).json({ error: "Choose a different category to merge into" });
+      }
+      // Its subcategories move up to the merged-into category, which can't be one of them
+      if (descendantIds(source.id, categories).includes(target.id)) {
+        return res.status(409).json({ error: `${target.name} is a subcategory of ${source.name}, so ${source.name} can't be merged into it` });
+      }
+      
+      const inventory = await storage.getInventory();
+      const moved = inventory.filter(item => findCategory([source], item.category)).length;
+      const merged = await storage.mergeCategories(source.id, target.id);
+      if (!merged) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      await ActivityLogger.logInventoryActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.INVENTORY.CATEGORY_MERGE,
+        `Merged category ${source.name} (ID: ${source.id}) into ${merged.name} (ID: ${merged.id}), Items moved: ${moved}`
+      );
+      
+      const after = await storage.getInventory();
+      res.json({ ...merged, itemCount: after.filter(item => findCategory([merged], item.category)).length });
+    } catch (error) {
+      console.error("Error merging categories:", error);
+      res.status(500).json({ error: "Failed to merge categories" });
+    }
+  });
+  
+  // Only categories nothing is filed under can be deleted; others are merged away instead
+  app.delete("/api/categories/:id", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const categories = await storage.getCategories();
+      const category = categories.find(entry => entry.id === id);
+      
+      if (!category) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      
+      const [inventory, groups, promotions, rules] = await Promise.all([
+        storage.getInventory(),
+        storage.getVariantGroups(),
+        storage.getPromotions(),
+        storage.getAlertRules()
+      ]);
+      const filed = (name?: string) => name !== undefined && !!findCategory([category], name);
+      const uses: [number, string][] = [
+        [inventory.filter(item => filed(item.category)).length, "item(s)"],
+        [categories.filter(entry => entry.parentId === id).length, "subcategory(ies)"],
+        [groups.filter(group => filed(group.category)).length, "variant group(s)"],
+        [promotions.filter(promotion => promotion.categories?.some(filed)).length, "promotion(s)"],
+        [rules.filter(rule => filed(rule.category)).length, "alert rule(s)"]
+      ];
+      const inUse = uses.filter(([count]) => count > 0).map(([count, label]) => `${count} ${label}`);
+      if (inUse.length > 0) {
+        return res.status(409).json({ 
+          error: `${category.name} has ${inUse.join(", ")}; merge it into another category instead` 
+        });
+      }
+      
+      if (!(await storage.deleteCategory(id))) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      await ActivityLogger.logInventoryActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.INVENTORY.CATEGORY_DELETE,
+        `Deleted category: ${category.name} (ID: ${category.id})`
+      );
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting category:", error);
+      res.status(500).json({ error: "Failed to delete category" });
+    }
+  });
+
+  // Supplier Routes
+  app.get("/api/suppliers", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const suppliers = await storage.getSuppliers();
+      res.json(suppliers);
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+      res.status(500).json({ error: "Failed to fetch suppliers" });
+    }
+  });
+  
+  app.post("/api/suppliers", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const validation = insertSupplierSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid supplier", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      const supplier = await storage.addSupplier(validation.data);
+      
+      await ActivityLogger.logPurchasingActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.PURCHASING.SUPPLIER_CREATE,
+        `Created supplier: ${supplier.name} (ID: ${supplier.id})`
+      );
+      
+      res.status(201).json(supplier);
+    } catch (error) {
+      console.error("Error creating supplier:", error);
+      res.status(500).json({ error: "Failed to create supplier" });
+    }
+  });
+  
+  app.put("/api/suppliers/:id", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getSupplier(id);
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Supplier not found" });
+      }
+      
+      // The supplier form sends every field, so missing optional fields are cleared
+      const validation = insertSupplierSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid supplier", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const { id: _id, ...current } = existing;
+      const cleared = Object.fromEntries(Object.keys(current).map(key => [key, undefined]));
+      const supplier = await storage.updateSupplier(id, { ...cleared, ...validation.data });
+      if (!supplier) {
+        return res.status(404).json({ error: "Supplier not found" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      await ActivityLogger.logPurchasingActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.PURCHASING.SUPPLIER_UPDATE,
+        `Updated supplier: ${supplier.name} (ID: ${supplier.id})`
+      );
+      
+      res.json(supplier);
+    } catch (error) {
+      console.error("Error updating supplier:", error);
+      res.status(500).json({ error: "Failed to update supplier" });
+    }
+  });
+  
+  // Deleting a supplier also removes its links from inventory items
+  app.delete("/api/suppliers/:id", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const supplier = await storage.getSupplier(id);
+      
+      if (!supplier) {
+        return res.status(404).json({ error: "Supplier not found" });
+      }
+      
+      const openOrders = (await storage.getPurchaseOrders())
+        .filter(order => order.supplierId === id && isOpenPurchaseOrder(order.status));
+      if (openOrders.length > 0) {
+        return res.status(409).json({ 
+          error: `${supplier.name} has ${openOrders.length} open purchase order(s). Close or cancel them first.` 
+        });
+      }
+      
+      if (!(await storage.deleteSupplier(id))) {
+        return res.status(404).json({ error: "Supplier not found" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      await ActivityLogger.logPurchasingActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.PURCHASING.SUPPLIER_DELETE,
+        `Deleted supplier: ${supplier.name} (ID: ${supplier.id})`
+      );
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting supplier:", error);
+      res.status(500).json({ error: "Failed to delete supplier" });
+    }
+  });
+
+  // Purchase Order Routes
+  app.get("/api/purchase-orders", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const orders = await storage.getPurchaseOrders();
+      res.json(orders.sort((a, b) => b.id - a.id));
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+      res.status(500).json({ error: "Failed to fetch purchase orders" });
+    }
+  });
+  
+  // Orders awaiting delivery, for the receiving screen
+  app.get("/api/purchase-orders/receivable", async (req: Request, res: Response) => {
+    try {
+      if (!canReceiveStock(getCurrentUser(req).role)) {
+        return res.status(403).json({ error: "Access denied: You don't have permission to receive stock" });
+      }
+      
+      const orders = await storage.getPurchaseOrders();
+      res.json(orders.filter(order => canReceive(order.status)).sort((a, b) => a.id - b.id));
+    } catch (error) {
+      console.error("Error fetching receivable purchase orders:", error);
+      res.status(500).json({ error: "Failed to fetch purchase orders" });
+    }
+  });
+  
+  app.get("/api/purchase-orders/:id", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const order = await storage.getPurchaseOrder(parseInt(req.params.id));
+      if (!order) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      console.error("Error fetching purchase order:", error);
+      res.status(500).json({ error: "Failed to fetch purchase order" });
+    }
+  });
+  
+  // Create a draft order; names, supplier SKUs and missing costs come from the catalog
+  app.post("/api/purchase-orders", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const validation = purchaseOrderRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid purchase order", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const supplier = await storage.getSupplier(validation.data.supplierId);
+      if (!supplier) {
+        return res.status(400).json({ error: "Supplier not found" });
+      }
+      
+      const { lines, lineErrors } = buildPurchaseOrderLines(
+        supplier,
+        validation.data.lines,
+        await storage.getInventory()
+      );
+      if (lineErrors.length > 0) {
+        return res.status(400).json({ error: "Invalid purchase order", lineErrors });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      const order = await storage.addPurchaseOrder({
+        supplierId: supplier.id,
+        supplierName: supplier.name,
+        status: "draft",
+        lines,
+        total: purchaseOrderTotal(lines),
+        ...(validation.data.expectedDate ? { expectedDate: validation.data.expectedDate } : {}),
+        ...(validation.data.notes ? { notes: validation.data.notes } : {}),
+        createdBy: currentUser.username,
+        createdAt: new Date().toISOString()
+      });
+      
+      await ActivityLogger.logPurchasingActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.PURCHASING.ORDER_CREATE,
+        `Created ${formatPurchaseOrderNumber(order.id)} for ${supplier.name}: ${lines.length} line(s), $${order.total.toFixed(2)}`
+      );
+      
+      res.status(201).json(order);
+    } catch (error) {
+      console.error("Error creating purchase order:", error);
+      res.status(500).json({ error: "Failed to create purchase order" });
+    }
+  });
+  
+  // Add an item to the supplier's current draft, starting a new draft if there isn't one
+  // Used by the reorder buttons; the supplier defaults to the item's preferred supplier
+  app.post("/api/purchase-orders/draft-lines", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const validation = z.object({
+        productId: z.number().int(),
+        quantity: z.number().positive(),
+        supplierId: z.number().int().optional()
+      }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid reorder", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const { productId, quantity } = validation.data;
+      const item = await storage.getInventoryItem(productId);
+      if (!item) {
+        return res.status(404).json({ error: "Item not found" });
+      }
+      
+      const supplierId = validation.data.supplierId ?? preferredSupplierLink(item.suppliers)?.supplierId;
+      if (supplierId === undefined) {
+        return res.status(409).json({ error: `${item.name} has no supplier. Link a supplier to the item first.` });
+      }
+      const supplier = await storage.getSupplier(supplierId);
+      if (!supplier) {
+        return res.status(400).json({ error: "Supplier not found" });
+      }
+      
+      const { lines, lineErrors } = buildPurchaseOrderLines(supplier, [{ productId, quantity }], [item]);
+      if (lineErrors.length > 0) {
+        return res.status(400).json({ error: lineErrors[0].message, lineErrors });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      const draft = (await storage.getPurchaseOrders())
+        .filter(order => order.supplierId === supplier.id && order.status === "draft")
+        .sort((a, b) => b.id - a.id)[0];
+      
+      let order: PurchaseOrder | null;
+      if (draft) {
+        // Ordering an item that is already on the draft tops up its quantity
+        const onDraft = draft.lines.some(line => line.productId === productId);
+        const draftLines = onDraft
+          ? draft.lines.map(line => line.productId === productId ? { ...line, quantity: line.quantity + quantity } : line)
+          : [...draft.lines, lines[0]];
+        order = await storage.updatePurchaseOrder(
+          draft.id,
+          { lines: draftLines, total: purchaseOrderTotal(draftLines) },
+          ["draft"]
+        );
+        if (!order) {
+          return res.status(409).json({ error: `${formatPurchaseOrderNumber(draft.id)} is no longer a draft. Please try again.` });
+        }
+      } else {
+        order = await storage.addPurchaseOrder({
+          supplierId: supplier.id,
+          supplierName: supplier.name,
+          status: "draft",
+          lines,
+          total: purchaseOrderTotal(lines),
+          createdBy: currentUser.username,
+          createdAt: new Date().toISOString()
+        });
+      }
+      
+      await ActivityLogger.logPurchasingActivity(
+        currentUser.id,
+        currentUser.username,
+        draft ? LOG_ACTIONS.PURCHASING.ORDER_UPDATE : LOG_ACTIONS.PURCHASING.ORDER_CREATE,
+        `Added ${quantity} x ${item.name} to ${formatPurchaseOrderNumber(order.id)} for ${supplier.name}`
+      );
+      
+      res.status(draft ? 200 : 201).json({ order, created: !draft });
+    } catch (error) {
+      console.error("Error adding item to purchase order:", error);
+      res.status(500).json({ error: "Failed to add item to purchase order" });
+    }
+  });
+  
+  // Only drafts can be edited; once sent, the supplier has the order
+  app.put("/api/purchase-orders/:id", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getPurchaseOrder(id);
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      if (existing.status !== "draft") {
+        return res.status(409).json({ error: "Only draft purchase orders can be edited" });
+      }
+      
+      const validation = purchaseOrderRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid purchase order", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const supplier = await storage.getSupplier(validation.data.supplierId);
+      if (!supplier) {
+        return res.status(400).json({ error: "Supplier not found" });
+      }
+      
+      const { lines, lineErrors } = buildPurchaseOrderLines(
+        supplier,
+        validation.data.lines,
+        await storage.getInventory()
+      );
+      if (lineErrors.length > 0) {
+        return res.status(400).json({ error: "Invalid purchase order", lineErrors });
+      }
+      
+      const order = await storage.updatePurchaseOrder(id, {
+        supplierId: supplier.id,
+        supplierName: supplier.name,
+        lines,
+        total: purchaseOrderTotal(lines),
+        expectedDate: validation.data.expectedDate || undefined,
+        notes: validation.data.notes || undefined
+      }, ["draft"]);
+      if (!order) {
+        return res.status(409).json({ error: "Only draft purchase orders can be edited" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      await ActivityLogger.logPurchasingActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.PURCHASING.ORDER_UPDATE,
+        `Updated ${formatPurchaseOrderNumber(order.id)} for ${supplier.name}: ${lines.length} line(s), $${order.total.toFixed(2)}`
+      );
+      
+      res.json(order);
+    } catch (error) {
+      console.error("Error updating purchase order:", error);
+      res.status(500).json({ error: "Failed to update purchase order" });
+    }
+  });
+  
+  // Send a draft to the supplier; the delivery is expected after the supplier's lead time
+  app.post("/api/purchase-orders/:id/send", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getPurchaseOrder(id);
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      if (!canTransition(existing.status, "sent")) {
+        return res.status(409).json({ error: `A ${PURCHASE_ORDER_STATUS_LABELS[existing.status].toLowerCase()} order can't be sent` });
+      }
+      
+      const supplier = await storage.getSupplier(existing.supplierId);
+      if (supplier && existing.total < supplier.minimumOrder) {
+        return res.status(409).json({ 
+          error: `${supplier.name} has a minimum order of $${supplier.minimumOrder.toFixed(2)}; this order is $${existing.total.toFixed(2)}` 
+        });
+      }
+      
+      const sentAt = new Date();
+      const expectedDate = existing.expectedDate ?? (supplier
+        ? new Date(sentAt.getTime() + supplier.leadTimeDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+        : undefined);
+      const order = await storage.updatePurchaseOrder(id, {
+        status: "sent",
+        sentAt: sentAt.toISOString(),
+        ...(expectedDate ? { expectedDate } : {})
+      }, ["draft"]);
+      if (!order) {
+        return res.status(409).json({ error: "Purchase order was changed by someone else. Please refresh." });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      await ActivityLogger.logPurchasingActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.PURCHASING.ORDER_SEND,
+        `Sent ${formatPurchaseOrderNumber(order.id)} to ${order.supplierName}: $${order.total.toFixed(2)}${expectedDate ? `, expected ${expectedDate}` : ""}`
+      );
+      
+      res.json(order);
+    } catch (error) {
+      console.error("Error sending purchase order:", error);
+      res.status(500).json({ error: "Failed to send purchase order" });
+    }
+  });
+  
+  // Receive a delivery: adds to stock, averages the cost into each item's cost price
+  app.post("/api/purchase-orders/:id/receive", async (req: Request, res: Response) => {
+    try {
+      const currentUser = getCurrentUser(req);
+      if (!canReceiveStock(currentUser.role)) {
+        return res.status(403).json({ error: "Access denied: You don't have permission to receive stock" });
+      }
+      
+      const validation = goodsReceiptRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid delivery", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const id = parseInt(req.params.id);
+      const existing = await storage.getPurchaseOrder(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      
+      // Deliveries go into stock at one location
+      const found = await findStockLocation(validation.data.locationId);
+      if ("error" in found) {
+        return res.status(found.status).json({ error: found.error });
+      }
+      validation.data.locationId = found.location.id;
+      
+      let order: PurchaseOrder | null;
+      try {
+        order = await storage.receivePurchaseOrder(id, validation.data, currentUser.username);
+      } catch (error) {
+        if (error instanceof ReceiptQuantityError) {
+          return res.status(409).json({ error: error.message, lineErrors: error.lineErrors });
+        }
+        throw error;
+      }
+      if (!order) {
+        return res.status(409).json({ 
+          error: `A ${PURCHASE_ORDER_STATUS_LABELS[existing.status].toLowerCase()} order can't be received against` 
+        });
+      }
+      
+      const receipt = order.receipts![order.receipts!.length - 1];
+      const received = receipt.lines
+        .map(line => `${line.quantity} x ${line.name} @ $${line.unitCost.toFixed(2)}${line.overReceived ? ` (${line.overReceived} over)` : ""}`)
+        .join(", ");
+      const short = order.lines.filter(line => line.receivedQuantity < line.quantity);
+      let details = `Received against ${formatPurchaseOrderNumber(order.id)} from ${order.supplierName} at ${found.location.name}: ${received}`;
+      if (short.length > 0) {
+        details += `. ${order.status === "closed" ? "Closed short" : "Still due"}: ${short.map(line => `${line.quantity - line.receivedQuantity} x ${line.name}`).join(", ")}`;
+      }
+      if (receipt.notes) {
+        details += `. Notes: ${receipt.notes}`;
+      }
+      
+      await ActivityLogger.logPurchasingActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.PURCHASING.ORDER_RECEIVE,
+        details
+      );
+      
+      res.json(order);
+    } catch (error) {
+      console.error("Error receiving purchase order:", error);
+      res.status(500).json({ error: "Failed to receive purchase order" });
+    }
+  });
+  
+  // Close an order short: nothing more is expected from the supplier
+  app.post("/api/purchase-orders/:id/close", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getPurchaseOrder(id);
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      if (!canTransition(existing.status, "closed")) {
+        return res.status(409).json({ error: `A ${PURCHASE_ORDER_STATUS_LABELS[existing.status].toLowerCase()} order can't be closed` });
+      }
+      
+      const order = await storage.updatePurchaseOrder(id, {
+        status: "closed",
+        closedAt: new Date().toISOString()
+      }, ["sent", "partially_received"]);
+      if (!order) {
+        return res.status(409).json({ error: "Purchase order was changed by someone else. Please refresh." });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      await ActivityLogger.logPurchasingActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.PURCHASING.ORDER_CLOSE,
+        `Closed ${formatPurchaseOrderNumber(order.id)} for ${order.supplierName}`
+      );
+      
+      res.json(order);
+    } catch (error) {
+      console.error("Error closing purchase order:", error);
+      res.status(500).json({ error: "Failed to close purchase order" });
+    }
+  });
+  
+  // Cancel an order before anything has been delivered
+  app.post("/api/purchase-orders/:id/cancel", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getPurchaseOrder(id);
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      if (!canTransition(existing.status, "cancelled")) {
+        return res.status(409).json({ error: `A ${PURCHASE_ORDER_STATUS_LABELS[existing.status].toLowerCase()} order can't be cancelled` });
+      }
+      
+      const order = await storage.updatePurchaseOrder(id, {
+        status: "cancelled",
+        closedAt: new Date().toISOString()
+      }, ["draft", "sent"]);
+      if (!order) {
+        return res.status(409).json({ error: "Purchase order was changed by someone else. Please refresh." });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      await ActivityLogger.logPurchasingActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.PURCHASING.ORDER_CANCEL,
+        `Cancelled ${formatPurchaseOrderNumber(order.id)} for ${order.supplierName}`
+      );
+      
+      res.json(order);
+    } catch (error) {
+      console.error("Error cancelling purchase order:", error);
+      res.status(500).json({ error: "Failed to cancel purchase order" });
+    }
+  });
+
+  // Stock Count Routes
+  // Expected quantities are hidden from counters until the count is submitted
+  const countForRole = (count: StockCount, role: string): StockCount =>
+    isManagerRole(role) || count.status !== "counting"
+      ? count
+      : { ...count, lines: count.lines.map(line => ({ ...line, expected: 0 })) };
+
+  app.get("/api/stock-counts", async (req: Request, res: Response) => {
+    try {
+      const currentUser = getCurrentUser(req);
+      if (!canCountStock(currentUser.role)) {
+        return res.status(403).json({ error: "Access denied: You don't have permission to count stock" });
+      }
+      
+      const counts = await storage.getStockCounts();
+      res.json(counts
+        .map(count => countForRole(count, currentUser.role))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+    } catch (error) {
+      console.error("Error fetching stock counts:", error);
+      res.status(500).json({ error: "Failed to fetch stock counts" });
+    }
+  });
+  
+  app.get("/api/stock-counts/:id", async (req: Request, res: Response) => {
+    try {
+      const currentUser = getCurrentUser(req);
+      if (!canCountStock(currentUser.role)) {
+        return res.status(403).json({ error: "Access denied: You don't have permission to count stock" });
+      }
+      
+      const count = await storage.getStockCount(parseInt(req.params.id));
+      if (!count) {
+        return res.status(404).json({ error: "Stock count not found" });
+      }
+      res.json(countForRole(count, currentUser.role));
+    } catch (error) {
+      console.error("Error fetching stock count:", error);
+      res.status(500).json({ error: "Failed to fetch stock count" });
+    }
+  });
+  
+  // Start a count of the whole store, one category, or a random sample of items
+  app.post("/api/stock-counts", async (req: Request, res: Response) => {
+    try {
+      const currentUser = getCurrentUser(req);
+      if (!canCountStock(currentUser.role)) {
+        return res.status(403).json({ error: "Access denied: You don't have permission to count stock" });
+      }
+      
+      const validation = stockCountRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid stock count", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const found = await findStockLocation(validation.data.locationId);
+      if ("error" in found) {
+        return res.status(found.status).json({ error: found.error });
+      }
+      
+      const items = selectCountItems(await storage.getInventory(), validation.data);
+      if (items.length === 0) {
+        return res.status(400).json({ error: "There are no items to count" });
+      }
+      
+      const count = await storage.addStockCount({
+        scope: validation.data.scope,
+        ...(validation.data.scope === "category" ? { category: validation.data.category } : {}),
+        locationId: found.location.id,
+        status: "counting",
+        lines: buildCountLines(items, found.location.id),
+        ...(validation.data.notes ? { notes: validation.data.notes } : {}),
+        createdBy: currentUser.username,
+        createdAt: new Date().toISOString()
+      });
+      
+      await ActivityLogger.logInventoryActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.INVENTORY.COUNT_START,
+        `Started ${formatStockCountNumber(count.id)} at ${found.location.name}: ${STOCK_COUNT_SCOPE_LABELS[count.scope]}${count.category ? ` of ${count.category}` : ""}, ${count.lines.length} items`
+      );
+      
+      res.status(201).json(countForRole(count, currentUser.role));
+    } catch (error) {
+      console.error("Error starting stock count:", error);
+      res.status(500).json({ error: "Failed to start stock count" });
+    }
+  });
+  
+  // Record quantities found on the shelf; each replaces any earlier count of the item
+  app.post("/api/stock-counts/:id/counts", async (req: Request, res: Response) => {
+    try {
+      const currentUser = getCurrentUser(req);
+      if (!canCountStock(currentUser.role)) {
+        return res.status(403).json({ error: "Access denied: You don't have permission to count stock" });
+      }
+      
+      const validation = stockCountEntriesSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid counts", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const id = parseInt(req.params.id);
+      const existing = await storage.getStockCount(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Stock count not found" });
+      }
+      
+      let count: StockCount | null;
+      try {
+        count = await storage.recordStockCounts(id, validation.data, currentUser.username);
+      } catch (error) {
+        if (error instanceof StockCountError) {
+          return res.status(409).json({ error: error.message, lineErrors: error.lineErrors });
+        }
+        throw error;
+      }
+      if (!count) {
+        return res.status(409).json({ 
+          error: `Counts can't be entered on a count that is ${STOCK_COUNT_STATUS_LABELS[existing.status].toLowerCase()}` 
+        });
+      }
+      
+      res.json(countForRole(count, currentUser.role));
+    } catch (error) {
+      console.error("Error recording stock counts:", error);
+      res.status(500).json({ error: "Failed to record stock counts" });
+    }
+  });
+  
+  // Finish counting and hand the variances to a manager for approval
+  app.post("/api/stock-counts/:id/submit", async (req: Request, res: Response) => {
+    try {
+      const currentUser = getCurrentUser(req);
+      if (!canCountStock(currentUser.role)) {
+        return res.status(403).json({ error: "Access denied: You don't have permission to count stock" });
+      }
+      
+      const id = parseInt(req.params.id);
+      const existing = await storage.getStockCount(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Stock count not found" });
+      }
+      if (existing.status !== "counting") {
+        return res.status(409).json({ error: "Only a count that is under way can be submitted" });
+      }
+      if (!existing.lines.some(line => line.counted !== undefined)) {
+        return res.status(409).json({ error: "Count at least one item before submitting" });
+      }
+      
+      const count = await storage.updateStockCount(id, {
+        status: "review",
+        submittedBy: currentUser.username,
+        submittedAt: new Date().toISOString()
+      }, ["counting"]);
+      if (!count) {
+        return res.status(409).json({ error: "Stock count was changed by someone else. Please refresh." });
+      }
+      
+      const summary = summarizeStockCount(count.lines);
+      await ActivityLogger.logInventoryActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.INVENTORY.COUNT_SUBMIT,
+        `Submitted ${formatStockCountNumber(count.id)}: ${summary.countedCount} of ${summary.lineCount} items counted, ${summary.varianceCount} with variances`
+      );
+      
+      res.json(count);
+    } catch (error) {
+      console.error("Error submitting stock count:", error);
+      res.status(500).json({ error: "Failed to submit stock count" });
+    }
+  });
+  
+  // Send a submitted count back for recounting
+  app.post("/api/stock-counts/:id/reopen", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getStockCount(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Stock count not found" });
+      }
+      
+      const count = await storage.updateStockCount(id, { status: "counting" }, ["review"]);
+      if (!count) {
+        return res.status(409).json({ error: "Only a count awaiting approval can be reopened" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      await ActivityLogger.logInventoryActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.INVENTORY.COUNT_REOPEN,
+        `Reopened ${formatStockCountNumber(count.id)} for recounting`
+      );
+      
+      res.json(count);
+    } catch (error) {
+      console.error("Error reopening stock count:", error);
+      res.status(500).json({ error: "Failed to reopen stock count" });
+    }
+  });
+  
+  // Approve a submitted count and adjust stock by the variances found
+  app.post("/api/stock-counts/:id/post", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getStockCount(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Stock count not found" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      const count = await storage.postStockCount(id, currentUser.username);
+      if (!count) {
+        return res.status(409).json({ error: "Only a count awaiting approval can be posted" });
+      }
+      
+      const summary = summarizeStockCount(count.lines);
+      const adjusted = count.lines
+        .filter(line => line.adjustment)
+        .map(line => `${line.name} ${line.adjustment! > 0 ? "+" : ""}${line.adjustment}`);
+      await ActivityLogger.logInventoryActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.INVENTORY.COUNT_POST,
+        `Posted ${formatStockCountNumber(count.id)}: ${adjusted.length > 0 ? adjusted.join(", ") : "no adjustments"}. Net variance $${summary.varianceValue.toFixed(2)}`
+      );
+      
+      res.json(count);
+    } catch (error) {
+      console.error("Error posting stock count:", error);
+      res.status(500).json({ error: "Failed to post stock count" });
+    }
+  });
+  
+  app.post("/api/stock-counts/:id/cancel", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getStockCount(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Stock count not found" });
+      }
+      
+      const count = await storage.updateStockCount(id, {
+        status: "cancelled",
+        cancelledAt: new Date().toISOString()
+      }, ["counting", "review"]);
+      if (!count) {
+        return res.status(409).json({ error: `A ${STOCK_COUNT_STATUS_LABELS[existing.status].toLowerCase()} count can't be cancelled` });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      await ActivityLogger.logInventoryActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.INVENTORY.COUNT_CANCEL,
+        `Cancelled ${formatStockCountNumber(count.id)}`
+      );
+      
+      res.json(count);
+    } catch (error) {
+      console.error("Error cancelling stock count:", error);
+      res.status(500).json({ error: "Failed to cancel stock count" });
+    }
+  });
+
+  // Stock locations: the sales floor, back room, other stores
+  app.get("/api/locations", async (req: Request, res: Response) => {
+    try {
+      const locations = await storage.getLocations();
+      res.json(locations.sort((a, b) => a.id - b.id));
+    } catch (error) {
+      console.error("Error fetching locations:", error);
+      res.status(500).json({ error: "Failed to fetch locations" });
+    }
+  });
+  
+  app.post("/api/locations", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const validation = insertStockLocationSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid location", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const name = validation.data.name.toLowerCase();
+      if ((await storage.getLocations()).some(location => location.name.toLowerCase() === name)) {
+        return res.status(409).json({ error: `A location named ${validation.data.name} already exists` });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      const location = await storage.addLocation(validation.data);
+      
+      await ActivityLogger.logInventoryActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.INVENTORY.LOCATION_CREATE,
+        `Created location: ${location.name} (ID: ${location.id})`
+      );
+      
+      res.status(201).json(location);
+    } catch (error) {
+      console.error("Error creating location:", error);
+      res.status(500).json({ error: "Failed to create location" });
+    }
+  });
+  
+  // Rename a location, or stop using it once it holds no stock
+  app.put("/api/locations/:id", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getLocation(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Location not found" });
+      }
+      
+      const validation = insertStockLocationSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid location", 
+          details: validation.error.errors 
+        });
+      }
+      const updates = validation.data;
+      
+      if (updates.name !== undefined) {
+        const name = updates.name.toLowerCase();
+        if ((await storage.getLocations()).some(location => location.id !== id && location.name.toLowerCase() === name)) {
+          return res.status(409).json({ error: `A location named ${updates.name} already exists` });
+        }
+      }
+      
+      if (updates.active === false && existing.active) {
+        if (id === DEFAULT_LOCATION_ID) {
+          return res.status(409).json({ error: "The main location can't be closed" });
+        }
+        const held = (await storage.getInventory()).filter(item => stockAt(item, id) !== 0);
+        if (held.length > 0) {
+          return res.status(409).json({ 
+            error: `${existing.name} still holds stock of ${held.length} item(s); transfer or adjust it first` 
+          });
+        }
+        const inTransit = (await storage.getStockTransfers()).some(transfer =>
+          transfer.status === "in_transit" && (transfer.fromLocationId === id || transfer.toLocationId === id));
+        if (inTransit) {
+          return res.status(409).json({ error: `${existing.name} has transfers in transit` });
+        }
+        const openShifts = (await storage.getShifts()).some(shift => shift.status === "open" && shift.locationId === id);
+        if (openShifts) {
+          return res.status(409).json({ error: `${existing.name} has open shifts` });
+        }
+      }
+      
+      const currentUser = getCurrentUser(req);
+      const location = await storage.updateLocation(id, updates);
+      if (!location) {
+        return res.status(404).json({ error: "Location not found" });
+      }
+      
+      let details = `Updated location: ${existing.name} (ID: ${id})`;
+      if (location.name !== existing.name) {
+        details += `, Renamed to ${location.name}`;
+      }
+      if (location.active !== existing.active) {
+        details += location.active ? ", Reopened" : ", Closed";
+      }
+      await ActivityLogger.logInventoryActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.INVENTORY.LOCATION_UPDATE,
+        details
+      );
+      
+      res.json(location);
+    } catch (error) {
+      console.error("Error updating location:", error);
+      res.status(500).json({ error: "Failed to update location" });
+    }
+  });
+  
+  // Stock transfers between locations, newest first
+  app.get("/api/transfers", async (req: Request, res: Response) => {
+    try {
+      const transfers = await storage.getStockTransfers();
+      res.json(transfers.sort((a, b) => b.id - a.id));
+    } catch (error) {
+      console.error("Error fetching stock transfers:", error);
+      res.status(500).json({ error: "Failed to fetch stock transfers" });
+    }
+  });
+  
+  app.get("/api/transfers/:id", async (req: Request, res: Response) => {
+    try {
+      const transfer = await storage.getStockTransfer(parseInt(req.params.id));
+      if (!transfer) {
+        return res.status(404).json({ error: "Stock transfer not found" });
+      }
+      res.json(transfer);
+    } catch (error) {
+      console.error("Error fetching stock transfer:", error);
+      res.status(500).json({ error: "Failed to fetch stock transfer" });
+    }
+  });
+  
+  // Send stock to another location; it is in transit, at neither, until received
+  app.post("/api/transfers", async (req: Request, res: Response) => {
+    try {
+      const currentUser = getCurrentUser(req);
+      if (!canReceiveStock(currentUser.role)) {
+        return res.status(403).json({ error: "Access denied: You don't have permission to transfer stock" });
+      }
+      
+      const validation = stockTransferRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid stock transfer", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const from = await findStockLocation(validation.data.fromLocationId);
+      if ("error" in from) {
+        return res.status(from.status).json({ error: from.error });
+      }
+      const to = await findStockLocation(validation.data.toLocationId);
+      if ("error" in to) {
+        return res.status(to.status).json({ error: to.error });
+      }
+      
+      let transfer: StockTransfer;
+      try {
+        transfer = await storage.addStockTransfer(validation.data, currentUser.username);
+      } catch (error) {
+        if (error instanceof StockTransferError) {
+          return res.status(409).json({ error: error.message, lineErrors: error.lineErrors });
+        }
+        throw error;
+      }
+      
+      await ActivityLogger.logInventoryActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.INVENTORY.TRANSFER_SEND,
+        `Sent ${formatStockTransferNumber(transfer.id)} from ${from.location.name} to ${to.location.name}: ` +
+          transfer.lines.map(line => `${line.quantity} x ${line.name}`).join(", ")
+      );
+      
+      res.status(201).json(transfer);
+    } catch (error) {
+      console.error("Error sending stock transfer:", error);
+      res.status(500).json({ error: "Failed to send stock transfer" });
+    }
+  });
+  
+  // Book a transfer into stock at the location it was sent to
+  app.post("/api/transfers/:id/receive", async (req: Request, res: Response) => {
+    try {
+      const currentUser = getCurrentUser(req);
+      if (!canReceiveStock(currentUser.role)) {
+        return res.status(403).json({ error: "Access denied: You don't have permission to receive stock" });
+      }
+      
+      const id = parseInt(req.params.id);
+      const existing = await storage.getStockTransfer(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Stock transfer not found" });
+      }
+      
+      const transfer = await storage.receiveStockTransfer(id, currentUser.username);
+      if (!transfer) {
+        return res.status(409).json({ 
+          error: `A ${STOCK_TRANSFER_STATUS_LABELS[existing.status].toLowerCase()} transfer can't be received` 
+        });
+      }
+      
+      await ActivityLogger.logInventoryActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.INVENTORY.TRANSFER_RECEIVE,
+        `Received ${formatStockTransferNumber(transfer.id)}: ${transferQuantity(transfer.lines)} units`
+      );
+      
+      res.json(transfer);
+    } catch (error) {
+      console.error("Error receiving stock transfer:", error);
+      res.status(500).json({ error: "Failed to receive stock transfer" });
+    }
+  });
+  
+  // Call off a transfer that never arrived; the stock goes back where it came from
+  app.post("/api/transfers/:id/cancel", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getStockTransfer(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Stock transfer not found" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      const transfer = await storage.cancelStockTransfer(id, currentUser.username);
+      if (!transfer) {
+        return res.status(409).json({ 
+          error: `A ${STOCK_TRANSFER_STATUS_LABELS[existing.status].toLowerCase()} transfer can't be cancelled` 
+        });
+      }
       
-      await ActivityLogger.logSalesActivity(
+      await ActivityLogger.logInventoryActivity(
         currentUser.id,
         currentUser.username,
-        LOG_ACTIONS.SALES.CREATE,
-        details
+        LOG_ACTIONS.INVENTORY.TRANSFER_CANCEL,
+        `Cancelled ${formatStockTransferNumber(transfer.id)}; stock returned to the sending location`
       );
       
-      res.status(201).json(newSale);
+      res.json(transfer);
     } catch (error) {
-      console.error("Error adding sale:", error);
-      res.status(500).json({ error: "Failed to add sale" });
+      console.error("Error cancelling stock transfer:", error);
+      res.status(500).json({ error: "Failed to cancel stock transfer" });
     }
   });
 
   // User Routes
   app.get("/api/users", async (req: Request, res: Response) => {
     try {
-      // Get all users
-      const users = await fileStorage.getUsers();
-      res.json(users);
+      // Get all users with their current lockout state
+      const users = await storage.getUsers();
+      const lockedAccounts = await getLockedAccounts();
+      
+      // Don't include PIN hashes in the response
+      res.json(users.map(({ pin, ...user }) => ({
+        ...user,
+        locked: lockedAccounts.has(user.username),
+        lockedUntil: lockedAccounts.get(user.username)
+      })));
     } catch (error) {
       console.error("Error fetching users:", error);
       res.status(500).json({ error: "Failed to fetch users" });
@@ -817,13 +3497,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/users/:id", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const user = await fileStorage.getUser(id);
+      const user = await storage.getUser(id);
       
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
       
-      res.json(user);
+      // Don't include the PIN hash in the response
+      const { pin, ...userWithoutPin } = user;
+      res.json(userWithoutPin);
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ error: "Failed to fetch user" });
@@ -831,9 +3513,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create a new user
-  app.post("/api/users", async (req: Request, res: Response) => {
+  app.post("/api/users", isAdmin, async (req: Request, res: Response) => {
     try {
-      const newUser = await fileStorage.createUser(req.body);
+      const pinCheck = pinSchema.safeParse(req.body.pin);
+      if (!pinCheck.success) {
+        return res.status(400).json({ error: "Invalid PIN", details: pinCheck.error.errors });
+      }
+      
+      const newUser = await storage.createUser(req.body);
       
       // Get information about the current user who is making the change
       const currentUser = getCurrentUser(req);
@@ -862,7 +3549,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/users/:id", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const user = await fileStorage.getUser(id);
+      const user = await storage.getUser(id);
       
       if (!user) {
         return res.status(404).json({ error: "User not found" });
@@ -873,15 +3560,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (updates.pin === "") {
         delete updates.pin;
       }
+      if (updates.pin !== undefined) {
+        const pinCheck = pinSchema.safeParse(updates.pin);
+        if (!pinCheck.success) {
+          return res.status(400).json({ error: "Invalid PIN", details: pinCheck.error.errors });
+        }
+      }
+      
+      // Anyone but an administrator may only change their own details, and not their role or status
+      const currentUser = getCurrentUser(req);
+      if (currentUser.role !== 'Administrator') {
+        const changesAccess = (updates.role !== undefined && updates.role !== user.role) ||
+          (updates.status !== undefined && updates.status !== user.status);
+        if (currentUser.id !== id || changesAccess) {
+          return res.status(403).json({
+            error: "Access denied",
+            message: currentUser.id !== id
+              ? "Administrator permissions required to change another user"
+              : "Administrator permissions required to change a role or status"
+          });
+        }
+      }
       
-      const updatedUser = await fileStorage.updateUser(id, updates);
+      const updatedUser = await storage.updateUser(id, updates);
       
       if (!updatedUser) {
         return res.status(500).json({ error: "Failed to update user" });
       }
 
-      // Get information about the current user who is making the change
-      const currentUser = getCurrentUser(req);
+      // Log who made the change
       console.log("User update performed by:", currentUser);
       
       // Log the user update activity
@@ -895,6 +3602,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (updates.status !== undefined && user.status !== updates.status) {
         details += `, Status changed from ${user.status} to ${updates.status}`;
       }
+      if (updatedUser.role !== user.role || updatedUser.status !== user.status) {
+        closeUserStreams(user.id);
+      }
       
       await ActivityLogger.logUserActivity(
         currentUser.id,
@@ -912,32 +3622,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Unlock a user account after repeated failed logins - Admin only
+  app.post("/api/users/:id/unlock", isAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const user = await storage.getUser(id);
+      
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      
+      // The authentication event resets the failed login count for this account
+      await ActivityLogger.logAuthActivity(
+        user.id,
+        user.username,
+        LOG_ACTIONS.AUTHENTICATION.ACCOUNT_UNLOCKED,
+        `Account unlocked by ${currentUser.username}`,
+        req.ip
+      );
+      
+      await ActivityLogger.logUserActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.USER.UNLOCK,
+        `Unlocked user: ${user.username} (ID: ${user.id})`
+      );
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error unlocking user:", error);
+      res.status(500).json({ error: "Failed to unlock user" });
+    }
+  });
+  
   // Add DELETE endpoint for users
-  app.delete("/api/users/:id", async (req: Request, res: Response) => {
+  app.delete("/api/users/:id", isAdmin, async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       
       // Check if user exists
-      const user = await fileStorage.getUser(id);
+      const user = await storage.getUser(id);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
       
       // Delete the user
-      const success = await fileStorage.deleteUser(id);
+      const success = await storage.deleteUser(id);
       
       if (success) {
         // Get information about the current user who is making the change
-        const userInfoHeader = req.headers["user-info"];
-        let currentUser = { id: 0, username: "unknown" };
+        const currentUser = getCurrentUser(req);
         
-        if (userInfoHeader) {
-          try {
-            currentUser = JSON.parse(userInfoHeader as string);
-          } catch (e) {
-            console.error("Error parsing user info:", e);
-          }
-        }
+        closeUserStreams(user.id);
         
         // Log the user deletion activity
         const details = `Deleted user: ${user.username} (ID: ${user.id}, Role: ${user.role})`;
@@ -964,7 +3702,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Losses Management Routes
   app.get("/api/losses", async (req: Request, res: Response) => {
     try {
-      const losses = await fileStorage.getLosses();
+      const losses = await storage.getLosses();
       res.json(losses);
     } catch (error) {
       console.error("Error fetching losses:", error);
@@ -975,7 +3713,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/losses/:id", async (req: Request, res: Response) => {
     try {
       const id = req.params.id;
-      const loss = await fileStorage.getLoss(id);
+      const loss = await storage.getLoss(id);
       
       if (!loss) {
         return res.status(404).json({ error: "Loss record not found" });
@@ -991,18 +3729,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/losses", async (req: Request, res: Response) => {
     try {
       // Basic validation
-      const requiredFields = ['inventoryItemId', 'itemName', 'quantity', 'reason', 'recordedBy', 'value'];
+      const requiredFields = ['inventoryItemId', 'itemName', 'quantity', 'reason', 'value'];
       for (const field of requiredFields) {
         if (req.body[field] === undefined) {
           return res.status(400).json({ error: `Missing required field: ${field}` });
         }
       }
 
-      // Get current user for logging
+      const inventoryItemId = Number(req.body.inventoryItemId);
+      if (!Number.isInteger(inventoryItemId) || inventoryItemId <= 0) {
+        return res.status(400).json({ error: "inventoryItemId must be an item ID" });
+      }
+      const lostItem = await storage.getInventoryItem(inventoryItemId);
+      if (!lostItem) {
+        return res.status(404).json({ error: "Inventory item not found" });
+      }
+      if (typeof req.body.quantity !== 'number' || !isValidQuantity(lostItem, req.body.quantity)) {
+        return res.status(400).json({
+          error: lostItem.soldByWeight ? "quantity must be a positive number" : "quantity must be a positive whole number"
+        });
+      }
+      if (typeof req.body.value !== 'number' || !Number.isFinite(req.body.value)) {
+        return res.status(400).json({ error: "value must be a number" });
+      }
+
+      // The loss is recorded under whoever is signed in, whatever the request says
       const currentUser = getCurrentUser(req);
-      
+      req.body.inventoryItemId = inventoryItemId;
+      req.body.recordedBy = currentUser.username;
+
+      // A lot write-off takes the stock from that lot rather than first-expired-first-out
+      if (req.body.lotId !== undefined && req.body.lotId !== null) {
+        const lot = lostItem.lots?.find(entry => entry.id === Number(req.body.lotId));
+        if (!lot) {
+          return res.status(404).json({ error: "Lot not found" });
+        }
+        if (req.body.quantity > lot.quantity) {
+          return res.status(400).json({ error: `Only ${lot.quantity} ${lostItem.unit} left in ${describeLot(lot)}` });
+        }
+        req.body.lotId = lot.id;
+        req.body.lotNumber = lot.lotNumber;
+        req.body.expiryDate = lot.expiryDate;
+      }
+
+      // Lost stock comes out of the stock held at one location
+      const found = await findStockLocation(req.body.locationId);
+      if ("error" in found) {
+        return res.status(found.status).json({ error: found.error });
+      }
+      req.body.locationId = found.location.id;
+
       // Create detailed log message for new loss
-      const detailsMessage = `Recorded loss of ${req.body.quantity} ${req.body.itemName} | Reason: "${req.body.reason}" | Value: $${req.body.value.toFixed(2)}`;
+      const lotMessage = req.body.lotId !== undefined && req.body.lotId !== null ? ` | ${describeLot(req.body)}` : "";
+      const detailsMessage = `Recorded loss of ${req.body.quantity} ${req.body.itemName} at ${found.location.name} | Reason: "${req.body.reason}" | Value: $${req.body.value.toFixed(2)}${lotMessage}`;
       
       // Log the detailed loss information
       await ActivityLogger.logLossActivity(
@@ -1012,33 +3791,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
         detailsMessage
       );
       
-      const newLoss = await fileStorage.addLoss(req.body);
-      
-      // Update inventory stock (deduct the lost quantity)
-      const inventoryItem = await fileStorage.getInventoryItem(req.body.inventoryItemId);
-      if (inventoryItem) {
-        const newStock = Math.max(0, inventoryItem.stock - req.body.quantity);
-        await fileStorage.updateInventoryItem(req.body.inventoryItemId, { 
-          stock: newStock 
-        });
-        
-        // Check if this change affects low stock status
-        if (inventoryItem.stock > inventoryItem.threshold && newStock <= inventoryItem.threshold) {
-          // Item just went below threshold, increment lowStockItems
-          const stats = await fileStorage.getStats();
-          await fileStorage.updateStats({ 
-            lowStockItems: stats.lowStockItems + 1 
-          });
-        }
-      }
+      // Records the loss and deducts the lost quantity from stock
+      const newLoss = await storage.addLoss(req.body);
+      await notifyLowStock([lostItem], [newLoss.inventoryItemId]);
       
       res.status(201).json(newLoss);
+      checkAlertRules();
     } catch (error: any) {
       console.error("Error adding loss:", error);
       res.status(500).json({ error: error.message || "Failed to record loss" });
     }
   });
   
+  // Write off expired lots as losses with reason "Expired"; every expired lot unless `lots` picks some
+  app.post("/api/losses/expired", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const selected = req.body?.lots;
+      if (selected !== undefined && !(Array.isArray(selected) && selected.every(entry =>
+        Number.isInteger(entry?.productId) && Number.isInteger(entry?.lotId)))) {
+        return res.status(400).json({ error: "lots must be a list of { productId, lotId }" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      const inventory = await storage.getInventory();
+      const expired = findExpiringLots(inventory, -1, localDate())
+        .filter(entry => !selected || selected.some((pick: { productId: number; lotId: number }) =>
+          pick.productId === entry.productId && pick.lotId === entry.lot.id));
+      
+      const losses = [];
+      for (const entry of expired) {
+        // Lots aren't kept per location, so the write-off comes out of wherever the item is held
+        const item = await storage.getInventoryItem(entry.productId);
+        for (const portion of item ? spreadOverLocations(item, entry.lot.quantity) : []) {
+          losses.push(await storage.addLoss({
+            inventoryItemId: entry.productId,
+            itemName: entry.productName,
+            quantity: portion.quantity,
+            reason: "Expired",
+            recordedBy: currentUser.username,
+            value: roundCurrency(portion.quantity * item!.price),
+            lotId: entry.lot.id,
+            lotNumber: entry.lot.lotNumber,
+            expiryDate: entry.lot.expiryDate,
+            locationId: portion.locationId
+          }));
+        }
+      }
+      
+      if (losses.length > 0) {
+        const value = roundCurrency(losses.reduce((sum, loss) => sum + loss.value, 0));
+        await ActivityLogger.logLossActivity(
+          currentUser.id,
+          currentUser.username,
+          LOG_ACTIONS.LOSSES.CREATE,
+          `Wrote off ${losses.length} expired lot(s) | Value: $${value.toFixed(2)} | ` +
+            losses.map(loss => `${loss.quantity} ${loss.itemName} (${describeLot(loss)})`).join(", ")
+        );
+        await notifyLowStock(inventory, losses.map(loss => loss.inventoryItemId));
+      }
+      
+      res.status(201).json(losses);
+      if (losses.length > 0) {
+        checkAlertRules();
+      }
+    } catch (error) {
+      console.error("Error writing off expired lots:", error);
+      res.status(500).json({ error: "Failed to write off expired lots" });
+    }
+  });
+  
   // Update loss record
   app.put("/api/losses/:id", async (req: Request, res: Response) => {
     try {
@@ -1050,11 +3871,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Loss ID is required' });
       }
       
+      // Corrections go back to the location the stock was lost from
+      delete updates.locationId;
+      
       // Get current user info for logging
       const currentUser = getCurrentUser(req);
       
       // Get original loss data for detailed logging
-      const originalLoss = await fileStorage.getLoss(id);
+      const originalLoss = await storage.getLoss(id);
       
       // Prepare detailed log message for loss updates
       let detailsMessage = `Updated loss record with ID: ${id}`;
@@ -1079,13 +3903,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       
       // Update the loss record
-      const updatedLoss = await fileStorage.updateLoss(id, updates);
+      const updatedLoss = await storage.updateLoss(id, updates, currentUser.username);
       
       if (!updatedLoss) {
         return res.status(404).json({ error: `Loss record with ID ${id} not found` });
       }
       
       res.status(200).json(updatedLoss);
+      checkAlertRules();
     } catch (error: any) {
       console.error("Error updating loss record:", error);
       res.status(500).json({ error: error.message || "Failed to update loss record" });
@@ -1095,7 +3920,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Low Stock Alerts
   app.get("/api/alerts/low-stock", async (req: Request, res: Response) => {
     try {
-      const items = await fileStorage.getInventory();
+      const filter = await findLocationFilter(req.query);
+      if ("error" in filter) {
+        return res.status(filter.status).json({ error: filter.error });
+      }
+      
+      // Filtered to a location, each item's stock is what is held there; bundles hold none
+      const items = (await storage.getInventory())
+        .filter(item => !isBundle(item))
+        .map(item => atLocation(item, filter.locationId));
       // Type checking is handled in getInventory method
       const lowStockItems = items.filter(item => {
         if (typeof item.stock === 'number' && typeof item.threshold === 'number') {
@@ -1109,11 +3942,251 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(500).json({ error: "Failed to fetch low stock items" });
     }
   });
+
+  // Lots that have expired or expire within `days` (EXPIRY_ALERT_DAYS by default), soonest first
+  app.get("/api/alerts/expiring", async (req: Request, res: Response) => {
+    try {
+      const days = req.query.days !== undefined ? parseInt(req.query.days as string) : config.expiryAlertDays;
+      if (!Number.isInteger(days) || days < 0) {
+        return res.status(400).json({ error: "days must be a whole number of days" });
+      }
+      
+      res.json({
+        days,
+        today: localDate(),
+        lots: findExpiringLots(await storage.getInventory(), days, localDate())
+      });
+    } catch (error) {
+      console.error("Error fetching expiring lots:", error);
+      res.status(500).json({ error: "Failed to fetch expiring lots" });
+    }
+  });
+
+  // Reorder suggestions from sales velocity, supplier lead times and pack sizes
+  const getReorderSuggestions = async () => suggestReorders(
+    await storage.getInventory(),
+    await storage.getSales(),
+    await storage.getSuppliers(),
+    await storage.getPurchaseOrders(),
+    {
+      velocityDays: config.reorderVelocityDays,
+      safetyDays: config.reorderSafetyDays,
+      coverDays: config.reorderCoverDays
+    }
+  );
+
+  app.get("/api/alerts/reorder-suggestions", async (req: Request, res: Response) => {
+    try {
+      res.json({
+        velocityDays: config.reorderVelocityDays,
+        safetyDays: config.reorderSafetyDays,
+        coverDays: config.reorderCoverDays,
+        suggestions: await getReorderSuggestions()
+      });
+    } catch (error) {
+      console.error("Error fetching reorder suggestions:", error);
+      res.status(500).json({ error: "Failed to fetch reorder suggestions" });
+    }
+  });
+
+  // Set thresholds to the suggested reorder points; all selling items unless productIds are given
+  app.post("/api/alerts/reorder-suggestions/thresholds", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const validation = z.object({
+        productIds: z.array(z.number().int().positive()).optional()
+      }).safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid threshold update",
+          details: validation.error.errors
+        });
+      }
+
+      const { productIds } = validation.data;
+      const suggestions = (await getReorderSuggestions()).filter(suggestion =>
+        productIds
+          ? productIds.includes(suggestion.productId)
+          : suggestion.velocity > 0
+      );
+
+      const updated = [];
+      for (const suggestion of suggestions) {
+        if (suggestion.reorderPoint === suggestion.threshold) {
+          continue;
+        }
+        const item = await storage.updateInventoryItem(suggestion.productId, { threshold: suggestion.reorderPoint });
+        if (item) {
+          updated.push({
+            productId: item.id,
+            name: item.name,
+            previousThreshold: suggestion.threshold,
+            threshold: item.threshold
+          });
+        }
+      }
+
+      if (updated.length > 0) {
+        const currentUser = getCurrentUser(req);
+        await ActivityLogger.logInventoryActivity(
+          currentUser.id,
+          currentUser.username,
+          LOG_ACTIONS.INVENTORY.THRESHOLDS_UPDATE,
+          updated.map(entry => `${entry.name} threshold changed from ${entry.previousThreshold} to ${entry.threshold}`).join(", ")
+        );
+      }
+
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error updating reorder thresholds:", error);
+      res.status(500).json({ error: "Failed to update reorder thresholds" });
+    }
+  });
+
+  // Alert Rule Routes
+  app.get("/api/alert-rules", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getAlertRules());
+    } catch (error) {
+      console.error("Error fetching alert rules:", error);
+      res.status(500).json({ error: "Failed to fetch alert rules" });
+    }
+  });
+  
+  // Alerts the rules have raised, newest first
+  app.get("/api/alert-rules/alerts", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const alerts = await storage.getRuleAlerts();
+      res.json(alerts.sort((a, b) => b.raisedAt.localeCompare(a.raisedAt) || b.id - a.id));
+    } catch (error) {
+      console.error("Error fetching rule alerts:", error);
+      res.status(500).json({ error: "Failed to fetch rule alerts" });
+    }
+  });
+  
+  // Check the rules now rather than waiting for the next change or scheduled check
+  app.post("/api/alert-rules/check", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      await checkAlertRules();
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error checking alert rules:", error);
+      res.status(500).json({ error: "Failed to check alert rules" });
+    }
+  });
+  
+  app.post("/api/alert-rules", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const validation = insertAlertRuleSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid alert rule", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      const rule = await storage.addAlertRule({
+        ...validation.data,
+        createdBy: currentUser.username,
+        createdAt: new Date().toISOString()
+      });
+      
+      await ActivityLogger.logAlertActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.ALERTS.RULE_CREATE,
+        `Created alert rule: ${rule.name} (ID: ${rule.id}, ${describeAlertRule(rule)})`
+      );
+      await checkAlertRules();
+      
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error("Error creating alert rule:", error);
+      res.status(500).json({ error: "Failed to create alert rule" });
+    }
+  });
+  
+  app.put("/api/alert-rules/:id", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getAlertRule(id);
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Alert rule not found" });
+      }
+      
+      // As with promotions, the rule form replaces every field and the active toggle sends only that
+      const { id: _id, createdBy, createdAt, ...current } = existing;
+      const fullEdit = req.body.type !== undefined;
+      const validation = insertAlertRuleSchema.safeParse(
+        fullEdit ? { active: existing.active, ...req.body } : { ...current, ...req.body }
+      );
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid alert rule", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const cleared = fullEdit
+        ? Object.fromEntries(Object.keys(current).map(key => [key, undefined]))
+        : {};
+      const rule = await storage.updateAlertRule(id, { ...cleared, ...validation.data });
+      if (!rule) {
+        return res.status(404).json({ error: "Alert rule not found" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      let details = `Updated alert rule: ${rule.name} (ID: ${rule.id}, ${describeAlertRule(rule)})`;
+      if (existing.active !== rule.active) {
+        details += `, ${rule.active ? "Enabled" : "Disabled"}`;
+      }
+      
+      await ActivityLogger.logAlertActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.ALERTS.RULE_UPDATE,
+        details
+      );
+      await checkAlertRules();
+      
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating alert rule:", error);
+      res.status(500).json({ error: "Failed to update alert rule" });
+    }
+  });
+  
+  // Alerts the rule raised are kept; any still open are resolved by the next check
+  app.delete("/api/alert-rules/:id", isAdminOrManager, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const rule = await storage.getAlertRule(id);
+      
+      if (!rule || !(await storage.deleteAlertRule(id))) {
+        return res.status(404).json({ error: "Alert rule not found" });
+      }
+      
+      const currentUser = getCurrentUser(req);
+      await ActivityLogger.logAlertActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.ALERTS.RULE_DELETE,
+        `Deleted alert rule: ${rule.name} (ID: ${rule.id})`
+      );
+      await checkAlertRules();
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting alert rule:", error);
+      res.status(500).json({ error: "Failed to delete alert rule" });
+    }
+  });
   
   // Store Settings Routes
   app.get("/api/settings", async (req: Request, res: Response) => {
     try {
-      const settings = await fileStorage.getStoreSettings();
+      const settings = await storage.getStoreSettings();
       res.json(settings);
     } catch (error) {
       console.error("Error fetching store settings:", error);
@@ -1124,7 +4197,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Favicon endpoint - returns the store logo as a favicon
   app.get("/api/settings/favicon", async (req: Request, res: Response) => {
     try {
-      const settings = await fileStorage.getStoreSettings();
+      const settings = await storage.getStoreSettings();
       if (settings.storeLogo) {
         // If store logo exists, use it for the favicon
         const base64Data = settings.storeLogo.replace(/^data:image\/\w+;base64,/, '');
@@ -1141,7 +4214,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.put("/api/settings", async (req: Request, res: Response) => {
+  app.put("/api/settings", isAdmin, async (req: Request, res: Response) => {
     try {
       // Basic validation
       const { storeName, storeAddress, storePhone, thankYouMessage } = req.body;
@@ -1149,7 +4222,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Missing required fields" });
       }
       
-      const updatedSettings = await fileStorage.updateStoreSettings(req.body);
+      // Tax rates are percentages between 0 and 100
+      const taxValidation = storeSettingsSchema
+        .pick({ taxRate: true })
+        .safeParse(req.body);
+      if (!taxValidation.success) {
+        return res.status(400).json({ 
+          error: "Invalid tax rates", 
+          details: taxValidation.error.errors 
+        });
+      }
+      
+      const scaleValidation = storeSettingsSchema
+        .pick({ scaleBarcodes: true })
+        .safeParse(req.body);
+      if (!scaleValidation.success) {
+        return res.status(400).json({ 
+          error: "Invalid scale label settings", 
+          details: scaleValidation.error.errors 
+        });
+      }
+      
+      const businessDayValidation = storeSettingsSchema
+        .pick({ businessDay: true })
+        .safeParse(req.body);
+      if (!businessDayValidation.success) {
+        return res.status(400).json({ 
+          error: "Invalid business day settings", 
+          details: businessDayValidation.error.errors 
+        });
+      }
+      
+      // Per-category rates follow the categories' own tax rates, so any sent here are ignored
+      const { taxCategoryRates: _taxCategoryRates, ...updates } = req.body;
+      const updatedSettings = await storage.updateStoreSettings(updates);
       res.json(updatedSettings);
     } catch (error) {
       console.error("Error updating store settings:", error);
@@ -1244,11 +4350,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * User Authentication
    * 
    * Handles login requests with secure validation and logging.
-   * Creates a session with 2-hour inactivity timeout.
+   * Issues a signed session token that expires after the configured session max age.
    */
   app.post("/api/login", async (req: Request, res: Response) => {
     try {
       const { username, pin } = req.body;
+      const ipAddress = req.ip;
       
       if (!username || !pin) {
         // Log failed login due to missing credentials
@@ -1256,22 +4363,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
           0,
           username || "unknown",
           LOG_ACTIONS.AUTHENTICATION.FAILED_LOGIN,
-          "Failed login attempt: Missing credentials"
+          "Failed login attempt: Missing credentials",
+          ipAddress
         );
         return res.status(400).json({ error: "Username and PIN are required" });
       }
       
-      const user = await fileStorage.getUserByUsername(username);
+      // Reject attempts while the account or client address is locked out
+      const lockout = await getLockoutStatus(username, ipAddress);
+      if (lockout.locked) {
+        await ActivityLogger.logAuthActivity(
+          0,
+          username,
+          LOG_ACTIONS.AUTHENTICATION.ACCOUNT_LOCKED,
+          `Login rejected: ${lockout.scope === "ip" ? "address" : "account"} locked until ${lockout.lockedUntil}`,
+          ipAddress
+        );
+        return res.status(423).json({ 
+          error: "Too many failed login attempts. Please try again later or contact an administrator.",
+          lockedUntil: lockout.lockedUntil
+        });
+      }
+      
+      const user = await storage.getUserByUsername(username);
       
-      if (!user || user.pin !== pin) {
+      if (!user || !(await verifyPin(pin, user.pin))) {
         // Log failed login due to invalid credentials
         await ActivityLogger.logAuthActivity(
           0,
           username,
           LOG_ACTIONS.AUTHENTICATION.FAILED_LOGIN,
-          "Failed login attempt: Invalid credentials"
+          "Failed login attempt: Invalid credentials",
+          ipAddress
         );
-        return res.status(401).json({ error: "Invalid username or PIN" });
+        
+        // Report the lockout if this attempt reached the limit
+        const status = await getLockoutStatus(username, ipAddress);
+        if (status.locked) {
+          await ActivityLogger.logAuthActivity(
+            user?.id || 0,
+            username,
+            LOG_ACTIONS.AUTHENTICATION.ACCOUNT_LOCKED,
+            `Locked after repeated failed login attempts until ${status.lockedUntil}`,
+            ipAddress
+          );
+          await notifyLoginLockout(username, ipAddress, status.scope);
+          return res.status(423).json({ 
+            error: "Too many failed login attempts. Please try again later or contact an administrator.",
+            lockedUntil: status.lockedUntil
+          });
+        }
+        
+        return res.status(401).json({ 
+          error: "Invalid username or PIN",
+          remainingAttempts: status.remainingAttempts
+        });
       }
       
       // Check if user is inactive
@@ -1281,20 +4427,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
           user.id,
           username,
           LOG_ACTIONS.AUTHENTICATION.FAILED_LOGIN,
-          "Failed login attempt: Inactive account"
+          "Failed login attempt: Inactive account",
+          ipAddress
         );
         return res.status(403).json({ error: "Your account is inactive. Please contact an administrator." });
       }
       
-      // Calculate session validity (2 hours from now)
+      // Issue a signed session token
       const now = new Date();
-      const sessionValidUntil = new Date(now);
-      sessionValidUntil.setHours(sessionValidUntil.getHours() + 2);
+      const { token, expiresAt } = createSessionToken(user.id);
       
       // Update last active timestamp and session info for the user
-      await fileStorage.updateUser(user.id, { 
+      await storage.updateUser(user.id, { 
         lastActive: now.toISOString(),
-        sessionValidUntil: sessionValidUntil.toISOString()
+        sessionValidUntil: expiresAt.toISOString()
       });
       
       // Log successful login
@@ -1302,19 +4448,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         user.id,
         username,
         LOG_ACTIONS.AUTHENTICATION.LOGIN,
-        "User logged in successfully"
+        "User logged in successfully",
+        ipAddress
       );
       
-      // User info is stored in client's session storage with timeout protection
       // Sensitive information like PIN is excluded from the response
       const { pin: _, ...userWithoutPin } = user;
       
       // Include session information in the response
       res.json({
         success: true,
+        token,
         user: {
           ...userWithoutPin,
-          sessionValidUntil: sessionValidUntil.toISOString()
+          sessionValidUntil: expiresAt.toISOString()
         }
       });
     } catch (error) {
@@ -1330,6 +4477,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  /**
+   * User Logout
+   * 
+   * Revokes the current session token so it can no longer be used.
+   */
+  app.post("/api/logout", async (req: Request, res: Response) => {
+    try {
+      const currentUser = getCurrentUser(req);
+      
+      if (req.sessionToken) {
+        revokeSessionToken(req.sessionToken);
+        closeTokenStreams(req.sessionToken.jti);
+      }
+      
+      await storage.updateUser(currentUser.id, {
+        sessionValidUntil: new Date().toISOString()
+      });
+      
+      await ActivityLogger.logAuthActivity(
+        currentUser.id,
+        currentUser.username,
+        LOG_ACTIONS.AUTHENTICATION.LOGOUT,
+        "User logged out"
+      );
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error during logout:", error);
+      res.status(500).json({ error: "Logout failed" });
+    }
+  });
+
+  /**
+   * Session Refresh
+   * 
+   * Exchanges a valid session token for a new one with a fresh expiry.
+   * The previous token is revoked.
+   */
+  app.post("/api/session/refresh", async (req: Request, res: Response) => {
+    try {
+      const currentUser = getCurrentUser(req);
+      
+      if (req.sessionToken) {
+        revokeSessionToken(req.sessionToken);
+        closeTokenStreams(req.sessionToken.jti);
+      }
+      
+      const { token, expiresAt } = createSessionToken(currentUser.id);
+      
+      await storage.updateUser(currentUser.id, {
+        lastActive: new Date().toISOString(),
+        sessionValidUntil: expiresAt.toISOString()
+      });
+      
+      res.json({
+        success: true,
+        token,
+        sessionValidUntil: expiresAt.toISOString()
+      });
+    } catch (error) {
+      console.error("Error refreshing session:", error);
+      res.status(500).json({ error: "Failed to refresh session" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
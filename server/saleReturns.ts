@@ -0,0 +1,260 @@
+/**
+ * Sale Returns
+ *
+ * Prices a return against a recorded sale. Each returned quantity is refunded
+ * at what the customer actually paid for it, after discounts and including
+ * tax, and can never exceed what is left on the sale after earlier returns.
+ * Returning the last of a line refunds whatever is left of it, so several
+ * partial returns always add up to exactly the amount paid.
+ */
+import type { LossItem, ReturnLine, Sale } from "./storage";
+import { roundCurrency } from "@shared/tax";
+import { remainingQuantities, REFUND_REASON_LABELS, saleLineOf } from "@shared/refunds";
+import { roundQuantity } from "@shared/weighing";
+import type { RefundRequest } from "@shared/schema";
+import type { TenderType } from "@shared/tenders";
+
+export type ReturnLineErrorCode =
+  | "NOT_ON_SALE"
+  | "DUPLICATE_LINE"
+  | "EXCEEDS_REMAINING";
+
+// A problem with one line of a requested return
+export type ReturnLineError = {
+  line: number;          // Index of the line in the submitted return
+  productId: number;
+  code: ReturnLineErrorCode;
+  message: string;
+  remaining?: number;    // Quantity still returnable, for EXCEEDS_REMAINING
+};
+
+// Return lines and totals as priced by the server
+export type PricedReturn = {
+  lines: ReturnLine[];
+  amount: number;
+  tax: number;
+  lineErrors: ReturnLineError[];
+};
+
+/**
+ * Thrown by storage when a return asks for more than is left on the sale
+ */
+export class ReturnQuantityError extends Error {
+  constructor(public lineErrors: ReturnLineError[]) {
+    super("One or more lines cannot be returned");
+    this.name = "ReturnQuantityError";
+  }
+}
+
+// Returned quantities may differ from what is left by floating point noise only
+const QUANTITY_TOLERANCE = 0.0005;
+
+/**
+ * How a refund is given back when the request doesn't say: the way the sale
+ * was paid, preferring cash for split payments
+ */
+export function defaultRefundTender(sale: Sale): TenderType {
+  if (!sale.tenders || sale.tenders.length === 0) {
+    return "cash";
+  }
+  return sale.tenders.some(tender => tender.type === "cash") ? "cash" : sale.tenders[0].type;
+}
+
+/**
+ * Price a return against a sale
+ * Without `lines`, everything still returnable is returned to stock. A line
+ * without a `saleLine` takes its quantity from the product's lines on the
+ * sale in order, for a product rung up on more than one line.
+ *
+ * @param sale - The sale being returned against, with its earlier returns
+ * @param request - Lines and quantities to return
+ * @returns Priced return lines and totals, with any per-line problems
+ */
+export function priceReturn(sale: Sale, request: Pick<RefundRequest, "lines">): PricedReturn {
+  const remaining = remainingQuantities(sale);
+  const requested = request.lines ?? sale.items
+    .map((item, index) => ({ saleLine: index, productId: item.productId, quantity: remaining[index], restock: true }))
+    .filter(line => line.quantity > 0);
+
+  const lines: ReturnLine[] = [];
+  const lineErrors: ReturnLineError[] = [];
+  const listed = new Set<number>();
+  // Quantity of each sale line taken by earlier lines of this return
+  const taken = sale.items.map(() => 0);
+
+  requested.forEach((line, index) => {
+    const candidates = line.saleLine !== undefined
+      ? [line.saleLine].filter(saleLine => sale.items[saleLine]?.productId === line.productId)
+      : sale.items.flatMap((item, saleLine) => item.productId === line.productId ? [saleLine] : []);
+    if (candidates.length === 0) {
+      lineErrors.push({
+        line: index,
+        productId: line.productId,
+        code: "NOT_ON_SALE",
+        message: line.saleLine !== undefined
+          ? `Product ${line.productId} is not line ${line.saleLine + 1} of this sale`
+          : `Product ${line.productId} is not on this sale`
+      });
+      return;
+    }
+    const item = sale.items[candidates[0]];
+
+    if (line.saleLine !== undefined) {
+      if (listed.has(line.saleLine)) {
+        lineErrors.push({
+          line: index,
+          productId: line.productId,
+          code: "DUPLICATE_LINE",
+          message: `${item.name} on line ${line.saleLine + 1} is listed more than once`
+        });
+        return;
+      }
+      listed.add(line.saleLine);
+    }
+
+    const left = roundQuantity(candidates.reduce((sum, saleLine) => sum + remaining[saleLine] - taken[saleLine], 0));
+    if (line.quantity > left + QUANTITY_TOLERANCE) {
+      lineErrors.push({
+        line: index,
+        productId: line.productId,
+        code: "EXCEEDS_REMAINING",
+        message: left > 0
+          ? `Only ${left} ${item.unit} of ${item.name} can still be returned`
+          : `${item.name} has already been returned`,
+        remaining: left
+      });
+      return;
+    }
+
+    // Take the quantity from each candidate line in turn
+    let outstanding = line.quantity;
+    candidates.forEach(saleLine => {
+      const available = remaining[saleLine] - taken[saleLine];
+      if (outstanding <= QUANTITY_TOLERANCE || available <= QUANTITY_TOLERANCE) {
+        return;
+      }
+      const quantity = Math.min(outstanding, available);
+      outstanding -= quantity;
+      lines.push(priceReturnLine(sale, saleLine, quantity, taken[saleLine], lines, line.restock));
+      taken[saleLine] += quantity;
+    });
+  });
+
+  return {
+    lines,
+    amount: roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0)),
+    tax: roundCurrency(lines.reduce((sum, line) => sum + line.tax, 0)),
+    lineErrors
+  };
+}
+
+/**
+ * Price the quantity returned from one sale line
+ * Returning the last of the line refunds whatever is left of what was paid for it.
+ *
+ * @param sale - The sale, with its earlier returns
+ * @param saleLine - Index of the line on the sale
+ * @param quantity - Quantity to return from it
+ * @param takenBefore - Quantity of the line already taken by this return
+ * @param pricedBefore - Lines of this return priced so far
+ * @param restock - Whether the items go back in stock
+ */
+function priceReturnLine(
+  sale: Sale,
+  saleLine: number,
+  quantity: number,
+  takenBefore: number,
+  pricedBefore: ReturnLine[],
+  restock: boolean
+): ReturnLine {
+  const item = sale.items[saleLine];
+  const left = remainingQuantities(sale)[saleLine] - takenBefore;
+
+  // What the customer paid for the whole line, and what has been given back already
+  const paid = roundCurrency(item.subtotal - (item.discount || 0) + (item.tax || 0));
+  const paidTax = item.tax || 0;
+  const earlier = [
+    ...(sale.returns || []).flatMap(saleReturn => saleReturn.lines),
+    ...pricedBefore
+  ].filter(returned => saleLineOf(sale, returned) === saleLine);
+  const refunded = roundCurrency(earlier.reduce((sum, returned) => sum + returned.amount, 0));
+  const refundedTax = roundCurrency(earlier.reduce((sum, returned) => sum + returned.tax, 0));
+
+  const isLast = Math.abs(quantity - left) <= QUANTITY_TOLERANCE;
+  const share = quantity / item.quantity;
+
+  return {
+    saleLine,
+    productId: item.productId,
+    name: item.name,
+    quantity: isLast ? roundQuantity(left) : quantity,
+    restocked: restock,
+    amount: isLast ? roundCurrency(paid - refunded) : roundCurrency(paid * share),
+    tax: isLast ? roundCurrency(paidTax - refundedTax) : roundCurrency(paidTax * share)
+  };
+}
+
+/**
+ * Add a priced return to a sale
+ * The sale is marked refunded once nothing is left to return.
+ */
+export function recordReturn(
+  sale: Sale,
+  priced: PricedReturn,
+  refund: RefundRequest,
+  processedBy: string,
+  date: string,
+  shiftId?: number
+): Sale {
+  const returns = [
+    ...(sale.returns || []),
+    {
+      id: (sale.returns?.length || 0) + 1,
+      date,
+      processedBy,
+      ...(shiftId !== undefined ? { shiftId } : {}),
+      reason: refund.reason,
+      ...(refund.notes ? { notes: refund.notes } : {}),
+      tender: refund.tender ?? defaultRefundTender(sale),
+      lines: priced.lines,
+      amount: priced.amount,
+      tax: priced.tax
+    }
+  ];
+  const updatedSale: Sale = {
+    ...sale,
+    returns,
+    refundedAmount: roundCurrency((sale.refundedAmount || 0) + priced.amount),
+    refundedBy: processedBy,
+    refundDate: date
+  };
+
+  const fullyReturned = remainingQuantities(updatedSale).every(quantity => quantity <= QUANTITY_TOLERANCE);
+  updatedSale.status = fullyReturned ? "Refunded" : "Partially Refunded";
+  return updatedSale;
+}
+
+/**
+ * Loss records for returned items that were not put back in stock
+ * Valued at the refund before tax; the backend assigns the IDs.
+ */
+export function returnLosses(
+  sale: Sale,
+  priced: PricedReturn,
+  refund: RefundRequest,
+  recordedBy: string,
+  date: string
+): Omit<LossItem, "id">[] {
+  return priced.lines
+    .filter(line => !line.restocked)
+    .map(line => ({
+      inventoryItemId: line.productId,
+      itemName: line.name,
+      quantity: line.quantity,
+      reason: `Customer return (${REFUND_REASON_LABELS[refund.reason]}) - ${sale.id}`,
+      date,
+      recordedBy,
+      value: roundCurrency(line.amount - line.tax),
+      ...(sale.locationId !== undefined ? { locationId: sale.locationId } : {})
+    }));
+}
@@ -0,0 +1,372 @@
+/**
+ * Sale Validation
+ *
+ * Prices sale lines from the inventory catalog instead of trusting the prices
+ * and totals sent by the POS, applies promotions, discounts and sales tax, and
+ * checks that a sale would not sell more than is in stock. Problems are
+ * reported per line so the POS can show them next to the affected cart items.
+ * Sales rung up offline were already paid, so they are checked for what a
+ * manager should review instead of being re-priced.
+ */
+import type { InventoryItem, Sale, SaleItem } from "./storage";
+import { calculateLineTax, roundCurrency, type TaxSettings } from "@shared/tax";
+import { priceLines, type AppliedDiscount, type PricingLine } from "@shared/pricing";
+import { isValidQuantity, roundQuantity } from "@shared/weighing";
+import { DEFAULT_LOCATION_ID, stockAt } from "@shared/locations";
+import { bundleAvailability, isBundle, stockTaken } from "@shared/bundles";
+import { manualDiscountSchema, type ManualDiscount, type OfflineSale, type Promotion } from "@shared/schema";
+
+export type SaleLineErrorCode =
+  | "UNKNOWN_PRODUCT"
+  | "INVALID_QUANTITY"
+  | "PRICE_MISMATCH"
+  | "SUBTOTAL_MISMATCH"
+  | "INVALID_DISCOUNT"
+  | "INVALID_PRICE_OVERRIDE"
+  | "INSUFFICIENT_STOCK";
+
+// A problem with one line of a submitted sale
+export type SaleLineError = {
+  line: number;          // Index of the line in the submitted items
+  productId: number;
+  name?: string;
+  code: SaleLineErrorCode;
+  message: string;
+  expected?: number;     // Server value (price, subtotal)
+  received?: number;     // Value sent by the client
+  available?: number;    // Stock on hand, for INSUFFICIENT_STOCK
+};
+
+// Sale as submitted by the POS
+export type SaleRequest = {
+  items: any[];
+  amount: unknown;                 // Total including discounts and tax
+  cartDiscount?: ManualDiscount;
+};
+
+// Catalog data used to price a sale
+export type PricingCatalog = {
+  inventory: InventoryItem[];
+  promotions: Promotion[];
+  taxSettings: TaxSettings;
+};
+
+// Sale lines and totals as priced by the server
+export type PricedSale = {
+  items: SaleItem[];
+  subtotal: number;      // Before discounts and tax
+  discount: number;
+  cartDiscount?: AppliedDiscount;
+  tax: number;
+  amount: number;        // Including discounts and tax
+  hasPriceOverrides: boolean;
+  hasManualDiscounts: boolean; // Line or cart discounts entered at the till, as opposed to promotions
+  lineErrors: SaleLineError[];
+  amountMismatch?: { expected: number; received: number };
+};
+
+/**
+ * Thrown by storage when a sale would take stock below zero
+ */
+export class InsufficientStockError extends Error {
+  constructor(public lineErrors: SaleLineError[]) {
+    super("Insufficient stock for one or more items");
+    this.name = "InsufficientStockError";
+  }
+}
+
+/**
+ * Thrown by storage when a sale with the same idempotency key was already recorded
+ */
+export class DuplicateSaleError extends Error {
+  constructor(public sale: Sale) {
+    super(`Sale already recorded as ${sale.id}`);
+    this.name = "DuplicateSaleError";
+  }
+}
+
+// Client and server amounts may differ by floating point noise only
+const CURRENCY_TOLERANCE = 0.005;
+
+const differs = (received: unknown, expected: number) =>
+  typeof received === "number" && Math.abs(received - expected) > CURRENCY_TOLERANCE;
+
+/**
+ * Price the submitted sale lines from the current inventory
+ * A line may carry a `priceOverride` (which the caller must have approved)
+ * and a manual `discount`.
+ *
+ * @param request - Lines, total and cart discount as sent by the client
+ * @param catalog - Current inventory, promotions and tax rates
+ * @returns Server-priced lines and totals, with any per-line problems
+ */
+export function priceSaleItems(request: SaleRequest, catalog: PricingCatalog): PricedSale {
+  const lines: { item: InventoryItem; pricing: PricingLine }[] = [];
+  const lineErrors: SaleLineError[] = [];
+
+  request.items.forEach((requested, line) => {
+    const productId = Number(requested?.productId);
+    const requestedQuantity = Number(requested?.quantity);
+    const item = catalog.inventory.find(entry => entry.id === productId);
+
+    if (!item) {
+      lineErrors.push({
+        line,
+        productId,
+        name: requested?.name,
+        code: "UNKNOWN_PRODUCT",
+        message: `Product ${requested?.name || productId} is no longer in inventory`
+      });
+      return;
+    }
+
+    // Weighed items sell by the gram; everything else in whole units
+    if (!isValidQuantity(item, requestedQuantity)) {
+      lineErrors.push({
+        line,
+        productId,
+        name: item.name,
+        code: "INVALID_QUANTITY",
+        message: Number.isFinite(requestedQuantity) && requestedQuantity > 0
+          ? `${item.name} is sold in whole units`
+          : `Invalid quantity for ${item.name}`,
+        received: requested?.quantity
+      });
+      return;
+    }
+    const quantity = roundQuantity(requestedQuantity);
+
+    const hasOverride = requested.priceOverride !== undefined && requested.priceOverride !== null;
+    if (hasOverride && !(typeof requested.priceOverride === "number" && requested.priceOverride >= 0)) {
+      lineErrors.push({
+        line,
+        productId,
+        name: item.name,
+        code: "INVALID_PRICE_OVERRIDE",
+        message: `Invalid price override for ${item.name}`
+      });
+      return;
+    }
+
+    let discount: ManualDiscount | undefined;
+    if (requested.discount !== undefined && requested.discount !== null) {
+      const parsed = manualDiscountSchema.safeParse(requested.discount);
+      if (!parsed.success) {
+        lineErrors.push({
+          line,
+          productId,
+          name: item.name,
+          code: "INVALID_DISCOUNT",
+          message: `Invalid discount for ${item.name}`
+        });
+        return;
+      }
+      discount = parsed.data;
+    }
+
+    const price = hasOverride ? roundCurrency(requested.priceOverride) : item.price;
+    const subtotal = roundCurrency(price * quantity);
+
+    if (differs(requested.price, price)) {
+      lineErrors.push({
+        line,
+        productId,
+        name: item.name,
+        code: "PRICE_MISMATCH",
+        message: `Price of ${item.name} is now $${price.toFixed(2)}`,
+        expected: price,
+        received: requested.price
+      });
+    } else if (differs(requested.subtotal, subtotal)) {
+      lineErrors.push({
+        line,
+        productId,
+        name: item.name,
+        code: "SUBTOTAL_MISMATCH",
+        message: `Subtotal for ${item.name} should be $${subtotal.toFixed(2)}`,
+        expected: subtotal,
+        received: requested.subtotal
+      });
+    }
+
+    lines.push({
+      item,
+      pricing: {
+        productId: item.id,
+        category: item.category,
+        quantity,
+        price,
+        taxExempt: item.taxExempt,
+        priceOverridden: hasOverride,
+        discount
+      }
+    });
+  });
+
+  const pricing = priceLines(lines.map(line => line.pricing), {
+    promotions: catalog.promotions,
+    taxSettings: catalog.taxSettings,
+    cartDiscount: request.cartDiscount
+  });
+
+  const items: SaleItem[] = lines.map(({ item, pricing: line }, index) => {
+    const priced = pricing.lines[index];
+    return {
+      productId: item.id,
+      name: item.name,
+      quantity: line.quantity,
+      price: line.price,
+      unit: item.unit,
+      subtotal: priced.subtotal,
+      category: item.category,
+      ...(line.priceOverridden ? { listPrice: item.price } : {}),
+      ...(priced.discounts.length > 0 ? { discounts: priced.discounts, discount: priced.discount } : {}),
+      taxRate: priced.taxRate,
+      tax: priced.tax,
+      ...(item.taxExempt ? { taxExempt: true } : {}),
+      ...(isBundle(item) ? { components: item.components } : {})
+    };
+  });
+
+  const priced: PricedSale = {
+    items,
+    subtotal: pricing.subtotal,
+    discount: pricing.discount,
+    cartDiscount: pricing.cartDiscount,
+    tax: pricing.tax,
+    amount: pricing.total,
+    hasPriceOverrides: lines.some(line => line.pricing.priceOverridden),
+    hasManualDiscounts: pricing.lines.some(line => line.discounts.some(discount => discount.source !== "promotion")),
+    lineErrors
+  };
+
+  if (differs(request.amount, pricing.total)) {
+    priced.amountMismatch = { expected: pricing.total, received: request.amount as number };
+  }
+
+  return priced;
+}
+
+/**
+ * Find sale lines that would take stock at the selling location below zero
+ * Quantities for the same product on several lines are added together, and
+ * a bundle takes its components' stock along with any sold on their own.
+ *
+ * @param items - Priced sale lines
+ * @param inventory - Current inventory items, including the components of any bundles sold
+ * @param locationId - Where the stock is sold from
+ * @returns One error per line that cannot be filled
+ */
+export function findStockShortages(
+  items: SaleItem[],
+  inventory: InventoryItem[],
+  locationId = DEFAULT_LOCATION_ID
+): SaleLineError[] {
+  const requestedTotals = new Map<number, number>();
+  const shortages: SaleLineError[] = [];
+
+  items.forEach((saleItem, line) => {
+    const item = inventory.find(entry => entry.id === saleItem.productId);
+    if (!item) {
+      return;
+    }
+
+    const short = stockTaken(saleItem).filter(part => {
+      const stocked = inventory.find(entry => entry.id === part.productId);
+      const requested = roundQuantity((requestedTotals.get(part.productId) || 0) + part.quantity);
+      requestedTotals.set(part.productId, requested);
+      return !stocked || requested > stockAt(stocked, locationId);
+    });
+    if (short.length === 0) {
+      return;
+    }
+
+    if (saleItem.components) {
+      const component = inventory.find(entry => entry.id === short[0].productId);
+      shortages.push({
+        line,
+        productId: item.id,
+        name: item.name,
+        code: "INSUFFICIENT_STOCK",
+        message: `Not enough ${component?.name || "stock"} for ${item.name}`,
+        available: bundleAvailability(item, inventory, locationId)
+      });
+      return;
+    }
+
+    const available = stockAt(item, locationId);
+    shortages.push({
+      line,
+      productId: item.id,
+      name: item.name,
+      code: "INSUFFICIENT_STOCK",
+      message: `Only ${Math.max(0, available)} ${item.unit} of ${item.name} in stock`,
+      available
+    });
+  });
+
+  return shortages;
+}
+
+// Line taxes are rounded one by one, so totals may drift by a cent per line
+const OFFLINE_TOTAL_TOLERANCE = 0.01;
+
+/**
+ * Turn the lines of a sale rung up offline into sale lines, as the till charged them
+ * Nothing is re-priced: the customer paid these amounts. Prices that differ
+ * from the catalog, figures that don't add up and products since removed
+ * are returned as notes for a manager to review.
+ *
+ * @param offline - The sale as the till priced it
+ * @param inventory - Current inventory
+ * @returns The sale lines, and what a manager should check
+ */
+export function checkOfflineSale(offline: OfflineSale, inventory: InventoryItem[]): { items: SaleItem[]; reviewNotes: string[] } {
+  const reviewNotes: string[] = [];
+  const off = (received: number, expected: number, tolerance = CURRENCY_TOLERANCE) => Math.abs(received - expected) > tolerance;
+
+  const items: SaleItem[] = offline.items.map(line => {
+    const item = inventory.find(entry => entry.id === line.productId);
+    const discount = roundCurrency((line.discounts || []).reduce((sum, entry) => sum + entry.amount, 0));
+
+    if (!item) {
+      reviewNotes.push(`${line.name} is no longer in inventory, so no stock was taken for it`);
+    } else if (!isValidQuantity(item, line.quantity)) {
+      reviewNotes.push(`${line.quantity} ${item.unit} of ${item.name} isn't a quantity it is sold in`);
+    }
+    if (item && !line.priceOverridden && off(line.price, item.price)) {
+      reviewNotes.push(`${item.name} was rung up at $${line.price.toFixed(2)}; the catalog price is $${item.price.toFixed(2)}`);
+    }
+    if (off(line.subtotal, roundCurrency(line.price * line.quantity)) || discount > line.subtotal + CURRENCY_TOLERANCE ||
+        off(line.tax, calculateLineTax(line.subtotal - discount, line.taxRate), OFFLINE_TOTAL_TOLERANCE)) {
+      reviewNotes.push(`The till's figures for ${line.name} don't add up`);
+    }
+
+    return {
+      productId: line.productId,
+      name: item?.name ?? line.name,
+      quantity: line.quantity,
+      price: line.price,
+      unit: item?.unit ?? line.unit,
+      subtotal: line.subtotal,
+      ...(item ? { category: item.category } : {}),
+      ...(line.priceOverridden && item ? { listPrice: item.price } : {}),
+      ...(line.discounts && line.discounts.length > 0 ? { discounts: line.discounts, discount } : {}),
+      taxRate: line.taxRate,
+      tax: line.tax,
+      ...(item?.taxExempt ? { taxExempt: true } : {}),
+      ...(item && isBundle(item) ? { components: item.components } : {})
+    };
+  });
+
+  const sum = (values: number[]) => roundCurrency(values.reduce((total, value) => total + value, 0));
+  const tolerance = OFFLINE_TOTAL_TOLERANCE * items.length;
+  if (off(offline.subtotal, sum(items.map(item => item.subtotal)), tolerance) ||
+      off(offline.discount, sum(items.map(item => item.discount || 0)), tolerance) ||
+      off(offline.tax, sum(items.map(item => item.tax || 0)), tolerance) ||
+      off(offline.amount, roundCurrency(offline.subtotal - offline.discount + offline.tax))) {
+    reviewNotes.push("The till's totals don't add up to its lines");
+  }
+
+  return { items, reviewNotes };
+}
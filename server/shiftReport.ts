@@ -0,0 +1,93 @@
+/**
+ * Shift Report
+ *
+ * Builds the X report (mid-shift) and Z report (at close) for a register
+ * shift: sales rung up and returns processed in the shift, takings by
+ * tender, cash movements and the cash that should be in the drawer. At close
+ * the counted cash is compared with the expected amount and any variance is
+ * flagged.
+ */
+import type { Sale, Shift } from "./storage";
+import { summarizeTenders, type TenderSummaryRow } from "./tenderReport";
+import { roundCurrency } from "@shared/tax";
+
+export type ShiftReport = {
+  type: "X" | "Z";
+  shiftId: number;
+  cashier: string;
+  openedAt: string;
+  closedAt?: string;
+  closedBy?: string;
+  generatedAt: string;
+  saleCount: number;
+  grossSales: number;     // Total of sales rung up in the shift, including tax, whatever was returned later
+  discounts: number;
+  returns: number;        // Given back in the shift, whichever shift the sales were rung up in
+  tax: number;            // Net of tax returned in the shift
+  refundedSales: number;  // Sales in the shift that have since been refunded in full
+  tenders: TenderSummaryRow[];
+  openingFloat: number;
+  cashSales: number;      // Cash taken, net of change
+  paidIns: number;
+  paidOuts: number;
+  drops: number;
+  expectedCash: number;
+  countedCash?: number;
+  variance?: number;      // Counted minus expected; negative when short
+  varianceFlagged: boolean;
+};
+
+/**
+ * Build the X or Z report for a shift
+ * Open shifts get an X report; closed shifts get a Z report with the count.
+ *
+ * @param shift - The shift to report on
+ * @param sales - All recorded sales; those rung up in the shift and returns processed in it count
+ */
+export function buildShiftReport(shift: Shift, sales: Sale[]): ShiftReport {
+  const shiftSales = sales.filter(sale => sale.shiftId === shift.id);
+  const shiftReturns = sales
+    .flatMap(sale => sale.returns || [])
+    .filter(saleReturn => saleReturn.shiftId === shift.id);
+  const tenders = summarizeTenders(sales, { shiftId: shift.id });
+
+  const sum = (values: number[]) => roundCurrency(values.reduce((total, value) => total + value, 0));
+  const movementTotal = (type: Shift["movements"][number]["type"]) =>
+    sum(shift.movements.filter(movement => movement.type === type).map(movement => movement.amount));
+
+  const cashSales = tenders.find(row => row.id === "cash")?.amount || 0;
+  const paidIns = movementTotal("paid_in");
+  const paidOuts = movementTotal("paid_out");
+  const drops = movementTotal("drop");
+  // Closed shifts keep the amount expected when they were counted
+  const expectedCash = shift.expectedCash ??
+    roundCurrency(shift.openingFloat + cashSales + paidIns - paidOuts - drops);
+
+  return {
+    type: shift.status === "closed" ? "Z" : "X",
+    shiftId: shift.id,
+    cashier: shift.cashier,
+    openedAt: shift.openedAt,
+    closedAt: shift.closedAt,
+    closedBy: shift.closedBy,
+    generatedAt: new Date().toISOString(),
+    saleCount: shiftSales.length,
+    grossSales: sum(shiftSales.map(sale => sale.amount)),
+    discounts: sum(shiftSales.map(sale => sale.discount || 0)),
+    returns: sum(shiftReturns.map(saleReturn => saleReturn.amount)),
+    tax: roundCurrency(
+      sum(shiftSales.map(sale => sale.tax || 0)) - sum(shiftReturns.map(saleReturn => saleReturn.tax))
+    ),
+    refundedSales: shiftSales.filter(sale => sale.status === "Refunded").length,
+    tenders,
+    openingFloat: shift.openingFloat,
+    cashSales,
+    paidIns,
+    paidOuts,
+    drops,
+    expectedCash,
+    countedCash: shift.countedCash,
+    variance: shift.variance,
+    varianceFlagged: shift.variance !== undefined && Math.abs(shift.variance) >= 0.01
+  };
+}
@@ -0,0 +1,1594 @@
+/**
+ * SQLite Storage
+ *
+ * Storage backend that keeps all application data in a local SQLite database
+ * file instead of JSON files. Each record is a row, so a sale only touches the
+ * rows it changes rather than rewriting whole files. Records are stored as JSON
+ * documents alongside the key columns used for lookups, so they keep the same
+ * shape as the JSON file backend.
+ *
+ * Enabled with STORAGE_DRIVER=sqlite; existing JSON data can be imported with
+ * `npm run db:migrate-sqlite`.
+ */
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type {
+  User,
+  InsertUser,
+  Promotion,
+  RefundRequest,
+  Supplier,
+  InsertSupplier,
+  VariantGroup,
+  InsertVariantGroup,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  GoodsReceiptRequest,
+  StockCount,
+  StockCountEntries,
+  StockCountStatus,
+  StockLocation,
+  InsertStockLocation,
+  StockTransfer,
+  StockTransferRequest,
+  AlertRule,
+  Category,
+  InsertCategory
+} from '@shared/schema';
+import { hashPin, isHashedPin } from './pinSecurity';
+import { DuplicateSaleError, findStockShortages, InsufficientStockError } from './saleValidation';
+import { priceReturn, recordReturn, returnLosses, ReturnQuantityError } from './saleReturns';
+import { saleLineOf } from '@shared/refunds';
+import { canReceive, checkReceipt, recordReceipt, receivedCostPrice, ReceiptQuantityError } from './goodsReceipts';
+import { lossLotChange, moveStock, saleLineChange, stockAfterTaking, UNATTRIBUTED_CHANGE, type PendingStockMovement } from './stockMovements';
+import { formatPurchaseOrderNumber } from '@shared/purchaseOrders';
+import { recordCounts, postedStock, StockCountError } from './stockCounts';
+import { formatStockCountNumber } from '@shared/stockCounts';
+import { checkTransfer, sentLine, StockTransferError } from './stockTransfers';
+import { formatStockTransferNumber, transferPortions } from '@shared/stockTransfers';
+import { DEFAULT_LOCATION_ID } from '@shared/locations';
+import { categoryTaxRates } from '@shared/categories';
+import { categoriesInUse, refileCategory, type CategoryReferences } from './categories';
+import { stockTaken } from '@shared/bundles';
+import { summarizeStats } from './dashboardStats';
+import { config } from './config';
+import type {
+  IStorage,
+  InventoryItem,
+  SaleItem,
+  Sale,
+  SaleOptions,
+  Stats,
+  StoreSettings,
+  ProductPopularity,
+  LossItem,
+  Shift,
+  ShiftClose,
+  CashMovement,
+  StockChange,
+  StockMovement,
+  Notification,
+  RuleAlert
+} from './storage';
+
+// Full copy of every entity, used when importing from the JSON file backend
+export type StorageSnapshot = {
+  users: User[];
+  inventory: InventoryItem[];
+  sales: Sale[];
+  losses: LossItem[];
+  popularity: ProductPopularity[];
+  promotions: Promotion[];
+  shifts: Shift[];
+  suppliers: Supplier[];
+  variantGroups: VariantGroup[];
+  purchaseOrders: PurchaseOrder[];
+  stockMovements: StockMovement[];
+  stockCounts: StockCount[];
+  locations: StockLocation[];
+  stockTransfers: StockTransfer[];
+  notifications: Notification[];
+  alertRules: AlertRule[];
+  ruleAlerts: RuleAlert[];
+  categories: Category[];
+  settings: StoreSettings;
+};
+
+// Tables holding JSON documents, with the key columns extracted from each record
+const DOCUMENT_TABLES = {
+  users: { key: 'id', columns: (user: User) => ({ id: user.id, username: user.username }) },
+  inventory: { key: 'id', columns: (item: InventoryItem) => ({ id: item.id, sku: item.sku }) },
+  sales: { key: 'id', columns: (sale: Sale) => ({ id: sale.id, date: sale.date }) },
+  losses: { key: 'id', columns: (loss: LossItem) => ({ id: loss.id, date: loss.date }) },
+  promotions: { key: 'id', columns: (promotion: Promotion) => ({ id: promotion.id }) },
+  shifts: { key: 'id', columns: (shift: Shift) => ({ id: shift.id, user_id: shift.userId, status: shift.status }) },
+  suppliers: { key: 'id', columns: (supplier: Supplier) => ({ id: supplier.id }) },
+  variant_groups: { key: 'id', columns: (group: VariantGroup) => ({ id: group.id }) },
+  purchase_orders: { key: 'id', columns: (order: PurchaseOrder) => ({ id: order.id, supplier_id: order.supplierId, status: order.status }) },
+  stock_movements: { key: 'id', columns: (movement: StockMovement) => ({ id: movement.id, product_id: movement.productId, date: movement.date }) },
+  stock_counts: { key: 'id', columns: (count: StockCount) => ({ id: count.id, status: count.status }) },
+  locations: { key: 'id', columns: (location: StockLocation) => ({ id: location.id }) },
+  stock_transfers: { key: 'id', columns: (transfer: StockTransfer) => ({ id: transfer.id, status: transfer.status }) },
+  notifications: { key: 'id', columns: (notification: Notification) => ({ id: notification.id, created_at: notification.createdAt }) },
+  alert_rules: { key: 'id', columns: (rule: AlertRule) => ({ id: rule.id }) },
+  rule_alerts: { key: 'id', columns: (alert: RuleAlert) => ({ id: alert.id, rule_id: alert.ruleId }) },
+  categories: { key: 'id', columns: (category: Category) => ({ id: category.id }) },
+} as const;
+
+type DocumentTable = keyof typeof DOCUMENT_TABLES;
+
+// Looked up through an expression index rather than a column, so existing databases need no migration
+const IDEMPOTENCY_KEY_COLUMN = "json_extract(data, '$.idempotencyKey')";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id INTEGER PRIMARY KEY,
+    username TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_users_username ON users (username);
+
+  CREATE TABLE IF NOT EXISTS inventory (
+    id INTEGER PRIMARY KEY,
+    sku TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_inventory_sku ON inventory (sku);
+
+  CREATE TABLE IF NOT EXISTS sales (
+    id TEXT PRIMARY KEY,
+    date TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_sales_date ON sales (date);
+  CREATE INDEX IF NOT EXISTS idx_sales_idempotency_key ON sales (json_extract(data, '$.idempotencyKey'));
+
+  CREATE TABLE IF NOT EXISTS losses (
+    id TEXT PRIMARY KEY,
+    date TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS promotions (
+    id INTEGER PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS shifts (
+    id INTEGER PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_shifts_user_status ON shifts (user_id, status);
+
+  CREATE TABLE IF NOT EXISTS suppliers (
+    id INTEGER PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS variant_groups (
+    id INTEGER PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS purchase_orders (
+    id INTEGER PRIMARY KEY,
+    supplier_id INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders (supplier_id);
+
+  CREATE TABLE IF NOT EXISTS stock_movements (
+    id INTEGER PRIMARY KEY,
+    product_id INTEGER NOT NULL,
+    date TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_stock_movements_product ON stock_movements (product_id);
+
+  CREATE TABLE IF NOT EXISTS stock_counts (
+    id INTEGER PRIMARY KEY,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS locations (
+    id INTEGER PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS stock_transfers (
+    id INTEGER PRIMARY KEY,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS notifications (
+    id INTEGER PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS alert_rules (
+    id INTEGER PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS rule_alerts (
+    id INTEGER PRIMARY KEY,
+    rule_id INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS categories (
+    id INTEGER PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS popularity (
+    product_id INTEGER PRIMARY KEY,
+    sales_count REAL NOT NULL,
+    last_updated TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+const DEFAULT_SETTINGS: StoreSettings = {
+  storeName: "Inventory Pro Store",
+  storeAddress: "123 Main Street, City, State, 12345",
+  storePhone: "(555) 123-4567",
+  thankYouMessage: "Thank you for shopping with us!",
+  nextTransactionId: 1
+};
+
+/**
+ * Format a date as YYYYMMDD in local time for transaction IDs
+ */
+function formatTransactionDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}${month}${day}`;
+}
+
+/**
+ * SQLite implementation of the storage interface
+ */
+export class SqliteStorage implements IStorage {
+  private db: Database.Database;
+
+  // Resolves once the schema exists and default data is seeded
+  readonly ready: Promise<void>;
+
+  /**
+   * Open (or create) the database file and ensure the schema exists
+   *
+   * @param filePath Location of the SQLite database file
+   */
+  constructor(filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    this.db = new Database(filePath);
+
+    // WAL keeps readers unblocked during writes; FULL sync makes each commit durable
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = FULL');
+    this.db.exec(SCHEMA);
+
+    this.ready = this.seedDefaults();
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Create the main location and the default administrator account in an empty database
+   */
+  private async seedDefaults(): Promise<void> {
+    if (!this.getDocument<StockLocation>('locations', 'id', DEFAULT_LOCATION_ID)) {
+      this.putDocument('locations', { id: DEFAULT_LOCATION_ID, name: 'Main Store', active: true } as StockLocation);
+    }
+
+    const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM users').get() as { count: number };
+    if (count > 0) {
+      return;
+    }
+
+    const pin = await hashPin('1234');
+    this.putDocument('users', {
+      id: 1,
+      username: 'admin',
+      pin,
+      name: 'Admin User',
+      role: 'Administrator',
+      lastActive: new Date().toISOString(),
+      status: 'Active'
+    } as User);
+  }
+
+  // Generic document helpers
+
+  private listDocuments<T>(table: DocumentTable): T[] {
+    const rows = this.db.prepare(`SELECT data FROM ${table} ORDER BY rowid`).all() as { data: string }[];
+    return rows.map(row => JSON.parse(row.data) as T);
+  }
+
+  private getDocument<T>(table: DocumentTable, column: string, value: string | number): T | undefined {
+    const row = this.db.prepare(`SELECT data FROM ${table} WHERE ${column} = ? ORDER BY rowid LIMIT 1`).get(value) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) as T : undefined;
+  }
+
+  /**
+   * Insert or replace a record, keeping its original row position on update
+   */
+  private putDocument<T>(table: DocumentTable, record: T): void {
+    const columns = (DOCUMENT_TABLES[table].columns as (record: T) => Record<string, unknown>)(record);
+    const names = Object.keys(columns);
+    const key = DOCUMENT_TABLES[table].key;
+    const updates = names.filter(name => name !== key).map(name => `${name} = excluded.${name}`);
+
+    this.db.prepare(
+      `INSERT INTO ${table} (${names.join(', ')}, data) VALUES (${names.map(name => `@${name}`).join(', ')}, @data) ` +
+      `ON CONFLICT(${key}) DO UPDATE SET ${[...updates, 'data = excluded.data'].join(', ')}`
+    ).run({ ...columns, data: JSON.stringify(record) });
+  }
+
+  private deleteDocument(table: DocumentTable, id: string | number): boolean {
+    const key = DOCUMENT_TABLES[table].key;
+    return this.db.prepare(`DELETE FROM ${table} WHERE ${key} = ?`).run(id).changes > 0;
+  }
+
+  private getSetting<T>(key: string): T | undefined {
+    const row = this.db.prepare('SELECT value FROM settings WHERE key = ?').get(key) as { value: string } | undefined;
+    return row ? JSON.parse(row.value) as T : undefined;
+  }
+
+  private putSetting(key: string, value: unknown): void {
+    this.db.prepare(
+      'INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value'
+    ).run(key, JSON.stringify(value));
+  }
+
+  // User methods
+
+  async getUsers(): Promise<User[]> {
+    return this.listDocuments<User>('users');
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.getDocument<User>('users', 'id', id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return this.getDocument<User>('users', 'username', username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const pin = await hashPin(insertUser.pin);
+
+    return this.db.transaction(() => {
+      const { maxId } = this.db.prepare('SELECT MAX(id) AS maxId FROM users').get() as { maxId: number | null };
+
+      // Set session valid until default (2 hours from now)
+      const now = new Date();
+      const sessionValidUntil = new Date(now);
+      sessionValidUntil.setHours(sessionValidUntil.getHours() + 2);
+
+      const newUser: User = {
+        ...insertUser,
+        pin,
+        id: (maxId || 0) + 1,
+        lastActive: now.toISOString(),
+        sessionValidUntil: sessionValidUntil.toISOString(),
+        status: insertUser.status || 'Active'
+      };
+
+      this.putDocument('users', newUser);
+      return newUser;
+    })();
+  }
+
+  async updateUser(id: number, updates: Partial<User>): Promise<User | null> {
+    // Always hash what was sent, even if it looks like a hash, so a stored hash can't be set directly
+    if (updates.pin !== undefined) {
+      updates = { ...updates, pin: await hashPin(updates.pin) };
+    }
+
+    return this.db.transaction(() => {
+      const user = this.getDocument<User>('users', 'id', id);
+      if (!user) {
+        return null;
+      }
+
+      const updatedUser = { ...user, ...updates, id };
+      this.putDocument('users', updatedUser);
+      return updatedUser;
+    })();
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    return this.deleteDocument('users', id);
+  }
+
+  /**
+   * Replace any plaintext PINs with salted hashes
+   *
+   * @returns The number of user records that were migrated
+   */
+  async migratePlaintextPins(): Promise<number> {
+    const users = this.listDocuments<User>('users').filter(user => user.pin && !isHashedPin(user.pin));
+
+    for (const user of users) {
+      user.pin = await hashPin(user.pin);
+    }
+
+    this.db.transaction(() => {
+      users.forEach(user => this.putDocument('users', user));
+    })();
+
+    return users.length;
+  }
+
+  // Inventory methods
+
+  async getInventory(): Promise<InventoryItem[]> {
+    return this.listDocuments<InventoryItem>('inventory');
+  }
+
+  async getInventoryItem(id: number): Promise<InventoryItem | undefined> {
+    return this.getDocument<InventoryItem>('inventory', 'id', id);
+  }
+
+  /**
+   * Add an inventory item, recording its opening stock as a movement
+   */
+  async addInventoryItem(item: Omit<InventoryItem, 'id' | 'status'>, change: StockChange = UNATTRIBUTED_CHANGE): Promise<InventoryItem> {
+    return this.db.transaction(() => {
+      const { maxId } = this.db.prepare('SELECT MAX(id) AS maxId FROM inventory').get() as { maxId: number | null };
+
+      const newItem: InventoryItem = {
+        ...item,
+        id: (maxId || 0) + 1,
+        stock: 0,
+        lots: undefined, // Opening stock goes into lots and locations as it is moved in
+        locationStock: undefined,
+        status: item.stock < item.threshold ? 'Low Stock' : 'In Stock'
+      };
+      this.recordMovement(moveStock(newItem, item.stock, change, new Date().toISOString()));
+
+      this.putDocument('inventory', newItem);
+      return newItem;
+    })();
+  }
+
+  /**
+   * Update an inventory item, recording any change to its stock as a movement
+   *
+   * @param change Why the stock changed, if it did
+   */
+  async updateInventoryItem(id: number, updates: Partial<InventoryItem>, change: StockChange = UNATTRIBUTED_CHANGE): Promise<InventoryItem | null> {
+    return this.db.transaction(() => {
+      const item = this.getDocument<InventoryItem>('inventory', 'id', id);
+      if (!item) {
+        return null;
+      }
+
+      // Lots and the stock at each location only change with the stock
+      const { stock, lots, locationStock, ...rest } = updates;
+      const updatedItem = { ...item, ...rest, id };
+      if (stock !== undefined) {
+        this.recordMovement(moveStock(updatedItem, stock, change, new Date().toISOString()));
+      }
+      this.putDocument('inventory', updatedItem);
+      return updatedItem;
+    })();
+  }
+
+  async deleteInventoryItem(id: number): Promise<boolean> {
+    return this.deleteDocument('inventory', id);
+  }
+
+  /**
+   * Add a quantity to an item's stock within the current transaction,
+   * recording the change as a movement
+   *
+   * @param change Why the stock changed, who changed it and where
+   * @param clampAtZero Keep stock at the location from going below zero
+   */
+  private adjustStock(productId: number, quantity: number, change: StockChange, date: string, clampAtZero = true): void {
+    const item = this.getDocument<InventoryItem>('inventory', 'id', productId);
+    if (item) {
+      const stock = clampAtZero ? stockAfterTaking(item, -quantity, change.locationId) : item.stock + quantity;
+      this.recordMovement(moveStock(item, stock, change, date));
+      this.putDocument('inventory', item);
+    }
+  }
+
+  // Stock movement methods
+
+  /**
+   * Get stock movements, oldest first
+   *
+   * @param productId Only the movements of this item
+   */
+  async getStockMovements(productId?: number): Promise<StockMovement[]> {
+    if (productId === undefined) {
+      return this.listDocuments<StockMovement>('stock_movements');
+    }
+    const rows = this.db.prepare('SELECT data FROM stock_movements WHERE product_id = ? ORDER BY id').all(productId) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data) as StockMovement);
+  }
+
+  /**
+   * Append a movement to the ledger within the current transaction
+   */
+  private recordMovement(movement: PendingStockMovement | null): void {
+    if (!movement) {
+      return;
+    }
+    const { maxId } = this.db.prepare('SELECT MAX(id) AS maxId FROM stock_movements').get() as { maxId: number | null };
+    this.putDocument('stock_movements', { ...movement, id: (maxId || 0) + 1 });
+  }
+
+  // Sales methods
+
+  async getSales(): Promise<Sale[]> {
+    return this.listDocuments<Sale>('sales');
+  }
+
+  async getSale(id: string): Promise<Sale | undefined> {
+    return this.getDocument<Sale>('sales', 'id', id);
+  }
+
+  async getSaleByIdempotencyKey(key: string): Promise<Sale | undefined> {
+    return this.getDocument<Sale>('sales', IDEMPOTENCY_KEY_COLUMN, key);
+  }
+
+  /**
+   * Record a sale and deduct the sold quantities from stock in a single
+   * transaction
+   * Throws InsufficientStockError if the sale would oversell, unless the
+   * negative stock override is set, and DuplicateSaleError if a sale with
+   * the same idempotency key is already recorded.
+   */
+  async addSale(sale: Omit<Sale, 'id' | 'date'>, options: SaleOptions): Promise<Sale> {
+    const newSale = this.db.transaction(() => {
+      const duplicate = sale.idempotencyKey ? this.getDocument<Sale>('sales', IDEMPOTENCY_KEY_COLUMN, sale.idempotencyKey) : undefined;
+      if (duplicate) {
+        throw new DuplicateSaleError(duplicate);
+      }
+
+      // Bundles are sold out of their components' stock
+      const productIds = Array.from(new Set(sale.items.flatMap(item => [item.productId, ...stockTaken(item).map(part => part.productId)])));
+      const inventory = productIds
+        .map(id => this.getDocument<InventoryItem>('inventory', 'id', id))
+        .filter((item): item is InventoryItem => item !== undefined);
+
+      const shortages = findStockShortages(sale.items, inventory, sale.locationId);
+      if (shortages.length > 0 && !options.allowNegativeStock) {
+        throw new InsufficientStockError(shortages);
+      }
+
+      const date = options.date ? new Date(options.date) : new Date();
+      const prefix = `TRX-${formatTransactionDate(date)}-`;
+
+      // Find the highest transaction number for that day
+      const todayIds = this.db.prepare('SELECT id FROM sales WHERE id LIKE ?').all(`${prefix}%`) as { id: string }[];
+      const todayMaxNumber = todayIds.reduce((max, row) => {
+        const number = parseInt(row.id.slice(prefix.length), 10);
+        return !isNaN(number) && number > max ? number : max;
+      }, 0);
+
+      const created: Sale = {
+        ...sale,
+        id: `${prefix}${todayMaxNumber + 1}`,
+        date: date.toISOString()
+      };
+
+      created.items.forEach(item => stockTaken(item).forEach(part => this.adjustStock(
+        part.productId,
+        -part.quantity,
+        saleLineChange(item, { type: 'sale', user: options.user, sourceId: created.id, locationId: created.locationId }),
+        created.date,
+        false
+      )));
+
+      this.putDocument('sales', created);
+      return created;
+    })();
+
+    // Update product popularity data for dynamic POS arrangement
+    await this.updateProductPopularity(newSale.items);
+
+    return newSale;
+  }
+
+  async updateSale(id: string, updates: Partial<Sale>): Promise<Sale | null> {
+    return this.db.transaction(() => {
+      const sale = this.getDocument<Sale>('sales', 'id', id);
+      if (!sale) {
+        return null;
+      }
+
+      const updatedSale = { ...sale, ...updates, id };
+      this.putDocument('sales', updatedSale);
+      return updatedSale;
+    })();
+  }
+
+  /**
+   * Process a return against a sale in a single transaction: resellable items
+   * go back into stock and the rest into losses. Throws ReturnQuantityError if a line asks for more than
+   * is left on the sale.
+   */
+  async refundSale(id: string, refund: RefundRequest, refundedBy: string, shiftId?: number): Promise<Sale | null> {
+    return this.db.transaction(() => {
+      const sale = this.getDocument<Sale>('sales', 'id', id);
+      if (!sale || sale.status === 'Refunded') {
+        return null;
+      }
+
+      const priced = priceReturn(sale, refund);
+      if (priced.lineErrors.length > 0) {
+        throw new ReturnQuantityError(priced.lineErrors);
+      }
+
+      const now = new Date().toISOString();
+      priced.lines
+        .filter(line => line.restocked)
+        .forEach(line => {
+          // A returned bundle puts back the components it was sold with
+          const returned = { ...line, components: sale.items[saleLineOf(sale, line)]?.components };
+          stockTaken(returned).forEach(part => this.adjustStock(
+            part.productId,
+            part.quantity,
+            saleLineChange(returned, { type: 'refund', user: refundedBy, sourceId: sale.id, locationId: sale.locationId }),
+            now
+          ));
+        });
+
+      const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM losses').get() as { count: number };
+      returnLosses(sale, priced, refund, refundedBy, now).forEach((loss, index) => {
+        this.putDocument('losses', {
+          ...loss,
+          id: `LOSS-${now.slice(0, 10)}-${String(count + index + 1).padStart(3, '0')}`
+        });
+      });
+
+      const updatedSale = recordReturn(sale, priced, refund, refundedBy, now, shiftId);
+      this.putDocument('sales', updatedSale);
+      return updatedSale;
+    })();
+  }
+
+  // Stats methods
+
+  async getStats(locationId?: number): Promise<Stats> {
+    return summarizeStats(
+      this.listDocuments<InventoryItem>('inventory'),
+      this.listDocuments<Sale>('sales'),
+      this.listDocuments<User>('users'),
+      { locationId, businessDay: (await this.getStoreSettings()).businessDay }
+    );
+  }
+
+  // Loss methods
+
+  async getLosses(): Promise<LossItem[]> {
+    return this.listDocuments<LossItem>('losses');
+  }
+
+  async getLoss(id: string): Promise<LossItem | undefined> {
+    return this.getDocument<LossItem>('losses', 'id', id);
+  }
+
+  /**
+   * Record a loss and deduct the lost quantity from stock in a single transaction
+   */
+  async addLoss(lossData: Omit<LossItem, 'id' | 'date'>): Promise<LossItem> {
+    return this.db.transaction(() => {
+      const item = this.getDocument<InventoryItem>('inventory', 'id', lossData.inventoryItemId);
+      if (!item) {
+        throw new Error(`Inventory item with ID ${lossData.inventoryItemId} not found`);
+      }
+
+      const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM losses').get() as { count: number };
+      const newLoss: LossItem = {
+        ...lossData,
+        id: `LOSS-${new Date().toISOString().slice(0, 10)}-${String(count + 1).padStart(3, '0')}`,
+        date: new Date().toISOString()
+      };
+
+      this.adjustStock(
+        item.id,
+        -newLoss.quantity,
+        { type: 'loss', user: newLoss.recordedBy, sourceId: newLoss.id, note: newLoss.reason, lotId: newLoss.lotId, locationId: newLoss.locationId },
+        newLoss.date
+      );
+      this.putDocument('losses', newLoss);
+      return newLoss;
+    })();
+  }
+
+  /**
+   * Update a loss record, adjusting stock by any change in the lost quantity
+   *
+   * @param updatedBy Username of the person correcting the loss, for the stock movement
+   */
+  async updateLoss(id: string, updates: Partial<LossItem>, updatedBy?: string): Promise<LossItem | null> {
+    return this.db.transaction(() => {
+      const originalLoss = this.getDocument<LossItem>('losses', 'id', id);
+      if (!originalLoss) {
+        return null;
+      }
+
+      const updatedLoss: LossItem = { ...originalLoss, ...updates, id };
+
+      // Adjust stock by the change in lost quantity
+      if (updates.quantity !== undefined && updates.quantity !== originalLoss.quantity) {
+        const item = this.getDocument<InventoryItem>('inventory', 'id', originalLoss.inventoryItemId);
+        if (item) {
+          this.adjustStock(
+            item.id,
+            -(updates.quantity - originalLoss.quantity),
+            { type: 'loss', user: updatedBy || originalLoss.recordedBy, sourceId: id, note: 'Loss quantity corrected', locationId: originalLoss.locationId, ...lossLotChange(originalLoss) },
+            new Date().toISOString()
+          );
+
+          // Update value if not explicitly provided
+          if (updates.value === undefined) {
+            updatedLoss.value = updates.quantity * item.price;
+          }
+        }
+      }
+
+      this.putDocument('losses', updatedLoss);
+      return updatedLoss;
+    })();
+  }
+
+  // Store settings methods
+
+  async getStoreSettings(): Promise<StoreSettings> {
+    return this.getSetting<StoreSettings>('store') || DEFAULT_SETTINGS;
+  }
+
+  async updateStoreSettings(updates: Partial<StoreSettings>): Promise<StoreSettings> {
+    return this.db.transaction(() => {
+      const updatedSettings = { ...(this.getSetting<StoreSettings>('store') || DEFAULT_SETTINGS), ...updates };
+      this.putSetting('store', updatedSettings);
+      return updatedSettings;
+    })();
+  }
+
+  async getNextTransactionId(): Promise<number> {
+    return this.db.transaction(() => {
+      const settings = this.getSetting<StoreSettings>('store') || DEFAULT_SETTINGS;
+      this.putSetting('store', { ...settings, nextTransactionId: settings.nextTransactionId + 1 });
+      return settings.nextTransactionId;
+    })();
+  }
+
+  // Product popularity methods
+
+  async getProductPopularity(): Promise<ProductPopularity[]> {
+    const rows = this.db.prepare(
+      'SELECT product_id, sales_count, last_updated FROM popularity ORDER BY sales_count DESC'
+    ).all() as { product_id: number; sales_count: number; last_updated: string }[];
+
+    return rows.map(row => ({
+      productId: row.product_id,
+      salesCount: row.sales_count,
+      lastUpdated: row.last_updated
+    }));
+  }
+
+  async updateProductPopularity(items: SaleItem[]): Promise<void> {
+    try {
+      const currentDate = new Date().toISOString();
+      const upsert = this.db.prepare(
+        'INSERT INTO popularity (product_id, sales_count, last_updated) VALUES (?, ?, ?) ' +
+        'ON CONFLICT(product_id) DO UPDATE SET sales_count = sales_count + excluded.sales_count, last_updated = excluded.last_updated'
+      );
+
+      this.db.transaction(() => {
+        items.forEach(item => upsert.run(item.productId, item.quantity, currentDate));
+      })();
+    } catch (error) {
+      // Product popularity is non-essential and shouldn't break the application
+    }
+  }
+
+  async getInventoryByPopularity(): Promise<InventoryItem[]> {
+    const inventory = this.listDocuments<InventoryItem>('inventory');
+    const popularity = new Map((await this.getProductPopularity()).map(entry => [entry.productId, entry.salesCount]));
+
+    // Most popular first, then alphabetically for items with the same popularity
+    return inventory.sort((a, b) => {
+      const difference = (popularity.get(b.id) || 0) - (popularity.get(a.id) || 0);
+      return difference !== 0 ? difference : a.name.localeCompare(b.name);
+    });
+  }
+
+  // Promotion methods
+
+  async getPromotions(): Promise<Promotion[]> {
+    return this.listDocuments<Promotion>('promotions');
+  }
+
+  async getPromotion(id: number): Promise<Promotion | undefined> {
+    return this.getDocument<Promotion>('promotions', 'id', id);
+  }
+
+  async addPromotion(promotion: Omit<Promotion, 'id'>): Promise<Promotion> {
+    return this.db.transaction(() => {
+      const { maxId } = this.db.prepare('SELECT MAX(id) AS maxId FROM promotions').get() as { maxId: number | null };
+      const newPromotion: Promotion = { ...promotion, id: (maxId || 0) + 1 };
+      this.putDocument('promotions', newPromotion);
+      return newPromotion;
+    })();
+  }
+
+  async updatePromotion(id: number, updates: Partial<Promotion>): Promise<Promotion | null> {
+    return this.db.transaction(() => {
+      const promotion = this.getDocument<Promotion>('promotions', 'id', id);
+      if (!promotion) {
+        return null;
+      }
+
+      const updatedPromotion = { ...promotion, ...updates, id };
+      this.putDocument('promotions', updatedPromotion);
+      return updatedPromotion;
+    })();
+  }
+
+  async deletePromotion(id: number): Promise<boolean> {
+    return this.deleteDocument('promotions', id);
+  }
+
+  // Shift methods
+
+  async getShifts(): Promise<Shift[]> {
+    return this.listDocuments<Shift>('shifts');
+  }
+
+  async getShift(id: number): Promise<Shift | undefined> {
+    return this.getDocument<Shift>('shifts', 'id', id);
+  }
+
+  async getOpenShift(userId: number): Promise<Shift | undefined> {
+    const row = this.db.prepare(
+      "SELECT data FROM shifts WHERE user_id = ? AND status = 'open' ORDER BY rowid LIMIT 1"
+    ).get(userId) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) as Shift : undefined;
+  }
+
+  async openShift(shift: Pick<Shift, 'userId' | 'cashier' | 'openingFloat' | 'locationId'>): Promise<Shift | null> {
+    const open = this.db.transaction(() => {
+      const existing = this.db.prepare(
+        "SELECT 1 FROM shifts WHERE user_id = ? AND status = 'open'"
+      ).get(shift.userId);
+      if (existing) {
+        return null;
+      }
+
+      const { maxId } = this.db.prepare('SELECT MAX(id) AS maxId FROM shifts').get() as { maxId: number | null };
+      const newShift: Shift = {
+        ...shift,
+        id: (maxId || 0) + 1,
+        status: 'open',
+        openedAt: new Date().toISOString(),
+        movements: []
+      };
+      this.putDocument('shifts', newShift);
+      return newShift;
+    });
+    return open();
+  }
+
+  async addCashMovement(shiftId: number, movement: Omit<CashMovement, 'id' | 'date'>): Promise<Shift | null> {
+    return this.updateOpenShift(shiftId, shift => ({
+      ...shift,
+      movements: [
+        ...shift.movements,
+        {
+          ...movement,
+          id: Math.max(0, ...shift.movements.map(entry => entry.id)) + 1,
+          date: new Date().toISOString()
+        }
+      ]
+    }));
+  }
+
+  async closeShift(id: number, close: ShiftClose): Promise<Shift | null> {
+    return this.updateOpenShift(id, shift => ({
+      ...shift,
+      ...close,
+      status: 'closed',
+      closedAt: new Date().toISOString()
+    }));
+  }
+
+  private updateOpenShift(id: number, update: (shift: Shift) => Shift): Shift | null {
+    return this.db.transaction(() => {
+      const shift = this.getDocument<Shift>('shifts', 'id', id);
+      if (!shift || shift.status !== 'open') {
+        return null;
+      }
+
+      const updatedShift = update(shift);
+      this.putDocument('shifts', updatedShift);
+      return updatedShift;
+    })();
+  }
+
+  // Supplier methods
+
+  async getSuppliers(): Promise<Supplier[]> {
+    return this.listDocuments<Supplier>('suppliers');
+  }
+
+  async getSupplier(id: number): Promise<Supplier | undefined> {
+    return this.getDocument<Supplier>('suppliers', 'id', id);
+  }
+
+  async addSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    return this.db.transaction(() => {
+      const { maxId } = this.db.prepare('SELECT MAX(id) AS maxId FROM suppliers').get() as { maxId: number | null };
+      const newSupplier: Supplier = { ...supplier, id: (maxId || 0) + 1 };
+      this.putDocument('suppliers', newSupplier);
+      return newSupplier;
+    })();
+  }
+
+  async updateSupplier(id: number, updates: Partial<Supplier>): Promise<Supplier | null> {
+    return this.db.transaction(() => {
+      const supplier = this.getDocument<Supplier>('suppliers', 'id', id);
+      if (!supplier) {
+        return null;
+      }
+
+      const updatedSupplier = { ...supplier, ...updates, id };
+      this.putDocument('suppliers', updatedSupplier);
+      return updatedSupplier;
+    })();
+  }
+
+  /**
+   * Delete a supplier and unlink it from every inventory item
+   */
+  async deleteSupplier(id: number): Promise<boolean> {
+    return this.db.transaction(() => {
+      if (!this.deleteDocument('suppliers', id)) {
+        return false;
+      }
+
+      this.listDocuments<InventoryItem>('inventory')
+        .filter(item => item.suppliers?.some(link => link.supplierId === id))
+        .forEach(item => this.putDocument('inventory', {
+          ...item,
+          suppliers: item.suppliers!.filter(link => link.supplierId !== id)
+        }));
+      return true;
+    })();
+  }
+
+  // Variant group methods
+
+  async getVariantGroups(): Promise<VariantGroup[]> {
+    return this.listDocuments<VariantGroup>('variant_groups');
+  }
+
+  async getVariantGroup(id: number): Promise<VariantGroup | undefined> {
+    return this.getDocument<VariantGroup>('variant_groups', 'id', id);
+  }
+
+  async addVariantGroup(group: InsertVariantGroup): Promise<VariantGroup> {
+    return this.db.transaction(() => {
+      const { maxId } = this.db.prepare('SELECT MAX(id) AS maxId FROM variant_groups').get() as { maxId: number | null };
+      const newGroup: VariantGroup = { ...group, id: (maxId || 0) + 1 };
+      this.putDocument('variant_groups', newGroup);
+      return newGroup;
+    })();
+  }
+
+  async updateVariantGroup(id: number, updates: Partial<VariantGroup>): Promise<VariantGroup | null> {
+    return this.db.transaction(() => {
+      const group = this.getDocument<VariantGroup>('variant_groups', 'id', id);
+      if (!group) {
+        return null;
+      }
+
+      const updatedGroup = { ...group, ...updates, id };
+      this.putDocument('variant_groups', updatedGroup);
+      return updatedGroup;
+    })();
+  }
+
+  /**
+   * Delete a variant group and unlink its variants, which stay in the catalog
+   */
+  async deleteVariantGroup(id: number): Promise<boolean> {
+    return this.db.transaction(() => {
+      if (!this.deleteDocument('variant_groups', id)) {
+        return false;
+      }
+
+      this.listDocuments<InventoryItem>('inventory')
+        .filter(item => item.variantGroupId === id)
+        .forEach(({ variantGroupId, variantAttributes, ...item }) => this.putDocument('inventory', item));
+      return true;
+    })();
+  }
+
+  // Category methods
+
+  async getCategories(): Promise<Category[]> {
+    return this.listDocuments<Category>('categories');
+  }
+
+  async getCategory(id: number): Promise<Category | undefined> {
+    return this.getDocument<Category>('categories', 'id', id);
+  }
+
+  async addCategory(category: InsertCategory): Promise<Category> {
+    return this.db.transaction(() => {
+      const { maxId } = this.db.prepare('SELECT MAX(id) AS maxId FROM categories').get() as { maxId: number | null };
+      const newCategory: Category = { ...category, id: (maxId || 0) + 1 };
+      this.putDocument('categories', newCategory);
+      this.syncCategoryTaxRates();
+      return newCategory;
+    })();
+  }
+
+  async updateCategory(id: number, updates: Partial<Category>): Promise<Category | null> {
+    return this.db.transaction(() => {
+      const category = this.getDocument<Category>('categories', 'id', id);
+      if (!category) {
+        return null;
+      }
+
+      const updatedCategory = { ...category, ...updates, id };
+      this.putDocument('categories', updatedCategory);
+      if (updatedCategory.name !== category.name) {
+        this.refile([category.name], updatedCategory.name);
+      }
+      this.syncCategoryTaxRates();
+      return updatedCategory;
+    })();
+  }
+
+  async mergeCategories(id: number, intoId: number): Promise<Category | null> {
+    return this.db.transaction(() => {
+      const source = this.getDocument<Category>('categories', 'id', id);
+      const target = this.getDocument<Category>('categories', 'id', intoId);
+      if (!source || !target || source.id === target.id) {
+        return null;
+      }
+
+      this.refile([source.name], target.name);
+      this.listDocuments<Category>('categories')
+        .filter(category => category.parentId === source.id)
+        .forEach(category => this.putDocument('categories', { ...category, parentId: target.id }));
+      this.deleteDocument('categories', source.id);
+      this.syncCategoryTaxRates();
+      return target;
+    })();
+  }
+
+  async deleteCategory(id: number): Promise<boolean> {
+    return this.db.transaction(() => {
+      if (!this.deleteDocument('categories', id)) {
+        return false;
+      }
+
+      this.syncCategoryTaxRates();
+      return true;
+    })();
+  }
+
+  async migrateCategories(): Promise<number> {
+    return this.db.transaction(() => {
+      const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM categories').get() as { count: number };
+      if (count > 0) {
+        return 0;
+      }
+
+      const settings = this.getSetting<StoreSettings>('store') || DEFAULT_SETTINGS;
+      const categories = categoriesInUse(this.categoryReferences(), settings.taxCategoryRates);
+      categories.forEach(category => {
+        this.putDocument('categories', category);
+        this.refile([category.name], category.name);
+      });
+      this.syncCategoryTaxRates();
+      return categories.length;
+    })();
+  }
+
+  private categoryReferences(): CategoryReferences {
+    return {
+      inventory: this.listDocuments<InventoryItem>('inventory'),
+      variantGroups: this.listDocuments<VariantGroup>('variant_groups'),
+      promotions: this.listDocuments<Promotion>('promotions'),
+      alertRules: this.listDocuments<AlertRule>('alert_rules')
+    };
+  }
+
+  /**
+   * File every record named under any of the `from` categories under `to`
+   */
+  private refile(from: string[], to: string): void {
+    const changed = refileCategory(this.categoryReferences(), from, to);
+    changed.inventory.forEach(item => this.putDocument('inventory', item));
+    changed.variantGroups.forEach(group => this.putDocument('variant_groups', group));
+    changed.promotions.forEach(promotion => this.putDocument('promotions', promotion));
+    changed.alertRules.forEach(rule => this.putDocument('alert_rules', rule));
+  }
+
+  private syncCategoryTaxRates(): void {
+    const settings = this.getSetting<StoreSettings>('store') || DEFAULT_SETTINGS;
+    this.putSetting('store', { ...settings, taxCategoryRates: categoryTaxRates(this.listDocuments<Category>('categories')) });
+  }
+
+  // Purchase order methods
+
+  async getPurchaseOrders(): Promise<PurchaseOrder[]> {
+    return this.listDocuments<PurchaseOrder>('purchase_orders');
+  }
+
+  async getPurchaseOrder(id: number): Promise<PurchaseOrder | undefined> {
+    return this.getDocument<PurchaseOrder>('purchase_orders', 'id', id);
+  }
+
+  async addPurchaseOrder(order: Omit<PurchaseOrder, 'id'>): Promise<PurchaseOrder> {
+    return this.db.transaction(() => {
+      const { maxId } = this.db.prepare('SELECT MAX(id) AS maxId FROM purchase_orders').get() as { maxId: number | null };
+      const newOrder: PurchaseOrder = { ...order, id: (maxId || 0) + 1 };
+      this.putDocument('purchase_orders', newOrder);
+      return newOrder;
+    })();
+  }
+
+  /**
+   * Update a purchase order, only if it is still in one of `fromStatuses` when given
+   */
+  async updatePurchaseOrder(
+    id: number,
+    updates: Partial<PurchaseOrder>,
+    fromStatuses?: PurchaseOrderStatus[]
+  ): Promise<PurchaseOrder | null> {
+    return this.db.transaction(() => {
+      const order = this.getDocument<PurchaseOrder>('purchase_orders', 'id', id);
+      if (!order || (fromStatuses && !fromStatuses.includes(order.status))) {
+        return null;
+      }
+
+      const updatedOrder = { ...order, ...updates, id };
+      this.putDocument('purchase_orders', updatedOrder);
+      return updatedOrder;
+    })();
+  }
+
+  /**
+   * Receive a delivery against a purchase order, adding the received
+   * quantities to stock and averaging their cost into the cost price
+   *
+   * @returns The updated order, or null if it is not found or not awaiting delivery
+   * @throws ReceiptQuantityError if the delivery doesn't match the order
+   */
+  async receivePurchaseOrder(id: number, receipt: GoodsReceiptRequest, receivedBy: string): Promise<PurchaseOrder | null> {
+    return this.db.transaction(() => {
+      const order = this.getDocument<PurchaseOrder>('purchase_orders', 'id', id);
+      if (!order || !canReceive(order.status)) {
+        return null;
+      }
+
+      const checked = checkReceipt(order, receipt);
+      if (checked.lineErrors.length > 0) {
+        throw new ReceiptQuantityError(checked.lineErrors);
+      }
+
+      const now = new Date().toISOString();
+      checked.lines.forEach(line => {
+        const item = this.getDocument<InventoryItem>('inventory', 'id', line.productId);
+        if (item) {
+          const updatedItem = { ...item, costPrice: receivedCostPrice(item, line.quantity, line.unitCost) };
+          this.recordMovement(moveStock(
+            updatedItem,
+            item.stock + line.quantity,
+            {
+              type: 'receipt',
+              user: receivedBy,
+              sourceId: formatPurchaseOrderNumber(order.id),
+              lot: { lotNumber: line.lotNumber, expiryDate: line.expiryDate },
+              locationId: receipt.locationId
+            },
+            now
+          ));
+          this.putDocument('inventory', updatedItem);
+        }
+      });
+
+      const updatedOrder = recordReceipt(order, checked, receipt, receivedBy, now);
+      this.putDocument('purchase_orders', updatedOrder);
+      return updatedOrder;
+    })();
+  }
+
+  // Stock count methods
+
+  async getStockCounts(): Promise<StockCount[]> {
+    return this.listDocuments<StockCount>('stock_counts');
+  }
+
+  async getStockCount(id: number): Promise<StockCount | undefined> {
+    return this.getDocument<StockCount>('stock_counts', 'id', id);
+  }
+
+  async addStockCount(count: Omit<StockCount, 'id'>): Promise<StockCount> {
+    return this.db.transaction(() => {
+      const { maxId } = this.db.prepare('SELECT MAX(id) AS maxId FROM stock_counts').get() as { maxId: number | null };
+      const newCount: StockCount = { ...count, id: (maxId || 0) + 1 };
+      this.putDocument('stock_counts', newCount);
+      return newCount;
+    })();
+  }
+
+  /**
+   * Update a stock count, only if it is still in one of `fromStatuses` when given
+   */
+  async updateStockCount(id: number, updates: Partial<StockCount>, fromStatuses?: StockCountStatus[]): Promise<StockCount | null> {
+    return this.db.transaction(() => {
+      const count = this.getDocument<StockCount>('stock_counts', 'id', id);
+      if (!count || (fromStatuses && !fromStatuses.includes(count.status))) {
+        return null;
+      }
+
+      const updatedCount = { ...count, ...updates, id };
+      this.putDocument('stock_counts', updatedCount);
+      return updatedCount;
+    })();
+  }
+
+  /**
+   * Record quantities found on the shelf against a count that is under way
+   *
+   * @returns The updated count, or null if it is not found or no longer counting
+   * @throws StockCountError if an entry isn't part of the count
+   */
+  async recordStockCounts(id: number, entries: StockCountEntries, countedBy: string): Promise<StockCount | null> {
+    return this.db.transaction(() => {
+      const count = this.getDocument<StockCount>('stock_counts', 'id', id);
+      if (!count || count.status !== 'counting') {
+        return null;
+      }
+
+      const recorded = recordCounts(count, entries, countedBy, new Date().toISOString());
+      if (recorded.lineErrors.length > 0) {
+        throw new StockCountError(recorded.lineErrors);
+      }
+
+      this.putDocument('stock_counts', recorded.count);
+      return recorded.count;
+    })();
+  }
+
+  /**
+   * Approve a reviewed count, moving each counted item's stock by the
+   * variance found and recording the adjustments as count movements
+   *
+   * @returns The posted count, or null if it is not found or not awaiting approval
+   */
+  async postStockCount(id: number, postedBy: string): Promise<StockCount | null> {
+    return this.db.transaction(() => {
+      const count = this.getDocument<StockCount>('stock_counts', 'id', id);
+      if (!count || count.status !== 'review') {
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      const lines = count.lines.map(line => {
+        const item = this.getDocument<InventoryItem>('inventory', 'id', line.productId);
+        if (line.counted === undefined || !item) {
+          return line;
+        }
+        const movement = moveStock(
+          item,
+          postedStock(item, line),
+          { type: 'count', user: postedBy, sourceId: formatStockCountNumber(count.id), note: `Counted ${line.counted}, expected ${line.expected}`, locationId: count.locationId },
+          now
+        );
+        this.recordMovement(movement);
+        this.putDocument('inventory', item);
+        return { ...line, adjustment: movement?.quantity ?? 0 };
+      });
+
+      const postedCount: StockCount = { ...count, lines, status: 'posted', postedBy, postedAt: now };
+      this.putDocument('stock_counts', postedCount);
+      return postedCount;
+    })();
+  }
+
+  // Location methods
+
+  async getLocations(): Promise<StockLocation[]> {
+    return this.listDocuments<StockLocation>('locations');
+  }
+
+  async getLocation(id: number): Promise<StockLocation | undefined> {
+    return this.getDocument<StockLocation>('locations', 'id', id);
+  }
+
+  async addLocation(location: InsertStockLocation): Promise<StockLocation> {
+    return this.db.transaction(() => {
+      const { maxId } = this.db.prepare('SELECT MAX(id) AS maxId FROM locations').get() as { maxId: number | null };
+      const newLocation: StockLocation = { ...location, id: (maxId || 0) + 1 };
+      this.putDocument('locations', newLocation);
+      return newLocation;
+    })();
+  }
+
+  async updateLocation(id: number, updates: Partial<StockLocation>): Promise<StockLocation | null> {
+    return this.db.transaction(() => {
+      const location = this.getDocument<StockLocation>('locations', 'id', id);
+      if (!location) {
+        return null;
+      }
+
+      const updatedLocation = { ...location, ...updates, id };
+      this.putDocument('locations', updatedLocation);
+      return updatedLocation;
+    })();
+  }
+
+  // Stock transfer methods
+
+  async getStockTransfers(): Promise<StockTransfer[]> {
+    return this.listDocuments<StockTransfer>('stock_transfers');
+  }
+
+  async getStockTransfer(id: number): Promise<StockTransfer | undefined> {
+    return this.getDocument<StockTransfer>('stock_transfers', 'id', id);
+  }
+
+  /**
+   * Send a transfer, taking its stock out of the sending location
+   *
+   * @throws StockTransferError if a line can't be filled from the sending location
+   */
+  async addStockTransfer(request: StockTransferRequest, sentBy: string): Promise<StockTransfer> {
+    return this.db.transaction(() => {
+      const inventory = Array.from(new Set(request.lines.map(line => line.productId)))
+        .map(productId => this.getDocument<InventoryItem>('inventory', 'id', productId))
+        .filter((item): item is InventoryItem => item !== undefined);
+
+      const checked = checkTransfer(request, inventory);
+      if (checked.lineErrors.length > 0) {
+        throw new StockTransferError(checked.lineErrors);
+      }
+
+      const { maxId } = this.db.prepare('SELECT MAX(id) AS maxId FROM stock_transfers').get() as { maxId: number | null };
+      const id = (maxId || 0) + 1;
+      const now = new Date().toISOString();
+      const lines = checked.lines.map(line => {
+        const item = inventory.find(entry => entry.id === line.productId)!;
+        const movement = moveStock(
+          item,
+          item.stock - line.quantity,
+          { type: 'transfer', user: sentBy, sourceId: formatStockTransferNumber(id), locationId: request.fromLocationId },
+          now
+        );
+        this.recordMovement(movement);
+        this.putDocument('inventory', item);
+        return sentLine(line, movement);
+      });
+
+      const transfer: StockTransfer = {
+        id,
+        fromLocationId: request.fromLocationId,
+        toLocationId: request.toLocationId,
+        status: 'in_transit',
+        lines,
+        ...(request.notes ? { notes: request.notes } : {}),
+        sentBy,
+        sentAt: now
+      };
+      this.putDocument('stock_transfers', transfer);
+      return transfer;
+    })();
+  }
+
+  /**
+   * Receive a transfer in transit, putting its stock into the receiving location
+   *
+   * @returns The received transfer, or null if it is not found or not in transit
+   */
+  async receiveStockTransfer(id: number, receivedBy: string): Promise<StockTransfer | null> {
+    return this.completeStockTransfer(id, 'received', receivedBy);
+  }
+
+  /**
+   * Cancel a transfer in transit, returning its stock to the sending location
+   *
+   * @returns The cancelled transfer, or null if it is not found or not in transit
+   */
+  async cancelStockTransfer(id: number, cancelledBy: string): Promise<StockTransfer | null> {
+    return this.completeStockTransfer(id, 'cancelled', cancelledBy);
+  }
+
+  private completeStockTransfer(id: number, status: 'received' | 'cancelled', user: string): StockTransfer | null {
+    return this.db.transaction(() => {
+      const transfer = this.getDocument<StockTransfer>('stock_transfers', 'id', id);
+      if (!transfer || transfer.status !== 'in_transit') {
+        return null;
+      }
+
+      // Stock arrives where it was sent, or goes back where it came from
+      const now = new Date().toISOString();
+      const locationId = status === 'received' ? transfer.toLocationId : transfer.fromLocationId;
+      transfer.lines.forEach(line => {
+        transferPortions(line).forEach(portion => this.adjustStock(
+          line.productId,
+          portion.quantity,
+          {
+            type: 'transfer',
+            user,
+            sourceId: formatStockTransferNumber(transfer.id),
+            ...(status === 'cancelled' ? { note: 'Transfer cancelled' } : {}),
+            lot: portion.lot,
+            locationId
+          },
+          now
+        ));
+      });
+
+      const completed: StockTransfer = status === 'received'
+        ? { ...transfer, status, receivedBy: user, receivedAt: now }
+        : { ...transfer, status, cancelledBy: user, cancelledAt: now };
+      this.putDocument('stock_transfers', completed);
+      return completed;
+    })();
+  }
+
+  // Notification methods
+
+  async getNotifications(): Promise<Notification[]> {
+    return this.listDocuments<Notification>('notifications');
+  }
+
+  /**
+   * Store a new notification, removing those past the retention period
+   */
+  async addNotification(notification: Omit<Notification, 'id' | 'createdAt' | 'readBy' | 'dismissedBy'>): Promise<Notification> {
+    return this.db.transaction(() => {
+      const cutoff = new Date(Date.now() - config.notificationRetentionDays * 24 * 60 * 60 * 1000).toISOString();
+      this.db.prepare('DELETE FROM notifications WHERE created_at < ?').run(cutoff);
+
+      const { maxId } = this.db.prepare('SELECT MAX(id) AS maxId FROM notifications').get() as { maxId: number | null };
+      const newNotification: Notification = {
+        ...notification,
+        id: (maxId || 0) + 1,
+        createdAt: new Date().toISOString(),
+        readBy: [],
+        dismissedBy: []
+      };
+      this.putDocument('notifications', newNotification);
+      return newNotification;
+    })();
+  }
+
+  async markNotifications(ids: number[], userId: number, mark: 'read' | 'dismissed'): Promise<void> {
+    this.db.transaction(() => {
+      const field = mark === 'read' ? 'readBy' : 'dismissedBy';
+      ids.forEach(id => {
+        const notification = this.getDocument<Notification>('notifications', 'id', id);
+        if (notification && !notification[field].includes(userId)) {
+          notification[field].push(userId);
+          this.putDocument('notifications', notification);
+        }
+      });
+    })();
+  }
+
+  // Alert rule methods
+
+  async getAlertRules(): Promise<AlertRule[]> {
+    return this.listDocuments<AlertRule>('alert_rules');
+  }
+
+  async getAlertRule(id: number): Promise<AlertRule | undefined> {
+    return this.getDocument<AlertRule>('alert_rules', 'id', id);
+  }
+
+  async addAlertRule(rule: Omit<AlertRule, 'id'>): Promise<AlertRule> {
+    return this.db.transaction(() => {
+      const { maxId } = this.db.prepare('SELECT MAX(id) AS maxId FROM alert_rules').get() as { maxId: number | null };
+      const newRule: AlertRule = { ...rule, id: (maxId || 0) + 1 };
+      this.putDocument('alert_rules', newRule);
+      return newRule;
+    })();
+  }
+
+  async updateAlertRule(id: number, updates: Partial<AlertRule>): Promise<AlertRule | null> {
+    return this.db.transaction(() => {
+      const rule = this.getDocument<AlertRule>('alert_rules', 'id', id);
+      if (!rule) {
+        return null;
+      }
+
+      const updatedRule = { ...rule, ...updates, id };
+      this.putDocument('alert_rules', updatedRule);
+      return updatedRule;
+    })();
+  }
+
+  async deleteAlertRule(id: number): Promise<boolean> {
+    return this.deleteDocument('alert_rules', id);
+  }
+
+  async getRuleAlerts(): Promise<RuleAlert[]> {
+    return this.listDocuments<RuleAlert>('rule_alerts');
+  }
+
+  async recordRuleAlerts(raised: Omit<RuleAlert, 'id'>[], resolvedIds: number[], resolvedAt: string): Promise<RuleAlert[]> {
+    return this.db.transaction(() => {
+      resolvedIds.forEach(id => {
+        const alert = this.getDocument<RuleAlert>('rule_alerts', 'id', id);
+        if (alert && !alert.resolvedAt) {
+          this.putDocument('rule_alerts', { ...alert, resolvedAt });
+        }
+      });
+
+      const { maxId } = this.db.prepare('SELECT MAX(id) AS maxId FROM rule_alerts').get() as { maxId: number | null };
+      let nextId = (maxId || 0) + 1;
+      const created = raised.map(alert => ({ ...alert, id: nextId++ }));
+      created.forEach(alert => this.putDocument('rule_alerts', alert));
+      return created;
+    })();
+  }
+
+  /**
+   * Replace all data with a snapshot from another backend in one transaction
+   *
+   * @param snapshot Every entity to import
+   */
+  importData(snapshot: StorageSnapshot): void {
+    this.db.transaction(() => {
+      this.db.exec('DELETE FROM users; DELETE FROM inventory; DELETE FROM sales; DELETE FROM losses; DELETE FROM promotions; DELETE FROM shifts; DELETE FROM suppliers; DELETE FROM variant_groups; DELETE FROM purchase_orders; DELETE FROM stock_movements; DELETE FROM stock_counts; DELETE FROM locations; DELETE FROM stock_transfers; DELETE FROM notifications; DELETE FROM alert_rules; DELETE FROM rule_alerts; DELETE FROM categories; DELETE FROM popularity; DELETE FROM settings;');
+
+      snapshot.users.forEach(user => this.putDocument('users', user));
+      snapshot.inventory.forEach(item => this.putDocument('inventory', item));
+      snapshot.sales.forEach(sale => this.putDocument('sales', sale));
+      snapshot.losses.forEach(loss => this.putDocument('losses', loss));
+      snapshot.promotions.forEach(promotion => this.putDocument('promotions', promotion));
+      snapshot.shifts.forEach(shift => this.putDocument('shifts', shift));
+      snapshot.suppliers.forEach(supplier => this.putDocument('suppliers', supplier));
+      snapshot.variantGroups.forEach(group => this.putDocument('variant_groups', group));
+      snapshot.purchaseOrders.forEach(order => this.putDocument('purchase_orders', order));
+      snapshot.stockMovements.forEach(movement => this.putDocument('stock_movements', movement));
+      snapshot.stockCounts.forEach(count => this.putDocument('stock_counts', count));
+      snapshot.locations.forEach(location => this.putDocument('locations', location));
+      snapshot.stockTransfers.forEach(transfer => this.putDocument('stock_transfers', transfer));
+      snapshot.notifications.forEach(notification => this.putDocument('notifications', notification));
+      snapshot.alertRules.forEach(rule => this.putDocument('alert_rules', rule));
+      snapshot.ruleAlerts.forEach(alert => this.putDocument('rule_alerts', alert));
+      snapshot.categories.forEach(category => this.putDocument('categories', category));
+
+      const insertPopularity = this.db.prepare('INSERT INTO popularity (product_id, sales_count, last_updated) VALUES (?, ?, ?)');
+      snapshot.popularity.forEach(entry => insertPopularity.run(entry.productId, entry.salesCount, entry.lastUpdated));
+
+      this.putSetting('store', snapshot.settings);
+    })();
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Stock Count Sessions
+ *
+ * Builds count sessions and applies what was found on the shelf. A session
+ * covers the whole store, one category, or a random sample of items for a
+ * cycle count, and notes each item's stock when it starts. Counts can be
+ * entered and corrected until the session is submitted for review; once a
+ * manager approves it, each item's stock moves by the variance found, so
+ * sales made while the count was under way are not lost.
+ */
+import type { InventoryItem } from "./storage";
+import type { StockCount, StockCountEntries, StockCountLine, StockCountRequest } from "@shared/schema";
+import { lineVariance } from "@shared/stockCounts";
+import { DEFAULT_LOCATION_ID, stockAt } from "@shared/locations";
+import { isBundle } from "@shared/bundles";
+
+export type CountLineErrorCode =
+  | "NOT_IN_COUNT"
+  | "DUPLICATE_LINE";
+
+// A problem with one submitted count
+export type CountLineError = {
+  line: number;          // Index of the entry in the submitted counts
+  productId: number;
+  code: CountLineErrorCode;
+  message: string;
+};
+
+/**
+ * Thrown by storage when submitted counts don't match the session
+ */
+export class StockCountError extends Error {
+  constructor(public lineErrors: CountLineError[]) {
+    super("One or more counts cannot be recorded");
+    this.name = "StockCountError";
+  }
+}
+
+/**
+ * Choose the items a new count covers
+ *
+ * @param inventory - Current inventory
+ * @param request - Scope, category and sample size of the count
+ * @param random - Source of randomness for cycle count samples
+ * @returns The items to count, in catalog order; bundles are counted as their components
+ */
+export function selectCountItems(
+  catalog: InventoryItem[],
+  request: StockCountRequest,
+  random: () => number = Math.random
+): InventoryItem[] {
+  const inventory = catalog.filter(item => !isBundle(item));
+  if (request.scope === "category") {
+    const category = request.category!.toLowerCase();
+    return inventory.filter(item => item.category.toLowerCase() === category);
+  }
+
+  if (request.scope === "cycle") {
+    // Partial Fisher-Yates shuffle, then back into catalog order for counting
+    const pool = [...inventory];
+    const size = Math.min(request.sampleSize || 0, pool.length);
+    for (let i = 0; i < size; i++) {
+      const j = i + Math.floor(random() * (pool.length - i));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    const sample = new Set(pool.slice(0, size).map(item => item.id));
+    return inventory.filter(item => sample.has(item.id));
+  }
+
+  return inventory;
+}
+
+/**
+ * Count lines for the chosen items, noting the stock expected on the shelf
+ * at the location being counted
+ * Variances are valued at cost, or at the selling price when no cost is set.
+ */
+export function buildCountLines(items: InventoryItem[], locationId = DEFAULT_LOCATION_ID): StockCountLine[] {
+  return items.map(item => ({
+    productId: item.id,
+    name: item.name,
+    sku: item.sku,
+    ...(item.barcode ? { barcode: item.barcode } : {}),
+    category: item.category,
+    unit: item.unit,
+    expected: stockAt(item, locationId),
+    unitCost: item.costPrice ?? item.price
+  }));
+}
+
+/**
+ * Record quantities found on the shelf against a session
+ *
+ * @returns The session with the new counts, and any entries that couldn't be recorded
+ */
+export function recordCounts(
+  count: StockCount,
+  entries: StockCountEntries,
+  countedBy: string,
+  date: string
+): { count: StockCount; lineErrors: CountLineError[] } {
+  const lineErrors: CountLineError[] = [];
+  const seen = new Set<number>();
+  const lines = [...count.lines];
+
+  entries.counts.forEach((entry, index) => {
+    const lineIndex = lines.findIndex(line => line.productId === entry.productId);
+    if (lineIndex === -1) {
+      lineErrors.push({
+        line: index,
+        productId: entry.productId,
+        code: "NOT_IN_COUNT",
+        message: `Product ${entry.productId} is not part of this count`
+      });
+      return;
+    }
+
+    if (seen.has(entry.productId)) {
+      lineErrors.push({
+        line: index,
+        productId: entry.productId,
+        code: "DUPLICATE_LINE",
+        message: `${lines[lineIndex].name} is listed more than once`
+      });
+      return;
+    }
+    seen.add(entry.productId);
+
+    lines[lineIndex] = { ...lines[lineIndex], counted: entry.counted, countedBy, countedAt: date };
+  });
+
+  return { count: { ...count, lines }, lineErrors };
+}
+
+/**
+ * Stock an item should have once a counted line is posted: its current
+ * stock moved by the variance found when it was counted
+ */
+export function postedStock(item: InventoryItem, line: StockCountLine): number {
+  return item.stock + (lineVariance(line) || 0);
+}
@@ -0,0 +1,144 @@
+/**
+ * Stock Movements
+ *
+ * Every change to an item's stock is recorded as a movement: what kind of
+ * change it was, the stock before and after, who made it and the sale, loss
+ * or purchase order it came from. Movements are only ever appended, so an
+ * item's movements replay its stock history from the first one recorded.
+ * Items held as lots have their lots moved with the stock, and the movement
+ * records which lots the stock came from or went into. Stock comes and goes
+ * at one location, the main one unless the change says otherwise.
+ */
+import type { InventoryItem, LossItem, SaleItem, StockChange, StockMovement } from "./storage";
+import { roundQuantity } from "@shared/weighing";
+import { addToLots, lotTotal, takeFromLots, type LotQuantity } from "@shared/lots";
+import { addLocationStock, DEFAULT_LOCATION_ID, stockAt, stockByLocation } from "@shared/locations";
+
+// A movement not yet numbered by storage
+export type PendingStockMovement = Omit<StockMovement, 'id'>;
+
+// Stock edits made without saying why are recorded as adjustments by the system
+export const UNATTRIBUTED_CHANGE: StockChange = { type: "adjustment", user: "system" };
+
+/**
+ * Set an item's stock and describe the change as a movement
+ *
+ * @param item - The item, updated in place
+ * @param stock - The new stock level
+ * @param change - Why the stock changed and who changed it
+ * @param date - When the change happened
+ * @returns The movement, or null if the stock didn't change
+ */
+export function moveStock(
+  item: InventoryItem,
+  stock: number,
+  change: StockChange,
+  date: string
+): PendingStockMovement | null {
+  const before = item.stock;
+  // Drop floating point noise from fractional quantities
+  const after = roundQuantity(stock);
+  const quantity = roundQuantity(after - before);
+  item.stock = after;
+
+  if (quantity === 0) {
+    return null;
+  }
+  const lots = moveLots(item, before, change, date);
+
+  // Items only ever stocked at the main location need no breakdown
+  const locationId = change.locationId ?? DEFAULT_LOCATION_ID;
+  if (item.locationStock || locationId !== DEFAULT_LOCATION_ID) {
+    item.locationStock = addLocationStock(
+      stockByLocation({ stock: before, locationStock: item.locationStock }),
+      locationId,
+      quantity
+    );
+  }
+
+  return {
+    productId: item.id,
+    productName: item.name,
+    type: change.type,
+    quantity,
+    before,
+    after,
+    date,
+    user: change.user,
+    locationId,
+    ...(change.sourceId ? { sourceId: change.sourceId } : {}),
+    ...(change.note ? { note: change.note } : {}),
+    ...(lots.length > 0 ? { lots } : {})
+  };
+}
+
+/**
+ * Bring an item's lots back in line with its stock after a change
+ * Stock going out leaves first-expired-first-out; stock coming in goes into
+ * the lot described by the change. An item starts holding lots when stock
+ * arrives with lot details, and the stock it already had becomes a lot with
+ * no expiry.
+ *
+ * @returns What was taken from or added to each lot
+ */
+function moveLots(item: InventoryItem, before: number, change: StockChange, date: string): LotQuantity[] {
+  if (!item.lots && !change.lot) {
+    return [];
+  }
+
+  let lots = item.lots || [];
+  if (!item.lots && before > 0) {
+    lots = addToLots(lots, before, {}, date).lots;
+  }
+
+  // Lots hold whatever stock is on hand, and nothing once stock goes negative
+  const target = Math.max(0, item.stock);
+  const held = lotTotal(lots);
+  let moved: LotQuantity[] = [];
+  if (target > held) {
+    const result = addToLots(lots, roundQuantity(target - held), change.lot, date);
+    lots = result.lots;
+    moved = [result.added];
+  } else if (target < held) {
+    const result = takeFromLots(lots, roundQuantity(held - target), change.lotId);
+    lots = result.lots;
+    moved = result.taken;
+  }
+
+  item.lots = lots;
+  return moved;
+}
+
+/**
+ * Stock an item is left with once a quantity leaves one location, taking no
+ * more than that location holds; a negative quantity puts stock back
+ */
+export function stockAfterTaking(item: InventoryItem, quantity: number, locationId = DEFAULT_LOCATION_ID): number {
+  return item.stock - Math.min(quantity, Math.max(0, stockAt(item, locationId)));
+}
+
+/**
+ * Why a sale or return moved stock; a bundle's components note the bundle they went out in
+ */
+export function saleLineChange(line: Pick<SaleItem, 'name' | 'components'>, change: StockChange): StockChange {
+  return line.components ? { ...change, note: `Bundle: ${line.name}` } : change;
+}
+
+/**
+ * Send a correction to a lot write-off back to the lot it was written off from
+ */
+export function lossLotChange(loss: LossItem): Pick<StockChange, 'lot' | 'lotId'> {
+  return loss.lotId !== undefined
+    ? { lotId: loss.lotId, lot: { lotNumber: loss.lotNumber, expiryDate: loss.expiryDate } }
+    : {};
+}
+
+/**
+ * Number new movements after the ones already recorded
+ */
+export function numberMovements(recorded: StockMovement[], pending: (PendingStockMovement | null)[]): StockMovement[] {
+  let nextId = recorded.reduce((max, movement) => Math.max(max, movement.id), 0) + 1;
+  return pending
+    .filter((movement): movement is PendingStockMovement => movement !== null)
+    .map(movement => ({ ...movement, id: nextId++ }));
+}
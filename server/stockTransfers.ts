@@ -0,0 +1,122 @@
+/**
+ * Stock Transfers
+ *
+ * Checks a transfer against the catalog and the stock at the sending
+ * location, and builds its lines. Stock leaves the sending location when the
+ * transfer is sent, first-expired-first-out for items held in lots; each line
+ * notes the lots its stock came from so it arrives with the same expiry dates.
+ */
+import type { InventoryItem } from "./storage";
+import type { PendingStockMovement } from "./stockMovements";
+import type { StockTransferLine, StockTransferRequest } from "@shared/schema";
+import { stockAt } from "@shared/locations";
+import { isValidQuantity } from "@shared/weighing";
+
+export type TransferLineErrorCode =
+  | "UNKNOWN_PRODUCT"
+  | "INVALID_QUANTITY"
+  | "DUPLICATE_LINE"
+  | "INSUFFICIENT_STOCK";
+
+// A problem with one line of a transfer
+export type TransferLineError = {
+  line: number;          // Index of the line in the submitted transfer
+  productId: number;
+  code: TransferLineErrorCode;
+  message: string;
+  available?: number;    // Stock at the sending location, for INSUFFICIENT_STOCK
+};
+
+/**
+ * Thrown by storage when a transfer can't be sent as picked
+ */
+export class StockTransferError extends Error {
+  constructor(public lineErrors: TransferLineError[]) {
+    super("One or more lines cannot be transferred");
+    this.name = "StockTransferError";
+  }
+}
+
+/**
+ * Check a transfer against the stock at the sending location
+ *
+ * @param request - Locations, lines and quantities as picked
+ * @param inventory - Current inventory items
+ * @returns Transfer lines named from the catalog, with any per-line problems
+ */
+export function checkTransfer(
+  request: StockTransferRequest,
+  inventory: InventoryItem[]
+): { lines: StockTransferLine[]; lineErrors: TransferLineError[] } {
+  const lines: StockTransferLine[] = [];
+  const lineErrors: TransferLineError[] = [];
+  const seen = new Set<number>();
+
+  request.lines.forEach((line, index) => {
+    const item = inventory.find(entry => entry.id === line.productId);
+    if (!item) {
+      lineErrors.push({
+        line: index,
+        productId: line.productId,
+        code: "UNKNOWN_PRODUCT",
+        message: `Product ${line.productId} is not in the catalog`
+      });
+      return;
+    }
+
+    if (seen.has(item.id)) {
+      lineErrors.push({
+        line: index,
+        productId: item.id,
+        code: "DUPLICATE_LINE",
+        message: `${item.name} is listed more than once`
+      });
+      return;
+    }
+    seen.add(item.id);
+
+    if (!isValidQuantity(item, line.quantity)) {
+      lineErrors.push({
+        line: index,
+        productId: item.id,
+        code: "INVALID_QUANTITY",
+        message: `${item.name} is moved in whole units`
+      });
+      return;
+    }
+
+    const available = stockAt(item, request.fromLocationId);
+    if (line.quantity > available) {
+      lineErrors.push({
+        line: index,
+        productId: item.id,
+        code: "INSUFFICIENT_STOCK",
+        message: `Only ${Math.max(0, available)} ${item.unit} of ${item.name} at the sending location`,
+        available
+      });
+      return;
+    }
+
+    lines.push({
+      productId: item.id,
+      name: item.name,
+      sku: item.sku,
+      unit: item.unit,
+      quantity: line.quantity
+    });
+  });
+
+  return { lines, lineErrors };
+}
+
+/**
+ * A sent line, noting the lots its stock was taken from
+ */
+export function sentLine(line: StockTransferLine, movement: PendingStockMovement | null): StockTransferLine {
+  const lots = (movement?.lots || []).map(lot => ({
+    ...(lot.lotNumber ? { lotNumber: lot.lotNumber } : {}),
+    ...(lot.expiryDate ? { expiryDate: lot.expiryDate } : {}),
+    quantity: -lot.quantity
+  }));
+  return lots.length > 0 ? { ...line, lots } : line;
+}
@@ -1,4 +1,177 @@
-import { type User, type InsertUser } from "@shared/schema";
+/**
+ * Storage Interface
+ * 
+ * Defines the data types and operations every storage backend must provide,
+ * and selects the backend used by the application. The JSON file backend
+ * (FileStorage) is the default; the SQLite backend (SqliteStorage) is
+ * enabled with STORAGE_DRIVER=sqlite.
+ */
+import { 
+  type User, 
+  type InsertUser, 
+  type Promotion, 
+  type Tender, 
+  type RefundReason, 
+  type RefundRequest, 
+  type Supplier, 
+  type InsertSupplier, 
+  type SupplierLink, 
+  type ItemBarcode, 
+  type StockLot, 
+  type LotDetails, 
+  type BundleComponent, 
+  type VariantGroup, 
+  type InsertVariantGroup, 
+  type VariantAttributes, 
+  type PurchaseOrder, 
+  type PurchaseOrderStatus, 
+  type GoodsReceiptRequest, 
+  type StockCount, 
+  type StockCountEntries, 
+  type StockCountStatus, 
+  type StockLocation, 
+  type InsertStockLocation, 
+  type StockTransfer, 
+  type StockTransferRequest, 
+  type AlertRule, 
+  type AlertRuleType, 
+  type Category, 
+  type InsertCategory 
+} from "@shared/schema";
+import type { AppliedDiscount } from "@shared/pricing";
+import type { TenderType } from "@shared/tenders";
+import type { LotQuantity } from "@shared/lots";
+import type { BusinessDaySettings } from "@shared/businessDay";
+import { config } from "./config";
+
+// Inventory item type
+export type InventoryItem = {
+  id: number;
+  name: string;
+  sku: string;
+  category: string;
+  stock: number;
+  unit: string;
+  price: number;
+  priceUnit: string;
+  costPrice?: number; // Added: Cost price for profit tracking
+  profitMargin?: number; // Added: Profit margin percentage
+  profitType?: 'percentage' | 'fixed'; // Added: Whether profit is calculated as percentage or fixed amount
+  threshold: number;
+  status: string;
+  image?: string;    // URL or base64 encoded image data
+  barcode?: string;  // Barcode value for scanning
+  barcodes?: ItemBarcode[]; // Further barcodes, including case packs
+  taxExempt?: boolean; // Sold without sales tax
+  suppliers?: SupplierLink[]; // Where the item can be bought, and at what cost
+  variantGroupId?: number; // Parent product, when the item is a variant
+  variantAttributes?: VariantAttributes; // e.g. { Size: "Large" }
+  soldByWeight?: boolean; // Sold in fractional quantities of its unit, e.g. kg
+  tare?: number;     // Usual container weight taken off when weighing at the POS
+  plu?: string;      // Item code printed on scale labels
+  lots?: StockLot[]; // Stock by lot and expiry; changed only by stock movements
+  locationStock?: Record<string, number>; // Stock by location id; changed only by stock movements
+  components?: BundleComponent[]; // Items a bundle is made of; bundles hold no stock of their own
+};
+
+// Line item within a sale
+export type SaleItem = {
+  productId: number;
+  name: string;
+  quantity: number;
+  price: number;
+  unit: string;
+  subtotal: number;
+  category?: string;   // Category at the time of sale, for tax reporting
+  listPrice?: number;  // Catalog price, when a manager overrode the price
+  overrideApprovedBy?: string; // Manager who approved the price override
+  discounts?: AppliedDiscount[]; // Promotions and discounts applied to the line
+  discount?: number;   // Total discount on the line
+  taxRate?: number;    // Tax rate applied to the line (%)
+  tax?: number;        // Tax charged on the discounted line
+  taxExempt?: boolean;
+  components?: BundleComponent[]; // What went into a bundle when it was sold
+};
+
+// Sale transaction type
+export type Sale = {
+  id: string;
+  cashier: string;
+  date: string;
+  amount: number;      // Total paid, after discounts and including tax
+  subtotal?: number;   // Total before discounts and tax
+  discount?: number;   // Total of all discounts
+  cartDiscount?: AppliedDiscount; // Discount on the whole cart, also split across the lines
+  tax?: number;        // Total tax charged
+  tenders?: Tender[];  // How the sale was paid
+  change?: number;     // Cash handed back
+  discountApprovedBy?: string; // Manager who approved the line and cart discounts
+  shiftId?: number;    // Register shift the sale was rung up in
+  locationId?: number; // Location the stock was sold from
+  idempotencyKey?: string; // Chosen by the till so a retried sale is only recorded once
+  provisionalId?: string;  // Receipt number given by the till when the sale was rung up offline
+  syncedAt?: string;   // When a sale rung up offline reached the server; `date` is when it was rung up
+  reviewNotes?: string[]; // What a manager should check about a sale rung up offline, e.g. stock it oversold
+  status: string;      // "Completed", "Partially Refunded" or "Refunded"
+  items: SaleItem[];
+  returns?: SaleReturn[];
+  refundedAmount?: number; // Total given back across all returns
+  refundedBy?: string; // Who processed the latest return
+  refundDate?: string;
+};
+
+// Quantity of one sale line given back in a return
+export type ReturnLine = {
+  saleLine?: number;   // Index of the sale line; left out on returns recorded before lines had one
+  productId: number;
+  name: string;
+  quantity: number;
+  restocked: boolean;  // False when the item went to losses instead
+  amount: number;      // Refunded, including tax
+  tax: number;
+};
+
+// A return against a sale; a sale may have several
+export type SaleReturn = {
+  id: number;          // 1, 2, ... within the sale
+  date: string;
+  processedBy: string;
+  shiftId?: number;    // Shift it was processed in; the refund comes out of that drawer, not the sale's
+  reason: RefundReason;
+  notes?: string;
+  tender: TenderType;  // How the money was given back
+  lines: ReturnLine[];
+  amount: number;
+  tax: number;
+};
+
+// Options for recording a sale
+export type SaleOptions = {
+  user: string;        // Username of whoever rang it up, for its stock movements
+  allowNegativeStock?: boolean; // Manager override to sell more than is in stock
+  date?: string;       // When the sale was rung up, if not now
+};
+
+// Sales and refunds over a period, added up from the sales ledger
+export type SalesTotals = {
+  sales: number;
+  refunds: number;
+  netSales: number;
+};
+
+// Dashboard statistics type
+export type Stats = {
+  totalInventoryItems: number;
+  todaySales: number;
+  lowStockItems: number;
+  activeUsers: number;
+  totalInventoryValue: number;
+  todayRefunds?: number;
+  netSales?: number;
+  businessDay: string;           // Business day the today figures cover, YYYY-MM-DD
+  sameDayLastWeek: SalesTotals;  // Same business day a week ago, up to the same time of day
+  monthToDate: SalesTotals;
+};
 
 // Store settings type
 export type StoreSettings = {
@@ -8,12 +181,141 @@ export type StoreSettings = {
   thankYouMessage: string;
   storeLogo?: string; // Base64 data URL of the logo
   nextTransactionId: number;
+  taxRate?: number;   // Default sales tax rate (%)
+  taxCategoryRates?: Record<string, number>; // Per-category tax rates (%), kept in step with the categories' rates
+  businessDay?: BusinessDaySettings; // Time zone and start hour sales are reported by
 };
 
-// Storage interface specifying the required operations
-// Implemented by file-based storage (FileStorage) in fileStorage.ts
+// Product popularity type
+export type ProductPopularity = {
+  productId: number;
+  salesCount: number;
+  lastUpdated: string;
+};
+
+// Loss record type
+export type LossItem = {
+  id: string;
+  inventoryItemId: number;
+  itemName: string;
+  quantity: number;
+  reason: string;
+  date: string;
+  recordedBy: string;
+  value: number;
+  lotId?: number;      // Lot written off, e.g. when it expired
+  lotNumber?: string;
+  expiryDate?: string;
+  locationId?: number; // Where the stock was lost
+};
+
+// Cash put into or taken out of the drawer during a shift
+export type CashMovement = {
+  id: number;
+  type: "paid_in" | "paid_out" | "drop";
+  amount: number;
+  reason: string;
+  recordedBy: string;
+  date: string;
+};
+
+// Register session, from the opening float to the closing count
+export type Shift = {
+  id: number;
+  userId: number;
+  cashier: string;
+  status: "open" | "closed";
+  locationId?: number;    // Where the register is; sales take stock from here
+  openedAt: string;
+  openingFloat: number;
+  movements: CashMovement[];
+  closedAt?: string;
+  closedBy?: string;
+  countedCash?: number;   // Blind count entered at close
+  expectedCash?: number;  // Float plus cash taken, paid-ins, paid-outs and drops
+  variance?: number;      // Counted minus expected; negative when the drawer is short
+  closingNotes?: string;
+};
+
+// Why an item's stock changed
+export type StockMovementType = "sale" | "refund" | "loss" | "receipt" | "adjustment" | "import" | "count" | "transfer";
+
+// One change to an item's stock; movements are never changed or removed
+export type StockMovement = {
+  id: number;
+  productId: number;
+  productName: string;
+  type: StockMovementType;
+  quantity: number;    // Change in stock; negative when stock went out
+  before: number;
+  after: number;
+  date: string;
+  user: string;        // Who made the change
+  sourceId?: string;   // Sale, loss, purchase order or transfer the change came from
+  note?: string;
+  lots?: LotQuantity[]; // Lots the stock came from or went into
+  locationId?: number; // Where the stock came from or went to
+};
+
+// What is behind a stock change made by editing or importing an item
+export type StockChange = {
+  type: StockMovementType;
+  user: string;
+  sourceId?: string;
+  note?: string;
+  lot?: LotDetails;    // Lot number and expiry of stock being added
+  lotId?: number;      // Lot to take stock from first
+  locationId?: number; // Where the stock comes or goes; the main location if not given
+};
 
+// What raised a notification
+export type NotificationEvent = "low_stock" | "large_refund" | "failed_logins" | "shift_variance" | "alert_rule" | "offline_sale_review";
+
+// Message raised by a server event, for one user or for everyone with some roles
+export type Notification = {
+  id: number;
+  event: NotificationEvent;
+  type: "info" | "warning" | "error" | "success";
+  title: string;
+  message: string;
+  userId?: number;       // Sent to this user
+  roles?: string[];      // Sent to everyone with one of these roles
+  link?: string;         // Page to open for details, e.g. "/shifts"
+  createdAt: string;
+  readBy: number[];      // Users who have read it
+  dismissedBy: number[]; // Users who have cleared it from their list
+};
+
+// Raised when an alert rule matched; each rule raises one alert per subject
+export type RuleAlert = {
+  id: number;
+  ruleId: number;
+  ruleName: string;
+  ruleType: AlertRuleType;
+  key: string;          // What the alert is about, e.g. "shift:12" or "item:40"
+  message: string;
+  value: number;        // The figure that broke the rule
+  link?: string;
+  raisedAt: string;
+  resolvedAt?: string;  // When a margin or no-sales condition stopped holding
+};
+
+// Closing count for a shift
+export type ShiftClose = {
+  closedBy: string;
+  countedCash: number;
+  expectedCash: number;
+  variance: number;
+  closingNotes?: string;
+};
+
+
+// Storage interface specifying the required operations
+// Implemented by FileStorage in fileStorage.ts and SqliteStorage in sqliteStorage.ts
 export interface IStorage {
+  // Resolves once the backend is ready to serve requests
+  readonly ready: Promise<void>;
+  
   // User methods
   getUsers(): Promise<User[]>;
   getUser(id: number): Promise<User | undefined>;
@@ -21,101 +323,137 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, updates: Partial<User>): Promise<User | null>;
   deleteUser(id: number): Promise<boolean>;
+  migratePlaintextPins(): Promise<number>;
+  
+  // Inventory methods
+  getInventory(): Promise<InventoryItem[]>;
+  getInventoryItem(id: number): Promise<InventoryItem | undefined>;
+  addInventoryItem(item: Omit<InventoryItem, 'id' | 'status'>, change?: StockChange): Promise<InventoryItem>;
+  updateInventoryItem(id: number, updates: Partial<InventoryItem>, change?: StockChange): Promise<InventoryItem | null>;
+  deleteInventoryItem(id: number): Promise<boolean>;
+  
+  // Stock movement methods
+  getStockMovements(productId?: number): Promise<StockMovement[]>;
+  
+  // Sales methods
+  getSales(): Promise<Sale[]>;
+  getSale(id: string): Promise<Sale | undefined>;
+  getSaleByIdempotencyKey(key: string): Promise<Sale | undefined>;
+  addSale(sale: Omit<Sale, 'id' | 'date'>, options: SaleOptions): Promise<Sale>;
+  updateSale(id: string, updates: Partial<Sale>): Promise<Sale | null>;
+  refundSale(id: string, refund: RefundRequest, refundedBy: string, shiftId?: number): Promise<Sale | null>;
+  
+  // Stats methods
+  getStats(locationId?: number): Promise<Stats>;
+  
+  // Loss methods
+  getLosses(): Promise<LossItem[]>;
+  getLoss(id: string): Promise<LossItem | undefined>;
+  addLoss(loss: Omit<LossItem, 'id' | 'date'>): Promise<LossItem>;
+  updateLoss(id: string, updates: Partial<LossItem>, updatedBy?: string): Promise<LossItem | null>;
   
   // Store settings methods
   getStoreSettings(): Promise<StoreSettings>;
   updateStoreSettings(updates: Partial<StoreSettings>): Promise<StoreSettings>;
   getNextTransactionId(): Promise<number>;
+  
+  // Product popularity methods
+  getProductPopularity(): Promise<ProductPopularity[]>;
+  updateProductPopularity(items: SaleItem[]): Promise<void>;
+  getInventoryByPopularity(): Promise<InventoryItem[]>;
+  
+  // Promotion methods
+  getPromotions(): Promise<Promotion[]>;
+  getPromotion(id: number): Promise<Promotion | undefined>;
+  addPromotion(promotion: Omit<Promotion, 'id'>): Promise<Promotion>;
+  updatePromotion(id: number, updates: Partial<Promotion>): Promise<Promotion | null>;
+  deletePromotion(id: number): Promise<boolean>;
+  
+  // Shift methods
+  getShifts(): Promise<Shift[]>;
+  getShift(id: number): Promise<Shift | undefined>;
+  getOpenShift(userId: number): Promise<Shift | undefined>;
+  openShift(shift: Pick<Shift, 'userId' | 'cashier' | 'openingFloat' | 'locationId'>): Promise<Shift | null>;
+  addCashMovement(shiftId: number, movement: Omit<CashMovement, 'id' | 'date'>): Promise<Shift | null>;
+  closeShift(id: number, close: ShiftClose): Promise<Shift | null>;
+  
+  // Supplier methods
+  getSuppliers(): Promise<Supplier[]>;
+  getSupplier(id: number): Promise<Supplier | undefined>;
+  addSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: number, updates: Partial<Supplier>): Promise<Supplier | null>;
+  deleteSupplier(id: number): Promise<boolean>;
+  
+  // Variant group methods
+  getVariantGroups(): Promise<VariantGroup[]>;
+  getVariantGroup(id: number): Promise<VariantGroup | undefined>;
+  addVariantGroup(group: InsertVariantGroup): Promise<VariantGroup>;
+  updateVariantGroup(id: number, updates: Partial<VariantGroup>): Promise<VariantGroup | null>;
+  // Deleting a group leaves its variants as standalone items
+  deleteVariantGroup(id: number): Promise<boolean>;
+  
+  // Category methods
+  // Changes keep the store settings' per-category tax rates in step with the categories
+  getCategories(): Promise<Category[]>;
+  getCategory(id: number): Promise<Category | undefined>;
+  addCategory(category: InsertCategory): Promise<Category>;
+  // A new name is carried to every item, variant group, promotion and alert rule filed under the old one
+  updateCategory(id: number, updates: Partial<Category>): Promise<Category | null>;
+  // Moves everything filed under a category, and its subcategories, into another and removes it
+  mergeCategories(id: number, intoId: number): Promise<Category | null>;
+  deleteCategory(id: number): Promise<boolean>;
+  // Builds the category list from the names in use when there isn't one yet
+  migrateCategories(): Promise<number>;
+  
+  // Purchase order methods
+  getPurchaseOrders(): Promise<PurchaseOrder[]>;
+  getPurchaseOrder(id: number): Promise<PurchaseOrder | undefined>;
+  addPurchaseOrder(order: Omit<PurchaseOrder, 'id'>): Promise<PurchaseOrder>;
+  updatePurchaseOrder(id: number, updates: Partial<PurchaseOrder>, fromStatuses?: PurchaseOrderStatus[]): Promise<PurchaseOrder | null>;
+  receivePurchaseOrder(id: number, receipt: GoodsReceiptRequest, receivedBy: string): Promise<PurchaseOrder | null>;
+  
+  // Stock count methods
+  getStockCounts(): Promise<StockCount[]>;
+  getStockCount(id: number): Promise<StockCount | undefined>;
+  addStockCount(count: Omit<StockCount, 'id'>): Promise<StockCount>;
+  updateStockCount(id: number, updates: Partial<StockCount>, fromStatuses?: StockCountStatus[]): Promise<StockCount | null>;
+  recordStockCounts(id: number, entries: StockCountEntries, countedBy: string): Promise<StockCount | null>;
+  postStockCount(id: number, postedBy: string): Promise<StockCount | null>;
+  
+  // Location methods
+  getLocations(): Promise<StockLocation[]>;
+  getLocation(id: number): Promise<StockLocation | undefined>;
+  addLocation(location: InsertStockLocation): Promise<StockLocation>;
+  updateLocation(id: number, updates: Partial<StockLocation>): Promise<StockLocation | null>;
+  
+  // Stock transfer methods
+  getStockTransfers(): Promise<StockTransfer[]>;
+  getStockTransfer(id: number): Promise<StockTransfer | undefined>;
+  addStockTransfer(transfer: StockTransferRequest, sentBy: string): Promise<StockTransfer>;
+  receiveStockTransfer(id: number, receivedBy: string): Promise<StockTransfer | null>;
+  cancelStockTransfer(id: number, cancelledBy: string): Promise<StockTransfer | null>;
+  
+  // Notification methods
+  getNotifications(): Promise<Notification[]>;
+  addNotification(notification: Omit<Notification, 'id' | 'createdAt' | 'readBy' | 'dismissedBy'>): Promise<Notification>;
+  markNotifications(ids: number[], userId: number, mark: 'read' | 'dismissed'): Promise<void>;
+  
+  // Alert rule methods
+  getAlertRules(): Promise<AlertRule[]>;
+  getAlertRule(id: number): Promise<AlertRule | undefined>;
+  addAlertRule(rule: Omit<AlertRule, 'id'>): Promise<AlertRule>;
+  updateAlertRule(id: number, updates: Partial<AlertRule>): Promise<AlertRule | null>;
+  deleteAlertRule(id: number): Promise<boolean>;
+  getRuleAlerts(): Promise<RuleAlert[]>;
+  // Store newly raised alerts and mark others resolved in one step
+  recordRuleAlerts(raised: Omit<RuleAlert, 'id'>[], resolvedIds: number[], resolvedAt: string): Promise<RuleAlert[]>;
 }
 
 /**
- * @deprecated This class is no longer used and is kept for reference only.
- * Use the FileStorage implementation from fileStorage.ts instead.
- */
-export class MemStorage implements IStorage {
-  private users: Map<number, User>;
-  currentId: number;
-
-  constructor() {
-    this.users = new Map();
-    this.currentId = 1;
-  }
-
-  async getUsers(): Promise<User[]> {
-    return Array.from(this.users.values());
-  }
-
-  async getUser(id: number): Promise<User | undefined> {
-    return this.users.get(id);
-  }
-
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
-    );
-  }
-
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = this.currentId++;
-    
-    // Set session valid until (2 hours from creation)
-    const now = new Date();
-    const sessionValidUntil = new Date(now);
-    sessionValidUntil.setHours(sessionValidUntil.getHours() + 2);
-    
-    const user: User = { 
-      ...insertUser, 
-      id,
-      lastActive: now.toISOString(),
-      sessionValidUntil: sessionValidUntil.toISOString()
-    };
-    this.users.set(id, user);
-    return user;
-  }
-  
-  async updateUser(id: number, updates: Partial<User>): Promise<User | null> {
-    const user = this.users.get(id);
-    
-    if (!user) {
-      return null;
-    }
-    
-    const updatedUser = { ...user, ...updates };
-    this.users.set(id, updatedUser);
-    return updatedUser;
-  }
-  
-  async deleteUser(id: number): Promise<boolean> {
-    return this.users.delete(id);
-  }
-
-  // Store settings implementation (now superseded by fileStorage.ts but kept for interface reference)
-  private storeSettings: StoreSettings = {
-    storeName: "Inventory Pro Store",
-    storeAddress: "123 Main Street, City, State, 12345",
-    storePhone: "(555) 123-4567",
-    thankYouMessage: "Thank you for shopping with us!",
-    nextTransactionId: 1
-  };
-
-  async getStoreSettings(): Promise<StoreSettings> {
-    return this.storeSettings;
-  }
-
-  async updateStoreSettings(updates: Partial<StoreSettings>): Promise<StoreSettings> {
-    this.storeSettings = { ...this.storeSettings, ...updates };
-    return this.storeSettings;
-  }
-
-  async getNextTransactionId(): Promise<number> {
-    const currentId = this.storeSettings.nextTransactionId;
-    this.storeSettings.nextTransactionId = currentId + 1;
-    return currentId;
-  }
-}
-
-/**
- * @deprecated This storage instance is no longer used in the application.
- * The FileStorage implementation in fileStorage.ts is used instead.
+ * The storage backend selected by the STORAGE_DRIVER setting
+ * Only that backend is loaded: the file backend sets up its JSON files as
+ * soon as it's imported, and the SQLite one needs its native module.
  */
-export const storage = new MemStorage();
+export const storage: IStorage = config.storageDriver === 'sqlite'
+  ? new (await import("./sqliteStorage")).SqliteStorage(config.sqlitePath)
+  : (await import("./fileStorage")).fileStorage;
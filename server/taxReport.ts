@@ -0,0 +1,76 @@
+/**
+ * Tax Report
+ *
+ * Summarizes the sales tax recorded on completed sales, grouped by category
+ * and rate, for the tax-collected report. Refunded sales are left out since
+ * their tax was returned to the customer, and items returned from partially
+ * refunded sales are taken off their lines.
+ */
+import type { Sale } from "./storage";
+import { roundCurrency } from "@shared/tax";
+
+// One row of the tax-collected report
+export type TaxSummaryRow = {
+  id: string;            // "<category>@<rate>" or "<category>@exempt"
+  category: string;
+  taxRate: number;       // %
+  taxExempt: boolean;
+  lineCount: number;
+  taxableSales: number;  // Line subtotals after discounts, before tax
+  taxCollected: number;
+};
+
+/**
+ * Summarize the tax collected on sales within an optional date range
+ *
+ * @param sales - All recorded sales
+ * @param startDate - Earliest sale date to include (inclusive)
+ * @param endDate - Latest sale date to include (inclusive)
+ * @returns Rows sorted by category, then rate
+ */
+export function summarizeTaxCollected(sales: Sale[], startDate?: Date, endDate?: Date): TaxSummaryRow[] {
+  const rows = new Map<string, TaxSummaryRow>();
+
+  sales.forEach(sale => {
+    if (sale.status === "Refunded") {
+      return;
+    }
+
+    const saleDate = new Date(sale.date);
+    if ((startDate && saleDate < startDate) || (endDate && saleDate > endDate)) {
+      return;
+    }
+
+    sale.items.forEach(item => {
+      const returned = (sale.returns || [])
+        .flatMap(saleReturn => saleReturn.lines)
+        .filter(line => line.productId === item.productId);
+      const returnedAmount = returned.reduce((sum, line) => sum + line.amount, 0);
+      const returnedTax = returned.reduce((sum, line) => sum + line.tax, 0);
+
+      const category = item.category || "Uncategorized";
+      const taxRate = item.taxRate || 0;
+      const taxExempt = !!item.taxExempt;
+      const id = `${category}@${taxExempt ? "exempt" : taxRate}`;
+
+      const row = rows.get(id) || {
+        id,
+        category,
+        taxRate,
+        taxExempt,
+        lineCount: 0,
+        taxableSales: 0,
+        taxCollected: 0
+      };
+
+      row.lineCount += 1;
+      row.taxableSales = roundCurrency(row.taxableSales + item.subtotal - (item.discount || 0) - (returnedAmount - returnedTax));
+      row.taxCollected = roundCurrency(row.taxCollected + (item.tax || 0) - returnedTax);
+      rows.set(id, row);
+    });
+  });
+
+  return Array.from(rows.values()).sort((a, b) =>
+    a.category.localeCompare(b.category) || a.taxRate - b.taxRate
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * Tender Report
+ *
+ * Totals sales by how they were paid, for end-of-day drawer and card batch
+ * reconciliation. Cash is reported net of the change handed back. A sale is
+ * counted when and where it was rung up, and each return when and where it
+ * was processed, off the tender it was paid back in; a sale refunded later
+ * still counts towards the takings of the day or shift it was rung up in.
+ */
+import type { Sale } from "./storage";
+import { TENDER_LABELS, type TenderType } from "@shared/tenders";
+import { roundCurrency } from "@shared/tax";
+
+// One row of the tender report
+export type TenderSummaryRow = {
+  id: TenderType | "unrecorded";  // Sales recorded before tenders were captured
+  tender: string;
+  saleCount: number;              // Sales paid at least partly with this tender
+  tendered: number;
+  change: number;                 // Cash only
+  refunded: number;               // Given back for partial returns
+  amount: number;                 // Tendered minus change and refunds
+};
+
+// Which sales and returns to count: those within a date range, or those in one register shift
+export type TenderScope = {
+  startDate?: Date;               // Inclusive
+  endDate?: Date;                 // Inclusive
+  shiftId?: number;
+};
+
+function inScope(date: string, shiftId: number | undefined, scope: TenderScope): boolean {
+  if (scope.shiftId !== undefined && shiftId !== scope.shiftId) {
+    return false;
+  }
+  const at = new Date(date);
+  return !(scope.startDate && at < scope.startDate) && !(scope.endDate && at > scope.endDate);
+}
+
+/**
+ * Summarize sales and returns by tender type
+ *
+ * @param sales - All recorded sales, with their returns
+ * @param scope - Dates or shift to report on; everything when left out
+ * @returns One row per tender type used, in the order the POS offers them
+ */
+export function summarizeTenders(sales: Sale[], scope: TenderScope = {}): TenderSummaryRow[] {
+  const rows = new Map<TenderSummaryRow["id"], TenderSummaryRow>();
+
+  const rowFor = (id: TenderSummaryRow["id"]) => {
+    const row = rows.get(id) || {
+      id,
+      tender: id === "unrecorded" ? "Not Recorded" : TENDER_LABELS[id],
+      saleCount: 0,
+      tendered: 0,
+      change: 0,
+      refunded: 0,
+      amount: 0
+    };
+    rows.set(id, row);
+    return row;
+  };
+
+  const countSale = (sale: Sale) => {
+    if (!sale.tenders || sale.tenders.length === 0) {
+      const row = rowFor("unrecorded");
+      row.saleCount += 1;
+      row.tendered = roundCurrency(row.tendered + sale.amount);
+      row.amount = roundCurrency(row.amount + sale.amount);
+      return;
+    }
+
+    const used = new Set<TenderType>();
+    sale.tenders.forEach(tender => {
+      const row = rowFor(tender.type);
+      row.tendered = roundCurrency(row.tendered + tender.amount);
+      row.amount = roundCurrency(row.amount + tender.amount);
+      used.add(tender.type);
+    });
+    used.forEach(type => {
+      rowFor(type).saleCount += 1;
+    });
+
+    if (sale.change) {
+      const cash = rowFor("cash");
+      cash.change = roundCurrency(cash.change + sale.change);
+      cash.amount = roundCurrency(cash.amount - sale.change);
+    }
+  };
+
+  sales.forEach(sale => {
+    if (inScope(sale.date, sale.shiftId, scope)) {
+      countSale(sale);
+    }
+
+    // A return processed outside any shift is left out of every shift's report
+    (sale.returns || [])
+      .filter(saleReturn => inScope(saleReturn.date, saleReturn.shiftId, scope))
+      .forEach(saleReturn => {
+        const row = rowFor(saleReturn.tender);
+        row.refunded = roundCurrency(row.refunded + saleReturn.amount);
+        row.amount = roundCurrency(row.amount - saleReturn.amount);
+      });
+  });
+
+  const order = [...Object.keys(TENDER_LABELS), "unrecorded"];
+  return Array.from(rows.values()).sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id));
+}
@@ -0,0 +1,36 @@
+/**
+ * Alert Rules
+ *
+ * Helpers shared by the server and the alert rules screen. A rule names
+ * something managers want to hear about, such as refunds over an amount or
+ * items that have stopped selling, and the figure that sets it off.
+ */
+import type { AlertRule, AlertRuleType } from "./schema";
+
+// Display names, and what each type's threshold is entered as
+export const ALERT_RULE_TYPES: Record<AlertRuleType, { label: string; threshold: string }> = {
+  refund_over: { label: "Large refund", threshold: "Refund over ($)" },
+  voids_per_shift: { label: "Voids per shift", threshold: "More than (voids)" },
+  margin_below: { label: "Low margin", threshold: "Margin below (%)" },
+  no_sales: { label: "No sales", threshold: "No sale in (days)" },
+  category_losses: { label: "Category losses", threshold: "Losses over ($ a week)" }
+};
+
+/**
+ * A rule in words, e.g. "Refunds over $50.00"
+ */
+export function describeAlertRule(rule: Pick<AlertRule, "type" | "threshold" | "category">): string {
+  const scope = rule.category ? ` in ${rule.category}` : "";
+  switch (rule.type) {
+    case "refund_over":
+      return `Refunds over $${rule.threshold.toFixed(2)}`;
+    case "voids_per_shift":
+      return `More than ${rule.threshold} void${rule.threshold === 1 ? "" : "s"} in a shift`;
+    case "margin_below":
+      return `Items${scope} with a margin below ${rule.threshold}%`;
+    case "no_sales":
+      return `Items${scope} with no sales in ${rule.threshold} day${rule.threshold === 1 ? "" : "s"}`;
+    case "category_losses":
+      return `Losses${scope} over $${rule.threshold.toFixed(2)} in a week`;
+  }
+}
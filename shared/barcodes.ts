@@ -0,0 +1,80 @@
+/**
+ * Barcodes
+ *
+ * Resolves scanned codes to catalog items. An item can be sold under its
+ * primary barcode, any number of further barcodes (a product that ships under
+ * several UPCs), and case-pack barcodes that sell several units per scan.
+ * Items without a matching barcode are matched on their SKU.
+ */
+import type { ItemBarcode } from "./schema";
+
+// The parts of an inventory item that barcode lookups need
+type Scannable = {
+  id: number;
+  sku: string;
+  barcode?: string;
+  barcodes?: ItemBarcode[];
+};
+
+export type BarcodeMatch<T extends Scannable> = {
+  item: T;
+  code: string;
+  packQuantity: number;  // Units one scan of the code sells
+};
+
+/**
+ * Every barcode an item is sold under, primary barcode first
+ */
+export function itemBarcodes(item: Scannable): ItemBarcode[] {
+  return [
+    ...(item.barcode ? [{ code: item.barcode, packQuantity: 1 }] : []),
+    ...(item.barcodes || [])
+  ];
+}
+
+/**
+ * Find the item a scanned code belongs to
+ *
+ * @param items - Catalog to search
+ * @param code - Scanned or typed code
+ * @returns The item and the units the code sells, or null if nothing matches
+ */
+export function resolveBarcode<T extends Scannable>(items: T[], code: string): BarcodeMatch<T> | null {
+  const scanned = code.trim();
+  if (!scanned) {
+    return null;
+  }
+
+  for (const item of items) {
+    const barcode = itemBarcodes(item).find(entry => entry.code === scanned);
+    if (barcode) {
+      return { item, code: scanned, packQuantity: barcode.packQuantity };
+    }
+  }
+
+  const bySku = items.find(item => item.sku === scanned);
+  return bySku ? { item: bySku, code: scanned, packQuantity: 1 } : null;
+}
+
+/**
+ * Barcodes already used by other items
+ *
+ * @param items - Current catalog
+ * @param codes - Barcodes an item is about to be given
+ * @param excludeId - The item being edited, whose own barcodes don't conflict
+ * @returns Each conflicting code with the item that has it
+ */
+export function findBarcodeConflicts<T extends Scannable>(
+  items: T[],
+  codes: string[],
+  excludeId?: number
+): { code: string; item: T }[] {
+  const conflicts: { code: string; item: T }[] = [];
+  codes.forEach(code => {
+    const owner = items.find(item => item.id !== excludeId && itemBarcodes(item).some(entry => entry.code === code));
+    if (owner) {
+      conflicts.push({ code, item: owner });
+    }
+  });
+  return conflicts;
+}
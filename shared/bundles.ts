@@ -0,0 +1,170 @@
+/**
+ * Bundles
+ *
+ * A bundle, such as a gift basket or combo pack, sells under its own SKU but
+ * is made up of other inventory items, its components. It holds no stock of
+ * its own: selling one takes its components out of stock, so how many can be
+ * sold depends on the stock of each component, and what it costs is what its
+ * components cost. Bundles can't contain other bundles.
+ */
+import type { BundleComponent } from "./schema";
+import { DEFAULT_LOCATION_ID, stockByLocation, stockAt } from "./locations";
+import { isValidQuantity, roundQuantity } from "./weighing";
+import { roundCurrency } from "./tax";
+
+// The parts of an inventory item that bundles need
+type BundleItem = {
+  id: number;
+  name: string;
+  stock: number;
+  locationStock?: Record<string, number>;
+  costPrice?: number;
+  threshold?: number;
+  soldByWeight?: boolean;
+  components?: BundleComponent[];
+};
+
+/**
+ * Whether an item is a bundle of other items
+ */
+export function isBundle(item: { components?: BundleComponent[] }): boolean {
+  return !!item.components && item.components.length > 0;
+}
+
+/**
+ * The stock a sale line takes: the item's own, or its components' for a bundle
+ *
+ * @param line - Product and quantity sold, with the bundle's components if it is one
+ */
+export function stockTaken(line: { productId: number; quantity: number; components?: BundleComponent[] }): BundleComponent[] {
+  if (!line.components || line.components.length === 0) {
+    return [{ productId: line.productId, quantity: line.quantity }];
+  }
+  return line.components.map(component => ({
+    productId: component.productId,
+    quantity: roundQuantity(component.quantity * line.quantity)
+  }));
+}
+
+/**
+ * How many of a bundle can be made up at each location
+ * Components kept at different locations can't go into the same bundle.
+ */
+export function bundleStockByLocation(bundle: BundleItem, items: BundleItem[]): Record<string, number> {
+  const components = (bundle.components || []).map(component => ({
+    component,
+    item: items.find(entry => entry.id === component.productId)
+  }));
+  const locationIds = new Set(components.flatMap(({ item }) => item ? Object.keys(stockByLocation(item)) : []));
+
+  const available: Record<string, number> = {};
+  locationIds.forEach(locationId => {
+    const made = Math.min(...components.map(({ component, item }) =>
+      item ? Math.floor(roundQuantity(stockAt(item, Number(locationId)) / component.quantity)) : 0
+    ));
+    if (made > 0) {
+      available[locationId] = made;
+    }
+  });
+  return available;
+}
+
+/**
+ * How many of a bundle can be sold, at one location or across all of them
+ */
+export function bundleAvailability(bundle: BundleItem, items: BundleItem[], locationId?: number): number {
+  const available = bundleStockByLocation(bundle, items);
+  return locationId === undefined
+    ? Object.values(available).reduce((total, quantity) => total + quantity, 0)
+    : available[locationId] ?? 0;
+}
+
+/**
+ * What a bundle costs: its components' cost prices added up
+ *
+ * @returns The cost, or undefined while any component has no cost price
+ */
+export function bundleCost(bundle: BundleItem, items: BundleItem[]): number | undefined {
+  let cost = 0;
+  for (const component of bundle.components || []) {
+    const item = items.find(entry => entry.id === component.productId);
+    if (item?.costPrice === undefined) {
+      return undefined;
+    }
+    cost += item.costPrice * component.quantity;
+  }
+  return roundCurrency(cost);
+}
+
+/**
+ * Items with each bundle's stock, status and cost worked out from its components
+ * Used wherever items are shown or reported on; bundles store none of them.
+ */
+export function withBundleDetails<T extends BundleItem>(items: T[]): T[] {
+  return items.map(item => {
+    if (!isBundle(item)) {
+      return item;
+    }
+    const available = bundleStockByLocation(item, items);
+    const onlyMain = Object.keys(available).every(locationId => Number(locationId) === DEFAULT_LOCATION_ID);
+    const stock = Object.values(available).reduce((total, quantity) => total + quantity, 0);
+    return {
+      ...item,
+      stock,
+      locationStock: onlyMain ? undefined : available,
+      status: stock < (item.threshold ?? 0) ? "Low Stock" : "In Stock",
+      costPrice: bundleCost(item, items)
+    };
+  });
+}
+
+/**
+ * A bundle's contents, e.g. "2 x Jam, 1 x Crackers"
+ */
+export function describeBundle(bundle: BundleItem, items: BundleItem[]): string {
+  return (bundle.components || [])
+    .map(component => `${component.quantity} x ${items.find(entry => entry.id === component.productId)?.name ?? `#${component.productId}`}`)
+    .join(", ");
+}
+
+/**
+ * Bundles that an item goes into
+ */
+export function bundlesContaining<T extends BundleItem>(productId: number, items: T[]): T[] {
+  return items.filter(item => item.components?.some(component => component.productId === productId));
+}
+
+/**
+ * Check a bundle's components
+ *
+ * @param components - What goes into each bundle
+ * @param items - Current catalog
+ * @param bundleId - The bundle being edited
+ * @returns A message describing the problem, or null if the components are valid
+ */
+export function findBundleProblem(
+  components: BundleComponent[],
+  items: BundleItem[],
+  bundleId?: number
+): string | null {
+  for (let index = 0; index < components.length; index++) {
+    const component = components[index];
+    const item = items.find(entry => entry.id === component.productId);
+    if (!item) {
+      return `Component ${component.productId} is not in inventory`;
+    }
+    if (item.id === bundleId) {
+      return "A bundle can't contain itself";
+    }
+    if (components.findIndex(entry => entry.productId === component.productId) !== index) {
+      return `${item.name} is listed more than once`;
+    }
+    if (isBundle(item)) {
+      return `${item.name} is a bundle; bundles can't contain other bundles`;
+    }
+    if (!isValidQuantity(item, component.quantity)) {
+      return `${item.name} is sold in whole units`;
+    }
+  }
+  return null;
+}
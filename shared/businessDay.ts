@@ -0,0 +1,88 @@
+/**
+ * Business Day
+ *
+ * Sales are reported by business day rather than by the server's calendar
+ * day. The business day follows the store's time zone and can start later
+ * than midnight, so a late-night store's sales after midnight still count
+ * towards the day they were rung up in.
+ */
+
+// When the business day starts, stored with the store settings
+export type BusinessDaySettings = {
+  timeZone?: string;  // IANA time zone, e.g. "America/Chicago"; the server's when unset
+  startHour: number;  // Hour of the day (0-23) the business day starts at
+};
+
+export const DEFAULT_BUSINESS_DAY: BusinessDaySettings = {
+  startHour: 0
+};
+
+// Formatters are slow to create and are reused for each time zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Whether a time zone name is one the runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Where a moment falls in business time, as YYYY-MM-DDTHH:mm:ss
+ * The date is the business day and the time is how far into that day the
+ * moment is, so two moments can be compared by time of day across days.
+ *
+ * @param date - The moment, as a Date or ISO string
+ * @param settings - The store's business day
+ */
+export function businessTime(date: Date | string, settings: BusinessDaySettings = DEFAULT_BUSINESS_DAY): string {
+  const timeZone = settings.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit"
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(date)).map(part => [part.type, Number(part.value)]));
+  // The store's wall clock, wound back by the hour the day starts at
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return new Date(wallClock - settings.startHour * 60 * 60 * 1000).toISOString().slice(0, 19);
+}
+
+/**
+ * The business day a moment falls on, as YYYY-MM-DD
+ */
+export function businessDay(date: Date | string = new Date(), settings: BusinessDaySettings = DEFAULT_BUSINESS_DAY): string {
+  return businessTime(date, settings).slice(0, 10);
+}
+
+/**
+ * A day a number of days before or after another, both as YYYY-MM-DD
+ */
+export function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The Monday starting the week a day falls in, both as YYYY-MM-DD
+ */
+export function weekStart(day: string): string {
+  const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+  return addDays(day, -((weekday + 6) % 7));
+}
@@ -0,0 +1,203 @@
+/**
+ * Categories
+ *
+ * Items name their category, and the category list says how categories nest
+ * and what each one's defaults are. Names are matched ignoring case and extra
+ * spaces, so "Dairy", "dairy" and "Dairy " are one category. A subcategory
+ * without its own threshold, tax rate or margin takes its parent's.
+ */
+import type { Category } from "./schema";
+
+// Defaults a category can set for its items and its subcategories'
+export type CategoryDefault = "defaultThreshold" | "taxRate" | "defaultMargin";
+
+// A category with its place in the tree, for pickers and lists
+export type CategoryOption = {
+  category: Category;
+  depth: number;
+  path: string;
+};
+
+// How subcategory names are shown under their parents, e.g. "Food › Dairy"
+export const CATEGORY_PATH_SEPARATOR = " › ";
+
+/**
+ * A category name as it is saved: trimmed and single-spaced
+ */
+export function tidyCategoryName(name: string): string {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * What category names are matched on: tidied and lower case
+ */
+export function categoryKey(name: string): string {
+  return tidyCategoryName(name).toLowerCase();
+}
+
+/**
+ * The category a name refers to
+ */
+export function findCategory(categories: Category[], name: string): Category | undefined {
+  const key = categoryKey(name);
+  return categories.find(category => categoryKey(category.name) === key);
+}
+
+/**
+ * A category's parent, grandparent and so on, nearest first
+ * Stops at a missing parent or a loop rather than failing.
+ */
+export function ancestorsOf(category: Category, categories: Category[]): Category[] {
+  const ancestors: Category[] = [];
+  const seen = new Set([category.id]);
+  let parentId = category.parentId;
+  while (parentId !== undefined && !seen.has(parentId)) {
+    const parent = categories.find(entry => entry.id === parentId);
+    if (!parent) {
+      break;
+    }
+    ancestors.push(parent);
+    seen.add(parent.id);
+    parentId = parent.parentId;
+  }
+  return ancestors;
+}
+
+/**
+ * The ids of a category's subcategories at every level
+ */
+export function descendantIds(id: number, categories: Category[]): number[] {
+  const found: number[] = [];
+  const pending = [id];
+  while (pending.length) {
+    const parentId = pending.pop()!;
+    categories
+      .filter(category => category.parentId === parentId && category.id !== id && !found.includes(category.id))
+      .forEach(category => {
+        found.push(category.id);
+        pending.push(category.id);
+      });
+  }
+  return found;
+}
+
+/**
+ * A category's name under its parents, e.g. "Food › Dairy"
+ */
+export function categoryPath(category: Category, categories: Category[]): string {
+  return [...ancestorsOf(category, categories).reverse(), category].map(entry => entry.name).join(CATEGORY_PATH_SEPARATOR);
+}
+
+/**
+ * A default set on the category or, failing that, on the nearest parent that sets it
+ */
+export function categorySetting(category: Category, categories: Category[], field: CategoryDefault): number | undefined {
+  return [category, ...ancestorsOf(category, categories)].find(entry => entry[field] !== undefined)?.[field];
+}
+
+/**
+ * Tax rates by category name, with subcategories taking their parent's rate
+ * This is what the store settings' per-category rates are kept in step with.
+ */
+export function categoryTaxRates(categories: Category[]): Record<string, number> {
+  const rates: Record<string, number> = {};
+  categories.forEach(category => {
+    const rate = categorySetting(category, categories, "taxRate");
+    if (rate !== undefined) {
+      rates[category.name] = rate;
+    }
+  });
+  return rates;
+}
+
+/**
+ * Categories in tree order, each parent followed by its subcategories, by name at each level
+ */
+export function categoryOptions(categories: Category[]): CategoryOption[] {
+  const ids = new Set(categories.map(category => category.id));
+  const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+  const options: CategoryOption[] = [];
+
+  const visit = (category: Category, depth: number) => {
+    options.push({ category, depth, path: categoryPath(category, categories) });
+    categories
+      .filter(child => child.parentId === category.id && !options.some(option => option.category.id === child.id))
+      .sort(byName)
+      .forEach(child => visit(child, depth + 1));
+  };
+
+  categories
+    .filter(category => category.parentId === undefined || !ids.has(category.parentId))
+    .sort(byName)
+    .forEach(category => visit(category, 0));
+  return options;
+}
+
+/**
+ * What is wrong with adding or changing a category, if anything
+ *
+ * @param category - The category as it would be saved
+ * @param categories - Every category, including the one being changed
+ * @param id - The category being changed, when it already exists
+ */
+export function findCategoryProblem(
+  category: Pick<Category, "name" | "parentId">,
+  categories: Category[],
+  id?: number
+): string | null {
+  const existing = findCategory(categories, category.name);
+  if (existing && existing.id !== id) {
+    return `A category named ${existing.name} already exists`;
+  }
+  if (category.parentId === undefined) {
+    return null;
+  }
+  if (!categories.some(entry => entry.id === category.parentId)) {
+    return "Parent category not found";
+  }
+  if (id !== undefined && (category.parentId === id || descendantIds(id, categories).includes(category.parentId))) {
+    return "A category can't be placed under itself or one of its subcategories";
+  }
+  return null;
+}
+
+/**
+ * Totals by category, with each parent also counting its subcategories'
+ * Names that aren't in the category list are kept under their own name.
+ *
+ * @param values - Amounts by the category name items are filed under
+ * @param categories - The category list
+ * @param topLevelOnly - Only return top-level categories, each with its whole tree's total
+ * @returns How many amounts and their total for each category, labelled with its path
+ */
+export function rollUpByCategory(
+  values: { category: string; value: number }[],
+  categories: Category[],
+  topLevelOnly: boolean = false
+): { name: string; count: number; value: number }[] {
+  const totals = new Map<number, { count: number; value: number }>();
+  const unlisted = new Map<string, { name: string; count: number; value: number }>();
+
+  values.forEach(({ category: name, value }) => {
+    const category = findCategory(categories, name);
+    if (!category) {
+      const key = categoryKey(name);
+      const entry = unlisted.get(key) || { name: tidyCategoryName(name) || "Uncategorized", count: 0, value: 0 };
+      entry.count += 1;
+      entry.value += value;
+      unlisted.set(key, entry);
+      return;
+    }
+    [category, ...ancestorsOf(category, categories)].forEach(entry => {
+      const total = totals.get(entry.id) || { count: 0, value: 0 };
+      totals.set(entry.id, { count: total.count + 1, value: total.value + value });
+    });
+  });
+
+  return [
+    ...categoryOptions(categories)
+      .filter(option => totals.has(option.category.id) && (!topLevelOnly || option.depth === 0))
+      .map(option => ({ name: option.path, ...totals.get(option.category.id)! })),
+    ...Array.from(unlisted.values())
+  ];
+}
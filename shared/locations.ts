@@ -0,0 +1,96 @@
+/**
+ * Stock Locations
+ *
+ * Stock can be kept in several places: the sales floor, a back room, a second
+ * store. An item's `stock` is its total across locations and `locationStock`
+ * says how much is where, keyed by location id. Items only ever stocked at the
+ * main location have no breakdown; all of their stock is there. Sales, losses,
+ * deliveries and counts each happen at one location, and transfers move stock
+ * between them.
+ */
+import { roundQuantity } from "./weighing";
+
+// The store's own location, where stock is kept unless another is chosen
+export const DEFAULT_LOCATION_ID = 1;
+
+// The parts of an inventory item that stock by location needs
+type Stocked = {
+  stock: number;
+  locationStock?: Record<string, number>;
+};
+
+/**
+ * How much of an item is at each location
+ */
+export function stockByLocation(item: Stocked): Record<string, number> {
+  return item.locationStock ?? (item.stock !== 0 ? { [DEFAULT_LOCATION_ID]: item.stock } : {});
+}
+
+/**
+ * How much of an item is at one location
+ */
+export function stockAt(item: Stocked, locationId: number): number {
+  return stockByLocation(item)[locationId] ?? 0;
+}
+
+/**
+ * Add stock to (or take it from, when negative) one location
+ * Locations left with nothing are dropped from the breakdown.
+ *
+ * @returns The new breakdown
+ */
+export function addLocationStock(
+  locationStock: Record<string, number>,
+  locationId: number,
+  quantity: number
+): Record<string, number> {
+  const updated: Record<string, number> = {
+    ...locationStock,
+    [locationId]: roundQuantity((locationStock[locationId] ?? 0) + quantity)
+  };
+  if (updated[locationId] === 0) {
+    delete updated[locationId];
+  }
+  return updated;
+}
+
+/**
+ * An item as seen from one location, with `stock` being the stock held there
+ * Used to filter lists and reports by location; every location when none is given.
+ */
+export function atLocation<T extends Stocked>(item: T, locationId?: number): T {
+  return locationId === undefined ? item : { ...item, stock: stockAt(item, locationId) };
+}
+
+/**
+ * The location a sale, loss or count took place at
+ * Records made before there were several locations belong to the main one.
+ */
+export function locationOf(record: { locationId?: number }): number {
+  return record.locationId ?? DEFAULT_LOCATION_ID;
+}
+
+/**
+ * Split stock leaving an item over the locations holding it, main location first
+ * Used when the stock isn't tied to one location, e.g. an expired lot; lots are
+ * kept per item, not per location.
+ *
+ * @returns How much to take from each location
+ */
+export function spreadOverLocations(item: Stocked, quantity: number): { locationId: number; quantity: number }[] {
+  const held = Object.entries(stockByLocation(item))
+    .map(([locationId, stock]) => ({ locationId: Number(locationId), stock }))
+    .filter(entry => entry.stock > 0)
+    .sort((a, b) => (a.locationId === DEFAULT_LOCATION_ID ? -1 : b.locationId === DEFAULT_LOCATION_ID ? 1 : a.locationId - b.locationId));
+
+  let remaining = roundQuantity(quantity);
+  const portions: { locationId: number; quantity: number }[] = [];
+  held.forEach(entry => {
+    const take = Math.min(entry.stock, remaining);
+    if (take > 0) {
+      portions.push({ locationId: entry.locationId, quantity: take });
+      remaining = roundQuantity(remaining - take);
+    }
+  });
+  return portions;
+}
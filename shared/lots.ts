@@ -0,0 +1,197 @@
+/**
+ * Stock Lots
+ *
+ * Perishable stock is held as lots, each with the date it was received and
+ * usually a lot number and expiry date. Stock leaves first-expired-first-out:
+ * the lot expiring soonest goes first, and lots without an expiry date go
+ * last. An item's lots always add up to the stock on hand, so an item only
+ * has lots once stock has been received with lot details.
+ */
+import type { LotDetails, StockLot } from "./schema";
+import { roundCurrency } from "./tax";
+import { roundQuantity } from "./weighing";
+
+// Stock taken from or added to one lot by a stock change
+export type LotQuantity = {
+  lotId: number;
+  lotNumber?: string;
+  expiryDate?: string;
+  quantity: number;      // Negative when stock left the lot
+};
+
+// A lot that has expired or will expire soon
+export type ExpiringLot = {
+  productId: number;
+  productName: string;
+  category: string;
+  unit: string;
+  lot: StockLot;
+  daysLeft: number;      // Negative once expired
+  value: number;         // Lot quantity at selling price, as losses are valued
+};
+
+// The parts of an inventory item lot tracking needs
+type LotItem = {
+  id: number;
+  name: string;
+  category: string;
+  unit: string;
+  price: number;
+  lots?: StockLot[];
+};
+
+/**
+ * Total stock held in lots
+ */
+export function lotTotal(lots: StockLot[]): number {
+  return roundQuantity(lots.reduce((sum, lot) => sum + lot.quantity, 0));
+}
+
+/**
+ * Lots in the order stock leaves them: soonest expiry first, lots without an
+ * expiry date last, oldest received first among equals
+ */
+export function fefoOrder(lots: StockLot[]): StockLot[] {
+  return [...lots].sort((a, b) => {
+    if (a.expiryDate !== b.expiryDate) {
+      if (!a.expiryDate) return 1;
+      if (!b.expiryDate) return -1;
+      return a.expiryDate < b.expiryDate ? -1 : 1;
+    }
+    return a.receivedDate.localeCompare(b.receivedDate) || a.id - b.id;
+  });
+}
+
+/**
+ * Take stock out of lots, first-expired-first-out
+ * Emptied lots are dropped.
+ *
+ * @param lots - The item's lots
+ * @param quantity - Stock leaving
+ * @param lotId - A lot to take from before any other, e.g. when writing it off
+ * @returns The remaining lots and what was taken from each
+ */
+export function takeFromLots(
+  lots: StockLot[],
+  quantity: number,
+  lotId?: number
+): { lots: StockLot[]; taken: LotQuantity[] } {
+  const order = fefoOrder(lots);
+  const preferred = order.findIndex(lot => lot.id === lotId);
+  if (preferred > 0) {
+    order.unshift(...order.splice(preferred, 1));
+  }
+
+  let remaining = roundQuantity(quantity);
+  const taken: LotQuantity[] = [];
+  const left = order.map(lot => {
+    const take = Math.min(lot.quantity, remaining);
+    if (take <= 0) {
+      return lot;
+    }
+    remaining = roundQuantity(remaining - take);
+    taken.push({ lotId: lot.id, lotNumber: lot.lotNumber, expiryDate: lot.expiryDate, quantity: -take });
+    return { ...lot, quantity: roundQuantity(lot.quantity - take) };
+  });
+
+  return { lots: left.filter(lot => lot.quantity > 0), taken };
+}
+
+/**
+ * Add stock to the lot with the same lot number and expiry, or start a new lot
+ * Stock added without lot details goes into a lot with no expiry.
+ *
+ * @param lots - The item's lots
+ * @param quantity - Stock arriving
+ * @param details - Lot number and expiry of the stock
+ * @param date - When it arrived
+ * @returns The updated lots and what was added
+ */
+export function addToLots(
+  lots: StockLot[],
+  quantity: number,
+  details: LotDetails = {},
+  date: string
+): { lots: StockLot[]; added: LotQuantity } {
+  const lotNumber = details.lotNumber || undefined;
+  const expiryDate = details.expiryDate || undefined;
+  const existing = lots.find(lot => lot.lotNumber === lotNumber && lot.expiryDate === expiryDate);
+
+  const lot: StockLot = existing
+    ? { ...existing, quantity: roundQuantity(existing.quantity + quantity) }
+    : {
+        id: lots.reduce((max, entry) => Math.max(max, entry.id), 0) + 1,
+        ...(lotNumber ? { lotNumber } : {}),
+        ...(expiryDate ? { expiryDate } : {}),
+        receivedDate: date,
+        quantity: roundQuantity(quantity)
+      };
+
+  return {
+    lots: existing ? lots.map(entry => entry.id === lot.id ? lot : entry) : [...lots, lot],
+    added: { lotId: lot.id, lotNumber, expiryDate, quantity: roundQuantity(quantity) }
+  };
+}
+
+/**
+ * Days from one calendar date to another, e.g. an expiry date
+ *
+ * @param date - Date as YYYY-MM-DD
+ * @param today - Today as YYYY-MM-DD
+ * @returns Whole days; 0 on the day itself, negative once past
+ */
+export function daysUntil(date: string, today: string): number {
+  const toDay = (value: string) => {
+    const [year, month, day] = value.slice(0, 10).split("-").map(Number);
+    return Date.UTC(year, month - 1, day) / 86400000;
+  };
+  return Math.round(toDay(date) - toDay(today));
+}
+
+/**
+ * Today's date in local time as YYYY-MM-DD
+ */
+export function localDate(date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Lots that have expired or expire within a number of days, soonest first
+ * Stock can still be sold on its expiry date; it has expired the day after.
+ *
+ * @param items - Inventory items with their lots
+ * @param withinDays - How far ahead to look
+ * @param today - Today as YYYY-MM-DD
+ */
+export function findExpiringLots(items: LotItem[], withinDays: number, today: string): ExpiringLot[] {
+  const expiring: ExpiringLot[] = [];
+  items.forEach(item => {
+    (item.lots || []).forEach(lot => {
+      if (!lot.expiryDate || lot.quantity <= 0) {
+        return;
+      }
+      const daysLeft = daysUntil(lot.expiryDate, today);
+      if (daysLeft <= withinDays) {
+        expiring.push({
+          productId: item.id,
+          productName: item.name,
+          category: item.category,
+          unit: item.unit,
+          lot,
+          daysLeft,
+          value: roundCurrency(lot.quantity * item.price)
+        });
+      }
+    });
+  });
+  return expiring.sort((a, b) => a.daysLeft - b.daysLeft || a.productName.localeCompare(b.productName));
+}
+
+/**
+ * Name a lot for lists and receipts, e.g. "Lot A123 (exp 2024-06-01)"
+ */
+export function describeLot(lot: { lotNumber?: string; expiryDate?: string }): string {
+  const name = lot.lotNumber ? `Lot ${lot.lotNumber}` : "Unnumbered lot";
+  return lot.expiryDate ? `${name} (exp ${lot.expiryDate})` : name;
+}
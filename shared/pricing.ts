@@ -0,0 +1,287 @@
+/**
+ * Sale Pricing
+ *
+ * Applies promotions, manual discounts and sales tax to sale lines. The server
+ * uses it to price every sale it records and the POS uses it to show the same
+ * totals before checkout, so both sides always agree on what a sale costs.
+ *
+ * Order of evaluation:
+ *   1. Active promotions, best first across the whole cart. A promotion counts
+ *      the quantities of every line it applies to, so a multi-buy on a
+ *      category mixes products and one product can be split over lines.
+ *      Promotions do not stack: a line counted towards one isn't counted
+ *      towards another, and lines with a manager price override are not promoted
+ *   2. The manual line discount, on what is left after the promotion
+ *   3. The cart discount, split across lines in proportion to their net value
+ *   4. Sales tax on the discounted line amount
+ */
+import type { ManualDiscount, Promotion } from "./schema";
+import { roundCurrency, getTaxRate, calculateLineTax, type TaxSettings } from "./tax";
+
+// One discount applied to a line or the cart
+export type AppliedDiscount = {
+  source: "promotion" | "line" | "cart";
+  description: string;
+  amount: number;
+  promotionId?: number;
+};
+
+// A line to price
+export type PricingLine = {
+  productId: number;
+  category: string;
+  quantity: number;
+  price: number;               // Unit price charged, after any override
+  taxExempt?: boolean;
+  priceOverridden?: boolean;   // Manager-approved price; promotions are skipped
+  discount?: ManualDiscount;
+};
+
+// Pricing for one line
+export type PricedLine = {
+  subtotal: number;            // Price times quantity, before discounts
+  discounts: AppliedDiscount[];
+  discount: number;            // Sum of all discounts on the line
+  taxRate: number;
+  tax: number;
+};
+
+// Pricing for a whole sale
+export type PricingResult = {
+  lines: PricedLine[];
+  cartDiscount?: AppliedDiscount;
+  subtotal: number;            // Before discounts and tax
+  discount: number;
+  tax: number;
+  total: number;
+};
+
+export type PricingOptions = {
+  promotions: Promotion[];
+  taxSettings: TaxSettings;
+  cartDiscount?: ManualDiscount;
+  at?: Date;                   // Time used for promotion windows; defaults to now
+};
+
+/**
+ * Check whether a promotion is enabled and inside its date window
+ */
+export function isPromotionActive(promotion: Promotion, at: Date = new Date()): boolean {
+  if (!promotion.active) {
+    return false;
+  }
+  if (promotion.startsAt && at < new Date(promotion.startsAt)) {
+    return false;
+  }
+  if (promotion.endsAt && at > new Date(promotion.endsAt)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check whether a promotion targets the product or category of a line
+ */
+export function promotionAppliesTo(promotion: Promotion, line: Pick<PricingLine, "productId" | "category">): boolean {
+  return !!promotion.productIds?.includes(line.productId) || !!promotion.categories?.includes(line.category);
+}
+
+/**
+ * Calculate the discount a promotion gives on the lines it applies to
+ * Quantities are added up across the lines. Buy-X-get-Y gives away the
+ * cheapest units; a multi-buy bundles the dearest units and shares the
+ * saving across their lines by value.
+ *
+ * @param lines - Lines the promotion applies to
+ * @returns Discount on each line, in order, never more than the line subtotal
+ */
+export function calculatePromotionDiscounts(promotion: Promotion, lines: PricingLine[]): number[] {
+  const quantity = lines.reduce((total, line) => total + line.quantity, 0);
+  const byPrice = lines.map((_, index) => index).sort((a, b) => lines[a].price - lines[b].price);
+  let discounts = lines.map(() => 0);
+
+  switch (promotion.type) {
+    case "bogo": {
+      const buy = promotion.buyQuantity || 1;
+      const get = promotion.getQuantity || 1;
+      let discountedUnits = Math.floor(quantity / (buy + get)) * get;
+      byPrice.forEach(index => {
+        const units = Math.min(discountedUnits, lines[index].quantity);
+        discountedUnits -= units;
+        discounts[index] = units * lines[index].price * (promotion.getPercentOff ?? 100) / 100;
+      });
+      break;
+    }
+    case "multibuy": {
+      const bundleQuantity = promotion.bundleQuantity || 0;
+      if (bundleQuantity > 0 && promotion.bundlePrice !== undefined) {
+        const bundles = Math.floor(quantity / bundleQuantity);
+        let bundledUnits = bundles * bundleQuantity;
+        const bundledValues = lines.map(() => 0);
+        byPrice.reverse().forEach(index => {
+          const units = Math.min(bundledUnits, lines[index].quantity);
+          bundledUnits -= units;
+          bundledValues[index] = units * lines[index].price;
+        });
+        const saving = roundCurrency(bundledValues.reduce((total, value) => total + value, 0) - bundles * promotion.bundlePrice);
+        if (saving > 0) {
+          discounts = shareOut(saving, bundledValues);
+        }
+      }
+      break;
+    }
+    case "sale_price": {
+      discounts = lines.map(line => {
+        const unitDiscount = promotion.salePrice !== undefined
+          ? line.price - promotion.salePrice
+          : line.price * (promotion.percentOff || 0) / 100;
+        return unitDiscount * line.quantity;
+      });
+      break;
+    }
+  }
+
+  return discounts.map((discount, index) =>
+    Math.min(roundCurrency(lines[index].price * lines[index].quantity), Math.max(0, roundCurrency(discount)))
+  );
+}
+
+/**
+ * Calculate a manual percent or fixed discount
+ *
+ * @param base - Amount the discount applies to
+ * @returns Discount amount, never more than the base
+ */
+export function calculateManualDiscount(base: number, discount: ManualDiscount): number {
+  const amount = discount.type === "percent" ? base * discount.value / 100 : discount.value;
+  return Math.min(base, Math.max(0, roundCurrency(amount)));
+}
+
+/**
+ * Describe a manual discount for receipts, e.g. "10% off" or "$2.00 off"
+ */
+export function describeManualDiscount(discount: ManualDiscount): string {
+  return discount.type === "percent" ? `${discount.value}% off` : `$${discount.value.toFixed(2)} off`;
+}
+
+/**
+ * Price sale lines with promotions, manual discounts and tax
+ *
+ * @param lines - Lines to price
+ * @param options - Promotions, tax settings and an optional cart discount
+ * @returns Per-line pricing and sale totals
+ */
+export function priceLines(lines: PricingLine[], options: PricingOptions): PricingResult {
+  const at = options.at || new Date();
+  const promotions = options.promotions.filter(promotion => isPromotionActive(promotion, at));
+
+  // Apply the promotion worth most on the lines not yet counted towards one, until none is worth anything
+  const promotionDiscounts: (AppliedDiscount | undefined)[] = lines.map(() => undefined);
+  let unclaimed = lines.map((_, index) => index).filter(index => !lines[index].priceOverridden);
+  for (;;) {
+    let best: { promotion: Promotion; indexes: number[]; amounts: number[]; total: number } | undefined;
+    for (const promotion of promotions) {
+      const indexes = unclaimed.filter(index => promotionAppliesTo(promotion, lines[index]));
+      if (indexes.length === 0) {
+        continue;
+      }
+      const amounts = calculatePromotionDiscounts(promotion, indexes.map(index => lines[index]));
+      const total = roundCurrency(amounts.reduce((sum, amount) => sum + amount, 0));
+      if (total > 0 && (!best || total > best.total)) {
+        best = { promotion, indexes, amounts, total };
+      }
+    }
+    if (!best) {
+      break;
+    }
+
+    const { promotion, indexes, amounts } = best;
+    indexes.forEach((index, position) => {
+      if (amounts[position] > 0) {
+        promotionDiscounts[index] = {
+          source: "promotion",
+          description: promotion.name,
+          amount: amounts[position],
+          promotionId: promotion.id
+        };
+      }
+    });
+    unclaimed = unclaimed.filter(index => !indexes.includes(index));
+  }
+
+  const priced = lines.map((line, index) => {
+    const subtotal = roundCurrency(line.price * line.quantity);
+    const promotion = promotionDiscounts[index];
+    const discounts: AppliedDiscount[] = promotion ? [promotion] : [];
+
+    if (line.discount) {
+      const remaining = roundCurrency(subtotal - sumDiscounts(discounts));
+      const amount = calculateManualDiscount(remaining, line.discount);
+      if (amount > 0) {
+        discounts.push({ source: "line", description: describeManualDiscount(line.discount), amount });
+      }
+    }
+
+    return { subtotal, discounts };
+  });
+
+  // Split the cart discount across lines so each line is taxed on what was paid
+  let cartDiscount: AppliedDiscount | undefined;
+  if (options.cartDiscount) {
+    const nets = priced.map(line => roundCurrency(line.subtotal - sumDiscounts(line.discounts)));
+    const netTotal = roundCurrency(nets.reduce((total, net) => total + net, 0));
+    const amount = calculateManualDiscount(netTotal, options.cartDiscount);
+
+    if (amount > 0) {
+      const description = `Cart discount (${describeManualDiscount(options.cartDiscount)})`;
+      shareOut(amount, nets).forEach((share, index) => {
+        if (share > 0) {
+          priced[index].discounts.push({ source: "cart", description, amount: share });
+        }
+      });
+
+      cartDiscount = { source: "cart", description, amount };
+    }
+  }
+
+  const result = priced.map((line, index) => {
+    const discount = sumDiscounts(line.discounts);
+    const taxRate = getTaxRate(lines[index], options.taxSettings);
+    const tax = calculateLineTax(roundCurrency(line.subtotal - discount), taxRate);
+    return { ...line, discount, taxRate, tax };
+  });
+
+  const subtotal = roundCurrency(result.reduce((total, line) => total + line.subtotal, 0));
+  const discount = roundCurrency(result.reduce((total, line) => total + line.discount, 0));
+  const tax = roundCurrency(result.reduce((total, line) => total + line.tax, 0));
+
+  return {
+    lines: result,
+    cartDiscount,
+    subtotal,
+    discount,
+    tax,
+    total: roundCurrency(subtotal - discount + tax)
+  };
+}
+
+/**
+ * Split an amount in proportion to weights; the last share takes the rounding so they add up
+ */
+function shareOut(amount: number, weights: number[]): number[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const last = weights.reduce((lastIndex, weight, index) => weight > 0 ? index : lastIndex, -1);
+  let remaining = amount;
+  return weights.map((weight, index) => {
+    if (weight <= 0) {
+      return 0;
+    }
+    const share = index === last ? remaining : Math.min(remaining, roundCurrency(amount * weight / total));
+    remaining = roundCurrency(remaining - share);
+    return share;
+  });
+}
+
+function sumDiscounts(discounts: AppliedDiscount[]): number {
+  return roundCurrency(discounts.reduce((total, discount) => total + discount.amount, 0));
+}
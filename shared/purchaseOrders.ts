@@ -0,0 +1,69 @@
+/**
+ * Purchase Orders
+ *
+ * Lifecycle rules for purchase orders and helpers for choosing a supplier for
+ * an item. An order is drafted, sent to the supplier, then received in one or
+ * more deliveries; an order that will never be filled can be closed short, and
+ * one that was never delivered can be cancelled.
+ */
+import type { PurchaseOrderLine, PurchaseOrderStatus, SupplierLink } from "./schema";
+import { roundCurrency } from "./tax";
+
+// Display names, in lifecycle order
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_received: "Partially Received",
+  received: "Received",
+  closed: "Closed",
+  cancelled: "Cancelled"
+};
+
+// Statuses each status can move to
+const TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ["sent", "cancelled"],
+  sent: ["partially_received", "received", "closed", "cancelled"],
+  partially_received: ["partially_received", "received", "closed"],
+  received: [],
+  closed: [],
+  cancelled: []
+};
+
+/**
+ * Check whether an order can move from one status to another
+ */
+export function canTransition(from: PurchaseOrderStatus, to: PurchaseOrderStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether an order is still expected to be delivered, or is being drafted
+ */
+export function isOpenPurchaseOrder(status: PurchaseOrderStatus): boolean {
+  return status === "draft" || status === "sent" || status === "partially_received";
+}
+
+/**
+ * Order number shown on screen and on the printed order, e.g. "PO-00042"
+ */
+export function formatPurchaseOrderNumber(id: number): string {
+  return `PO-${String(id).padStart(5, "0")}`;
+}
+
+/**
+ * Total cost of the ordered quantities
+ */
+export function purchaseOrderTotal(lines: Pick<PurchaseOrderLine, "quantity" | "unitCost">[]): number {
+  return roundCurrency(lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0));
+}
+
+/**
+ * The supplier to order an item from: the preferred one, otherwise the cheapest
+ */
+export function preferredSupplierLink(links: SupplierLink[] | undefined): SupplierLink | undefined {
+  if (!links || links.length === 0) {
+    return undefined;
+  }
+  return links.find(link => link.preferred) ??
+    links.reduce((cheapest, link) => link.cost < cheapest.cost ? link : cheapest);
+}
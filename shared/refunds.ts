@@ -0,0 +1,57 @@
+/**
+ * Refunds
+ *
+ * Returns against a sale. A sale can be returned in several parts, each with
+ * its own reason; the POS and the server both work out how much of each line
+ * is still returnable from the returns already recorded on the sale. Lines are
+ * told apart by their index, since a product can be on a sale more than once.
+ */
+import type { RefundReason } from "./schema";
+
+// Display names, in the order the refund dialog offers them
+export const REFUND_REASON_LABELS: Record<RefundReason, string> = {
+  changed_mind: "Changed Mind",
+  defective: "Defective",
+  damaged: "Damaged",
+  wrong_item: "Wrong Item",
+  not_as_described: "Not as Described",
+  other: "Other"
+};
+
+// The parts of a sale needed to work out what is still returnable
+type ReturnableSale = {
+  items: { productId: number; quantity: number }[];
+  returns?: { lines: { saleLine?: number; productId: number; quantity: number }[] }[];
+};
+
+/**
+ * Index of the sale line a return line was taken from
+ * Returns recorded before lines had an index were taken from the product's first line.
+ */
+export function saleLineOf(sale: ReturnableSale, line: { saleLine?: number; productId: number }): number {
+  return line.saleLine ?? sale.items.findIndex(item => item.productId === line.productId);
+}
+
+/**
+ * Quantity already returned from each sale line, by index
+ */
+export function returnedQuantities(sale: ReturnableSale): number[] {
+  const returned = sale.items.map(() => 0);
+  (sale.returns || []).forEach(saleReturn => {
+    saleReturn.lines.forEach(line => {
+      const index = saleLineOf(sale, line);
+      if (index >= 0) {
+        returned[index] += line.quantity;
+      }
+    });
+  });
+  return returned;
+}
+
+/**
+ * Quantity of each sale line that can still be returned, by index
+ */
+export function remainingQuantities(sale: ReturnableSale): number[] {
+  const returned = returnedQuantities(sale);
+  return sale.items.map((item, index) => Math.max(0, item.quantity - returned[index]));
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isValidTimeZone } from "./businessDay";
 
 // User schema
 export const userSchema = z.object({
@@ -20,9 +21,32 @@ export const activityLogSchema = z.object({
   action: z.string(),
   category: z.string(), // 'user', 'inventory', 'sales', 'settings', etc.
   details: z.string().optional(),
+  ipAddress: z.string().optional(), // Client address, recorded for authentication events
   timestamp: z.date().or(z.string()),
 });
 
+// Layout of the EAN-13 labels printed by in-store scales
+const scaleBarcodePrefixSchema = z.string().regex(/^2\d$/, "Scale label prefixes are 20 to 29");
+
+export const scaleBarcodeSettingsSchema = z.object({
+  weightPrefixes: z.array(scaleBarcodePrefixSchema),
+  pricePrefixes: z.array(scaleBarcodePrefixSchema),
+  pluLength: z.number().int().min(4).max(6)
+}).refine(settings => !settings.weightPrefixes.some(prefix => settings.pricePrefixes.includes(prefix)), {
+  message: "A prefix cannot be used for both weight and price labels"
+});
+
+// When the business day starts, for sales reporting
+export const businessDaySettingsSchema = z.object({
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
+  startHour: z.number().int().min(0).max(23)
+});
+
+// Notifications to mark read or clear; all of the user's when ids is left out
+export const notificationMarkSchema = z.object({
+  ids: z.array(z.number().int()).optional()
+});
+
 // Store Settings schema
 export const storeSettingsSchema = z.object({
   storeName: z.string(),
@@ -30,7 +54,415 @@ export const storeSettingsSchema = z.object({
   storePhone: z.string(),
   thankYouMessage: z.string(),
   storeLogo: z.string().optional(),
-  nextTransactionId: z.number().optional()
+  nextTransactionId: z.number().optional(),
+  taxRate: z.number().min(0).max(100).optional(),
+  taxCategoryRates: z.record(z.number().min(0).max(100)).optional(),
+  scaleBarcodes: scaleBarcodeSettingsSchema.optional(),
+  businessDay: businessDaySettingsSchema.optional()
+});
+
+// Manual discount on a sale line or the whole cart
+export const manualDiscountSchema = z.object({
+  type: z.enum(["percent", "fixed"]),
+  value: z.number().min(0)
+}).refine(discount => discount.type !== "percent" || discount.value <= 100, {
+  message: "Percent discounts cannot exceed 100%"
+});
+
+// One payment towards a sale; a sale may be split across several tenders
+export const tenderSchema = z.object({
+  type: z.enum(["cash", "card", "gift_card", "store_credit"]),
+  amount: z.number().positive(),               // Amount tendered; cash may exceed what is due
+  reference: z.string().max(64).optional()     // Card last 4, gift card number or credit account
+});
+
+// Promotion or discount as applied to a sale line or the whole cart
+export const appliedDiscountSchema = z.object({
+  source: z.enum(["promotion", "line", "cart"]),
+  description: z.string().max(200),
+  amount: z.number().min(0),
+  promotionId: z.number().int().optional()
+});
+
+// A sale line as the till priced it while offline
+export const offlineSaleLineSchema = z.object({
+  productId: z.number().int(),
+  name: z.string().max(200),
+  quantity: z.number().positive(),
+  price: z.number().min(0),                    // Unit price charged
+  unit: z.string().max(50),
+  subtotal: z.number().min(0),                 // Before discounts and tax
+  priceOverridden: z.boolean().optional(),
+  discounts: z.array(appliedDiscountSchema).optional(),
+  taxRate: z.number().min(0).max(100),
+  tax: z.number().min(0)
+});
+
+// Sale rung up while the till couldn't reach the server, sent when it reconnects
+// The customer has paid what the till charged, so its lines and totals are recorded as they were
+export const offlineSaleSchema = z.object({
+  provisionalId: z.string().trim().min(1).max(40), // Number printed on the receipt until the server assigns one
+  rungUpAt: z.string().datetime(),
+  shiftId: z.number().int().optional(),        // Shift open on the till when it was rung up
+  items: z.array(offlineSaleLineSchema).min(1),
+  subtotal: z.number().min(0),
+  discount: z.number().min(0),
+  cartDiscount: appliedDiscountSchema.optional(),
+  tax: z.number().min(0),
+  amount: z.number().min(0)
+});
+
+// Return against a sale; leaving out `lines` returns everything still returnable
+export const refundReasonSchema = z.enum(["changed_mind", "defective", "damaged", "wrong_item", "not_as_described", "other"]);
+
+export const returnLineSchema = z.object({
+  saleLine: z.number().int().min(0).optional(), // Index of the sale line; without it the quantity is taken from the product's lines in order
+  productId: z.number().int(),
+  quantity: z.number().positive(),
+  restock: z.boolean().default(true)           // Damaged items go to losses instead of back on the shelf
+});
+
+export const refundRequestSchema = z.object({
+  reason: refundReasonSchema,
+  lines: z.array(returnLineSchema).min(1).optional(),
+  tender: tenderSchema.shape.type.optional(),  // How the money is given back; defaults to how the sale was paid
+  notes: z.string().max(500).optional()
+});
+
+// Register shift requests
+export const openShiftSchema = z.object({
+  openingFloat: z.number().min(0),             // Counted cash in the drawer at the start
+  locationId: z.number().int().optional()      // Where the register is; the main location if left out
+});
+
+export const cashMovementSchema = z.object({
+  type: z.enum(["paid_in", "paid_out", "drop"]),
+  amount: z.number().positive(),
+  reason: z.string().min(1, "A reason is required").max(200)
+});
+
+export const closeShiftSchema = z.object({
+  countedCash: z.number().min(0),              // Blind count; the cashier does not see the expected amount
+  notes: z.string().max(500).optional()
+});
+
+// Promotion schema
+// bogo: buy `buyQuantity`, get `getQuantity` at `getPercentOff` (default 100%) off
+// multibuy: `bundleQuantity` for `bundlePrice`
+// sale_price: `salePrice` each, or `percentOff` off
+export const promotionSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1, "Promotion name is required"),
+  type: z.enum(["bogo", "multibuy", "sale_price"]),
+  active: z.boolean(),
+  productIds: z.array(z.number()).optional(),  // Products the promotion applies to
+  categories: z.array(z.string()).optional(),  // Categories the promotion applies to
+  startsAt: z.string().optional(),             // ISO date; open-ended when missing
+  endsAt: z.string().optional(),
+  buyQuantity: z.number().int().positive().optional(),
+  getQuantity: z.number().int().positive().optional(),
+  getPercentOff: z.number().min(0).max(100).optional(),
+  bundleQuantity: z.number().int().min(2).optional(),
+  bundlePrice: z.number().min(0).optional(),
+  salePrice: z.number().min(0).optional(),
+  percentOff: z.number().min(0).max(100).optional(),
+  createdBy: z.string().optional(),
+  createdAt: z.string().optional(),
+});
+
+// Supplier schema
+export const supplierSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1, "Name is required").max(100),
+  contactName: z.string().max(100).optional(),
+  email: z.string().email().optional(),
+  phone: z.string().max(32).optional(),
+  address: z.string().max(200).optional(),
+  leadTimeDays: z.number().int().min(0).default(7),   // Days from sending an order to delivery
+  minimumOrder: z.number().min(0).default(0),         // Smallest order value the supplier accepts ($)
+  notes: z.string().max(500).optional(),
+});
+
+// Where an inventory item can be bought, and at what cost
+export const supplierLinkSchema = z.object({
+  supplierId: z.number().int(),
+  supplierSku: z.string().max(64).optional(),
+  cost: z.number().min(0),                            // Unit cost from this supplier
+  packSize: z.number().int().positive().optional(),   // Units per case, when sold by the case
+  preferred: z.boolean().optional()
+});
+
+// A further barcode an item is sold under; a case-pack barcode sells several units per scan
+export const itemBarcodeSchema = z.object({
+  code: z.string().trim().min(1, "Barcode is required").max(64),
+  packQuantity: z.number().int().positive().default(1),  // Units sold per scan
+  label: z.string().max(50).optional()                   // e.g. "Case of 12"
+});
+
+// Stock of an item received together, sold first-expired-first-out
+export const stockLotSchema = z.object({
+  id: z.number(),
+  lotNumber: z.string().max(64).optional(),
+  expiryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expiry date must be YYYY-MM-DD").optional(),
+  receivedDate: z.string(),
+  quantity: z.number().min(0),
+});
+
+// Lot number and expiry of stock being added, e.g. on a delivery
+export const lotDetailsSchema = stockLotSchema.pick({ lotNumber: true, expiryDate: true });
+
+// How an item sold by weight is weighed and labelled
+export const weighedItemFieldsSchema = z.object({
+  soldByWeight: z.boolean().optional(),
+  tare: z.number().min(0).optional(),                                     // In the item's unit
+  plu: z.string().trim().regex(/^\d{1,6}$/, "PLU must be up to 6 digits").optional()
+});
+
+// One component of a bundle, e.g. a gift basket: how much of another item goes into each bundle sold
+export const bundleComponentSchema = z.object({
+  productId: z.number().int(),
+  quantity: z.number().positive()
+});
+
+// Category schema
+// A product category, optionally under a parent. Subcategories without their own defaults use the parent's.
+export const categorySchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  parentId: z.number().int().optional(),
+  defaultThreshold: z.number().min(0).optional(),   // Low stock threshold for new items
+  taxRate: z.number().min(0).max(100).optional(),   // Overrides the store's tax rate (%)
+  defaultMargin: z.number().min(0).optional()       // Markup (%) suggested when pricing from cost
+});
+
+// Moves a category's items, subcategories, promotions and rules into another and removes it
+export const categoryMergeSchema = z.object({
+  intoId: z.number().int()
+});
+
+// Variant group schema
+// A parent product, such as a T-shirt, whose variants are inventory items with their own SKU, price and stock
+export const variantGroupSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1, "Name is required").max(100),
+  category: z.string().min(1, "Category is required").max(100),
+  attributes: z.array(z.string().trim().min(1).max(32))   // e.g. ["Size", "Flavor"]
+    .min(1, "Add at least one attribute")
+    .max(3)
+    .refine(names => new Set(names.map(name => name.toLowerCase())).size === names.length, "Attributes must be different"),
+  description: z.string().max(500).optional(),
+});
+
+// What sets a variant apart within its group, e.g. { "Size": "Large" }
+export const variantAttributesSchema = z.record(z.string(), z.string().trim().min(1).max(50));
+
+// Purchase order schema
+// draft → sent → partially_received → received, or closed short / cancelled
+export const purchaseOrderStatusSchema = z.enum(["draft", "sent", "partially_received", "received", "closed", "cancelled"]);
+
+export const purchaseOrderLineSchema = z.object({
+  productId: z.number().int(),
+  name: z.string(),
+  supplierSku: z.string().optional(),
+  quantity: z.number().positive(),
+  unitCost: z.number().min(0),
+  receivedQuantity: z.number().min(0).default(0)
+});
+
+// Goods received against a purchase order, one record per delivery
+export const goodsReceiptLineSchema = z.object({
+  productId: z.number().int(),
+  name: z.string(),
+  quantity: z.number().positive(),
+  unitCost: z.number().min(0),                // Actual cost on the delivery
+  overReceived: z.number().min(0).optional(), // Quantity beyond what was still on order
+  lotNumber: z.string().max(64).optional(),
+  expiryDate: z.string().optional()
+});
+
+export const goodsReceiptSchema = z.object({
+  id: z.number(),
+  date: z.string(),
+  receivedBy: z.string(),
+  locationId: z.number().int().optional(),    // Where the delivery was put away
+  lines: z.array(goodsReceiptLineSchema),
+  notes: z.string().max(500).optional()
+});
+
+export const purchaseOrderSchema = z.object({
+  id: z.number(),
+  supplierId: z.number().int(),
+  supplierName: z.string(),
+  status: purchaseOrderStatusSchema,
+  lines: z.array(purchaseOrderLineSchema),
+  total: z.number(),
+  expectedDate: z.string().optional(),        // ISO date the delivery is due
+  notes: z.string().max(500).optional(),
+  createdBy: z.string(),
+  createdAt: z.string(),
+  sentAt: z.string().optional(),
+  closedAt: z.string().optional(),
+  receipts: z.array(goodsReceiptSchema).optional(),
+});
+
+// Purchase order as entered; names, supplier SKUs and default costs come from the catalog
+export const purchaseOrderRequestSchema = z.object({
+  supplierId: z.number().int(),
+  lines: z.array(z.object({
+    productId: z.number().int(),
+    quantity: z.number().positive(),
+    unitCost: z.number().min(0).optional()    // Defaults to the supplier's cost for the item
+  })).min(1, "Add at least one item"),
+  expectedDate: z.string().optional(),
+  notes: z.string().max(500).optional()
+});
+
+// A delivery as counted at the back door; unit costs default to the ordered cost
+export const goodsReceiptRequestSchema = z.object({
+  lines: z.array(z.object({
+    productId: z.number().int(),
+    quantity: z.number().positive(),
+    unitCost: z.number().min(0).optional(),
+    lotNumber: z.string().trim().max(64).optional(),   // Lot and expiry printed on the cases
+    expiryDate: lotDetailsSchema.shape.expiryDate
+  })).min(1, "Receive at least one item"),
+  acceptOverage: z.boolean().optional(),      // Take in more than is still on order
+  closeShort: z.boolean().optional(),         // Nothing more is coming; close the order
+  locationId: z.number().int().optional(),    // Where the delivery goes; the main location if left out
+  notes: z.string().max(500).optional()
+});
+
+// Stock count schema
+// counting → review → posted, or cancelled before posting
+export const stockCountScopeSchema = z.enum(["full", "category", "cycle"]);
+export const stockCountStatusSchema = z.enum(["counting", "review", "posted", "cancelled"]);
+
+export const stockCountLineSchema = z.object({
+  productId: z.number().int(),
+  name: z.string(),
+  sku: z.string(),
+  barcode: z.string().optional(),
+  category: z.string(),
+  unit: z.string(),
+  expected: z.number(),                       // Stock when the count started
+  unitCost: z.number().min(0),                // Cost used to value the variance
+  counted: z.number().min(0).optional(),      // Left out until the item is counted
+  countedBy: z.string().optional(),
+  countedAt: z.string().optional(),
+  adjustment: z.number().optional()           // Change made to stock when the count was posted
+});
+
+export const stockCountSchema = z.object({
+  id: z.number(),
+  scope: stockCountScopeSchema,
+  category: z.string().optional(),            // For category counts
+  locationId: z.number().int().optional(),    // Location counted; the main location if left out
+  status: stockCountStatusSchema,
+  lines: z.array(stockCountLineSchema),
+  notes: z.string().max(500).optional(),
+  createdBy: z.string(),
+  createdAt: z.string(),
+  submittedBy: z.string().optional(),
+  submittedAt: z.string().optional(),
+  postedBy: z.string().optional(),            // Manager who approved the adjustments
+  postedAt: z.string().optional(),
+  cancelledAt: z.string().optional()
+});
+
+// Starting a count: the whole store, one category, or a random sample of items
+export const stockCountRequestSchema = z.object({
+  scope: stockCountScopeSchema,
+  category: z.string().min(1).optional(),
+  sampleSize: z.number().int().positive().optional(),
+  locationId: z.number().int().optional(),
+  notes: z.string().max(500).optional()
+}).refine(count => count.scope !== "category" || !!count.category, {
+  message: "Choose a category to count",
+  path: ["category"]
+}).refine(count => count.scope !== "cycle" || !!count.sampleSize, {
+  message: "Choose how many items to count",
+  path: ["sampleSize"]
+});
+
+// Quantities found on the shelf; each replaces any earlier count of the item
+export const stockCountEntriesSchema = z.object({
+  counts: z.array(z.object({
+    productId: z.number().int(),
+    counted: z.number().min(0)
+  })).min(1, "Count at least one item")
+});
+
+// Stock location schema
+// Somewhere stock is kept: the sales floor, a back room, another store
+export const stockLocationSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().max(200).optional(),
+  active: z.boolean().default(true)           // Inactive locations can't take stock, sales or transfers
+});
+
+// Stock transfer schema
+// Sent in_transit → received, or cancelled before it arrives
+export const stockTransferStatusSchema = z.enum(["in_transit", "received", "cancelled"]);
+
+export const stockTransferLineSchema = z.object({
+  productId: z.number().int(),
+  name: z.string(),
+  sku: z.string(),
+  unit: z.string(),
+  quantity: z.number().positive(),
+  lots: z.array(lotDetailsSchema.extend({     // Lots the stock was taken from, so it arrives with the same expiry
+    quantity: z.number().positive()
+  })).optional()
+});
+
+export const stockTransferSchema = z.object({
+  id: z.number(),
+  fromLocationId: z.number().int(),
+  toLocationId: z.number().int(),
+  status: stockTransferStatusSchema,
+  lines: z.array(stockTransferLineSchema),
+  notes: z.string().max(500).optional(),
+  sentBy: z.string(),
+  sentAt: z.string(),
+  receivedBy: z.string().optional(),
+  receivedAt: z.string().optional(),
+  cancelledBy: z.string().optional(),         // Stock goes back to the sending location
+  cancelledAt: z.string().optional()
+});
+
+// A transfer as picked at the sending location; names and units come from the catalog
+export const stockTransferRequestSchema = z.object({
+  fromLocationId: z.number().int(),
+  toLocationId: z.number().int(),
+  lines: z.array(z.object({
+    productId: z.number().int(),
+    quantity: z.number().positive()
+  })).min(1, "Transfer at least one item"),
+  notes: z.string().max(500).optional()
+}).refine(transfer => transfer.fromLocationId !== transfer.toLocationId, {
+  message: "Choose a different location to send to",
+  path: ["toLocationId"]
+});
+
+// Alert rule schema
+// What `threshold` measures depends on the type:
+// refund_over: a single refund's amount; voids_per_shift: voids in one shift;
+// margin_below: an item's margin (%); no_sales: days since an item last sold;
+// category_losses: the value of losses in `category` over one business week
+export const alertRuleTypeSchema = z.enum(["refund_over", "voids_per_shift", "margin_below", "no_sales", "category_losses"]);
+
+export const alertRuleSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1, "Rule name is required").max(100),
+  type: alertRuleTypeSchema,
+  threshold: z.number().min(0),
+  category: z.string().trim().min(1).max(100).optional(), // Limits item rules to one category
+  notifyRoles: z.array(z.enum(["Administrator", "Manager", "Stocker", "Cashier"]))
+    .min(1, "Choose at least one role to notify"),
+  active: z.boolean(),
+  createdBy: z.string().optional(),
+  createdAt: z.string().optional()             // Refunds, voids and losses from before then are not alerted on
 });
 
 // Insert schemas (used for validation when creating new entities)
@@ -47,6 +479,68 @@ export const insertLogSchema = activityLogSchema.omit({
 
 export const insertStoreSettingsSchema = storeSettingsSchema;
 
+export const insertPromotionSchema = promotionSchema.omit({
+  id: true,
+  createdBy: true,
+  createdAt: true
+}).superRefine((promotion, ctx) => {
+  const require = (field: keyof typeof promotion, message: string) => {
+    if (promotion[field] === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+    }
+  };
+
+  if (!promotion.productIds?.length && !promotion.categories?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["productIds"], message: "Choose at least one product or category" });
+  }
+  if (promotion.startsAt && promotion.endsAt && promotion.startsAt > promotion.endsAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endsAt"], message: "End date must be after the start date" });
+  }
+
+  switch (promotion.type) {
+    case "bogo":
+      require("buyQuantity", "Buy quantity is required");
+      require("getQuantity", "Get quantity is required");
+      break;
+    case "multibuy":
+      require("bundleQuantity", "Bundle quantity is required");
+      require("bundlePrice", "Bundle price is required");
+      break;
+    case "sale_price":
+      if (promotion.salePrice === undefined && promotion.percentOff === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["salePrice"], message: "Sale price or percent off is required" });
+      }
+      break;
+  }
+});
+
+export const insertAlertRuleSchema = alertRuleSchema.omit({
+  id: true,
+  createdBy: true,
+  createdAt: true
+}).superRefine((rule, ctx) => {
+  if (rule.type === "category_losses" && !rule.category) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["category"], message: "Choose the category to watch" });
+  }
+  if ((rule.type === "voids_per_shift" || rule.type === "no_sales") && !Number.isInteger(rule.threshold)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: "Enter a whole number" });
+  }
+  if (rule.type === "no_sales" && rule.threshold < 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: "Enter at least one day" });
+  }
+  if (rule.type === "margin_below" && rule.threshold > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: "Margins can't be over 100%" });
+  }
+});
+
+export const insertSupplierSchema = supplierSchema.omit({ id: true });
+
+export const insertVariantGroupSchema = variantGroupSchema.omit({ id: true });
+
+export const insertStockLocationSchema = stockLocationSchema.omit({ id: true });
+
+export const insertCategorySchema = categorySchema.omit({ id: true });
+
 export const pinSchema = z.string().length(4).regex(/^\d{4}$/, "PIN must be 4 digits");
 
 // Type exports
@@ -56,3 +550,45 @@ export type StoreSettings = z.infer<typeof storeSettingsSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertLog = z.infer<typeof insertLogSchema>;
 export type InsertStoreSettings = z.infer<typeof insertStoreSettingsSchema>;
+export type ManualDiscount = z.infer<typeof manualDiscountSchema>;
+export type Tender = z.infer<typeof tenderSchema>;
+export type OfflineSaleLine = z.infer<typeof offlineSaleLineSchema>;
+export type OfflineSale = z.infer<typeof offlineSaleSchema>;
+export type RefundReason = z.infer<typeof refundReasonSchema>;
+export type RefundRequest = z.infer<typeof refundRequestSchema>;
+export type Promotion = z.infer<typeof promotionSchema>;
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+export type AlertRuleType = z.infer<typeof alertRuleTypeSchema>;
+export type AlertRule = z.infer<typeof alertRuleSchema>;
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+export type Supplier = z.infer<typeof supplierSchema>;
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type SupplierLink = z.infer<typeof supplierLinkSchema>;
+export type ItemBarcode = z.infer<typeof itemBarcodeSchema>;
+export type StockLot = z.infer<typeof stockLotSchema>;
+export type LotDetails = z.infer<typeof lotDetailsSchema>;
+export type BundleComponent = z.infer<typeof bundleComponentSchema>;
+export type VariantGroup = z.infer<typeof variantGroupSchema>;
+export type InsertVariantGroup = z.infer<typeof insertVariantGroupSchema>;
+export type VariantAttributes = z.infer<typeof variantAttributesSchema>;
+export type PurchaseOrderStatus = z.infer<typeof purchaseOrderStatusSchema>;
+export type PurchaseOrderLine = z.infer<typeof purchaseOrderLineSchema>;
+export type PurchaseOrder = z.infer<typeof purchaseOrderSchema>;
+export type PurchaseOrderRequest = z.infer<typeof purchaseOrderRequestSchema>;
+export type GoodsReceiptLine = z.infer<typeof goodsReceiptLineSchema>;
+export type GoodsReceipt = z.infer<typeof goodsReceiptSchema>;
+export type GoodsReceiptRequest = z.infer<typeof goodsReceiptRequestSchema>;
+export type StockCountScope = z.infer<typeof stockCountScopeSchema>;
+export type StockCountStatus = z.infer<typeof stockCountStatusSchema>;
+export type StockCountLine = z.infer<typeof stockCountLineSchema>;
+export type StockCount = z.infer<typeof stockCountSchema>;
+export type StockCountRequest = z.infer<typeof stockCountRequestSchema>;
+export type StockCountEntries = z.infer<typeof stockCountEntriesSchema>;
+export type Category = z.infer<typeof categorySchema>;
+export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type StockLocation = z.infer<typeof stockLocationSchema>;
+export type InsertStockLocation = z.infer<typeof insertStockLocationSchema>;
+export type StockTransferStatus = z.infer<typeof stockTransferStatusSchema>;
+export type StockTransferLine = z.infer<typeof stockTransferLineSchema>;
+export type StockTransfer = z.infer<typeof stockTransferSchema>;
+export type StockTransferRequest = z.infer<typeof stockTransferRequestSchema>;
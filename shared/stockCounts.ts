@@ -0,0 +1,64 @@
+/**
+ * Stock Counts
+ *
+ * Helpers shared by the server and the count screens for reconciling stock
+ * with what is on the shelf. A count records the expected stock of each item
+ * when it starts; the variance of a line is what was found less what was
+ * expected, valued at the item's cost.
+ */
+import type { StockCountLine, StockCountScope, StockCountStatus } from "./schema";
+import { roundCurrency } from "./tax";
+
+export const STOCK_COUNT_SCOPE_LABELS: Record<StockCountScope, string> = {
+  full: "Full Stocktake",
+  category: "Category Count",
+  cycle: "Cycle Count"
+};
+
+// Display names, in lifecycle order
+export const STOCK_COUNT_STATUS_LABELS: Record<StockCountStatus, string> = {
+  counting: "Counting",
+  review: "Awaiting Approval",
+  posted: "Posted",
+  cancelled: "Cancelled"
+};
+
+/**
+ * Count number shown on screen and in stock history, e.g. "CNT-00007"
+ */
+export function formatStockCountNumber(id: number): string {
+  return `CNT-${String(id).padStart(5, "0")}`;
+}
+
+/**
+ * Units found over (positive) or under (negative) the expected stock,
+ * or null if the item hasn't been counted
+ */
+export function lineVariance(line: Pick<StockCountLine, "expected" | "counted">): number | null {
+  if (line.counted === undefined) {
+    return null;
+  }
+  // Drop floating point noise from fractional quantities
+  return Math.round((line.counted - line.expected) * 1000) / 1000;
+}
+
+/**
+ * Cost of a line's variance; negative when stock is missing
+ */
+export function lineVarianceValue(line: Pick<StockCountLine, "expected" | "counted" | "unitCost">): number {
+  return roundCurrency((lineVariance(line) || 0) * line.unitCost);
+}
+
+/**
+ * Progress and net variance across a count
+ */
+export function summarizeStockCount(lines: StockCountLine[]) {
+  const counted = lines.filter(line => line.counted !== undefined);
+  const varied = counted.filter(line => lineVariance(line) !== 0);
+  return {
+    lineCount: lines.length,
+    countedCount: counted.length,
+    varianceCount: varied.length,
+    varianceValue: roundCurrency(varied.reduce((sum, line) => sum + lineVarianceValue(line), 0))
+  };
+}
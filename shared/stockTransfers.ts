@@ -0,0 +1,42 @@
+/**
+ * Stock Transfers
+ *
+ * Helpers shared by the server and the transfer screens. A transfer takes
+ * stock out of one location when it is sent and puts it into another when it
+ * is received; while it is in transit the stock is at neither. A transfer
+ * that never arrives can be cancelled, which returns the stock to where it
+ * came from.
+ */
+import type { LotDetails, StockTransferLine, StockTransferStatus } from "./schema";
+import { roundQuantity } from "./weighing";
+
+// Display names, in lifecycle order
+export const STOCK_TRANSFER_STATUS_LABELS: Record<StockTransferStatus, string> = {
+  in_transit: "In Transit",
+  received: "Received",
+  cancelled: "Cancelled"
+};
+
+/**
+ * Transfer number shown on screen and in stock history, e.g. "TRF-00012"
+ */
+export function formatStockTransferNumber(id: number): string {
+  return `TRF-${String(id).padStart(5, "0")}`;
+}
+
+/**
+ * Units on a transfer, across all its lines
+ */
+export function transferQuantity(lines: Pick<StockTransferLine, "quantity">[]): number {
+  return roundQuantity(lines.reduce((sum, line) => sum + line.quantity, 0));
+}
+
+/**
+ * Split a line into the portions to put back into stock, each with the lot
+ * it was taken from; stock that wasn't held in lots comes back without one
+ */
+export function transferPortions(line: StockTransferLine): { quantity: number; lot?: LotDetails }[] {
+  const portions = (line.lots || []).map(({ quantity, ...lot }) => ({ quantity, lot }));
+  const unlotted = roundQuantity(line.quantity - portions.reduce((sum, portion) => sum + portion.quantity, 0));
+  return unlotted > 0 ? [...portions, { quantity: unlotted }] : portions;
+}
@@ -0,0 +1,58 @@
+/**
+ * Sales Tax
+ *
+ * Tax rules shared by the server, which computes the tax recorded on each
+ * sale, and the POS, which shows the same figures before checkout. Rates are
+ * percentages; tax is calculated and rounded per line.
+ */
+
+// Tax configuration stored with the store settings
+export type TaxSettings = {
+  taxRate?: number;                          // Store default rate (%)
+  taxCategoryRates?: Record<string, number>; // Per-category overrides (%)
+};
+
+// Inventory fields that decide how an item is taxed
+export type TaxableItem = {
+  category: string;
+  taxExempt?: boolean;
+};
+
+/**
+ * Round an amount to whole cents
+ */
+export function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Get the tax rate that applies to an item
+ * Exempt items pay no tax; otherwise a category override wins over the store default.
+ *
+ * @param item - Item category and exemption flag
+ * @param settings - Store tax settings
+ * @returns Tax rate in percent
+ */
+export function getTaxRate(item: TaxableItem, settings: TaxSettings): number {
+  if (item.taxExempt) {
+    return 0;
+  }
+
+  const categoryRate = settings.taxCategoryRates?.[item.category];
+  if (typeof categoryRate === "number") {
+    return categoryRate;
+  }
+
+  return settings.taxRate || 0;
+}
+
+/**
+ * Calculate the tax on one sale line
+ *
+ * @param subtotal - Line subtotal before tax
+ * @param rate - Tax rate in percent
+ * @returns Tax rounded to cents
+ */
+export function calculateLineTax(subtotal: number, rate: number): number {
+  return roundCurrency(subtotal * rate / 100);
+}
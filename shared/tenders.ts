@@ -0,0 +1,79 @@
+/**
+ * Tenders
+ *
+ * How a customer paid for a sale. A sale may be split across several tenders;
+ * only cash can be over-tendered, and the excess is handed back as change.
+ * The POS uses these rules to show the balance and change due, and the server
+ * uses them to check the tenders recorded with each sale.
+ */
+import type { Tender } from "./schema";
+import { roundCurrency } from "./tax";
+
+export type TenderType = Tender["type"];
+
+// Display names, in the order the POS offers them
+export const TENDER_LABELS: Record<TenderType, string> = {
+  cash: "Cash",
+  card: "Card",
+  gift_card: "Gift Card",
+  store_credit: "Store Credit"
+};
+
+// Result of checking tenders against a sale total
+export type TenderSettlement = {
+  tendered: number;      // Sum of all tenders
+  balanceDue: number;    // Still to pay; 0 once the total is covered
+  change: number;        // Cash to hand back
+  error?: string;        // Why the tenders cannot settle the sale
+};
+
+/**
+ * Check tenders against a sale total and work out the change due
+ *
+ * @param tenders - Payments taken so far
+ * @param total - Sale total including tax
+ * @returns Amount tendered, balance and change, with an error if the tenders
+ *          do not cover the total or overpay with something other than cash
+ */
+export function settleTenders(tenders: Tender[], total: number): TenderSettlement {
+  const tendered = roundCurrency(tenders.reduce((sum, tender) => sum + tender.amount, 0));
+  const cash = roundCurrency(tenders
+    .filter(tender => tender.type === "cash")
+    .reduce((sum, tender) => sum + tender.amount, 0));
+  const overpaid = roundCurrency(tendered - total);
+
+  if (overpaid < 0) {
+    return {
+      tendered,
+      balanceDue: -overpaid,
+      change: 0,
+      error: `$${(-overpaid).toFixed(2)} is still due`
+    };
+  }
+
+  // Card, gift card and store credit must be charged no more than is due
+  if (overpaid > cash) {
+    return {
+      tendered,
+      balanceDue: 0,
+      change: 0,
+      error: "Only cash can be tendered over the amount due"
+    };
+  }
+
+  return { tendered, balanceDue: 0, change: overpaid };
+}
+
+/**
+ * Check whether any of the tenders is cash, so the drawer needs to open
+ */
+export function includesCash(tenders: Tender[] | undefined): boolean {
+  return !!tenders?.some(tender => tender.type === "cash");
+}
+
+/**
+ * Describe tenders for logs, e.g. "Cash $20.00, Card $5.50"
+ */
+export function describeTenders(tenders: Tender[]): string {
+  return tenders.map(tender => `${TENDER_LABELS[tender.type]} $${tender.amount.toFixed(2)}`).join(", ");
+}
@@ -0,0 +1,75 @@
+/**
+ * Product Variants
+ *
+ * A variant group is a parent product, such as a T-shirt, with attributes
+ * like Size and Color. Each variant is an ordinary inventory item with its
+ * own SKU, price and stock, linked to the group and given a value for every
+ * attribute. No two variants in a group share the same values.
+ */
+import type { VariantAttributes, VariantGroup } from "./schema";
+
+// The parts of an inventory item that variant rules need
+type VariantItem = {
+  id: number;
+  sku: string;
+  variantGroupId?: number;
+  variantAttributes?: VariantAttributes;
+};
+
+/**
+ * A variant's attribute values in the group's order, e.g. "Large / Red"
+ */
+export function formatVariantAttributes(
+  group: Pick<VariantGroup, "attributes">,
+  attributes: VariantAttributes = {}
+): string {
+  return group.attributes
+    .map(name => attributes[name])
+    .filter(Boolean)
+    .join(" / ");
+}
+
+/**
+ * Catalog name for a new variant, e.g. "Crew T-Shirt - Large / Red"
+ */
+export function variantName(group: Pick<VariantGroup, "name" | "attributes">, attributes: VariantAttributes): string {
+  const values = formatVariantAttributes(group, attributes);
+  return values ? `${group.name} - ${values}` : group.name;
+}
+
+/**
+ * Check that an item's attribute values fit its group
+ *
+ * @param group - The variant group the item belongs to
+ * @param attributes - The item's attribute values
+ * @param items - Current catalog, to find the group's other variants
+ * @param excludeId - The item being edited
+ * @returns A message describing the problem, or null if the values are valid
+ */
+export function findVariantProblem(
+  group: VariantGroup,
+  attributes: VariantAttributes,
+  items: VariantItem[],
+  excludeId?: number
+): string | null {
+  const unknown = Object.keys(attributes).find(name => !group.attributes.includes(name));
+  if (unknown) {
+    return `${unknown} is not an attribute of ${group.name}`;
+  }
+
+  const missing = group.attributes.find(name => !attributes[name]);
+  if (missing) {
+    return `Enter a ${missing} for this ${group.name} variant`;
+  }
+
+  const duplicate = items.find(item =>
+    item.id !== excludeId &&
+    item.variantGroupId === group.id &&
+    group.attributes.every(name => item.variantAttributes?.[name]?.toLowerCase() === attributes[name].toLowerCase())
+  );
+  if (duplicate) {
+    return `${group.name} already has a ${formatVariantAttributes(group, attributes)} variant (SKU: ${duplicate.sku})`;
+  }
+
+  return null;
+}
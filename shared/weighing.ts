@@ -0,0 +1,158 @@
+/**
+ * Weighed Items
+ *
+ * Items sold by weight (or any other measure) are sold in fractional
+ * quantities of their unit, e.g. 1.235 kg, and stock goes down by the weight
+ * sold. Weights are entered at the POS with the container's tare taken off, or
+ * read from the labels printed by in-store scales: EAN-13 codes in the "2x"
+ * prefix range that embed the item's PLU and either the weight or the price.
+ */
+
+// Quantities are kept to thousandths of a unit (grams of a kilogram)
+export const QUANTITY_DECIMALS = 3;
+
+// How scale labels are laid out, stored with the store settings
+export type ScaleBarcodeSettings = {
+  weightPrefixes: string[];  // Prefixes of labels that embed the weight
+  pricePrefixes: string[];   // Prefixes of labels that embed the price
+  pluLength: number;         // Digits of the item's PLU after the prefix
+};
+
+export const DEFAULT_SCALE_BARCODES: ScaleBarcodeSettings = {
+  weightPrefixes: ["21", "22"],
+  pricePrefixes: ["20", "23"],
+  pluLength: 5
+};
+
+// A decoded scale label
+export type ScaleBarcode = {
+  plu: string;
+  kind: "weight" | "price";
+  value: number;             // Weight in the item's unit, or price in dollars
+};
+
+// The parts of an inventory item that weighed sales need
+type Weighable = {
+  price: number;
+  soldByWeight?: boolean;
+  plu?: string;
+};
+
+export type ScaleBarcodeMatch<T extends Weighable> = {
+  item: T;
+  quantity: number;          // Weight sold
+  barcode: ScaleBarcode;
+};
+
+/**
+ * Round a quantity to the precision stock is kept in
+ */
+export function roundQuantity(value: number): number {
+  const factor = 10 ** QUANTITY_DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Whether a quantity can be sold of an item
+ * Weighed items take any positive weight; everything else sells in whole units.
+ */
+export function isValidQuantity(item: { soldByWeight?: boolean }, quantity: number): boolean {
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    return false;
+  }
+  return item.soldByWeight ? roundQuantity(quantity) > 0 : Number.isInteger(quantity);
+}
+
+/**
+ * Weight of the goods alone, with the container's tare taken off
+ *
+ * @param gross - Weight shown by the scale
+ * @param tare - Weight of the empty container
+ * @returns Net weight, or 0 if the tare is at least the gross weight
+ */
+export function netWeight(gross: number, tare = 0): number {
+  return Math.max(0, roundQuantity(gross - tare));
+}
+
+/**
+ * Check digit of an EAN-13 code's first 12 digits
+ */
+function ean13CheckDigit(digits: string): number {
+  const sum = digits
+    .split("")
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Decode a label printed by an in-store scale
+ * The code is the 2-digit prefix, the PLU, the embedded value and a check
+ * digit. Weights are in thousandths of the item's unit, prices in cents.
+ *
+ * @param code - Scanned code
+ * @param settings - Label layout
+ * @returns The PLU and embedded value, or null if the code isn't a scale label
+ */
+export function parseScaleBarcode(
+  code: string,
+  settings: ScaleBarcodeSettings = DEFAULT_SCALE_BARCODES
+): ScaleBarcode | null {
+  const scanned = code.trim();
+  if (!/^2\d{12}$/.test(scanned) || ean13CheckDigit(scanned.slice(0, 12)) !== Number(scanned[12])) {
+    return null;
+  }
+
+  const prefix = scanned.slice(0, 2);
+  const kind = settings.weightPrefixes.includes(prefix)
+    ? "weight"
+    : settings.pricePrefixes.includes(prefix) ? "price" : null;
+  if (!kind) {
+    return null;
+  }
+
+  const plu = scanned.slice(2, 2 + settings.pluLength);
+  const embedded = Number(scanned.slice(2 + settings.pluLength, 12));
+  return {
+    plu,
+    kind,
+    value: kind === "weight" ? embedded / 10 ** QUANTITY_DECIMALS : embedded / 100
+  };
+}
+
+/**
+ * Find the weighed item a scale label was printed for
+ * A price label sells the weight that price buys at the item's current price.
+ *
+ * @param items - Catalog to search
+ * @param code - Scanned code
+ * @param settings - Label layout
+ * @returns The item and weight sold, or null if the code isn't a label for a weighed item
+ */
+export function resolveScaleBarcode<T extends Weighable>(
+  items: T[],
+  code: string,
+  settings: ScaleBarcodeSettings = DEFAULT_SCALE_BARCODES
+): ScaleBarcodeMatch<T> | null {
+  const barcode = parseScaleBarcode(code, settings);
+  if (!barcode) {
+    return null;
+  }
+
+  // PLUs are compared as numbers so "00042" on a label matches "42" in the catalog
+  const item = items.find(entry => entry.soldByWeight && entry.plu && Number(entry.plu) === Number(barcode.plu));
+  if (!item) {
+    return null;
+  }
+
+  const quantity = barcode.kind === "weight"
+    ? roundQuantity(barcode.value)
+    : item.price > 0 ? roundQuantity(barcode.value / item.price) : 0;
+  return quantity > 0 ? { item, quantity, barcode } : null;
+}
+
+/**
+ * Show a quantity with as many decimals as it needs, e.g. 2, 0.5 or 1.235
+ */
+export function formatQuantity(quantity: number): string {
+  return String(roundQuantity(quantity));
+}